@@ -6,7 +6,9 @@ const {
   handleUpdateBucket,
   handleDeleteBucket,
 } = require('../../server/controllers/suggestedBuckets.controller');
-const { checkAdminAuth } = require('../../server/middleware/auth');
+const { requirePermission } = require('../../server/middleware/auth');
+
+const canManageBuckets = requirePermission('suggested-buckets');
 
 module.exports = async (req, res) => {
   // Enable CORS
@@ -40,8 +42,8 @@ module.exports = async (req, res) => {
         return await handleGetAllBuckets(mockReq, res);
       }
     } else if (req.method === 'POST') {
-      // Check auth before creating
-      return checkAdminAuth(mockReq, res, async () => {
+      // Check the user's role before creating
+      return canManageBuckets(mockReq, res, async () => {
         await handleCreateBucket(mockReq, res);
       });
     } else if (req.method === 'PUT') {
@@ -51,8 +53,8 @@ module.exports = async (req, res) => {
           message: 'Bucket ID is required',
         });
       }
-      // Check auth before updating
-      return checkAdminAuth(mockReq, res, async () => {
+      // Check the user's role before updating
+      return canManageBuckets(mockReq, res, async () => {
         await handleUpdateBucket(mockReq, res);
       });
     } else if (req.method === 'DELETE') {
@@ -62,8 +64,8 @@ module.exports = async (req, res) => {
           message: 'Bucket ID is required',
         });
       }
-      // Check auth before deleting
-      return checkAdminAuth(mockReq, res, async () => {
+      // Check the user's role before deleting
+      return canManageBuckets(mockReq, res, async () => {
         await handleDeleteBucket(mockReq, res);
       });
     } else {
@@ -1,21 +1,59 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useRef, lazy, Suspense } from 'react';
 import { Navigation } from './components/Navigation';
-import { HomePage } from './components/HomePage';
-import { InvestmentPlanPage } from './components/InvestmentPlanPage';
-import { RetirementPlanPage } from './components/RetirementPlanPage';
-import { FinancialPlanningPage } from './components/FinancialPlanningPage';
-import { AIStockAnalysisPage } from './components/AIStockAnalysisPage';
-import { BlogsPage } from './components/BlogsPage';
-import { BlogDetailPage } from './components/BlogDetailPage';
-import { NewsPage } from './components/NewsPage';
-import { StockIndicesPage } from './components/StockIndicesPage';
-import { AdminPage } from './components/AdminPage';
 import { Footer } from './components/Footer';
 import { LoginModal } from './components/LoginModal';
 import { useAuth } from './contexts/AuthContext';
+import { useRouter } from './contexts/RouterContext';
 import { useIdleTimer } from './hooks/useIdleTimer';
-import type { Bucket } from './types/bucket';
+import type { Bucket, BucketResults, BucketSwpConfig } from './types/bucket';
+import {
+  fetchPortfolios,
+  createPortfolio,
+  updatePortfolio,
+  savePortfolioResults,
+  fetchPortfolioVersions,
+  restorePortfolioVersion,
+  deletePortfolio,
+} from './services/portfoliosService';
 import type { SuggestedBucket } from './types/suggestedBucket';
+import type { ExitLoadSchedule } from './utils/exitLoad';
+import type { CalculatorScenario, SWPPlanMode } from './types/scenario';
+import type { InvestmentType } from './components/InvestmentTab';
+import { readScenarioFromSearch } from './utils/scenarioLink';
+import { fetchFundMetadata } from './services/navService';
+import { blogPath, CALCULATOR_ROUTES, calculatorPath, CalculatorType, indexPath, pagePath } from './utils/routes';
+
+// Each page is its own bundle, loaded on first visit
+const HomePage = lazy(() => import('./components/HomePage').then((m) => ({ default: m.HomePage })));
+const InvestmentPlanPage = lazy(() =>
+  import('./components/InvestmentPlanPage').then((m) => ({ default: m.InvestmentPlanPage }))
+);
+const RetirementPlanPage = lazy(() =>
+  import('./components/RetirementPlanPage').then((m) => ({ default: m.RetirementPlanPage }))
+);
+const HoldingsPage = lazy(() => import('./components/HoldingsPage').then((m) => ({ default: m.HoldingsPage })));
+const FundComparisonPage = lazy(() =>
+  import('./components/FundComparisonPage').then((m) => ({ default: m.FundComparisonPage }))
+);
+const FinancialPlanningPage = lazy(() =>
+  import('./components/FinancialPlanningPage').then((m) => ({ default: m.FinancialPlanningPage }))
+);
+const AIStockAnalysisPage = lazy(() =>
+  import('./components/AIStockAnalysisPage').then((m) => ({ default: m.AIStockAnalysisPage }))
+);
+const BlogsPage = lazy(() => import('./components/BlogsPage').then((m) => ({ default: m.BlogsPage })));
+const BlogDetailPage = lazy(() => import('./components/BlogDetailPage').then((m) => ({ default: m.BlogDetailPage })));
+const NewsPage = lazy(() => import('./components/NewsPage').then((m) => ({ default: m.NewsPage })));
+const StockIndicesPage = lazy(() =>
+  import('./components/StockIndicesPage').then((m) => ({ default: m.StockIndicesPage }))
+);
+const AdminPage = lazy(() => import('./components/AdminPage').then((m) => ({ default: m.AdminPage })));
+
+const PageLoader = () => (
+  <div className="min-h-[60vh] flex items-center justify-center">
+    <div className="w-12 h-12 border-4 border-blue-600 border-t-transparent rounded-full animate-spin" />
+  </div>
+);
 
 
 export interface Fund {
@@ -27,9 +65,10 @@ export interface Fund {
 
 export interface SelectedFund extends Fund {
   weightage: number;
+  exitLoad?: ExitLoadSchedule; // no exit load when unset
 }
 
-export type PageType = 'home' | 'investment-plan' | 'retirement-plan' | 'financial-planning' | 'ai-stock-analysis' | 'stock-indices' | 'blogs' | 'blog-detail' | 'news' | 'admin';
+export type PageType = 'home' | 'investment-plan' | 'retirement-plan' | 'holdings' | 'compare' | 'financial-planning' | 'ai-stock-analysis' | 'stock-indices' | 'blogs' | 'blog-detail' | 'news' | 'admin';
 
 // Utility function to distribute 100% weightage as whole numbers
 const distributeWeightage = (count: number): number[] => {
@@ -49,15 +88,29 @@ const distributeWeightage = (count: number): number[] => {
   return weights;
 };
 
+// Saved buckets have a server version; local ones (created while logged out) don't
+const isSavedBucket = (bucket: Bucket) => bucket.version !== undefined;
+
+const sameFunds = (a: SelectedFund[], b: SelectedFund[]) =>
+  a.length === b.length &&
+  a.every((fund, index) => fund.id === b[index].id && fund.weightage === b[index].weightage);
+
 export default function App() {
   const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { route, location, navigate } = useRouter();
+  const activePage: PageType = route?.page ?? 'home';
+  const calculatorRoute = route?.params.type ? CALCULATOR_ROUTES[route.params.type as CalculatorType] : null;
 
   // Separate fund selections for Investment and Retirement plans
   const [investmentFunds, setInvestmentFunds] = useState<SelectedFund[]>([]);
   const [retirementFunds, setRetirementFunds] = useState<SelectedFund[]>([]);
-  const [activePage, setActivePage] = useState<PageType>('home');
   const [buckets, setBuckets] = useState<Bucket[]>([]);
-  const [selectedBlogId, setSelectedBlogId] = useState<string | null>(null);
+  const [activeBucketId, setActiveBucketId] = useState<string | null>(null);
+  const [bucketSyncError, setBucketSyncError] = useState<string | null>(null);
+  const bucketsRef = useRef<Bucket[]>(buckets);
+  bucketsRef.current = buckets;
+  // Calculator scenario opened from a permalink; the key remounts the calculator for each link
+  const [sharedScenario, setSharedScenario] = useState<{ scenario: CalculatorScenario; key: number } | null>(null);
 
   // Login modal state
   const [showLoginModal, setShowLoginModal] = useState(false);
@@ -90,36 +143,94 @@ export default function App() {
     }
   }, [isAuthenticated]);
 
-  // Handle URL hash for direct navigation (including admin access via #admin)
+  // Load saved buckets on login, saving any created while logged out.
+  // On logout only the local buckets are kept.
   useEffect(() => {
-    const hash = window.location.hash.slice(1);
-    if (hash) {
-      // Check if it's a blog detail URL (format: blog-detail?id=xxx)
-      if (hash.startsWith('blog-detail')) {
-        const params = new URLSearchParams(hash.split('?')[1]);
-        const blogId = params.get('id');
-        if (blogId) {
-          setSelectedBlogId(blogId);
-          setActivePage('blog-detail');
+    if (authLoading) return;
+    if (!isAuthenticated) {
+      setBuckets(prev => prev.filter(b => !isSavedBucket(b)));
+      setActiveBucketId(null);
+      return;
+    }
+
+    const loadPortfolios = async () => {
+      const unsaved = bucketsRef.current.filter(b => !isSavedBucket(b));
+      const created = new Map<string, Bucket>();
+      const failed: Bucket[] = [];
+      for (const bucket of unsaved) {
+        try {
+          created.set(bucket.id, await createPortfolio(bucket));
+        } catch {
+          failed.push(bucket);
         }
-      } else if (['home', 'investment-plan', 'retirement-plan', 'financial-planning', 'ai-stock-analysis', 'stock-indices', 'blogs', 'admin'].includes(hash)) {
-        setActivePage(hash as PageType);
-        setSelectedBlogId(null);
       }
-    }
-  }, []);
 
-  // Listen for hash changes
-  useEffect(() => {
-    const handleHashChange = () => {
-      const hash = window.location.hash.slice(1);
-      if (hash && ['home', 'investment-plan', 'retirement-plan', 'financial-planning', 'ai-stock-analysis', 'stock-indices', 'blogs', 'admin'].includes(hash)) {
-        setActivePage(hash as PageType);
+      let saved: Bucket[];
+      try {
+        saved = await fetchPortfolios();
+      } catch {
+        // Keep what's on screen, with the buckets just saved in place of their local copies
+        setBuckets(prev => prev.map(b => created.get(b.id) ?? b));
+        setBucketSyncError('Could not load your saved buckets. Please refresh to try again.');
+        return;
       }
+      setBuckets([...saved, ...failed]);
+      setBucketSyncError(failed.length > 0 ? 'Some buckets could not be saved to your account.' : null);
     };
-    window.addEventListener('hashchange', handleHashChange);
-    return () => window.removeEventListener('hashchange', handleHashChange);
-  }, []);
+    loadPortfolios();
+  }, [isAuthenticated, authLoading]);
+
+  // Restore the funds of a shared calculator scenario, then open its page
+  const openScenario = useCallback(async (scenario: CalculatorScenario) => {
+    const ids = scenario.funds.map((fund) => fund.id);
+    let metadata: Fund[] = [];
+    try {
+      metadata = await fetchFundMetadata(ids);
+    } catch {
+      // Still open the scenario; the funds show by scheme code
+    }
+
+    const funds: SelectedFund[] = scenario.funds.map(({ id, weightage, exitLoad }) => {
+      const fund = metadata.find((item) => item.id === id) ?? { id, name: id, launchDate: '', category: 'Unknown' };
+      return exitLoad ? { ...fund, weightage, exitLoad } : { ...fund, weightage };
+    });
+
+    if (scenario.page === 'investment-plan') {
+      setInvestmentFunds(funds);
+    } else {
+      // Results of a shared scenario shouldn't be saved into whichever bucket was open
+      setActiveBucketId(null);
+      setRetirementFunds(funds);
+    }
+    setSharedScenario({ scenario, key: Date.now() });
+    // Drop the encoded scenario so a reload doesn't reopen it over the user's edits
+    navigate(calculatorPath(scenario.calculator, scenario.mode), { replace: true });
+  }, [navigate]);
+
+  // Open a calculator scenario carried in the link
+  const openedScenarioSearch = useRef<string | null>(null);
+  useEffect(() => {
+    if (activePage !== 'investment-plan' && activePage !== 'retirement-plan') return;
+    const scenario = readScenarioFromSearch(location.search);
+    if (!scenario) {
+      openedScenarioSearch.current = null;
+      return;
+    }
+    // Effects may run twice for one link; open it once
+    if (scenario.page !== activePage || openedScenarioSearch.current === location.search) return;
+    openedScenarioSearch.current = location.search;
+    openScenario(scenario);
+  }, [activePage, location.search, openScenario]);
+
+  // A scenario applies until the user leaves its page, however they leave
+  useEffect(() => {
+    if (sharedScenario && sharedScenario.scenario.page !== activePage) setSharedScenario(null);
+  }, [activePage]);
+
+  // Unknown paths go to the home page
+  useEffect(() => {
+    if (!route) navigate(pagePath('home'), { replace: true });
+  }, [route, navigate]);
 
   // Investment Plan Handlers
   const handleAddInvestmentFund = (fund: Fund) => {
@@ -161,6 +272,12 @@ export default function App() {
     ));
   };
 
+  const handleInvestmentExitLoadChange = (fundId: string, exitLoad: ExitLoadSchedule) => {
+    setInvestmentFunds(investmentFunds.map(f =>
+      f.id === fundId ? { ...f, exitLoad } : f
+    ));
+  };
+
   // Retirement Plan Handlers
   const handleAddRetirementFund = (fund: Fund) => {
     if (retirementFunds.find(f => f.id === fund.id)) return;
@@ -201,8 +318,47 @@ export default function App() {
     ));
   };
 
+  const handleRetirementExitLoadChange = (fundId: string, exitLoad: ExitLoadSchedule) => {
+    setRetirementFunds(retirementFunds.map(f =>
+      f.id === fundId ? { ...f, exitLoad } : f
+    ));
+  };
+
   // Bucket Handlers
-  const handleCreateBucket = useCallback((name: string, funds: SelectedFund[]) => {
+  // Logged-in users' buckets are saved to /api/portfolios; otherwise they live in state only.
+  const replaceBucket = (updated: Bucket) => {
+    setBuckets(prev => prev.map(b => (b.id === updated.id ? updated : b)));
+  };
+
+  // A 409 means the bucket was changed elsewhere (e.g. another tab), so reload the latest copies
+  // (keeping any that haven't been saved to the account yet)
+  const handleBucketSyncError = async (error: any, action: string) => {
+    if (error?.status === 409) {
+      try {
+        const saved = await fetchPortfolios();
+        setBuckets(prev => [...saved, ...prev.filter(b => !isSavedBucket(b))]);
+        setBucketSyncError('This bucket was changed elsewhere. The latest version has been loaded.');
+      } catch {
+        setBucketSyncError('This bucket was changed elsewhere. Please refresh to load the latest version.');
+      }
+    } else {
+      setBucketSyncError(`Could not ${action}. Please try again.`);
+    }
+  };
+
+  const handleCreateBucket = useCallback(async (name: string, funds: SelectedFund[]) => {
+    if (isAuthenticated) {
+      try {
+        const saved = await createPortfolio({ name, funds: [...funds] });
+        setBuckets(prev => [saved, ...prev]);
+        setActiveBucketId(saved.id);
+        setBucketSyncError(null);
+      } catch (error) {
+        handleBucketSyncError(error, 'save the bucket');
+      }
+      return;
+    }
+
     const newBucket: Bucket = {
       id: `bucket-${Date.now()}`,
       name,
@@ -210,34 +366,103 @@ export default function App() {
       createdAt: new Date().toISOString(),
     };
     setBuckets(prev => [...prev, newBucket]);
-  }, []);
+    setActiveBucketId(newBucket.id);
+  }, [isAuthenticated]);
 
-  const handleDeleteBucket = useCallback((bucketId: string) => {
+  const handleDeleteBucket = useCallback(async (bucketId: string) => {
+    const bucket = bucketsRef.current.find(b => b.id === bucketId);
+    if (bucket && isSavedBucket(bucket)) {
+      try {
+        await deletePortfolio(bucketId);
+      } catch (error) {
+        handleBucketSyncError(error, 'delete the bucket');
+        return;
+      }
+    }
     setBuckets(prev => prev.filter(b => b.id !== bucketId));
+    setActiveBucketId(prev => (prev === bucketId ? null : prev));
   }, []);
 
-  const handleAddFundsToBucket = useCallback((bucketId: string, funds: SelectedFund[]) => {
-    setBuckets(prev => prev.map(bucket =>
-      bucket.id === bucketId
-        ? { ...bucket, funds: [...funds] }
-        : bucket
-    ));
+  const handleAddFundsToBucket = useCallback(async (bucketId: string, funds: SelectedFund[]) => {
+    const bucket = bucketsRef.current.find(b => b.id === bucketId);
+    if (!bucket) return;
+
+    if (isSavedBucket(bucket)) {
+      try {
+        replaceBucket(await updatePortfolio(bucketId, { funds: [...funds] }, bucket.version));
+        setBucketSyncError(null);
+      } catch (error) {
+        handleBucketSyncError(error, 'update the bucket');
+      }
+      return;
+    }
+
+    replaceBucket({ ...bucket, funds: [...funds] });
   }, []);
 
-  const handleNavigate = (page: PageType, blogId?: string) => {
-    if (page === 'blog-detail' && blogId) {
-      setSelectedBlogId(blogId);
-      setActivePage('blog-detail');
-      window.location.hash = `#blog-detail?id=${blogId}`;
-    } else {
-      setActivePage(page);
-      setSelectedBlogId(null);
-      window.location.hash = `#${page}`;
+  // Opening a bucket loads its funds and SWP settings into the retirement planner
+  const handleOpenBucket = useCallback((bucketId: string) => {
+    const bucket = bucketsRef.current.find(b => b.id === bucketId);
+    if (!bucket) return;
+    setRetirementFunds(bucket.funds.map(fund => ({ ...fund })));
+    setActiveBucketId(bucketId);
+  }, []);
+
+  const handleRestoreBucketVersion = useCallback(async (bucketId: string, version: number) => {
+    try {
+      const restored = await restorePortfolioVersion(bucketId, version);
+      replaceBucket(restored);
+      if (activeBucketId === bucketId) {
+        setRetirementFunds(restored.funds.map(fund => ({ ...fund })));
+      }
+      setBucketSyncError(null);
+    } catch (error) {
+      handleBucketSyncError(error, 'restore that version');
     }
-    // Scroll to top when navigating
-    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }, [activeBucketId]);
+
+  // Saves the calculation against the open bucket, as long as the planner still holds its funds
+  const handleBucketCalculated = useCallback(async (results: BucketResults, swpConfig: BucketSwpConfig | null) => {
+    const bucket = bucketsRef.current.find(b => b.id === activeBucketId);
+    if (!bucket || !sameFunds(bucket.funds, retirementFunds)) return;
+
+    const configChanged = swpConfig !== null && JSON.stringify(swpConfig) !== JSON.stringify(bucket.swpConfig ?? null);
+
+    if (!isSavedBucket(bucket)) {
+      replaceBucket({
+        ...bucket,
+        swpConfig: swpConfig ?? bucket.swpConfig,
+        lastResults: results,
+        lastCalculatedAt: new Date().toISOString(),
+      });
+      return;
+    }
+
+    try {
+      let updated = await savePortfolioResults(bucket.id, results);
+      if (configChanged) {
+        updated = await updatePortfolio(bucket.id, { swpConfig }, bucket.version);
+      }
+      replaceBucket(updated);
+      setBucketSyncError(null);
+    } catch (error) {
+      handleBucketSyncError(error, 'save the results');
+    }
+  }, [activeBucketId, retirementFunds]);
+
+  const activeBucket = buckets.find(b => b.id === activeBucketId) ?? null;
+
+  const handleNavigate = (page: PageType, blogSlug?: string) => {
+    setSharedScenario(null);
+    navigate(page === 'blog-detail' && blogSlug ? blogPath(blogSlug) : pagePath(page));
   };
 
+  const handleSelectInvestmentCalculator = (calculator: InvestmentType) =>
+    navigate(calculator ? calculatorPath(calculator) : pagePath('investment-plan'));
+
+  const handleSelectSwpMode = (mode: SWPPlanMode | null) =>
+    navigate(mode ? calculatorPath('SWP', mode) : pagePath('retirement-plan'));
+
   // Suggested Bucket Import Handler
   const handleImportSuggestedBucket = useCallback((bucket: SuggestedBucket, targetPage: 'investment' | 'retirement') => {
     // Import funds from suggested bucket
@@ -253,9 +478,8 @@ export default function App() {
     }
 
     // Navigate to the target page
-    setActivePage(targetPage === 'investment' ? 'investment-plan' : 'retirement-plan');
-    window.scrollTo({ top: 0, behavior: 'smooth' });
-  }, []);
+    navigate(pagePath(targetPage === 'investment' ? 'investment-plan' : 'retirement-plan'));
+  }, [navigate]);
 
   const renderPage = () => {
     switch (activePage) {
@@ -268,6 +492,11 @@ export default function App() {
             onAddFund={handleAddInvestmentFund}
             onRemoveFund={handleRemoveInvestmentFund}
             onWeightageChange={handleInvestmentWeightageChange}
+            onExitLoadChange={handleInvestmentExitLoadChange}
+            calculator={calculatorRoute?.page === 'investment-plan' ? (calculatorRoute.calculator as InvestmentType) : null}
+            onSelectCalculator={handleSelectInvestmentCalculator}
+            scenario={sharedScenario?.scenario.page === 'investment-plan' ? sharedScenario.scenario : null}
+            scenarioKey={sharedScenario?.key}
           />
         );
       case 'retirement-plan':
@@ -277,22 +506,65 @@ export default function App() {
             onAddFund={handleAddRetirementFund}
             onRemoveFund={handleRemoveRetirementFund}
             onWeightageChange={handleRetirementWeightageChange}
+            onExitLoadChange={handleRetirementExitLoadChange}
+            buckets={buckets}
+            activeBucket={activeBucket}
+            bucketStorageNote={
+              bucketSyncError ??
+              (isAuthenticated
+                ? 'Buckets are saved to your account.'
+                : 'Sign in to keep your buckets after you leave.')
+            }
+            onCreateBucket={handleCreateBucket}
+            onDeleteBucket={handleDeleteBucket}
+            onOpenBucket={handleOpenBucket}
+            onUpdateBucketFunds={handleAddFundsToBucket}
+            onLoadBucketVersions={isAuthenticated ? fetchPortfolioVersions : undefined}
+            onRestoreBucketVersion={handleRestoreBucketVersion}
+            onBucketCalculated={handleBucketCalculated}
+            swpMode={calculatorRoute?.mode ?? null}
+            onSelectSwpMode={handleSelectSwpMode}
+            scenario={sharedScenario?.scenario.page === 'retirement-plan' ? sharedScenario.scenario : null}
+            scenarioKey={sharedScenario?.key}
           />
         );
+      case 'holdings':
+        return <HoldingsPage />;
+      case 'compare':
+        return <FundComparisonPage />;
       case 'financial-planning':
-        return <FinancialPlanningPage />;
+        return <FinancialPlanningPage buckets={buckets} />;
       case 'ai-stock-analysis':
         return <AIStockAnalysisPage onNavigate={handleNavigate} />;
       case 'blogs':
         return <BlogsPage onNavigate={handleNavigate} />;
       case 'blog-detail':
-        return selectedBlogId ? <BlogDetailPage blogId={selectedBlogId} onNavigate={handleNavigate} /> : <BlogsPage onNavigate={handleNavigate} />;
+        return (
+          <BlogDetailPage
+            slug={route?.params.slug}
+            onNavigate={handleNavigate}
+            onSlugChange={(slug) => navigate(blogPath(slug), { replace: true })}
+            onImportBucket={handleImportSuggestedBucket}
+          />
+        );
       case 'news':
         return <NewsPage onNavigate={handleNavigate} />;
       case 'stock-indices':
-        return <StockIndicesPage onNavigate={handleNavigate} />;
+        return (
+          <StockIndicesPage
+            slug={route?.params.slug}
+            onNavigate={handleNavigate}
+            onSelectIndex={(slug) => navigate(indexPath(slug))}
+          />
+        );
       case 'admin':
-        return <AdminPage onNavigate={handleNavigate} />;
+        return (
+          <AdminPage
+            section={route?.params.rest}
+            onNavigate={handleNavigate}
+            onSectionChange={(section) => navigate(`${pagePath('admin')}/${section}`)}
+          />
+        );
       default:
         return <HomePage />;
     }
@@ -309,7 +581,9 @@ export default function App() {
       />
 
       <main className="flex-1">
-        {renderPage()}
+        <Suspense fallback={<PageLoader />}>
+          {renderPage()}
+        </Suspense>
       </main>
 
       {/* Footer */}
@@ -318,7 +592,7 @@ export default function App() {
       {/* Hidden Admin Login Button - Very Subtle, Bottom Right Corner */}
       {activePage === 'home' && (
         <button
-          onClick={() => setActivePage('admin')}
+          onClick={() => handleNavigate('admin')}
           className="fixed bottom-3 right-3 z-50 text-slate-300/5 hover:text-slate-400/20 transition-opacity duration-300 cursor-pointer select-none"
           title=""
           aria-label="Admin Access"
@@ -0,0 +1,364 @@
+// client/src/components/AdminAuditLog.tsx
+import React, { useEffect, useState } from 'react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { ChevronDown, ChevronRight, Download, Loader2 } from 'lucide-react';
+import type { AuditAction, AuditChange, AuditEntry, AuditFilters, AuditTargetType } from '../types/audit';
+import { fetchAuditLogs, downloadAuditLogCsv } from '../services/auditService';
+import { useDebounce } from '../hooks/useDebounce';
+import { diffLines, splitHtmlLines } from '../utils/textDiff';
+import { ROLE_LABELS } from './AdminTeam';
+
+const PAGE_SIZE = 50;
+
+const TARGET_LABELS: Record<AuditTargetType, string> = {
+  blog: 'Blog',
+  'suggested-bucket': 'Suggested bucket',
+  user: 'User',
+  news: 'News',
+};
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Updated',
+  delete: 'Deleted',
+  status: 'Status changed',
+  restore: 'Revision restored',
+  publish: 'Published',
+  role: 'Role changed',
+  refresh: 'Refreshed',
+  cleanup: 'Cleaned up',
+};
+
+const ACTION_BADGE_STYLES: Partial<Record<AuditAction, string>> = {
+  create: 'bg-green-600',
+  delete: 'bg-red-600',
+  role: 'bg-purple-600',
+};
+
+// Longer strings are shown as a line diff rather than side by side
+const LONG_TEXT_LENGTH = 120;
+const MAX_DIFF_LINES = 40;
+
+const formatTimestamp = (value: string) =>
+  new Date(value).toLocaleString('en-IN', { day: 'numeric', month: 'short', year: 'numeric', hour: 'numeric', minute: '2-digit', second: '2-digit' });
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'string') return value;
+  const json = JSON.stringify(value);
+  return json.length > 300 ? `${json.slice(0, 300)}…` : json;
+};
+
+// Start and end of the picked days, as the server compares timestamps
+const dayStart = (date: string) => (date ? new Date(`${date}T00:00:00`).toISOString() : undefined);
+const dayEnd = (date: string) => (date ? new Date(`${date}T23:59:59.999`).toISOString() : undefined);
+
+type BucketFund = { id: string; name?: string; weightage?: number };
+
+const isFundList = (value: unknown): value is BucketFund[] =>
+  Array.isArray(value) && value.every((item) => item && typeof item === 'object' && 'id' in item);
+
+/**
+ * Each fund's weight before and after, so a reweighted bucket reads at a glance
+ */
+function FundWeightChange({ before, after }: { before: BucketFund[]; after: BucketFund[] }) {
+  const ids = [...new Set([...before.map((fund) => fund.id), ...after.map((fund) => fund.id)])];
+  return (
+    <table className="text-xs">
+      <tbody>
+        {ids.map((id) => {
+          const previous = before.find((fund) => fund.id === id);
+          const next = after.find((fund) => fund.id === id);
+          const changed = previous?.weightage !== next?.weightage;
+          return (
+            <tr key={id} className={changed ? 'text-gray-900 font-medium' : 'text-gray-500'}>
+              <td className="pr-4 py-0.5">{next?.name ?? previous?.name ?? id}</td>
+              <td className="pr-2 text-right">{previous ? `${previous.weightage}%` : '—'}</td>
+              <td className="pr-2">→</td>
+              <td className="text-right">{next ? `${next.weightage}%` : 'removed'}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
+
+function TextChange({ before, after }: { before: string; after: string }) {
+  const changed = diffLines(splitHtmlLines(before), splitHtmlLines(after)).filter((line) => line.type !== 'same');
+  return (
+    <div className="font-mono text-xs max-h-64 overflow-y-auto rounded border bg-gray-50">
+      {changed.slice(0, MAX_DIFF_LINES).map((line, index) => (
+        <div
+          key={index}
+          className={`px-2 py-0.5 whitespace-pre-wrap break-words ${
+            line.type === 'added' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          }`}
+        >
+          {line.type === 'added' ? '+ ' : '- '}
+          {line.text}
+        </div>
+      ))}
+      {changed.length > MAX_DIFF_LINES && (
+        <div className="px-2 py-1 text-gray-500">…and {changed.length - MAX_DIFF_LINES} more changed lines</div>
+      )}
+    </div>
+  );
+}
+
+function ChangeView({ change }: { change: AuditChange }) {
+  const { before, after } = change;
+  let body: React.ReactNode;
+  if (change.field === 'funds' && isFundList(before ?? []) && isFundList(after ?? [])) {
+    body = <FundWeightChange before={(before as BucketFund[]) ?? []} after={(after as BucketFund[]) ?? []} />;
+  } else if (
+    typeof before === 'string' &&
+    typeof after === 'string' &&
+    (before.length > LONG_TEXT_LENGTH || after.length > LONG_TEXT_LENGTH || before.includes('\n'))
+  ) {
+    body = <TextChange before={before} after={after} />;
+  } else {
+    body = (
+      <div className="text-xs break-words">
+        <span className="text-red-700 line-through decoration-red-300">{formatValue(before)}</span>
+        <span className="mx-2 text-gray-400">→</span>
+        <span className="text-green-700">{formatValue(after)}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-[10rem_1fr] gap-1 sm:gap-3 py-1.5">
+      <span className="text-xs font-medium text-gray-700">{change.field}</span>
+      {body}
+    </div>
+  );
+}
+
+/**
+ * Every admin, cron and scheduled change, newest first (admins only)
+ */
+export function AdminAuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const [targetType, setTargetType] = useState<AuditTargetType | 'all'>('all');
+  const [action, setAction] = useState<AuditAction | 'all'>('all');
+  const [actor, setActor] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const debouncedActor = useDebounce(actor.trim(), 400);
+
+  const filters: AuditFilters = {
+    targetType: targetType === 'all' ? undefined : targetType,
+    action: action === 'all' ? undefined : action,
+    actor: debouncedActor || undefined,
+    from: dayStart(from),
+    to: dayEnd(to),
+  };
+  const filterKey = JSON.stringify(filters);
+
+  const loadEntries = async (skip: number) => {
+    setIsLoading(true);
+    try {
+      const result = await fetchAuditLogs({ ...filters, limit: PAGE_SIZE, skip });
+      setEntries((current) => (skip === 0 ? result.data : [...current, ...result.data]));
+      setTotal(result.pagination.total);
+      setHasMore(result.pagination.hasMore);
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setExpandedId(null);
+    loadEntries(0);
+  }, [filterKey]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      await downloadAuditLogCsv(filters);
+    } catch (err: any) {
+      alert(`Error exporting audit log: ${err.message}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Audit Log</h2>
+          <p className="text-sm text-gray-600 mt-1">Who changed what, and when. Entries can't be edited or removed.</p>
+        </div>
+        <Button variant="outline" onClick={handleExport} disabled={isExporting} className="gap-2">
+          {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          Export CSV
+        </Button>
+      </div>
+
+      <Card className="p-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+          <Select value={targetType} onValueChange={(value: AuditTargetType | 'all') => setTargetType(value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Everything</SelectItem>
+              {(Object.keys(TARGET_LABELS) as AuditTargetType[]).map((type) => (
+                <SelectItem key={type} value={type}>{TARGET_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={action} onValueChange={(value: AuditAction | 'all') => setAction(value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All actions</SelectItem>
+              {(Object.keys(ACTION_LABELS) as AuditAction[]).map((option) => (
+                <SelectItem key={option} value={option}>{ACTION_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input value={actor} onChange={(e) => setActor(e.target.value)} placeholder="Who (name or email)" />
+          <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} aria-label="From date" />
+          <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} aria-label="To date" />
+        </div>
+      </Card>
+
+      {error ? (
+        <Card className="p-6 text-center text-sm text-red-600">{error}</Card>
+      ) : isLoading && entries.length === 0 ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
+        </div>
+      ) : (
+        <Card>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>When</TableHead>
+                  <TableHead>Who</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Target</TableHead>
+                  <TableHead>Changed</TableHead>
+                  <TableHead>IP</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8 text-gray-500">
+                      No changes match these filters.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  entries.map((entry) => {
+                    const expanded = expandedId === entry.id;
+                    const canExpand = entry.changes.length > 0 || !!entry.details;
+                    return (
+                      <React.Fragment key={entry.id}>
+                        <TableRow
+                          className={canExpand ? 'cursor-pointer' : undefined}
+                          onClick={() => canExpand && setExpandedId(expanded ? null : entry.id)}
+                        >
+                          <TableCell>
+                            {canExpand &&
+                              (expanded ? (
+                                <ChevronDown className="w-4 h-4 text-gray-500" />
+                              ) : (
+                                <ChevronRight className="w-4 h-4 text-gray-500" />
+                              ))}
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap text-sm">{formatTimestamp(entry.createdAt)}</TableCell>
+                          <TableCell>
+                            <div className="text-sm font-medium text-gray-900">{entry.actor.name}</div>
+                            <div className="text-xs text-gray-500">
+                              {entry.actor.email}
+                              {entry.actor.role && ` · ${ROLE_LABELS[entry.actor.role] ?? entry.actor.role}`}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <Badge className={ACTION_BADGE_STYLES[entry.action] ?? 'bg-blue-600'}>
+                              {ACTION_LABELS[entry.action] ?? entry.action}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div className="text-xs text-gray-500">{TARGET_LABELS[entry.target.type] ?? entry.target.type}</div>
+                            <div className="text-sm text-gray-900 max-w-xs truncate">{entry.target.label || entry.target.id}</div>
+                          </TableCell>
+                          <TableCell className="text-xs text-gray-600 max-w-xs">
+                            {entry.action === 'create' || entry.action === 'delete'
+                              ? `${entry.changes.length} fields`
+                              : entry.changes.map((change) => change.field).join(', ') || '—'}
+                          </TableCell>
+                          <TableCell className="text-xs text-gray-500 whitespace-nowrap">{entry.ip || '—'}</TableCell>
+                        </TableRow>
+                        {expanded && (
+                          <TableRow className="bg-gray-50/60 hover:bg-gray-50/60">
+                            <TableCell />
+                            <TableCell colSpan={6}>
+                              <div className="divide-y">
+                                {entry.changes.map((change) => (
+                                  <ChangeView key={change.field} change={change} />
+                                ))}
+                              </div>
+                              {entry.details && (
+                                <div className="text-xs text-gray-600 pt-2">
+                                  {Object.entries(entry.details).map(([key, value]) => (
+                                    <span key={key} className="mr-4">
+                                      {key}: <span className="font-medium text-gray-900">{formatValue(value)}</span>
+                                    </span>
+                                  ))}
+                                </div>
+                              )}
+                              {entry.target.id && (
+                                <div className="text-xs text-gray-400 pt-2">ID {entry.target.id}</div>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </React.Fragment>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </Card>
+      )}
+
+      {!error && entries.length > 0 && (
+        <div className="flex items-center justify-between text-sm text-gray-600">
+          <span>
+            Showing {entries.length} of {total}
+          </span>
+          {hasMore && (
+            <Button variant="outline" size="sm" onClick={() => loadEntries(entries.length)} disabled={isLoading}>
+              {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Load more
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,21 +4,35 @@ import { Card } from './ui/card';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
-import { Textarea } from './ui/textarea';
 import { Badge } from './ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
 import { Switch } from './ui/switch';
-import { Plus, Edit, Trash2, Save, X, Loader2, Image as ImageIcon } from 'lucide-react';
-import type { Blog, Category, Tag } from '../types/blog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Plus, Edit, Trash2, Save, X, Loader2, History, Image as ImageIcon } from 'lucide-react';
+import type { Blog, BlogContentFormat, BlogStatus, Category, Tag } from '../types/blog';
 import {
-  fetchBlogs,
+  fetchAdminBlogs,
   fetchCategories,
   fetchTags,
   createBlog,
   updateBlog,
   deleteBlog,
 } from '../services/blogsService';
+import { BlogWorkflowMenu } from './BlogWorkflowMenu';
+import { BlogRevisionHistory } from './BlogRevisionHistory';
+import { BlogContentEditor } from './BlogContentEditor';
+import { BLOG_STATUS_LABELS } from '../utils/blogWorkflow';
+
+const STATUS_BADGE_STYLES: Record<BlogStatus, string> = {
+  draft: 'bg-gray-200 text-gray-700',
+  in_review: 'bg-amber-500',
+  scheduled: 'bg-blue-600',
+  published: 'bg-green-600',
+};
+
+const formatScheduleDate = (value: string) =>
+  new Date(value).toLocaleString('en-IN', { day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit' });
 
 export function AdminBlogs() {
   const [blogs, setBlogs] = useState<Blog[]>([]);
@@ -29,16 +43,18 @@ export function AdminBlogs() {
   const [editingBlogId, setEditingBlogId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<BlogStatus | 'all'>('all');
+  const [historyBlog, setHistoryBlog] = useState<Blog | null>(null);
 
   // Form state
   const [title, setTitle] = useState('');
   const [content, setContent] = useState('');
+  const [contentFormat, setContentFormat] = useState<BlogContentFormat>('markdown');
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imageUrl, setImageUrl] = useState('');
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [exclusive, setExclusive] = useState(false);
-  const [isPublished, setIsPublished] = useState(true);
   const [newCategory, setNewCategory] = useState('');
   const [newTag, setNewTag] = useState('');
 
@@ -50,7 +66,7 @@ export function AdminBlogs() {
     setIsLoading(true);
     try {
       const [blogsResult, categoriesData, tagsData] = await Promise.all([
-        fetchBlogs({ isPublished: undefined, limit: 100 }), // Get all blogs for admin
+        fetchAdminBlogs({ limit: 100 }), // Every status
         fetchCategories(),
         fetchTags(),
       ]);
@@ -67,13 +83,13 @@ export function AdminBlogs() {
   const resetForm = () => {
     setTitle('');
     setContent('');
+    setContentFormat('markdown');
     setImageFile(null);
     setImageUrl('');
     setImagePreview(null);
     setSelectedCategories([]);
     setSelectedTags([]);
     setExclusive(false);
-    setIsPublished(true);
     setNewCategory('');
     setNewTag('');
     setIsEditing(false);
@@ -84,12 +100,12 @@ export function AdminBlogs() {
     if (blog) {
       setTitle(blog.title);
       setContent(blog.content);
+      setContentFormat(blog.contentFormat);
       setImageUrl(blog.imageUrl);
       setImagePreview(blog.imageUrl);
       setSelectedCategories([...blog.categories]);
       setSelectedTags([...blog.tags]);
       setExclusive(blog.exclusive);
-      setIsPublished(blog.isPublished);
       setIsEditing(true);
       setEditingBlogId(blog.id);
     } else {
@@ -153,12 +169,12 @@ export function AdminBlogs() {
       const blogData = {
         title: title.trim(),
         content: content.trim(),
+        contentFormat,
         image: imageFile || undefined,
         imageUrl: imageUrl || undefined,
         categories: selectedCategories,
         tags: selectedTags,
         exclusive,
-        isPublished,
       };
 
       let createdBlog;
@@ -182,7 +198,7 @@ export function AdminBlogs() {
         // Blog might have been created, try to reload and show success
         try {
           await loadData();
-          const blogs = await fetchBlogs({ isPublished: undefined, limit: 100 });
+          const blogs = await fetchAdminBlogs({ limit: 100 });
           const latestBlog = blogs.data?.[0];
           if (latestBlog && latestBlog.title === title.trim()) {
             handleCloseDialog();
@@ -199,6 +215,18 @@ export function AdminBlogs() {
     }
   };
 
+  // Replace a post in the list after a status change or restore
+  const handleBlogChange = (updated: Blog) => {
+    setBlogs((current) => current.map((blog) => (blog.id === updated.id ? updated : blog)));
+  };
+
+  const handleRestore = (restored: Blog) => {
+    handleBlogChange(restored);
+    setHistoryBlog(null);
+  };
+
+  const visibleBlogs = statusFilter === 'all' ? blogs : blogs.filter((blog) => blog.status === statusFilter);
+
   const handleDelete = async (id: string) => {
     if (!confirm('Are you sure you want to delete this blog?')) {
       return;
@@ -222,10 +250,25 @@ export function AdminBlogs() {
           <h2 className="text-2xl font-bold text-gray-900">Blog Management</h2>
           <p className="text-sm text-gray-600 mt-1">Create and manage blog posts</p>
         </div>
-        <Button onClick={() => handleOpenDialog()} className="gap-2">
-          <Plus className="w-4 h-4" />
-          Create Blog
-        </Button>
+        <div className="flex items-center gap-2">
+          <Select value={statusFilter} onValueChange={(value: BlogStatus | 'all') => setStatusFilter(value)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              {(Object.keys(BLOG_STATUS_LABELS) as BlogStatus[]).map((status) => (
+                <SelectItem key={status} value={status}>
+                  {BLOG_STATUS_LABELS[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => handleOpenDialog()} className="gap-2">
+            <Plus className="w-4 h-4" />
+            Create Blog
+          </Button>
+        </div>
       </div>
 
       {isLoading && blogs.length === 0 ? (
@@ -243,20 +286,20 @@ export function AdminBlogs() {
                   <TableHead>Categories</TableHead>
                   <TableHead>Tags</TableHead>
                   <TableHead>Exclusive</TableHead>
-                  <TableHead>Published</TableHead>
+                  <TableHead>Status</TableHead>
                   <TableHead>Views</TableHead>
                   <TableHead>Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {blogs.length === 0 ? (
+                {visibleBlogs.length === 0 ? (
                   <TableRow>
                     <TableCell colSpan={8} className="text-center py-8 text-gray-500">
-                      No blogs found. Create your first blog!
+                      {blogs.length === 0 ? 'No blogs found. Create your first blog!' : 'No blogs with this status.'}
                     </TableCell>
                   </TableRow>
                 ) : (
-                  blogs.map((blog) => (
+                  visibleBlogs.map((blog) => (
                     <TableRow key={blog.id}>
                       <TableCell>
                         <img
@@ -267,6 +310,9 @@ export function AdminBlogs() {
                       </TableCell>
                       <TableCell className="font-medium max-w-xs truncate">
                         {blog.title}
+                        {blog.slug && (
+                          <div className="text-xs font-normal text-gray-500 truncate">/blogs/{blog.slug}</div>
+                        )}
                       </TableCell>
                       <TableCell>
                         <div className="flex flex-wrap gap-1">
@@ -304,15 +350,17 @@ export function AdminBlogs() {
                         )}
                       </TableCell>
                       <TableCell>
-                        {blog.isPublished ? (
-                          <Badge variant="default" className="bg-green-600">Published</Badge>
-                        ) : (
-                          <Badge variant="secondary">Draft</Badge>
+                        <Badge variant="default" className={STATUS_BADGE_STYLES[blog.status]}>
+                          {BLOG_STATUS_LABELS[blog.status]}
+                        </Badge>
+                        {blog.status === 'scheduled' && blog.publishAt && (
+                          <div className="text-xs text-gray-500 mt-1 whitespace-nowrap">{formatScheduleDate(blog.publishAt)}</div>
                         )}
                       </TableCell>
                       <TableCell>{blog.views}</TableCell>
                       <TableCell>
                         <div className="flex gap-2">
+                          <BlogWorkflowMenu blog={blog} onChange={handleBlogChange} />
                           <Button
                             variant="outline"
                             size="sm"
@@ -320,6 +368,14 @@ export function AdminBlogs() {
                           >
                             <Edit className="w-4 h-4" />
                           </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => setHistoryBlog(blog)}
+                            title="Revision history"
+                          >
+                            <History className="w-4 h-4" />
+                          </Button>
                           <Button
                             variant="outline"
                             size="sm"
@@ -341,7 +397,7 @@ export function AdminBlogs() {
 
       {/* Create/Edit Dialog */}
       <Dialog open={isDialogOpen} onOpenChange={handleCloseDialog}>
-        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>{isEditing ? 'Edit Blog' : 'Create New Blog'}</DialogTitle>
             <DialogDescription>
@@ -359,19 +415,19 @@ export function AdminBlogs() {
                 placeholder="Enter blog title"
                 className="mt-1"
               />
+              {editingBlogId && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Changing the title moves the post to a new URL; links to the old one redirect.
+                </p>
+              )}
             </div>
 
-            <div>
-              <Label htmlFor="content">Content *</Label>
-              <Textarea
-                id="content"
-                value={content}
-                onChange={(e) => setContent(e.target.value)}
-                placeholder="Enter blog content (supports HTML formatting)"
-                rows={10}
-                className="mt-1"
-              />
-            </div>
+            <BlogContentEditor
+              content={content}
+              format={contentFormat}
+              onContentChange={setContent}
+              onFormatChange={setContentFormat}
+            />
 
             <div>
               <Label htmlFor="image">Image *</Label>
@@ -478,14 +534,11 @@ export function AdminBlogs() {
                 />
                 <Label htmlFor="exclusive">Exclusive Blog</Label>
               </div>
-              <div className="flex items-center gap-2">
-                <Switch
-                  id="published"
-                  checked={isPublished}
-                  onCheckedChange={setIsPublished}
-                />
-                <Label htmlFor="published">Published</Label>
-              </div>
+              {!isEditing && (
+                <p className="text-sm text-gray-500">
+                  New posts are saved as drafts. Use Status to submit them for review, schedule or publish.
+                </p>
+              )}
             </div>
 
             <div className="flex justify-end gap-2 pt-4">
@@ -509,6 +562,8 @@ export function AdminBlogs() {
           </div>
         </DialogContent>
       </Dialog>
+
+      <BlogRevisionHistory blog={historyBlog} onClose={() => setHistoryBlog(null)} onRestore={handleRestore} />
     </div>
   );
 }
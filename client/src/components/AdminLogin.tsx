@@ -3,40 +3,41 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Button } from './ui/button';
-import { Shield, Lock, AlertCircle } from 'lucide-react';
+import { Shield, Lock, Mail, AlertCircle } from 'lucide-react';
 import { Alert, AlertDescription } from './ui/alert';
-import { useAuth } from '../hooks/useAuth';
+import { useAuth } from '../contexts/AuthContext';
 
 interface AdminLoginProps {
   open: boolean;
   onLoginSuccess: () => void;
 }
 
+/**
+ * Sign-in for the admin panel, with the same accounts as the rest of the site.
+ * What the panel shows depends on the account's role.
+ */
 export function AdminLogin({ open, onLoginSuccess }: AdminLoginProps) {
+  const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const { login } = useAuth();
+  const { login, loginWithGoogle } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
     setIsLoading(true);
 
-    // Simple delay to prevent brute force (even though it's client-side)
-    await new Promise(resolve => setTimeout(resolve, 500));
-
-    const success = login(password);
-    
-    if (success) {
+    try {
+      await login(email, password);
       setPassword('');
       onLoginSuccess();
-    } else {
-      setError('Incorrect password. Please try again.');
+    } catch (err: any) {
+      setError(err.message || 'Login failed. Please try again.');
       setPassword('');
+    } finally {
+      setIsLoading(false);
     }
-    
-    setIsLoading(false);
   };
 
   return (
@@ -48,26 +49,45 @@ export function AdminLogin({ open, onLoginSuccess }: AdminLoginProps) {
           </div>
           <DialogTitle className="text-2xl text-center">Admin Login</DialogTitle>
           <DialogDescription className="text-center">
-            Enter the admin password to access the admin panel
+            Sign in with your own account. An admin gives it access to the panel.
           </DialogDescription>
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-4 mt-4">
           <div className="space-y-2">
-            <Label htmlFor="password">Password</Label>
+            <Label htmlFor="admin-email">Email</Label>
+            <div className="relative">
+              <Mail className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
+              <Input
+                id="admin-email"
+                type="email"
+                value={email}
+                onChange={(e) => {
+                  setEmail(e.target.value);
+                  setError('');
+                }}
+                placeholder="you@example.com"
+                className="pl-10"
+                autoFocus
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="admin-password">Password</Label>
             <div className="relative">
               <Lock className="absolute left-3 top-3 h-4 w-4 text-gray-400" />
               <Input
-                id="password"
+                id="admin-password"
                 type="password"
                 value={password}
                 onChange={(e) => {
                   setPassword(e.target.value);
                   setError('');
                 }}
-                placeholder="Enter admin password"
+                placeholder="Enter your password"
                 className="pl-10"
-                autoFocus
                 disabled={isLoading}
               />
             </div>
@@ -83,21 +103,34 @@ export function AdminLogin({ open, onLoginSuccess }: AdminLoginProps) {
           <Button
             type="submit"
             className="w-full"
-            disabled={isLoading || !password.trim()}
+            disabled={isLoading || !email.trim() || !password}
           >
-            {isLoading ? 'Verifying...' : 'Login'}
+            {isLoading ? 'Signing in...' : 'Login'}
           </Button>
         </form>
 
-        {import.meta.env.MODE === 'development' && (
-          <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
-            <p className="text-xs text-blue-700">
-              <strong>Development Mode:</strong> Default password is "admin123" if not set in environment variables.
-            </p>
+        <div className="relative">
+          <div className="absolute inset-0 flex items-center">
+            <span className="w-full border-t" />
+          </div>
+          <div className="relative flex justify-center text-xs uppercase">
+            <span className="bg-background px-2 text-muted-foreground">Or</span>
           </div>
-        )}
+        </div>
+
+        <Button
+          type="button"
+          variant="outline"
+          className="w-full"
+          onClick={loginWithGoogle}
+          disabled={isLoading}
+        >
+          Continue with Google
+        </Button>
+        <p className="text-xs text-center text-gray-500">
+          Google sign-in returns you to the home page; open the admin panel again from there.
+        </p>
       </DialogContent>
     </Dialog>
   );
 }
-
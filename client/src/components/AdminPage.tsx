@@ -1,20 +1,37 @@
 import React from 'react';
-import { Shield, ArrowLeft, LogOut } from 'lucide-react';
+import { Shield, ArrowLeft, LogOut, ShieldOff } from 'lucide-react';
 import { Button } from './ui/button';
+import { Card } from './ui/card';
 import { Badge } from './ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
 import { AdminSuggestedBuckets } from './AdminSuggestedBuckets';
 import { AdminBlogs } from './AdminBlogs';
 import { AdminLogin } from './AdminLogin';
-import { useAuth } from '../hooks/useAuth';
+import { AdminTeam, ROLE_LABELS } from './AdminTeam';
+import { AdminAuditLog } from './AdminAuditLog';
+import { useAuth } from '../contexts/AuthContext';
+import type { AdminPermission } from '../services/authService';
 
 interface AdminPageProps {
+  section?: string; // tab to open, from the /admin/* path
   onNavigate?: (page: string) => void;
+  onSectionChange?: (section: string) => void;
 }
 
-export function AdminPage({ onNavigate }: AdminPageProps) {
-  const { isAuthenticated, isLoading, logout, checkAuth } = useAuth();
+// Each tab is shown to roles with its permission
+const ADMIN_SECTIONS: { id: string; label: string; permission: AdminPermission }[] = [
+  { id: 'buckets', label: 'Suggested Buckets', permission: 'suggested-buckets' },
+  { id: 'blogs', label: 'Blogs', permission: 'blogs' },
+  { id: 'team', label: 'Team', permission: 'users' },
+  { id: 'audit', label: 'Audit Log', permission: 'audit-log' },
+];
+
+export function AdminPage({ section, onNavigate, onSectionChange }: AdminPageProps) {
+  const { user, isAuthenticated, isLoading, logout } = useAuth();
   const [showLogin, setShowLogin] = React.useState(false);
+  const permissions = user?.permissions ?? [];
+  const sections = ADMIN_SECTIONS.filter((item) => permissions.includes(item.permission));
+  const activeSection = sections.find((item) => item.id === section)?.id ?? sections[0]?.id;
 
   React.useEffect(() => {
     if (!isLoading && !isAuthenticated) {
@@ -25,11 +42,16 @@ export function AdminPage({ onNavigate }: AdminPageProps) {
   }, [isAuthenticated, isLoading]);
 
   const handleLoginSuccess = () => {
-    // Trigger auth check to update state
-    checkAuth();
     setShowLogin(false);
   };
 
+  const handleLogout = async () => {
+    await logout();
+    if (onNavigate) {
+      onNavigate('home');
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -55,6 +77,32 @@ export function AdminPage({ onNavigate }: AdminPageProps) {
     );
   }
 
+  if (sections.length === 0) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-100 via-slate-50 to-blue-50 px-4">
+        <Card className="max-w-md w-full p-8 text-center">
+          <ShieldOff className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h1 className="text-xl font-bold text-gray-900">No admin access</h1>
+          <p className="text-sm text-gray-600 mt-2">
+            You're signed in as {user?.email}, which hasn't been given a role. Ask an admin to add you on the Team tab.
+          </p>
+          <div className="flex justify-center gap-2 mt-6">
+            {onNavigate && (
+              <Button variant="outline" size="sm" onClick={() => onNavigate('home')}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Home
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={handleLogout}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Switch account
+            </Button>
+          </div>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-100 via-slate-50 to-blue-50">
       {/* Header */}
@@ -85,17 +133,12 @@ export function AdminPage({ onNavigate }: AdminPageProps) {
             <div className="hidden sm:flex items-center gap-3">
               <Badge variant="secondary" className="px-3 py-1">
                 <Shield className="h-3 w-3 mr-1" />
-                Admin Access
+                {user?.role ? ROLE_LABELS[user.role] : 'Admin'} Access
               </Badge>
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => {
-                  logout();
-                  if (onNavigate) {
-                    onNavigate('home');
-                  }
-                }}
+                onClick={handleLogout}
               >
                 <LogOut className="h-4 w-4 mr-2" />
                 Logout
@@ -107,17 +150,32 @@ export function AdminPage({ onNavigate }: AdminPageProps) {
 
       {/* Admin Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        <Tabs defaultValue="buckets" className="w-full">
+        <Tabs value={activeSection} onValueChange={onSectionChange} className="w-full">
           <TabsList className="mb-6">
-            <TabsTrigger value="buckets">Suggested Buckets</TabsTrigger>
-            <TabsTrigger value="blogs">Blogs</TabsTrigger>
+            {sections.map((item) => (
+              <TabsTrigger key={item.id} value={item.id}>{item.label}</TabsTrigger>
+            ))}
           </TabsList>
-          <TabsContent value="buckets">
-            <AdminSuggestedBuckets isAdmin={true} />
-          </TabsContent>
-          <TabsContent value="blogs">
-            <AdminBlogs />
-          </TabsContent>
+          {permissions.includes('suggested-buckets') && (
+            <TabsContent value="buckets">
+              <AdminSuggestedBuckets isAdmin={true} />
+            </TabsContent>
+          )}
+          {permissions.includes('blogs') && (
+            <TabsContent value="blogs">
+              <AdminBlogs />
+            </TabsContent>
+          )}
+          {permissions.includes('users') && (
+            <TabsContent value="team">
+              <AdminTeam />
+            </TabsContent>
+          )}
+          {permissions.includes('audit-log') && (
+            <TabsContent value="audit">
+              <AdminAuditLog />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </div>
@@ -148,6 +148,7 @@ export function AdminSuggestedBuckets({ isAdmin = true }: AdminSuggestedBucketsP
           analysisStartDate: performance.analysisStartDate,
           analysisEndDate: performance.analysisEndDate,
           totalPeriods: performance.totalPeriods,
+          riskMetrics: performance.riskMetrics,
         },
         riskLevel: bucketRiskLevel,
       };
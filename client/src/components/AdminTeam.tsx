@@ -0,0 +1,182 @@
+// client/src/components/AdminTeam.tsx
+import React, { useEffect, useState } from 'react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Loader2, UserPlus } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import type { UserRole } from '../services/authService';
+import { fetchStaff, setUserRole } from '../services/usersService';
+import type { StaffMember } from '../services/usersService';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  editor: 'Editor',
+  analyst: 'Analyst',
+  user: 'No access',
+};
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  admin: 'Everything, including the team',
+  editor: 'Blogs only',
+  analyst: 'Suggested buckets only',
+  user: 'Removes admin panel access',
+};
+
+const STAFF_ROLES: UserRole[] = ['admin', 'editor', 'analyst'];
+
+const formatLastLogin = (value: string | null) =>
+  value ? new Date(value).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' }) : 'Never';
+
+/**
+ * Who can use the admin panel, and as what (admins only)
+ */
+export function AdminTeam() {
+  const { user } = useAuth();
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<UserRole>('editor');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadStaff = async () => {
+    setIsLoading(true);
+    try {
+      setStaff(await fetchStaff());
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStaff();
+  }, []);
+
+  const changeRole = async (memberEmail: string, newRole: UserRole) => {
+    setIsSaving(true);
+    try {
+      await setUserRole(memberEmail, newRole);
+      await loadStaff();
+      return true;
+    } catch (err: any) {
+      alert(`Error updating role: ${err.message}`);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await changeRole(email.trim(), role)) {
+      setEmail('');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-2xl font-bold text-gray-900">Team</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Give people access by the email they sign in with. They need an account on the site first.
+        </p>
+      </div>
+
+      <Card className="p-4">
+        <form onSubmit={handleAdd} className="flex flex-col sm:flex-row sm:items-end gap-3">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="team-email">Email</Label>
+            <Input
+              id="team-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="colleague@example.com"
+              disabled={isSaving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Role</Label>
+            <Select value={role} onValueChange={(value: UserRole) => setRole(value)}>
+              <SelectTrigger className="w-full sm:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STAFF_ROLES.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {ROLE_LABELS[option]} · {ROLE_DESCRIPTIONS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" className="gap-2" disabled={isSaving || !email.trim()}>
+            <UserPlus className="w-4 h-4" />
+            Give access
+          </Button>
+        </form>
+      </Card>
+
+      {isLoading && staff.length === 0 ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-gray-400" />
+        </div>
+      ) : error ? (
+        <Card className="p-6 text-center text-sm text-red-600">{error}</Card>
+      ) : (
+        <Card>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Last login</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {staff.map((member) => (
+                  <TableRow key={member.id}>
+                    <TableCell className="font-medium">{member.name}</TableCell>
+                    <TableCell>{member.email}</TableCell>
+                    <TableCell>
+                      {member.id === user?.id ? (
+                        <span className="text-sm text-gray-600">{ROLE_LABELS[member.role]} (you)</span>
+                      ) : (
+                        <Select
+                          value={member.role}
+                          onValueChange={(value: UserRole) => changeRole(member.email, value)}
+                          disabled={isSaving}
+                        >
+                          <SelectTrigger className="w-36 h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {[...STAFF_ROLES, 'user' as UserRole].map((option) => (
+                              <SelectItem key={option} value={option}>
+                                {ROLE_LABELS[option]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">{formatLastLogin(member.lastLoginAt)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
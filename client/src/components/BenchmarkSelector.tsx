@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from 'react';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { fetchBenchmarks } from '../services/benchmarkService';
+import type { BenchmarkInfo } from '../utils/benchmark';
+
+interface BenchmarkSelectorProps {
+  value: string; // benchmark slug, or 'none'
+  onChange: (slug: string) => void;
+}
+
+export function BenchmarkSelector({ value, onChange }: BenchmarkSelectorProps) {
+  const [benchmarks, setBenchmarks] = useState<BenchmarkInfo[]>([]);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchBenchmarks()
+      .then((data) => {
+        if (!cancelled) setBenchmarks(data);
+      })
+      .catch((err) => {
+        console.error('Error loading benchmarks:', err);
+        if (!cancelled) setLoadFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const selected = benchmarks.find((b) => b.slug === value);
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="benchmark">Benchmark</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger id="benchmark" className="border-slate-200 focus:border-blue-500 focus:ring-blue-500">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">No benchmark</SelectItem>
+          {benchmarks.map((benchmark) => (
+            <SelectItem key={benchmark.slug} value={benchmark.slug}>
+              {benchmark.name}
+            </SelectItem>
+          ))}
+          {benchmarks.length === 0 && value !== 'none' && (
+            <SelectItem value={value}>{value}</SelectItem>
+          )}
+        </SelectContent>
+      </Select>
+      {loadFailed && (
+        <p className="text-xs text-red-600">Benchmarks could not be loaded</p>
+      )}
+      {selected?.to && (
+        <p className="text-xs text-gray-500">
+          Index data until {new Date(selected.to).toLocaleDateString('en-IN', { month: 'short', year: 'numeric' })}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import React from 'react';
+import { Card } from './ui/card';
+import { Badge } from './ui/badge';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend as RechartsLegend, ResponsiveContainer } from 'recharts';
+import type { BenchmarkComparison } from '../utils/benchmark';
+
+interface BenchmarkSummaryProps {
+  comparison: BenchmarkComparison;
+  portfolioLabel?: string;
+  portfolioValue: number;
+  portfolioReturn: number;
+  // Optional growth series; calculators that already chart the bucket add the benchmark line there instead
+  series?: Array<{ date: string; portfolio: number; benchmark: number | null }>;
+}
+
+const formatCurrency = (amount: number): string => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 0,
+  }).format(amount);
+};
+
+export function BenchmarkSummary({ comparison, portfolioLabel = 'Your Bucket', portfolioValue, portfolioReturn, series }: BenchmarkSummaryProps) {
+  const beat = comparison.alpha >= 0;
+
+  return (
+    <Card className="p-4 sm:p-6 border-2 border-slate-200 shadow-xl">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg sm:text-xl font-bold text-slate-900 mb-1">vs {comparison.name}</h3>
+          <p className="text-xs sm:text-sm text-slate-600">Same cashflows invested in the index</p>
+        </div>
+        <Badge
+          variant="outline"
+          className={`text-xs sm:text-sm w-fit ${beat
+            ? 'text-green-700 border-green-300 bg-green-50'
+            : 'text-red-700 border-red-300 bg-red-50'
+            }`}
+        >
+          {beat ? 'Beat the index' : 'Trailed the index'} by {Math.abs(comparison.alpha).toFixed(2)}% p.a.
+        </Badge>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 sm:gap-4">
+        <div className="rounded-lg border border-slate-200 p-3">
+          <div className="text-xs font-semibold text-slate-600 uppercase tracking-wide mb-1">{portfolioLabel}</div>
+          <div className="text-base sm:text-lg font-bold text-slate-900">{formatCurrency(portfolioValue)}</div>
+          <div className="text-xs text-slate-600 mt-1">{portfolioReturn.toFixed(2)}% p.a.</div>
+        </div>
+        <div className="rounded-lg border border-slate-200 p-3">
+          <div className="text-xs font-semibold text-slate-600 uppercase tracking-wide mb-1">Benchmark</div>
+          <div className="text-base sm:text-lg font-bold text-slate-900">{formatCurrency(comparison.finalValue)}</div>
+          <div className="text-xs text-slate-600 mt-1">
+            XIRR {comparison.xirr.toFixed(2)}% · CAGR {comparison.cagr.toFixed(2)}%
+          </div>
+        </div>
+        <div className="rounded-lg border border-slate-200 p-3">
+          <div className="text-xs font-semibold text-slate-600 uppercase tracking-wide mb-1">Alpha</div>
+          <div className={`text-base sm:text-lg font-bold ${beat ? 'text-green-700' : 'text-red-700'}`}>
+            {beat ? '+' : ''}{comparison.alpha.toFixed(2)}%
+          </div>
+          <div className="text-xs text-slate-600 mt-1">Excess annualised return</div>
+        </div>
+        <div className="rounded-lg border border-slate-200 p-3">
+          <div className="text-xs font-semibold text-slate-600 uppercase tracking-wide mb-1">Tracking Error</div>
+          <div className="text-base sm:text-lg font-bold text-slate-900">
+            {comparison.trackingError !== null ? `${comparison.trackingError.toFixed(2)}%` : 'N/A'}
+          </div>
+          <div className="text-xs text-slate-600 mt-1">Annualised, monthly returns</div>
+        </div>
+      </div>
+
+      {series && series.length > 1 && (
+        <div className="w-full h-[260px] sm:h-[340px] mt-6">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart
+              data={series.map((point) => ({
+                ...point,
+                label: new Date(point.date).toLocaleDateString('en-IN', { month: 'short', year: 'numeric' }),
+              }))}
+            >
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="label" tick={{ fontSize: 12 }} tickLine={false} />
+              <YAxis
+                tickFormatter={(value) => `₹${(value / 1000).toFixed(0)}K`}
+                tick={{ fontSize: 12 }}
+                tickLine={false}
+              />
+              <Tooltip
+                formatter={(value: number, name: string) => [formatCurrency(value), name]}
+                contentStyle={{ backgroundColor: 'white', border: '1px solid #ccc', borderRadius: '8px' }}
+              />
+              {/* @ts-ignore */}
+              <RechartsLegend wrapperStyle={{ paddingTop: '20px' }} iconType="line" />
+              <Line type="monotone" dataKey="portfolio" stroke="#1f2937" strokeWidth={3} name={portfolioLabel} dot={false} />
+              <Line type="monotone" dataKey="benchmark" stroke="#dc2626" strokeWidth={2} name={comparison.name} dot={false} connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {comparison.isPartial && (
+        <p className="text-xs text-amber-700 mt-3">
+          Index data is only available until {new Date(comparison.coveredUntil).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' })}; alpha compares the index with your bucket's {comparison.portfolioXirr.toFixed(2)}% p.a. up to that date.
+        </p>
+      )}
+    </Card>
+  );
+}
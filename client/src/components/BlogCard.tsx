@@ -4,6 +4,7 @@ import { Calendar, Eye, ArrowRight } from 'lucide-react';
 import { Badge } from './ui/badge';
 import { OptimizedImage } from './OptimizedImage';
 import type { Blog } from '../types/blog';
+import { markdownToPlainText } from '../utils/markdown';
 
 interface BlogCardProps {
   blog: Blog;
@@ -81,14 +82,14 @@ export const BlogCard = memo(function BlogCard({
         </h3>
 
         <p className="text-xs text-gray-600 mb-3 line-clamp-2 leading-relaxed">
-          {blog.content ? truncateText(stripHtmlAndDecode(blog.content), 100) : 'No content available'}
+          {blog.content ? truncateText(blog.contentFormat === 'markdown' ? markdownToPlainText(blog.content) : stripHtmlAndDecode(blog.content), 100) : 'No content available'}
         </p>
 
         <div className="flex items-center justify-between text-xs text-gray-500 pt-3 border-t border-gray-100">
           <div className="flex items-center gap-3">
             <span className="flex items-center gap-1">
               <Calendar className="w-3 h-3" />
-              {formatDateShort(blog.createdAt || '')}
+              {formatDateShort(blog.publishedAt || blog.createdAt || '')}
             </span>
             <span className="flex items-center gap-1">
               <Eye className="w-3 h-3" />
@@ -0,0 +1,198 @@
+// client/src/components/BlogContent.tsx
+import React, { useMemo } from 'react';
+import { RouterLink } from './RouterLink';
+import { BlogEmbedView, EmbedNotice } from './BlogEmbeds';
+import type { ImportBucketHandler } from './BlogEmbeds';
+import type { BlogContentFormat } from '../types/blog';
+import { parseMarkdown } from '../utils/markdown';
+import type { MarkdownBlock, MarkdownInline } from '../utils/markdown';
+import { parseBlogEmbed } from '../utils/blogEmbeds';
+import { sanitizeHtml } from '../utils/sanitizeHtml';
+
+interface BlogContentProps {
+  content: string;
+  format: BlogContentFormat;
+  className?: string; // added to the prose, not the embeds
+  onImportBucket?: ImportBucketHandler;
+  preview?: boolean; // editor preview: links open in a new tab and broken embeds explain themselves
+}
+
+// Runs of prose, and the embeds between them, which sit outside the prose styles
+type Segment = { type: 'prose'; blocks: MarkdownBlock[] } | { type: 'embed'; block: Extract<MarkdownBlock, { type: 'directive' }> };
+
+const isSitePath = (href: string) => href.startsWith('/') && !href.startsWith('//');
+
+function Inline({ nodes, preview }: { nodes: MarkdownInline[]; preview: boolean }) {
+  return (
+    <>
+      {nodes.map((node, index) => {
+        switch (node.type) {
+          case 'text':
+            return <React.Fragment key={index}>{node.text}</React.Fragment>;
+          case 'strong':
+            return <strong key={index}><Inline nodes={node.children} preview={preview} /></strong>;
+          case 'em':
+            return <em key={index}><Inline nodes={node.children} preview={preview} /></em>;
+          case 'del':
+            return <del key={index}><Inline nodes={node.children} preview={preview} /></del>;
+          case 'code':
+            return <code key={index}>{node.text}</code>;
+          case 'break':
+            return <br key={index} />;
+          case 'image':
+            return <img key={index} src={node.src} alt={node.alt} title={node.title} loading="lazy" />;
+          case 'link': {
+            const children = <Inline nodes={node.children} preview={preview} />;
+            if (isSitePath(node.href) && !preview) {
+              return <RouterLink key={index} href={node.href} title={node.title}>{children}</RouterLink>;
+            }
+            const external = preview || !isSitePath(node.href);
+            return (
+              <a
+                key={index}
+                href={node.href}
+                title={node.title}
+                target={external ? '_blank' : undefined}
+                rel={external ? 'noopener noreferrer' : undefined}
+              >
+                {children}
+              </a>
+            );
+          }
+        }
+      })}
+    </>
+  );
+}
+
+function Blocks({ blocks, preview, tight = false }: { blocks: MarkdownBlock[]; preview: boolean; tight?: boolean }) {
+  return (
+    <>
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'heading': {
+            const Heading = `h${block.level}` as const;
+            return <Heading key={index}><Inline nodes={block.children} preview={preview} /></Heading>;
+          }
+          case 'paragraph':
+            // Items of a tight list hold their text without paragraph spacing
+            return tight ? (
+              <React.Fragment key={index}><Inline nodes={block.children} preview={preview} /></React.Fragment>
+            ) : (
+              <p key={index}><Inline nodes={block.children} preview={preview} /></p>
+            );
+          case 'list': {
+            const items = block.items.map((item, itemIndex) => (
+              <li key={itemIndex}>
+                <Blocks blocks={item} preview={preview} tight={!block.loose} />
+              </li>
+            ));
+            return block.ordered ? (
+              <ol key={index} start={block.start !== 1 ? block.start : undefined}>{items}</ol>
+            ) : (
+              <ul key={index}>{items}</ul>
+            );
+          }
+          case 'blockquote':
+            return <blockquote key={index}><Blocks blocks={block.children} preview={preview} /></blockquote>;
+          case 'code':
+            return (
+              <pre key={index}>
+                <code className={block.language ? `language-${block.language}` : undefined}>{block.text}</code>
+              </pre>
+            );
+          case 'rule':
+            return <hr key={index} />;
+          case 'table':
+            return (
+              <div key={index} className="overflow-x-auto">
+                <table>
+                  <thead>
+                    <tr>
+                      {block.header.map((cell, column) => (
+                        <th key={column} style={{ textAlign: block.align[column] ?? undefined }}>
+                          <Inline nodes={cell} preview={preview} />
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {block.rows.map((row, rowIndex) => (
+                      <tr key={rowIndex}>
+                        {row.map((cell, column) => (
+                          <td key={column} style={{ textAlign: block.align[column] ?? undefined }}>
+                            <Inline nodes={cell} preview={preview} />
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            );
+          default:
+            return null; // directives nested in lists or quotes aren't embedded
+        }
+      })}
+    </>
+  );
+}
+
+/**
+ * A post's content. Markdown is rendered as React elements, with embed
+ * blocks shown live; HTML posts are sanitised before they're inserted.
+ */
+export function BlogContent({ content, format, className = '', onImportBucket, preview = false }: BlogContentProps) {
+  const segments = useMemo((): Segment[] => {
+    if (format !== 'markdown') return [];
+    const result: Segment[] = [];
+    parseMarkdown(content).forEach((block) => {
+      if (block.type === 'directive') {
+        result.push({ type: 'embed', block });
+        return;
+      }
+      const last = result[result.length - 1];
+      if (last?.type === 'prose') {
+        last.blocks.push(block);
+      } else {
+        result.push({ type: 'prose', blocks: [block] });
+      }
+    });
+    return result;
+  }, [content, format]);
+
+  const html = useMemo(() => (format === 'markdown' ? '' : sanitizeHtml(content)), [content, format]);
+
+  if (format !== 'markdown') {
+    return <div className={`blog-content ${className}`} dangerouslySetInnerHTML={{ __html: html }} />;
+  }
+
+  return (
+    <div>
+      {segments.map((segment, index) => {
+        if (segment.type === 'prose') {
+          return (
+            <div key={index} className={`blog-content ${className}`}>
+              <Blocks blocks={segment.blocks} preview={preview} />
+            </div>
+          );
+        }
+
+        const { embed, error } = parseBlogEmbed(segment.block.name, segment.block.attributes);
+        if (!embed) {
+          return preview ? (
+            <div key={index} className="my-6">
+              <EmbedNotice message={`:::${segment.block.name} — ${error}`} />
+            </div>
+          ) : null;
+        }
+        // Keyed by its settings, so an edited embed starts afresh
+        return (
+          <div key={`${index}:${JSON.stringify(embed)}`} className="my-8">
+            <BlogEmbedView embed={embed} onImportBucket={onImportBucket} />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
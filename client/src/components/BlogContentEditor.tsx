@@ -0,0 +1,124 @@
+// client/src/components/BlogContentEditor.tsx
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Plus } from 'lucide-react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Textarea } from './ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import { BlogContent } from './BlogContent';
+import type { BlogContentFormat } from '../types/blog';
+import { BLOG_EMBED_TEMPLATES } from '../utils/blogEmbeds';
+
+interface BlogContentEditorProps {
+  content: string;
+  format: BlogContentFormat;
+  onContentChange: (content: string) => void;
+  onFormatChange: (format: BlogContentFormat) => void;
+}
+
+// Wait for a pause in typing, so half-typed embeds don't start loading data
+const PREVIEW_DELAY_MS = 400;
+
+/**
+ * Post content with a live preview beside it, rendered as on the blog page
+ * with embeds running
+ */
+export function BlogContentEditor({ content, format, onContentChange, onFormatChange }: BlogContentEditorProps) {
+  const [previewContent, setPreviewContent] = useState(content);
+  const cursor = useRef<number | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setPreviewContent(content), PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [content]);
+
+  const trackCursor = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    cursor.current = e.currentTarget.selectionEnd;
+  };
+
+  // On a line of its own at the cursor, or at the end
+  const insertEmbed = (template: string) => {
+    const at = Math.min(cursor.current ?? content.length, content.length);
+    const before = content.slice(0, at).replace(/\s+$/, '');
+    const after = content.slice(at).replace(/^\s+/, '');
+    const inserted = `${before ? `${before}\n\n` : ''}${template}\n\n${after}`;
+    cursor.current = (before ? before.length + 2 : 0) + template.length;
+    onContentChange(after ? inserted : inserted.trimEnd() + '\n');
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Label htmlFor="content">Content *</Label>
+        <div className="flex items-center gap-2">
+          {format === 'markdown' && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button type="button" variant="outline" size="sm" className="gap-1">
+                  <Plus className="w-4 h-4" />
+                  Embed
+                  <ChevronDown className="w-3 h-3" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {BLOG_EMBED_TEMPLATES.map((embed) => (
+                  <DropdownMenuItem key={embed.name} onSelect={() => insertEmbed(embed.template)}>
+                    {embed.label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+          <Select value={format} onValueChange={(value: BlogContentFormat) => onFormatChange(value)}>
+            <SelectTrigger className="w-32 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="markdown">Markdown</SelectItem>
+              <SelectItem value="html">HTML</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mt-2">
+        <Textarea
+          id="content"
+          value={content}
+          onChange={(e) => {
+            onContentChange(e.target.value);
+            trackCursor(e);
+          }}
+          onSelect={trackCursor}
+          placeholder={format === 'markdown' ? 'Write in Markdown…' : 'Enter blog content (supports HTML formatting)'}
+          className="h-[60vh] font-mono text-sm resize-none"
+        />
+        <div className="h-[60vh] overflow-y-auto rounded-md border bg-white p-4">
+          {previewContent.trim() ? (
+            <BlogContent content={previewContent} format={format} className="text-gray-700 space-y-4" preview />
+          ) : (
+            <p className="text-sm text-gray-400">The preview appears here.</p>
+          )}
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500 mt-1">
+        {format === 'markdown' ? (
+          <>
+            **bold**, *italic*, ## headings, - lists, [links](https://…), ![images](https://…) and | tables |. Embeds
+            are blocks from <code>:::fund-chart</code>, <code>:::bucket</code> or <code>:::sip-calculator</code> to{' '}
+            <code>:::</code>; a calculator can also take <code>scenario:</code> with a link from its Share button.
+          </>
+        ) : (
+          'HTML posts are shown as written, less scripts and styling. Switching to Markdown shows any tags as text.'
+        )}
+      </p>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { X, Calendar, Eye, Tag as TagIcon } from 'lucide-react';
 import { Dialog, DialogContent } from './ui/dialog';
 import { Badge } from './ui/badge';
 import type { Blog } from '../types/blog';
+import { BlogContent } from './BlogContent';
 
 interface BlogDetailModalProps {
   blog: Blog;
@@ -78,7 +79,7 @@ export function BlogDetailModal({ blog, open, onClose }: BlogDetailModalProps) {
               <div className="flex items-center gap-4 text-sm text-gray-600 mb-4">
                 <span className="flex items-center gap-1">
                   <Calendar className="w-4 h-4" />
-                  {formatDate(blog.createdAt)}
+                  {formatDate(blog.publishedAt || blog.createdAt)}
                 </span>
                 <span className="flex items-center gap-1">
                   <Eye className="w-4 h-4" />
@@ -114,14 +115,7 @@ export function BlogDetailModal({ blog, open, onClose }: BlogDetailModalProps) {
             </div>
 
             {/* Blog Content */}
-            <div
-              className="blog-content text-gray-700 leading-relaxed space-y-4"
-              dangerouslySetInnerHTML={{ __html: blog.content }}
-              style={{
-                fontSize: '1.125rem',
-                lineHeight: '1.75rem',
-              }}
-            />
+            <BlogContent content={blog.content} format={blog.contentFormat} className="text-gray-700 text-lg space-y-4" />
           </div>
         </div>
       </DialogContent>
@@ -3,27 +3,38 @@ import React, { useState, useEffect } from 'react';
 import { ArrowLeft, Calendar, Eye, Tag as TagIcon, User } from 'lucide-react';
 import { Button } from './ui/button';
 import { Badge } from './ui/badge';
-import { fetchBlogById } from '../services/blogsService';
+import { fetchBlogBySlug } from '../services/blogsService';
 import type { Blog } from '../types/blog';
 import { OptimizedImage } from './OptimizedImage';
+import { BlogContent } from './BlogContent';
+import type { ImportBucketHandler } from './BlogEmbeds';
+import { pagePath } from '../utils/routes';
 
 interface BlogDetailPageProps {
-  blogId: string;
+  slug: string; // current or previous slug, or the blog id
   onNavigate?: (page: string) => void;
+  onSlugChange?: (slug: string) => void; // called when the post lives at a different slug
+  onImportBucket?: ImportBucketHandler; // for suggested buckets embedded in the post
 }
 
-export function BlogDetailPage({ blogId, onNavigate }: BlogDetailPageProps) {
+export function BlogDetailPage({ slug, onNavigate, onSlugChange, onImportBucket }: BlogDetailPageProps) {
   const [blog, setBlog] = useState<Blog | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
+    // Already showing this post, after moving to its current slug
+    if (blog && blog.slug === slug) return;
+
     const loadBlog = async () => {
       setIsLoading(true);
       setError(null);
       try {
-        const blogData = await fetchBlogById(blogId);
+        const blogData = await fetchBlogBySlug(slug);
         setBlog(blogData);
+        if (blogData?.slug && blogData.slug !== slug) {
+          onSlugChange?.(blogData.slug);
+        }
       } catch (err: any) {
         setError(err.message || 'Failed to load blog');
       } finally {
@@ -31,10 +42,19 @@ export function BlogDetailPage({ blogId, onNavigate }: BlogDetailPageProps) {
       }
     };
 
-    if (blogId) {
+    if (slug) {
       loadBlog();
     }
-  }, [blogId]);
+  }, [slug]);
+
+  useEffect(() => {
+    if (!blog) return;
+    const previousTitle = document.title;
+    document.title = `${blog.title} | The Lal Street`;
+    return () => {
+      document.title = previousTitle;
+    };
+  }, [blog]);
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -74,7 +94,7 @@ export function BlogDetailPage({ blogId, onNavigate }: BlogDetailPageProps) {
     if (onNavigate) {
       onNavigate('blogs');
     } else {
-      window.location.hash = '#blogs';
+      window.location.assign(pagePath('blogs'));
     }
   };
 
@@ -149,7 +169,7 @@ export function BlogDetailPage({ blogId, onNavigate }: BlogDetailPageProps) {
           <div className="flex items-center gap-6 text-sm text-gray-600 mb-6 pb-6 border-b border-gray-200">
             <span className="flex items-center gap-2">
               <Calendar className="w-4 h-4" />
-              {formatDate(blog.createdAt)}
+              {formatDate(blog.publishedAt || blog.createdAt)}
             </span>
             <span className="flex items-center gap-2">
               <Eye className="w-4 h-4" />
@@ -187,13 +207,11 @@ export function BlogDetailPage({ blogId, onNavigate }: BlogDetailPageProps) {
           </div>
 
           {/* Blog Content */}
-          <div
-            className="blog-content text-gray-700 leading-relaxed space-y-4 prose prose-lg max-w-none"
-            dangerouslySetInnerHTML={{ __html: blog.content }}
-            style={{
-              fontSize: '1.125rem',
-              lineHeight: '1.75rem',
-            }}
+          <BlogContent
+            content={blog.content}
+            format={blog.contentFormat}
+            className="text-gray-700 text-lg space-y-4 prose prose-lg max-w-none"
+            onImportBucket={onImportBucket}
           />
         </div>
       </article>
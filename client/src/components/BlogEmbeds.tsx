@@ -0,0 +1,261 @@
+// client/src/components/BlogEmbeds.tsx
+import React, { lazy, Suspense, useEffect, useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend as RechartsLegend, ResponsiveContainer } from 'recharts';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { Card } from './ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { SuggestedBucketCard } from './SuggestedBucketCard';
+import { BucketPerformanceReport } from './BucketPerformanceReport';
+import type { SelectedFund } from '../App';
+import type { SuggestedBucket } from '../types/suggestedBucket';
+import type { NavSeries } from '../utils/portfolioStats';
+import type { BlogEmbed } from '../utils/blogEmbeds';
+import { fetchFundMetadata, fetchNAVData } from '../services/navService';
+import { fetchSuggestedBucketById } from '../services/suggestedBucketsService';
+import { growthOfInvestment } from '../utils/fundComparison';
+import { getToday } from '../utils/dateUtils';
+
+// Loaded with the first calculator embed, not with every post
+const SIPCalculator = lazy(() =>
+  import('./calculators/SIPCalculator').then((m) => ({ default: m.SIPCalculator }))
+);
+
+export type ImportBucketHandler = (bucket: SuggestedBucket, target: 'investment' | 'retirement') => void;
+
+const NAV_HISTORY_START = '1990-01-01';
+const GROWTH_AMOUNT = 10000;
+const LINE_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea', '#ea580c'];
+
+const formatCurrency = (amount: number): string =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', maximumFractionDigits: 0 }).format(amount);
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+
+function EmbedLoading({ label }: { label: string }) {
+  return (
+    <Card className="p-6 flex items-center justify-center gap-2 text-sm text-gray-500">
+      <Loader2 className="w-4 h-4 animate-spin" />
+      {label}
+    </Card>
+  );
+}
+
+/**
+ * An embed that couldn't be shown, with the reason
+ */
+export function EmbedNotice({ message }: { message: string }) {
+  return (
+    <Card className="p-4 flex items-start gap-2 text-sm border-amber-200 bg-amber-50 text-amber-800">
+      <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+      {message}
+    </Card>
+  );
+}
+
+/**
+ * Growth of ₹10,000 in each fund over the period
+ */
+function FundChartEmbed({ embed }: { embed: Extract<BlogEmbed, { type: 'fund-chart' }> }) {
+  const [navByFund, setNavByFund] = useState<Record<string, NavSeries>>({});
+  const [names, setNames] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const schemeKey = embed.schemeCodes.join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    fetchNAVData(embed.schemeCodes, NAV_HISTORY_START, getToday())
+      .then((responses) => {
+        if (cancelled) return;
+        const series: Record<string, NavSeries> = {};
+        const schemeNames: Record<string, string> = {};
+        responses.forEach((response) => {
+          series[response.schemeCode] = response.navData;
+          schemeNames[response.schemeCode] = response.schemeName || response.schemeCode;
+        });
+        setNavByFund(series);
+        setNames(schemeNames);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err.message || 'Could not load NAVs');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [schemeKey]);
+
+  const data = useMemo(() => growthOfInvestment(navByFund, embed.period, GROWTH_AMOUNT), [navByFund, embed.period]);
+  const fundIds = embed.schemeCodes.filter((code) => navByFund[code]?.length > 0);
+
+  if (isLoading) return <EmbedLoading label="Loading fund chart…" />;
+  if (error) return <EmbedNotice message={`Fund chart unavailable: ${error}`} />;
+  if (data.length < 2) return <EmbedNotice message="Not enough NAV history to chart these funds over this period." />;
+
+  const last = data[data.length - 1];
+
+  return (
+    <Card className="p-4 sm:p-6">
+      <h3 className="text-lg font-semibold text-gray-900">{embed.title || `Growth of ${formatCurrency(GROWTH_AMOUNT)}`}</h3>
+      <p className="text-xs text-gray-500 mb-4">
+        {formatDate(data[0].date)} to {formatDate(last.date)} · {embed.period === 'MAX' ? 'since launch' : embed.period}
+      </p>
+      <div className="w-full h-[260px] sm:h-[320px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={data.map((point) => ({
+              ...point,
+              label: new Date(point.date).toLocaleDateString('en-IN', { month: 'short', year: 'numeric' }),
+            }))}
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+            <XAxis dataKey="label" tick={{ fontSize: 12 }} tickLine={false} minTickGap={24} />
+            <YAxis tickFormatter={(value) => `₹${(value / 1000).toFixed(0)}K`} tick={{ fontSize: 12 }} tickLine={false} />
+            <Tooltip
+              formatter={(value: number, name: string) => [formatCurrency(value), name]}
+              contentStyle={{ backgroundColor: 'white', border: '1px solid #ccc', borderRadius: '8px' }}
+            />
+            {/* @ts-ignore */}
+            <RechartsLegend wrapperStyle={{ paddingTop: '12px', fontSize: '12px' }} iconType="line" />
+            {fundIds.map((fundId, index) => (
+              <Line
+                key={fundId}
+                type="monotone"
+                dataKey={fundId}
+                name={names[fundId] ?? fundId}
+                stroke={LINE_COLORS[index % LINE_COLORS.length]}
+                strokeWidth={2}
+                dot={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="mt-3 flex flex-wrap gap-x-6 gap-y-1 text-sm text-gray-600">
+        {fundIds.map((fundId) => (
+          <span key={fundId}>
+            {names[fundId] ?? fundId}: <span className="font-medium text-gray-900">{formatCurrency(last[fundId] as number)}</span>
+          </span>
+        ))}
+      </div>
+    </Card>
+  );
+}
+
+/**
+ * A suggested bucket, as on the home page, with its performance report
+ */
+function BucketEmbed({ bucketId, onImportBucket }: { bucketId: string; onImportBucket?: ImportBucketHandler }) {
+  const [bucket, setBucket] = useState<SuggestedBucket | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showPerformance, setShowPerformance] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    fetchSuggestedBucketById(bucketId).then((data) => {
+      if (cancelled) return;
+      setBucket(data);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [bucketId]);
+
+  if (isLoading) return <EmbedLoading label="Loading bucket…" />;
+  if (!bucket) return <EmbedNotice message="This suggested bucket is no longer available." />;
+
+  return (
+    <>
+      <div className="max-w-md mx-auto">
+        <SuggestedBucketCard
+          bucket={bucket}
+          onViewPerformance={() => setShowPerformance(true)}
+          // Without a handler (the editor preview) importing does nothing
+          onImportBucket={onImportBucket ?? (() => {})}
+        />
+      </div>
+
+      <Dialog open={showPerformance} onOpenChange={setShowPerformance}>
+        <DialogContent className="max-w-[95vw] sm:max-w-[90vw] md:max-w-4xl lg:max-w-6xl max-h-[95vh] sm:max-h-[90vh] overflow-y-auto p-3 sm:p-4 md:p-6 w-full">
+          <DialogHeader className="pb-2 sm:pb-3">
+            <DialogTitle className="text-base sm:text-lg md:text-xl lg:text-2xl break-words pr-6">
+              {bucket.name} - Performance Analysis
+            </DialogTitle>
+            <DialogDescription className="text-xs sm:text-sm mt-1 sm:mt-2">
+              Detailed rolling returns analysis from {new Date(bucket.performance.analysisStartDate).toLocaleDateString()}
+              to {new Date(bucket.performance.analysisEndDate).toLocaleDateString()}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="overflow-x-hidden">
+            <BucketPerformanceReport bucket={bucket} />
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+/**
+ * The SIP calculator with the post's funds and inputs; readers can change
+ * the inputs and recalculate
+ */
+function SipCalculatorEmbed({ embed }: { embed: Extract<BlogEmbed, { type: 'sip-calculator' }> }) {
+  const [funds, setFunds] = useState<SelectedFund[] | null>(null);
+  const fundKey = embed.funds.map((fund) => `${fund.id}=${fund.weightage}`).join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    setFunds(null);
+    fetchFundMetadata(embed.funds.map((fund) => fund.id))
+      .catch(() => [])
+      .then((metadata) => {
+        if (cancelled) return;
+        // Funds without metadata still calculate, shown by scheme code
+        setFunds(
+          embed.funds.map(({ id, weightage, exitLoad }) => {
+            const fund = metadata.find((item) => item.id === id) ?? { id, name: id, launchDate: '', category: 'Unknown' };
+            return exitLoad ? { ...fund, weightage, exitLoad } : { ...fund, weightage };
+          })
+        );
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fundKey]);
+
+  const shared = useMemo(() => ({ inputs: embed.inputs, autoRun: embed.autoRun }), [embed]);
+
+  if (!funds) return <EmbedLoading label="Loading calculator…" />;
+
+  return (
+    <div>
+      {embed.title && <h3 className="text-xl font-bold text-gray-900 mb-3">{embed.title}</h3>}
+      <Suspense fallback={<EmbedLoading label="Loading calculator…" />}>
+        <SIPCalculator funds={funds} shared={shared} />
+      </Suspense>
+    </div>
+  );
+}
+
+interface BlogEmbedViewProps {
+  embed: BlogEmbed;
+  onImportBucket?: ImportBucketHandler;
+}
+
+export function BlogEmbedView({ embed, onImportBucket }: BlogEmbedViewProps) {
+  switch (embed.type) {
+    case 'fund-chart':
+      return <FundChartEmbed embed={embed} />;
+    case 'bucket':
+      return <BucketEmbed bucketId={embed.bucketId} onImportBucket={onImportBucket} />;
+    case 'sip-calculator':
+      return <SipCalculatorEmbed embed={embed} />;
+  }
+}
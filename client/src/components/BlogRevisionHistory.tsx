@@ -0,0 +1,179 @@
+// client/src/components/BlogRevisionHistory.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { Loader2, RotateCcw } from 'lucide-react';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import type { Blog, BlogRevision } from '../types/blog';
+import { fetchBlogRevisions, restoreBlogRevision } from '../services/blogsService';
+import { diffLines, splitHtmlLines } from '../utils/textDiff';
+
+interface BlogRevisionHistoryProps {
+  blog: Blog | null; // dialog is open while set
+  onClose: () => void;
+  onRestore: (blog: Blog) => void;
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-IN', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+const DIFF_LINE_STYLES = {
+  same: 'text-gray-600',
+  added: 'bg-green-50 text-green-800',
+  removed: 'bg-red-50 text-red-800 line-through decoration-red-300',
+};
+
+const DIFF_LINE_MARKERS = { same: ' ', added: '+', removed: '−' };
+
+// Changes to fields other than the content, as "field: before → after"
+const fieldChanges = (revision: BlogRevision, blog: Blog): string[] => {
+  const changes: string[] = [];
+  if (revision.title !== blog.title) changes.push(`Title: "${revision.title}" → "${blog.title}"`);
+  if (revision.contentFormat !== blog.contentFormat) {
+    changes.push(`Format: ${revision.contentFormat} → ${blog.contentFormat}`);
+  }
+  if (revision.imageUrl !== blog.imageUrl) changes.push('Image changed');
+  if (revision.categories.join(', ') !== blog.categories.join(', ')) {
+    changes.push(`Categories: ${revision.categories.join(', ') || 'none'} → ${blog.categories.join(', ') || 'none'}`);
+  }
+  if (revision.tags.join(', ') !== blog.tags.join(', ')) {
+    changes.push(`Tags: ${revision.tags.join(', ') || 'none'} → ${blog.tags.join(', ') || 'none'}`);
+  }
+  if (revision.exclusive !== blog.exclusive) {
+    changes.push(`Exclusive: ${revision.exclusive ? 'yes' : 'no'} → ${blog.exclusive ? 'yes' : 'no'}`);
+  }
+  if ((revision.author ?? '') !== (blog.author ?? '')) changes.push(`Author: ${revision.author} → ${blog.author}`);
+  return changes;
+};
+
+/**
+ * Earlier versions of a post, each compared with the current version, with
+ * an option to restore one. Restoring saves it as a new version, so nothing
+ * in the history is lost.
+ */
+export function BlogRevisionHistory({ blog, onClose, onRestore }: BlogRevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<BlogRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    if (!blog) return;
+    let cancelled = false;
+    setRevisions([]);
+    setSelectedVersion(null);
+    setIsLoading(true);
+    fetchBlogRevisions(blog.id).then((data) => {
+      if (cancelled) return;
+      setRevisions(data);
+      setSelectedVersion(data[0]?.version ?? null);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [blog?.id, blog?.version]);
+
+  const selected = revisions.find((revision) => revision.version === selectedVersion) ?? null;
+
+  const diff = useMemo(
+    () => (selected && blog ? diffLines(splitHtmlLines(selected.content), splitHtmlLines(blog.content)) : []),
+    [selected, blog]
+  );
+  const changes = selected && blog ? fieldChanges(selected, blog) : [];
+  const contentChanged = diff.some((line) => line.type !== 'same');
+
+  const handleRestore = async () => {
+    if (!blog || !selected) return;
+    if (!confirm(`Restore version ${selected.version}? The current version stays in the history.`)) return;
+
+    setIsRestoring(true);
+    try {
+      onRestore(await restoreBlogRevision(blog.id, selected.version));
+    } catch (error: any) {
+      alert(error.message || 'Error restoring revision');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={blog !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Revision history</DialogTitle>
+          <DialogDescription className="truncate">
+            {blog ? `${blog.title} · current version v${blog.version}` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-gray-600 py-6">No earlier versions saved. Revisions are kept each time the post is edited.</p>
+        ) : (
+          <div className="flex gap-4 min-h-0 flex-1">
+            <div className="w-52 shrink-0 space-y-1 overflow-y-auto">
+              {revisions.map((revision) => (
+                <button
+                  key={revision.version}
+                  type="button"
+                  onClick={() => setSelectedVersion(revision.version)}
+                  className={`w-full text-left p-2 rounded text-sm ${
+                    revision.version === selectedVersion ? 'bg-blue-50 border border-blue-200' : 'hover:bg-gray-50 border border-transparent'
+                  }`}
+                >
+                  <p className="font-medium">v{revision.version}</p>
+                  <p className="text-xs text-gray-500">{formatDateTime(revision.savedAt)}</p>
+                </button>
+              ))}
+            </div>
+
+            {selected && (
+              <div className="flex-1 min-w-0 flex flex-col">
+                <div className="flex items-center justify-between mb-3">
+                  <p className="text-sm text-gray-600">
+                    Changes from <Badge variant="outline">v{selected.version}</Badge> to the current version
+                  </p>
+                  <Button size="sm" variant="outline" onClick={handleRestore} disabled={isRestoring} className="gap-2">
+                    {isRestoring ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                    Restore v{selected.version}
+                  </Button>
+                </div>
+
+                {changes.length > 0 && (
+                  <ul className="text-sm text-gray-700 mb-3 space-y-1">
+                    {changes.map((change) => (
+                      <li key={change}>{change}</li>
+                    ))}
+                  </ul>
+                )}
+
+                <div className="flex-1 overflow-y-auto border rounded bg-white font-mono text-xs">
+                  {!contentChanged ? (
+                    <p className="p-3 text-gray-500 font-sans text-sm">Content is unchanged.</p>
+                  ) : (
+                    diff.map((line, index) => (
+                      <div key={index} className={`flex gap-2 px-2 py-0.5 whitespace-pre-wrap break-words ${DIFF_LINE_STYLES[line.type]}`}>
+                        <span className="select-none w-3 shrink-0">{DIFF_LINE_MARKERS[line.type]}</span>
+                        <span className="min-w-0">{line.text}</span>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
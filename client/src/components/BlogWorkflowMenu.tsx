@@ -0,0 +1,114 @@
+// client/src/components/BlogWorkflowMenu.tsx
+import React, { useState } from 'react';
+import { ChevronDown, Loader2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import type { Blog, BlogStatus } from '../types/blog';
+import { updateBlogStatus } from '../services/blogsService';
+import { BLOG_STATUS_TRANSITIONS, statusActionLabel, toDateTimeLocal } from '../utils/blogWorkflow';
+
+interface BlogWorkflowMenuProps {
+  blog: Blog;
+  onChange: (blog: Blog) => void;
+}
+
+// Default publish time for a new schedule: tomorrow at 9 AM
+const defaultPublishAt = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  date.setHours(9, 0, 0, 0);
+  return toDateTimeLocal(date);
+};
+
+export function BlogWorkflowMenu({ blog, onChange }: BlogWorkflowMenuProps) {
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [isScheduling, setIsScheduling] = useState(false);
+  const [publishAt, setPublishAt] = useState('');
+
+  const moveTo = async (status: BlogStatus, publishAtIso?: string) => {
+    setIsUpdating(true);
+    try {
+      onChange(await updateBlogStatus(blog.id, status, publishAtIso));
+      setIsScheduling(false);
+    } catch (error: any) {
+      alert(error.message || 'Error updating blog status');
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleSelect = (status: BlogStatus) => {
+    if (status === 'scheduled') {
+      setPublishAt(blog.publishAt ? toDateTimeLocal(new Date(blog.publishAt)) : defaultPublishAt());
+      setIsScheduling(true);
+    } else {
+      moveTo(status);
+    }
+  };
+
+  const publishDate = publishAt ? new Date(publishAt) : null;
+  const isValidSchedule = publishDate !== null && publishDate.getTime() > Date.now();
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" disabled={isUpdating} className="gap-1">
+            {isUpdating ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Status'}
+            <ChevronDown className="w-3 h-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {BLOG_STATUS_TRANSITIONS[blog.status].map((status) => (
+            <DropdownMenuItem key={status} onSelect={() => handleSelect(status)}>
+              {statusActionLabel(blog.status, status)}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isScheduling} onOpenChange={setIsScheduling}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Schedule post</DialogTitle>
+            <DialogDescription className="truncate">{blog.title}</DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="publishAt">Publish at</Label>
+            <Input
+              id="publishAt"
+              type="datetime-local"
+              value={publishAt}
+              min={toDateTimeLocal(new Date())}
+              onChange={(e) => setPublishAt(e.target.value)}
+              className="mt-1"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Your local time. Posts go live within a minute of this time.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsScheduling(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => publishDate && moveTo('scheduled', publishDate.toISOString())}
+              disabled={!isValidSchedule || isUpdating}
+            >
+              {isUpdating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Schedule
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -10,9 +10,11 @@ import type { Blog, Category, Tag } from '../types/blog';
 import { fetchBlogs, fetchCategories, fetchTags } from '../services/blogsService';
 import { OptimizedImage } from './OptimizedImage';
 import { BlogCard } from './BlogCard';
+import { blogPath } from '../utils/routes';
+import { markdownToPlainText } from '../utils/markdown';
 
 interface BlogsPageProps {
-  onNavigate?: (page: string, blogId?: string) => void;
+  onNavigate?: (page: string, blogSlug?: string) => void;
 }
 
 export function BlogsPage({ onNavigate }: BlogsPageProps) {
@@ -104,9 +106,9 @@ export function BlogsPage({ onNavigate }: BlogsPageProps) {
 
   const handleBlogClick = (blog: Blog) => {
     if (onNavigate) {
-      onNavigate('blog-detail', blog.id);
+      onNavigate('blog-detail', blog.slug ?? blog.id);
     } else {
-      window.location.hash = `#blog-detail?id=${blog.id}`;
+      window.location.assign(blogPath(blog.slug ?? blog.id));
     }
   };
 
@@ -364,7 +366,7 @@ export function BlogsPage({ onNavigate }: BlogsPageProps) {
                   </h2>
 
                   <p className="text-sm text-white/90 mb-4 line-clamp-2">
-                    {featuredBlog.content ? truncateText(stripHtmlAndDecode(featuredBlog.content), 100) : ''}
+                    {featuredBlog.content ? truncateText(featuredBlog.contentFormat === 'markdown' ? markdownToPlainText(featuredBlog.content) : stripHtmlAndDecode(featuredBlog.content), 100) : ''}
                   </p>
 
                   <div className="flex items-center justify-between">
@@ -375,7 +377,7 @@ export function BlogsPage({ onNavigate }: BlogsPageProps) {
                       </div>
                       <div className="flex items-center gap-1">
                         <Calendar className="w-3 h-3" />
-                        <span>{formatDateShort(featuredBlog.createdAt)}</span>
+                        <span>{formatDateShort(featuredBlog.publishedAt || featuredBlog.createdAt)}</span>
                       </div>
                       <div className="flex items-center gap-1">
                         <Eye className="w-3 h-3" />
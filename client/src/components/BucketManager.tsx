@@ -5,8 +5,8 @@ import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { Badge } from './ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from './ui/dialog';
-import { Plus, Trash2, Eye, TrendingUp } from 'lucide-react';
-import type { Bucket } from '../types/bucket';
+import { Plus, Trash2, Eye, TrendingUp, History, Loader2 } from 'lucide-react';
+import type { Bucket, BucketVersion } from '../types/bucket';
 import type { SelectedFund } from '../App';
 
 interface BucketManagerProps {
@@ -16,8 +16,23 @@ interface BucketManagerProps {
   onViewPerformance: (bucketId: string) => void;
   availableFunds: SelectedFund[];
   onAddFundsToBucket?: (bucketId: string, funds: SelectedFund[]) => void;
+  activeBucketId?: string | null;
+  storageNote?: string; // e.g. whether buckets are saved to the user's account
+  onLoadVersions?: (bucketId: string) => Promise<BucketVersion[]>;
+  onRestoreVersion?: (bucketId: string, version: number) => void;
 }
 
+const formatCurrency = (amount: number): string => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 0,
+  }).format(amount);
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' });
+
 export function BucketManager({
   buckets,
   onCreateBucket,
@@ -25,9 +40,31 @@ export function BucketManager({
   onViewPerformance,
   availableFunds,
   onAddFundsToBucket,
+  activeBucketId,
+  storageNote,
+  onLoadVersions,
+  onRestoreVersion,
 }: BucketManagerProps) {
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [newBucketName, setNewBucketName] = useState('');
+  const [historyBucket, setHistoryBucket] = useState<Bucket | null>(null);
+  const [versions, setVersions] = useState<BucketVersion[]>([]);
+  const [versionsLoading, setVersionsLoading] = useState(false);
+
+  const handleOpenHistory = async (bucket: Bucket) => {
+    if (!onLoadVersions) return;
+    setHistoryBucket(bucket);
+    setVersions([]);
+    setVersionsLoading(true);
+    setVersions(await onLoadVersions(bucket.id));
+    setVersionsLoading(false);
+  };
+
+  const handleRestore = (version: number) => {
+    if (!historyBucket) return;
+    onRestoreVersion?.(historyBucket.id, version);
+    setHistoryBucket(null);
+  };
 
   const handleCreateBucket = () => {
     if (newBucketName.trim() && availableFunds.length >= 2) {
@@ -43,6 +80,7 @@ export function BucketManager({
         <div>
           <h3 className="text-lg font-semibold text-gray-900">SWP Buckets</h3>
           <p className="text-sm text-gray-600">Manage your withdrawal plan buckets</p>
+          {storageNote && <p className="text-xs text-gray-500 mt-1">{storageNote}</p>}
         </div>
         <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
           <Button onClick={() => setIsCreateDialogOpen(true)}>
@@ -101,12 +139,17 @@ export function BucketManager({
       ) : (
         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
           {buckets.map((bucket) => (
-            <Card key={bucket.id} className="p-4">
+            <Card
+              key={bucket.id}
+              className={`p-4 ${bucket.id === activeBucketId ? 'border-green-500 ring-1 ring-green-500' : ''}`}
+            >
               <div className="flex items-start justify-between mb-3">
                 <div className="flex-1">
                   <h4 className="font-semibold text-gray-900">{bucket.name}</h4>
                   <p className="text-xs text-gray-500 mt-1">
                     {bucket.funds.length} fund{bucket.funds.length !== 1 ? 's' : ''}
+                    {bucket.version !== undefined && ` · v${bucket.version}`}
+                    {bucket.updatedAt && ` · saved ${formatDate(bucket.updatedAt)}`}
                   </p>
                 </div>
                 <Button
@@ -131,6 +174,22 @@ export function BucketManager({
                 )}
               </div>
 
+              {bucket.lastResults && (
+                <div className="mb-4 p-2 bg-slate-50 rounded text-xs text-gray-600 space-y-1">
+                  <p>
+                    Last run{bucket.lastCalculatedAt ? ` on ${formatDate(bucket.lastCalculatedAt)}` : ''}:{' '}
+                    {formatCurrency(bucket.lastResults.totalWithdrawn)} withdrawn,{' '}
+                    {formatCurrency(bucket.lastResults.finalCorpus)} left
+                  </p>
+                  <p>
+                    {bucket.lastResults.depletedOn
+                      ? `Ran out on ${bucket.lastResults.depletedOn}`
+                      : `Lasted ${bucket.lastResults.survivalMonths} withdrawals`}
+                    {bucket.lastResults.xirr !== null && `, XIRR ${bucket.lastResults.xirr.toFixed(2)}%`}
+                  </p>
+                </div>
+              )}
+
               <div className="flex gap-2">
                 <Button
                   variant="outline"
@@ -139,8 +198,18 @@ export function BucketManager({
                   onClick={() => onViewPerformance(bucket.id)}
                 >
                   <Eye className="h-4 w-4 mr-2" />
-                  Performance
+                  Open
                 </Button>
+                {onLoadVersions && (bucket.version ?? 1) > 1 && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleOpenHistory(bucket)}
+                    title="Version history"
+                  >
+                    <History className="h-4 w-4" />
+                  </Button>
+                )}
                 {onAddFundsToBucket && (
                   <Button
                     variant="outline"
@@ -155,6 +224,41 @@ export function BucketManager({
           ))}
         </div>
       )}
+
+      <Dialog open={historyBucket !== null} onOpenChange={(open) => !open && setHistoryBucket(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Version history{historyBucket ? ` – ${historyBucket.name}` : ''}</DialogTitle>
+          </DialogHeader>
+          {versionsLoading ? (
+            <div className="flex items-center justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+            </div>
+          ) : versions.length === 0 ? (
+            <p className="text-sm text-gray-600">No earlier versions saved.</p>
+          ) : (
+            <div className="space-y-2 max-h-72 overflow-y-auto">
+              {versions.map((entry) => (
+                <div key={entry.version} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                  <div>
+                    <p className="text-sm font-medium">
+                      v{entry.version} · {entry.name}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {entry.funds.length} fund{entry.funds.length !== 1 ? 's' : ''}, saved {formatDate(entry.savedAt)}
+                    </p>
+                  </div>
+                  {onRestoreVersion && (
+                    <Button variant="outline" size="sm" onClick={() => handleRestore(entry.version)}>
+                      Restore
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
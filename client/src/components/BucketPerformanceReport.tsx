@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card } from './ui/card';
 import { Badge } from './ui/badge';
 import { Button } from './ui/button';
@@ -9,6 +9,11 @@ import { fetchNAVData } from '../services/navService';
 import { getLatestNAVBeforeDate, getNextAvailableNAV, getToday, addMonths, getYearsBetween } from '../utils/dateUtils';
 import { computeFundCAGR, computeWeightedAverage } from '../utils/portfolioStats';
 import { calculateCAGR, calculateXIRR } from '../utils/financialCalculations';
+import { calculateBucketRiskMetrics, loadRiskBenchmark } from '../utils/bucketPerformanceCalculator';
+import { DEFAULT_BENCHMARK_SLUG } from '../utils/benchmark';
+import { DEFAULT_RISK_FREE_RATE } from '../utils/riskMetrics';
+import type { NavSeries } from '../utils/portfolioStats';
+import { RiskMetricsPanel } from './RiskMetricsPanel';
 
 // Cache configuration
 const CACHE_PREFIX = 'bucket_perf_report_';
@@ -204,6 +209,9 @@ export function BucketPerformanceReport({ bucket }: BucketPerformanceReportProps
   const [bucketLiveReturns, setBucketLiveReturns] = useState<BucketLiveReturns | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isFromCache, setIsFromCache] = useState(false);
+  const [riskFreeRate, setRiskFreeRate] = useState(DEFAULT_RISK_FREE_RATE);
+  const [riskInputs, setRiskInputs] = useState<{ navMap: Record<string, NavSeries>; benchmark?: NavSeries } | null>(null);
+  const [isRiskLoading, setIsRiskLoading] = useState(false);
 
   const { rollingReturns } = bucket.performance;
 
@@ -211,6 +219,50 @@ export function BucketPerformanceReport({ bucket }: BucketPerformanceReportProps
     loadLiveReturns();
   }, [bucket]);
 
+  // NAV history for risk metrics is loaded separately so the risk-free rate can
+  // be changed without refetching
+  useEffect(() => {
+    let cancelled = false;
+    const loadRiskInputs = async () => {
+      setIsRiskLoading(true);
+      try {
+        const startDate = bucket.performance.analysisStartDate;
+        const today = getToday();
+        const [navResponses, benchmark] = await Promise.all([
+          fetchNAVData(bucket.funds.map(f => f.id), startDate, today),
+          loadRiskBenchmark(startDate, today),
+        ]);
+        if (cancelled) return;
+        const navMap: Record<string, NavSeries> = {};
+        navResponses.forEach(response => {
+          navMap[response.schemeCode] = response.navData.map(nav => ({ date: nav.date, nav: nav.nav }));
+        });
+        setRiskInputs({ navMap, benchmark });
+      } catch (err) {
+        console.warn('Error loading NAV history for risk metrics:', err);
+        if (!cancelled) setRiskInputs(null);
+      } finally {
+        if (!cancelled) setIsRiskLoading(false);
+      }
+    };
+    loadRiskInputs();
+    return () => { cancelled = true; };
+  }, [bucket]);
+
+  const riskMetrics = useMemo(() => {
+    if (riskInputs) {
+      return calculateBucketRiskMetrics(
+        bucket.funds,
+        riskInputs.navMap,
+        { frequency: 'monthly', riskFreeRate, benchmark: riskInputs.benchmark },
+        DEFAULT_BENCHMARK_SLUG
+      );
+    }
+    // Fall back to the metrics stored with the bucket while history loads
+    const stored = bucket.performance.riskMetrics;
+    return stored && stored.bucket.riskFreeRate === riskFreeRate ? stored : null;
+  }, [bucket, riskInputs, riskFreeRate]);
+
   // Clear cache when bucket changes (funds or weightages)
   useEffect(() => {
     const fundHash = generateFundHash(bucket.funds.map(f => ({ id: f.id, weightage: f.weightage })));
@@ -655,6 +707,14 @@ export function BucketPerformanceReport({ bucket }: BucketPerformanceReportProps
         </div>
       </Card>
 
+      {/* Risk-Adjusted Metrics */}
+      <RiskMetricsPanel
+        metrics={riskMetrics}
+        riskFreeRate={riskFreeRate}
+        onRiskFreeRateChange={setRiskFreeRate}
+        isLoading={isRiskLoading}
+      />
+
       {/* Individual Fund Performance */}
       <Card className="p-4 sm:p-5 md:p-6">
         <h3 className="text-base sm:text-lg font-semibold mb-3 sm:mb-4">Individual Fund Performance</h3>
@@ -2,13 +2,19 @@ import React, { useState } from 'react';
 import { Card } from './ui/card';
 import { FinancialPlanningForm } from './FinancialPlanningForm';
 import { FinancialPlanningResults } from './FinancialPlanningResults';
+import { GoalPlanner } from './GoalPlanner';
 import { ArrowLeft, FileText } from 'lucide-react';
 import { Button } from './ui/button';
 import type { FinancialInputs, FinancialResults } from '../utils/financialPlanningCalculations';
 import { calculateFinancialPlan } from '../utils/financialPlanningCalculations';
 import { downloadReport } from '../utils/financialPlanningHelpers';
+import type { Bucket } from '../types/bucket';
 
-export function FinancialPlanningPage() {
+interface FinancialPlanningPageProps {
+  buckets?: Bucket[];
+}
+
+export function FinancialPlanningPage({ buckets = [] }: FinancialPlanningPageProps) {
   const [inputs, setInputs] = useState<FinancialInputs | null>(null);
   const [results, setResults] = useState<FinancialResults | null>(null);
   const [showResults, setShowResults] = useState(false);
@@ -79,6 +85,7 @@ export function FinancialPlanningPage() {
               onDownload={handleDownload}
               isGeneratingPDF={isGeneratingPDF}
             />
+            <GoalPlanner inputs={inputs} results={results} buckets={buckets} />
           </div>
         )}
 
@@ -1,5 +1,7 @@
 import React from 'react';
 import { Mail, Phone, MapPin, Linkedin } from 'lucide-react';
+import { RouterLink } from './RouterLink';
+import { pagePath } from '../utils/routes';
 
 export function Footer() {
   return (
@@ -25,34 +27,34 @@ export function Footer() {
             <h4 className="text-lg font-semibold text-white">Quick Links</h4>
             <ul className="space-y-2">
               <li>
-                <a href="#home" className="text-slate-300 hover:text-blue-400 transition-colors text-sm">
+                <RouterLink href={pagePath('home')} className="text-slate-300 hover:text-blue-400 transition-colors text-sm">
                   Home
-                </a>
+                </RouterLink>
               </li>
               <li>
-                <a href="#investment-plan" className="text-slate-300 hover:text-blue-400 transition-colors text-sm">
+                <RouterLink href={pagePath('investment-plan')} className="text-slate-300 hover:text-blue-400 transition-colors text-sm">
                   Investment Plan
-                </a>
+                </RouterLink>
               </li>
               <li>
-                <a href="#retirement-plan" className="text-slate-300 hover:text-blue-400 transition-colors text-sm">
+                <RouterLink href={pagePath('retirement-plan')} className="text-slate-300 hover:text-blue-400 transition-colors text-sm">
                   Retirement Plan
-                </a>
+                </RouterLink>
               </li>
               <li>
-                <a href="#financial-planning" className="text-slate-300 hover:text-blue-400 transition-colors text-sm">
+                <RouterLink href={pagePath('financial-planning')} className="text-slate-300 hover:text-blue-400 transition-colors text-sm">
                   Financial Planning
-                </a>
+                </RouterLink>
               </li>
               <li>
-                <a href="#ai-stock-analysis" className="text-slate-300 hover:text-blue-400 transition-colors text-sm">
+                <RouterLink href={pagePath('ai-stock-analysis')} className="text-slate-300 hover:text-blue-400 transition-colors text-sm">
                   AI Stock Analysis
-                </a>
+                </RouterLink>
               </li>
               <li>
-                <a href="#blogs" className="text-slate-300 hover:text-blue-400 transition-colors text-sm">
+                <RouterLink href={pagePath('blogs')} className="text-slate-300 hover:text-blue-400 transition-colors text-sm">
                   Blogs & Community
-                </a>
+                </RouterLink>
               </li>
             </ul>
           </div>
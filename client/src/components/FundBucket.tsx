@@ -5,14 +5,17 @@ import { Badge } from './ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
 import { Trash2 } from 'lucide-react';
 import type { SelectedFund } from '../App';
+import { ExitLoadSchedule, ExitLoadTier, formatExitLoad, getDefaultExitLoad, resolveExitLoad } from '../utils/exitLoad';
+import { FundOverlapPanel } from './FundOverlapPanel';
 
 interface FundBucketProps {
   funds: SelectedFund[];
   onRemoveFund: (fundId: string) => void;
   onWeightageChange: (fundId: string, weightage: number) => void;
+  onExitLoadChange?: (fundId: string, exitLoad: ExitLoadSchedule) => void;
 }
 
-export function FundBucket({ funds, onRemoveFund, onWeightageChange }: FundBucketProps) {
+export function FundBucket({ funds, onRemoveFund, onWeightageChange, onExitLoadChange }: FundBucketProps) {
   // Safety check: ensure funds is always an array
   const fundsArray = funds || [];
   const totalWeightage = fundsArray.reduce((sum, fund) => sum + fund.weightage, 0);
@@ -27,6 +30,68 @@ export function FundBucket({ funds, onRemoveFund, onWeightageChange }: FundBucke
     }
   };
 
+  // The editor covers the common single-tier case (X% within N days)
+  const getPrimaryTier = (fund: SelectedFund): ExitLoadTier => {
+    const schedule = resolveExitLoad(fund.exitLoad);
+    return schedule[0] ?? { withinDays: 365, ratePercent: 0 };
+  };
+
+  const handleExitLoadEdit = (fund: SelectedFund, changes: Partial<ExitLoadTier>) => {
+    if (!onExitLoadChange) return;
+    const tier = { ...getPrimaryTier(fund), ...changes };
+    onExitLoadChange(fund.id, tier.ratePercent > 0 && tier.withinDays > 0 ? [tier] : []);
+  };
+
+  const renderExitLoadInputs = (fund: SelectedFund, className: string) => {
+    const tier = getPrimaryTier(fund);
+    // Funds start with no load; the category's usual load is one click away
+    const categoryLoad = getDefaultExitLoad(fund.category);
+    const canApplyCategoryLoad = resolveExitLoad(fund.exitLoad).length === 0 && categoryLoad.length > 0;
+    return (
+      <div className={`flex items-center gap-1 ${className}`}>
+        <Input
+          type="number"
+          min="0"
+          max="5"
+          step="0.25"
+          value={tier.ratePercent}
+          onChange={(e) => {
+            const value = parseFloat(e.target.value) || 0;
+            handleExitLoadEdit(fund, { ratePercent: Math.max(0, Math.min(5, value)) });
+          }}
+          className="w-16 text-center"
+          aria-label="Exit load percent"
+        />
+        <span className="text-xs text-gray-500 whitespace-nowrap">% within</span>
+        <Input
+          type="number"
+          min="0"
+          max="1095"
+          step="1"
+          value={tier.withinDays}
+          onChange={(e) => {
+            const value = parseInt(e.target.value, 10) || 0;
+            handleExitLoadEdit(fund, { withinDays: Math.max(0, Math.min(1095, value)) });
+          }}
+          className="w-20 text-center"
+          aria-label="Exit load period in days"
+        />
+        <span className="text-xs text-gray-500">days</span>
+        {canApplyCategoryLoad && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onExitLoadChange?.(fund.id, categoryLoad)}
+            className="text-xs text-blue-600 hover:text-blue-700 px-2"
+            title={`Apply the usual load for this category: ${formatExitLoad(categoryLoad)}`}
+          >
+            Typical
+          </Button>
+        )}
+      </div>
+    );
+  };
+
   return (
     <Card className="p-4 sm:p-6">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
@@ -68,6 +133,7 @@ export function FundBucket({ funds, onRemoveFund, onWeightageChange }: FundBucke
                   <TableHead>Category</TableHead>
                   <TableHead>Launch Date</TableHead>
                   <TableHead className="text-center">Weightage (%)</TableHead>
+                  {onExitLoadChange && <TableHead className="text-center">Exit Load</TableHead>}
                   <TableHead className="text-center">Action</TableHead>
                 </TableRow>
               </TableHeader>
@@ -101,6 +167,9 @@ export function FundBucket({ funds, onRemoveFund, onWeightageChange }: FundBucke
                         className="w-24 text-center mx-auto"
                       />
                     </TableCell>
+                    {onExitLoadChange && (
+                      <TableCell>{renderExitLoadInputs(fund, 'justify-center')}</TableCell>
+                    )}
                     <TableCell className="text-center">
                       <Button
                         variant="ghost"
@@ -158,6 +227,12 @@ export function FundBucket({ funds, onRemoveFund, onWeightageChange }: FundBucke
                       className="w-full text-center"
                     />
                   </div>
+                  {onExitLoadChange && (
+                    <div className="col-span-2">
+                      <label className="text-xs text-gray-500 mb-1 block">Exit Load</label>
+                      {renderExitLoadInputs(fund, '')}
+                    </div>
+                  )}
                 </div>
               </Card>
             ))}
@@ -170,6 +245,8 @@ export function FundBucket({ funds, onRemoveFund, onWeightageChange }: FundBucke
               </p>
             </div>
           )}
+
+          {fundsArray.length > 1 && <FundOverlapPanel funds={fundsArray} />}
         </>
       )}
     </Card>
@@ -0,0 +1,365 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { Check, Columns, Link2, Loader2, X } from 'lucide-react';
+import { FundSearch } from './FundSearch';
+import type { Fund } from '../App';
+import { fetchFundMetadata, fetchNAVData } from '../services/navService';
+import { getToday } from '../utils/dateUtils';
+import {
+  COMPARISON_PERIODS,
+  compareFund,
+  MAX_COMPARE_FUNDS,
+  MIN_COMPARE_FUNDS,
+  ROLLING_WINDOW_YEARS,
+  TRAILING_YEARS,
+} from '../utils/fundComparison';
+import type { ComparisonPeriod, FundComparison } from '../utils/fundComparison';
+import type { NavSeriesByFund } from '../utils/swpSimulation';
+
+// Comparison state lives in the URL (/compare?funds=…&period=…&window=…) so it can be shared
+interface ComparisonState {
+  schemeCodes: string[];
+  period: ComparisonPeriod;
+  windowYears: number;
+}
+
+const NAV_HISTORY_START = '1990-01-01';
+
+const readUrlState = (): ComparisonState => {
+  const params = new URLSearchParams(window.location.search);
+  const period = params.get('period') as ComparisonPeriod;
+  const windowYears = Number(params.get('window'));
+  return {
+    schemeCodes: (params.get('funds') || '').split(',').filter(Boolean).slice(0, MAX_COMPARE_FUNDS),
+    period: COMPARISON_PERIODS.includes(period) ? period : '5Y',
+    windowYears: (ROLLING_WINDOW_YEARS as readonly number[]).includes(windowYears) ? windowYears : 3,
+  };
+};
+
+const writeUrlState = (state: ComparisonState) => {
+  const params = new URLSearchParams({ period: state.period, window: String(state.windowYears) });
+  if (state.schemeCodes.length > 0) params.set('funds', state.schemeCodes.join(','));
+  window.history.replaceState(window.history.state, '', `/compare?${params}`);
+};
+
+const formatPercent = (value: number | null | undefined) =>
+  value === null || value === undefined ? '—' : `${value.toFixed(2)}%`;
+
+const formatDate = (date: string | null | undefined) =>
+  date ? new Date(date).toLocaleDateString('en-IN', { day: 'numeric', month: 'short', year: 'numeric' }) : '—';
+
+const returnClass = (value: number | null | undefined) =>
+  value === null || value === undefined ? 'text-gray-400' : value >= 0 ? 'text-green-700' : 'text-red-700';
+
+export function FundComparisonPage() {
+  const initialState = useMemo(readUrlState, []);
+  const [funds, setFunds] = useState<Fund[]>([]);
+  const [period, setPeriod] = useState<ComparisonPeriod>(initialState.period);
+  const [windowYears, setWindowYears] = useState<number>(initialState.windowYears);
+  const [navSeries, setNavSeries] = useState<NavSeriesByFund>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(initialState.schemeCodes.length > 0);
+
+  // Funds from a shared link come as scheme codes only
+  useEffect(() => {
+    if (initialState.schemeCodes.length === 0) return;
+    fetchFundMetadata(initialState.schemeCodes)
+      .then(setFunds)
+      .catch(() => {
+        // Still compare by scheme code; names fill in from the NAV response below
+        setFunds(initialState.schemeCodes.map((id) => ({ id, name: id, launchDate: '', category: 'Unknown' })));
+      })
+      .finally(() => setIsRestoring(false));
+  }, [initialState]);
+
+  const schemeKey = funds.map((fund) => fund.id).join(',');
+
+  useEffect(() => {
+    if (isRestoring) return;
+    writeUrlState({ schemeCodes: schemeKey ? schemeKey.split(',') : [], period, windowYears });
+  }, [isRestoring, schemeKey, period, windowYears]);
+
+  useEffect(() => {
+    if (!schemeKey) {
+      setNavSeries({});
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    fetchNAVData(schemeKey.split(','), NAV_HISTORY_START, getToday())
+      .then((responses) => {
+        if (cancelled) return;
+        const series: NavSeriesByFund = {};
+        responses.forEach((response) => {
+          series[response.schemeCode] = response.navData;
+        });
+        setNavSeries(series);
+        setFunds((prev) =>
+          prev.map((fund) => {
+            const response = responses.find((r) => r.schemeCode === fund.id);
+            return fund.name === fund.id && response?.schemeName ? { ...fund, name: response.schemeName } : fund;
+          })
+        );
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err.message || 'Could not load NAVs');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [schemeKey]);
+
+  const comparisons = useMemo(() => {
+    const byFund = new Map<string, FundComparison>();
+    funds.forEach((fund) => {
+      const series = navSeries[fund.id];
+      if (series) byFund.set(fund.id, compareFund(fund.id, series, period, windowYears));
+    });
+    return byFund;
+  }, [funds, navSeries, period, windowYears]);
+
+  const calendarYears = useMemo(() => {
+    const years = new Set<number>();
+    comparisons.forEach((comparison) => comparison.calendarYears.forEach((r) => years.add(r.year)));
+    return [...years].sort((a, b) => b - a);
+  }, [comparisons]);
+
+  const handleAddFund = (fund: Fund) => {
+    setFunds((prev) =>
+      prev.length >= MAX_COMPARE_FUNDS || prev.some((f) => f.id === fund.id) ? prev : [...prev, fund]
+    );
+  };
+
+  const handleRemoveFund = (fundId: string) => {
+    setFunds((prev) => prev.filter((fund) => fund.id !== fundId));
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      window.prompt('Copy this link', window.location.href);
+    }
+  };
+
+  const canCompare = funds.length >= MIN_COMPARE_FUNDS;
+
+  const renderRow = (label: string, value: (comparison: FundComparison) => React.ReactNode, hint?: string) => (
+    <TableRow key={label}>
+      <TableCell className="font-medium text-gray-700 whitespace-nowrap">
+        {label}
+        {hint && <div className="text-xs font-normal text-gray-500">{hint}</div>}
+      </TableCell>
+      {funds.map((fund) => {
+        const comparison = comparisons.get(fund.id);
+        return (
+          <TableCell key={fund.id} className="text-right whitespace-nowrap">
+            {comparison ? value(comparison) : '—'}
+          </TableCell>
+        );
+      })}
+    </TableRow>
+  );
+
+  const renderSection = (title: string, rows: React.ReactNode) => (
+    <Card className="p-4 sm:p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-3">{title}</h3>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead />
+              {funds.map((fund) => (
+                <TableHead key={fund.id} className="text-right min-w-[140px]">
+                  {fund.name}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>{rows}</TableBody>
+        </Table>
+      </div>
+    </Card>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-100 via-slate-50 to-blue-50 py-4 sm:py-6 md:py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-blue-600 via-indigo-600 to-violet-600 rounded-xl sm:rounded-2xl shadow-2xl p-4 sm:p-6 md:p-8 text-white">
+          <div className="flex items-center gap-3 sm:gap-4">
+            <div className="w-12 h-12 sm:w-14 sm:h-14 md:w-16 md:h-16 rounded-lg sm:rounded-xl bg-white/20 backdrop-blur-lg flex items-center justify-center flex-shrink-0">
+              <Columns className="w-6 h-6 sm:w-7 sm:h-7 md:w-8 md:h-8" />
+            </div>
+            <div className="min-w-0 flex-1">
+              <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold break-words">Compare Funds</h1>
+              <p className="text-blue-100 mt-1 sm:mt-2 text-sm sm:text-base">
+                Put {MIN_COMPARE_FUNDS}–{MAX_COMPARE_FUNDS} schemes side by side before building a bucket.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <FundSearch onSelectFund={handleAddFund} />
+
+        <Card className="p-4 sm:p-6">
+          <div className="flex flex-col lg:flex-row lg:items-end gap-4">
+            <div className="flex-1">
+              <p className="text-sm text-gray-600 mb-2">
+                Comparing {funds.length}/{MAX_COMPARE_FUNDS} funds
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {funds.length === 0 && (
+                  <span className="text-sm text-gray-500">Search above to add funds.</span>
+                )}
+                {funds.map((fund) => (
+                  <Badge key={fund.id} variant="secondary" className="flex items-center gap-1 py-1">
+                    <span className="max-w-[220px] truncate">{fund.name}</span>
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveFund(fund.id)}
+                      aria-label={`Remove ${fund.name}`}
+                      className="ml-1 text-gray-500 hover:text-red-600"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            </div>
+            <div className="flex flex-wrap items-end gap-3">
+              <div>
+                <Label>Period</Label>
+                <Select value={period} onValueChange={(value) => setPeriod(value as ComparisonPeriod)}>
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COMPARISON_PERIODS.map((p) => (
+                      <SelectItem key={p} value={p}>
+                        {p === 'MAX' ? 'Since launch' : p}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Rolling window</Label>
+                <Select value={String(windowYears)} onValueChange={(value) => setWindowYears(Number(value))}>
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLLING_WINDOW_YEARS.map((years) => (
+                      <SelectItem key={years} value={String(years)}>
+                        {years}Y
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button variant="outline" onClick={handleCopyLink} disabled={funds.length === 0}>
+                {copied ? <Check className="h-4 w-4 mr-2" /> : <Link2 className="h-4 w-4 mr-2" />}
+                {copied ? 'Link copied' : 'Copy link'}
+              </Button>
+            </div>
+          </div>
+          {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+        </Card>
+
+        {!canCompare ? (
+          <Card className="p-6 sm:p-8 text-center">
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-blue-100 mb-4">
+              <Columns className="w-8 h-8 text-blue-600" />
+            </div>
+            <h3 className="text-xl font-bold text-gray-900 mb-2">Add at least {MIN_COMPARE_FUNDS} funds</h3>
+            <p className="text-sm text-gray-600 max-w-md mx-auto">
+              Returns, rolling-return statistics, volatility and drawdown appear here once you pick two or more schemes.
+            </p>
+          </Card>
+        ) : isLoading ? (
+          <Card className="p-8 flex items-center justify-center gap-2 text-gray-600">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            Loading NAV history…
+          </Card>
+        ) : (
+          <>
+            {renderSection('Overview', [
+              renderRow('Category', (c) => funds.find((f) => f.id === c.fundId)?.category || 'Unknown'),
+              renderRow('Launch date', (c) => formatDate(funds.find((f) => f.id === c.fundId)?.launchDate)),
+              renderRow('Latest NAV', (c) => (c.latestNav ? `₹${c.latestNav.nav.toFixed(2)}` : '—'), 'as of the fund\'s last NAV date'),
+            ])}
+
+            {renderSection(
+              'Trailing returns',
+              TRAILING_YEARS.map((years) =>
+                renderRow(
+                  `${years}Y`,
+                  (c) => <span className={returnClass(c.trailing[years])}>{formatPercent(c.trailing[years])}</span>,
+                  years > 1 ? 'annualised' : undefined
+                )
+              )
+            )}
+
+            {calendarYears.length > 0 &&
+              renderSection(
+                'Calendar-year returns',
+                calendarYears.map((year) =>
+                  renderRow(String(year), (c) => {
+                    const entry = c.calendarYears.find((r) => r.year === year);
+                    if (!entry) return '—';
+                    return (
+                      <span className={returnClass(entry.value)}>
+                        {formatPercent(entry.value)}
+                        {entry.partial && <span className="text-xs text-gray-400"> *</span>}
+                      </span>
+                    );
+                  })
+                )
+              )}
+
+            {renderSection(`${windowYears}Y rolling returns (${period === 'MAX' ? 'since launch' : `last ${period}`})`, [
+              renderRow('Mean', (c) => formatPercent(c.rolling?.mean)),
+              renderRow('Median', (c) => formatPercent(c.rolling?.median)),
+              renderRow('Best', (c) => formatPercent(c.rolling?.max)),
+              renderRow('Worst', (c) => formatPercent(c.rolling?.min)),
+              renderRow('Std. deviation', (c) => formatPercent(c.rolling?.stdDev)),
+              renderRow('Positive windows', (c) => (c.rolling ? `${c.rolling.positivePercentage.toFixed(0)}%` : '—')),
+              renderRow('Windows', (c) => c.rolling?.windows ?? '—', 'monthly starts'),
+            ])}
+
+            {renderSection(`Risk (${period === 'MAX' ? 'since launch' : `last ${period}`})`, [
+              renderRow('Volatility', (c) => formatPercent(c.volatility), 'annualised, monthly returns'),
+              renderRow('Max drawdown', (c) => (c.drawdown ? <span className="text-red-700">-{c.drawdown.maxDrawdown.toFixed(2)}%</span> : '—')),
+              renderRow('Drawdown peak → trough', (c) =>
+                c.drawdown ? `${formatDate(c.drawdown.peakDate)} → ${formatDate(c.drawdown.troughDate)}` : '—'
+              ),
+              renderRow('Recovered', (c) =>
+                c.drawdown ? (c.drawdown.recoveryDate ? formatDate(c.drawdown.recoveryDate) : 'Not yet') : '—'
+              ),
+            ])}
+
+            <p className="text-xs text-gray-500">
+              * Partial year: the fund's launch year or the current year to date. Rolling returns are lumpsum,
+              annualised, with a window starting each month.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,184 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { ChevronDown, ChevronUp, Layers } from 'lucide-react';
+import type { SelectedFund } from '../App';
+import type { FundHoldingsResponse } from '../types/fundHoldings';
+import { fetchFundHoldings } from '../services/fundHoldingsService';
+import { analyseBucketOverlap, OVERLAP_WARNING_THRESHOLD } from '../utils/fundOverlap';
+import { logger } from '../utils/logger';
+
+interface FundOverlapPanelProps {
+  funds: SelectedFund[];
+}
+
+const TOP_STOCKS = 10;
+const TOP_SECTORS = 8;
+
+export function FundOverlapPanel({ funds }: FundOverlapPanelProps) {
+  const [data, setData] = useState<FundHoldingsResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState(false);
+
+  const schemeKey = funds.map((fund) => fund.id).sort().join(',');
+
+  useEffect(() => {
+    if (!schemeKey) {
+      setData(null);
+      return;
+    }
+    let cancelled = false;
+    setError(null);
+    fetchFundHoldings(schemeKey.split(','))
+      .then((response) => {
+        if (!cancelled) setData(response);
+      })
+      .catch((err) => {
+        logger.error('Error loading fund holdings:', err);
+        if (!cancelled) setError('Could not load fund holdings for overlap analysis.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [schemeKey]);
+
+  const analysis = useMemo(
+    () => (data && data.funds.length > 0 ? analyseBucketOverlap(funds, data.funds) : null),
+    [data, funds]
+  );
+
+  if (error) return <p className="mt-4 text-xs text-gray-500">{error}</p>;
+  if (!analysis) return null;
+
+  const fundName = (schemeCode: string) => funds.find((fund) => fund.id === schemeCode)?.name ?? schemeCode;
+  const missingFunds = funds.filter((fund) => data?.missing.includes(fund.id));
+  const { lookThrough } = analysis;
+
+  return (
+    <div className="mt-4 space-y-3">
+      {analysis.highOverlapPairs.map((pair) => (
+        <div
+          key={`${pair.schemeCodeA}-${pair.schemeCodeB}`}
+          className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg"
+        >
+          <p className="text-sm text-yellow-800">
+            ⚠️ <strong>{fundName(pair.schemeCodeA)}</strong> and <strong>{fundName(pair.schemeCodeB)}</strong> overlap by{' '}
+            <strong>{pair.overlap.toFixed(0)}%</strong> ({pair.commonHoldings} stocks in common). Together they add
+            less diversification than two funds usually would.
+          </p>
+        </div>
+      ))}
+
+      <div className="border rounded-lg">
+        <button
+          type="button"
+          onClick={() => setExpanded((prev) => !prev)}
+          className="w-full flex items-center justify-between p-3 text-left"
+        >
+          <span className="flex items-center gap-2 text-sm font-medium text-gray-900">
+            <Layers className="h-4 w-4 text-blue-600" />
+            Overlap & look-through exposure
+            {analysis.maxOverlap && (
+              <span
+                className={`text-xs font-normal ${
+                  analysis.maxOverlap.overlap > OVERLAP_WARNING_THRESHOLD ? 'text-red-600' : 'text-gray-500'
+                }`}
+              >
+                (highest overlap {analysis.maxOverlap.overlap.toFixed(0)}%)
+              </span>
+            )}
+          </span>
+          {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        </button>
+
+        {expanded && (
+          <div className="p-3 pt-0 space-y-4">
+            {missingFunds.length > 0 && (
+              <p className="text-xs text-gray-500">
+                No holdings data for {missingFunds.map((fund) => fund.name).join(', ')}. Exposures cover{' '}
+                {lookThrough.coveredWeight.toFixed(0)}% of the bucket.
+              </p>
+            )}
+
+            {analysis.pairs.length > 0 && (
+              <div className="overflow-x-auto">
+                <h4 className="text-sm font-semibold text-gray-900 mb-2">Pairwise overlap</h4>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Funds</TableHead>
+                      <TableHead className="text-right">Common stocks</TableHead>
+                      <TableHead className="text-right">Overlap</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {analysis.pairs.map((pair) => (
+                      <TableRow key={`${pair.schemeCodeA}-${pair.schemeCodeB}`}>
+                        <TableCell className="text-sm">
+                          {fundName(pair.schemeCodeA)}
+                          <div className="text-xs text-gray-500">{fundName(pair.schemeCodeB)}</div>
+                        </TableCell>
+                        <TableCell className="text-right">{pair.commonHoldings}</TableCell>
+                        <TableCell
+                          className={`text-right font-medium ${
+                            pair.overlap > OVERLAP_WARNING_THRESHOLD ? 'text-red-600' : 'text-gray-900'
+                          }`}
+                        >
+                          {pair.overlap.toFixed(1)}%
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <h4 className="text-sm font-semibold text-gray-900 mb-2">Top stocks in the bucket</h4>
+                <div className="space-y-1">
+                  {lookThrough.stocks.slice(0, TOP_STOCKS).map((stock) => (
+                    <div key={stock.key} className="flex items-center justify-between text-sm">
+                      <span className="truncate">
+                        {stock.companyName}
+                        {stock.schemeCodes.length > 1 && (
+                          <span className="text-xs text-gray-500"> · in {stock.schemeCodes.length} funds</span>
+                        )}
+                      </span>
+                      <span className="font-medium ml-2">{stock.weight.toFixed(2)}%</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <h4 className="text-sm font-semibold text-gray-900 mb-2">Sector exposure</h4>
+                <div className="space-y-2">
+                  {lookThrough.sectors.slice(0, TOP_SECTORS).map((sector) => (
+                    <div key={sector.industry}>
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="truncate">{sector.industry}</span>
+                        <span className="font-medium ml-2">{sector.weight.toFixed(1)}%</span>
+                      </div>
+                      <div className="h-1.5 bg-gray-100 rounded">
+                        <div className="h-1.5 bg-blue-500 rounded" style={{ width: `${Math.min(100, sector.weight)}%` }} />
+                      </div>
+                    </div>
+                  ))}
+                  {lookThrough.unclassifiedWeight > 0.05 && (
+                    <p className="text-xs text-gray-500">
+                      {lookThrough.unclassifiedWeight.toFixed(1)}% of the bucket is in cash, debt or holdings not in
+                      the disclosure.
+                    </p>
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <p className="text-xs text-gray-500">
+              From portfolio disclosures as of {data!.funds.map((fund) => fund.asOf).sort()[0]}.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
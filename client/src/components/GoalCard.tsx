@@ -0,0 +1,234 @@
+import React, { useMemo } from 'react';
+import { Card } from './ui/card';
+import { Badge } from './ui/badge';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend as RechartsLegend, ResponsiveContainer } from 'recharts';
+import { Loader2, Trash2 } from 'lucide-react';
+import type { FinancialGoal } from '../types/goal';
+import { GOAL_KIND_LABELS, projectGoal } from '../utils/goalPlanning';
+
+export interface GoalBucketOption {
+  value: string; // `${source}:${id}`
+  label: string;
+}
+
+interface GoalCardProps {
+  goal: FinancialGoal;
+  bucketOptions: GoalBucketOption[];
+  isAnalysing: boolean;
+  bucketError?: string | null;
+  onUpdate: (updates: Partial<FinancialGoal>) => void;
+  onPickBucket: (value: string) => void;
+  onRemove: () => void;
+}
+
+const ON_TRACK_BADGES = {
+  YES: { label: 'On track', className: 'bg-green-100 text-green-800' },
+  LIKELY: { label: 'On track at median returns', className: 'bg-amber-100 text-amber-800' },
+  UNLIKELY: { label: 'Off track', className: 'bg-red-100 text-red-800' },
+};
+
+const SCENARIO_LABELS = { LOW: 'Weak markets', MEDIAN: 'Median', HIGH: 'Strong markets' };
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', maximumFractionDigits: 0 }).format(value);
+
+const formatCompact = (value: number) => {
+  if (value >= 10000000) return `₹${(value / 10000000).toFixed(2)}Cr`;
+  if (value >= 100000) return `₹${(value / 100000).toFixed(2)}L`;
+  return formatCurrency(value);
+};
+
+export function GoalCard({ goal, bucketOptions, isAnalysing, bucketError, onUpdate, onPickBucket, onRemove }: GoalCardProps) {
+  const stats = goal.bucket?.returnStats ?? null;
+  const projection = useMemo(() => (stats ? projectGoal(goal, stats) : null), [goal, stats]);
+
+  const chartData = projection?.progress.map((point) => ({
+    year: `Y${point.year}`,
+    Required: Math.round(point.required),
+    Low: Math.round(point.low),
+    Median: Math.round(point.median),
+    High: Math.round(point.high),
+  }));
+
+  const numberField = (value: string) => (value === '' ? 0 : Number(value));
+
+  return (
+    <Card className="p-4 sm:p-6">
+      <div className="flex items-start justify-between gap-3 mb-4">
+        <div className="min-w-0">
+          <div className="flex flex-wrap items-center gap-2">
+            <h3 className="text-lg font-semibold text-gray-900 break-words">{goal.name}</h3>
+            <Badge variant="outline">{GOAL_KIND_LABELS[goal.kind]}</Badge>
+            {projection && (
+              <Badge className={ON_TRACK_BADGES[projection.onTrack].className}>
+                {ON_TRACK_BADGES[projection.onTrack].label}
+              </Badge>
+            )}
+          </div>
+          <p className="text-sm text-gray-600 mt-1">
+            {formatCurrency(goal.targetAmount)} in today's money by{' '}
+            {new Date(goal.targetDate).toLocaleDateString('en-IN', { month: 'short', year: 'numeric' })}
+          </p>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onRemove} aria-label={`Remove ${goal.name}`}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-3 mb-4">
+        <div>
+          <Label htmlFor={`${goal.id}-target`}>Target amount (today)</Label>
+          <Input
+            id={`${goal.id}-target`}
+            type="number"
+            min={0}
+            value={goal.targetAmount}
+            onChange={(e) => onUpdate({ targetAmount: numberField(e.target.value) })}
+          />
+        </div>
+        <div>
+          <Label htmlFor={`${goal.id}-date`}>Target date</Label>
+          <Input
+            id={`${goal.id}-date`}
+            type="date"
+            value={goal.targetDate}
+            onChange={(e) => e.target.value && onUpdate({ targetDate: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor={`${goal.id}-inflation`}>Inflation (% a year)</Label>
+          <Input
+            id={`${goal.id}-inflation`}
+            type="number"
+            step="0.5"
+            value={goal.inflationRate}
+            onChange={(e) => onUpdate({ inflationRate: numberField(e.target.value) })}
+          />
+        </div>
+        <div>
+          <Label htmlFor={`${goal.id}-savings`}>Already saved</Label>
+          <Input
+            id={`${goal.id}-savings`}
+            type="number"
+            min={0}
+            value={goal.currentSavings}
+            onChange={(e) => onUpdate({ currentSavings: numberField(e.target.value) })}
+          />
+        </div>
+        <div className="md:col-span-2">
+          <Label>Invested in</Label>
+          <Select
+            value={goal.bucket ? `${goal.bucket.source}:${goal.bucket.id}` : undefined}
+            onValueChange={onPickBucket}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Choose a bucket" />
+            </SelectTrigger>
+            <SelectContent>
+              {bucketOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="md:col-span-2">
+          <Label htmlFor={`${goal.id}-sip`}>Planned monthly SIP</Label>
+          <Input
+            id={`${goal.id}-sip`}
+            type="number"
+            min={0}
+            placeholder={projection ? `Required: ${Math.round(projection.requiredSIP)}` : 'Not decided yet'}
+            value={goal.monthlySIP ?? ''}
+            onChange={(e) => onUpdate({ monthlySIP: e.target.value === '' ? null : Number(e.target.value) })}
+          />
+        </div>
+      </div>
+
+      {isAnalysing && (
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Analysing the bucket's rolling returns…
+        </div>
+      )}
+      {bucketError && <p className="text-sm text-red-600">{bucketError}</p>}
+      {!goal.bucket && !isAnalysing && (
+        <p className="text-sm text-gray-600">Choose a bucket to see the SIP this goal needs.</p>
+      )}
+
+      {projection && stats && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
+            <div className="rounded-lg bg-slate-50 p-3">
+              <p className="text-xs text-gray-600">Cost at target date</p>
+              <p className="text-xl font-bold text-gray-900">{formatCompact(projection.futureTarget)}</p>
+              <p className="text-xs text-gray-500">
+                {projection.months} months at {goal.inflationRate}% inflation
+              </p>
+            </div>
+            <div className="rounded-lg bg-slate-50 p-3">
+              <p className="text-xs text-gray-600">Required monthly SIP (median return)</p>
+              <p className="text-xl font-bold text-gray-900">{formatCurrency(projection.requiredSIP)}</p>
+              <p className="text-xs text-gray-500">
+                {goal.bucket?.windowLabel ?? '3Y'} rolling returns of {goal.bucket?.name}: median{' '}
+                {stats.median.toFixed(1)}%, {stats.positivePercentage.toFixed(0)}% of periods positive
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+            {projection.scenarios.map((scenario) => (
+              <div key={scenario.scenario} className="rounded-lg border p-3">
+                <p className="text-xs text-gray-600">
+                  {SCENARIO_LABELS[scenario.scenario]} ({scenario.annualReturn.toFixed(1)}%)
+                </p>
+                <p
+                  className={`text-lg font-semibold ${
+                    scenario.projectedValue >= projection.futureTarget ? 'text-green-700' : 'text-red-700'
+                  }`}
+                >
+                  {formatCompact(scenario.projectedValue)}
+                </p>
+                <p className="text-xs text-gray-500">Needs {formatCurrency(scenario.requiredSIP)}/month</p>
+              </div>
+            ))}
+          </div>
+
+          {projection.shortfall > 0 && (
+            <p className="text-sm text-red-700 mb-4">
+              At {formatCurrency(projection.plannedSIP)}/month this goal falls {formatCompact(projection.shortfall)} short
+              at median returns.
+            </p>
+          )}
+
+          {chartData && chartData.length > 1 && (
+            <div className="w-full h-[240px] sm:h-[300px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                  <XAxis dataKey="year" tick={{ fontSize: 12 }} tickLine={false} />
+                  <YAxis tickFormatter={(value) => formatCompact(value)} tick={{ fontSize: 12 }} tickLine={false} width={80} />
+                  <Tooltip
+                    formatter={(value: number, name: string) => [formatCurrency(value), name]}
+                    contentStyle={{ backgroundColor: 'white', border: '1px solid #ccc', borderRadius: '8px' }}
+                  />
+                  {/* @ts-ignore */}
+                  <RechartsLegend wrapperStyle={{ paddingTop: '20px' }} iconType="line" />
+                  <Line type="monotone" dataKey="Required" stroke="#6b7280" strokeWidth={2} strokeDasharray="5 5" dot={false} />
+                  <Line type="monotone" dataKey="Low" stroke="#dc2626" strokeWidth={1.5} dot={false} />
+                  <Line type="monotone" dataKey="Median" stroke="#2563eb" strokeWidth={3} dot={false} />
+                  <Line type="monotone" dataKey="High" stroke="#16a34a" strokeWidth={1.5} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </>
+      )}
+    </Card>
+  );
+}
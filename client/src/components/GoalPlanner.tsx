@@ -0,0 +1,306 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { GraduationCap, Plus, Target } from 'lucide-react';
+import { GoalCard } from './GoalCard';
+import type { GoalBucketOption } from './GoalCard';
+import { useGoals } from '../hooks/useGoals';
+import type { Bucket } from '../types/bucket';
+import type { SuggestedBucket } from '../types/suggestedBucket';
+import type { FinancialGoal, GoalKind } from '../types/goal';
+import { fetchSuggestedBuckets } from '../services/suggestedBucketsService';
+import { calculateBucketPerformance } from '../utils/bucketPerformanceCalculator';
+import { calculateSIPRecommendation } from '../utils/financialPlanningCalculations';
+import type { FinancialInputs, FinancialResults } from '../utils/financialPlanningCalculations';
+import { createEducationGoals, GOAL_KIND_LABELS, projectGoal } from '../utils/goalPlanning';
+import { DEFAULT_INFLATION_RATE } from '../utils/inflation';
+import { logger } from '../utils/logger';
+
+interface GoalPlannerProps {
+  inputs: FinancialInputs;
+  results: FinancialResults;
+  buckets: Bucket[];
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', maximumFractionDigits: 0 }).format(value);
+
+const emptyForm = () => ({
+  name: '',
+  kind: 'CUSTOM' as GoalKind,
+  targetAmount: '',
+  targetDate: '',
+  inflationRate: String(DEFAULT_INFLATION_RATE),
+  currentSavings: '',
+});
+
+export function GoalPlanner({ inputs, results, buckets }: GoalPlannerProps) {
+  const { goals, addGoals, updateGoal, removeGoal } = useGoals();
+  const [suggestedBuckets, setSuggestedBuckets] = useState<SuggestedBucket[]>([]);
+  const [analysing, setAnalysing] = useState<Record<string, boolean>>({});
+  const [bucketErrors, setBucketErrors] = useState<Record<string, string | null>>({});
+  const [form, setForm] = useState(emptyForm);
+  const [showForm, setShowForm] = useState(false);
+
+  useEffect(() => {
+    fetchSuggestedBuckets(true)
+      .then(setSuggestedBuckets)
+      .catch((error) => logger.error('Error loading suggested buckets for goals:', error));
+  }, []);
+
+  const bucketOptions: GoalBucketOption[] = [
+    ...buckets
+      .filter((bucket) => bucket.funds.length > 0)
+      .map((bucket) => ({ value: `SAVED:${bucket.id}`, label: `${bucket.name} (my bucket)` })),
+    ...suggestedBuckets.map((bucket) => ({ value: `SUGGESTED:${bucket.id}`, label: `${bucket.name} (suggested)` })),
+  ];
+
+  const educationGoals = createEducationGoals(inputs.kidsDob, goals);
+
+  // Suggested buckets carry pre-calculated rolling returns; the user's own buckets are analysed on demand
+  const handlePickBucket = async (goal: FinancialGoal, value: string) => {
+    const [source, id] = value.split(':');
+    setBucketErrors((prev) => ({ ...prev, [goal.id]: null }));
+
+    if (source === 'SUGGESTED') {
+      const suggested = suggestedBuckets.find((bucket) => bucket.id === id);
+      if (!suggested) return;
+      updateGoal(goal.id, {
+        bucket: {
+          source: 'SUGGESTED',
+          id: suggested.id,
+          name: suggested.name,
+          funds: suggested.funds,
+          returnStats: suggested.performance.rollingReturns.bucket,
+          windowLabel: '3Y',
+        },
+      });
+      return;
+    }
+
+    const saved = buckets.find((bucket) => bucket.id === id);
+    if (!saved) return;
+    updateGoal(goal.id, {
+      bucket: { source: 'SAVED', id: saved.id, name: saved.name, funds: saved.funds, returnStats: null },
+    });
+    setAnalysing((prev) => ({ ...prev, [goal.id]: true }));
+    try {
+      const performance = await calculateBucketPerformance(saved.funds);
+      if (performance.windowType === 'insufficient') {
+        setBucketErrors((prev) => ({
+          ...prev,
+          [goal.id]: performance.message || 'Not enough history in this bucket to project returns.',
+        }));
+        return;
+      }
+      updateGoal(goal.id, {
+        bucket: {
+          source: 'SAVED',
+          id: saved.id,
+          name: saved.name,
+          funds: saved.funds,
+          returnStats: performance.rollingReturns.bucket,
+          windowLabel: performance.windowType,
+        },
+      });
+    } catch (error: any) {
+      logger.error('Error analysing bucket for goal:', error);
+      setBucketErrors((prev) => ({ ...prev, [goal.id]: error.message || 'Could not analyse this bucket.' }));
+    } finally {
+      setAnalysing((prev) => ({ ...prev, [goal.id]: false }));
+    }
+  };
+
+  const handleAddGoal = (event: React.FormEvent) => {
+    event.preventDefault();
+    addGoals([
+      {
+        name: form.name.trim() || GOAL_KIND_LABELS[form.kind],
+        kind: form.kind,
+        targetAmount: Number(form.targetAmount),
+        targetDate: form.targetDate,
+        inflationRate: Number(form.inflationRate),
+        currentSavings: Number(form.currentSavings) || 0,
+        monthlySIP: null,
+        bucket: null,
+      },
+    ]);
+    setForm(emptyForm());
+    setShowForm(false);
+  };
+
+  const summary = useMemo(() => {
+    const projections = goals
+      .filter((goal) => goal.bucket?.returnStats)
+      .map((goal) => projectGoal(goal, goal.bucket!.returnStats!));
+    const required = projections.reduce((sum, projection) => sum + projection.requiredSIP, 0);
+    const planned = projections.reduce((sum, projection) => sum + projection.plannedSIP, 0);
+    const recommended = calculateSIPRecommendation(
+      inputs.annualIncome,
+      results.monthlyExpenses,
+      inputs.investments,
+      required
+    );
+    return { projected: projections.length, required, planned, recommended };
+  }, [goals, inputs, results.monthlyExpenses]);
+
+  const canAdd = Number(form.targetAmount) > 0 && form.targetDate !== '';
+
+  return (
+    <Card className="p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+            <Target className="h-5 w-5 text-indigo-600" />
+            Goals
+          </h2>
+          <p className="text-sm text-gray-600">
+            The SIP each goal needs, projected from its bucket's historical rolling returns.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {educationGoals.length > 0 && (
+            <Button variant="outline" onClick={() => addGoals(educationGoals)}>
+              <GraduationCap className="h-4 w-4 mr-2" />
+              Add education goal{educationGoals.length === 1 ? '' : 's'} for {educationGoals.length} child
+              {educationGoals.length === 1 ? '' : 'ren'}
+            </Button>
+          )}
+          <Button onClick={() => setShowForm((prev) => !prev)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Goal
+          </Button>
+        </div>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleAddGoal} className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-6 rounded-lg border p-4">
+          <div>
+            <Label htmlFor="goal-name">Name</Label>
+            <Input
+              id="goal-name"
+              value={form.name}
+              placeholder="e.g. Down payment"
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label>Type</Label>
+            <Select value={form.kind} onValueChange={(value) => setForm({ ...form, kind: value as GoalKind })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(GOAL_KIND_LABELS) as GoalKind[]).map((kind) => (
+                  <SelectItem key={kind} value={kind}>
+                    {GOAL_KIND_LABELS[kind]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="goal-amount">Target amount (today's money)</Label>
+            <Input
+              id="goal-amount"
+              type="number"
+              min={0}
+              value={form.targetAmount}
+              onChange={(e) => setForm({ ...form, targetAmount: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="goal-date">Target date</Label>
+            <Input
+              id="goal-date"
+              type="date"
+              value={form.targetDate}
+              onChange={(e) => setForm({ ...form, targetDate: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="goal-inflation">Inflation (% a year)</Label>
+            <Input
+              id="goal-inflation"
+              type="number"
+              step="0.5"
+              value={form.inflationRate}
+              onChange={(e) => setForm({ ...form, inflationRate: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="goal-savings">Already saved</Label>
+            <Input
+              id="goal-savings"
+              type="number"
+              min={0}
+              value={form.currentSavings}
+              onChange={(e) => setForm({ ...form, currentSavings: e.target.value })}
+            />
+          </div>
+          <div className="md:col-span-3 flex gap-2">
+            <Button type="submit" disabled={!canAdd}>
+              Save Goal
+            </Button>
+            <Button type="button" variant="outline" onClick={() => setShowForm(false)}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {goals.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          No goals yet. Add one, or create education goals from your children's dates of birth.
+        </p>
+      ) : (
+        <>
+          {summary.projected > 0 && (
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+              <div className="rounded-lg bg-indigo-50 p-3">
+                <p className="text-xs text-gray-600">SIP your goals need</p>
+                <p className="text-xl font-bold text-gray-900">{formatCurrency(summary.required)}</p>
+                <p className="text-xs text-gray-500">
+                  {summary.projected} of {goals.length} goal{goals.length === 1 ? '' : 's'} with a bucket
+                </p>
+              </div>
+              <div className="rounded-lg bg-indigo-50 p-3">
+                <p className="text-xs text-gray-600">SIP you've planned</p>
+                <p className="text-xl font-bold text-gray-900">{formatCurrency(summary.planned)}</p>
+              </div>
+              <div className="rounded-lg bg-indigo-50 p-3">
+                <p className="text-xs text-gray-600">Recommended SIP</p>
+                <p className="text-xl font-bold text-gray-900">{formatCurrency(summary.recommended)}</p>
+                <p className="text-xs text-gray-500">
+                  {summary.recommended < summary.required
+                    ? 'Your goals need more than your monthly surplus'
+                    : summary.recommended > results.sipRecommendation
+                      ? `Up from ${formatCurrency(results.sipRecommendation)} to cover your goals`
+                      : 'Covers your goals'}
+                </p>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-4">
+            {goals.map((goal) => (
+              <GoalCard
+                key={goal.id}
+                goal={goal}
+                bucketOptions={bucketOptions}
+                isAnalysing={!!analysing[goal.id]}
+                bucketError={bucketErrors[goal.id]}
+                onUpdate={(updates) => updateGoal(goal.id, updates)}
+                onPickBucket={(value) => handlePickBucket(goal, value)}
+                onRemove={() => removeGoal(goal.id)}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Loader2, Upload } from 'lucide-react';
+import { searchFunds } from '../services/navService';
+import type { HoldingTransaction, ImportedTransaction } from '../types/holdings';
+import { parseTransactionFile, rankSchemeMatches, schemeSearchQuery } from '../utils/transactionImport';
+
+interface HoldingsImportCardProps {
+  onImport: (transactions: Omit<HoldingTransaction, 'id'>[]) => void;
+}
+
+interface SchemeCandidate {
+  schemeCode: string;
+  schemeName: string;
+}
+
+interface UnmatchedScheme {
+  name: string;
+  candidates: SchemeCandidate[];
+  schemeCode: string | null; // the candidate picked, if any
+}
+
+const SKIP = 'skip';
+
+export function HoldingsImportCard({ onImport }: HoldingsImportCardProps) {
+  const [parsed, setParsed] = useState<ImportedTransaction[] | null>(null);
+  const [unmatched, setUnmatched] = useState<UnmatchedScheme[]>([]);
+  const [isMatching, setIsMatching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setParsed(null);
+    setUnmatched([]);
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    reset();
+    setError(null);
+    try {
+      const transactions = parseTransactionFile(await file.text());
+      setParsed(transactions);
+
+      // Statements name schemes but carry no AMFI code: find the closest scheme for each name
+      const names = [...new Set(transactions.filter((t) => !t.schemeCode).map((t) => t.schemeName))];
+      if (names.length === 0) return;
+
+      setIsMatching(true);
+      const matches = await Promise.all(
+        names.map(async (name) => {
+          const results = await searchFunds(schemeSearchQuery(name)).catch(() => []);
+          const candidates = rankSchemeMatches(name, results)
+            .slice(0, 8)
+            .map((fund: any) => ({
+              schemeCode: String(fund.schemeCode || fund.scheme_code),
+              schemeName: fund.schemeName || fund.scheme_name,
+            }));
+          return { name, candidates, schemeCode: candidates[0]?.schemeCode ?? null };
+        })
+      );
+      setUnmatched(matches);
+    } catch (err: any) {
+      setError(err.message || 'Could not read the file');
+      reset();
+    } finally {
+      setIsMatching(false);
+    }
+  };
+
+  const handlePick = (name: string, schemeCode: string) => {
+    setUnmatched((prev) =>
+      prev.map((scheme) => (scheme.name === name ? { ...scheme, schemeCode: schemeCode === SKIP ? null : schemeCode } : scheme))
+    );
+  };
+
+  const handleImport = () => {
+    if (!parsed) return;
+    const byName = new Map(unmatched.map((scheme) => [scheme.name, scheme]));
+
+    const ready: Omit<HoldingTransaction, 'id'>[] = [];
+    parsed.forEach(({ isin, ...transaction }) => {
+      if (transaction.schemeCode) {
+        ready.push({ ...transaction, schemeCode: transaction.schemeCode });
+        return;
+      }
+      const match = byName.get(transaction.schemeName);
+      const candidate = match?.candidates.find((c) => c.schemeCode === match.schemeCode);
+      if (candidate) {
+        ready.push({ ...transaction, schemeCode: candidate.schemeCode, schemeName: candidate.schemeName });
+      }
+    });
+
+    onImport(ready);
+    reset();
+  };
+
+  const importCount = parsed
+    ? parsed.filter((t) => t.schemeCode || unmatched.find((s) => s.name === t.schemeName)?.schemeCode).length
+    : 0;
+
+  return (
+    <Card className="p-4 sm:p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-1">Import transactions</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Upload a CSV (date, scheme_code or scheme_name, folio, type, amount, units) or the text export of a
+        CAMS/KFintech consolidated account statement.
+      </p>
+
+      <Label htmlFor="holdings-import-file">Transaction file</Label>
+      <Input
+        id="holdings-import-file"
+        type="file"
+        accept=".csv,.txt"
+        onChange={handleFile}
+        className="mt-1"
+      />
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+
+      {isMatching && (
+        <div className="flex items-center gap-2 text-sm text-gray-600 mt-4">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Matching schemes to scheme codes…
+        </div>
+      )}
+
+      {parsed && !isMatching && (
+        <div className="mt-4 space-y-3">
+          <p className="text-sm text-gray-700">
+            Found {parsed.length} transaction{parsed.length === 1 ? '' : 's'}.
+            {unmatched.length > 0 && ' Check the scheme each statement name was matched to:'}
+          </p>
+
+          {unmatched.map((scheme) => (
+            <div key={scheme.name} className="grid grid-cols-1 md:grid-cols-2 gap-2 items-center">
+              <p className="text-sm text-gray-900">{scheme.name}</p>
+              <Select value={scheme.schemeCode ?? SKIP} onValueChange={(value) => handlePick(scheme.name, value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {scheme.candidates.map((candidate) => (
+                    <SelectItem key={candidate.schemeCode} value={candidate.schemeCode}>
+                      {candidate.schemeName}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={SKIP}>Don't import this scheme</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <Button onClick={handleImport} disabled={importCount === 0}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import {importCount} Transaction{importCount === 1 ? '' : 's'}
+            </Button>
+            <Button variant="outline" onClick={reset}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,327 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Wallet, ChevronDown, ChevronUp, Trash2, Loader2 } from 'lucide-react';
+import { HoldingsTransactionForm } from './HoldingsTransactionForm';
+import { HoldingsImportCard } from './HoldingsImportCard';
+import { useHoldings } from '../hooks/useHoldings';
+import { fetchNAVData } from '../services/navService';
+import { computeHoldings, TRANSACTION_TYPE_LABELS } from '../utils/holdings';
+import type { NavSeriesByFund } from '../utils/swpSimulation';
+import { getToday } from '../utils/dateUtils';
+
+// The NAV endpoint accepts at most 20 scheme codes per request
+const NAV_BATCH_SIZE = 20;
+
+const formatCurrency = (amount: number): string => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 0,
+  }).format(amount);
+};
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value.toFixed(2)}%`);
+
+const gainClass = (value: number) => (value >= 0 ? 'text-green-700' : 'text-red-700');
+
+export function HoldingsPage() {
+  const { transactions, addTransactions, removeTransaction, clearTransactions } = useHoldings();
+  const [navSeries, setNavSeries] = useState<NavSeriesByFund>({});
+  const [isLoadingNav, setIsLoadingNav] = useState(false);
+  const [navError, setNavError] = useState<string | null>(null);
+  const [expandedFolio, setExpandedFolio] = useState<string | null>(null);
+  const [showTransactions, setShowTransactions] = useState(false);
+
+  const schemeCodes = useMemo(
+    () => [...new Set(transactions.map((t) => t.schemeCode))].sort(),
+    [transactions]
+  );
+  const earliestDate = useMemo(
+    () => transactions.reduce((min, t) => (t.date < min ? t.date : min), getToday()),
+    [transactions]
+  );
+
+  useEffect(() => {
+    if (schemeCodes.length === 0) {
+      setNavSeries({});
+      return;
+    }
+
+    let cancelled = false;
+    const loadNavs = async () => {
+      setIsLoadingNav(true);
+      setNavError(null);
+      try {
+        const series: NavSeriesByFund = {};
+        for (let i = 0; i < schemeCodes.length; i += NAV_BATCH_SIZE) {
+          const responses = await fetchNAVData(schemeCodes.slice(i, i + NAV_BATCH_SIZE), earliestDate, getToday());
+          responses.forEach((response) => {
+            series[response.schemeCode] = response.navData;
+          });
+        }
+        if (!cancelled) setNavSeries(series);
+      } catch (err: any) {
+        if (!cancelled) setNavError(err.message || 'Could not load NAVs');
+      } finally {
+        if (!cancelled) setIsLoadingNav(false);
+      }
+    };
+    loadNavs();
+    return () => {
+      cancelled = true;
+    };
+  }, [schemeCodes, earliestDate]);
+
+  const holdings = useMemo(
+    () => computeHoldings(transactions, navSeries, getToday()),
+    [transactions, navSeries]
+  );
+
+  const sortedTransactions = useMemo(
+    () => [...transactions].sort((a, b) => (a.date < b.date ? 1 : a.date > b.date ? -1 : 0)),
+    [transactions]
+  );
+
+  const handleClear = () => {
+    if (window.confirm('Remove all recorded transactions from this device?')) {
+      clearTransactions();
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-100 via-slate-50 to-blue-50 py-4 sm:py-6 md:py-8">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 space-y-6">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-indigo-600 via-blue-600 to-sky-600 rounded-xl sm:rounded-2xl shadow-2xl p-4 sm:p-6 md:p-8 text-white">
+          <div className="flex items-center gap-3 sm:gap-4">
+            <div className="w-12 h-12 sm:w-14 sm:h-14 md:w-16 md:h-16 rounded-lg sm:rounded-xl bg-white/20 backdrop-blur-lg flex items-center justify-center flex-shrink-0">
+              <Wallet className="w-6 h-6 sm:w-7 sm:h-7 md:w-8 md:h-8" />
+            </div>
+            <div className="min-w-0 flex-1">
+              <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold break-words">My Holdings</h1>
+              <p className="text-blue-100 mt-1 sm:mt-2 text-sm sm:text-base">
+                Track your real mutual fund transactions, returns and gains. Transactions are stored on this device.
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <HoldingsTransactionForm onAdd={(transaction) => addTransactions([transaction])} />
+          <HoldingsImportCard onImport={addTransactions} />
+        </div>
+
+        {transactions.length === 0 ? (
+          <Card className="p-6 sm:p-8 md:p-12 text-center">
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl bg-blue-100 mb-4">
+              <Wallet className="w-8 h-8 text-blue-600" />
+            </div>
+            <h3 className="text-xl font-bold text-gray-900 mb-2">No transactions yet</h3>
+            <p className="text-sm text-gray-600 max-w-md mx-auto">
+              Add a transaction above or import your statement to see current value, XIRR and gains.
+            </p>
+          </Card>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              <Card className="p-4">
+                <p className="text-xs text-gray-600">Current value</p>
+                <p className="text-lg font-semibold text-gray-900">{formatCurrency(holdings.currentValue)}</p>
+              </Card>
+              <Card className="p-4">
+                <p className="text-xs text-gray-600">Invested (held units)</p>
+                <p className="text-lg font-semibold text-gray-900">{formatCurrency(holdings.invested)}</p>
+              </Card>
+              <Card className="p-4">
+                <p className="text-xs text-gray-600">Unrealised gain</p>
+                <p className={`text-lg font-semibold ${gainClass(holdings.unrealisedGain)}`}>
+                  {formatCurrency(holdings.unrealisedGain)}
+                </p>
+              </Card>
+              <Card className="p-4">
+                <p className="text-xs text-gray-600">Realised gain</p>
+                <p className={`text-lg font-semibold ${gainClass(holdings.realisedGain)}`}>
+                  {formatCurrency(holdings.realisedGain)}
+                </p>
+              </Card>
+              <Card className="p-4">
+                <p className="text-xs text-gray-600">Overall XIRR</p>
+                <p className="text-lg font-semibold text-gray-900">{formatPercent(holdings.xirr)}</p>
+              </Card>
+            </div>
+
+            {isLoadingNav && (
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading latest NAVs…
+              </div>
+            )}
+            {navError && <p className="text-sm text-red-600">{navError}</p>}
+            {!isLoadingNav && holdings.missingNavSchemes.length > 0 && (
+              <p className="text-sm text-amber-700">
+                No NAV found for scheme code{holdings.missingNavSchemes.length === 1 ? '' : 's'}{' '}
+                {holdings.missingNavSchemes.join(', ')}; those folios are valued at zero.
+              </p>
+            )}
+            {!isLoadingNav && holdings.unpricedTransactions.length > 0 && (
+              <p className="text-sm text-amber-700">
+                {holdings.unpricedTransactions.length} transaction
+                {holdings.unpricedTransactions.length === 1 ? ' has' : 's have'} no units and no NAV for their date,
+                so {holdings.unpricedTransactions.length === 1 ? 'it is' : 'they are'} left out.
+              </p>
+            )}
+
+            {/* Folios */}
+            <Card className="p-4 sm:p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Folios</h3>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 border-b">
+                      <th className="py-2 pr-3">Scheme</th>
+                      <th className="py-2 pr-3">Folio</th>
+                      <th className="py-2 pr-3 text-right">Units</th>
+                      <th className="py-2 pr-3 text-right">Invested</th>
+                      <th className="py-2 pr-3 text-right">Value</th>
+                      <th className="py-2 pr-3 text-right">Unrealised</th>
+                      <th className="py-2 pr-3 text-right">XIRR</th>
+                      <th className="py-2" />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {holdings.folios.map((folio) => (
+                      <React.Fragment key={folio.key}>
+                        <tr className="border-b last:border-0">
+                          <td className="py-2 pr-3">
+                            <p className="font-medium text-gray-900">{folio.schemeName}</p>
+                            {folio.currentNav && (
+                              <p className="text-xs text-gray-500">
+                                NAV {folio.currentNav.nav.toFixed(4)} on {folio.currentNav.date}
+                              </p>
+                            )}
+                          </td>
+                          <td className="py-2 pr-3 text-gray-700">{folio.folio}</td>
+                          <td className="py-2 pr-3 text-right">{folio.units.toFixed(3)}</td>
+                          <td className="py-2 pr-3 text-right">{formatCurrency(folio.invested)}</td>
+                          <td className="py-2 pr-3 text-right">{formatCurrency(folio.currentValue)}</td>
+                          <td className={`py-2 pr-3 text-right ${gainClass(folio.unrealisedGain)}`}>
+                            {formatCurrency(folio.unrealisedGain)}
+                          </td>
+                          <td className="py-2 pr-3 text-right">{formatPercent(folio.xirr)}</td>
+                          <td className="py-2 text-right">
+                            {folio.lots.length > 0 && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setExpandedFolio(expandedFolio === folio.key ? null : folio.key)}
+                              >
+                                {expandedFolio === folio.key ? (
+                                  <ChevronUp className="h-4 w-4" />
+                                ) : (
+                                  <ChevronDown className="h-4 w-4" />
+                                )}
+                              </Button>
+                            )}
+                          </td>
+                        </tr>
+                        {expandedFolio === folio.key && (
+                          <tr>
+                            <td colSpan={8} className="pb-3">
+                              <div className="bg-slate-50 rounded-lg p-3">
+                                <p className="text-xs font-semibold text-gray-700 mb-2">
+                                  Lots held{folio.realisedGain !== 0 && `, realised gain ${formatCurrency(folio.realisedGain)}`}
+                                </p>
+                                <table className="w-full text-xs">
+                                  <thead>
+                                    <tr className="text-left text-gray-500">
+                                      <th className="py-1 pr-3">Bought</th>
+                                      <th className="py-1 pr-3 text-right">Units</th>
+                                      <th className="py-1 pr-3 text-right">Cost/unit</th>
+                                      <th className="py-1 pr-3 text-right">Cost</th>
+                                      <th className="py-1 pr-3 text-right">Value</th>
+                                      <th className="py-1 pr-3 text-right">Gain</th>
+                                      <th className="py-1 text-right">Held</th>
+                                    </tr>
+                                  </thead>
+                                  <tbody>
+                                    {folio.lots.map((lot) => (
+                                      <tr key={`${lot.transactionId}-${lot.date}`}>
+                                        <td className="py-1 pr-3">{lot.date}</td>
+                                        <td className="py-1 pr-3 text-right">{lot.units.toFixed(3)}</td>
+                                        <td className="py-1 pr-3 text-right">{lot.costPerUnit.toFixed(4)}</td>
+                                        <td className="py-1 pr-3 text-right">{formatCurrency(lot.cost)}</td>
+                                        <td className="py-1 pr-3 text-right">{formatCurrency(lot.currentValue)}</td>
+                                        <td className={`py-1 pr-3 text-right ${gainClass(lot.gain)}`}>
+                                          {formatCurrency(lot.gain)} ({lot.gainPercent.toFixed(1)}%)
+                                        </td>
+                                        <td className="py-1 text-right">
+                                          {lot.holdingDays >= 365
+                                            ? `${(lot.holdingDays / 365).toFixed(1)} yrs`
+                                            : `${lot.holdingDays} days`}
+                                        </td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              </div>
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+
+            {/* Transactions */}
+            <Card className="p-4 sm:p-6">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold text-gray-900">
+                  Transactions <span className="text-sm font-normal text-gray-500">({transactions.length})</span>
+                </h3>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setShowTransactions(!showTransactions)}>
+                    {showTransactions ? 'Hide' : 'Show'}
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={handleClear} className="text-red-600">
+                    Clear All
+                  </Button>
+                </div>
+              </div>
+              {showTransactions && (
+                <div className="mt-4 space-y-2 max-h-96 overflow-y-auto">
+                  {sortedTransactions.map((transaction) => (
+                    <div key={transaction.id} className="flex items-center justify-between p-2 bg-gray-50 rounded text-sm">
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-900 truncate">{transaction.schemeName}</p>
+                        <p className="text-xs text-gray-500">
+                          {transaction.date} · folio {transaction.folio} · {formatCurrency(transaction.amount)}
+                          {transaction.units !== undefined && ` · ${transaction.units.toFixed(3)} units`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">{TRANSACTION_TYPE_LABELS[transaction.type]}</Badge>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeTransaction(transaction.id)}
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
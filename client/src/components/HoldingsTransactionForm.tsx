@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Plus, X } from 'lucide-react';
+import { FundSearch } from './FundSearch';
+import type { Fund } from '../App';
+import type { HoldingTransaction, HoldingTransactionType } from '../types/holdings';
+import { TRANSACTION_TYPE_LABELS } from '../utils/holdings';
+import { getToday } from '../utils/dateUtils';
+
+interface HoldingsTransactionFormProps {
+  onAdd: (transaction: Omit<HoldingTransaction, 'id'>) => void;
+}
+
+export function HoldingsTransactionForm({ onAdd }: HoldingsTransactionFormProps) {
+  const [scheme, setScheme] = useState<Fund | null>(null);
+  const [folio, setFolio] = useState('');
+  const [date, setDate] = useState(getToday());
+  const [type, setType] = useState<HoldingTransactionType>('PURCHASE');
+  const [amount, setAmount] = useState('');
+  const [units, setUnits] = useState('');
+
+  const amountValue = Number(amount) || 0;
+  const unitsValue = Number(units) || 0;
+  const canAdd = scheme !== null && folio.trim() !== '' && date !== '' && (amountValue > 0 || unitsValue > 0);
+
+  const handleAdd = () => {
+    if (!scheme || !canAdd) return;
+    onAdd({
+      schemeCode: scheme.id,
+      schemeName: scheme.name,
+      folio: folio.trim(),
+      date,
+      type,
+      amount: amountValue,
+      units: unitsValue > 0 ? unitsValue : undefined,
+    });
+    setAmount('');
+    setUnits('');
+  };
+
+  return (
+    <Card className="p-4 sm:p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-1">Add a transaction</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Leave units empty to work them out from the NAV on the transaction date.
+      </p>
+
+      {scheme ? (
+        <div className="flex items-center justify-between p-3 mb-4 bg-slate-50 rounded-lg">
+          <div>
+            <p className="text-sm font-medium text-gray-900">{scheme.name}</p>
+            <p className="text-xs text-gray-500">Scheme code {scheme.id}</p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => setScheme(null)}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        <div className="mb-4">
+          <FundSearch onSelectFund={setScheme} />
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <div>
+          <Label htmlFor="holding-folio">Folio</Label>
+          <Input
+            id="holding-folio"
+            value={folio}
+            onChange={(e) => setFolio(e.target.value)}
+            placeholder="e.g. 1234567/89"
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <Label htmlFor="holding-date">Date</Label>
+          <Input
+            id="holding-date"
+            type="date"
+            value={date}
+            max={getToday()}
+            onChange={(e) => setDate(e.target.value)}
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <Label htmlFor="holding-type">Type</Label>
+          <Select value={type} onValueChange={(value) => setType(value as HoldingTransactionType)}>
+            <SelectTrigger id="holding-type" className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(TRANSACTION_TYPE_LABELS) as HoldingTransactionType[]).map((value) => (
+                <SelectItem key={value} value={value}>
+                  {TRANSACTION_TYPE_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="holding-amount">Amount (₹)</Label>
+          <Input
+            id="holding-amount"
+            type="number"
+            min={0}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <Label htmlFor="holding-units">Units (optional)</Label>
+          <Input
+            id="holding-units"
+            type="number"
+            min={0}
+            step="0.001"
+            value={units}
+            onChange={(e) => setUnits(e.target.value)}
+            className="mt-1"
+          />
+        </div>
+      </div>
+
+      <Button onClick={handleAdd} disabled={!canAdd} className="mt-4">
+        <Plus className="h-4 w-4 mr-2" />
+        Add Transaction
+      </Button>
+    </Card>
+  );
+}
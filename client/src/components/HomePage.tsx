@@ -8,7 +8,8 @@ import { loadSuggestedBuckets } from '../data/suggestedBuckets';
 import { warmUpServer } from '../utils/serverHealthCheck';
 import { logger } from '../utils/logger';
 import type { SuggestedBucket } from '../types/suggestedBucket';
-import type { SelectedFund } from '../App';
+import type { PageType, SelectedFund } from '../App';
+import { pagePath } from '../utils/routes';
 
 interface HomePageProps {
   onNavigate?: (page: string) => void;
@@ -125,8 +126,7 @@ export function HomePage({ onNavigate, onImportBucket }: HomePageProps) {
     if (onNavigate) {
       onNavigate(page);
     } else {
-      // Fallback: use window location hash
-      window.location.hash = page;
+      window.location.assign(pagePath(page as PageType));
     }
   };
 
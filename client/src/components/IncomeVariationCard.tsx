@@ -0,0 +1,125 @@
+import React from 'react';
+import { Card } from './ui/card';
+import {
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import type { IncomeVariation, PolicyDecision } from '../utils/withdrawalPolicy';
+
+interface IncomeVariationCardProps {
+  variation: IncomeVariation;
+  policyLabel: string;
+  periodLabel: string; // e.g. "monthly"
+}
+
+const formatCurrency = (amount: number): string => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 0,
+  }).format(amount);
+};
+
+const formatCompact = (value: number) => {
+  if (value >= 10000000) return `₹${(value / 10000000).toFixed(1)}Cr`;
+  if (value >= 100000) return `₹${(value / 100000).toFixed(1)}L`;
+  return `₹${(value / 1000).toFixed(0)}K`;
+};
+
+const DECISION_LABELS: Partial<Record<PolicyDecision, string>> = {
+  CUT: 'guardrail cut',
+  RAISE: 'guardrail raise',
+  INFLATION_SKIPPED: 'inflation raise skipped',
+  FLOOR: 'held at floor',
+  CEILING: 'held at ceiling',
+};
+
+export function IncomeVariationCard({ variation, policyLabel, periodLabel }: IncomeVariationCardProps) {
+  const { goodYears, badYears } = variation;
+  const chartData = variation.years.map((year) => ({
+    label: `Y${year.year}`,
+    income: year.income,
+    marketReturn: year.marketReturn,
+    decision: year.decision,
+  }));
+
+  return (
+    <Card className="p-4 sm:p-6 border-slate-200">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-slate-900">Income across good and bad markets</h3>
+        <p className="text-sm text-slate-500">
+          Yearly income under the {policyLabel.toLowerCase()} policy. Red bars are years the portfolio lost value
+          after adding back that year's withdrawals.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+        <div className="p-3 bg-slate-50 rounded-lg">
+          <p className="text-xs text-gray-600">Range per withdrawal</p>
+          <p className="text-sm font-semibold text-slate-900">
+            {formatCurrency(variation.minPeriodAmount)} – {formatCurrency(variation.maxPeriodAmount)}
+          </p>
+          <p className="text-xs text-gray-500">
+            {periodLabel}, first {formatCompact(variation.firstPeriodAmount)}, last {formatCompact(variation.lastPeriodAmount)}
+          </p>
+        </div>
+        <div className="p-3 bg-green-50 rounded-lg">
+          <p className="text-xs text-gray-600">Good years ({goodYears.count})</p>
+          <p className="text-sm font-semibold text-green-700">
+            {goodYears.averageIncome !== null ? formatCurrency(goodYears.averageIncome) : '—'}
+          </p>
+          <p className="text-xs text-gray-500">average yearly income</p>
+        </div>
+        <div className="p-3 bg-red-50 rounded-lg">
+          <p className="text-xs text-gray-600">Bad years ({badYears.count})</p>
+          <p className="text-sm font-semibold text-red-700">
+            {badYears.averageIncome !== null ? formatCurrency(badYears.averageIncome) : '—'}
+          </p>
+          <p className="text-xs text-gray-500">average yearly income</p>
+        </div>
+        <div className="p-3 bg-amber-50 rounded-lg">
+          <p className="text-xs text-gray-600">Guardrail actions</p>
+          <p className="text-sm font-semibold text-amber-700">
+            {variation.cuts} cut{variation.cuts === 1 ? '' : 's'}, {variation.raises} raise{variation.raises === 1 ? '' : 's'}
+          </p>
+          <p className="text-xs text-gray-500">over {variation.years.length} years</p>
+        </div>
+      </div>
+
+      <div className="w-full h-[220px] sm:h-[260px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+            <XAxis dataKey="label" tick={{ fontSize: 11 }} tickLine={false} />
+            <YAxis tickFormatter={formatCompact} tick={{ fontSize: 12 }} tickLine={false} />
+            <Tooltip
+              formatter={(value: number, _name: string, item: any) => {
+                const { marketReturn, decision } = item.payload;
+                const details = [
+                  marketReturn !== null ? `market ${marketReturn.toFixed(1)}%` : null,
+                  DECISION_LABELS[decision as PolicyDecision] ?? null,
+                ].filter(Boolean).join(', ');
+                return [details ? `${formatCurrency(value)} (${details})` : formatCurrency(value), 'Income'];
+              }}
+              contentStyle={{ backgroundColor: 'white', border: '1px solid #ccc', borderRadius: '8px' }}
+            />
+            <Bar dataKey="income" name="Income">
+              {chartData.map((entry) => (
+                <Cell
+                  key={entry.label}
+                  fill={entry.marketReturn !== null && entry.marketReturn < 0 ? '#ef4444' : '#10b981'}
+                />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </Card>
+  );
+}
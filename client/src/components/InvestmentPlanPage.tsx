@@ -1,16 +1,24 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { FundSearch } from './FundSearch';
 import { FundBucket } from './FundBucket';
 import { InvestmentTab } from './InvestmentTab';
+import type { InvestmentType } from './InvestmentTab';
 import { Card } from './ui/card';
 import { TrendingUp } from 'lucide-react';
 import type { Fund, SelectedFund } from '../App';
+import type { ExitLoadSchedule } from '../utils/exitLoad';
+import type { CalculatorScenario } from '../types/scenario';
 
 interface InvestmentPlanPageProps {
   selectedFunds: SelectedFund[];
   onAddFund: (fund: Fund) => void;
   onRemoveFund: (fundId: string) => void;
   onWeightageChange: (fundId: string, weightage: number) => void;
+  onExitLoadChange?: (fundId: string, exitLoad: ExitLoadSchedule) => void;
+  calculator: InvestmentType; // calculator open in Step 2
+  onSelectCalculator: (calculator: InvestmentType) => void;
+  scenario?: CalculatorScenario | null; // opened from a scenario link
+  scenarioKey?: number; // changes each time a link is opened
 }
 
 export function InvestmentPlanPage({
@@ -18,12 +26,12 @@ export function InvestmentPlanPage({
   onAddFund,
   onRemoveFund,
   onWeightageChange,
+  onExitLoadChange,
+  calculator,
+  onSelectCalculator,
+  scenario,
+  scenarioKey,
 }: InvestmentPlanPageProps) {
-  // Scroll to top when component mounts
-  useEffect(() => {
-    window.scrollTo({ top: 0, behavior: 'instant' });
-  }, []);
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-100 via-slate-50 to-blue-50 py-4 sm:py-6 md:py-8">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -60,6 +68,7 @@ export function InvestmentPlanPage({
               funds={selectedFunds}
               onRemoveFund={onRemoveFund}
               onWeightageChange={onWeightageChange}
+              onExitLoadChange={onExitLoadChange}
             />
           </div>
         )}
@@ -74,7 +83,13 @@ export function InvestmentPlanPage({
               </p>
             </Card>
             <div className="mt-3 sm:mt-4">
-              <InvestmentTab selectedFunds={selectedFunds} />
+              <InvestmentTab
+                key={scenarioKey}
+                selectedFunds={selectedFunds}
+                investmentType={calculator}
+                onInvestmentTypeChange={onSelectCalculator}
+                scenario={scenario}
+              />
             </div>
           </div>
         )}
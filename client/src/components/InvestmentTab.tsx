@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card } from './ui/card';
 import { Label } from './ui/label';
 import { RadioGroup, RadioGroupItem } from './ui/radio-group';
@@ -7,15 +7,29 @@ import { LumpsumCalculator } from './calculators/LumpsumCalculator';
 import { SIPLumpsumCalculator } from './calculators/SIPLumpsumCalculator';
 import { TrendingUp } from 'lucide-react';
 import type { SelectedFund } from '../App';
+import type { CalculatorScenario, ScenarioCalculator, SharedCalculatorInputs } from '../types/scenario';
+
+export type InvestmentType = Exclude<ScenarioCalculator, 'SWP'> | null;
 
 interface InvestmentTabProps {
   selectedFunds: SelectedFund[];
+  investmentType: InvestmentType; // from the /calculators/:type path
+  onInvestmentTypeChange: (type: InvestmentType) => void;
+  scenario?: CalculatorScenario | null; // opened from a scenario link
 }
 
-type InvestmentType = 'SIP' | 'Lumpsum' | 'SIPLumpsum' | null;
+export function InvestmentTab({ selectedFunds, investmentType, onInvestmentTypeChange, scenario }: InvestmentTabProps) {
+  // The shared inputs apply to the scenario's calculator until the user moves to another one
+  const [shared, setShared] = useState<SharedCalculatorInputs<any> | null>(
+    scenario ? { inputs: scenario.inputs, autoRun: !!scenario.run } : null
+  );
+  const sharedInputs = shared && scenario?.calculator === investmentType ? shared : undefined;
+
+  useEffect(() => {
+    if (shared && scenario?.calculator !== investmentType) setShared(null);
+  }, [investmentType]);
 
-export function InvestmentTab({ selectedFunds }: InvestmentTabProps) {
-  const [investmentType, setInvestmentType] = useState<InvestmentType>(null);
+  const selectInvestmentType = (type: InvestmentType) => onInvestmentTypeChange(type);
 
   // Allow 1 or more funds
   if (selectedFunds.length < 1) {
@@ -37,7 +51,7 @@ export function InvestmentTab({ selectedFunds }: InvestmentTabProps) {
       {/* Investment Type Selection - Always Visible */}
       <Card className="p-4 sm:p-5 md:p-6">
         <Label className="text-base sm:text-lg font-semibold mb-3 sm:mb-4 block">Select Investment Type</Label>
-        <RadioGroup value={investmentType || ''} onValueChange={(value) => setInvestmentType(value as InvestmentType)}>
+        <RadioGroup value={investmentType || ''} onValueChange={(value) => selectInvestmentType(value as InvestmentType)}>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-3 sm:gap-4">
             <div 
               className={`flex items-center space-x-2 sm:space-x-3 p-3 sm:p-4 border-2 rounded-lg cursor-pointer transition-all ${
@@ -45,7 +59,7 @@ export function InvestmentTab({ selectedFunds }: InvestmentTabProps) {
                   ? 'border-blue-600 bg-blue-50' 
                   : 'border-gray-200 hover:bg-gray-50 hover:border-blue-300'
               }`}
-              onClick={() => setInvestmentType('SIP')}
+              onClick={() => selectInvestmentType('SIP')}
             >
               <RadioGroupItem value="SIP" id="sip" />
               <Label htmlFor="sip" className={`cursor-pointer font-normal flex-1 text-sm sm:text-base ${
@@ -60,7 +74,7 @@ export function InvestmentTab({ selectedFunds }: InvestmentTabProps) {
                   ? 'border-blue-600 bg-blue-50' 
                   : 'border-gray-200 hover:bg-gray-50 hover:border-blue-300'
               }`}
-              onClick={() => setInvestmentType('Lumpsum')}
+              onClick={() => selectInvestmentType('Lumpsum')}
             >
               <RadioGroupItem value="Lumpsum" id="lumpsum" />
               <Label htmlFor="lumpsum" className={`cursor-pointer font-normal flex-1 text-sm sm:text-base ${
@@ -75,7 +89,7 @@ export function InvestmentTab({ selectedFunds }: InvestmentTabProps) {
                   ? 'border-blue-600 bg-blue-50' 
                   : 'border-gray-200 hover:bg-gray-50 hover:border-blue-300'
               }`}
-              onClick={() => setInvestmentType('SIPLumpsum')}
+              onClick={() => selectInvestmentType('SIPLumpsum')}
             >
               <RadioGroupItem value="SIPLumpsum" id="siplumpsum" />
               <Label htmlFor="siplumpsum" className={`cursor-pointer font-normal flex-1 text-sm sm:text-base ${
@@ -105,9 +119,9 @@ export function InvestmentTab({ selectedFunds }: InvestmentTabProps) {
           </Card>
 
           {/* Render the appropriate calculator */}
-          {investmentType === 'SIP' && <SIPCalculator funds={selectedFunds} />}
-          {investmentType === 'Lumpsum' && <LumpsumCalculator funds={selectedFunds} />}
-          {investmentType === 'SIPLumpsum' && <SIPLumpsumCalculator funds={selectedFunds} />}
+          {investmentType === 'SIP' && <SIPCalculator funds={selectedFunds} shared={sharedInputs} />}
+          {investmentType === 'Lumpsum' && <LumpsumCalculator funds={selectedFunds} shared={sharedInputs} />}
+          {investmentType === 'SIPLumpsum' && <SIPLumpsumCalculator funds={selectedFunds} shared={sharedInputs} />}
         </div>
       )}
     </div>
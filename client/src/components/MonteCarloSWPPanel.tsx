@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { Card } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Loader2, Shuffle } from 'lucide-react';
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend as RechartsLegend,
+  ResponsiveContainer,
+} from 'recharts';
+import { useMonteCarloSWP } from '../hooks/useMonteCarloSWP';
+import type { MonteCarloSWPInput } from '../utils/monteCarloSWP';
+import { DEFAULT_MONTE_CARLO_PATHS, MONTE_CARLO_PATH_OPTIONS } from '../utils/monteCarloSWP';
+
+export type MonteCarloPlan = Omit<MonteCarloSWPInput, 'paths' | 'years' | 'seed'>;
+
+interface MonteCarloSWPPanelProps {
+  plan: MonteCarloPlan;
+  defaultYears?: number;
+}
+
+const formatCurrency = (amount: number): string => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 0,
+  }).format(amount);
+};
+
+const formatCompact = (value: number) => {
+  if (value >= 10000000) return `₹${(value / 10000000).toFixed(1)}Cr`;
+  if (value >= 100000) return `₹${(value / 100000).toFixed(1)}L`;
+  return `₹${(value / 1000).toFixed(0)}K`;
+};
+
+export function MonteCarloSWPPanel({ plan, defaultYears = 30 }: MonteCarloSWPPanelProps) {
+  const [paths, setPaths] = useState<number>(DEFAULT_MONTE_CARLO_PATHS);
+  const [years, setYears] = useState<number>(defaultYears);
+  const { run, cancel, reset, isRunning, progress, result, error } = useMonteCarloSWP();
+
+  // A different plan makes the previous outcome meaningless
+  useEffect(() => {
+    reset();
+  }, [plan, reset]);
+
+  const handleRun = () => {
+    run({ ...plan, paths, years });
+  };
+
+  const survivalTone = !result
+    ? ''
+    : result.survivalProbability >= 90
+      ? 'text-green-700 border-green-300 bg-green-50'
+      : result.survivalProbability >= 75
+        ? 'text-amber-700 border-amber-300 bg-amber-50'
+        : 'text-red-700 border-red-300 bg-red-50';
+
+  const chartData = result?.fan.map((point) => ({
+    year: `Y${point.year}`,
+    outer: [point.p10, point.p90],
+    inner: [point.p25, point.p75],
+    median: point.p50,
+  })) ?? [];
+
+  return (
+    <Card className="p-4 sm:p-6 border-2 border-slate-200">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <Shuffle className="h-5 w-5 text-indigo-600" />
+            Monte Carlo Sustainability
+          </h3>
+          <p className="text-xs sm:text-sm text-slate-600 mt-1">
+            Replays {formatCurrency(plan.withdrawalAmount)} {plan.withdrawalsPerYear === 12 ? 'monthly' : 'quarterly'} withdrawals
+            from {formatCurrency(plan.corpus)} over randomly reshuffled months of the bucket's own history.
+          </p>
+        </div>
+        {result && (
+          <Badge variant="outline" className={`text-xs sm:text-sm w-fit ${survivalTone}`}>
+            {result.survivalProbability.toFixed(1)}% survival
+          </Badge>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+        <div>
+          <Label htmlFor="mc-paths">Simulated Paths</Label>
+          <Select value={String(paths)} onValueChange={(value) => setPaths(Number(value))}>
+            <SelectTrigger id="mc-paths" className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MONTE_CARLO_PATH_OPTIONS.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  {option.toLocaleString('en-IN')}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="mc-years">Horizon (years)</Label>
+          <Input
+            id="mc-years"
+            type="number"
+            min={1}
+            max={50}
+            value={years}
+            onChange={(e) => {
+              const value = Number(e.target.value) || 1;
+              setYears(value >= 1 && value <= 50 ? value : (value < 1 ? 1 : 50));
+            }}
+            className="mt-1"
+          />
+        </div>
+        <div className="flex items-end">
+          {isRunning ? (
+            <Button variant="outline" onClick={cancel} className="w-full">
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Cancel ({progress.completed}/{progress.total})
+            </Button>
+          ) : (
+            <Button onClick={handleRun} className="w-full">
+              Run Monte Carlo
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {isRunning && progress.total > 0 && (
+        <div className="w-full bg-gray-200 rounded-full h-2 overflow-hidden mb-4">
+          <div
+            className="bg-indigo-600 h-2 rounded-full transition-all duration-300 ease-out"
+            style={{ width: `${(progress.completed / progress.total) * 100}%` }}
+          />
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg mb-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="p-3 bg-green-50 rounded-lg">
+              <p className="text-xs text-gray-600">Probability of Survival</p>
+              <p className="text-lg font-semibold text-green-700">{result.survivalProbability.toFixed(1)}%</p>
+              <p className="text-xs text-gray-500">{result.depletedPaths.toLocaleString('en-IN')} of {result.paths.toLocaleString('en-IN')} paths ran out</p>
+            </div>
+            <div className="p-3 bg-blue-50 rounded-lg">
+              <p className="text-xs text-gray-600">Median Terminal Value</p>
+              <p className="text-lg font-semibold text-blue-700">{formatCurrency(result.medianTerminalValue)}</p>
+              <p className="text-xs text-gray-500">after {result.years} years</p>
+            </div>
+            <div className="p-3 bg-amber-50 rounded-lg">
+              <p className="text-xs text-gray-600">Bad Case (10th pct.)</p>
+              <p className="text-lg font-semibold text-amber-700">{formatCurrency(result.terminalPercentiles.p10)}</p>
+              <p className="text-xs text-gray-500">Good case (90th): {formatCurrency(result.terminalPercentiles.p90)}</p>
+            </div>
+            <div className="p-3 bg-purple-50 rounded-lg">
+              <p className="text-xs text-gray-600">Median Depletion</p>
+              <p className="text-lg font-semibold text-purple-700">
+                {result.medianDepletionYear !== null ? `Year ${result.medianDepletionYear.toFixed(1)}` : 'Never'}
+              </p>
+              <p className="text-xs text-gray-500">among paths that ran out</p>
+            </div>
+          </div>
+
+          <div className="w-full h-[280px] sm:h-[360px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                <XAxis dataKey="year" tick={{ fontSize: 12 }} tickLine={false} />
+                <YAxis tickFormatter={formatCompact} tick={{ fontSize: 12 }} tickLine={false} />
+                <Tooltip
+                  formatter={(value: number | number[], name: string) => [
+                    Array.isArray(value) ? `${formatCurrency(value[0])} – ${formatCurrency(value[1])}` : formatCurrency(value),
+                    name,
+                  ]}
+                  contentStyle={{ backgroundColor: 'white', border: '1px solid #ccc', borderRadius: '8px' }}
+                />
+                {/* @ts-ignore */}
+                <RechartsLegend wrapperStyle={{ paddingTop: '20px' }} />
+                <Area type="monotone" dataKey="outer" name="10th–90th percentile" stroke="none" fill="#c7d2fe" fillOpacity={0.6} />
+                <Area type="monotone" dataKey="inner" name="25th–75th percentile" stroke="none" fill="#818cf8" fillOpacity={0.6} />
+                <Line type="monotone" dataKey="median" name="Median corpus" stroke="#3730a3" strokeWidth={2} dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <p className="text-xs text-slate-500">
+            Returns are drawn from {result.historicalMonths} months of common NAV history, so the simulation cannot produce a
+            month worse than the worst one on record. Exit loads and capital gains tax are applied as in the backtest.
+          </p>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Home, BarChart3, Target, FileText, Brain, BookOpen, Newspaper, LogIn, LogOut, ChevronDown, TrendingUp } from 'lucide-react';
+import { Home, BarChart3, Target, FileText, Brain, BookOpen, Newspaper, LogIn, LogOut, ChevronDown, TrendingUp, Wallet, Columns } from 'lucide-react';
 import { Button } from './ui/button';
 import { cn } from './ui/utils';
 import { useAuth } from '../contexts/AuthContext';
@@ -13,6 +13,7 @@ import {
 } from './ui/dropdown-menu';
 import { Avatar, AvatarFallback, AvatarImage } from './ui/avatar';
 import { LoginModal } from './LoginModal';
+import { useNewsUnreadCount } from '../hooks/useNewsUnreadCount';
 
 interface NavigationProps {
   activePage: string;
@@ -23,12 +24,17 @@ interface NavigationProps {
 export function Navigation({ activePage, onNavigate, selectedFundsCount = 0 }: NavigationProps) {
   const { user, isAuthenticated, logout, isLoading } = useAuth();
   const [showLoginModal, setShowLoginModal] = useState(false);
+  // New articles matching the user's news watchlists
+  const newsUnreadCount = useNewsUnreadCount(isAuthenticated);
+  const newsUnreadLabel = newsUnreadCount > 99 ? '99+' : String(newsUnreadCount);
 
   // Main navigation items (short labels)
   const mainNavItems = [
     { id: 'home', label: 'Home', icon: Home },
     { id: 'investment-plan', label: 'Investment', icon: BarChart3 },
     { id: 'retirement-plan', label: 'Retirement', icon: Target },
+    { id: 'holdings', label: 'Holdings', icon: Wallet },
+    { id: 'compare', label: 'Compare', icon: Columns },
     { id: 'financial-planning', label: 'Financial', icon: FileText },
     { id: 'ai-stock-analysis', label: 'AI Analysis', icon: Brain },
   ];
@@ -45,6 +51,8 @@ export function Navigation({ activePage, onNavigate, selectedFundsCount = 0 }: N
     { id: 'home', label: 'Home', icon: Home },
     { id: 'investment-plan', label: 'Invest', icon: BarChart3 },
     { id: 'retirement-plan', label: 'Retire', icon: Target },
+    { id: 'holdings', label: 'Holdings', icon: Wallet },
+    { id: 'compare', label: 'Compare', icon: Columns },
     { id: 'financial-planning', label: 'Plan', icon: FileText },
     { id: 'ai-stock-analysis', label: 'AI', icon: Brain },
     { id: 'news', label: 'News', icon: Newspaper },
@@ -129,6 +137,11 @@ export function Navigation({ activePage, onNavigate, selectedFundsCount = 0 }: N
                 >
                   <BookOpen className="w-3.5 h-3.5" />
                   <span>Content</span>
+                  {newsUnreadCount > 0 && (
+                    <span className="min-w-4 h-4 px-1 rounded-full bg-red-500 text-white text-[10px] leading-4 text-center">
+                      {newsUnreadLabel}
+                    </span>
+                  )}
                   <ChevronDown className="w-3 h-3" />
                 </Button>
               </DropdownMenuTrigger>
@@ -149,7 +162,7 @@ export function Navigation({ activePage, onNavigate, selectedFundsCount = 0 }: N
                         'w-4 h-4',
                         isActive ? 'text-blue-600' : 'text-slate-500'
                       )} />
-                      <div>
+                      <div className="flex-1">
                         <p className={cn(
                           'text-sm font-medium',
                           isActive ? 'text-blue-600' : 'text-slate-700'
@@ -158,6 +171,11 @@ export function Navigation({ activePage, onNavigate, selectedFundsCount = 0 }: N
                         </p>
                         <p className="text-xs text-slate-400">{item.description}</p>
                       </div>
+                      {item.id === 'news' && newsUnreadCount > 0 && (
+                        <span className="px-1.5 rounded-full bg-red-500 text-white text-[10px] font-semibold leading-4">
+                          {newsUnreadLabel}
+                        </span>
+                      )}
                     </DropdownMenuItem>
                   );
                 })}
@@ -246,7 +264,14 @@ export function Navigation({ activePage, onNavigate, selectedFundsCount = 0 }: N
                     : 'text-slate-500 hover:text-blue-600'
                 )}
               >
-                <Icon className={cn('w-5 h-5', isActive && 'scale-110')} />
+                <span className="relative">
+                  <Icon className={cn('w-5 h-5', isActive && 'scale-110')} />
+                  {item.id === 'news' && newsUnreadCount > 0 && (
+                    <span className="absolute -top-1.5 -right-2.5 px-1 rounded-full bg-red-500 text-white text-[9px] font-semibold leading-[14px]">
+                      {newsUnreadLabel}
+                    </span>
+                  )}
+                </span>
                 <span className="text-[9px] font-medium">{item.label}</span>
               </button>
             );
@@ -1,6 +1,6 @@
 // client/src/components/NewsPage.tsx
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { Search, Clock, ExternalLink, RefreshCw, Filter, X, Newspaper, TrendingUp, Globe } from 'lucide-react';
+import { Search, Clock, ExternalLink, RefreshCw, Filter, X, Newspaper, TrendingUp, Globe, Bell, Settings2 } from 'lucide-react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Card } from './ui/card';
@@ -14,12 +14,185 @@ import {
     groupNewsByDate,
     type NewsArticle
 } from '../services/newsService';
+import { fetchWatchlists, fetchWatchlistFeed, markNewsRead } from '../services/watchlistsService';
+import type { Watchlist, WatchlistFeedItem, WatchlistMatch } from '../types/watchlist';
+import { useAuth } from '../contexts/AuthContext';
+import { useNewsUnreadCount } from '../hooks/useNewsUnreadCount';
+import { LoginModal } from './LoginModal';
+import { NewsWatchlistsDialog } from './NewsWatchlistsDialog';
 
 interface NewsPageProps {
     onNavigate?: (page: string) => void;
 }
 
+type NewsView = 'all' | 'feed';
+
+// A stock or fund house to narrow the news to
+interface EntityFilter {
+    symbol?: string;
+    amc?: string;
+}
+
+// Entity filter from the URL, e.g. /news?symbol=RELIANCE from a stock's related headlines
+const readEntityFilter = (): EntityFilter => {
+    const params = new URLSearchParams(window.location.search);
+    return {
+        symbol: params.get('symbol') || undefined,
+        amc: params.get('amc') || undefined
+    };
+};
+
+// Source colors for badges
+const getSourceColor = (source: string) => {
+    const colors: Record<string, string> = {
+        'Economic Times': 'bg-blue-100 text-blue-800',
+        'Moneycontrol': 'bg-green-100 text-green-800',
+        'LiveMint': 'bg-orange-100 text-orange-800',
+        'NDTV Profit': 'bg-red-100 text-red-800',
+        'Business Standard': 'bg-purple-100 text-purple-800',
+        'The Hindu Business': 'bg-indigo-100 text-indigo-800',
+        'Reuters': 'bg-yellow-100 text-yellow-800',
+        'Finshots': 'bg-pink-100 text-pink-800'
+    };
+    return colors[source] || 'bg-gray-100 text-gray-800';
+};
+
+interface NewsArticleCardProps {
+    article: NewsArticle;
+    matches?: WatchlistMatch[]; // watchlists the article matched, in My feed
+    isNew?: boolean;
+    onSelectEntity?: (filter: EntityFilter) => void; // show only news tagged with a stock or fund house
+}
+
+function NewsArticleCard({ article, matches, isNew, onSelectEntity }: NewsArticleCardProps) {
+    const coverage = article.alsoCoveredBy ?? [];
+    const symbols = article.symbols ?? [];
+    const amcs = article.amcs ?? [];
+
+    return (
+        <div
+            className={`bg-white rounded-lg border hover:border-blue-200 hover:shadow-md transition-all duration-200 overflow-hidden ${
+                isNew ? 'border-blue-200 ring-1 ring-blue-100' : 'border-gray-100'
+            }`}
+        >
+            <a
+                href={article.link}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="group block"
+            >
+                <div className="flex">
+                    {/* Image (if available) */}
+                    {article.imageUrl && (
+                        <div className="hidden sm:block w-32 h-24 flex-shrink-0 bg-gray-100">
+                            <img
+                                src={article.imageUrl}
+                                alt=""
+                                className="w-full h-full object-cover"
+                                onError={(e) => {
+                                    (e.target as HTMLImageElement).style.display = 'none';
+                                }}
+                            />
+                        </div>
+                    )}
+
+                    {/* Content */}
+                    <div className="flex-1 p-4">
+                        <div className="flex items-start justify-between gap-4">
+                            <div className="flex-1 min-w-0">
+                                {/* Title */}
+                                <h3 className="text-sm font-medium text-gray-900 group-hover:text-blue-600 transition-colors line-clamp-2 mb-1">
+                                    {isNew && <span className="inline-block w-2 h-2 rounded-full bg-blue-600 mr-2 align-middle" />}
+                                    {article.story?.headline ?? article.title}
+                                </h3>
+
+                                {/* Description */}
+                                {article.description && (
+                                    <p className="text-xs text-gray-500 line-clamp-1 mb-2">
+                                        {article.description}
+                                    </p>
+                                )}
+
+                                {/* Meta */}
+                                <div className="flex items-center gap-3 flex-wrap">
+                                    <Badge className={`text-xs px-2 py-0.5 ${getSourceColor(article.source)}`}>
+                                        {article.source}
+                                    </Badge>
+                                    <span className="flex items-center gap-1 text-xs text-gray-400">
+                                        <Clock className="w-3 h-3" />
+                                        {formatRelativeTime(article.publishedAt)}
+                                    </span>
+                                    {article.category && article.category !== 'General' && (
+                                        <Badge variant="outline" className="text-xs px-2 py-0.5">
+                                            {article.category}
+                                        </Badge>
+                                    )}
+                                    {matches?.map((match) => (
+                                        <span key={match.watchlistId} className="text-xs text-blue-700">
+                                            {match.name}: {match.terms.join(', ')}
+                                        </span>
+                                    ))}
+                                </div>
+                            </div>
+
+                            {/* External Link Icon */}
+                            <ExternalLink className="w-4 h-4 text-gray-300 group-hover:text-blue-500 flex-shrink-0 mt-1" />
+                        </div>
+                    </div>
+                </div>
+            </a>
+
+            {/* Stocks and fund houses the article mentions */}
+            {(symbols.length > 0 || amcs.length > 0) && (
+                <div className="flex items-center gap-1.5 flex-wrap px-4 pb-3 -mt-1">
+                    {symbols.map((symbol) => (
+                        <button
+                            key={symbol}
+                            onClick={() => onSelectEntity?.({ symbol })}
+                            disabled={!onSelectEntity}
+                            className="text-[11px] font-semibold text-blue-700 bg-blue-50 border border-blue-100 rounded px-1.5 py-0.5 enabled:hover:bg-blue-100"
+                        >
+                            {symbol}
+                        </button>
+                    ))}
+                    {amcs.map((amc) => (
+                        <button
+                            key={amc}
+                            onClick={() => onSelectEntity?.({ amc })}
+                            disabled={!onSelectEntity}
+                            className="text-[11px] font-semibold text-emerald-700 bg-emerald-50 border border-emerald-100 rounded px-1.5 py-0.5 enabled:hover:bg-emerald-100"
+                        >
+                            {amc} MF
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {/* Same story from other sources */}
+            {coverage.length > 0 && (
+                <div className="flex items-center gap-2 flex-wrap px-4 py-2 border-t border-gray-100 bg-gray-50/60 text-xs">
+                    <span className="text-gray-500">Also covered by</span>
+                    {coverage.map((item) => (
+                        <a
+                            key={item._id}
+                            href={item.link}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            title={item.title}
+                            className="font-medium text-blue-700 hover:underline"
+                        >
+                            {item.source}
+                        </a>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
+
 export function NewsPage({ onNavigate }: NewsPageProps) {
+    const { isAuthenticated } = useAuth();
+    const [view, setView] = useState<NewsView>('all');
     const [news, setNews] = useState<NewsArticle[]>([]);
     const [sources, setSources] = useState<string[]>([]);
     const [categories, setCategories] = useState<string[]>([]);
@@ -31,9 +204,21 @@ export function NewsPage({ onNavigate }: NewsPageProps) {
     const [debouncedSearch, setDebouncedSearch] = useState('');
     const [selectedSource, setSelectedSource] = useState<string>('');
     const [selectedCategory, setSelectedCategory] = useState<string>('');
+    const [entityFilter, setEntityFilter] = useState<EntityFilter>(readEntityFilter);
     const [page, setPage] = useState(1);
     const [totalPages, setTotalPages] = useState(1);
 
+    // My feed: articles matching the user's watchlists
+    const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+    const [feed, setFeed] = useState<WatchlistFeedItem[]>([]);
+    const [feedPage, setFeedPage] = useState(1);
+    const [feedTotalPages, setFeedTotalPages] = useState(1);
+    const [selectedWatchlistId, setSelectedWatchlistId] = useState<string>('');
+    const [isFeedLoading, setIsFeedLoading] = useState(false);
+    const [showWatchlists, setShowWatchlists] = useState(false);
+    const [showLoginModal, setShowLoginModal] = useState(false);
+    const feedUnreadCount = useNewsUnreadCount(isAuthenticated);
+
     // Debounce search
     useEffect(() => {
         const timer = setTimeout(() => setDebouncedSearch(searchQuery), 300);
@@ -67,7 +252,9 @@ export function NewsPage({ onNavigate }: NewsPageProps) {
                 limit: 50,
                 source: selectedSource || undefined,
                 category: selectedCategory || undefined,
-                search: debouncedSearch || undefined
+                search: debouncedSearch || undefined,
+                symbol: entityFilter.symbol,
+                amc: entityFilter.amc
             });
 
             if (result.success) {
@@ -80,39 +267,86 @@ export function NewsPage({ onNavigate }: NewsPageProps) {
             setIsLoading(false);
             setIsRefreshing(false);
         }
-    }, [page, selectedSource, selectedCategory, debouncedSearch]);
+    }, [page, selectedSource, selectedCategory, debouncedSearch, entityFilter]);
 
     useEffect(() => {
         loadNews();
     }, [loadNews]);
 
+    // Keep the entity filter in the URL, so it can be shared and survives a reload
+    useEffect(() => {
+        const params = new URLSearchParams();
+        if (entityFilter.symbol) params.set('symbol', entityFilter.symbol);
+        if (entityFilter.amc) params.set('amc', entityFilter.amc);
+        const search = params.toString();
+        window.history.replaceState(window.history.state, '', `/news${search ? `?${search}` : ''}`);
+    }, [entityFilter]);
+
+    useEffect(() => {
+        if (!isAuthenticated) {
+            setWatchlists([]);
+            setFeed([]);
+            return;
+        }
+        fetchWatchlists().then(setWatchlists);
+    }, [isAuthenticated]);
+
+    // Load the feed. Articles on screen are marked read on the server, but
+    // stay highlighted until the feed is next loaded.
+    const loadFeed = useCallback(async () => {
+        if (!isAuthenticated) return;
+        setIsFeedLoading(true);
+        try {
+            const result = await fetchWatchlistFeed({
+                page: feedPage,
+                limit: 50,
+                watchlistId: selectedWatchlistId || undefined
+            });
+            setFeed(result.data);
+            setFeedTotalPages(result.pagination.totalPages);
+            const unreadIds = result.data.filter((item) => !item.isRead).map((item) => item._id);
+            if (unreadIds.length > 0) {
+                markNewsRead(unreadIds);
+            }
+        } finally {
+            setIsFeedLoading(false);
+        }
+    }, [isAuthenticated, feedPage, selectedWatchlistId]);
+
+    useEffect(() => {
+        if (view === 'feed') loadFeed();
+    }, [view, loadFeed]);
+
+    // Saving a watchlist rematches it against the past week's news
+    const handleWatchlistsChange = (updated: Watchlist[]) => {
+        setWatchlists(updated);
+        if (!updated.some((watchlist) => watchlist.id === selectedWatchlistId)) {
+            setSelectedWatchlistId('');
+        }
+        if (view === 'feed') loadFeed();
+    };
+
     // Group news by date
     const groupedNews = useMemo(() => groupNewsByDate(news), [news]);
+    const groupedFeed = useMemo(() => groupNewsByDate(feed) as Map<string, WatchlistFeedItem[]>, [feed]);
+
+    const selectEntity = (filter: EntityFilter) => {
+        setEntityFilter(filter);
+        setView('all');
+        setPage(1);
+        window.scrollTo(0, 0);
+    };
 
     // Clear filters
     const clearFilters = () => {
         setSearchQuery('');
         setSelectedSource('');
         setSelectedCategory('');
+        setEntityFilter({});
         setPage(1);
     };
 
-    const hasFilters = searchQuery || selectedSource || selectedCategory;
-
-    // Source colors for badges
-    const getSourceColor = (source: string) => {
-        const colors: Record<string, string> = {
-            'Economic Times': 'bg-blue-100 text-blue-800',
-            'Moneycontrol': 'bg-green-100 text-green-800',
-            'LiveMint': 'bg-orange-100 text-orange-800',
-            'NDTV Profit': 'bg-red-100 text-red-800',
-            'Business Standard': 'bg-purple-100 text-purple-800',
-            'The Hindu Business': 'bg-indigo-100 text-indigo-800',
-            'Reuters': 'bg-yellow-100 text-yellow-800',
-            'Finshots': 'bg-pink-100 text-pink-800'
-        };
-        return colors[source] || 'bg-gray-100 text-gray-800';
-    };
+    const hasFilters = searchQuery || selectedSource || selectedCategory || entityFilter.symbol || entityFilter.amc;
 
     return (
         <div className="min-h-screen bg-gradient-to-br from-slate-50 via-white to-blue-50">
@@ -150,49 +384,53 @@ export function NewsPage({ onNavigate }: NewsPageProps) {
 
                         {/* Search & Filters */}
                         <div className="flex items-center gap-3">
-                            <div className="hidden sm:flex items-center gap-2 relative">
-                                <Search className="absolute left-3 text-gray-400 w-4 h-4" />
-                                <Input
-                                    type="text"
-                                    placeholder="Search news..."
-                                    value={searchQuery}
-                                    onChange={(e) => setSearchQuery(e.target.value)}
-                                    className="pl-10 w-56 text-sm"
-                                />
-                            </div>
+                            {view === 'all' && (
+                                <>
+                                    <div className="hidden sm:flex items-center gap-2 relative">
+                                        <Search className="absolute left-3 text-gray-400 w-4 h-4" />
+                                        <Input
+                                            type="text"
+                                            placeholder="Search news..."
+                                            value={searchQuery}
+                                            onChange={(e) => setSearchQuery(e.target.value)}
+                                            className="pl-10 w-56 text-sm"
+                                        />
+                                    </div>
 
-                            <Select value={selectedSource || 'all'} onValueChange={(v) => setSelectedSource(v === 'all' ? '' : v)}>
-                                <SelectTrigger className="w-36 text-sm h-9">
-                                    <SelectValue placeholder="Source" />
-                                </SelectTrigger>
-                                <SelectContent>
-                                    <SelectItem value="all">All Sources</SelectItem>
-                                    {sources.map((source) => (
-                                        <SelectItem key={source} value={source}>{source}</SelectItem>
-                                    ))}
-                                </SelectContent>
-                            </Select>
-
-                            <Select value={selectedCategory || 'all'} onValueChange={(v) => setSelectedCategory(v === 'all' ? '' : v)}>
-                                <SelectTrigger className="w-32 text-sm h-9">
-                                    <SelectValue placeholder="Category" />
-                                </SelectTrigger>
-                                <SelectContent>
-                                    <SelectItem value="all">All</SelectItem>
-                                    {categories.map((cat) => (
-                                        <SelectItem key={cat} value={cat}>{cat}</SelectItem>
-                                    ))}
-                                </SelectContent>
-                            </Select>
+                                    <Select value={selectedSource || 'all'} onValueChange={(v) => setSelectedSource(v === 'all' ? '' : v)}>
+                                        <SelectTrigger className="w-36 text-sm h-9">
+                                            <SelectValue placeholder="Source" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="all">All Sources</SelectItem>
+                                            {sources.map((source) => (
+                                                <SelectItem key={source} value={source}>{source}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+
+                                    <Select value={selectedCategory || 'all'} onValueChange={(v) => setSelectedCategory(v === 'all' ? '' : v)}>
+                                        <SelectTrigger className="w-32 text-sm h-9">
+                                            <SelectValue placeholder="Category" />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="all">All</SelectItem>
+                                            {categories.map((cat) => (
+                                                <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </>
+                            )}
 
                             <Button
                                 variant="outline"
                                 size="sm"
-                                onClick={() => loadNews(true)}
-                                disabled={isRefreshing}
+                                onClick={() => (view === 'feed' ? loadFeed() : loadNews(true))}
+                                disabled={isRefreshing || isFeedLoading}
                                 className="gap-2"
                             >
-                                <RefreshCw className={`w-4 h-4 ${isRefreshing ? 'animate-spin' : ''}`} />
+                                <RefreshCw className={`w-4 h-4 ${isRefreshing || isFeedLoading ? 'animate-spin' : ''}`} />
                                 <span className="hidden sm:inline">Refresh</span>
                             </Button>
                         </div>
@@ -202,8 +440,64 @@ export function NewsPage({ onNavigate }: NewsPageProps) {
 
             {/* Main Content */}
             <main className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+                {/* All news / My feed */}
+                <div className="flex items-center justify-between gap-3 mb-6 flex-wrap">
+                    <div className="inline-flex rounded-lg bg-gray-100 p-1">
+                        <button
+                            onClick={() => setView('all')}
+                            className={`px-4 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                                view === 'all' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                            }`}
+                        >
+                            All news
+                        </button>
+                        <button
+                            onClick={() => setView('feed')}
+                            className={`flex items-center gap-1.5 px-4 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                                view === 'feed' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                            }`}
+                        >
+                            <Bell className="w-3.5 h-3.5" />
+                            My feed
+                            {feedUnreadCount > 0 && view !== 'feed' && (
+                                <span className="px-1.5 rounded-full bg-red-500 text-white text-[10px] font-semibold leading-4">
+                                    {feedUnreadCount > 99 ? '99+' : feedUnreadCount}
+                                </span>
+                            )}
+                        </button>
+                    </div>
+
+                    {view === 'feed' && isAuthenticated && (
+                        <div className="flex items-center gap-2">
+                            {watchlists.length > 1 && (
+                                <Select
+                                    value={selectedWatchlistId || 'all'}
+                                    onValueChange={(v) => {
+                                        setSelectedWatchlistId(v === 'all' ? '' : v);
+                                        setFeedPage(1);
+                                    }}
+                                >
+                                    <SelectTrigger className="w-44 text-sm h-9">
+                                        <SelectValue placeholder="Watchlist" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        <SelectItem value="all">All watchlists</SelectItem>
+                                        {watchlists.map((watchlist) => (
+                                            <SelectItem key={watchlist.id} value={watchlist.id}>{watchlist.name}</SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            )}
+                            <Button variant="outline" size="sm" onClick={() => setShowWatchlists(true)} className="gap-2">
+                                <Settings2 className="w-4 h-4" />
+                                Watchlists
+                            </Button>
+                        </div>
+                    )}
+                </div>
+
                 {/* Active Filters */}
-                {hasFilters && (
+                {view === 'all' && hasFilters && (
                     <div className="flex items-center gap-2 mb-4 flex-wrap">
                         <span className="text-sm text-gray-500">Filters:</span>
                         {selectedSource && (
@@ -218,6 +512,18 @@ export function NewsPage({ onNavigate }: NewsPageProps) {
                                 <X className="w-3 h-3 cursor-pointer" onClick={() => setSelectedCategory('')} />
                             </Badge>
                         )}
+                        {entityFilter.symbol && (
+                            <Badge variant="secondary" className="gap-1">
+                                {entityFilter.symbol}
+                                <X className="w-3 h-3 cursor-pointer" onClick={() => setEntityFilter({})} />
+                            </Badge>
+                        )}
+                        {entityFilter.amc && (
+                            <Badge variant="secondary" className="gap-1">
+                                {entityFilter.amc} Mutual Fund
+                                <X className="w-3 h-3 cursor-pointer" onClick={() => setEntityFilter({})} />
+                            </Badge>
+                        )}
                         {searchQuery && (
                             <Badge variant="secondary" className="gap-1">
                                 "{searchQuery}"
@@ -230,8 +536,62 @@ export function NewsPage({ onNavigate }: NewsPageProps) {
                     </div>
                 )}
 
-                {/* Loading State */}
-                {isLoading ? (
+                {view === 'feed' ? (
+                    !isAuthenticated ? (
+                        <Card className="p-12 text-center">
+                            <Bell className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                            <h3 className="text-xl font-semibold text-gray-900 mb-2">Your news, for your portfolios</h3>
+                            <p className="text-gray-600 mb-6">
+                                Log in to follow keywords and the funds in your buckets, and see the articles that mention them.
+                            </p>
+                            <Button onClick={() => setShowLoginModal(true)}>Log in</Button>
+                        </Card>
+                    ) : isFeedLoading && feed.length === 0 ? (
+                        <div className="flex items-center justify-center py-20">
+                            <div className="w-12 h-12 border-4 border-blue-600 border-t-transparent rounded-full animate-spin" />
+                        </div>
+                    ) : watchlists.length === 0 ? (
+                        <Card className="p-12 text-center">
+                            <Bell className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                            <h3 className="text-xl font-semibold text-gray-900 mb-2">Start a watchlist</h3>
+                            <p className="text-gray-600 mb-6">
+                                Add keywords like "SEBI" or "HDFC", or pick funds from your portfolios. Matching articles appear here as news is fetched.
+                            </p>
+                            <Button onClick={() => setShowWatchlists(true)}>Create a watchlist</Button>
+                        </Card>
+                    ) : feed.length === 0 ? (
+                        <Card className="p-12 text-center">
+                            <Newspaper className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+                            <h3 className="text-xl font-semibold text-gray-900 mb-2">Nothing matched yet</h3>
+                            <p className="text-gray-600">
+                                No articles from the past week mention your watchlists. New matches show up after each news refresh.
+                            </p>
+                        </Card>
+                    ) : (
+                        <div className="space-y-8">
+                            {Array.from(groupedFeed.entries()).map(([dateGroup, articles]) => (
+                                <div key={dateGroup}>
+                                    <div className="flex items-center gap-3 mb-4">
+                                        <h2 className="text-lg font-semibold text-gray-900">{dateGroup}</h2>
+                                        <div className="flex-1 h-px bg-gray-200" />
+                                        <span className="text-sm text-gray-500">{articles.length} articles</span>
+                                    </div>
+                                    <div className="space-y-3">
+                                        {articles.map((article) => (
+                                            <NewsArticleCard
+                                                key={article._id}
+                                                article={article}
+                                                matches={article.matches}
+                                                isNew={!article.isRead}
+                                                onSelectEntity={selectEntity}
+                                            />
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    )
+                ) : isLoading ? (
                     <div className="flex items-center justify-center py-20">
                         <div className="text-center">
                             <div className="w-12 h-12 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mx-auto mb-4" />
@@ -254,73 +614,13 @@ export function NewsPage({ onNavigate }: NewsPageProps) {
                                 <div className="flex items-center gap-3 mb-4">
                                     <h2 className="text-lg font-semibold text-gray-900">{dateGroup}</h2>
                                     <div className="flex-1 h-px bg-gray-200" />
-                                    <span className="text-sm text-gray-500">{articles.length} articles</span>
+                                    <span className="text-sm text-gray-500">{articles.length} stories</span>
                                 </div>
 
                                 {/* News List */}
                                 <div className="space-y-3">
                                     {articles.map((article) => (
-                                        <a
-                                            key={article._id}
-                                            href={article.link}
-                                            target="_blank"
-                                            rel="noopener noreferrer"
-                                            className="group block bg-white rounded-lg border border-gray-100 hover:border-blue-200 hover:shadow-md transition-all duration-200 overflow-hidden"
-                                        >
-                                            <div className="flex">
-                                                {/* Image (if available) */}
-                                                {article.imageUrl && (
-                                                    <div className="hidden sm:block w-32 h-24 flex-shrink-0 bg-gray-100">
-                                                        <img
-                                                            src={article.imageUrl}
-                                                            alt=""
-                                                            className="w-full h-full object-cover"
-                                                            onError={(e) => {
-                                                                (e.target as HTMLImageElement).style.display = 'none';
-                                                            }}
-                                                        />
-                                                    </div>
-                                                )}
-
-                                                {/* Content */}
-                                                <div className="flex-1 p-4">
-                                                    <div className="flex items-start justify-between gap-4">
-                                                        <div className="flex-1 min-w-0">
-                                                            {/* Title */}
-                                                            <h3 className="text-sm font-medium text-gray-900 group-hover:text-blue-600 transition-colors line-clamp-2 mb-1">
-                                                                {article.title}
-                                                            </h3>
-
-                                                            {/* Description */}
-                                                            {article.description && (
-                                                                <p className="text-xs text-gray-500 line-clamp-1 mb-2">
-                                                                    {article.description}
-                                                                </p>
-                                                            )}
-
-                                                            {/* Meta */}
-                                                            <div className="flex items-center gap-3 flex-wrap">
-                                                                <Badge className={`text-xs px-2 py-0.5 ${getSourceColor(article.source)}`}>
-                                                                    {article.source}
-                                                                </Badge>
-                                                                <span className="flex items-center gap-1 text-xs text-gray-400">
-                                                                    <Clock className="w-3 h-3" />
-                                                                    {formatRelativeTime(article.publishedAt)}
-                                                                </span>
-                                                                {article.category && article.category !== 'General' && (
-                                                                    <Badge variant="outline" className="text-xs px-2 py-0.5">
-                                                                        {article.category}
-                                                                    </Badge>
-                                                                )}
-                                                            </div>
-                                                        </div>
-
-                                                        {/* External Link Icon */}
-                                                        <ExternalLink className="w-4 h-4 text-gray-300 group-hover:text-blue-500 flex-shrink-0 mt-1" />
-                                                    </div>
-                                                </div>
-                                            </div>
-                                        </a>
+                                        <NewsArticleCard key={article._id} article={article} onSelectEntity={selectEntity} />
                                     ))}
                                 </div>
                             </div>
@@ -329,7 +629,28 @@ export function NewsPage({ onNavigate }: NewsPageProps) {
                 )}
 
                 {/* Pagination */}
-                {totalPages > 1 && (
+                {view === 'feed' && feedTotalPages > 1 && (
+                    <div className="flex items-center justify-center gap-4 mt-8">
+                        <Button
+                            variant="outline"
+                            onClick={() => setFeedPage(p => Math.max(1, p - 1))}
+                            disabled={feedPage === 1}
+                        >
+                            Previous
+                        </Button>
+                        <span className="text-sm text-gray-600">
+                            Page {feedPage} of {feedTotalPages}
+                        </span>
+                        <Button
+                            variant="outline"
+                            onClick={() => setFeedPage(p => Math.min(feedTotalPages, p + 1))}
+                            disabled={feedPage === feedTotalPages}
+                        >
+                            Next
+                        </Button>
+                    </div>
+                )}
+                {view === 'all' && totalPages > 1 && (
                     <div className="flex items-center justify-center gap-4 mt-8">
                         <Button
                             variant="outline"
@@ -351,6 +672,14 @@ export function NewsPage({ onNavigate }: NewsPageProps) {
                     </div>
                 )}
             </main>
+
+            <NewsWatchlistsDialog
+                open={showWatchlists}
+                onClose={() => setShowWatchlists(false)}
+                watchlists={watchlists}
+                onWatchlistsChange={handleWatchlistsChange}
+            />
+            <LoginModal open={showLoginModal} onClose={() => setShowLoginModal(false)} />
         </div>
     );
 }
@@ -0,0 +1,314 @@
+// client/src/components/NewsWatchlistsDialog.tsx
+import React, { useEffect, useState } from 'react';
+import { Edit2, Loader2, Plus, Trash2, X } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from './ui/dialog';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Badge } from './ui/badge';
+import { Card } from './ui/card';
+import { useDebounce } from '../hooks/useDebounce';
+import { searchFunds } from '../services/navService';
+import { fetchPortfolios } from '../services/portfoliosService';
+import { createWatchlist, deleteWatchlist, updateWatchlist } from '../services/watchlistsService';
+import type { Watchlist, WatchlistInput, WatchlistScheme } from '../types/watchlist';
+
+interface NewsWatchlistsDialogProps {
+  open: boolean;
+  onClose: () => void;
+  watchlists: Watchlist[];
+  onWatchlistsChange: (watchlists: Watchlist[]) => void;
+}
+
+const EMPTY_WATCHLIST: WatchlistInput = { name: '', keywords: [], schemes: [] };
+
+/**
+ * Create and edit the keyword and scheme watchlists behind the "My feed" tab
+ */
+export function NewsWatchlistsDialog({ open, onClose, watchlists, onWatchlistsChange }: NewsWatchlistsDialogProps) {
+  // null: the list; 'new' or an ID: the editor
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<WatchlistInput>(EMPTY_WATCHLIST);
+  const [keywordInput, setKeywordInput] = useState('');
+  const [schemeQuery, setSchemeQuery] = useState('');
+  const [schemeResults, setSchemeResults] = useState<WatchlistScheme[]>([]);
+  const [portfolioSchemes, setPortfolioSchemes] = useState<WatchlistScheme[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const debouncedSchemeQuery = useDebounce(schemeQuery.trim(), 300);
+
+  // Funds in the user's saved portfolios, offered as one-click schemes
+  useEffect(() => {
+    if (!open) return;
+    fetchPortfolios()
+      .then((portfolios) => {
+        const seen = new Set<string>();
+        setPortfolioSchemes(
+          portfolios
+            .flatMap((portfolio) => portfolio.funds)
+            .filter((fund) => !seen.has(fund.id) && !!seen.add(fund.id))
+            .map((fund) => ({ schemeCode: fund.id, schemeName: fund.name }))
+        );
+      })
+      .catch(() => setPortfolioSchemes([])); // suggestions are optional
+  }, [open]);
+
+  useEffect(() => {
+    if (debouncedSchemeQuery.length < 3) {
+      setSchemeResults([]);
+      return;
+    }
+    let cancelled = false;
+    searchFunds(debouncedSchemeQuery)
+      .then((results) => {
+        if (!cancelled) {
+          setSchemeResults(
+            results.slice(0, 8).map((fund) => ({ schemeCode: String(fund.schemeCode), schemeName: fund.schemeName }))
+          );
+        }
+      })
+      .catch(() => !cancelled && setSchemeResults([]));
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedSchemeQuery]);
+
+  const startEditing = (watchlist?: Watchlist) => {
+    setEditingId(watchlist ? watchlist.id : 'new');
+    setForm(
+      watchlist
+        ? { name: watchlist.name, keywords: watchlist.keywords, schemes: watchlist.schemes }
+        : EMPTY_WATCHLIST
+    );
+    setKeywordInput('');
+    setSchemeQuery('');
+    setError(null);
+  };
+
+  const addKeywords = () => {
+    const keywords = keywordInput
+      .split(',')
+      .map((keyword) => keyword.trim())
+      .filter((keyword) => keyword && !form.keywords.some((existing) => existing.toLowerCase() === keyword.toLowerCase()));
+    if (keywords.length > 0) {
+      setForm((current) => ({ ...current, keywords: [...current.keywords, ...keywords] }));
+    }
+    setKeywordInput('');
+  };
+
+  const addScheme = (scheme: WatchlistScheme) => {
+    if (!form.schemes.some((existing) => existing.schemeCode === scheme.schemeCode)) {
+      setForm((current) => ({ ...current, schemes: [...current.schemes, scheme] }));
+    }
+    setSchemeQuery('');
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const input: WatchlistInput = {
+        name: form.name,
+        keywords: form.keywords,
+        schemes: form.schemes.map(({ schemeCode, schemeName }) => ({ schemeCode, schemeName })),
+      };
+      if (editingId === 'new') {
+        const created = await createWatchlist(input);
+        onWatchlistsChange([...watchlists, created]);
+      } else if (editingId) {
+        const updated = await updateWatchlist(editingId, input);
+        onWatchlistsChange(watchlists.map((watchlist) => (watchlist.id === updated.id ? updated : watchlist)));
+      }
+      setEditingId(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (watchlist: Watchlist) => {
+    if (!confirm(`Delete the "${watchlist.name}" watchlist?`)) return;
+    try {
+      await deleteWatchlist(watchlist.id);
+      onWatchlistsChange(watchlists.filter((item) => item.id !== watchlist.id));
+    } catch (err: any) {
+      alert(`Error deleting watchlist: ${err.message}`);
+    }
+  };
+
+  const suggestedSchemes = portfolioSchemes.filter(
+    (scheme) => !form.schemes.some((existing) => existing.schemeCode === scheme.schemeCode)
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>News watchlists</DialogTitle>
+          <DialogDescription>
+            Articles mentioning a keyword or one of your funds show up in My feed, newest first.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editingId === null ? (
+          <div className="space-y-3">
+            {watchlists.length === 0 ? (
+              <p className="text-sm text-gray-500 py-4 text-center">
+                No watchlists yet. Start with the names you follow, like "SEBI" or your fund houses.
+              </p>
+            ) : (
+              watchlists.map((watchlist) => (
+                <Card key={watchlist.id} className="p-4">
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <h4 className="font-medium text-gray-900">{watchlist.name}</h4>
+                      <div className="flex flex-wrap gap-1.5 mt-2">
+                        {watchlist.keywords.map((keyword) => (
+                          <Badge key={keyword} variant="secondary">{keyword}</Badge>
+                        ))}
+                        {watchlist.schemes.map((scheme) => (
+                          <Badge key={scheme.schemeCode} variant="outline" title={scheme.schemeName}>
+                            {scheme.terms?.[scheme.terms.length - 1] ?? scheme.schemeName}
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex gap-1 flex-shrink-0">
+                      <Button variant="ghost" size="sm" onClick={() => startEditing(watchlist)} aria-label="Edit watchlist">
+                        <Edit2 className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(watchlist)} aria-label="Delete watchlist">
+                        <Trash2 className="w-4 h-4 text-red-600" />
+                      </Button>
+                    </div>
+                  </div>
+                </Card>
+              ))
+            )}
+            <Button onClick={() => startEditing()} className="w-full gap-2">
+              <Plus className="w-4 h-4" />
+              New watchlist
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-5">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <Input
+                value={form.name}
+                onChange={(e) => setForm((current) => ({ ...current, name: e.target.value }))}
+                placeholder="e.g. My fund houses"
+                maxLength={60}
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Keywords</label>
+              <div className="flex gap-2">
+                <Input
+                  value={keywordInput}
+                  onChange={(e) => setKeywordInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' || e.key === ',') {
+                      e.preventDefault();
+                      addKeywords();
+                    }
+                  }}
+                  placeholder="e.g. SEBI, RBI policy"
+                />
+                <Button variant="outline" onClick={addKeywords} disabled={!keywordInput.trim()}>
+                  Add
+                </Button>
+              </div>
+              {form.keywords.length > 0 && (
+                <div className="flex flex-wrap gap-1.5 mt-2">
+                  {form.keywords.map((keyword) => (
+                    <Badge key={keyword} variant="secondary" className="gap-1">
+                      {keyword}
+                      <X
+                        className="w-3 h-3 cursor-pointer"
+                        onClick={() =>
+                          setForm((current) => ({ ...current, keywords: current.keywords.filter((item) => item !== keyword) }))
+                        }
+                      />
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Schemes</label>
+              <p className="text-xs text-gray-500 mb-2">Matched by fund house and scheme name.</p>
+              <Input
+                value={schemeQuery}
+                onChange={(e) => setSchemeQuery(e.target.value)}
+                placeholder="Search mutual funds..."
+              />
+              {schemeResults.length > 0 && schemeQuery && (
+                <div className="mt-1 border rounded-md divide-y max-h-48 overflow-y-auto">
+                  {schemeResults.map((scheme) => (
+                    <button
+                      key={scheme.schemeCode}
+                      onClick={() => addScheme(scheme)}
+                      className="block w-full text-left px-3 py-2 text-sm hover:bg-gray-50"
+                    >
+                      {scheme.schemeName}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {suggestedSchemes.length > 0 && (
+                <div className="mt-3">
+                  <p className="text-xs text-gray-500 mb-1.5">From your portfolios</p>
+                  <div className="flex flex-wrap gap-1.5">
+                    {suggestedSchemes.map((scheme) => (
+                      <button
+                        key={scheme.schemeCode}
+                        onClick={() => addScheme(scheme)}
+                        className="flex items-center gap-1 px-2 py-0.5 rounded-full border border-dashed text-xs text-gray-600 hover:border-blue-400 hover:text-blue-600"
+                      >
+                        <Plus className="w-3 h-3" />
+                        {scheme.schemeName}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {form.schemes.length > 0 && (
+                <div className="mt-3 space-y-1.5">
+                  {form.schemes.map((scheme) => (
+                    <div key={scheme.schemeCode} className="flex items-center justify-between gap-2 text-sm bg-gray-50 rounded px-3 py-1.5">
+                      <span className="truncate">{scheme.schemeName}</span>
+                      <X
+                        className="w-4 h-4 flex-shrink-0 cursor-pointer text-gray-400 hover:text-gray-700"
+                        onClick={() =>
+                          setForm((current) => ({
+                            ...current,
+                            schemes: current.schemes.filter((item) => item.schemeCode !== scheme.schemeCode),
+                          }))
+                        }
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setEditingId(null)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={isSaving || !form.name.trim()}>
+                {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save watchlist
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,190 @@
+import React from 'react';
+import { Card } from './ui/card';
+import { Badge } from './ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend as RechartsLegend, ResponsiveContainer } from 'recharts';
+import type { SelectedFund } from '../App';
+import type { RebalanceComparison, RebalanceConfig } from '../utils/rebalancing';
+import { describeRebalancePolicy } from '../utils/rebalancing';
+
+interface RebalancingComparisonProps {
+  comparison: RebalanceComparison;
+  config: RebalanceConfig;
+  funds: SelectedFund[];
+}
+
+const formatCurrency = (amount: number): string => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 0,
+  }).format(amount);
+};
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+export function RebalancingComparison({ comparison, config, funds }: RebalancingComparisonProps) {
+  const { rebalanced, buyAndHold } = comparison;
+  const valueDifference = rebalanced.finalValue - buyAndHold.finalValue;
+
+  const chartData = rebalanced.series.map((point, index) => ({
+    date: new Date(point.date).toLocaleDateString('en-IN', { month: 'short', year: 'numeric' }),
+    invested: point.invested,
+    Rebalanced: point.value,
+    'Buy and Hold': buyAndHold.series[index]?.value,
+  }));
+
+  const rows: Array<{ label: string; rebalanced: string; buyAndHold: string }> = [
+    {
+      label: 'Total Invested',
+      rebalanced: formatCurrency(rebalanced.totalInvested),
+      buyAndHold: formatCurrency(buyAndHold.totalInvested),
+    },
+    {
+      label: 'Final Value',
+      rebalanced: formatCurrency(rebalanced.finalValue),
+      buyAndHold: formatCurrency(buyAndHold.finalValue),
+    },
+    {
+      label: 'Profit/Loss',
+      rebalanced: formatCurrency(rebalanced.profit),
+      buyAndHold: formatCurrency(buyAndHold.profit),
+    },
+    {
+      label: 'XIRR',
+      rebalanced: formatPercent(rebalanced.xirr),
+      buyAndHold: formatPercent(buyAndHold.xirr),
+    },
+    {
+      label: 'Rebalance Events',
+      rebalanced: rebalanced.rebalanceCount.toString(),
+      buyAndHold: '0',
+    },
+    {
+      label: 'Turnover',
+      rebalanced: `${formatCurrency(rebalanced.turnover)} (${rebalanced.turnoverPercent.toFixed(1)}%)`,
+      buyAndHold: formatCurrency(0),
+    },
+  ];
+
+  return (
+    <Card className="p-4 sm:p-6 border-2 border-slate-200 shadow-xl">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4 sm:mb-6">
+        <div>
+          <h3 className="text-lg sm:text-xl font-bold text-slate-900 mb-1">Rebalanced vs Buy and Hold</h3>
+          <p className="text-xs sm:text-sm text-slate-600">
+            {describeRebalancePolicy(config)}. Switches are assumed at NAV, without exit load or tax.
+          </p>
+        </div>
+        <Badge
+          variant="outline"
+          className={`text-xs sm:text-sm w-fit ${valueDifference >= 0
+            ? 'text-green-700 border-green-300 bg-green-50'
+            : 'text-red-700 border-red-300 bg-red-50'
+            }`}
+        >
+          {valueDifference >= 0 ? '+' : ''}{formatCurrency(valueDifference)} from rebalancing
+        </Badge>
+      </div>
+
+      <div className="overflow-x-auto mb-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-xs sm:text-sm">Metric</TableHead>
+              <TableHead className="text-xs sm:text-sm text-right">Rebalanced</TableHead>
+              <TableHead className="text-xs sm:text-sm text-right">Buy and Hold</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.label}>
+                <TableCell className="font-medium">{row.label}</TableCell>
+                <TableCell className="text-right">{row.rebalanced}</TableCell>
+                <TableCell className="text-right">{row.buyAndHold}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="overflow-x-auto mb-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="text-xs sm:text-sm">Fund</TableHead>
+              <TableHead className="text-xs sm:text-sm text-right">Target</TableHead>
+              <TableHead className="text-xs sm:text-sm text-right">Final (Rebalanced)</TableHead>
+              <TableHead className="text-xs sm:text-sm text-right">Final (Buy and Hold)</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {funds.map((fund) => (
+              <TableRow key={fund.id}>
+                <TableCell className="font-medium">{fund.name}</TableCell>
+                <TableCell className="text-right">{fund.weightage.toFixed(1)}%</TableCell>
+                <TableCell className="text-right">{(rebalanced.finalWeights[fund.id] ?? 0).toFixed(1)}%</TableCell>
+                <TableCell className="text-right">{(buyAndHold.finalWeights[fund.id] ?? 0).toFixed(1)}%</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {chartData.length > 1 && (
+        <div className="w-full h-[260px] sm:h-[360px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+              <XAxis dataKey="date" tick={{ fontSize: 12 }} tickLine={false} />
+              <YAxis
+                tickFormatter={(value) => `₹${(value / 1000).toFixed(0)}K`}
+                tick={{ fontSize: 12 }}
+                tickLine={false}
+              />
+              <Tooltip
+                formatter={(value: number, name: string) => [formatCurrency(value), name]}
+                contentStyle={{ backgroundColor: 'white', border: '1px solid #ccc', borderRadius: '8px' }}
+              />
+              {/* @ts-ignore */}
+              <RechartsLegend wrapperStyle={{ paddingTop: '20px' }} iconType="line" />
+              <Line type="monotone" dataKey="invested" stroke="#6b7280" strokeWidth={2} strokeDasharray="5 5" name="Total Invested" dot={false} />
+              <Line type="monotone" dataKey="Rebalanced" stroke="#2563eb" strokeWidth={3} dot={false} />
+              <Line type="monotone" dataKey="Buy and Hold" stroke="#1f2937" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {rebalanced.events.length > 0 && (
+        <div className="overflow-x-auto mt-6">
+          <h4 className="text-sm font-semibold text-slate-900 mb-2">Rebalance Events</h4>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs sm:text-sm">Date</TableHead>
+                <TableHead className="text-xs sm:text-sm">Trigger</TableHead>
+                <TableHead className="text-xs sm:text-sm text-right">Portfolio Value</TableHead>
+                <TableHead className="text-xs sm:text-sm text-right">Max Drift</TableHead>
+                <TableHead className="text-xs sm:text-sm text-right">Switched</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rebalanced.events.map((event) => (
+                <TableRow key={event.date}>
+                  <TableCell>
+                    {new Date(event.date).toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' })}
+                  </TableCell>
+                  <TableCell>{event.reason === 'CALENDAR' ? 'Calendar' : 'Drift'}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(event.portfolioValue)}</TableCell>
+                  <TableCell className="text-right">{event.maxDrift.toFixed(2)}%</TableCell>
+                  <TableCell className="text-right">{formatCurrency(event.traded)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </Card>
+  );
+}
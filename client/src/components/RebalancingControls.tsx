@@ -0,0 +1,53 @@
+import React from 'react';
+import { Label } from './ui/label';
+import { Input } from './ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import type { RebalanceConfig, RebalancePolicy } from '../utils/rebalancing';
+import { DEFAULT_REBALANCE_THRESHOLD } from '../utils/rebalancing';
+
+interface RebalancingControlsProps {
+  value: RebalanceConfig;
+  onChange: (config: RebalanceConfig) => void;
+}
+
+export function RebalancingControls({ value, onChange }: RebalancingControlsProps) {
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4 mb-4">
+      <div>
+        <Label htmlFor="rebalance-policy">Rebalancing</Label>
+        <Select
+          value={value.policy}
+          onValueChange={(policy: RebalancePolicy) => onChange({ ...value, policy })}
+        >
+          <SelectTrigger id="rebalance-policy" className="mt-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="NONE">None (buy and hold)</SelectItem>
+            <SelectItem value="ANNUAL">Annual</SelectItem>
+            <SelectItem value="SEMI_ANNUAL">Semi-annual</SelectItem>
+            <SelectItem value="THRESHOLD">Threshold (drift)</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value.policy === 'THRESHOLD' && (
+        <div>
+          <Label htmlFor="rebalance-threshold">Drift Threshold (± % points)</Label>
+          <Input
+            id="rebalance-threshold"
+            type="number"
+            value={value.thresholdPercent ?? DEFAULT_REBALANCE_THRESHOLD}
+            onChange={(e) => {
+              const threshold = Number(e.target.value);
+              onChange({ ...value, thresholdPercent: threshold > 0 ? threshold : 0 });
+            }}
+            min="1"
+            max="50"
+            step="1"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -13,6 +13,13 @@ import {
   computeWeightedAverage,
 } from '../utils/portfolioStats';
 import { getToday } from '../utils/dateUtils';
+import {
+  NO_INDEXATION,
+  effectiveInflationRate,
+  growingAnnuityCorpus,
+} from '../utils/inflation';
+import type { WithdrawalIndexation } from '../utils/inflation';
+import { WithdrawalIndexationControls } from './WithdrawalIndexationControls';
 import {
   Tooltip as UiTooltip,
   TooltipContent,
@@ -32,6 +39,7 @@ interface RequiredCorpusCalculatorProps {
     swpStartDate: string;
     endDate: string;
     riskFactor: number;
+    withdrawalIndexation: WithdrawalIndexation;
   }) => void;
 }
 
@@ -53,11 +61,14 @@ export function RequiredCorpusCalculator({
   const [swpStartDate, setSwpStartDate] = useState<string>('');
   const [endDate, setEndDate] = useState<string>(getToday());
   const [riskFactor, setRiskFactor] = useState<number>(3);
+  // Flat payouts unless the user picks an indexation, as in the SWP calculator
+  const [withdrawalIndexation, setWithdrawalIndexation] = useState<WithdrawalIndexation>(NO_INDEXATION);
   const [isCalculating, setIsCalculating] = useState<boolean>(false);
   const [requiredCorpus, setRequiredCorpus] = useState<number | null>(null);
   const [requiredCorpusFixed, setRequiredCorpusFixed] = useState<number | null>(null);
   const [portfolioCAGR, setPortfolioCAGR] = useState<number | null>(null);
   const [portfolioVolatility, setPortfolioVolatility] = useState<number | null>(null);
+  const [inflationUsed, setInflationUsed] = useState<number>(0);
   const [error, setError] = useState<string | null>(null);
 
   const calculateRequiredCorpus = async () => {
@@ -75,6 +86,10 @@ export function RequiredCorpusCalculator({
         throw new Error('Please select purchase date and end date for historical analysis');
       }
 
+      if (withdrawalIndexation.type === 'CPI' && withdrawalIndexation.series.length < 2) {
+        throw new Error('Upload a CPI file or choose a different inflation indexation');
+      }
+
       const schemeCodes = funds.map(f => f.id);
       const navResponses = await fetchNAVData(schemeCodes, purchaseDate, endDate);
 
@@ -112,8 +127,11 @@ export function RequiredCorpusCalculator({
       // Calculate required corpus
       const effectiveRiskFactor = Math.max(0.1, riskFactor);
       const periodsPerYear = periodsPerYearFromFrequency(frequency);
+      const inflationPercent = effectiveInflationRate(withdrawalIndexation);
+      setInflationUsed(inflationPercent);
       
-      const swrAnnualPercent = avgCAGR !== null ? avgCAGR / effectiveRiskFactor : null;
+      // Indexed payouts have to come out of the real return
+      const swrAnnualPercent = avgCAGR !== null ? (avgCAGR - inflationPercent) / effectiveRiskFactor : null;
       const swrPeriodPercent = swrAnnualPercent !== null ? swrAnnualPercent / periodsPerYear : null;
       const swrPeriodRate = swrPeriodPercent !== null ? swrPeriodPercent / 100 : null;
 
@@ -129,13 +147,12 @@ export function RequiredCorpusCalculator({
         const adjustedReturnRate = adjustedReturnPercent / 100;
         const annualWithdrawal = payout * periodsPerYear;
         
-        if (adjustedReturnRate > 0) {
-          requiredCorpusForDuration = annualWithdrawal *
-            (1 - Math.pow(1 + adjustedReturnRate, -duration)) /
-            adjustedReturnRate;
-        } else {
-          requiredCorpusForDuration = annualWithdrawal * duration;
-        }
+        requiredCorpusForDuration = growingAnnuityCorpus(
+          annualWithdrawal,
+          adjustedReturnRate,
+          inflationPercent / 100,
+          duration
+        );
       }
 
       setRequiredCorpus(requiredCorpusIndefinite);
@@ -158,6 +175,7 @@ export function RequiredCorpusCalculator({
         swpStartDate: swpStartDate || purchaseDate,
         endDate,
         riskFactor,
+        withdrawalIndexation,
       });
     }
   };
@@ -232,6 +250,12 @@ export function RequiredCorpusCalculator({
           <p className="text-xs text-gray-500 mt-1">Enter 0 or leave blank for indefinite withdrawal</p>
         </div>
 
+        <WithdrawalIndexationControls
+          value={withdrawalIndexation}
+          onChange={setWithdrawalIndexation}
+          idPrefix="required-corpus"
+        />
+
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           <div>
             <Label htmlFor="purchase-date">Purchase Date</Label>
@@ -360,6 +384,12 @@ export function RequiredCorpusCalculator({
               </div>
             )}
 
+            {inflationUsed > 0 && (
+              <p className="text-xs text-gray-500">
+                Assumes the payout rises {inflationUsed.toFixed(2)}% every year.
+              </p>
+            )}
+
             {portfolioCAGR !== null && (
               <div className="grid grid-cols-2 gap-4">
                 <div className="p-3 bg-blue-50 rounded-lg">
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card } from './ui/card';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
@@ -6,15 +6,69 @@ import { RadioGroup, RadioGroupItem } from './ui/radio-group';
 import { SWPCalculator } from './calculators/SWPCalculator';
 import { TrendingUp } from 'lucide-react';
 import type { SelectedFund } from '../App';
+import type { BucketResults, BucketSwpConfig } from '../types/bucket';
+import type { CalculatorScenario, SharedCalculatorInputs, SWPPlanMode, SWPScenarioInputs } from '../types/scenario';
 
 interface RetirePlanTabProps {
   selectedFunds: SelectedFund[];
+  savedConfig?: BucketSwpConfig | null; // SWP settings of the open bucket, if any
+  savedConfigKey?: string; // changes when a different bucket is opened
+  onCalculated?: (results: BucketResults, swpConfig: BucketSwpConfig | null) => void;
+  swpMode: SWPPlanMode | null; // from the /calculators/:type path
+  onSwpModeChange: (mode: SWPPlanMode | null) => void;
+  scenario?: CalculatorScenario | null; // opened from a scenario link
 }
 
 type PlanMode = 'PAYOUT' | 'CORPUS' | 'NORMAL' | null;
 
-export function RetirePlanTab({ selectedFunds }: RetirePlanTabProps) {
-  const [planMode, setPlanMode] = useState<PlanMode>(null);
+// Planning mode that shows the SWP calculator in each of its modes
+const PLAN_MODE_FOR_SWP_MODE: Record<SWPPlanMode, PlanMode> = {
+  NORMAL: 'NORMAL',
+  CORPUS: 'PAYOUT',
+  TARGET: 'CORPUS',
+};
+
+const SWP_MODE_FOR_PLAN_MODE: Record<Exclude<PlanMode, null>, SWPPlanMode> = {
+  NORMAL: 'NORMAL',
+  PAYOUT: 'CORPUS',
+  CORPUS: 'TARGET',
+};
+
+export function RetirePlanTab({
+  selectedFunds,
+  savedConfig,
+  savedConfigKey,
+  onCalculated,
+  swpMode,
+  onSwpModeChange,
+  scenario,
+}: RetirePlanTabProps) {
+  const planMode = swpMode ? PLAN_MODE_FOR_SWP_MODE[swpMode] : null;
+  const sharedScenario = scenario?.calculator === 'SWP' ? scenario : null;
+  // The shared inputs apply to the scenario's mode until the user moves to another one
+  const [shared, setShared] = useState<SharedCalculatorInputs<SWPScenarioInputs> | null>(
+    sharedScenario
+      ? { inputs: sharedScenario.inputs as Partial<SWPScenarioInputs>, autoRun: !!sharedScenario.run }
+      : null
+  );
+  const sharedInputs = shared && (sharedScenario?.mode ?? 'NORMAL') === swpMode ? shared : null;
+
+  useEffect(() => {
+    if (shared && (sharedScenario?.mode ?? 'NORMAL') !== swpMode) setShared(null);
+  }, [swpMode]);
+
+  const selectPlanMode = (mode: PlanMode) => onSwpModeChange(mode ? SWP_MODE_FOR_PLAN_MODE[mode] : null);
+
+  // A shared scenario takes precedence over the open bucket's saved settings
+  const savedConfigProps = sharedInputs
+    ? { shared: sharedInputs, onCalculated }
+    : {
+      initialInvestment: savedConfig?.investmentAmount,
+      initialWithdrawal: savedConfig?.payoutAmount,
+      initialFrequency: savedConfig?.frequency,
+      initialDuration: savedConfig?.duration,
+      onCalculated,
+    };
 
   if (selectedFunds.length < 1) {
     return (
@@ -36,11 +90,11 @@ export function RetirePlanTab({ selectedFunds }: RetirePlanTabProps) {
       {!planMode && (
         <Card className="p-4 sm:p-5 md:p-6">
           <Label className="text-base sm:text-lg font-semibold mb-3 sm:mb-4 block">Select Planning Mode</Label>
-          <RadioGroup value={planMode || ''} onValueChange={(value) => setPlanMode(value as PlanMode)}>
+          <RadioGroup value={planMode || ''} onValueChange={(value) => selectPlanMode(value as PlanMode)}>
             <div className="space-y-2 sm:space-y-3">
               <div 
                 className="flex items-center space-x-2 sm:space-x-3 p-3 sm:p-4 border-2 rounded-lg cursor-pointer hover:bg-gray-50 hover:border-green-300 transition-all"
-                onClick={() => setPlanMode('PAYOUT')}
+                onClick={() => selectPlanMode('PAYOUT')}
               >
                 <RadioGroupItem value="PAYOUT" id="payout" />
                 <Label htmlFor="payout" className="cursor-pointer font-normal flex-1 text-sm sm:text-base">
@@ -49,7 +103,7 @@ export function RetirePlanTab({ selectedFunds }: RetirePlanTabProps) {
               </div>
               <div 
                 className="flex items-center space-x-2 sm:space-x-3 p-3 sm:p-4 border-2 rounded-lg cursor-pointer hover:bg-gray-50 hover:border-green-300 transition-all"
-                onClick={() => setPlanMode('CORPUS')}
+                onClick={() => selectPlanMode('CORPUS')}
               >
                 <RadioGroupItem value="CORPUS" id="corpus" />
                 <Label htmlFor="corpus" className="cursor-pointer font-normal flex-1 text-sm sm:text-base">
@@ -58,7 +112,7 @@ export function RetirePlanTab({ selectedFunds }: RetirePlanTabProps) {
               </div>
               <div 
                 className="flex items-center space-x-2 sm:space-x-3 p-3 sm:p-4 border-2 rounded-lg cursor-pointer hover:bg-gray-50 hover:border-green-300 transition-all"
-                onClick={() => setPlanMode('NORMAL')}
+                onClick={() => selectPlanMode('NORMAL')}
               >
                 <RadioGroupItem value="NORMAL" id="normal" />
                 <Label htmlFor="normal" className="cursor-pointer font-normal flex-1 text-sm sm:text-base">
@@ -79,13 +133,15 @@ export function RetirePlanTab({ selectedFunds }: RetirePlanTabProps) {
               <p className="text-xs sm:text-sm text-gray-600">Run normal SWP simulations with your own inputs</p>
             </div>
             <button
-              onClick={() => setPlanMode(null)}
+              onClick={() => selectPlanMode(null)}
               className="text-xs sm:text-sm text-blue-600 hover:text-blue-700 font-medium whitespace-nowrap"
             >
               ← Change Mode
             </button>
           </div>
           <SWPCalculator 
+            key={savedConfigKey}
+            {...savedConfigProps}
             funds={selectedFunds} 
             forcedMode="NORMAL"
             title="Normal SWP Simulation"
@@ -103,13 +159,15 @@ export function RetirePlanTab({ selectedFunds }: RetirePlanTabProps) {
               <p className="text-xs sm:text-sm text-gray-600">I have a corpus - Calculate safe withdrawal amount</p>
             </div>
             <button
-              onClick={() => setPlanMode(null)}
+              onClick={() => selectPlanMode(null)}
               className="text-xs sm:text-sm text-blue-600 hover:text-blue-700 font-medium whitespace-nowrap"
             >
               ← Change Mode
             </button>
           </div>
           <SWPCalculator 
+            key={savedConfigKey}
+            {...savedConfigProps}
             funds={selectedFunds} 
             forcedMode="CORPUS"
             title="Safe Withdrawal Calculator"
@@ -127,13 +185,15 @@ export function RetirePlanTab({ selectedFunds }: RetirePlanTabProps) {
               <p className="text-xs sm:text-sm text-gray-600">I have a target withdrawal - Calculate required corpus</p>
             </div>
             <button
-              onClick={() => setPlanMode(null)}
+              onClick={() => selectPlanMode(null)}
               className="text-xs sm:text-sm text-blue-600 hover:text-blue-700 font-medium whitespace-nowrap"
             >
               ← Change Mode
             </button>
           </div>
           <SWPCalculator 
+            key={savedConfigKey}
+            {...savedConfigProps}
             funds={selectedFunds} 
             forcedMode="TARGET"
             title="Required Corpus Calculator"
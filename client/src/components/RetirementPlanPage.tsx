@@ -1,16 +1,35 @@
-import React, { useEffect } from 'react';
+import React from 'react';
 import { FundSearch } from './FundSearch';
 import { FundBucket } from './FundBucket';
 import { RetirePlanTab } from './RetirePlanTab';
+import { BucketManager } from './BucketManager';
 import { Card } from './ui/card';
 import { Target } from 'lucide-react';
 import type { Fund, SelectedFund } from '../App';
+import type { ExitLoadSchedule } from '../utils/exitLoad';
+import type { Bucket, BucketResults, BucketSwpConfig, BucketVersion } from '../types/bucket';
+import type { CalculatorScenario, SWPPlanMode } from '../types/scenario';
 
 interface RetirementPlanPageProps {
   selectedFunds: SelectedFund[];
   onAddFund: (fund: Fund) => void;
   onRemoveFund: (fundId: string) => void;
   onWeightageChange: (fundId: string, weightage: number) => void;
+  onExitLoadChange?: (fundId: string, exitLoad: ExitLoadSchedule) => void;
+  buckets: Bucket[];
+  activeBucket: Bucket | null;
+  bucketStorageNote?: string;
+  onCreateBucket: (name: string, funds: SelectedFund[]) => void;
+  onDeleteBucket: (bucketId: string) => void;
+  onOpenBucket: (bucketId: string) => void;
+  onUpdateBucketFunds: (bucketId: string, funds: SelectedFund[]) => void;
+  onLoadBucketVersions?: (bucketId: string) => Promise<BucketVersion[]>;
+  onRestoreBucketVersion: (bucketId: string, version: number) => void;
+  onBucketCalculated: (results: BucketResults, swpConfig: BucketSwpConfig | null) => void;
+  swpMode: SWPPlanMode | null; // SWP calculator mode open in Step 2
+  onSelectSwpMode: (mode: SWPPlanMode | null) => void;
+  scenario?: CalculatorScenario | null; // opened from a scenario link
+  scenarioKey?: number; // changes each time a link is opened
 }
 
 export function RetirementPlanPage({
@@ -18,12 +37,22 @@ export function RetirementPlanPage({
   onAddFund,
   onRemoveFund,
   onWeightageChange,
+  onExitLoadChange,
+  buckets,
+  activeBucket,
+  bucketStorageNote,
+  onCreateBucket,
+  onDeleteBucket,
+  onOpenBucket,
+  onUpdateBucketFunds,
+  onLoadBucketVersions,
+  onRestoreBucketVersion,
+  onBucketCalculated,
+  swpMode,
+  onSelectSwpMode,
+  scenario,
+  scenarioKey,
 }: RetirementPlanPageProps) {
-  // Scroll to top when component mounts
-  useEffect(() => {
-    window.scrollTo({ top: 0, behavior: 'instant' });
-  }, []);
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-100 via-slate-50 to-blue-50 py-4 sm:py-6 md:py-8">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -60,10 +89,29 @@ export function RetirementPlanPage({
               funds={selectedFunds}
               onRemoveFund={onRemoveFund}
               onWeightageChange={onWeightageChange}
+              onExitLoadChange={onExitLoadChange}
             />
           </div>
         )}
 
+        {/* Saved Buckets */}
+        <div className="mb-8">
+          <Card className="p-4 sm:p-5 md:p-6">
+            <BucketManager
+              buckets={buckets}
+              onCreateBucket={onCreateBucket}
+              onDeleteBucket={onDeleteBucket}
+              onViewPerformance={onOpenBucket}
+              availableFunds={selectedFunds}
+              onAddFundsToBucket={onUpdateBucketFunds}
+              activeBucketId={activeBucket?.id ?? null}
+              storageNote={bucketStorageNote}
+              onLoadVersions={onLoadBucketVersions}
+              onRestoreVersion={onRestoreBucketVersion}
+            />
+          </Card>
+        </div>
+
         {/* Retirement Planning Section */}
         {selectedFunds.length >= 1 && (
           <div>
@@ -74,7 +122,16 @@ export function RetirementPlanPage({
               </p>
             </Card>
             <div className="mt-3 sm:mt-4">
-              <RetirePlanTab selectedFunds={selectedFunds} />
+              <RetirePlanTab
+                key={scenarioKey}
+                selectedFunds={selectedFunds}
+                savedConfig={activeBucket?.swpConfig ?? null}
+                savedConfigKey={activeBucket?.id}
+                onCalculated={onBucketCalculated}
+                swpMode={swpMode}
+                onSwpModeChange={onSelectSwpMode}
+                scenario={scenario}
+              />
             </div>
           </div>
         )}
@@ -0,0 +1,129 @@
+import React from 'react';
+import { Card } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { ShieldAlert } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from './ui/table';
+import type { BucketRiskMetrics } from '../utils/bucketPerformanceCalculator';
+import type { DrawdownInfo } from '../utils/riskMetrics';
+import { formatRatio } from '../utils/riskMetrics';
+
+interface RiskMetricsPanelProps {
+  metrics: BucketRiskMetrics | null;
+  riskFreeRate: number;
+  onRiskFreeRateChange: (rate: number) => void;
+  isLoading?: boolean;
+}
+
+const formatPercent = (value: number | null) =>
+  value === null || !isFinite(value) ? 'N/A' : `${value.toFixed(2)}%`;
+
+const formatDate = (dateStr: string) =>
+  new Date(dateStr).toLocaleDateString('en-IN', { month: 'short', year: 'numeric' });
+
+function describeRecovery(drawdown: DrawdownInfo | null): string {
+  if (!drawdown || drawdown.maxDrawdown === 0) return 'No drawdown';
+  if (!drawdown.recoveryDate) return `Not recovered (${drawdown.durationDays} days since peak)`;
+  return `Recovered ${formatDate(drawdown.recoveryDate)}, ${drawdown.durationDays} days peak to recovery`;
+}
+
+export function RiskMetricsPanel({ metrics, riskFreeRate, onRiskFreeRateChange, isLoading }: RiskMetricsPanelProps) {
+  const bucket = metrics?.bucket;
+  const tiles: Array<{ label: string; value: string; hint: string; background: string; color: string }> = bucket ? [
+    { label: 'Sharpe Ratio', value: formatRatio(bucket.sharpe), hint: 'Excess return per unit of volatility', background: 'bg-blue-50', color: 'text-blue-700' },
+    { label: 'Sortino Ratio', value: formatRatio(bucket.sortino), hint: 'Excess return per unit of downside risk', background: 'bg-indigo-50', color: 'text-indigo-700' },
+    { label: 'Beta', value: formatRatio(bucket.beta), hint: metrics?.benchmarkSlug ? 'vs Nifty 50 TRI' : 'Benchmark unavailable', background: 'bg-purple-50', color: 'text-purple-700' },
+    { label: 'Max Drawdown', value: bucket.maxDrawdown ? `-${bucket.maxDrawdown.maxDrawdown.toFixed(2)}%` : 'N/A', hint: describeRecovery(bucket.maxDrawdown), background: 'bg-red-50', color: 'text-red-700' },
+    { label: 'Calmar Ratio', value: formatRatio(bucket.calmar), hint: 'CAGR over max drawdown', background: 'bg-emerald-50', color: 'text-emerald-700' },
+    { label: 'Ulcer Index', value: formatRatio(bucket.ulcerIndex), hint: 'Depth and length of drawdowns', background: 'bg-amber-50', color: 'text-amber-700' },
+  ] : [];
+
+  return (
+    <Card className="p-4 sm:p-5 md:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3 mb-3 sm:mb-4">
+        <div>
+          <h3 className="text-base sm:text-lg font-semibold flex items-center gap-2">
+            <ShieldAlert className="h-4 w-4 sm:h-5 sm:w-5 text-blue-600 flex-shrink-0" />
+            <span>Risk-Adjusted Metrics</span>
+          </h3>
+          <p className="text-xs text-gray-600 mt-1">
+            From {bucket ? `${bucket.periods} ` : ''}monthly returns, assuming the bucket is bought once and held.
+          </p>
+        </div>
+        <div className="w-full sm:w-40">
+          <Label htmlFor="risk-free-rate" className="text-xs">Risk-free Rate (% p.a.)</Label>
+          <Input
+            id="risk-free-rate"
+            type="number"
+            value={riskFreeRate}
+            onChange={(e) => {
+              const rate = Number(e.target.value);
+              onRiskFreeRateChange(isFinite(rate) ? rate : 0);
+            }}
+            min="0"
+            max="15"
+            step="0.25"
+            className="mt-1"
+          />
+        </div>
+      </div>
+
+      {!bucket ? (
+        <p className="text-sm text-gray-500">{isLoading ? 'Calculating risk metrics...' : 'Not enough NAV history to calculate risk metrics.'}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 sm:gap-3 md:gap-4 mb-4">
+            {tiles.map((tile) => (
+              <div key={tile.label} className={`p-2 sm:p-3 md:p-4 rounded-lg ${tile.background}`}>
+                <p className="text-xs text-gray-600 mb-0.5 sm:mb-1">{tile.label}</p>
+                <p className={`text-base sm:text-lg md:text-xl font-bold ${tile.color}`}>{tile.value}</p>
+                <p className="text-[11px] text-gray-500 mt-0.5">{tile.hint}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="overflow-x-auto -mx-4 sm:-mx-5 md:-mx-6 px-4 sm:px-5 md:px-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Fund Name</TableHead>
+                  <TableHead>Sharpe</TableHead>
+                  <TableHead>Sortino</TableHead>
+                  <TableHead className="hidden sm:table-cell">Beta</TableHead>
+                  <TableHead>Max Drawdown</TableHead>
+                  <TableHead className="hidden md:table-cell">Recovery</TableHead>
+                  <TableHead className="hidden sm:table-cell">Calmar</TableHead>
+                  <TableHead className="hidden md:table-cell">Ulcer</TableHead>
+                  <TableHead className="hidden lg:table-cell">Volatility</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {metrics!.funds.map((fund) => (
+                  <TableRow key={fund.fundId}>
+                    <TableCell className="font-medium min-w-[140px] sm:min-w-[200px] text-xs sm:text-sm">
+                      <span className="block whitespace-normal break-words">{fund.fundName}</span>
+                    </TableCell>
+                    <TableCell className="text-xs sm:text-sm">{formatRatio(fund.sharpe)}</TableCell>
+                    <TableCell className="text-xs sm:text-sm">{formatRatio(fund.sortino)}</TableCell>
+                    <TableCell className="hidden sm:table-cell text-xs sm:text-sm">{formatRatio(fund.beta)}</TableCell>
+                    <TableCell className="text-xs sm:text-sm text-red-700">
+                      {fund.maxDrawdown ? `-${fund.maxDrawdown.maxDrawdown.toFixed(2)}%` : 'N/A'}
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell text-xs sm:text-sm">
+                      {fund.maxDrawdown
+                        ? fund.maxDrawdown.recoveryDays !== null ? `${fund.maxDrawdown.recoveryDays} days` : 'Not recovered'
+                        : 'N/A'}
+                    </TableCell>
+                    <TableCell className="hidden sm:table-cell text-xs sm:text-sm">{formatRatio(fund.calmar)}</TableCell>
+                    <TableCell className="hidden md:table-cell text-xs sm:text-sm">{formatRatio(fund.ulcerIndex)}</TableCell>
+                    <TableCell className="hidden lg:table-cell text-xs sm:text-sm">{formatPercent(fund.volatility)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,33 @@
+import React from 'react';
+import { useRouter } from '../contexts/RouterContext';
+
+interface RouterLinkProps extends React.AnchorHTMLAttributes<HTMLAnchorElement> {
+  href: string;
+}
+
+/**
+ * Anchor for an in-app path. Plain clicks navigate without reloading; modified
+ * clicks (new tab, new window) are left to the browser.
+ */
+export function RouterLink({ href, onClick, ...props }: RouterLinkProps) {
+  const { navigate } = useRouter();
+
+  const handleClick = (event: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(event);
+    if (
+      event.defaultPrevented ||
+      event.button !== 0 ||
+      event.metaKey ||
+      event.ctrlKey ||
+      event.shiftKey ||
+      event.altKey ||
+      props.target
+    ) {
+      return;
+    }
+    event.preventDefault();
+    navigate(href);
+  };
+
+  return <a href={href} onClick={handleClick} {...props} />;
+}
@@ -14,6 +14,8 @@ import {
   computeWeightedAverage,
 } from '../utils/portfolioStats';
 import { getToday } from '../utils/dateUtils';
+import { resolveExitLoad } from '../utils/exitLoad';
+import { MonteCarloSWPPanel, MonteCarloPlan } from './MonteCarloSWPPanel';
 import {
   Tooltip as UiTooltip,
   TooltipContent,
@@ -52,11 +54,13 @@ export function SafeWithdrawalCalculator({ funds, initialCorpus, onBacktest }: S
   const [portfolioCAGR, setPortfolioCAGR] = useState<number | null>(null);
   const [portfolioVolatility, setPortfolioVolatility] = useState<number | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [monteCarloPlan, setMonteCarloPlan] = useState<MonteCarloPlan | null>(null);
 
   const calculateSafeWithdrawal = async () => {
     setIsCalculating(true);
     setError(null);
     setSafeWithdrawal(null);
+    setMonteCarloPlan(null);
 
     try {
       if (corpus <= 0) {
@@ -114,6 +118,18 @@ export function SafeWithdrawalCalculator({ funds, initialCorpus, onBacktest }: S
         : null;
 
       setSafeWithdrawal(safeWithdrawalAmount);
+      if (safeWithdrawalAmount && safeWithdrawalAmount > 0) {
+        setMonteCarloPlan({
+          corpus,
+          withdrawalAmount: safeWithdrawalAmount,
+          withdrawalsPerYear: frequency === 'Monthly' ? 12 : 4,
+          targetWeights,
+          navSeriesByFund: navMap,
+          exitLoadByFund: Object.fromEntries(
+            funds.map(fund => [fund.id, resolveExitLoad(fund.exitLoad)])
+          ),
+        });
+      }
       setIsCalculating(false);
     } catch (err: any) {
       setError(err.message || 'Error calculating safe withdrawal');
@@ -327,6 +343,8 @@ export function SafeWithdrawalCalculator({ funds, initialCorpus, onBacktest }: S
               <TrendingUp className="h-5 w-5 mr-2" />
               Backtest with SWP Calculator
             </Button>
+
+            {monteCarloPlan && <MonteCarloSWPPanel plan={monteCarloPlan} />}
           </div>
         )}
       </div>
@@ -0,0 +1,239 @@
+import React, { useEffect, useState } from 'react';
+import { Card } from './ui/card';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Button } from './ui/button';
+import { Badge } from './ui/badge';
+import { CalendarRange, Loader2 } from 'lucide-react';
+import {
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import { fetchNAVData } from '../services/navService';
+import { getToday } from '../utils/dateUtils';
+import { runSequenceRiskBacktest } from '../utils/sequenceRisk';
+import type { SequenceRiskInput, SequenceRiskResult, SequenceRiskRun } from '../utils/sequenceRisk';
+
+export type SequenceRiskPlan = Omit<SequenceRiskInput, 'years' | 'navSeriesByFund'>;
+
+interface SequenceRiskPanelProps {
+  plan: SequenceRiskPlan;
+  historyStart: string; // earliest date worth fetching NAVs from, e.g. the latest fund launch
+  defaultYears?: number;
+}
+
+const formatCurrency = (amount: number): string => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 0,
+  }).format(amount);
+};
+
+const formatCompact = (value: number) => {
+  if (value >= 10000000) return `₹${(value / 10000000).toFixed(1)}Cr`;
+  if (value >= 100000) return `₹${(value / 100000).toFixed(1)}L`;
+  return `₹${(value / 1000).toFixed(0)}K`;
+};
+
+const formatMonth = (isoDate: string) =>
+  new Date(`${isoDate}T00:00:00`).toLocaleDateString('en-IN', { month: 'short', year: 'numeric' });
+
+function describeRun(run: SequenceRiskRun): string {
+  if (run.depletedOn) {
+    return `Ran out ${formatMonth(run.depletedOn)}, after ${(run.monthsLasted / 12).toFixed(1)} years`;
+  }
+  return `Ended with ${formatCurrency(run.endingValue)}`;
+}
+
+export function SequenceRiskPanel({ plan, historyStart, defaultYears = 10 }: SequenceRiskPanelProps) {
+  const [years, setYears] = useState<number>(defaultYears);
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<SequenceRiskResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // A different plan makes the previous outcome meaningless
+  useEffect(() => {
+    setResult(null);
+    setError(null);
+  }, [plan]);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setError(null);
+    setResult(null);
+    try {
+      const fundIds = Object.keys(plan.targetWeights).filter((id) => plan.targetWeights[id] > 0);
+      const navResponses = await fetchNAVData(fundIds, historyStart, getToday());
+      const navSeriesByFund: SequenceRiskInput['navSeriesByFund'] = {};
+      navResponses.forEach((response) => {
+        navSeriesByFund[response.schemeCode] = response.navData.map((entry) => ({
+          date: entry.date,
+          nav: Number(entry.nav),
+        }));
+      });
+
+      // Let the spinner paint before the synchronous backtest starts
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      setResult(runSequenceRiskBacktest({ ...plan, years, navSeriesByFund }));
+    } catch (err: any) {
+      setError(err.message || 'Failed to run the historical stress test');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const chartData = result?.runs.map((run) => ({
+    start: formatMonth(run.startDate),
+    endingValue: run.endingValue,
+    depleted: Boolean(run.depletedOn),
+  })) ?? [];
+
+  const depletionTone = !result
+    ? ''
+    : result.depletionFrequency === 0
+      ? 'text-green-700 border-green-300 bg-green-50'
+      : result.depletionFrequency <= 10
+        ? 'text-amber-700 border-amber-300 bg-amber-50'
+        : 'text-red-700 border-red-300 bg-red-50';
+
+  return (
+    <Card className="p-4 sm:p-6 border-2 border-slate-200">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <CalendarRange className="h-5 w-5 text-teal-600" />
+            Historical Start-Date Stress Test
+          </h3>
+          <p className="text-xs sm:text-sm text-slate-600 mt-1">
+            Starts the same plan on the 1st of every month in the funds' history and follows the NAVs that actually came next.
+          </p>
+        </div>
+        {result && (
+          <Badge variant="outline" className={`text-xs sm:text-sm w-fit ${depletionTone}`}>
+            {result.depletionFrequency.toFixed(1)}% of starts ran out
+          </Badge>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+        <div>
+          <Label htmlFor="sequence-years">Horizon (years)</Label>
+          <Input
+            id="sequence-years"
+            type="number"
+            min={1}
+            max={30}
+            value={years}
+            onChange={(e) => {
+              const value = Number(e.target.value) || 1;
+              setYears(value >= 1 && value <= 30 ? value : (value < 1 ? 1 : 30));
+            }}
+            className="mt-1"
+          />
+        </div>
+        <div className="flex items-end sm:col-span-2">
+          <Button onClick={handleRun} disabled={isRunning} className="w-full sm:w-auto">
+            {isRunning ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Running every start date...
+              </>
+            ) : (
+              'Run Stress Test'
+            )}
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg mb-4">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="p-3 bg-red-50 rounded-lg">
+              <p className="text-xs text-gray-600">Worst Start</p>
+              <p className="text-lg font-semibold text-red-700">{formatMonth(result.worst.startDate)}</p>
+              <p className="text-xs text-gray-500">{describeRun(result.worst)}</p>
+            </div>
+            <div className="p-3 bg-green-50 rounded-lg">
+              <p className="text-xs text-gray-600">Best Start</p>
+              <p className="text-lg font-semibold text-green-700">{formatMonth(result.best.startDate)}</p>
+              <p className="text-xs text-gray-500">{describeRun(result.best)}</p>
+            </div>
+            <div className="p-3 bg-amber-50 rounded-lg">
+              <p className="text-xs text-gray-600">Depletion Frequency</p>
+              <p className="text-lg font-semibold text-amber-700">{result.depletionFrequency.toFixed(1)}%</p>
+              <p className="text-xs text-gray-500">{result.depletedRuns} of {result.runs.length} start dates</p>
+            </div>
+            <div className="p-3 bg-blue-50 rounded-lg">
+              <p className="text-xs text-gray-600">Median Ending Corpus</p>
+              <p className="text-lg font-semibold text-blue-700">{formatCurrency(result.endingPercentiles.p50)}</p>
+              <p className="text-xs text-gray-500">
+                10th–90th: {formatCompact(result.endingPercentiles.p10)} – {formatCompact(result.endingPercentiles.p90)}
+              </p>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-slate-800 mb-2">Ending corpus by start month</h4>
+            <div className="w-full h-[260px] sm:h-[320px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                  <XAxis dataKey="start" tick={{ fontSize: 11 }} tickLine={false} minTickGap={24} />
+                  <YAxis tickFormatter={formatCompact} tick={{ fontSize: 12 }} tickLine={false} />
+                  <Tooltip
+                    formatter={(value: number) => [formatCurrency(value), 'Ending corpus']}
+                    contentStyle={{ backgroundColor: 'white', border: '1px solid #ccc', borderRadius: '8px' }}
+                  />
+                  <Bar dataKey="endingValue" name="Ending corpus">
+                    {chartData.map((entry) => (
+                      <Cell key={entry.start} fill={entry.depleted ? '#dc2626' : '#0d9488'} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-slate-800 mb-2">Ending corpus vs starting corpus</h4>
+            <div className="space-y-2">
+              {result.endingBands.map((band) => {
+                const share = (band.count / result.runs.length) * 100;
+                return (
+                  <div key={band.label} className="flex items-center gap-3 text-xs sm:text-sm">
+                    <span className="w-24 text-slate-600">{band.label}</span>
+                    <div className="flex-1 bg-gray-100 rounded-full h-2 overflow-hidden">
+                      <div
+                        className={`h-2 rounded-full ${band.label === 'Depleted' ? 'bg-red-500' : 'bg-teal-500'}`}
+                        style={{ width: `${share}%` }}
+                      />
+                    </div>
+                    <span className="w-20 text-right text-slate-700">{band.count} ({share.toFixed(0)}%)</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <p className="text-xs text-slate-500">
+            {result.runs.length} start dates from {formatMonth(result.firstStart)} to {formatMonth(result.lastStart)}, each
+            run for {result.years} years. Later months are left out because their full horizon has not happened yet.
+          </p>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,46 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu';
+import { Check, Link2 } from 'lucide-react';
+import type { CalculatorScenario } from '../types/scenario';
+import { scenarioUrl } from '../utils/scenarioLink';
+
+interface ShareScenarioButtonProps {
+  scenario: CalculatorScenario;
+  disabled?: boolean;
+}
+
+export function ShareScenarioButton({ scenario, disabled }: ShareScenarioButtonProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async (run: boolean) => {
+    const url = scenarioUrl({ ...scenario, run });
+    try {
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      window.prompt('Copy this link', url);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={disabled}>
+          {copied ? <Check className="h-4 w-4 mr-2" /> : <Link2 className="h-4 w-4 mr-2" />}
+          {copied ? 'Link copied' : 'Share'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={() => handleCopy(false)}>Copy link to inputs</DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleCopy(true)}>Copy link that runs the calculation</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -1,9 +1,11 @@
 import React, { useState, useEffect } from 'react';
-import { TrendingUp, Search, ArrowLeft, Loader2, Info, Filter, ChevronRight } from 'lucide-react';
+import { TrendingUp, Search, ArrowLeft, Loader2, Info, Filter, ChevronRight, Newspaper, ExternalLink } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card } from './ui/card';
 import { cn } from './ui/utils';
 import { TradingViewChart } from './TradingViewChart';
+import { RouterLink } from './RouterLink';
+import { fetchNews, formatRelativeTime, type NewsArticle } from '../services/newsService';
 import {
     DropdownMenu,
     DropdownMenuContent,
@@ -30,14 +32,19 @@ interface IndexData {
 }
 
 interface StockIndicesPageProps {
+    slug?: string; // index to open, from the /indices/:slug path
     onNavigate?: (page: any) => void;
+    onSelectIndex?: (slug: string) => void;
 }
 
 type ViewMode = 'list' | 'chart';
 
-export function StockIndicesPage({ onNavigate }: StockIndicesPageProps) {
+// Headlines shown under a stock's chart; the rest are on the news page
+const RELATED_NEWS_LIMIT = 5;
+
+export function StockIndicesPage({ slug, onNavigate, onSelectIndex }: StockIndicesPageProps) {
     const [indices, setIndices] = useState<IndexData[]>([]);
-    const [activeSlug, setActiveSlug] = useState<string>('');
+    const [activeSlug, setActiveSlug] = useState<string>(slug || '');
     const [activeIndexData, setActiveIndexData] = useState<IndexData | null>(null);
     const [loading, setLoading] = useState(true);
     const [indexLoading, setIndexLoading] = useState(false);
@@ -46,6 +53,8 @@ export function StockIndicesPage({ onNavigate }: StockIndicesPageProps) {
     // View state
     const [viewMode, setViewMode] = useState<ViewMode>('list');
     const [selectedStock, setSelectedStock] = useState<Constituent | null>(null);
+    const [relatedNews, setRelatedNews] = useState<NewsArticle[]>([]);
+    const [relatedNewsLoading, setRelatedNewsLoading] = useState(false);
     // Filter states
     const [selectedIndustry, setSelectedIndustry] = useState<string | null>(null);
     const [availableIndustries, setAvailableIndustries] = useState<string[]>([]);
@@ -102,6 +111,14 @@ export function StockIndicesPage({ onNavigate }: StockIndicesPageProps) {
         fetchIndices();
     }, [API_BASE_URL]);
 
+    // Follow the path, e.g. on back/forward
+    useEffect(() => {
+        if (slug && slug !== activeSlug) {
+            setActiveSlug(slug);
+            setViewMode('list');
+        }
+    }, [slug]);
+
     useEffect(() => {
         if (!activeSlug) return;
         const fetchIndexStocks = async () => {
@@ -133,6 +150,26 @@ export function StockIndicesPage({ onNavigate }: StockIndicesPageProps) {
         }
     }, [activeIndexData]);
 
+    // Headlines tagged with the selected stock
+    useEffect(() => {
+        if (!selectedStock) {
+            setRelatedNews([]);
+            return;
+        }
+        let cancelled = false;
+        setRelatedNewsLoading(true);
+        fetchNews({ symbol: selectedStock.symbol, limit: RELATED_NEWS_LIMIT })
+            .then((result) => {
+                if (!cancelled) setRelatedNews(result.data);
+            })
+            .finally(() => {
+                if (!cancelled) setRelatedNewsLoading(false);
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [selectedStock]);
+
     const handleViewChart = (stock: Constituent) => {
         setSelectedStock(stock);
         setViewMode('chart');
@@ -201,7 +238,8 @@ export function StockIndicesPage({ onNavigate }: StockIndicesPageProps) {
                                     <button
                                         key={idx.slug}
                                         onClick={() => {
-                                            setActiveSlug(idx.slug);
+                                            if (onSelectIndex) onSelectIndex(idx.slug);
+                                            else setActiveSlug(idx.slug);
                                             if (viewMode === 'chart') setViewMode('list');
                                         }}
                                         className={cn(
@@ -401,6 +439,58 @@ export function StockIndicesPage({ onNavigate }: StockIndicesPageProps) {
                                         theme="light"
                                     />
                                 </Card>
+
+                                {selectedStock && (
+                                    <Card className="p-6 border-slate-100 shadow-sm rounded-2xl">
+                                        <div className="flex items-center justify-between gap-4 mb-4">
+                                            <h3 className="text-sm font-bold text-slate-900 flex items-center gap-2">
+                                                <Newspaper className="w-4 h-4 text-blue-600" />
+                                                Related Headlines
+                                            </h3>
+                                            {relatedNews.length > 0 && (
+                                                <RouterLink
+                                                    href={`/news?symbol=${encodeURIComponent(selectedStock.symbol)}`}
+                                                    className="text-xs font-bold text-blue-600 hover:text-blue-700 hover:underline"
+                                                >
+                                                    All news on {selectedStock.symbol}
+                                                </RouterLink>
+                                            )}
+                                        </div>
+                                        {relatedNewsLoading ? (
+                                            <div className="flex items-center gap-2 text-sm text-slate-400 py-4">
+                                                <Loader2 className="w-4 h-4 animate-spin" />
+                                                Loading headlines...
+                                            </div>
+                                        ) : relatedNews.length > 0 ? (
+                                            <ul className="divide-y divide-slate-50">
+                                                {relatedNews.map((article) => (
+                                                    <li key={article._id}>
+                                                        <a
+                                                            href={article.link}
+                                                            target="_blank"
+                                                            rel="noopener noreferrer"
+                                                            className="group flex items-start justify-between gap-4 py-3"
+                                                        >
+                                                            <div className="min-w-0">
+                                                                <p className="text-sm font-medium text-slate-800 group-hover:text-blue-600 transition-colors line-clamp-2">
+                                                                    {article.story?.headline ?? article.title}
+                                                                </p>
+                                                                <p className="text-[11px] text-slate-400 mt-1">
+                                                                    {article.source} • {formatRelativeTime(article.publishedAt)}
+                                                                </p>
+                                                            </div>
+                                                            <ExternalLink className="w-4 h-4 text-slate-300 group-hover:text-blue-500 flex-shrink-0 mt-0.5" />
+                                                        </a>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        ) : (
+                                            <p className="text-sm text-slate-400 italic py-4">
+                                                No headlines mention {selectedStock.companyName} this week.
+                                            </p>
+                                        )}
+                                    </Card>
+                                )}
                             </div>
                         )}
                     </div>
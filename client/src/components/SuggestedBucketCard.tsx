@@ -4,6 +4,7 @@ import { Button } from './ui/button';
 import { Badge } from './ui/badge';
 import { TrendingUp, Download, BarChart3, Sparkles } from 'lucide-react';
 import type { SuggestedBucket } from '../types/suggestedBucket';
+import { formatRatio } from '../utils/riskMetrics';
 
 interface SuggestedBucketCardProps {
   bucket: SuggestedBucket;
@@ -118,6 +119,8 @@ export function SuggestedBucketCard({ bucket, onViewPerformance, onImportBucket
     calculatedReturns.returns
   ) : INVESTMENT_AMOUNT;
 
+  const riskMetrics = bucket.performance.riskMetrics?.bucket;
+
   const investmentWidth = calculatedReturns ? (calculatedReturns.investment / maxValue) * 100 : 0;
   const valueWidth = calculatedReturns ? (calculatedReturns.value / maxValue) * 100 : 0;
   const returnsWidth = calculatedReturns ? (calculatedReturns.returns / maxValue) * 100 : 0;
@@ -292,6 +295,26 @@ export function SuggestedBucketCard({ bucket, onViewPerformance, onImportBucket
           </div>
         </div>
 
+        {/* Risk-adjusted Metrics (stored with the bucket at its last recalculation) */}
+        {riskMetrics && (
+          <div className="mb-4 grid grid-cols-3 gap-2">
+            <div className="text-center p-2 bg-slate-50 rounded-lg border border-slate-100">
+              <p className="text-xs text-gray-600 mb-0.5">Sharpe</p>
+              <p className="text-sm font-bold text-slate-700">{formatRatio(riskMetrics.sharpe)}</p>
+            </div>
+            <div className="text-center p-2 bg-slate-50 rounded-lg border border-slate-100">
+              <p className="text-xs text-gray-600 mb-0.5">Sortino</p>
+              <p className="text-sm font-bold text-slate-700">{formatRatio(riskMetrics.sortino)}</p>
+            </div>
+            <div className="text-center p-2 bg-rose-50 rounded-lg border border-rose-100">
+              <p className="text-xs text-gray-600 mb-0.5">Max DD</p>
+              <p className="text-sm font-bold text-rose-700">
+                {riskMetrics.maxDrawdown ? `-${formatNumber(riskMetrics.maxDrawdown.maxDrawdown)}%` : 'N/A'}
+              </p>
+            </div>
+          </div>
+        )}
+
         {/* Funds Preview */}
         <div className="mb-4 flex-1">
           <p className="text-xs font-semibold text-gray-700 mb-2">Portfolio Composition</p>
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Label } from './ui/label';
+import { Input } from './ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import type { IndexationType, WithdrawalIndexation } from '../utils/inflation';
+import { DEFAULT_INFLATION_RATE, cpiAnnualRate, parseCpiCsv } from '../utils/inflation';
+
+interface WithdrawalIndexationControlsProps {
+  value: WithdrawalIndexation;
+  onChange: (indexation: WithdrawalIndexation) => void;
+  idPrefix?: string;
+}
+
+export function WithdrawalIndexationControls({ value, onChange, idPrefix = 'swp' }: WithdrawalIndexationControlsProps) {
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const handleTypeChange = (type: IndexationType) => {
+    setUploadError(null);
+    if (type === 'FIXED_RATE') {
+      onChange({ type, annualRate: DEFAULT_INFLATION_RATE });
+    } else if (type === 'CPI') {
+      onChange({ type, series: [] });
+    } else {
+      onChange({ type: 'NONE' });
+    }
+  };
+
+  const handleCpiUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      onChange({ type: 'CPI', series: parseCpiCsv(await file.text()) });
+      setUploadError(null);
+    } catch (err: any) {
+      setUploadError(err.message || 'Could not read the CPI file');
+    }
+  };
+
+  const cpiRate = value.type === 'CPI' ? cpiAnnualRate(value.series) : null;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <Label htmlFor={`${idPrefix}-indexation`}>Inflation Indexation</Label>
+        <Select value={value.type} onValueChange={handleTypeChange}>
+          <SelectTrigger id={`${idPrefix}-indexation`} className="mt-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="NONE">None (flat withdrawals)</SelectItem>
+            <SelectItem value="FIXED_RATE">Fixed yearly rate</SelectItem>
+            <SelectItem value="CPI">CPI series (upload)</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-slate-500 mt-1">
+          Withdrawals step up on each anniversary of the first withdrawal.
+        </p>
+      </div>
+
+      {value.type === 'FIXED_RATE' && (
+        <div>
+          <Label htmlFor={`${idPrefix}-inflation-rate`}>Inflation Rate (% p.a.)</Label>
+          <Input
+            id={`${idPrefix}-inflation-rate`}
+            type="number"
+            min={0}
+            max={20}
+            step={0.5}
+            value={value.annualRate}
+            onChange={(event) => {
+              const rate = Number(event.target.value) || 0;
+              onChange({ type: 'FIXED_RATE', annualRate: rate >= 0 && rate <= 20 ? rate : (rate < 0 ? 0 : 20) });
+            }}
+            className="mt-1"
+          />
+        </div>
+      )}
+
+      {value.type === 'CPI' && (
+        <div>
+          <Label htmlFor={`${idPrefix}-cpi-file`}>CPI File (CSV: date,index)</Label>
+          <Input
+            id={`${idPrefix}-cpi-file`}
+            type="file"
+            accept=".csv,.txt"
+            onChange={handleCpiUpload}
+            className="mt-1"
+          />
+          {uploadError ? (
+            <p className="text-xs text-red-600 mt-1">{uploadError}</p>
+          ) : value.series.length > 0 ? (
+            <p className="text-xs text-slate-500 mt-1">
+              {value.series.length} points from {value.series[0].date} to {value.series[value.series.length - 1].date}
+              {cpiRate !== null && `, averaging ${cpiRate.toFixed(2)}% a year`}
+            </p>
+          ) : (
+            <p className="text-xs text-slate-500 mt-1">Monthly or yearly index levels, e.g. 2015-01,100.0</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import React from 'react';
+import { Label } from './ui/label';
+import { Input } from './ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import type { WithdrawalPolicy, WithdrawalPolicyType } from '../utils/withdrawalPolicy';
+import {
+  DEFAULT_FLOOR_CEILING,
+  DEFAULT_GUYTON_KLINGER,
+  WITHDRAWAL_POLICY_LABELS,
+} from '../utils/withdrawalPolicy';
+
+interface WithdrawalPolicyControlsProps {
+  value: WithdrawalPolicy;
+  onChange: (policy: WithdrawalPolicy) => void;
+}
+
+const POLICY_HINTS: Record<WithdrawalPolicyType, string> = {
+  FIXED: 'Withdraw the planned amount every period, whatever the market does.',
+  PERCENT_OF_PORTFOLIO: 'Withdraw the starting withdrawal rate of whatever the portfolio is worth each year.',
+  GUYTON_KLINGER: 'Raise for inflation each year, cut when the withdrawal rate drifts too high and raise when it drifts low.',
+  FLOOR_CEILING: 'Follow the portfolio, but never below the floor or above the ceiling of the planned amount.',
+};
+
+const clampPercent = (raw: string, max: number) => {
+  const value = Number(raw) || 0;
+  return value < 0 ? 0 : value > max ? max : value;
+};
+
+export function WithdrawalPolicyControls({ value, onChange }: WithdrawalPolicyControlsProps) {
+  const handleTypeChange = (type: WithdrawalPolicyType) => {
+    if (type === 'GUYTON_KLINGER') {
+      onChange({ ...DEFAULT_GUYTON_KLINGER });
+    } else if (type === 'FLOOR_CEILING') {
+      onChange({ ...DEFAULT_FLOOR_CEILING });
+    } else {
+      onChange({ type });
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <Label htmlFor="withdrawal-policy">Withdrawal Amount Policy</Label>
+        <Select value={value.type} onValueChange={handleTypeChange}>
+          <SelectTrigger id="withdrawal-policy" className="mt-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(WITHDRAWAL_POLICY_LABELS) as WithdrawalPolicyType[]).map((type) => (
+              <SelectItem key={type} value={type}>
+                {WITHDRAWAL_POLICY_LABELS[type]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-slate-500 mt-1">{POLICY_HINTS[value.type]}</p>
+      </div>
+
+      {value.type === 'GUYTON_KLINGER' && (
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <Label htmlFor="gk-upper" className="text-xs">Cut above (+%)</Label>
+            <Input
+              id="gk-upper"
+              type="number"
+              min={0}
+              max={100}
+              value={value.upperGuardrail}
+              onChange={(e) => onChange({ ...value, upperGuardrail: clampPercent(e.target.value, 100) })}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="gk-lower" className="text-xs">Raise below (−%)</Label>
+            <Input
+              id="gk-lower"
+              type="number"
+              min={0}
+              max={100}
+              value={value.lowerGuardrail}
+              onChange={(e) => onChange({ ...value, lowerGuardrail: clampPercent(e.target.value, 100) })}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="gk-adjustment" className="text-xs">Adjust by (%)</Label>
+            <Input
+              id="gk-adjustment"
+              type="number"
+              min={0}
+              max={50}
+              value={value.adjustment}
+              onChange={(e) => onChange({ ...value, adjustment: clampPercent(e.target.value, 50) })}
+              className="mt-1"
+            />
+          </div>
+        </div>
+      )}
+
+      {value.type === 'FLOOR_CEILING' && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label htmlFor="floor-percent" className="text-xs">Floor (% of planned)</Label>
+            <Input
+              id="floor-percent"
+              type="number"
+              min={0}
+              max={100}
+              value={value.floorPercent}
+              onChange={(e) => onChange({ ...value, floorPercent: clampPercent(e.target.value, 100) })}
+              className="mt-1"
+            />
+          </div>
+          <div>
+            <Label htmlFor="ceiling-percent" className="text-xs">Ceiling (% of planned)</Label>
+            <Input
+              id="ceiling-percent"
+              type="number"
+              min={100}
+              max={500}
+              value={value.ceilingPercent}
+              onChange={(e) => onChange({ ...value, ceilingPercent: clampPercent(e.target.value, 500) })}
+              className="mt-1"
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,14 +11,26 @@ import type { SelectedFund } from '../../App';
 import { fetchNAVData } from '../../services/navService';
 import { RollingReturnsAnalysis } from '../RollingReturnsAnalysis';
 import { BucketPerformanceMetrics } from '../../utils/bucketPerformanceCalculator';
-import { getNextAvailableNAV, getLatestNAVBeforeDate, getToday } from '../../utils/dateUtils';
+import { getNextAvailableNAV, getLatestNAVBeforeDate, getToday, addMonths } from '../../utils/dateUtils';
 import { calculateCAGR as calcCAGR } from '../../utils/financialCalculations';
 import { logger } from '../../utils/logger';
 import { generateLumpsumReport } from '../../utils/pdfGenerator';
 import { calculateBucketPerformance } from '../../utils/bucketPerformanceCalculator';
+import { calculateExitLoad, resolveExitLoad } from '../../utils/exitLoad';
+import { compareRebalancing, RebalanceComparison, RebalanceConfig, DEFAULT_REBALANCE_THRESHOLD } from '../../utils/rebalancing';
+import { RebalancingControls } from '../RebalancingControls';
+import { RebalancingComparison } from '../RebalancingComparison';
+import { BenchmarkSelector } from '../BenchmarkSelector';
+import { BenchmarkSummary } from '../BenchmarkSummary';
+import { fetchBenchmarkHistory } from '../../services/benchmarkService';
+import { compareWithBenchmark, benchmarkValueSeries, BenchmarkComparison, DEFAULT_BENCHMARK_SLUG } from '../../utils/benchmark';
+import { ShareScenarioButton } from '../ShareScenarioButton';
+import { scenarioFunds } from '../../utils/scenarioLink';
+import type { LumpsumScenarioInputs, SharedCalculatorInputs } from '../../types/scenario';
 
 interface LumpsumCalculatorProps {
   funds: SelectedFund[];
+  shared?: SharedCalculatorInputs<LumpsumScenarioInputs>; // restored from a scenario link
 }
 
 interface FundPerformance {
@@ -29,6 +41,7 @@ interface FundPerformance {
   startNAV: number;
   endNAV: number;
   currentValue: number;
+  exitLoad: number;
   profitLoss: number;
   percentReturns: number;
   cagr: number;
@@ -37,38 +50,48 @@ interface FundPerformance {
 interface BucketPerformance {
   totalInvestment: number;
   currentValue: number;
+  exitLoad: number;
+  redemptionValue: number;
   absoluteProfit: number;
   absoluteProfitPercent: number;
   cagr: number;
   years: number;
 }
 
-export function LumpsumCalculator({ funds }: LumpsumCalculatorProps) {
-  const [investmentAmount, setInvestmentAmount] = useState<number>(100000);
-  const [startDate, setStartDate] = useState<string>('2020-01-01');
-  const [endDate, setEndDate] = useState<string>(getToday());
+export function LumpsumCalculator({ funds, shared }: LumpsumCalculatorProps) {
+  const initial = shared?.inputs ?? {};
+  const [investmentAmount, setInvestmentAmount] = useState<number>(initial.investmentAmount ?? 100000);
+  const [startDate, setStartDate] = useState<string>(initial.startDate ?? '2020-01-01');
+  const [endDate, setEndDate] = useState<string>(initial.endDate ?? getToday());
   const [minAvailableDate, setMinAvailableDate] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isDownloading, setIsDownloading] = useState<boolean>(false);
   const [rollingReturnsMetrics, setRollingReturnsMetrics] = useState<BucketPerformanceMetrics | undefined>(undefined);
   const [error, setError] = useState<string | null>(null);
+  const [benchmarkSlug, setBenchmarkSlug] = useState<string>(initial.benchmarkSlug ?? DEFAULT_BENCHMARK_SLUG);
+  const [rebalanceConfig, setRebalanceConfig] = useState<RebalanceConfig>(initial.rebalanceConfig ?? { policy: 'NONE', thresholdPercent: DEFAULT_REBALANCE_THRESHOLD });
   const [result, setResult] = useState<{
     bucketPerformance: BucketPerformance;
     fundPerformances: FundPerformance[];
+    rebalancing: RebalanceComparison | null;
+    benchmark: BenchmarkComparison | null;
+    benchmarkSeries: Array<{ date: string; portfolio: number; benchmark: number | null }>;
   } | null>(null);
 
   // Reset result when inputs change
   useEffect(() => {
     setResult(null);
-  }, [funds, investmentAmount, startDate, endDate]);
+  }, [funds, investmentAmount, startDate, endDate, rebalanceConfig, benchmarkSlug]);
 
   // Update minAvailableDate when funds change
   useEffect(() => {
-    if (funds.length > 0) {
-      const latestLaunchDate = funds.reduce((latest, fund) => {
-        const fundLaunchDate = new Date(fund.launchDate);
-        return fundLaunchDate > latest ? fundLaunchDate : latest;
-      }, new Date(funds[0].launchDate));
+    // Funds restored from a scenario link may not have a launch date
+    const launchDates = funds
+      .map(fund => new Date(fund.launchDate))
+      .filter(date => !isNaN(date.getTime()));
+
+    if (launchDates.length > 0) {
+      const latestLaunchDate = new Date(Math.max(...launchDates.map(d => d.getTime())));
 
       const minDate = latestLaunchDate.toISOString().split('T')[0];
       setMinAvailableDate(minDate);
@@ -81,6 +104,10 @@ export function LumpsumCalculator({ funds }: LumpsumCalculatorProps) {
     }
   }, [funds]);
 
+  useEffect(() => {
+    if (shared?.autoRun) calculateLumpsum();
+  }, []);
+
   const calculateLumpsum = async () => {
     // Prevent multiple simultaneous calculations
     if (isLoading) {
@@ -119,6 +146,7 @@ export function LumpsumCalculator({ funds }: LumpsumCalculatorProps) {
       // Calculate lumpsum for each fund
       const fundPerformances: FundPerformance[] = [];
       let totalBucketValue = 0;
+      let totalExitLoad = 0;
 
       for (const fund of funds) {
         const navResponse = navResponses.find(nav => nav.schemeCode === fund.id);
@@ -153,12 +181,21 @@ export function LumpsumCalculator({ funds }: LumpsumCalculatorProps) {
         // V_i = U_i × NAV_{i,end}
         const currentValue = unitsPurchased * endNAV;
 
-        const profitLoss = currentValue - fundInvestment;
+        // Exit load if redeemed on the end date while still inside the load window
+        const exitLoad = calculateExitLoad(
+          [{ date: startNavEntry.date, units: unitsPurchased }],
+          endNAV,
+          endDate,
+          resolveExitLoad(fund.exitLoad)
+        );
+        const redemptionValue = currentValue - exitLoad;
+
+        const profitLoss = redemptionValue - fundInvestment;
         const percentReturns = fundInvestment > 0 ? (profitLoss / fundInvestment) * 100 : 0;
 
         // Step 6: Annualized Return (CAGR)
         // CAGR = ((V_total/P)^(1/n)) - 1
-        const cagr = calcCAGR(fundInvestment, currentValue, years);
+        const cagr = calcCAGR(fundInvestment, redemptionValue, years);
 
         fundPerformances.push({
           fundId: fund.id,
@@ -168,22 +205,27 @@ export function LumpsumCalculator({ funds }: LumpsumCalculatorProps) {
           startNAV,
           endNAV,
           currentValue,
+          exitLoad,
           profitLoss,
           percentReturns,
           cagr
         });
 
         totalBucketValue += currentValue;
+        totalExitLoad += exitLoad;
       }
 
       // Calculate bucket performance
-      const absoluteProfit = totalBucketValue - investmentAmount;
+      const bucketRedemptionValue = totalBucketValue - totalExitLoad;
+      const absoluteProfit = bucketRedemptionValue - investmentAmount;
       const absoluteProfitPercent = (absoluteProfit / investmentAmount) * 100;
-      const bucketCAGR = calcCAGR(investmentAmount, totalBucketValue, years);
+      const bucketCAGR = calcCAGR(investmentAmount, bucketRedemptionValue, years);
 
       const bucketPerformance: BucketPerformance = {
         totalInvestment: investmentAmount,
         currentValue: totalBucketValue,
+        exitLoad: totalExitLoad,
+        redemptionValue: bucketRedemptionValue,
         absoluteProfit,
         absoluteProfitPercent,
         cagr: bucketCAGR,
@@ -197,9 +239,68 @@ export function LumpsumCalculator({ funds }: LumpsumCalculatorProps) {
         cagr: bucketCAGR.toFixed(2) + '%'
       });
 
+      // Same lumpsum replayed with periodic rebalancing, alongside buy-and-hold
+      const rebalancing = rebalanceConfig.policy !== 'NONE'
+        ? compareRebalancing({
+          startDate,
+          endDate,
+          targetWeights: Object.fromEntries(funds.map(fund => [fund.id, fund.weightage])),
+          navSeriesByFund: Object.fromEntries(navResponses.map(nav => [nav.schemeCode, nav.navData])),
+          contributions: [{ date: startDate, amount: investmentAmount }],
+          config: rebalanceConfig
+        })
+        : null;
+
+      // Same lumpsum invested in the selected index, compared on month-by-month values
+      let benchmark: BenchmarkComparison | null = null;
+      let benchmarkSeries: Array<{ date: string; portfolio: number; benchmark: number | null }> = [];
+      if (benchmarkSlug !== 'none') {
+        try {
+          const history = await fetchBenchmarkHistory(benchmarkSlug, startDate, endDate);
+          const benchmarkCashflows = [{ date: startDate, amount: investmentAmount }];
+
+          const monthlyDates: string[] = [];
+          for (let date = startDate; date <= endDate; date = addMonths(date, 1)) {
+            monthlyDates.push(date);
+          }
+          if (monthlyDates[monthlyDates.length - 1] !== endDate) monthlyDates.push(endDate);
+
+          const portfolioSeries = monthlyDates.map((date, index) => ({
+            date,
+            value: fundPerformances.reduce((sum, perf) => {
+              const navResponse = navResponses.find(nav => nav.schemeCode === perf.fundId);
+              const navEntry = navResponse ? getLatestNAVBeforeDate(navResponse.navData, date) : null;
+              return sum + perf.unitsPurchased * (navEntry?.nav ?? perf.startNAV);
+            }, 0),
+            flow: index === 0 ? investmentAmount : 0
+          }));
+
+          benchmark = compareWithBenchmark({
+            benchmark: history,
+            cashflows: benchmarkCashflows,
+            endDate,
+            portfolioXirr: bucketCAGR,
+            portfolioSeries
+          });
+
+          const benchmarkValues = benchmarkValueSeries(history.history, benchmarkCashflows, monthlyDates);
+          benchmarkSeries = portfolioSeries.map((point, index) => ({
+            date: point.date,
+            portfolio: point.value,
+            benchmark: benchmarkValues[index]
+          }));
+        } catch (benchmarkError) {
+          // The lumpsum result is still useful without the index comparison
+          logger.warn('[Lumpsum] Benchmark comparison failed:', benchmarkError);
+        }
+      }
+
       setResult({
         bucketPerformance,
-        fundPerformances
+        fundPerformances,
+        rebalancing,
+        benchmark,
+        benchmarkSeries
       });
 
       setIsLoading(false);
@@ -306,15 +407,30 @@ export function LumpsumCalculator({ funds }: LumpsumCalculatorProps) {
                 <p className="text-xs text-red-600 mt-1">End date must be after start date</p>
               )}
             </div>
+
+            <BenchmarkSelector value={benchmarkSlug} onChange={setBenchmarkSlug} />
           </div>
 
-          <Button
-            onClick={calculateLumpsum}
-            disabled={isLoading || funds.length === 0}
-            className="w-full bg-black hover:bg-gray-800 text-white"
-          >
-            {isLoading ? 'Calculating...' : 'Calculate'}
-          </Button>
+          <RebalancingControls value={rebalanceConfig} onChange={setRebalanceConfig} />
+
+          <div className="flex gap-2">
+            <Button
+              onClick={calculateLumpsum}
+              disabled={isLoading || funds.length === 0}
+              className="flex-1 bg-black hover:bg-gray-800 text-white"
+            >
+              {isLoading ? 'Calculating...' : 'Calculate'}
+            </Button>
+            <ShareScenarioButton
+              disabled={funds.length === 0}
+              scenario={{
+                page: 'investment-plan',
+                calculator: 'Lumpsum',
+                funds: scenarioFunds(funds),
+                inputs: { investmentAmount, startDate, endDate, benchmarkSlug, rebalanceConfig },
+              }}
+            />
+          </div>
 
           {/* Loading State */}
           {isLoading && (
@@ -394,7 +510,11 @@ export function LumpsumCalculator({ funds }: LumpsumCalculatorProps) {
                   <div className="text-lg sm:text-2xl font-bold text-slate-900">
                     ₹{result.bucketPerformance.currentValue.toLocaleString('en-IN', { maximumFractionDigits: 0 })}
                   </div>
-                  <div className="text-xs text-indigo-600 mt-2">Portfolio worth</div>
+                  <div className="text-xs text-indigo-600 mt-2">
+                    {result.bucketPerformance.exitLoad > 0
+                      ? `Exit load ₹${result.bucketPerformance.exitLoad.toLocaleString('en-IN', { maximumFractionDigits: 0 })} · Redeemable ₹${result.bucketPerformance.redemptionValue.toLocaleString('en-IN', { maximumFractionDigits: 0 })}`
+                      : 'Portfolio worth'}
+                  </div>
                 </Card>
 
                 <Card className={`p-3 sm:p-5 border-2 shadow-lg hover:shadow-xl transition-shadow ${result.bucketPerformance.absoluteProfit >= 0 ? 'bg-gradient-to-br from-green-50 to-emerald-100 border-green-200' : 'bg-gradient-to-br from-red-50 to-rose-100 border-red-200'}`}>
@@ -444,6 +564,7 @@ export function LumpsumCalculator({ funds }: LumpsumCalculatorProps) {
                           <TableHead className="text-slate-700 text-right text-xs sm:text-sm">Start NAV</TableHead>
                           <TableHead className="text-slate-700 text-right text-xs sm:text-sm">End NAV</TableHead>
                           <TableHead className="text-slate-700 text-right text-xs sm:text-sm">Current Value</TableHead>
+                          <TableHead className="text-slate-700 text-right text-xs sm:text-sm">Exit Load</TableHead>
                           <TableHead className="text-slate-700 text-right text-xs sm:text-sm">Profit/Loss</TableHead>
                           <TableHead className="text-slate-700 text-right text-xs sm:text-sm">Returns %</TableHead>
                           <TableHead className="text-slate-700 text-right text-xs sm:text-sm">CAGR</TableHead>
@@ -476,6 +597,9 @@ export function LumpsumCalculator({ funds }: LumpsumCalculatorProps) {
                             <TableCell className="text-right text-slate-900">
                               ₹{perf.currentValue.toLocaleString('en-IN', { maximumFractionDigits: 0 })}
                             </TableCell>
+                            <TableCell className="text-right text-slate-600">
+                              ₹{perf.exitLoad.toLocaleString('en-IN', { maximumFractionDigits: 0 })}
+                            </TableCell>
                             <TableCell className={`text-right ${perf.profitLoss >= 0 ? 'text-green-700' : 'text-red-700'}`}>
                               {perf.profitLoss >= 0 ? '+' : ''}₹{perf.profitLoss.toLocaleString('en-IN', { maximumFractionDigits: 0 })}
                             </TableCell>
@@ -505,6 +629,9 @@ export function LumpsumCalculator({ funds }: LumpsumCalculatorProps) {
                           <TableCell className="text-right text-slate-900">
                             ₹{result.bucketPerformance.currentValue.toLocaleString('en-IN', { maximumFractionDigits: 0 })}
                           </TableCell>
+                          <TableCell className="text-right text-slate-600">
+                            ₹{result.bucketPerformance.exitLoad.toLocaleString('en-IN', { maximumFractionDigits: 0 })}
+                          </TableCell>
                           <TableCell className={`text-right ${result.bucketPerformance.absoluteProfit >= 0 ? 'text-green-700' : 'text-red-700'}`}>
                             {result.bucketPerformance.absoluteProfit >= 0 ? '+' : ''}₹{result.bucketPerformance.absoluteProfit.toLocaleString('en-IN', { maximumFractionDigits: 0 })}
                           </TableCell>
@@ -585,6 +712,19 @@ export function LumpsumCalculator({ funds }: LumpsumCalculatorProps) {
                   </div>
                 </div>
               </Card>
+
+              {result.benchmark && (
+                <BenchmarkSummary
+                  comparison={result.benchmark}
+                  portfolioValue={result.bucketPerformance.redemptionValue}
+                  portfolioReturn={result.bucketPerformance.cagr}
+                  series={result.benchmarkSeries}
+                />
+              )}
+
+              {result.rebalancing && (
+                <RebalancingComparison comparison={result.rebalancing} config={rebalanceConfig} funds={funds} />
+              )}
             </div>
           )}
 
@@ -14,15 +14,37 @@ import { fetchNAVData } from '../../services/navService';
 import { calculateXIRR } from '../../utils/financialCalculations';
 import { getNextAvailableNAV, getLatestNAVBeforeDate, addMonths, getToday } from '../../utils/dateUtils';
 import { logger } from '../../utils/logger';
+import {
+  addMonthsToDate,
+  calculateRollingStatistics,
+  lumpsumRollingReturns,
+  RollingPeriod,
+  RollingReturn
+} from '../../utils/rollingReturns';
+import { BenchmarkSelector } from '../BenchmarkSelector';
+import { fetchBenchmarkHistory } from '../../services/benchmarkService';
+import {
+  benchmarkLumpsumReturn,
+  benchmarkCashflowReturn,
+  BenchmarkHistory,
+  DEFAULT_BENCHMARK_SLUG
+} from '../../utils/benchmark';
 
 interface RollingCalculatorProps {
   funds: SelectedFund[];
 }
 
-interface RollingReturn {
-  startDate: string;
-  endDate: string;
-  xirr: number;
+interface BenchmarkRollingData {
+  name: string;
+  mean: number;
+  median: number;
+  max: number;
+  min: number;
+  stdDev: number;
+  positivePercentage: number;
+  alpha: number; // mean of bucket minus benchmark across windows
+  trackingError: number; // std deviation of bucket minus benchmark across windows
+  beatPercentage: number; // windows where the bucket beat the benchmark
 }
 
 interface FundRollingData {
@@ -47,36 +69,6 @@ interface BucketRollingData {
   positivePercentage: number;
 }
 
-// Helper to add months to a Date object and return a new Date
-const addMonthsToDate = (date: Date, months: number): Date => {
-  const result = new Date(date);
-  result.setMonth(result.getMonth() + months);
-  return result;
-};
-
-// Calculate statistics
-const calculateStatistics = (returns: number[]) => {
-  if (returns.length === 0) {
-    return { mean: 0, median: 0, max: 0, min: 0, stdDev: 0, positivePercentage: 0 };
-  }
-  
-  const sorted = [...returns].sort((a, b) => a - b);
-  const mean = returns.reduce((sum, val) => sum + val, 0) / returns.length;
-  const median = sorted.length % 2 === 0
-    ? (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2
-    : sorted[Math.floor(sorted.length / 2)];
-  const max = Math.max(...returns);
-  const min = Math.min(...returns);
-  
-  const variance = returns.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / returns.length;
-  const stdDev = Math.sqrt(variance);
-  
-  const positiveCount = returns.filter(r => r > 0).length;
-  const positivePercentage = (positiveCount / returns.length) * 100;
-  
-  return { mean, median, max, min, stdDev, positivePercentage };
-};
-
 export function RollingCalculator({ funds }: RollingCalculatorProps) {
   const [monthlyInvestment, setMonthlyInvestment] = useState<number>(10000);
   const [startDate, setStartDate] = useState<string>('2020-01-01');
@@ -86,12 +78,14 @@ export function RollingCalculator({ funds }: RollingCalculatorProps) {
   const [investmentStrategy, setInvestmentStrategy] = useState<string>('lumpsum'); // 'lumpsum' or 'sip'
   const [rollingPeriod, setRollingPeriod] = useState<string>('daily'); // 'daily' or 'monthly'
   const [selectedFundView, setSelectedFundView] = useState<string>('bucket');
+  const [benchmarkSlug, setBenchmarkSlug] = useState<string>(DEFAULT_BENCHMARK_SLUG);
   const [minAvailableDate, setMinAvailableDate] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<{
     bucketData: BucketRollingData;
     fundData: FundRollingData[];
+    benchmarkData: BenchmarkRollingData | null;
   } | null>(null);
 
   // Update minAvailableDate when funds change
@@ -113,6 +107,56 @@ export function RollingCalculator({ funds }: RollingCalculatorProps) {
     }
   }, [funds]);
 
+  // Attaches the benchmark's return for each window and summarises bucket vs benchmark.
+  // Failures are logged and leave the rolling results without a benchmark.
+  const addBenchmarkReturns = async (
+    bucketReturns: RollingReturn[],
+    fundData: FundRollingData[],
+    fromDate: string
+  ): Promise<BenchmarkRollingData | null> => {
+    if (benchmarkSlug === 'none' || bucketReturns.length === 0) return null;
+
+    let benchmark: BenchmarkHistory;
+    try {
+      benchmark = await fetchBenchmarkHistory(benchmarkSlug, fromDate, endDate);
+    } catch (err) {
+      logger.warn('[Rolling] Benchmark history unavailable:', err);
+      return null;
+    }
+
+    const windowReturn = (r: RollingReturn): number | null => {
+      if (investmentStrategy === 'lumpsum') {
+        return benchmarkLumpsumReturn(benchmark.history, r.startDate, r.endDate);
+      }
+      const cashflows: Array<{ date: string; amount: number }> = [];
+      for (let date = r.startDate; date < r.endDate; date = addMonths(date, 1)) {
+        cashflows.push({ date, amount: monthlyInvestment });
+      }
+      return benchmarkCashflowReturn(benchmark.history, cashflows, r.endDate);
+    };
+
+    [bucketReturns, ...fundData.map(f => f.rollingReturns)].forEach(returns => {
+      returns.forEach(r => {
+        const value = windowReturn(r);
+        if (value !== null && isFinite(value)) r.benchmark = value;
+      });
+    });
+
+    const paired = bucketReturns.filter(r => r.benchmark !== undefined);
+    if (paired.length === 0) return null;
+
+    const differences = paired.map(r => r.xirr - (r.benchmark as number));
+    const differenceStats = calculateRollingStatistics(differences);
+
+    return {
+      name: benchmark.name,
+      ...calculateRollingStatistics(paired.map(r => r.benchmark as number)),
+      alpha: differenceStats.mean,
+      trackingError: differenceStats.stdDev,
+      beatPercentage: (differences.filter(d => d > 0).length / differences.length) * 100
+    };
+  };
+
   const calculateRolling = async () => {
     // Prevent multiple simultaneous calculations
     if (isLoading) {
@@ -164,53 +208,12 @@ export function RollingCalculator({ funds }: RollingCalculatorProps) {
         const navResponse = navResponses.find(nav => nav.schemeCode === fund.id);
         if (!navResponse) return;
         
-        const fundInvestment = initialInvestment * (fund.weightage / 100);
-        const rollingReturns: RollingReturn[] = [];
         const navData = navResponse.navData.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-      
-        // Iterate through NAV dates based on rolling period
-        for (let i = 0; i < navData.length; i++) {
-          const startNavEntry = navData[i];
-          const startDate = new Date(startNavEntry.date);
-          
-          // Calculate window end date
-          const windowEnd = addMonthsToDate(startDate, windowMonths);
-          
-          // Stop if window end exceeds our end date
-          if (windowEnd > end) break;
-          
-          // Find closest NAV at window end
-          const endNavEntry = getLatestNAVBeforeDate(navData, windowEnd.toISOString().split('T')[0]);
-          
-          if (endNavEntry && endNavEntry.nav > 0 && startNavEntry.nav > 0) {
-            // Calculate annualized return
-            const units = fundInvestment / startNavEntry.nav;
-            const finalValue = units * endNavEntry.nav;
-            const daysDiff = (new Date(endNavEntry.date).getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24);
-            const annualizedReturn = daysDiff > 0 ? (Math.pow(finalValue / fundInvestment, 365 / daysDiff) - 1) * 100 : 0;
-            
-            rollingReturns.push({
-              startDate: startNavEntry.date,
-              endDate: endNavEntry.date,
-              xirr: annualizedReturn
-            });
-          }
-          
-          // Move to next date based on rolling period
-          if (rollingPeriod === 'monthly') {
-            // Skip to next month's data
-            const nextMonth = addMonthsToDate(startDate, 1);
-            while (i < navData.length - 1 && new Date(navData[i].date) < nextMonth) {
-              i++;
-            }
-            i--; // Adjust for loop increment
-          }
-          // For daily, natural loop increment moves to next available NAV date
-        }
+        const rollingReturns = lumpsumRollingReturns(navData, windowMonths, end, rollingPeriod as RollingPeriod);
       
         // Calculate statistics for this fund
         const xirrValues = rollingReturns.map(r => r.xirr);
-        const stats = calculateStatistics(xirrValues);
+        const stats = calculateRollingStatistics(xirrValues);
         
         fundRollingDataArray.push({
           fundId: fund.id,
@@ -275,8 +278,10 @@ export function RollingCalculator({ funds }: RollingCalculatorProps) {
     
       // Calculate statistics for bucket
       const bucketXirrValues = bucketRollingReturns.map(r => r.xirr);
-      const bucketStats = calculateStatistics(bucketXirrValues);
+      const bucketStats = calculateRollingStatistics(bucketXirrValues);
       
+      const benchmarkData = await addBenchmarkReturns(bucketRollingReturns, fundRollingDataArray, extendedStartDate);
+
       logger.log('[Rolling Lumpsum] Complete:', {
         mode: rollingPeriod,
         fundCount: fundRollingDataArray.length,
@@ -289,7 +294,8 @@ export function RollingCalculator({ funds }: RollingCalculatorProps) {
           rollingReturns: bucketRollingReturns,
           ...bucketStats
         },
-        fundData: fundRollingDataArray
+        fundData: fundRollingDataArray,
+        benchmarkData
       });
       
       setSelectedFundView('bucket');
@@ -437,7 +443,7 @@ export function RollingCalculator({ funds }: RollingCalculatorProps) {
         
         // Calculate statistics for this fund
         const xirrValues = rollingReturns.map(r => r.xirr);
-        const stats = calculateStatistics(xirrValues);
+        const stats = calculateRollingStatistics(xirrValues);
         
         fundRollingDataArray.push({
           fundId: fund.id,
@@ -565,8 +571,10 @@ export function RollingCalculator({ funds }: RollingCalculatorProps) {
       
       // Calculate statistics for bucket
       const bucketXirrValues = bucketRollingReturns.map(r => r.xirr);
-      const bucketStats = calculateStatistics(bucketXirrValues);
+      const bucketStats = calculateRollingStatistics(bucketXirrValues);
       
+      const benchmarkData = await addBenchmarkReturns(bucketRollingReturns, fundRollingDataArray, extendedStartDate);
+
       logger.log('[Rolling SIP] Complete:', {
         windowCount: bucketRollingReturns.length,
         mean: bucketStats.mean.toFixed(2) + '%'
@@ -577,7 +585,8 @@ export function RollingCalculator({ funds }: RollingCalculatorProps) {
           rollingReturns: bucketRollingReturns,
           ...bucketStats
         },
-        fundData: fundRollingDataArray
+        fundData: fundRollingDataArray,
+        benchmarkData
       });
       
       setSelectedFundView('bucket');
@@ -596,7 +605,8 @@ export function RollingCalculator({ funds }: RollingCalculatorProps) {
     if (selectedFundView === 'bucket') {
       return result.bucketData.rollingReturns.map(r => ({
         startDate: r.startDate,
-        return: r.xirr
+        return: r.xirr,
+        benchmark: r.benchmark
       }));
     } else {
       const fundData = result.fundData.find(f => f.fundId === selectedFundView);
@@ -604,7 +614,8 @@ export function RollingCalculator({ funds }: RollingCalculatorProps) {
       
       return fundData.rollingReturns.map(r => ({
         startDate: r.startDate,
-        return: r.xirr
+        return: r.xirr,
+        benchmark: r.benchmark
       }));
     }
   };
@@ -633,7 +644,7 @@ export function RollingCalculator({ funds }: RollingCalculatorProps) {
         </div>
 
         {/* Input Section */}
-        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-6">
           <div className="space-y-2">
             <Label htmlFor="monthly-investment">Monthly Investment (₹)</Label>
             <Input
@@ -726,6 +737,8 @@ export function RollingCalculator({ funds }: RollingCalculatorProps) {
             </div>
           </div>
 
+          <BenchmarkSelector value={benchmarkSlug} onChange={setBenchmarkSlug} />
+
           <div className="flex items-end">
             <Button 
               onClick={calculateRolling}
@@ -869,7 +882,7 @@ export function RollingCalculator({ funds }: RollingCalculatorProps) {
                   />
                   <Tooltip 
                     contentStyle={{ backgroundColor: '#fff', border: '1px solid #e2e8f0', borderRadius: '8px', padding: '12px' }}
-                    formatter={(value: any) => [`${value.toFixed(2)}%`, 'XIRR Return']}
+                    formatter={(value: any, name: string) => [`${value.toFixed(2)}%`, name]}
                     labelFormatter={(label) => {
                       // Find the corresponding rolling return data
                       const returnData = selectedFundView === 'bucket' 
@@ -897,6 +910,19 @@ export function RollingCalculator({ funds }: RollingCalculatorProps) {
                     name="Rolling Return (XIRR)"
                     animationDuration={800}
                   />
+                  {result.benchmarkData && (
+                    <Line
+                      type="monotone"
+                      dataKey="benchmark"
+                      stroke="#dc2626"
+                      strokeWidth={2}
+                      strokeDasharray="4 4"
+                      dot={false}
+                      name={result.benchmarkData.name}
+                      connectNulls
+                      animationDuration={800}
+                    />
+                  )}
                 </LineChart>
                 </ResponsiveContainer>
               </div>
@@ -951,6 +977,36 @@ export function RollingCalculator({ funds }: RollingCalculatorProps) {
                         </TableCell>
                       </TableRow>
                       
+                      {/* Benchmark Row */}
+                      {result.benchmarkData && (
+                        <TableRow className="bg-red-50 hover:bg-red-100">
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <div className="w-3 h-3 rounded-full bg-red-600" />
+                              <span className="text-slate-900">{result.benchmarkData.name}</span>
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right text-slate-900">
+                            {result.benchmarkData.mean.toFixed(2)}%
+                          </TableCell>
+                          <TableCell className="text-right text-slate-900">
+                            {result.benchmarkData.median.toFixed(2)}%
+                          </TableCell>
+                          <TableCell className="text-right text-green-700">
+                            {result.benchmarkData.max.toFixed(2)}%
+                          </TableCell>
+                          <TableCell className="text-right text-red-700">
+                            {result.benchmarkData.min.toFixed(2)}%
+                          </TableCell>
+                          <TableCell className="text-right text-slate-900">
+                            {result.benchmarkData.stdDev.toFixed(2)}%
+                          </TableCell>
+                          <TableCell className="text-right text-slate-900">
+                            {result.benchmarkData.positivePercentage.toFixed(1)}%
+                          </TableCell>
+                        </TableRow>
+                      )}
+
                       {/* Individual Fund Rows */}
                       {result.fundData.map((fund, index) => (
                         <TableRow key={fund.fundId} className="hover:bg-slate-50">
@@ -986,6 +1042,27 @@ export function RollingCalculator({ funds }: RollingCalculatorProps) {
                     </TableBody>
                   </Table>
                 </div>
+                {result.benchmarkData && (
+                  <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mt-4">
+                    <div className="rounded-lg border border-slate-200 p-3">
+                      <div className="text-xs font-semibold text-slate-600 uppercase tracking-wide mb-1">Alpha vs {result.benchmarkData.name}</div>
+                      <div className={`text-lg font-bold ${result.benchmarkData.alpha >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+                        {result.benchmarkData.alpha >= 0 ? '+' : ''}{result.benchmarkData.alpha.toFixed(2)}%
+                      </div>
+                      <div className="text-xs text-slate-600 mt-1">Average excess return per window</div>
+                    </div>
+                    <div className="rounded-lg border border-slate-200 p-3">
+                      <div className="text-xs font-semibold text-slate-600 uppercase tracking-wide mb-1">Tracking Error</div>
+                      <div className="text-lg font-bold text-slate-900">{result.benchmarkData.trackingError.toFixed(2)}%</div>
+                      <div className="text-xs text-slate-600 mt-1">Std deviation of excess return</div>
+                    </div>
+                    <div className="rounded-lg border border-slate-200 p-3">
+                      <div className="text-xs font-semibold text-slate-600 uppercase tracking-wide mb-1">Windows Beating Index</div>
+                      <div className="text-lg font-bold text-slate-900">{result.benchmarkData.beatPercentage.toFixed(1)}%</div>
+                      <div className="text-xs text-slate-600 mt-1">Bucket return above benchmark</div>
+                    </div>
+                  </div>
+                )}
               </div>
             </Card>
           </div>
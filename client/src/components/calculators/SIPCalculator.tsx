@@ -5,6 +5,7 @@ import { Label } from '../ui/label';
 import { Button } from '../ui/button';
 import { Badge } from '../ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend as RechartsLegend, ResponsiveContainer } from 'recharts';
 import { TrendingUp, TrendingDown, Loader2, Download } from 'lucide-react';
 import type { SelectedFund } from '../../App';
@@ -16,19 +17,38 @@ import { getDatesBetween, getNextAvailableNAV, getLatestNAVBeforeDate, getYearsB
 import { logger } from '../../utils/logger';
 import { generateSIPReport } from '../../utils/pdfGenerator';
 import { calculateBucketPerformance } from '../../utils/bucketPerformanceCalculator';
+import { calculateExitLoad, resolveExitLoad, ExitLoadLot } from '../../utils/exitLoad';
+import { compareRebalancing, RebalanceComparison, RebalanceConfig, DEFAULT_REBALANCE_THRESHOLD } from '../../utils/rebalancing';
+import { RebalancingControls } from '../RebalancingControls';
+import { RebalancingComparison } from '../RebalancingComparison';
+import { BenchmarkSelector } from '../BenchmarkSelector';
+import { BenchmarkSummary } from '../BenchmarkSummary';
+import { fetchBenchmarkHistory } from '../../services/benchmarkService';
+import { compareWithBenchmark, benchmarkValueSeries, BenchmarkComparison, DEFAULT_BENCHMARK_SLUG } from '../../utils/benchmark';
+import { getStepUpInstallment, buildStepUpSchedule, describeStepUp, StepUpMode, StepUpScheduleRow } from '../../utils/sipStepUp';
+import { ShareScenarioButton } from '../ShareScenarioButton';
+import { scenarioFunds } from '../../utils/scenarioLink';
+import type { SharedCalculatorInputs, SIPScenarioInputs } from '../../types/scenario';
 
 interface SIPCalculatorProps {
   funds: SelectedFund[];
+  shared?: SharedCalculatorInputs<SIPScenarioInputs>; // restored from a scenario link
 }
 
 interface SIPCalculationResult {
   totalInvested: number;
   currentValue: number;
+  exitLoad: number;
+  redemptionValue: number;
   profit: number;
   profitPercentage: number;
   cagr: number;
   xirr: number;
   installments: number;
+  finalInstallment: number;
+  stepUpSchedule: StepUpScheduleRow[];
+  rebalancing: RebalanceComparison | null;
+  benchmark: BenchmarkComparison | null;
   fundResults: Array<{
     fundId: string;
     fundName: string;
@@ -36,6 +56,7 @@ interface SIPCalculationResult {
     totalInvested: number;
     units: number;
     currentValue: number;
+    exitLoad: number;
     profit: number;
     profitPercentage: number;
     cagr: number;
@@ -57,10 +78,16 @@ const formatCurrency = (amount: number): string => {
   }).format(amount);
 };
 
-export function SIPCalculator({ funds }: SIPCalculatorProps) {
-  const [monthlyInvestment, setMonthlyInvestment] = useState<number>(10000);
-  const [startDate, setStartDate] = useState<string>('2020-01-01');
-  const [endDate, setEndDate] = useState<string>(getToday());
+export function SIPCalculator({ funds, shared }: SIPCalculatorProps) {
+  const initial = shared?.inputs ?? {};
+  const [monthlyInvestment, setMonthlyInvestment] = useState<number>(initial.monthlyInvestment ?? 10000);
+  const [startDate, setStartDate] = useState<string>(initial.startDate ?? '2020-01-01');
+  const [endDate, setEndDate] = useState<string>(initial.endDate ?? getToday());
+  const [stepUpMode, setStepUpMode] = useState<StepUpMode>(initial.stepUpMode ?? 'NONE');
+  const [stepUpValue, setStepUpValue] = useState<number>(initial.stepUpValue ?? 10);
+  const [stepUpCap, setStepUpCap] = useState<number>(initial.stepUpCap ?? 0);
+  const [benchmarkSlug, setBenchmarkSlug] = useState<string>(initial.benchmarkSlug ?? DEFAULT_BENCHMARK_SLUG);
+  const [rebalanceConfig, setRebalanceConfig] = useState<RebalanceConfig>(initial.rebalanceConfig ?? { policy: 'NONE', thresholdPercent: DEFAULT_REBALANCE_THRESHOLD });
   const [result, setResult] = useState<SIPCalculationResult | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isDownloading, setIsDownloading] = useState<boolean>(false);
@@ -71,7 +98,7 @@ export function SIPCalculator({ funds }: SIPCalculatorProps) {
   useEffect(() => {
     // Reset result when any input changes to force manual recalculation
     setResult(null);
-  }, [funds, monthlyInvestment, startDate, endDate]);
+  }, [funds, monthlyInvestment, startDate, endDate, stepUpMode, stepUpValue, stepUpCap, rebalanceConfig, benchmarkSlug]);
 
   useEffect(() => {
     if (funds.length > 0) {
@@ -97,6 +124,10 @@ export function SIPCalculator({ funds }: SIPCalculatorProps) {
     }
   }, [funds]);
 
+  useEffect(() => {
+    if (shared?.autoRun) calculateSIP();
+  }, []);
+
   const calculateSIP = async () => {
     // Prevent multiple simultaneous calculations
     if (isLoading) {
@@ -232,8 +263,11 @@ export function SIPCalculator({ funds }: SIPCalculatorProps) {
       logger.log('Last 5 dates:', actualSIPDates.slice(-5));
       logger.log('========================');
 
-      const totalMonths = actualSIPDates.length;
-      const totalInvested = monthlyInvestment * totalMonths;
+      // Installment for each SIP date, stepped up once every 12 months when enabled
+      const stepUp = { mode: stepUpMode, value: stepUpValue, cap: stepUpCap };
+      const installmentAmounts = actualSIPDates.map(({ plannedDate }) =>
+        getStepUpInstallment(monthlyInvestment, startDate, plannedDate, stepUp)
+      );
 
       const fundResults = funds.map(fund => {
         const navData = navResponses.find(nav => nav.schemeCode === fund.id);
@@ -249,21 +283,24 @@ export function SIPCalculator({ funds }: SIPCalculatorProps) {
 
         let totalUnits = 0;
         let fundInvested = 0;
-        const monthlyData: Array<{ plannedDate: string, actualDate: string, invested: number, units: number, nav: number, value: number }> = [];
+        const lots: ExitLoadLot[] = [];
+        const monthlyData: Array<{ plannedDate: string, actualDate: string, amount: number, invested: number, units: number, nav: number, value: number }> = [];
 
-        actualSIPDates.forEach(({ plannedDate, actualDate }) => {
+        actualSIPDates.forEach(({ plannedDate, actualDate }, index) => {
           // Get NEXT AVAILABLE NAV on or after the planned date
           const navEntry = getNextAvailableNAV(navData.navData, plannedDate);
 
           if (navEntry && navEntry.nav > 0) {
-            const monthlyAmount = monthlyInvestment * (fund.weightage / 100);
+            const monthlyAmount = installmentAmounts[index] * (fund.weightage / 100);
             const unitsPurchased = monthlyAmount / navEntry.nav;
             totalUnits += unitsPurchased;
             fundInvested += monthlyAmount;
+            lots.push({ date: navEntry.date, units: unitsPurchased });
 
             monthlyData.push({
               plannedDate,
               actualDate: navEntry.date, // Track when investment actually happened
+              amount: monthlyAmount,
               invested: fundInvested,
               units: totalUnits,
               nav: navEntry.nav,
@@ -275,22 +312,30 @@ export function SIPCalculator({ funds }: SIPCalculatorProps) {
         // Get LATEST AVAILABLE NAV on or before end date for final valuation
         const finalNavEntry = getLatestNAVBeforeDate(navData.navData, endDate);
         const currentValue = totalUnits * (finalNavEntry?.nav || 0);
-        const profit = currentValue - fundInvested;
+        // Installments still inside the exit-load window pay the load on redemption
+        const exitLoad = calculateExitLoad(
+          lots,
+          finalNavEntry?.nav || 0,
+          endDate,
+          resolveExitLoad(fund.exitLoad)
+        );
+        const redemptionValue = currentValue - exitLoad;
+        const profit = redemptionValue - fundInvested;
         const profitPercentage = fundInvested > 0 ? (profit / fundInvested) * 100 : 0;
 
         // Calculate years using actual dates
         const years = getYearsBetween(startDate, endDate);
-        const cagr = calculateCAGR(fundInvested, currentValue, years);
+        const cagr = calculateCAGR(fundInvested, redemptionValue, years);
 
         // Calculate XIRR for individual fund
         const fundCashFlows = [
           ...monthlyData.map(data => ({
             date: new Date(data.actualDate),
-            amount: -(monthlyInvestment * (fund.weightage / 100))  // Fund's portion
+            amount: -data.amount  // Fund's portion of this installment
           })),
           {
             date: new Date(endDate),
-            amount: currentValue  // Final value of this fund
+            amount: redemptionValue  // Final value of this fund, net of exit load
           }
         ];
         const fundXIRR = calculateXIRR(fundCashFlows);
@@ -302,6 +347,7 @@ export function SIPCalculator({ funds }: SIPCalculatorProps) {
           totalInvested: fundInvested,
           units: totalUnits,
           currentValue,
+          exitLoad,
           profit,
           profitPercentage,
           cagr,
@@ -312,21 +358,23 @@ export function SIPCalculator({ funds }: SIPCalculatorProps) {
       // Calculate portfolio-level metrics
       const portfolioInvested = fundResults.reduce((sum, fund) => sum + fund.totalInvested, 0);
       const portfolioValue = fundResults.reduce((sum, fund) => sum + fund.currentValue, 0);
-      const portfolioProfit = portfolioValue - portfolioInvested;
+      const portfolioExitLoad = fundResults.reduce((sum, fund) => sum + fund.exitLoad, 0);
+      const portfolioRedemptionValue = portfolioValue - portfolioExitLoad;
+      const portfolioProfit = portfolioRedemptionValue - portfolioInvested;
       const portfolioProfitPercentage = portfolioInvested > 0 ? (portfolioProfit / portfolioInvested) * 100 : 0;
 
       const years = getYearsBetween(startDate, endDate);
-      const portfolioCAGR = calculateCAGR(portfolioInvested, portfolioValue, years);
+      const portfolioCAGR = calculateCAGR(portfolioInvested, portfolioRedemptionValue, years);
 
       // Calculate XIRR using actual investment dates
       const cashFlows = [
-        ...actualSIPDates.map(({ actualDate }) => ({
+        ...actualSIPDates.map(({ actualDate }, index) => ({
           date: new Date(actualDate),  // Use ACTUAL investment date
-          amount: -monthlyInvestment  // Negative = outflow (investment)
+          amount: -installmentAmounts[index]  // Negative = outflow (investment)
         })),
         {
           date: new Date(endDate),
-          amount: portfolioValue  // Positive = inflow (final value)
+          amount: portfolioRedemptionValue  // Positive = inflow (final value after exit load)
         }
       ];
       const xirr = calculateXIRR(cashFlows);
@@ -363,7 +411,7 @@ export function SIPCalculator({ funds }: SIPCalculatorProps) {
             }
 
             if (navEntry) {
-              const fundMonthlyAmount = monthlyInvestment * (fund.weightage / 100);
+              const fundMonthlyAmount = installmentAmounts[index] * (fund.weightage / 100);
               const unitsPurchased = fundMonthlyAmount / navEntry.nav;
 
               const prevData = fundUnitTracking.get(fund.id)!;
@@ -384,15 +432,16 @@ export function SIPCalculator({ funds }: SIPCalculatorProps) {
       });
 
       // Generate chart data with individual fund values
+      let cumulativeInvested = 0;
       const chartData = actualSIPDates.map(({ actualDate, plannedDate }, index) => {
-        const monthNumber = index + 1;
-        const cumulativeInvested = monthlyInvestment * monthNumber;
+        cumulativeInvested += installmentAmounts[index];
 
         const dateObj = new Date(actualDate);
         const dataPoint: any = {
           date: dateObj.toLocaleDateString('en-IN', { month: 'short', year: 'numeric' }),
           fullDate: dateObj.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric' }),
           invested: cumulativeInvested,
+          installment: installmentAmounts[index],
         };
 
         let bucketValue = 0;
@@ -423,6 +472,55 @@ export function SIPCalculator({ funds }: SIPCalculatorProps) {
         return dataPoint;
       });
 
+      // Same installments invested in the selected index
+      let benchmark: BenchmarkComparison | null = null;
+      if (benchmarkSlug !== 'none') {
+        try {
+          const history = await fetchBenchmarkHistory(benchmarkSlug, startDate, endDate);
+          const benchmarkCashflows = actualSIPDates.map(({ actualDate }, index) => ({
+            date: actualDate,
+            amount: installmentAmounts[index]
+          }));
+          benchmark = compareWithBenchmark({
+            benchmark: history,
+            cashflows: benchmarkCashflows,
+            endDate,
+            portfolioXirr: xirr,
+            portfolioSeries: chartData.map((point, index) => ({
+              date: actualSIPDates[index].actualDate,
+              value: point['Bucket Performance'],
+              flow: installmentAmounts[index]
+            }))
+          });
+          const benchmarkValues = benchmarkValueSeries(
+            history.history,
+            benchmarkCashflows,
+            actualSIPDates.map(({ actualDate }) => actualDate)
+          );
+          chartData.forEach((point, index) => {
+            if (benchmarkValues[index] !== null) point['Benchmark'] = benchmarkValues[index];
+          });
+        } catch (benchmarkError) {
+          // The SIP result is still useful without the index comparison
+          logger.warn('Benchmark comparison failed:', benchmarkError);
+        }
+      }
+
+      // Same installments replayed with periodic rebalancing, alongside buy-and-hold
+      const rebalancing = rebalanceConfig.policy !== 'NONE'
+        ? compareRebalancing({
+          startDate,
+          endDate,
+          targetWeights: Object.fromEntries(funds.map(fund => [fund.id, fund.weightage])),
+          navSeriesByFund: Object.fromEntries(navResponses.map(nav => [nav.schemeCode, nav.navData])),
+          contributions: actualSIPDates.map(({ actualDate }, index) => ({
+            date: actualDate,
+            amount: installmentAmounts[index]
+          })),
+          config: rebalanceConfig
+        })
+        : null;
+
       logger.log('=== CHART DATA ===');
       logger.log('Total chart points:', chartData.length);
       logger.log('First chart point:', chartData[0]);
@@ -432,13 +530,26 @@ export function SIPCalculator({ funds }: SIPCalculatorProps) {
       setResult({
         totalInvested: portfolioInvested,
         currentValue: portfolioValue,
+        exitLoad: portfolioExitLoad,
+        redemptionValue: portfolioRedemptionValue,
         profit: portfolioProfit,
         profitPercentage: portfolioProfitPercentage,
         cagr: portfolioCAGR,
         xirr,
         installments: actualSIPDates.length,
+        finalInstallment: installmentAmounts[installmentAmounts.length - 1] || 0,
+        stepUpSchedule: buildStepUpSchedule(
+          startDate,
+          actualSIPDates.map(({ plannedDate, actualDate }, index) => ({
+            plannedDate,
+            actualDate,
+            amount: installmentAmounts[index]
+          }))
+        ),
         fundResults,
-        chartData
+        chartData,
+        rebalancing,
+        benchmark
       });
 
       setIsLoading(false);
@@ -462,6 +573,7 @@ export function SIPCalculator({ funds }: SIPCalculatorProps) {
         ...result,
         inputs: {
           monthlyInvestment,
+          stepUp: { mode: stepUpMode, value: stepUpValue, cap: stepUpCap },
           startDate,
           endDate,
           funds: funds.map(f => ({ name: f.name, weightage: f.weightage }))
@@ -475,6 +587,7 @@ export function SIPCalculator({ funds }: SIPCalculatorProps) {
         ...result,
         inputs: {
           monthlyInvestment,
+          stepUp: { mode: stepUpMode, value: stepUpValue, cap: stepUpCap },
           startDate,
           endDate,
           funds: funds.map(f => ({ name: f.name, weightage: f.weightage }))
@@ -554,15 +667,86 @@ export function SIPCalculator({ funds }: SIPCalculatorProps) {
               <p className="text-xs text-red-600 mt-1">End date must be after start date</p>
             )}
           </div>
+
+          <BenchmarkSelector value={benchmarkSlug} onChange={setBenchmarkSlug} />
         </div>
 
-        <Button
-          onClick={calculateSIP}
-          disabled={!isValidAllocation || isLoading || funds.length === 0}
-          className="w-full bg-black hover:bg-gray-800 text-white"
-        >
-          {isLoading ? 'Calculating...' : 'Calculate SIP'}
-        </Button>
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4 mb-4">
+          <div>
+            <Label htmlFor="step-up-mode">Annual Step-up</Label>
+            <Select value={stepUpMode} onValueChange={(value: StepUpMode) => setStepUpMode(value)}>
+              <SelectTrigger id="step-up-mode" className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="NONE">None (flat SIP)</SelectItem>
+                <SelectItem value="PERCENTAGE">Percentage (%)</SelectItem>
+                <SelectItem value="FIXED">Fixed Amount (₹)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {stepUpMode !== 'NONE' && (
+            <div>
+              <Label htmlFor="step-up-value">
+                {stepUpMode === 'PERCENTAGE' ? 'Increase Every Year (%)' : 'Increase Every Year (₹)'}
+              </Label>
+              <Input
+                id="step-up-value"
+                type="number"
+                value={stepUpValue}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  setStepUpValue(value >= 0 ? value : 0);
+                }}
+                min="0"
+                step={stepUpMode === 'PERCENTAGE' ? '1' : '500'}
+              />
+            </div>
+          )}
+
+          {stepUpMode !== 'NONE' && (
+            <div>
+              <Label htmlFor="step-up-cap">Maximum Monthly Installment (₹)</Label>
+              <Input
+                id="step-up-cap"
+                type="number"
+                value={stepUpCap || ''}
+                onChange={(e) => {
+                  const value = Number(e.target.value);
+                  setStepUpCap(value >= 0 ? value : 0);
+                }}
+                placeholder="No cap"
+                min="0"
+                step="1000"
+              />
+              {stepUpCap > 0 && stepUpCap < monthlyInvestment && (
+                <p className="text-xs text-red-600 mt-1">Cap is below the starting installment and will be ignored</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <RebalancingControls value={rebalanceConfig} onChange={setRebalanceConfig} />
+
+        <div className="flex gap-2">
+          <Button
+            onClick={calculateSIP}
+            disabled={!isValidAllocation || isLoading || funds.length === 0}
+            className="flex-1 bg-black hover:bg-gray-800 text-white"
+          >
+            {isLoading ? 'Calculating...' : 'Calculate SIP'}
+          </Button>
+          <ShareScenarioButton
+            disabled={funds.length === 0}
+            scenario={{
+              page: 'investment-plan',
+              calculator: 'SIP',
+              funds: scenarioFunds(funds),
+              inputs: { monthlyInvestment, startDate, endDate, stepUpMode, stepUpValue, stepUpCap, benchmarkSlug, rebalanceConfig },
+            }}
+          />
+        </div>
 
         {!isValidAllocation && (
           <p className="text-red-600 text-sm mt-2">
@@ -608,12 +792,21 @@ export function SIPCalculator({ funds }: SIPCalculatorProps) {
                 <span className="w-1.5 h-1.5 rounded-full bg-blue-500"></span>
                 {result.installments} installments
               </div>
+              {result.stepUpSchedule.length > 1 && (
+                <div className="text-xs text-blue-600 mt-1">
+                  Final installment {formatCurrency(result.finalInstallment)}/month
+                </div>
+              )}
             </Card>
 
             <Card className="p-5 bg-gradient-to-br from-indigo-50 to-indigo-100 border-2 border-indigo-200 shadow-lg hover:shadow-xl transition-shadow">
               <div className="text-xs font-semibold text-indigo-700 uppercase tracking-wide mb-1">Current Value</div>
               <div className="text-2xl font-bold text-slate-900">{formatCurrency(result.currentValue)}</div>
-              <div className="text-xs text-indigo-600 mt-2">Portfolio worth</div>
+              <div className="text-xs text-indigo-600 mt-2">
+                {result.exitLoad > 0
+                  ? `Exit load ${formatCurrency(result.exitLoad)} · Redeemable ${formatCurrency(result.redemptionValue)}`
+                  : 'Portfolio worth'}
+              </div>
             </Card>
 
             <Card className={`p-5 border-2 shadow-lg hover:shadow-xl transition-shadow ${result.profit >= 0
@@ -652,6 +845,14 @@ export function SIPCalculator({ funds }: SIPCalculatorProps) {
             </Card>
           </div>
 
+          {result.benchmark && (
+            <BenchmarkSummary
+              comparison={result.benchmark}
+              portfolioValue={result.redemptionValue}
+              portfolioReturn={result.xirr}
+            />
+          )}
+
           <div className="mb-6">
             <RollingReturnsAnalysis
               funds={funds}
@@ -720,6 +921,19 @@ export function SIPCalculator({ funds }: SIPCalculatorProps) {
                     name="Bucket Performance"
                     dot={false}
                   />
+
+                  {/* Benchmark Line */}
+                  {result.benchmark && (
+                    <Line
+                      type="monotone"
+                      dataKey="Benchmark"
+                      stroke="#dc2626"
+                      strokeWidth={2}
+                      name={result.benchmark.name}
+                      dot={false}
+                      connectNulls
+                    />
+                  )}
                 </LineChart>
               </ResponsiveContainer>
             </div>
@@ -738,6 +952,7 @@ export function SIPCalculator({ funds }: SIPCalculatorProps) {
                     <TableHead className="text-xs sm:text-sm">Fund Name</TableHead>
                     <TableHead className="text-xs sm:text-sm">Total Invested</TableHead>
                     <TableHead className="text-xs sm:text-sm">Current Value</TableHead>
+                    <TableHead className="text-xs sm:text-sm">Exit Load</TableHead>
                     <TableHead className="text-xs sm:text-sm">Profit/Loss</TableHead>
                     <TableHead className="text-xs sm:text-sm">% Returns</TableHead>
                     <TableHead className="text-xs sm:text-sm">CAGR</TableHead>
@@ -762,6 +977,7 @@ export function SIPCalculator({ funds }: SIPCalculatorProps) {
                         </TableCell>
                         <TableCell>{formatCurrency(fund.totalInvested)}</TableCell>
                         <TableCell>{formatCurrency(fund.currentValue)}</TableCell>
+                        <TableCell className="text-gray-600">{formatCurrency(fund.exitLoad)}</TableCell>
                         <TableCell className={fund.profit >= 0 ? 'text-green-600 font-semibold' : 'text-red-600 font-semibold'}>
                           {fund.profit >= 0 ? '+' : ''}{formatCurrency(fund.profit)}
                         </TableCell>
@@ -781,6 +997,48 @@ export function SIPCalculator({ funds }: SIPCalculatorProps) {
               </Table>
             </div>
           </Card>
+
+          {result.rebalancing && (
+            <RebalancingComparison comparison={result.rebalancing} config={rebalanceConfig} funds={funds} />
+          )}
+
+          {/* Step-up Schedule */}
+          {result.stepUpSchedule.length > 1 && (
+            <Card className="p-4 sm:p-6 border-2 border-slate-200 shadow-xl">
+              <div className="mb-4 sm:mb-6">
+                <h3 className="text-lg sm:text-xl font-bold text-slate-900 mb-2">Step-up Schedule</h3>
+                <p className="text-xs sm:text-sm text-slate-600">
+                  Monthly installment for each SIP year ({describeStepUp({ mode: stepUpMode, value: stepUpValue, cap: stepUpCap })})
+                </p>
+              </div>
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-xs sm:text-sm">Year</TableHead>
+                      <TableHead className="text-xs sm:text-sm">From</TableHead>
+                      <TableHead className="text-xs sm:text-sm">Monthly Installment</TableHead>
+                      <TableHead className="text-xs sm:text-sm">Installments</TableHead>
+                      <TableHead className="text-xs sm:text-sm">Invested</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.stepUpSchedule.map((row) => (
+                      <TableRow key={row.year}>
+                        <TableCell className="font-medium">Year {row.year}</TableCell>
+                        <TableCell>
+                          {new Date(row.fromDate).toLocaleDateString('en-IN', { month: 'short', year: 'numeric' })}
+                        </TableCell>
+                        <TableCell>{formatCurrency(row.installment)}</TableCell>
+                        <TableCell>{row.installments}</TableCell>
+                        <TableCell>{formatCurrency(row.invested)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </Card>
+          )}
         </div>
       )}
     </div>
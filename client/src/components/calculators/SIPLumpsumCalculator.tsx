@@ -16,9 +16,17 @@ import { getNextAvailableNAV, getLatestNAVBeforeDate, getYearsBetween, addMonths
 import { logger } from '../../utils/logger';
 import { generateSIPLumpsumReport } from '../../utils/pdfGenerator';
 import { calculateBucketPerformance } from '../../utils/bucketPerformanceCalculator';
+import { calculateExitLoad, resolveExitLoad, ExitLoadLot } from '../../utils/exitLoad';
+import { compareRebalancing, RebalanceComparison, RebalanceConfig, DEFAULT_REBALANCE_THRESHOLD } from '../../utils/rebalancing';
+import { RebalancingControls } from '../RebalancingControls';
+import { RebalancingComparison } from '../RebalancingComparison';
+import { ShareScenarioButton } from '../ShareScenarioButton';
+import { scenarioFunds } from '../../utils/scenarioLink';
+import type { SharedCalculatorInputs, SIPLumpsumScenarioInputs } from '../../types/scenario';
 
 interface SIPLumpsumCalculatorProps {
   funds: SelectedFund[];
+  shared?: SharedCalculatorInputs<SIPLumpsumScenarioInputs>; // restored from a scenario link
 }
 
 interface CalculationResult {
@@ -26,11 +34,14 @@ interface CalculationResult {
   sipInvested: number;
   lumpsumInvested: number;
   currentValue: number;
+  exitLoad: number;
+  redemptionValue: number;
   profit: number;
   profitPercentage: number;
   cagr: number;
   xirr: number;
   installments: number;
+  rebalancing: RebalanceComparison | null;
   fundResults: Array<{
     fundId: string;
     fundName: string;
@@ -40,6 +51,7 @@ interface CalculationResult {
     lumpsumInvested: number;
     units: number;
     currentValue: number;
+    exitLoad: number;
     profit: number;
     profitPercentage: number;
     cagr: number;
@@ -61,18 +73,20 @@ const formatCurrency = (amount: number): string => {
   }).format(amount);
 };
 
-export function SIPLumpsumCalculator({ funds }: SIPLumpsumCalculatorProps) {
-  const [monthlyInvestment, setMonthlyInvestment] = useState<number>(10000);
-  const [startDate, setStartDate] = useState<string>('2020-01-01');
-  const [endDate, setEndDate] = useState<string>(getToday());
+export function SIPLumpsumCalculator({ funds, shared }: SIPLumpsumCalculatorProps) {
+  const initial = shared?.inputs ?? {};
+  const [monthlyInvestment, setMonthlyInvestment] = useState<number>(initial.monthlyInvestment ?? 10000);
+  const [startDate, setStartDate] = useState<string>(initial.startDate ?? '2020-01-01');
+  const [endDate, setEndDate] = useState<string>(initial.endDate ?? getToday());
   const [minAvailableDate, setMinAvailableDate] = useState<string | null>(null);
 
   // Lumpsum specific state
-  const [hasLumpsum, setHasLumpsum] = useState<boolean>(false);
-  const [lumpsumAmount, setLumpsumAmount] = useState<number>(20000);
-  const [lumpsumDate, setLumpsumDate] = useState<string>('');
-  const [lumpsumMode, setLumpsumMode] = useState<'weightage' | 'specific'>('weightage');
-  const [selectedFundForLumpsum, setSelectedFundForLumpsum] = useState<string>('');
+  const [hasLumpsum, setHasLumpsum] = useState<boolean>(initial.hasLumpsum ?? false);
+  const [lumpsumAmount, setLumpsumAmount] = useState<number>(initial.lumpsumAmount ?? 20000);
+  const [lumpsumDate, setLumpsumDate] = useState<string>(initial.lumpsumDate ?? '');
+  const [lumpsumMode, setLumpsumMode] = useState<'weightage' | 'specific'>(initial.lumpsumMode ?? 'weightage');
+  const [selectedFundForLumpsum, setSelectedFundForLumpsum] = useState<string>(initial.selectedFundForLumpsum ?? '');
+  const [rebalanceConfig, setRebalanceConfig] = useState<RebalanceConfig>(initial.rebalanceConfig ?? { policy: 'NONE', thresholdPercent: DEFAULT_REBALANCE_THRESHOLD });
 
   const [result, setResult] = useState<CalculationResult | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
@@ -83,7 +97,7 @@ export function SIPLumpsumCalculator({ funds }: SIPLumpsumCalculatorProps) {
   // Reset results on input change
   useEffect(() => {
     setResult(null);
-  }, [funds, monthlyInvestment, startDate, endDate, hasLumpsum, lumpsumAmount, lumpsumDate, lumpsumMode, selectedFundForLumpsum]);
+  }, [funds, monthlyInvestment, startDate, endDate, hasLumpsum, lumpsumAmount, lumpsumDate, lumpsumMode, selectedFundForLumpsum, rebalanceConfig]);
 
   useEffect(() => {
     if (funds.length > 0) {
@@ -118,6 +132,10 @@ export function SIPLumpsumCalculator({ funds }: SIPLumpsumCalculatorProps) {
     }
   }, [funds]);
 
+  useEffect(() => {
+    if (shared?.autoRun) calculateSIPLumpsum();
+  }, []);
+
   const calculateSIPLumpsum = async () => {
     // Prevent multiple simultaneous calculations
     if (isLoading) {
@@ -243,6 +261,7 @@ export function SIPLumpsumCalculator({ funds }: SIPLumpsumCalculatorProps) {
         let totalUnits = 0;
         let sipInvested = 0;
         let lumpsumInvested = 0;
+        const lots: ExitLoadLot[] = [];
         const investmentData: Array<{
           date: string;
           invested: number;
@@ -261,6 +280,7 @@ export function SIPLumpsumCalculator({ funds }: SIPLumpsumCalculatorProps) {
             const unitsPurchased = monthlyAmount / navEntry.nav;
             totalUnits += unitsPurchased;
             sipInvested += monthlyAmount;
+            lots.push({ date: navEntry.date, units: unitsPurchased });
 
             investmentData.push({
               date: navEntry.date,
@@ -292,6 +312,7 @@ export function SIPLumpsumCalculator({ funds }: SIPLumpsumCalculatorProps) {
               const unitsPurchased = lumpsumForThisFund / navEntry.nav;
               totalUnits += unitsPurchased;
               lumpsumInvested = lumpsumForThisFund;
+              lots.push({ date: navEntry.date, units: unitsPurchased });
 
               // Update or add investment record for lumpsum date
               const existingIndex = investmentData.findIndex(d => d.date === navEntry.date);
@@ -319,11 +340,18 @@ export function SIPLumpsumCalculator({ funds }: SIPLumpsumCalculatorProps) {
         const fundInvested = sipInvested + lumpsumInvested;
         const finalNavEntry = getLatestNAVBeforeDate(navData.navData, endDate);
         const currentValue = totalUnits * (finalNavEntry?.nav || 0);
-        const profit = currentValue - fundInvested;
+        const exitLoad = calculateExitLoad(
+          lots,
+          finalNavEntry?.nav || 0,
+          endDate,
+          resolveExitLoad(fund.exitLoad)
+        );
+        const redemptionValue = currentValue - exitLoad;
+        const profit = redemptionValue - fundInvested;
         const profitPercentage = fundInvested > 0 ? (profit / fundInvested) * 100 : 0;
 
         const years = getYearsBetween(startDate, endDate);
-        const cagr = calculateCAGR(fundInvested, currentValue, years);
+        const cagr = calculateCAGR(fundInvested, redemptionValue, years);
 
         // Calculate XIRR for individual fund
         const fundCashFlows = [
@@ -355,7 +383,7 @@ export function SIPLumpsumCalculator({ funds }: SIPLumpsumCalculatorProps) {
 
         fundCashFlows.push({
           date: new Date(endDate),
-          amount: currentValue
+          amount: redemptionValue
         });
 
         // Sort cashflows by date
@@ -372,6 +400,7 @@ export function SIPLumpsumCalculator({ funds }: SIPLumpsumCalculatorProps) {
           lumpsumInvested,
           units: totalUnits,
           currentValue,
+          exitLoad,
           profit,
           profitPercentage,
           cagr,
@@ -383,11 +412,13 @@ export function SIPLumpsumCalculator({ funds }: SIPLumpsumCalculatorProps) {
       // Calculate portfolio-level metrics
       const portfolioInvested = fundResults.reduce((sum, fund) => sum + fund.totalInvested, 0);
       const portfolioValue = fundResults.reduce((sum, fund) => sum + fund.currentValue, 0);
-      const portfolioProfit = portfolioValue - portfolioInvested;
+      const portfolioExitLoad = fundResults.reduce((sum, fund) => sum + fund.exitLoad, 0);
+      const portfolioRedemptionValue = portfolioValue - portfolioExitLoad;
+      const portfolioProfit = portfolioRedemptionValue - portfolioInvested;
       const portfolioProfitPercentage = portfolioInvested > 0 ? (portfolioProfit / portfolioInvested) * 100 : 0;
 
       const years = getYearsBetween(startDate, endDate);
-      const portfolioCAGR = calculateCAGR(portfolioInvested, portfolioValue, years);
+      const portfolioCAGR = calculateCAGR(portfolioInvested, portfolioRedemptionValue, years);
 
       // Calculate portfolio XIRR
       const cashFlows = [
@@ -411,7 +442,7 @@ export function SIPLumpsumCalculator({ funds }: SIPLumpsumCalculatorProps) {
 
       cashFlows.push({
         date: new Date(endDate),
-        amount: portfolioValue
+        amount: portfolioRedemptionValue
       });
 
       // Sort cashflows by date
@@ -550,11 +581,34 @@ export function SIPLumpsumCalculator({ funds }: SIPLumpsumCalculatorProps) {
         return dataPoint;
       });
 
+      // Same SIP and lumpsum cashflows replayed with periodic rebalancing, alongside buy-and-hold
+      const rebalancing = rebalanceConfig.policy !== 'NONE'
+        ? compareRebalancing({
+          startDate,
+          endDate,
+          targetWeights: Object.fromEntries(funds.map(fund => [fund.id, fund.weightage])),
+          navSeriesByFund: Object.fromEntries(navResponses.map(nav => [nav.schemeCode, nav.navData])),
+          contributions: [
+            ...actualSIPDates.map(({ actualDate }) => ({ date: actualDate, amount: monthlyInvestment })),
+            ...(hasLumpsum
+              ? [{
+                date: lumpsumDate,
+                amount: lumpsumAmount,
+                allocation: lumpsumMode === 'specific' ? { [selectedFundForLumpsum]: 1 } : undefined
+              }]
+              : [])
+          ],
+          config: rebalanceConfig
+        })
+        : null;
+
       setResult({
         totalInvested,
         sipInvested: totalSIPInvested,
         lumpsumInvested: totalLumpsumInvested,
         currentValue: portfolioValue,
+        exitLoad: portfolioExitLoad,
+        redemptionValue: portfolioRedemptionValue,
         profit: portfolioProfit,
         profitPercentage: portfolioProfitPercentage,
         cagr: portfolioCAGR,
@@ -569,12 +623,14 @@ export function SIPLumpsumCalculator({ funds }: SIPLumpsumCalculatorProps) {
           lumpsumInvested: f.lumpsumInvested,
           units: f.units,
           currentValue: f.currentValue,
+          exitLoad: f.exitLoad,
           profit: f.profit,
           profitPercentage: f.profitPercentage,
           cagr: f.cagr,
           xirr: f.xirr
         })),
-        chartData
+        chartData,
+        rebalancing
       });
 
       setIsLoading(false);
@@ -816,13 +872,36 @@ export function SIPLumpsumCalculator({ funds }: SIPLumpsumCalculatorProps) {
           )}
         </div>
 
-        <Button
-          onClick={calculateSIPLumpsum}
-          disabled={!isValidAllocation || isLoading || funds.length === 0}
-          className="w-full"
-        >
-          {isLoading ? 'Calculating...' : 'Calculate SIP + Lumpsum'}
-        </Button>
+        <RebalancingControls value={rebalanceConfig} onChange={setRebalanceConfig} />
+
+        <div className="flex gap-2">
+          <Button
+            onClick={calculateSIPLumpsum}
+            disabled={!isValidAllocation || isLoading || funds.length === 0}
+            className="flex-1"
+          >
+            {isLoading ? 'Calculating...' : 'Calculate SIP + Lumpsum'}
+          </Button>
+          <ShareScenarioButton
+            disabled={funds.length === 0}
+            scenario={{
+              page: 'investment-plan',
+              calculator: 'SIPLumpsum',
+              funds: scenarioFunds(funds),
+              inputs: {
+                monthlyInvestment,
+                startDate,
+                endDate,
+                hasLumpsum,
+                lumpsumAmount,
+                lumpsumDate,
+                lumpsumMode,
+                selectedFundForLumpsum,
+                rebalanceConfig,
+              },
+            }}
+          />
+        </div>
 
         {/* Loading State */}
         {isLoading && (
@@ -873,7 +952,11 @@ export function SIPLumpsumCalculator({ funds }: SIPLumpsumCalculatorProps) {
             <Card className="p-3 sm:p-5 bg-gradient-to-br from-indigo-50 to-indigo-100 border-2 border-indigo-200 shadow-lg hover:shadow-xl transition-shadow">
               <div className="text-xs font-semibold text-indigo-700 uppercase tracking-wide mb-1">Current Value</div>
               <div className="text-lg sm:text-2xl font-bold text-slate-900">{formatCurrency(result.currentValue)}</div>
-              <div className="text-xs text-indigo-600 mt-2">Portfolio worth</div>
+              <div className="text-xs text-indigo-600 mt-2">
+                {result.exitLoad > 0
+                  ? `Exit load ${formatCurrency(result.exitLoad)} · Redeemable ${formatCurrency(result.redemptionValue)}`
+                  : 'Portfolio worth'}
+              </div>
             </Card>
 
             <Card className={`p-3 sm:p-5 border-2 shadow-lg hover:shadow-xl transition-shadow ${result.profit >= 0
@@ -1000,6 +1083,7 @@ export function SIPLumpsumCalculator({ funds }: SIPLumpsumCalculatorProps) {
                     <TableHead className="text-xs sm:text-sm">SIP Invested</TableHead>
                     <TableHead className="text-xs sm:text-sm">Lumpsum Invested</TableHead>
                     <TableHead className="text-xs sm:text-sm">Current Value</TableHead>
+                    <TableHead className="text-xs sm:text-sm">Exit Load</TableHead>
                     <TableHead className="text-xs sm:text-sm">Profit/Loss</TableHead>
                     <TableHead className="text-xs sm:text-sm">% Returns</TableHead>
                     <TableHead className="text-xs sm:text-sm">CAGR</TableHead>
@@ -1026,6 +1110,7 @@ export function SIPLumpsumCalculator({ funds }: SIPLumpsumCalculatorProps) {
                         <TableCell className="text-gray-600">{formatCurrency(fund.sipInvested)}</TableCell>
                         <TableCell className="text-gray-600">{formatCurrency(fund.lumpsumInvested)}</TableCell>
                         <TableCell>{formatCurrency(fund.currentValue)}</TableCell>
+                        <TableCell className="text-gray-600">{formatCurrency(fund.exitLoad)}</TableCell>
                         <TableCell className={fund.profit >= 0 ? 'text-green-600 font-semibold' : 'text-red-600 font-semibold'}>
                           {fund.profit >= 0 ? '+' : ''}{formatCurrency(fund.profit)}
                         </TableCell>
@@ -1045,6 +1130,10 @@ export function SIPLumpsumCalculator({ funds }: SIPLumpsumCalculatorProps) {
               </Table>
             </div>
           </Card>
+
+          {result.rebalancing && (
+            <RebalancingComparison comparison={result.rebalancing} config={rebalanceConfig} funds={funds} />
+          )}
         </div>
       )
       }
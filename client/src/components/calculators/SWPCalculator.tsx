@@ -37,8 +37,10 @@ import { SimpleRollingReturnCard } from '../SimpleRollingReturnCard';
 import { calculateXIRR } from '../../utils/financialCalculations';
 import { getLatestNAVBeforeDate, getToday } from '../../utils/dateUtils';
 import {
+  DEFAULT_TAX_RULES,
   simulateSWP,
   SWPStrategy,
+  TaxClass,
   TimelineEntry,
 } from '../../utils/swpSimulation';
 import {
@@ -53,6 +55,28 @@ import {
   TooltipProvider,
 } from '../ui/tooltip';
 import { generateSWPReport } from '../../utils/pdfGenerator';
+import { resolveExitLoad } from '../../utils/exitLoad';
+import { MonteCarloSWPPanel, MonteCarloPlan } from '../MonteCarloSWPPanel';
+import { SequenceRiskPanel } from '../SequenceRiskPanel';
+import { WithdrawalIndexationControls } from '../WithdrawalIndexationControls';
+import {
+  NO_INDEXATION,
+  effectiveInflationRate,
+  growingAnnuityCorpus,
+} from '../../utils/inflation';
+import type { WithdrawalIndexation } from '../../utils/inflation';
+import { WithdrawalPolicyControls } from '../WithdrawalPolicyControls';
+import { IncomeVariationCard } from '../IncomeVariationCard';
+import {
+  FIXED_WITHDRAWAL_POLICY,
+  WITHDRAWAL_POLICY_LABELS,
+  summariseIncomeVariation,
+} from '../../utils/withdrawalPolicy';
+import type { IncomeVariation, WithdrawalPolicy } from '../../utils/withdrawalPolicy';
+import type { BucketResults, BucketSwpConfig } from '../../types/bucket';
+import { ShareScenarioButton } from '../ShareScenarioButton';
+import { scenarioFunds } from '../../utils/scenarioLink';
+import type { SharedCalculatorInputs, SWPScenarioInputs } from '../../types/scenario';
 
 interface SWPCalculatorProps {
   funds: SelectedFund[];
@@ -67,6 +91,10 @@ interface SWPCalculatorProps {
   initialRiskFactor?: number;
   forcedMode?: CalculatorMode; // Force a specific mode and hide tabs
   title?: string; // Custom title for the calculator
+  // Called after each successful calculation, e.g. to save results to a bucket.
+  // swpConfig is null for custom frequencies, which buckets can't store.
+  onCalculated?: (results: BucketResults, swpConfig: BucketSwpConfig | null) => void;
+  shared?: SharedCalculatorInputs<SWPScenarioInputs>; // restored from a scenario link; overrides the initial* props
 }
 
 type Frequency = 'Monthly' | 'Quarterly' | 'Custom';
@@ -89,6 +117,9 @@ interface FundSummary {
   unitsPurchased: number;
   remainingUnits: number;
   totalWithdrawn: number;
+  realisedGain: number;
+  exitLoadPaid: number;
+  taxPaid: number;
   currentValue: number;
 }
 
@@ -100,6 +131,9 @@ interface TableRowData {
   nav: number;
   withdrawalAmount: number;
   unitsRedeemed: number;
+  realisedGain: number;
+  exitLoad: number;
+  taxDue: number;
   unitsLeft: number;
   fundValue: number;
   portfolioValue: number;
@@ -113,6 +147,11 @@ interface TableRowData {
 interface SWPCalculationResult {
   totalInvested: number;
   totalWithdrawn: number;
+  realisedGain: number;
+  totalExitLoad: number;
+  totalTaxPaid: number;
+  postTaxWithdrawn: number;
+  taxDrag: number;
   finalCorpus: number;
   finalPrincipalRemaining: number;
   finalProfitRemaining: number;
@@ -120,6 +159,9 @@ interface SWPCalculationResult {
   maxDrawdown: number;
   survivalMonths: number;
   depletedOn?: string | null;
+  firstWithdrawal: number;
+  lastWithdrawal: number; // scheduled amount of the last withdrawal, after indexation
+  incomeVariation: IncomeVariation | null;
   timeline: TimelineEntry[];
   chartData: ChartPoint[];
   fundSummaries: FundSummary[];
@@ -136,6 +178,7 @@ interface SWPInsights {
   requiredCorpusIndefinite: number | null;
   requiredCorpusFixedHorizon: number | null;
   adjustedReturnPercent: number | null;
+  inflationPercent: number;
 }
 
 const DEFAULT_RISK_ORDER = [
@@ -191,6 +234,25 @@ const deriveRiskBucket = (category: string | undefined): string => {
   return 'EQUITY_M';
 };
 
+// Conservative hybrids and debt-like categories are taxed at slab rate; other
+// hybrids (balanced advantage, arbitrage, aggressive) are equity-oriented.
+const deriveTaxClass = (category: string | undefined): TaxClass => {
+  if (!category) return 'EQUITY';
+  const normalized = category.toLowerCase();
+  if (
+    normalized.includes('debt') ||
+    normalized.includes('liquid') ||
+    normalized.includes('overnight') ||
+    normalized.includes('income') ||
+    normalized.includes('bond') ||
+    normalized.includes('gilt') ||
+    normalized.includes('money market') ||
+    normalized.includes('conservative')
+  )
+    return 'DEBT';
+  return 'EQUITY';
+};
+
 const round2 = (value: number) =>
   Math.round((value + Number.EPSILON) * 100) / 100;
 
@@ -222,30 +284,42 @@ export function SWPCalculator({
   initialEndDate,
   initialRiskFactor,
   forcedMode,
-  title
+  title,
+  onCalculated,
+  shared
 }: SWPCalculatorProps) {
-  const [purchaseDate, setPurchaseDate] = useState<string>(initialPurchaseDate || '');
-  const [swpStartDate, setSwpStartDate] = useState<string>(initialSwpStartDate || '');
-  const [endDate, setEndDate] = useState<string>(initialEndDate || '');
-  const [totalInvestment, setTotalInvestment] = useState<number>(initialInvestment || 0);
-  const [withdrawalAmount, setWithdrawalAmount] = useState<number>(initialWithdrawal || 10000);
-  const [frequency, setFrequency] = useState<Frequency>(initialFrequency || 'Monthly');
-  const [customFrequencyDays, setCustomFrequencyDays] = useState<number>(30);
-  const [strategy, setStrategy] = useState<SWPStrategy>('PROPORTIONAL');
-  const [fundRisk, setFundRisk] = useState<Record<string, string>>({});
+  const restored = shared?.inputs ?? {};
+  const [purchaseDate, setPurchaseDate] = useState<string>(restored.purchaseDate ?? (initialPurchaseDate || ''));
+  const [swpStartDate, setSwpStartDate] = useState<string>(restored.swpStartDate ?? (initialSwpStartDate || ''));
+  const [endDate, setEndDate] = useState<string>(restored.endDate ?? (initialEndDate || ''));
+  const [totalInvestment, setTotalInvestment] = useState<number>(restored.totalInvestment ?? (initialInvestment || 0));
+  const [withdrawalAmount, setWithdrawalAmount] = useState<number>(restored.withdrawalAmount ?? (initialWithdrawal || 10000));
+  const [frequency, setFrequency] = useState<Frequency>(restored.frequency ?? (initialFrequency || 'Monthly'));
+  const [customFrequencyDays, setCustomFrequencyDays] = useState<number>(restored.customFrequencyDays ?? 30);
+  const [strategy, setStrategy] = useState<SWPStrategy>(restored.strategy ?? 'PROPORTIONAL');
+  const [fundRisk, setFundRisk] = useState<Record<string, string>>(restored.fundRisk ?? {});
   const [showAdvanced, setShowAdvanced] = useState<boolean>(false);
   const [showTable, setShowTable] = useState<boolean>(false);
   const [mode, setMode] = useState<CalculatorMode>(forcedMode || 'NORMAL');
   const [autoWithdrawal, setAutoWithdrawal] = useState<number | null>(null);
   const [autoCorpus, setAutoCorpus] = useState<number | null>(null);
-  const [desiredWithdrawal, setDesiredWithdrawal] = useState<number>(0);
-  const [durationYears, setDurationYears] = useState<number>(0);
-  const [riskFactor, setRiskFactor] = useState<number>(initialRiskFactor || 3);
+  const [desiredWithdrawal, setDesiredWithdrawal] = useState<number>(
+    restored.desiredWithdrawal ?? (forcedMode === 'TARGET' ? initialWithdrawal || 0 : 0)
+  );
+  const [durationYears, setDurationYears] = useState<number>(restored.durationYears ?? (initialDuration || 0));
+  const [riskFactor, setRiskFactor] = useState<number>(restored.riskFactor ?? (initialRiskFactor || 3));
+  const [taxSlabRate, setTaxSlabRate] = useState<number>(restored.taxSlabRate ?? DEFAULT_TAX_RULES.debtSlabRate * 100);
+  // Flat withdrawals unless the user picks an indexation, as before it existed
+  const [withdrawalIndexation, setWithdrawalIndexation] = useState<WithdrawalIndexation>(
+    restored.withdrawalIndexation ?? NO_INDEXATION
+  );
+  const [withdrawalPolicy, setWithdrawalPolicy] = useState<WithdrawalPolicy>(restored.withdrawalPolicy ?? FIXED_WITHDRAWAL_POLICY);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [insights, setInsights] = useState<SWPInsights | null>(null);
   const [result, setResult] = useState<SWPCalculationResult | null>(null);
   const [selectedFundView, setSelectedFundView] = useState<string>('bucket');
+  const [monteCarloPlan, setMonteCarloPlan] = useState<MonteCarloPlan | null>(null);
 
   useEffect(() => {
     setFundRisk((prev) => {
@@ -261,6 +335,7 @@ export function SWPCalculator({
   useEffect(() => {
     setResult(null);
     setInsights(null);
+    setMonteCarloPlan(null);
   }, [
     funds,
     purchaseDate,
@@ -275,7 +350,10 @@ export function SWPCalculator({
     mode,
     desiredWithdrawal,
     durationYears,
-    riskFactor
+    riskFactor,
+    taxSlabRate,
+    withdrawalIndexation,
+    withdrawalPolicy
   ]);
 
   // Set initial values from props if provided
@@ -305,6 +383,10 @@ export function SWPCalculator({
     }
   }, [forcedMode]);
 
+  useEffect(() => {
+    if (shared?.autoRun) calculateSWP();
+  }, []);
+
   const generateWithdrawalDates = (start: string, end: string): string[] => {
     const dates: string[] = [];
     const startDateObj = new Date(start);
@@ -354,6 +436,7 @@ export function SWPCalculator({
     setAutoWithdrawal(null);
     setAutoCorpus(null);
     setSelectedFundView('bucket');
+    setMonteCarloPlan(null);
 
     try {
       if (!purchaseDate) {
@@ -389,6 +472,10 @@ export function SWPCalculator({
         throw new Error('Please select at least one fund.');
       }
 
+      if (withdrawalIndexation.type === 'CPI' && withdrawalIndexation.series.length < 2) {
+        throw new Error('Upload a CPI file or choose a different inflation indexation.');
+      }
+
       if (strategy === 'RISK_BUCKET') {
         const missingRisk = funds.filter((fund) => !fundRisk[fund.id]);
         if (missingRisk.length > 0) {
@@ -438,9 +525,11 @@ export function SWPCalculator({
       const portfolioVolatility = computeWeightedAverage(fundVols, targetWeights);
       const effectiveRiskFactor = Math.max(0.1, riskFactor);
       const periodsPerYear = periodsPerYearFromFrequency(frequency, customFrequencyDays);
+      const inflationPercent = effectiveInflationRate(withdrawalIndexation);
 
+      // Indexed withdrawals can only be sustained out of the real return
       const swrAnnualPercent =
-        portfolioCAGR !== null ? portfolioCAGR / effectiveRiskFactor : null;
+        portfolioCAGR !== null ? (portfolioCAGR - inflationPercent) / effectiveRiskFactor : null;
       const swrPeriodPercent =
         swrAnnualPercent !== null ? swrAnnualPercent / periodsPerYear : null;
       const swrPeriodRate =
@@ -469,14 +558,12 @@ export function SWPCalculator({
       let requiredCorpusFixedHorizon: number | null = null;
       if (desiredPerPeriod && durationYears > 0) {
         const annualWithdrawal = desiredPerPeriod * periodsPerYear;
-        if (adjustedReturnRate && adjustedReturnRate > 0) {
-          requiredCorpusFixedHorizon =
-            annualWithdrawal *
-            (1 - Math.pow(1 + adjustedReturnRate, -durationYears)) /
-            adjustedReturnRate;
-        } else {
-          requiredCorpusFixedHorizon = annualWithdrawal * durationYears;
-        }
+        requiredCorpusFixedHorizon = growingAnnuityCorpus(
+          annualWithdrawal,
+          adjustedReturnRate && adjustedReturnRate > 0 ? adjustedReturnRate : 0,
+          inflationPercent / 100,
+          durationYears
+        );
       }
 
       let simulationTotalInvestment = totalInvestment;
@@ -535,9 +622,11 @@ export function SWPCalculator({
         requiredCorpusIndefinite,
         requiredCorpusFixedHorizon,
         adjustedReturnPercent,
+        inflationPercent,
       });
 
       const initialUnits: Record<string, number> = {};
+      const taxClassByFund: Record<string, TaxClass> = {};
       const navAtPurchase: Record<string, number> = {};
       const initialInvestmentByFund: Record<string, number> = {};
 
@@ -565,6 +654,7 @@ export function SWPCalculator({
         const units = navPoint.nav > 0 ? amountForFund / navPoint.nav : 0;
         initialUnits[fund.id] = units;
         initialInvestmentByFund[fund.id] = amountForFund;
+        taxClassByFund[fund.id] = deriveTaxClass(fund.category);
       });
 
       const simulation = simulateSWP({
@@ -577,6 +667,19 @@ export function SWPCalculator({
         navSeriesByFund: navMap,
         riskOrder: strategy === 'RISK_BUCKET' ? [...DEFAULT_RISK_ORDER] : undefined,
         fundRisk: strategy === 'RISK_BUCKET' ? fundRisk : undefined,
+        purchaseLots: Object.fromEntries(
+          funds.map((fund) => [
+            fund.id,
+            [{ date: purchaseDate, units: initialUnits[fund.id], nav: navAtPurchase[fund.id] }],
+          ])
+        ),
+        taxClassByFund,
+        taxRules: { debtSlabRate: taxSlabRate / 100 },
+        exitLoadByFund: Object.fromEntries(
+          funds.map((fund) => [fund.id, resolveExitLoad(fund.exitLoad)])
+        ),
+        withdrawalIndexation,
+        withdrawalPolicy,
       });
 
       const withdrawalEntries = simulation.timeline.filter(
@@ -602,6 +705,9 @@ export function SWPCalculator({
           unitsPurchased: initialUnits[fund.id],
           remainingUnits,
           totalWithdrawn: fundResult?.totalWithdrawn ?? 0,
+          realisedGain: fundResult?.realisedGain ?? 0,
+          exitLoadPaid: fundResult?.exitLoadPaid ?? 0,
+          taxPaid: fundResult?.taxPaid ?? 0,
           currentValue,
         };
       });
@@ -704,6 +810,9 @@ export function SWPCalculator({
             nav: navValue,
             withdrawalAmount: sale?.amount ?? 0,
             unitsRedeemed: sale?.unitsSold ?? 0,
+            realisedGain: sale?.realisedGain ?? 0,
+            exitLoad: sale?.exitLoad ?? 0,
+            taxDue: sale?.taxDue ?? 0,
             unitsLeft,
             fundValue,
             portfolioValue: entry.portfolioValue,
@@ -716,24 +825,81 @@ export function SWPCalculator({
         });
       });
 
+      const survivalMonths = simulation.totals.depletedOn
+        ? withdrawalEntries.length
+        : withdrawalSchedule.length;
+      const firstWithdrawal = withdrawalEntries[0]?.action?.requested ?? simulationWithdrawal;
+      const lastWithdrawal =
+        withdrawalEntries[withdrawalEntries.length - 1]?.action?.requested ?? simulationWithdrawal;
+
       setResult({
         totalInvested: simulationTotalInvestment,
         totalWithdrawn: round2(simulation.totals.withdrawn),
+        realisedGain: simulation.totals.realisedGain,
+        totalExitLoad: simulation.totals.exitLoadPaid,
+        totalTaxPaid: simulation.totals.taxPaid,
+        postTaxWithdrawn: simulation.totals.postTaxWithdrawn,
+        taxDrag: simulation.totals.effectiveTaxDrag,
         finalCorpus,
         finalPrincipalRemaining,
         finalProfitRemaining,
         xirr: xirr ?? null,
         maxDrawdown: simulation.totals.maxDrawdown,
-        survivalMonths: simulation.totals.depletedOn
-          ? withdrawalEntries.length
-          : withdrawalSchedule.length,
+        survivalMonths,
         depletedOn: simulation.totals.depletedOn,
+        firstWithdrawal,
+        lastWithdrawal,
+        incomeVariation: summariseIncomeVariation(simulation.timeline),
         timeline: simulation.timeline,
         chartData,
         fundSummaries,
         tableRows,
       });
 
+      onCalculated?.(
+        {
+          mode,
+          totalInvested: simulationTotalInvestment,
+          totalWithdrawn: round2(simulation.totals.withdrawn),
+          finalCorpus,
+          xirr: xirr ?? null,
+          survivalMonths,
+          depletedOn: simulation.totals.depletedOn,
+          firstWithdrawal,
+          lastWithdrawal,
+        },
+        frequency === 'Custom'
+          ? null
+          : {
+            mode: mode === 'TARGET' ? 'PAYOUT' : 'INVESTMENT',
+            payoutAmount: simulationWithdrawal,
+            investmentAmount: simulationTotalInvestment,
+            frequency,
+            duration: durationYears > 0 ? durationYears : undefined,
+          }
+      );
+
+      // Custom day intervals don't map onto the monthly bootstrap
+      if (frequency !== 'Custom') {
+        setMonteCarloPlan({
+          corpus: simulationTotalInvestment,
+          withdrawalAmount: simulationWithdrawal,
+          withdrawalsPerYear: frequency === 'Monthly' ? 12 : 4,
+          targetWeights,
+          navSeriesByFund: navMap,
+          strategy,
+          riskOrder: strategy === 'RISK_BUCKET' ? [...DEFAULT_RISK_ORDER] : undefined,
+          fundRisk: strategy === 'RISK_BUCKET' ? fundRisk : undefined,
+          taxClassByFund,
+          taxRules: { debtSlabRate: taxSlabRate / 100 },
+          exitLoadByFund: Object.fromEntries(
+            funds.map((fund) => [fund.id, resolveExitLoad(fund.exitLoad)])
+          ),
+          withdrawalIndexation,
+          withdrawalPolicy,
+        });
+      }
+
       setShowTable(false);
       setIsLoading(false);
     } catch (err: any) {
@@ -1175,6 +1341,17 @@ export function SWPCalculator({
           )}
         </div>
 
+        <div className="mt-4">
+          <WithdrawalIndexationControls
+            value={withdrawalIndexation}
+            onChange={setWithdrawalIndexation}
+          />
+        </div>
+
+        <div className="mt-4">
+          <WithdrawalPolicyControls value={withdrawalPolicy} onChange={setWithdrawalPolicy} />
+        </div>
+
         {!hideAdvanced && (
           <div className="mt-6 border rounded-lg border-slate-200 bg-slate-50">
             <button
@@ -1206,6 +1383,26 @@ export function SWPCalculator({
                     Higher risk factor = more conservative withdrawal rate. Default is 3.
                   </p>
                 </div>
+                <div>
+                  <Label htmlFor="tax-slab-rate">Income tax slab for debt funds (%)</Label>
+                  <Input
+                    id="tax-slab-rate"
+                    type="number"
+                    min={0}
+                    max={42.74}
+                    step={0.5}
+                    value={taxSlabRate}
+                    onChange={(event) => {
+                      const value = Number(event.target.value) || 0;
+                      setTaxSlabRate(value >= 0 && value <= 42.74 ? value : (value < 0 ? 0 : 42.74));
+                    }}
+                    className="mt-1"
+                  />
+                  <p className="text-xs text-slate-500 mt-1">
+                    Equity funds use 20% STCG and 12.5% LTCG above ₹1.25 lakh a year. Debt fund
+                    gains are taxed at this slab. 4% cess is added on top.
+                  </p>
+                </div>
                 <div>
                   <Label htmlFor="strategy">Withdrawal Strategy</Label>
                   <Select
@@ -1272,30 +1469,58 @@ export function SWPCalculator({
           </div>
         )}
 
-        <Button
-          onClick={calculateSWP}
-          disabled={
-            isLoading ||
-            !purchaseDate ||
-            !swpStartDate ||
-            !endDate ||
-            funds.length === 0 ||
-            (mode === 'TARGET' ? (desiredWithdrawal <= 0 || isNaN(desiredWithdrawal)) : totalInvestment <= 0)
-          }
-          className="w-full mt-6"
-          title={
-            isLoading ? 'Calculating...' :
-              !purchaseDate ? 'Please select Investment Date' :
-                !swpStartDate ? 'Please select SWP Start Date' :
-                  !endDate ? 'Please select End Date' :
-                    funds.length === 0 ? 'Please select at least one fund' :
-                      mode === 'TARGET' && (desiredWithdrawal <= 0 || isNaN(desiredWithdrawal)) ? 'Please enter desired withdrawal amount' :
-                        mode !== 'TARGET' && totalInvestment <= 0 ? 'Please enter total investment amount' :
-                          'Click to run simulation'
-          }
-        >
-          {isLoading ? 'Simulating...' : 'Run SWP Simulation'}
-        </Button>
+        <div className="flex gap-2 mt-6">
+          <Button
+            onClick={calculateSWP}
+            disabled={
+              isLoading ||
+              !purchaseDate ||
+              !swpStartDate ||
+              !endDate ||
+              funds.length === 0 ||
+              (mode === 'TARGET' ? (desiredWithdrawal <= 0 || isNaN(desiredWithdrawal)) : totalInvestment <= 0)
+            }
+            className="flex-1"
+            title={
+              isLoading ? 'Calculating...' :
+                !purchaseDate ? 'Please select Investment Date' :
+                  !swpStartDate ? 'Please select SWP Start Date' :
+                    !endDate ? 'Please select End Date' :
+                      funds.length === 0 ? 'Please select at least one fund' :
+                        mode === 'TARGET' && (desiredWithdrawal <= 0 || isNaN(desiredWithdrawal)) ? 'Please enter desired withdrawal amount' :
+                          mode !== 'TARGET' && totalInvestment <= 0 ? 'Please enter total investment amount' :
+                            'Click to run simulation'
+            }
+          >
+            {isLoading ? 'Simulating...' : 'Run SWP Simulation'}
+          </Button>
+          <ShareScenarioButton
+            disabled={funds.length === 0}
+            scenario={{
+              page: 'retirement-plan',
+              calculator: 'SWP',
+              mode,
+              funds: scenarioFunds(funds),
+              inputs: {
+                purchaseDate,
+                swpStartDate,
+                endDate,
+                totalInvestment,
+                withdrawalAmount,
+                frequency,
+                customFrequencyDays,
+                strategy,
+                fundRisk,
+                desiredWithdrawal,
+                durationYears,
+                riskFactor,
+                taxSlabRate,
+                withdrawalIndexation,
+                withdrawalPolicy,
+              },
+            }}
+          />
+        </div>
       </Card>
 
       {/* Loading State */}
@@ -1372,6 +1597,8 @@ export function SWPCalculator({
                   {insights.swrPeriodPercent !== null
                     ? `${formatNumber(insights.swrPeriodPercent, 3)}%`
                     : '—'}
+                  {insights.inflationPercent > 0 &&
+                    ` (after ${formatNumber(insights.inflationPercent, 2)}% inflation)`}
                 </div>
               </div>
             </div>
@@ -1429,7 +1656,10 @@ export function SWPCalculator({
                   {insights.adjustedReturnPercent !== null
                     ? `${formatNumber(insights.adjustedReturnPercent, 2)}%`
                     : 'Not enough history'}{' '}
-                  (CAGR minus volatility).
+                  (CAGR minus volatility)
+                  {insights.inflationPercent > 0 &&
+                    `, with withdrawals growing ${formatNumber(insights.inflationPercent, 2)}% a year`}
+                  .
                 </p>
               </Card>
             </div>
@@ -1473,6 +1703,34 @@ export function SWPCalculator({
                 {formatCurrency(result.totalWithdrawn)}
               </div>
             </Card>
+            <Card className="p-4 border-slate-200">
+              <div className="text-xs uppercase text-slate-500 font-semibold mb-2">
+                Net In-Hand (After Load &amp; Tax)
+              </div>
+              <div className="text-2xl font-bold text-slate-900 mb-2">
+                {formatCurrency(result.postTaxWithdrawn)}
+              </div>
+              <div className="space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-slate-600">Exit load:</span>
+                  <span className="font-semibold text-red-600">
+                    {formatCurrency(result.totalExitLoad)}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-600">Capital gains tax:</span>
+                  <span className="font-semibold text-red-600">
+                    {formatCurrency(result.totalTaxPaid)}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-slate-600">Tax drag:</span>
+                  <span className="font-semibold text-slate-900">
+                    {formatNumber(result.taxDrag * 100, 2)}%
+                  </span>
+                </div>
+              </div>
+            </Card>
             <Card className="p-4 border-slate-200">
               <div className="text-xs uppercase text-slate-500 font-semibold mb-2">
                 Final Corpus Value
@@ -1529,6 +1787,22 @@ export function SWPCalculator({
                   : 'Portfolio still active at end date'}
               </div>
             </Card>
+            {(withdrawalIndexation.type !== 'NONE' || withdrawalPolicy.type !== 'FIXED') && (
+              <Card className="p-4 border-slate-200">
+                <div className="text-xs uppercase text-slate-500 font-semibold mb-2">
+                  {withdrawalPolicy.type === 'FIXED' ? 'Inflation-Indexed Withdrawal' : 'Latest Withdrawal'}
+                </div>
+                <div className="text-2xl font-bold text-slate-900">
+                  {formatCurrency(result.lastWithdrawal)}
+                </div>
+                <div className="text-xs text-slate-500 mt-1">
+                  Last {frequencyDescriptor.toLowerCase()} withdrawal; the first was {formatCurrency(result.firstWithdrawal)}
+                  {insights && insights.inflationPercent > 0
+                    ? ` (indexed ${formatNumber(insights.inflationPercent, 2)}% a year)`
+                    : ''}
+                </div>
+              </Card>
+            )}
             <Card className="p-4 border-slate-200">
               <div className="text-xs uppercase text-slate-500 font-semibold mb-2">
                 Max Drawdown
@@ -1540,6 +1814,14 @@ export function SWPCalculator({
             <SimpleRollingReturnCard funds={funds} />
           </div>
 
+          {result.incomeVariation && result.incomeVariation.years.length > 1 && (
+            <IncomeVariationCard
+              variation={result.incomeVariation}
+              policyLabel={WITHDRAWAL_POLICY_LABELS[withdrawalPolicy.type]}
+              periodLabel={frequencyDescriptor}
+            />
+          )}
+
           <Card className="p-4 sm:p-6 border-slate-200">
             <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-6">
               <div>
@@ -1680,6 +1962,9 @@ export function SWPCalculator({
                   <TableHead>Units bought</TableHead>
                   <TableHead>Units remaining</TableHead>
                   <TableHead>Total withdrawn</TableHead>
+                  <TableHead>Realised gain</TableHead>
+                  <TableHead>Exit load</TableHead>
+                  <TableHead>Tax paid</TableHead>
                   <TableHead>Current value</TableHead>
                 </TableRow>
               </TableHeader>
@@ -1692,6 +1977,9 @@ export function SWPCalculator({
                     <TableCell>{formatNumber(fund.unitsPurchased, 4)}</TableCell>
                     <TableCell>{formatNumber(fund.remainingUnits, 4)}</TableCell>
                     <TableCell>{formatCurrency(fund.totalWithdrawn)}</TableCell>
+                    <TableCell>{formatCurrency(fund.realisedGain)}</TableCell>
+                    <TableCell>{formatCurrency(fund.exitLoadPaid)}</TableCell>
+                    <TableCell>{formatCurrency(fund.taxPaid)}</TableCell>
                     <TableCell>{formatCurrency(fund.currentValue)}</TableCell>
                   </TableRow>
                 ))}
@@ -1699,6 +1987,24 @@ export function SWPCalculator({
             </Table>
           </Card>
 
+          {monteCarloPlan && (
+            <MonteCarloSWPPanel
+              plan={monteCarloPlan}
+              defaultYears={mode === 'TARGET' && durationYears > 0 ? durationYears : 30}
+            />
+          )}
+
+          {monteCarloPlan && (
+            <SequenceRiskPanel
+              plan={monteCarloPlan}
+              historyStart={funds.reduce(
+                (latest, fund) => (fund.launchDate && fund.launchDate > latest ? fund.launchDate : latest),
+                ''
+              ) || purchaseDate}
+              defaultYears={mode === 'TARGET' && durationYears > 0 ? durationYears : 10}
+            />
+          )}
+
           <div className="flex items-center justify-between">
             <h3 className="text-lg font-semibold text-slate-900">Withdrawal ledger</h3>
             <Button
@@ -1726,6 +2032,9 @@ export function SWPCalculator({
                       <TableHead>NAV (₹)</TableHead>
                       <TableHead>Withdrawal (₹)</TableHead>
                       <TableHead>Units redeemed</TableHead>
+                      <TableHead>Realised gain (₹)</TableHead>
+                      <TableHead>Exit load (₹)</TableHead>
+                      <TableHead>Tax (₹)</TableHead>
                       <TableHead>Units left</TableHead>
                       <TableHead>Fund value (₹)</TableHead>
                       <TableHead>Invested value (₹)</TableHead>
@@ -1778,6 +2087,9 @@ export function SWPCalculator({
                             <TableCell>{formatNumber(row.nav, 2)}</TableCell>
                             <TableCell>{formatCurrency(row.withdrawalAmount)}</TableCell>
                             <TableCell>{formatNumber(row.unitsRedeemed, 4)}</TableCell>
+                            <TableCell>{formatCurrency(row.realisedGain)}</TableCell>
+                            <TableCell>{formatCurrency(row.exitLoad)}</TableCell>
+                            <TableCell>{formatCurrency(row.taxDue)}</TableCell>
                             <TableCell>{formatNumber(row.unitsLeft, 4)}</TableCell>
                             <TableCell>{formatCurrency(row.fundValue)}</TableCell>
                             <TableCell>{formatCurrency(row.investedValue)}</TableCell>
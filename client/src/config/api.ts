@@ -7,9 +7,16 @@ export const API_BASE_URL = import.meta.env.VITE_API_URL ||
 export const API_ENDPOINTS = {
   FUNDS_SEARCH: `${API_BASE_URL}/api/funds/search`,
   FUNDS_NAV: `${API_BASE_URL}/api/funds/get-nav-bucket`,
+  FUNDS_METADATA: `${API_BASE_URL}/api/funds/metadata`,
   SUGGESTED_BUCKETS: `${API_BASE_URL}/api/suggested-buckets`,
   BLOGS: `${API_BASE_URL}/api/blogs`,
   HEALTH_CHECK: `${API_BASE_URL}/api/health`,
   BUCKET_LIVE_RETURNS: `${API_BASE_URL}/api/bucket-live-returns`,
+  BENCHMARKS: `${API_BASE_URL}/api/benchmarks`,
+  FUND_HOLDINGS: `${API_BASE_URL}/api/fund-holdings`,
+  PORTFOLIOS: `${API_BASE_URL}/api/portfolios`,
+  WATCHLISTS: `${API_BASE_URL}/api/watchlists`,
+  USERS: `${API_BASE_URL}/api/users`,
+  AUDIT_LOGS: `${API_BASE_URL}/api/audit-logs`,
 } as const;
 
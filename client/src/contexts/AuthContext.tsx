@@ -136,14 +136,19 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     // If there's an error, show it and clean URL
     if (error) {
       console.error('OAuth error:', error);
-      // Clean URL
-      window.history.replaceState({}, document.title, window.location.pathname);
-      return;
     }
 
-    // Clean URL if there were any params (but don't fetch user again - initializeAuth handles it)
-    if (window.location.search && !error) {
-      window.history.replaceState({}, document.title, window.location.pathname);
+    // Remove only the OAuth params; pages keep their own state in the query string
+    // (don't fetch user again - initializeAuth handles it)
+    if (urlParams.has('error') || urlParams.has('details')) {
+      urlParams.delete('error');
+      urlParams.delete('details');
+      const search = urlParams.toString();
+      window.history.replaceState(
+        window.history.state,
+        document.title,
+        `${window.location.pathname}${search ? `?${search}` : ''}`
+      );
     }
   }, []);
 
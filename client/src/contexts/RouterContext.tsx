@@ -0,0 +1,146 @@
+// client/src/contexts/RouterContext.tsx
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { legacyHashPath, matchRoute, RouteMatch } from '../utils/routes';
+
+/**
+ * History API router. Each history entry carries a key in `history.state`;
+ * scroll positions are remembered per key, so back/forward returns to where
+ * the user was while new pages open at the top.
+ */
+
+interface RouterLocation {
+  pathname: string;
+  search: string;
+}
+
+interface NavigateOptions {
+  replace?: boolean; // replace the current entry instead of adding one
+}
+
+interface RouterContextType {
+  location: RouterLocation;
+  route: RouteMatch | null; // null when no page matches the path
+  navigate: (to: string, options?: NavigateOptions) => void;
+}
+
+const SCROLL_STORAGE_KEY = 'scrollPositions';
+const MAX_RESTORE_ATTEMPTS = 30; // lazy pages and fetched content may take a moment to grow tall enough
+const RESTORE_RETRY_MS = 50;
+
+const RouterContext = createContext<RouterContextType | undefined>(undefined);
+
+export const useRouter = () => {
+  const context = useContext(RouterContext);
+  if (!context) {
+    throw new Error('useRouter must be used within RouterProvider');
+  }
+  return context;
+};
+
+const readLocation = (): RouterLocation => ({
+  pathname: window.location.pathname,
+  search: window.location.search,
+});
+
+const createKey = () => Math.random().toString(36).slice(2, 10);
+
+const currentKey = (): string | undefined => window.history.state?.key;
+
+const loadScrollPositions = (): Map<string, number> => {
+  try {
+    return new Map(JSON.parse(sessionStorage.getItem(SCROLL_STORAGE_KEY) || '[]'));
+  } catch {
+    return new Map();
+  }
+};
+
+interface RouterProviderProps {
+  children: React.ReactNode;
+}
+
+export const RouterProvider: React.FC<RouterProviderProps> = ({ children }) => {
+  const [location, setLocation] = useState<RouterLocation>(() => {
+    // Links from before path-based routing used the hash
+    const legacyPath = window.location.pathname === '/' ? legacyHashPath(window.location.hash) : null;
+    if (legacyPath) {
+      window.history.replaceState({ key: createKey() }, '', legacyPath);
+    } else if (!currentKey()) {
+      window.history.replaceState({ ...window.history.state, key: createKey() }, '');
+    }
+    return readLocation();
+  });
+  const scrollPositions = useRef<Map<string, number>>(loadScrollPositions());
+  const pendingScroll = useRef<number | null>(null);
+
+  useEffect(() => {
+    window.history.scrollRestoration = 'manual';
+
+    let frame = 0;
+    const handleScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        const key = currentKey();
+        if (key) scrollPositions.current.set(key, window.scrollY);
+      });
+    };
+    const handlePageHide = () => {
+      sessionStorage.setItem(SCROLL_STORAGE_KEY, JSON.stringify([...scrollPositions.current]));
+    };
+    const handlePopState = () => {
+      const key = currentKey();
+      pendingScroll.current = key ? scrollPositions.current.get(key) ?? 0 : 0;
+      setLocation(readLocation());
+    };
+
+    // A reload restores the position the page was left at
+    const key = currentKey();
+    if (key && scrollPositions.current.has(key)) {
+      pendingScroll.current = scrollPositions.current.get(key)!;
+    }
+
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    window.addEventListener('pagehide', handlePageHide);
+    window.addEventListener('popstate', handlePopState);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', handleScroll);
+      window.removeEventListener('pagehide', handlePageHide);
+      window.removeEventListener('popstate', handlePopState);
+    };
+  }, []);
+
+  // Runs after the page for the new location has rendered
+  useEffect(() => {
+    const target = pendingScroll.current;
+    if (target === null) return;
+    pendingScroll.current = null;
+
+    let attempts = 0;
+    let timer: ReturnType<typeof setTimeout>;
+    const restore = () => {
+      window.scrollTo({ top: target, behavior: 'instant' });
+      if (Math.abs(window.scrollY - target) > 1 && ++attempts < MAX_RESTORE_ATTEMPTS) {
+        timer = setTimeout(restore, RESTORE_RETRY_MS);
+      }
+    };
+    restore();
+    return () => clearTimeout(timer);
+  }, [location]);
+
+  const navigate = useCallback((to: string, options: NavigateOptions = {}) => {
+    if (options.replace) {
+      window.history.replaceState({ key: currentKey() ?? createKey() }, '', to);
+    } else {
+      window.history.pushState({ key: createKey() }, '', to);
+      pendingScroll.current = 0;
+    }
+    setLocation(readLocation());
+  }, []);
+
+  const value = useMemo<RouterContextType>(
+    () => ({ location, route: matchRoute(location.pathname), navigate }),
+    [location, navigate]
+  );
+
+  return <RouterContext.Provider value={value}>{children}</RouterContext.Provider>;
+};
@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { FinancialGoal } from '../types/goal';
+
+const STORAGE_KEY = 'financialGoals';
+
+const loadGoals = (): FinancialGoal[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+const newGoalId = () => `goal-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Financial goals, kept in localStorage so they stay on this device.
+ */
+export function useGoals() {
+  const [goals, setGoals] = useState<FinancialGoal[]>(loadGoals);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(goals));
+  }, [goals]);
+
+  const addGoals = useCallback((entries: Omit<FinancialGoal, 'id'>[]) => {
+    setGoals((prev) => [...prev, ...entries.map((entry) => ({ ...entry, id: newGoalId() }))]);
+  }, []);
+
+  const updateGoal = useCallback((id: string, updates: Partial<FinancialGoal>) => {
+    setGoals((prev) => prev.map((goal) => (goal.id === id ? { ...goal, ...updates } : goal)));
+  }, []);
+
+  const removeGoal = useCallback((id: string) => {
+    setGoals((prev) => prev.filter((goal) => goal.id !== id));
+  }, []);
+
+  return { goals, addGoals, updateGoal, removeGoal };
+}
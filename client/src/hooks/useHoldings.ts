@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { HoldingTransaction } from '../types/holdings';
+
+const STORAGE_KEY = 'holdingsTransactions';
+
+const loadTransactions = (): HoldingTransaction[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+const newTransactionId = () => `txn-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Recorded transactions, kept in localStorage so they stay on this device.
+ */
+export function useHoldings() {
+  const [transactions, setTransactions] = useState<HoldingTransaction[]>(loadTransactions);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions));
+  }, [transactions]);
+
+  const addTransactions = useCallback((entries: Omit<HoldingTransaction, 'id'>[]) => {
+    setTransactions((prev) => [...prev, ...entries.map((entry) => ({ ...entry, id: newTransactionId() }))]);
+  }, []);
+
+  const removeTransaction = useCallback((id: string) => {
+    setTransactions((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  const clearTransactions = useCallback(() => {
+    setTransactions([]);
+  }, []);
+
+  return { transactions, addTransactions, removeTransaction, clearTransactions };
+}
@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { MonteCarloSWPInput, MonteCarloSWPResult } from '../utils/monteCarloSWP';
+import type { MonteCarloWorkerResponse } from '../workers/monteCarloSWP.worker';
+
+/**
+ * Runs the Monte Carlo SWP simulation in a Web Worker. Starting a new run or
+ * unmounting terminates any run still in progress.
+ */
+export function useMonteCarloSWP() {
+  const workerRef = useRef<Worker | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [result, setResult] = useState<MonteCarloSWPResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const stopWorker = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  const cancel = useCallback(() => {
+    stopWorker();
+    setIsRunning(false);
+  }, [stopWorker]);
+
+  const reset = useCallback(() => {
+    cancel();
+    setResult(null);
+    setError(null);
+    setProgress({ completed: 0, total: 0 });
+  }, [cancel]);
+
+  const run = useCallback((input: MonteCarloSWPInput) => {
+    stopWorker();
+    setResult(null);
+    setError(null);
+    setProgress({ completed: 0, total: input.paths });
+    setIsRunning(true);
+
+    const worker = new Worker(new URL('../workers/monteCarloSWP.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+
+    worker.onmessage = (event: MessageEvent<MonteCarloWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        setProgress({ completed: message.completed, total: message.total });
+        return;
+      }
+      if (message.type === 'done') {
+        setResult(message.result);
+      } else {
+        setError(message.message);
+      }
+      setIsRunning(false);
+      stopWorker();
+    };
+    worker.onerror = (event) => {
+      setError(event.message || 'Monte Carlo simulation failed');
+      setIsRunning(false);
+      stopWorker();
+    };
+
+    worker.postMessage({ type: 'run', input });
+  }, [stopWorker]);
+
+  useEffect(() => stopWorker, [stopWorker]);
+
+  return { run, cancel, reset, isRunning, progress, result, error };
+}
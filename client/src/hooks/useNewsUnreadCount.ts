@@ -0,0 +1,39 @@
+// client/src/hooks/useNewsUnreadCount.ts
+import { useEffect, useState } from 'react';
+import { fetchUnreadNewsCount, NEWS_UNREAD_EVENT } from '../services/watchlistsService';
+
+// News is refreshed every 2 hours; checking more often than this finds nothing new
+const POLL_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Unread articles matching the user's watchlists. Polled while logged in, and
+ * kept in step with the news page as it reads the feed.
+ */
+export const useNewsUnreadCount = (enabled: boolean) => {
+  const [count, setCount] = useState(0);
+
+  useEffect(() => {
+    if (!enabled) {
+      setCount(0);
+      return;
+    }
+
+    let cancelled = false;
+    const load = async () => {
+      const unread = await fetchUnreadNewsCount();
+      if (!cancelled) setCount(unread);
+    };
+    const handleChange = (event: Event) => setCount((event as CustomEvent<number>).detail);
+
+    load();
+    const interval = setInterval(load, POLL_INTERVAL_MS);
+    window.addEventListener(NEWS_UNREAD_EVENT, handleChange);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      window.removeEventListener(NEWS_UNREAD_EVENT, handleChange);
+    };
+  }, [enabled]);
+
+  return count;
+};
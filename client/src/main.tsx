@@ -2,6 +2,7 @@ import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
 import { AuthProvider } from './contexts/AuthContext'
+import { RouterProvider } from './contexts/RouterContext'
 import './styles/globals.css'
 // Import auth debug utilities (makes them available in console)
 import './utils/authDebug'
@@ -9,7 +10,9 @@ import './utils/authDebug'
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <AuthProvider>
-      <App />
+      <RouterProvider>
+        <App />
+      </RouterProvider>
     </AuthProvider>
   </React.StrictMode>,
 )
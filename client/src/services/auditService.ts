@@ -0,0 +1,66 @@
+// client/src/services/auditService.ts
+import { API_ENDPOINTS } from '../config/api';
+import type { AuditFilters, AuditListResponse } from '../types/audit';
+import { getAccessToken } from './authService';
+
+/**
+ * Headers for admin requests, made as the logged-in user
+ */
+function buildHeaders(): HeadersInit {
+  const token = getAccessToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+function buildQueryString(filters: AuditFilters): string {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.append(key, String(value));
+  });
+  return params.toString();
+}
+
+/**
+ * Get a page of audit entries, newest first (admins only)
+ */
+export async function fetchAuditLogs(filters: AuditFilters = {}): Promise<AuditListResponse> {
+  const queryString = buildQueryString(filters);
+  const response = await fetch(`${API_ENDPOINTS.AUDIT_LOGS}${queryString ? `?${queryString}` : ''}`, {
+    headers: buildHeaders(),
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || `Failed to fetch audit log: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Download the entries matching the filters as CSV (admins only). Fetched
+ * rather than linked, so the request carries the login.
+ */
+export async function downloadAuditLogCsv(filters: AuditFilters = {}): Promise<void> {
+  const { limit, skip, ...exportFilters } = filters;
+  const queryString = buildQueryString(exportFilters);
+  const response = await fetch(`${API_ENDPOINTS.AUDIT_LOGS}/export${queryString ? `?${queryString}` : ''}`, {
+    headers: buildHeaders(),
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || `Failed to export audit log: ${response.statusText}`);
+  }
+
+  const blob = await response.blob();
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `audit-log-${new Date().toISOString().split('T')[0]}.csv`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
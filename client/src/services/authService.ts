@@ -1,12 +1,20 @@
 // client/src/services/authService.ts
 import { API_BASE_URL } from '../config/api';
 
+// Staff roles open parts of the admin panel; everyone else is a 'user'
+export type UserRole = 'user' | 'analyst' | 'editor' | 'admin';
+
+// What a role may manage, as granted by the server
+export type AdminPermission = 'blogs' | 'suggested-buckets' | 'users' | 'audit-log';
+
 export interface User {
   id: string;
   email: string;
   name: string;
   picture: string | null;
   authProvider: 'google' | 'email';
+  role?: UserRole; // missing from users stored before roles existed
+  permissions?: AdminPermission[];
   lastLoginAt?: string;
 }
 
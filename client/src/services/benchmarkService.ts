@@ -0,0 +1,45 @@
+import { API_ENDPOINTS } from '../config/api';
+import { logger } from '../utils/logger';
+import type { BenchmarkHistory, BenchmarkInfo } from '../utils/benchmark';
+
+const CACHE_TTL = 6 * 60 * 60 * 1000; // 6 hours, same as NAV data
+const historyCache = new Map<string, { data: BenchmarkHistory; expiresAt: number }>();
+let listCache: { data: BenchmarkInfo[]; expiresAt: number } | null = null;
+
+export async function fetchBenchmarks(): Promise<BenchmarkInfo[]> {
+  if (listCache && Date.now() < listCache.expiresAt) {
+    return listCache.data;
+  }
+
+  const response = await fetch(API_ENDPOINTS.BENCHMARKS);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch benchmarks: ${response.statusText}`);
+  }
+
+  const data: BenchmarkInfo[] = await response.json();
+  listCache = { data, expiresAt: Date.now() + CACHE_TTL };
+  return data;
+}
+
+export async function fetchBenchmarkHistory(
+  slug: string,
+  startDate: string,
+  endDate: string
+): Promise<BenchmarkHistory> {
+  const cacheKey = `${slug}-${startDate}-${endDate}`;
+  const cached = historyCache.get(cacheKey);
+  if (cached && Date.now() < cached.expiresAt) {
+    return cached.data;
+  }
+
+  const params = new URLSearchParams({ from: startDate, to: endDate });
+  const response = await fetch(`${API_ENDPOINTS.BENCHMARKS}/${encodeURIComponent(slug)}/history?${params}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch benchmark history: ${response.statusText}`);
+  }
+
+  const data: BenchmarkHistory = await response.json();
+  logger.log('[benchmarkService] History received:', slug, data.history.length, 'points');
+  historyCache.set(cacheKey, { data, expiresAt: Date.now() + CACHE_TTL });
+  return data;
+}
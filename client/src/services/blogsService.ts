@@ -1,7 +1,23 @@
 // client/src/services/blogsService.ts
 import { API_ENDPOINTS } from '../config/api';
-import type { Blog, Category, Tag, BlogFilters, BlogListResponse } from '../types/blog';
-import { getAdminToken } from '../hooks/useAuth';
+import type { Blog, BlogContentFormat, BlogRevision, BlogStatus, Category, Tag, BlogFilters, BlogListResponse } from '../types/blog';
+import { getAccessToken } from './authService';
+
+/**
+ * Headers for admin requests, made as the logged-in user. Cookies carry the
+ * session for Google OAuth; email/password logins also keep a token in localStorage.
+ */
+function buildHeaders(json: boolean = false): HeadersInit {
+  const headers: Record<string, string> = {};
+  const token = getAccessToken();
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+  if (json) {
+    headers['Content-Type'] = 'application/json';
+  }
+  return headers;
+}
 
 /**
  * Build query string from filters
@@ -9,6 +25,7 @@ import { getAdminToken } from '../hooks/useAuth';
 function buildQueryString(filters: BlogFilters): string {
   const params = new URLSearchParams();
   
+  if (filters.status) params.append('status', filters.status);
   if (filters.category) params.append('category', filters.category);
   if (filters.tags && filters.tags.length > 0) {
     filters.tags.forEach(tag => params.append('tags', tag));
@@ -57,6 +74,24 @@ export async function fetchBlogs(filters: BlogFilters = {}): Promise<BlogListRes
   }
 }
 
+/**
+ * Get blogs in every status (editors and admins)
+ */
+export async function fetchAdminBlogs(filters: BlogFilters = {}): Promise<BlogListResponse> {
+  const queryString = buildQueryString(filters);
+  const response = await fetch(`${API_ENDPOINTS.BLOGS}/admin/all${queryString ? `?${queryString}` : ''}`, {
+    headers: buildHeaders(),
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || `Failed to fetch blogs: ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
 /**
  * Get a single blog by ID
  */
@@ -82,6 +117,32 @@ export async function fetchBlogById(id: string): Promise<Blog | null> {
   }
 }
 
+/**
+ * Get a single blog by slug. Previous slugs and ids resolve too; the
+ * returned blog carries its current slug.
+ */
+export async function fetchBlogBySlug(slug: string): Promise<Blog | null> {
+  try {
+    const url = `${API_ENDPOINTS.BLOGS}/slug/${encodeURIComponent(slug)}`;
+    const response = await fetch(url, {
+      credentials: 'include',
+    });
+    
+    if (!response.ok) {
+      if (response.status === 404) {
+        return null;
+      }
+      throw new Error(`Failed to fetch blog: ${response.statusText}`);
+    }
+    
+    const result = await response.json();
+    return result.data || null;
+  } catch (error) {
+    console.error('Error fetching blog:', error);
+    return null;
+  }
+}
+
 /**
  * Get all categories
  */
@@ -127,28 +188,26 @@ export async function fetchTags(): Promise<Tag[]> {
 }
 
 /**
- * Create a new blog (admin only)
+ * Create a new blog (editors and admins)
  */
 export async function createBlog(blogData: {
   title: string;
   content: string;
+  contentFormat?: BlogContentFormat; // defaults to Markdown
   image?: File;
   imageUrl?: string;
   categories: string[];
   tags: string[];
   exclusive: boolean;
   author?: string;
-  isPublished?: boolean;
+  status?: BlogStatus; // new posts start as drafts unless given
+  publishAt?: string; // ISO date, when status is 'scheduled'
 }): Promise<Blog> {
-  const token = getAdminToken();
-  if (!token) {
-    throw new Error('Admin authentication required');
-  }
-  
   try {
     const formData = new FormData();
     formData.append('title', blogData.title);
     formData.append('content', blogData.content);
+    formData.append('contentFormat', blogData.contentFormat ?? 'markdown');
     
     if (blogData.image) {
       formData.append('image', blogData.image);
@@ -167,15 +226,15 @@ export async function createBlog(blogData: {
     if (blogData.author) {
       formData.append('author', blogData.author);
     }
-    if (blogData.isPublished !== undefined) {
-      formData.append('isPublished', String(blogData.isPublished));
+    formData.append('status', blogData.status ?? 'draft');
+    if (blogData.publishAt) {
+      formData.append('publishAt', blogData.publishAt);
     }
     
     const response = await fetch(API_ENDPOINTS.BLOGS, {
       method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
+      headers: buildHeaders(),
+      credentials: 'include',
       body: formData,
     });
     
@@ -193,32 +252,28 @@ export async function createBlog(blogData: {
 }
 
 /**
- * Update an existing blog (admin only)
+ * Update an existing blog (editors and admins)
  */
 export async function updateBlog(
   id: string,
   updates: {
     title?: string;
     content?: string;
+    contentFormat?: BlogContentFormat;
     image?: File;
     imageUrl?: string;
     categories?: string[];
     tags?: string[];
     exclusive?: boolean;
     author?: string;
-    isPublished?: boolean;
   }
 ): Promise<Blog> {
-  const token = getAdminToken();
-  if (!token) {
-    throw new Error('Admin authentication required');
-  }
-  
   try {
     const formData = new FormData();
     
     if (updates.title) formData.append('title', updates.title);
     if (updates.content) formData.append('content', updates.content);
+    if (updates.contentFormat) formData.append('contentFormat', updates.contentFormat);
     
     if (updates.image) {
       formData.append('image', updates.image);
@@ -239,15 +294,10 @@ export async function updateBlog(
     if (updates.author) {
       formData.append('author', updates.author);
     }
-    if (updates.isPublished !== undefined) {
-      formData.append('isPublished', String(updates.isPublished));
-    }
-    
     const response = await fetch(`${API_ENDPOINTS.BLOGS}/${id}`, {
       method: 'PUT',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
+      headers: buildHeaders(),
+      credentials: 'include',
       body: formData,
     });
     
@@ -265,20 +315,85 @@ export async function updateBlog(
 }
 
 /**
- * Delete a blog (admin only)
+ * Move a post along the workflow (editors and admins). `publishAt` is required when scheduling.
  */
-export async function deleteBlog(id: string): Promise<void> {
-  const token = getAdminToken();
-  if (!token) {
-    throw new Error('Admin authentication required');
+export async function updateBlogStatus(id: string, status: BlogStatus, publishAt?: string): Promise<Blog> {
+  try {
+    const response = await fetch(`${API_ENDPOINTS.BLOGS}/${id}/status`, {
+      method: 'PUT',
+      headers: buildHeaders(true),
+      credentials: 'include',
+      body: JSON.stringify({ status, publishAt }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || `Failed to update blog status: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    return result.data;
+  } catch (error) {
+    console.error('Error updating blog status:', error);
+    throw error;
   }
-  
+}
+
+/**
+ * Get earlier revisions of a post, newest first (editors and admins)
+ */
+export async function fetchBlogRevisions(id: string): Promise<BlogRevision[]> {
+  try {
+    const response = await fetch(`${API_ENDPOINTS.BLOGS}/${id}/revisions`, {
+      headers: buildHeaders(),
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch blog revisions: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    return result.data || [];
+  } catch (error) {
+    console.error('Error fetching blog revisions:', error);
+    return [];
+  }
+}
+
+/**
+ * Restore an earlier revision (editors and admins). The server saves it as the newest version.
+ */
+export async function restoreBlogRevision(id: string, version: number): Promise<Blog> {
+  try {
+    const response = await fetch(`${API_ENDPOINTS.BLOGS}/${id}/revisions/${version}/restore`, {
+      method: 'POST',
+      headers: buildHeaders(),
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || `Failed to restore revision: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    return result.data;
+  } catch (error) {
+    console.error('Error restoring blog revision:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a blog (editors and admins)
+ */
+export async function deleteBlog(id: string): Promise<void> {
   try {
     const response = await fetch(`${API_ENDPOINTS.BLOGS}/${id}`, {
       method: 'DELETE',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
+      headers: buildHeaders(),
+      credentials: 'include',
     });
     
     if (!response.ok) {
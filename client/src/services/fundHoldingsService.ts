@@ -0,0 +1,38 @@
+import { API_ENDPOINTS } from '../config/api';
+import type { FundHoldings, FundHoldingsResponse } from '../types/fundHoldings';
+
+const CACHE_TTL = 6 * 60 * 60 * 1000; // disclosures change monthly
+const holdingsCache = new Map<string, { data: FundHoldings | null; expiresAt: number }>();
+
+/**
+ * Holdings for a set of schemes. Schemes without holdings data are returned in `missing`.
+ */
+export async function fetchFundHoldings(schemeCodes: string[]): Promise<FundHoldingsResponse> {
+  const now = Date.now();
+  const uncached = schemeCodes.filter((code) => {
+    const cached = holdingsCache.get(code);
+    return !cached || now >= cached.expiresAt;
+  });
+
+  if (uncached.length > 0) {
+    const params = new URLSearchParams({ schemeCodes: uncached.join(',') });
+    const response = await fetch(`${API_ENDPOINTS.FUND_HOLDINGS}/holdings?${params}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch fund holdings: ${response.statusText}`);
+    }
+
+    const data: FundHoldingsResponse = await response.json();
+    const expiresAt = Date.now() + CACHE_TTL;
+    data.funds.forEach((fund) => holdingsCache.set(fund.schemeCode, { data: fund, expiresAt }));
+    data.missing.forEach((code) => holdingsCache.set(code, { data: null, expiresAt }));
+  }
+
+  const funds: FundHoldings[] = [];
+  const missing: string[] = [];
+  schemeCodes.forEach((code) => {
+    const fund = holdingsCache.get(code)?.data;
+    if (fund) funds.push(fund);
+    else missing.push(code);
+  });
+  return { funds, missing };
+}
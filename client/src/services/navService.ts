@@ -1,6 +1,7 @@
 import { getToday } from '../utils/dateUtils';
 import { API_ENDPOINTS } from '../config/api';
 import { logger } from '../utils/logger';
+import type { Fund } from '../App';
 
 interface NAVData {
   date: string;
@@ -121,6 +122,27 @@ export async function searchFunds(query: string): Promise<any[]> {
   }
 }
 
+/**
+ * Name, launch date and category of each scheme. Unknown schemes come back
+ * with a null name and launch date.
+ */
+export async function fetchFundMetadata(schemeCodes: string[]): Promise<Fund[]> {
+  const params = new URLSearchParams({ schemeCodes: schemeCodes.join(',') });
+  const response = await fetch(`${API_ENDPOINTS.FUNDS_METADATA}?${params}`);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch fund metadata: ${response.statusText}`);
+  }
+
+  const data: Array<{ schemeCode: string; schemeName: string | null; launchDate: string | null; category: string }> =
+    await response.json();
+  return data.map((item) => ({
+    id: item.schemeCode,
+    name: item.schemeName || item.schemeCode,
+    launchDate: item.launchDate || '',
+    category: item.category,
+  }));
+}
+
 export function clearCache(): void {
   cache.clear();
 }
\ No newline at end of file
@@ -14,6 +14,27 @@ export interface NewsArticle {
     category: string;
     publishedAt: string;
     createdAt: string;
+    symbols?: string[]; // NSE symbols of the stocks it mentions
+    amcs?: string[]; // fund houses it mentions, e.g. "HDFC"
+    story?: NewsStory; // set when news is fetched grouped into stories
+    alsoCoveredBy?: NewsCoverage[];
+}
+
+// The story an article leads: near-duplicate articles from other sources, clustered on refresh
+export interface NewsStory {
+    id: string;
+    headline: string;
+    articleCount: number;
+    sources: string[];
+}
+
+// Another source's article on the same story
+export interface NewsCoverage {
+    _id: string;
+    source: string;
+    title: string;
+    link: string;
+    publishedAt: string;
 }
 
 export interface NewsResponse {
@@ -33,6 +54,9 @@ export interface NewsFilters {
     source?: string;
     category?: string;
     search?: string;
+    symbol?: string; // articles tagged with this stock
+    amc?: string; // articles tagged with this fund house
+    grouped?: boolean; // one item per story (default) or per article
 }
 
 // Fetch news with filters
@@ -45,6 +69,9 @@ export async function fetchNews(filters: NewsFilters = {}): Promise<NewsResponse
         if (filters.source) params.append('source', filters.source);
         if (filters.category) params.append('category', filters.category);
         if (filters.search) params.append('search', filters.search);
+        if (filters.symbol) params.append('symbol', filters.symbol);
+        if (filters.amc) params.append('amc', filters.amc);
+        if (filters.grouped === false) params.append('grouped', 'false');
 
         const response = await axios.get(`${API_URL}/api/news?${params.toString()}`);
         return response.data;
@@ -0,0 +1,200 @@
+// client/src/services/portfoliosService.ts
+import { API_ENDPOINTS } from '../config/api';
+import type { Bucket, BucketResults, BucketVersion } from '../types/bucket';
+import { getAccessToken } from './authService';
+
+/**
+ * Build request headers for the logged-in user.
+ * Cookies carry the session for Google OAuth; email/password logins also
+ * keep a token in localStorage.
+ */
+function buildHeaders(json: boolean = false): HeadersInit {
+  const headers: Record<string, string> = {};
+  const token = getAccessToken();
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+  if (json) {
+    headers['Content-Type'] = 'application/json';
+  }
+  return headers;
+}
+
+/**
+ * Throw the server's error message, keeping the HTTP status so callers can
+ * tell a version conflict (409) from other failures.
+ */
+async function throwResponseError(response: Response, fallback: string): Promise<never> {
+  const body = await response.json().catch(() => ({}));
+  const error: any = new Error(body.message || `${fallback}: ${response.statusText}`);
+  error.status = response.status;
+  error.currentVersion = body.currentVersion;
+  throw error;
+}
+
+/**
+ * Get the logged-in user's saved portfolios. Throws when they can't be
+ * loaded, so callers don't mistake a failure for an empty account.
+ */
+export async function fetchPortfolios(): Promise<Bucket[]> {
+  try {
+    const response = await fetch(API_ENDPOINTS.PORTFOLIOS, {
+      headers: buildHeaders(),
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch portfolios: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    return result.data || [];
+  } catch (error) {
+    console.error('Error fetching portfolios:', error);
+    throw error;
+  }
+}
+
+/**
+ * Save a new portfolio to the user's account
+ */
+export async function createPortfolio(
+  bucket: Pick<Bucket, 'name' | 'funds' | 'swpConfig'>
+): Promise<Bucket> {
+  try {
+    const response = await fetch(API_ENDPOINTS.PORTFOLIOS, {
+      method: 'POST',
+      headers: buildHeaders(true),
+      credentials: 'include',
+      body: JSON.stringify(bucket),
+    });
+
+    if (!response.ok) {
+      await throwResponseError(response, 'Failed to create portfolio');
+    }
+
+    const result = await response.json();
+    return result.data;
+  } catch (error) {
+    console.error('Error creating portfolio:', error);
+    throw error;
+  }
+}
+
+/**
+ * Update a portfolio's name, funds or swpConfig. When `expectedVersion` is
+ * given the server rejects the update with a 409 if the portfolio has moved on.
+ */
+export async function updatePortfolio(
+  id: string,
+  updates: Partial<Pick<Bucket, 'name' | 'funds' | 'swpConfig'>>,
+  expectedVersion?: number
+): Promise<Bucket> {
+  try {
+    const response = await fetch(`${API_ENDPOINTS.PORTFOLIOS}/${id}`, {
+      method: 'PUT',
+      headers: buildHeaders(true),
+      credentials: 'include',
+      body: JSON.stringify({ ...updates, expectedVersion }),
+    });
+
+    if (!response.ok) {
+      await throwResponseError(response, 'Failed to update portfolio');
+    }
+
+    const result = await response.json();
+    return result.data;
+  } catch (error) {
+    console.error('Error updating portfolio:', error);
+    throw error;
+  }
+}
+
+/**
+ * Store the last calculation results for a portfolio
+ */
+export async function savePortfolioResults(id: string, results: BucketResults): Promise<Bucket> {
+  try {
+    const response = await fetch(`${API_ENDPOINTS.PORTFOLIOS}/${id}/results`, {
+      method: 'PUT',
+      headers: buildHeaders(true),
+      credentials: 'include',
+      body: JSON.stringify({ results }),
+    });
+
+    if (!response.ok) {
+      await throwResponseError(response, 'Failed to save portfolio results');
+    }
+
+    const result = await response.json();
+    return result.data;
+  } catch (error) {
+    console.error('Error saving portfolio results:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get earlier versions of a portfolio, newest first
+ */
+export async function fetchPortfolioVersions(id: string): Promise<BucketVersion[]> {
+  try {
+    const response = await fetch(`${API_ENDPOINTS.PORTFOLIOS}/${id}/versions`, {
+      headers: buildHeaders(),
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch portfolio versions: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    return result.data || [];
+  } catch (error) {
+    console.error('Error fetching portfolio versions:', error);
+    return [];
+  }
+}
+
+/**
+ * Restore an earlier version. The server saves it as the newest version.
+ */
+export async function restorePortfolioVersion(id: string, version: number): Promise<Bucket> {
+  try {
+    const response = await fetch(`${API_ENDPOINTS.PORTFOLIOS}/${id}/versions/${version}/restore`, {
+      method: 'POST',
+      headers: buildHeaders(),
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      await throwResponseError(response, 'Failed to restore portfolio version');
+    }
+
+    const result = await response.json();
+    return result.data;
+  } catch (error) {
+    console.error('Error restoring portfolio version:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a portfolio from the user's account
+ */
+export async function deletePortfolio(id: string): Promise<void> {
+  try {
+    const response = await fetch(`${API_ENDPOINTS.PORTFOLIOS}/${id}`, {
+      method: 'DELETE',
+      headers: buildHeaders(),
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      await throwResponseError(response, 'Failed to delete portfolio');
+    }
+  } catch (error) {
+    console.error('Error deleting portfolio:', error);
+    throw error;
+  }
+}
@@ -1,7 +1,23 @@
 // client/src/services/suggestedBucketsService.ts
 import { API_ENDPOINTS } from '../config/api';
 import type { SuggestedBucket } from '../types/suggestedBucket';
-import { getAdminToken } from '../hooks/useAuth';
+import { getAccessToken } from './authService';
+
+/**
+ * Headers for admin requests, made as the logged-in user. Cookies carry the
+ * session for Google OAuth; email/password logins also keep a token in localStorage.
+ */
+function buildHeaders(json: boolean = false): HeadersInit {
+  const headers: Record<string, string> = {};
+  const token = getAccessToken();
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+  if (json) {
+    headers['Content-Type'] = 'application/json';
+  }
+  return headers;
+}
 
 /**
  * Get all suggested buckets from the server
@@ -49,21 +65,14 @@ export async function fetchSuggestedBucketById(id: string): Promise<SuggestedBuc
 }
 
 /**
- * Create a new suggested bucket (admin only)
+ * Create a new suggested bucket (analysts and admins)
  */
 export async function createSuggestedBucket(bucketData: Omit<SuggestedBucket, 'id' | 'createdAt' | 'updatedAt'>): Promise<SuggestedBucket> {
-  const token = getAdminToken();
-  if (!token) {
-    throw new Error('Admin authentication required');
-  }
-  
   try {
     const response = await fetch(API_ENDPOINTS.SUGGESTED_BUCKETS, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
-      },
+      headers: buildHeaders(true),
+      credentials: 'include',
       body: JSON.stringify(bucketData),
     });
     
@@ -81,21 +90,14 @@ export async function createSuggestedBucket(bucketData: Omit<SuggestedBucket, 'i
 }
 
 /**
- * Update an existing suggested bucket (admin only)
+ * Update an existing suggested bucket (analysts and admins)
  */
 export async function updateSuggestedBucket(id: string, updates: Partial<SuggestedBucket>): Promise<SuggestedBucket> {
-  const token = getAdminToken();
-  if (!token) {
-    throw new Error('Admin authentication required');
-  }
-  
   try {
     const response = await fetch(`${API_ENDPOINTS.SUGGESTED_BUCKETS}/${id}`, {
       method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${token}`,
-      },
+      headers: buildHeaders(true),
+      credentials: 'include',
       body: JSON.stringify(updates),
     });
     
@@ -113,20 +115,14 @@ export async function updateSuggestedBucket(id: string, updates: Partial<Suggest
 }
 
 /**
- * Delete a suggested bucket (admin only)
+ * Delete a suggested bucket (analysts and admins)
  */
 export async function deleteSuggestedBucket(id: string): Promise<void> {
-  const token = getAdminToken();
-  if (!token) {
-    throw new Error('Admin authentication required');
-  }
-  
   try {
     const response = await fetch(`${API_ENDPOINTS.SUGGESTED_BUCKETS}/${id}`, {
       method: 'DELETE',
-      headers: {
-        'Authorization': `Bearer ${token}`,
-      },
+      headers: buildHeaders(),
+      credentials: 'include',
     });
     
     if (!response.ok) {
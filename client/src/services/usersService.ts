@@ -0,0 +1,73 @@
+// client/src/services/usersService.ts
+import { API_ENDPOINTS } from '../config/api';
+import { getAccessToken } from './authService';
+import type { AdminPermission, UserRole } from './authService';
+
+export interface StaffMember {
+  id: string;
+  email: string;
+  name: string;
+  picture: string | null;
+  role: UserRole;
+  permissions: AdminPermission[];
+  lastLoginAt: string | null;
+}
+
+/**
+ * Headers for admin requests, made as the logged-in user
+ */
+function buildHeaders(json: boolean = false): HeadersInit {
+  const headers: Record<string, string> = {};
+  const token = getAccessToken();
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+  if (json) {
+    headers['Content-Type'] = 'application/json';
+  }
+  return headers;
+}
+
+/**
+ * Get everyone with access to the admin panel (admins only)
+ */
+export async function fetchStaff(): Promise<StaffMember[]> {
+  const response = await fetch(`${API_ENDPOINTS.USERS}/staff`, {
+    headers: buildHeaders(),
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || `Failed to fetch team: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+  return result.data || [];
+}
+
+/**
+ * Give a user a role by their login email (admins only). 'user' removes
+ * their admin panel access.
+ */
+export async function setUserRole(email: string, role: UserRole): Promise<StaffMember> {
+  try {
+    const response = await fetch(`${API_ENDPOINTS.USERS}/role`, {
+      method: 'PUT',
+      headers: buildHeaders(true),
+      credentials: 'include',
+      body: JSON.stringify({ email, role }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || `Failed to update role: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    return result.data;
+  } catch (error) {
+    console.error('Error updating role:', error);
+    throw error;
+  }
+}
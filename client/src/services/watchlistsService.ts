@@ -0,0 +1,187 @@
+// client/src/services/watchlistsService.ts
+import { API_ENDPOINTS } from '../config/api';
+import type { Watchlist, WatchlistFeedResponse, WatchlistInput } from '../types/watchlist';
+import { getAccessToken } from './authService';
+
+// Fired on window with the new count whenever the server reports it, so the
+// Navigation badge updates when the news page reads or marks articles
+export const NEWS_UNREAD_EVENT = 'news-unread-count';
+
+/**
+ * Build request headers for the logged-in user
+ */
+function buildHeaders(json: boolean = false): HeadersInit {
+  const headers: Record<string, string> = {};
+  const token = getAccessToken();
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+  if (json) {
+    headers['Content-Type'] = 'application/json';
+  }
+  return headers;
+}
+
+async function throwResponseError(response: Response, fallback: string): Promise<never> {
+  const body = await response.json().catch(() => ({}));
+  throw new Error(body.message || `${fallback}: ${response.statusText}`);
+}
+
+function announceUnreadCount(count: number) {
+  window.dispatchEvent(new CustomEvent<number>(NEWS_UNREAD_EVENT, { detail: count }));
+}
+
+/**
+ * Get the logged-in user's watchlists
+ */
+export async function fetchWatchlists(): Promise<Watchlist[]> {
+  try {
+    const response = await fetch(API_ENDPOINTS.WATCHLISTS, {
+      headers: buildHeaders(),
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch watchlists: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    return result.data || [];
+  } catch (error) {
+    console.error('Error fetching watchlists:', error);
+    return [];
+  }
+}
+
+/**
+ * Save a new watchlist. The server matches it against the past week's news.
+ */
+export async function createWatchlist(watchlist: WatchlistInput): Promise<Watchlist> {
+  const response = await fetch(API_ENDPOINTS.WATCHLISTS, {
+    method: 'POST',
+    headers: buildHeaders(true),
+    credentials: 'include',
+    body: JSON.stringify(watchlist),
+  });
+
+  if (!response.ok) {
+    await throwResponseError(response, 'Failed to create watchlist');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Update a watchlist's name, keywords or schemes
+ */
+export async function updateWatchlist(id: string, updates: Partial<WatchlistInput>): Promise<Watchlist> {
+  const response = await fetch(`${API_ENDPOINTS.WATCHLISTS}/${id}`, {
+    method: 'PUT',
+    headers: buildHeaders(true),
+    credentials: 'include',
+    body: JSON.stringify(updates),
+  });
+
+  if (!response.ok) {
+    await throwResponseError(response, 'Failed to update watchlist');
+  }
+
+  const result = await response.json();
+  return result.data;
+}
+
+/**
+ * Delete a watchlist. Articles only it matched leave the feed.
+ */
+export async function deleteWatchlist(id: string): Promise<void> {
+  const response = await fetch(`${API_ENDPOINTS.WATCHLISTS}/${id}`, {
+    method: 'DELETE',
+    headers: buildHeaders(),
+    credentials: 'include',
+  });
+
+  if (!response.ok) {
+    await throwResponseError(response, 'Failed to delete watchlist');
+  }
+}
+
+/**
+ * Get articles matching the user's watchlists, newest first
+ */
+export async function fetchWatchlistFeed(
+  options: { page?: number; limit?: number; watchlistId?: string } = {}
+): Promise<WatchlistFeedResponse> {
+  try {
+    const params = new URLSearchParams();
+    if (options.page) params.append('page', options.page.toString());
+    if (options.limit) params.append('limit', options.limit.toString());
+    if (options.watchlistId) params.append('watchlistId', options.watchlistId);
+
+    const response = await fetch(`${API_ENDPOINTS.WATCHLISTS}/feed?${params.toString()}`, {
+      headers: buildHeaders(),
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch news feed: ${response.statusText}`);
+    }
+
+    const result: WatchlistFeedResponse = await response.json();
+    announceUnreadCount(result.unreadCount);
+    return result;
+  } catch (error) {
+    console.error('Error fetching news feed:', error);
+    return {
+      success: false,
+      data: [],
+      pagination: { total: 0, page: 1, limit: 30, totalPages: 0 },
+      unreadCount: 0,
+    };
+  }
+}
+
+/**
+ * How many matched articles the user hasn't seen
+ */
+export async function fetchUnreadNewsCount(): Promise<number> {
+  try {
+    const response = await fetch(`${API_ENDPOINTS.WATCHLISTS}/feed/unread-count`, {
+      headers: buildHeaders(),
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch unread news count: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    return result.data?.count ?? 0;
+  } catch (error) {
+    console.error('Error fetching unread news count:', error);
+    return 0;
+  }
+}
+
+/**
+ * Mark matched articles as seen; all of them when no IDs are given
+ */
+export async function markNewsRead(articleIds?: string[]): Promise<void> {
+  try {
+    const response = await fetch(`${API_ENDPOINTS.WATCHLISTS}/feed/read`, {
+      method: 'POST',
+      headers: buildHeaders(true),
+      credentials: 'include',
+      body: JSON.stringify({ articleIds }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to mark news as read: ${response.statusText}`);
+    }
+
+    const result = await response.json();
+    announceUnreadCount(result.data.unreadCount);
+  } catch (error) {
+    console.error('Error marking news as read:', error);
+  }
+}
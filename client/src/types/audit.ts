@@ -0,0 +1,56 @@
+// client/src/types/audit.ts
+import type { UserRole } from '../services/authService';
+
+export type AuditTargetType = 'blog' | 'suggested-bucket' | 'user' | 'news';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'status' | 'restore' | 'publish' | 'role' | 'refresh' | 'cleanup';
+
+// A field's value before and after; null where it didn't exist (creates and deletes)
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  actor: {
+    kind: 'user' | 'system'; // system: cron callers and scheduled jobs
+    userId: string | null;
+    email: string | null;
+    name: string;
+    role: UserRole | null;
+  };
+  action: AuditAction;
+  target: {
+    type: AuditTargetType;
+    id: string | null;
+    label: string | null; // title or name when the change was made
+  };
+  changes: AuditChange[];
+  details: Record<string, unknown> | null;
+  ip: string | null;
+  createdAt: string;
+}
+
+export interface AuditFilters {
+  targetType?: AuditTargetType;
+  targetId?: string;
+  action?: AuditAction;
+  actor?: string; // part of a name or email
+  from?: string; // ISO date
+  to?: string;
+  limit?: number;
+  skip?: number;
+}
+
+export interface AuditListResponse {
+  success: boolean;
+  data: AuditEntry[];
+  pagination: {
+    total: number;
+    limit: number;
+    skip: number;
+    hasMore: boolean;
+  };
+}
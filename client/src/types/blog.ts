@@ -1,8 +1,15 @@
 // client/src/types/blog.ts
+export type BlogStatus = 'draft' | 'in_review' | 'scheduled' | 'published';
+
+// Posts written before Markdown support are HTML
+export type BlogContentFormat = 'markdown' | 'html';
+
 export interface Blog {
   id: string;
+  slug?: string; // absent on posts not yet given one; they're addressed by id
   title: string;
   content: string;
+  contentFormat: BlogContentFormat;
   imageUrl: string;
   imagePublicId?: string;
   categories: string[];
@@ -10,12 +17,30 @@ export interface Blog {
   exclusive: boolean;
   author: string;
   views: number;
-  isPublished: boolean;
+  isPublished: boolean; // true only when status is 'published'
+  status: BlogStatus;
+  publishAt?: string | null; // when a scheduled post goes live
+  publishedAt?: string | null; // when the post first went live
+  version: number;
   createdAt: string;
   updatedAt: string;
   formattedDate?: string;
 }
 
+// Content of a post before an edit
+export interface BlogRevision {
+  version: number;
+  title: string;
+  content: string;
+  contentFormat: BlogContentFormat;
+  imageUrl?: string;
+  categories: string[];
+  tags: string[];
+  exclusive: boolean;
+  author?: string;
+  savedAt: string;
+}
+
 export interface Category {
   id: string;
   name: string;
@@ -35,6 +60,7 @@ export interface Tag {
 }
 
 export interface BlogFilters {
+  status?: BlogStatus; // admin listing only
   category?: string;
   tags?: string[];
   exclusive?: boolean;
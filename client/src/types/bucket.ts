@@ -12,6 +12,33 @@ export interface Bucket {
     frequency: 'Monthly' | 'Quarterly';
     duration?: number;
   };
+  version?: number; // server version, set once the bucket is saved to the user's account
+  updatedAt?: string;
+  lastResults?: BucketResults | null;
+  lastCalculatedAt?: string | null;
+}
+
+export type BucketSwpConfig = NonNullable<Bucket['swpConfig']>;
+
+/** Summary of the last SWP calculation run against a bucket */
+export interface BucketResults {
+  mode: 'NORMAL' | 'CORPUS' | 'TARGET';
+  totalInvested: number;
+  totalWithdrawn: number;
+  finalCorpus: number;
+  xirr: number | null;
+  survivalMonths: number;
+  depletedOn?: string | null;
+  firstWithdrawal: number;
+  lastWithdrawal: number;
+}
+
+export interface BucketVersion {
+  version: number;
+  name: string;
+  funds: SelectedFund[];
+  swpConfig: Bucket['swpConfig'] | null;
+  savedAt: string;
 }
 
 export interface BucketPerformance {
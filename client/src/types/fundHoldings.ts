@@ -0,0 +1,20 @@
+/** One stock in a fund's portfolio disclosure, shaped like a StockIndex constituent */
+export interface FundHolding {
+  symbol: string;
+  companyName: string;
+  isin: string;
+  industry: string;
+  weightage: number; // percent of the fund's net assets
+}
+
+export interface FundHoldings {
+  schemeCode: string;
+  schemeName: string;
+  asOf: string; // disclosure date, YYYY-MM-DD
+  holdings: FundHolding[];
+}
+
+export interface FundHoldingsResponse {
+  funds: FundHoldings[];
+  missing: string[]; // requested scheme codes with no holdings data
+}
@@ -0,0 +1,36 @@
+import type { SelectedFund } from '../App';
+
+export type GoalKind = 'EDUCATION' | 'HOUSE' | 'RETIREMENT' | 'MARRIAGE' | 'CUSTOM';
+
+/** Annualised rolling-return distribution of a bucket, in percent */
+export interface RollingReturnStats {
+  mean: number;
+  median: number;
+  max: number;
+  min: number;
+  stdDev: number;
+  positivePercentage: number;
+}
+
+/** The bucket a goal is invested in: a saved bucket or a SuggestedBucket */
+export interface GoalBucketRef {
+  source: 'SAVED' | 'SUGGESTED';
+  id: string;
+  name: string;
+  funds: SelectedFund[];
+  returnStats: RollingReturnStats | null; // null until the bucket's history has been analysed
+  windowLabel?: string; // rolling window the stats were measured over, e.g. "3Y"
+}
+
+export interface FinancialGoal {
+  id: string;
+  name: string;
+  kind: GoalKind;
+  targetAmount: number; // in today's money
+  targetDate: string; // YYYY-MM-DD
+  inflationRate: number; // percent a year
+  currentSavings: number; // already set aside for this goal
+  monthlySIP: number | null; // what the user invests each month; null means "not decided yet"
+  bucket: GoalBucketRef | null;
+  childDob?: string; // set on education goals created from kidsDob
+}
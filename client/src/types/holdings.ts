@@ -0,0 +1,29 @@
+export type HoldingTransactionType =
+  | 'PURCHASE'
+  | 'REDEMPTION'
+  | 'SWITCH_IN'
+  | 'SWITCH_OUT'
+  | 'DIVIDEND_REINVESTMENT';
+
+/**
+ * A real mutual fund transaction in one folio.
+ * `units` may be left out for purchases and redemptions entered by amount;
+ * they are then worked out from the NAV on the transaction date.
+ */
+export interface HoldingTransaction {
+  id: string;
+  schemeCode: string; // AMFI scheme code, as returned by searchFunds
+  schemeName: string;
+  folio: string;
+  date: string; // YYYY-MM-DD
+  type: HoldingTransactionType;
+  amount: number; // always positive
+  units?: number; // always positive
+  nav?: number;
+}
+
+/** A transaction read from a CSV or CAS file, before it is matched to a scheme code */
+export interface ImportedTransaction extends Omit<HoldingTransaction, 'id' | 'schemeCode'> {
+  schemeCode: string | null;
+  isin?: string;
+}
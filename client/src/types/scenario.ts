@@ -0,0 +1,77 @@
+import type { ExitLoadSchedule } from '../utils/exitLoad';
+import type { RebalanceConfig } from '../utils/rebalancing';
+import type { StepUpMode } from '../utils/sipStepUp';
+import type { SWPStrategy } from '../utils/swpSimulation';
+import type { WithdrawalIndexation } from '../utils/inflation';
+import type { WithdrawalPolicy } from '../utils/withdrawalPolicy';
+
+export type ScenarioCalculator = 'SIP' | 'Lumpsum' | 'SIPLumpsum' | 'SWP';
+
+export type ScenarioPage = 'investment-plan' | 'retirement-plan';
+
+export type SWPPlanMode = 'NORMAL' | 'CORPUS' | 'TARGET';
+
+export interface SIPScenarioInputs {
+  monthlyInvestment: number;
+  startDate: string;
+  endDate: string;
+  stepUpMode: StepUpMode;
+  stepUpValue: number;
+  stepUpCap: number;
+  benchmarkSlug: string;
+  rebalanceConfig: RebalanceConfig;
+}
+
+export interface LumpsumScenarioInputs {
+  investmentAmount: number;
+  startDate: string;
+  endDate: string;
+  benchmarkSlug: string;
+  rebalanceConfig: RebalanceConfig;
+}
+
+export interface SIPLumpsumScenarioInputs {
+  monthlyInvestment: number;
+  startDate: string;
+  endDate: string;
+  hasLumpsum: boolean;
+  lumpsumAmount: number;
+  lumpsumDate: string;
+  lumpsumMode: 'weightage' | 'specific';
+  selectedFundForLumpsum: string;
+  rebalanceConfig: RebalanceConfig;
+}
+
+export interface SWPScenarioInputs {
+  purchaseDate: string;
+  swpStartDate: string;
+  endDate: string;
+  totalInvestment: number;
+  withdrawalAmount: number;
+  frequency: 'Monthly' | 'Quarterly' | 'Custom';
+  customFrequencyDays: number;
+  strategy: SWPStrategy;
+  fundRisk: Record<string, string>;
+  desiredWithdrawal: number;
+  durationYears: number;
+  riskFactor: number;
+  taxSlabRate: number;
+  withdrawalIndexation: WithdrawalIndexation;
+  withdrawalPolicy: WithdrawalPolicy;
+}
+
+/** Inputs a calculator restores from a shared link, and whether to run it straight away */
+export interface SharedCalculatorInputs<T> {
+  inputs: Partial<T>;
+  autoRun: boolean;
+}
+
+/** A calculator scenario as carried in a permalink */
+export interface CalculatorScenario {
+  page: ScenarioPage;
+  calculator: ScenarioCalculator;
+  mode?: SWPPlanMode; // retirement planning mode, for SWP
+  funds: Array<{ id: string; weightage: number; exitLoad?: ExitLoadSchedule }>;
+  inputs: Partial<SIPScenarioInputs | LumpsumScenarioInputs | SIPLumpsumScenarioInputs | SWPScenarioInputs>;
+  run?: boolean; // run the calculation when the link is opened
+}
@@ -1,4 +1,5 @@
 import type { SelectedFund } from '../App';
+import type { BucketRiskMetrics } from '../utils/bucketPerformanceCalculator';
 
 export interface SuggestedBucket {
   id: string;
@@ -39,6 +40,9 @@ export interface SuggestedBucket {
     cagr?: number;
     volatility?: number;
     riskLevel: 'low' | 'moderate' | 'high';
+
+    // Risk-adjusted metrics (monthly returns), absent on buckets calculated before they existed
+    riskMetrics?: BucketRiskMetrics;
     
     // Analysis period
     analysisStartDate: string;
@@ -0,0 +1,43 @@
+// client/src/types/watchlist.ts
+import type { NewsArticle } from '../services/newsService';
+
+export interface WatchlistScheme {
+  schemeCode: string;
+  schemeName: string;
+  terms?: string[]; // fund house and short name looked for in the news; set by the server
+}
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  keywords: string[];
+  schemes: WatchlistScheme[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WatchlistInput = Pick<Watchlist, 'name' | 'keywords' | 'schemes'>;
+
+// A watchlist an article matched, with the keywords and fund names found in it
+export interface WatchlistMatch {
+  watchlistId: string;
+  name: string;
+  terms: string[];
+}
+
+export interface WatchlistFeedItem extends NewsArticle {
+  matches: WatchlistMatch[];
+  isRead: boolean;
+}
+
+export interface WatchlistFeedResponse {
+  success: boolean;
+  data: WatchlistFeedItem[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    totalPages: number;
+  };
+  unreadCount: number;
+}
@@ -0,0 +1,277 @@
+import { calculateXIRR, calculateCAGR } from './financialCalculations';
+
+/**
+ * Benchmark (total return index) comparisons for calculator results.
+ *
+ * Index history is served month-end or daily; levels between two points are
+ * interpolated geometrically so that SIP dates mid-month get a fair price.
+ * Alpha is the portfolio's annualised return minus the benchmark's over the
+ * same cashflows and the same period; tracking error is the annualised standard deviation of the
+ * monthly return difference.
+ */
+
+export interface BenchmarkPoint {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+export interface BenchmarkInfo {
+  slug: string;
+  name: string;
+  exchange: string;
+  priceIndexSlug?: string;
+  frequency: 'daily' | 'monthly';
+  from: string | null;
+  to: string | null;
+}
+
+export interface BenchmarkHistory {
+  slug: string;
+  name: string;
+  exchange: string;
+  frequency: 'daily' | 'monthly';
+  history: BenchmarkPoint[];
+}
+
+export interface BenchmarkCashflow {
+  date: string;
+  amount: number; // invested amount, positive
+}
+
+export interface BenchmarkValuePoint {
+  date: string;
+  value: number; // portfolio value on the date, after that date's flow
+  flow: number; // amount invested on the date
+}
+
+export interface BenchmarkComparison {
+  slug: string;
+  name: string;
+  totalInvested: number;
+  finalValue: number;
+  xirr: number;
+  cagr: number;
+  portfolioXirr: number; // portfolio's return up to coveredUntil, which alpha is measured from
+  alpha: number; // percentage points per year
+  trackingError: number | null; // percent per year, null with fewer than 3 monthly returns
+  coveredUntil: string; // both sides are valued on this date
+  isPartial: boolean; // index history ends before the calculation end date
+}
+
+export const DEFAULT_BENCHMARK_SLUG = 'nifty-50-tri';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+const toTime = (iso: string) => new Date(`${iso}T00:00:00`).getTime();
+
+/**
+ * Index level on a date, or null when the date falls outside the history.
+ */
+export function getBenchmarkLevel(history: BenchmarkPoint[], date: string): number | null {
+  if (!history || history.length === 0) return null;
+  const target = toTime(date);
+  const first = history[0];
+  const last = history[history.length - 1];
+  if (target < toTime(first.date) || target > toTime(last.date)) return null;
+
+  let lo = 0;
+  let hi = history.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (toTime(history[mid].date) <= target) lo = mid;
+    else hi = mid;
+  }
+
+  const before = history[lo];
+  const after = history[hi];
+  const beforeTime = toTime(before.date);
+  const afterTime = toTime(after.date);
+  if (target <= beforeTime || afterTime === beforeTime) return before.value;
+  if (target >= afterTime) return after.value;
+
+  const fraction = (target - beforeTime) / (afterTime - beforeTime);
+  return before.value * Math.pow(after.value / before.value, fraction);
+}
+
+/**
+ * Last date for which the benchmark can be valued, capped at endDate.
+ */
+export function getBenchmarkEndDate(history: BenchmarkPoint[], endDate: string): string {
+  if (!history || history.length === 0) return endDate;
+  const last = history[history.length - 1].date;
+  return toTime(last) < toTime(endDate) ? last : endDate;
+}
+
+/**
+ * Annualised return of a single investment in the index between two dates.
+ */
+export function benchmarkLumpsumReturn(
+  history: BenchmarkPoint[],
+  startDate: string,
+  endDate: string
+): number | null {
+  const startLevel = getBenchmarkLevel(history, startDate);
+  const endLevel = getBenchmarkLevel(history, endDate);
+  if (!startLevel || !endLevel) return null;
+  const days = (toTime(endDate) - toTime(startDate)) / MS_PER_DAY;
+  if (days <= 0) return null;
+  return (Math.pow(endLevel / startLevel, 365 / days) - 1) * 100;
+}
+
+/**
+ * XIRR of the same cashflows invested in the index and valued on endDate.
+ */
+export function benchmarkCashflowReturn(
+  history: BenchmarkPoint[],
+  cashflows: BenchmarkCashflow[],
+  endDate: string
+): number | null {
+  const endLevel = getBenchmarkLevel(history, endDate);
+  if (!endLevel) return null;
+
+  let units = 0;
+  const flows: Array<{ date: Date; amount: number }> = [];
+  for (const cf of cashflows) {
+    const level = getBenchmarkLevel(history, cf.date);
+    if (!level) return null;
+    units += cf.amount / level;
+    flows.push({ date: new Date(cf.date), amount: -cf.amount });
+  }
+  if (units <= 0) return null;
+
+  flows.push({ date: new Date(endDate), amount: units * endLevel });
+  return calculateXIRR(flows);
+}
+
+/**
+ * Value of the benchmark investment after each cashflow date and on the given
+ * valuation dates, for plotting next to the portfolio.
+ */
+export function benchmarkValueSeries(
+  history: BenchmarkPoint[],
+  cashflows: BenchmarkCashflow[],
+  dates: string[]
+): Array<number | null> {
+  const sortedFlows = [...cashflows].sort((a, b) => toTime(a.date) - toTime(b.date));
+  let units = 0;
+  let next = 0;
+  return dates.map((date) => {
+    const t = toTime(date);
+    while (next < sortedFlows.length && toTime(sortedFlows[next].date) <= t) {
+      const level = getBenchmarkLevel(history, sortedFlows[next].date);
+      if (level) units += sortedFlows[next].amount / level;
+      next += 1;
+    }
+    const level = getBenchmarkLevel(history, date);
+    return level && units > 0 ? units * level : null;
+  });
+}
+
+/**
+ * Returns between consecutive valuation points with that period's flow removed.
+ */
+function flowAdjustedReturns(points: BenchmarkValuePoint[]): Array<number | null> {
+  const returns: Array<number | null> = [];
+  for (let i = 1; i < points.length; i++) {
+    const prev = points[i - 1].value;
+    const curr = points[i].value - points[i].flow;
+    returns.push(prev > 0 ? curr / prev - 1 : null);
+  }
+  return returns;
+}
+
+/**
+ * Annualised tracking error from two aligned series of valuation points.
+ */
+export function calculateTrackingError(
+  portfolio: BenchmarkValuePoint[],
+  benchmark: BenchmarkValuePoint[],
+  periodsPerYear = 12
+): number | null {
+  const portfolioReturns = flowAdjustedReturns(portfolio);
+  const benchmarkReturns = flowAdjustedReturns(benchmark);
+  const diffs: number[] = [];
+  for (let i = 0; i < Math.min(portfolioReturns.length, benchmarkReturns.length); i++) {
+    const p = portfolioReturns[i];
+    const b = benchmarkReturns[i];
+    if (p !== null && b !== null) diffs.push(p - b);
+  }
+  if (diffs.length < 3) return null;
+
+  const mean = diffs.reduce((sum, d) => sum + d, 0) / diffs.length;
+  const variance = diffs.reduce((sum, d) => sum + Math.pow(d - mean, 2), 0) / (diffs.length - 1);
+  return Math.sqrt(variance) * Math.sqrt(periodsPerYear) * 100;
+}
+
+/**
+ * Runs the portfolio's cashflows through the benchmark and compares the result.
+ * portfolioSeries should hold roughly monthly valuation points of the portfolio
+ * (with the flow invested on each date) for the tracking error calculation.
+ * portfolioXirr is the portfolio's return up to endDate; when the index stops
+ * earlier, both sides are compared up to the last portfolio point it covers
+ * and the portfolio's return is recomputed from that point's value.
+ */
+export function compareWithBenchmark(params: {
+  benchmark: BenchmarkHistory;
+  cashflows: BenchmarkCashflow[];
+  endDate: string;
+  portfolioXirr: number;
+  portfolioSeries: BenchmarkValuePoint[];
+}): BenchmarkComparison | null {
+  const { benchmark, cashflows, portfolioXirr, portfolioSeries } = params;
+  const history = benchmark.history;
+  const indexEndDate = getBenchmarkEndDate(history, params.endDate);
+  const isPartial = indexEndDate !== params.endDate;
+
+  // portfolioXirr runs to endDate, so a shorter index needs a portfolio value to compare with
+  const lastCovered = isPartial
+    ? [...portfolioSeries].reverse().find((p) => toTime(p.date) <= toTime(indexEndDate))
+    : undefined;
+  if (isPartial && !lastCovered) return null;
+  const valuationDate = lastCovered ? lastCovered.date : indexEndDate;
+
+  const investable = cashflows.filter(
+    (cf) => cf.amount > 0 && toTime(cf.date) <= toTime(valuationDate)
+  );
+  if (investable.length === 0) return null;
+
+  const years = (toTime(valuationDate) - toTime(investable[0].date)) / (MS_PER_DAY * 365);
+  if (years <= 0) return null;
+
+  const [finalValue] = benchmarkValueSeries(history, investable, [valuationDate]);
+  const xirr = benchmarkCashflowReturn(history, investable, valuationDate);
+  if (finalValue === null || xirr === null) return null;
+
+  const portfolioReturn = lastCovered
+    ? calculateXIRR([
+      ...investable.map((cf) => ({ date: new Date(cf.date), amount: -cf.amount })),
+      { date: new Date(valuationDate), amount: lastCovered.value },
+    ])
+    : portfolioXirr;
+
+  const totalInvested = investable.reduce((sum, cf) => sum + cf.amount, 0);
+
+  // Tracking error over the portion of the portfolio series the index covers
+  const covered = portfolioSeries.filter((p) => toTime(p.date) <= toTime(valuationDate));
+  const benchmarkValues = benchmarkValueSeries(history, investable, covered.map((p) => p.date));
+  const aligned = covered
+    .map((p, i) => ({ portfolio: p, value: benchmarkValues[i] }))
+    .filter((row) => row.value !== null);
+  const trackingError = calculateTrackingError(
+    aligned.map((row) => row.portfolio),
+    aligned.map((row) => ({ date: row.portfolio.date, value: row.value as number, flow: row.portfolio.flow }))
+  );
+
+  return {
+    slug: benchmark.slug,
+    name: benchmark.name,
+    totalInvested,
+    finalValue,
+    xirr,
+    cagr: calculateCAGR(totalInvested, finalValue, years),
+    portfolioXirr: portfolioReturn,
+    alpha: portfolioReturn - xirr,
+    trackingError,
+    coveredUntil: valuationDate,
+    isPartial,
+  };
+}
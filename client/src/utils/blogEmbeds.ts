@@ -0,0 +1,197 @@
+import type { CalculatorScenario, SIPScenarioInputs } from '../types/scenario';
+import type { StepUpMode } from './sipStepUp';
+import { COMPARISON_PERIODS, MAX_COMPARE_FUNDS } from './fundComparison';
+import type { ComparisonPeriod } from './fundComparison';
+import { readScenarioFromSearch } from './scenarioLink';
+
+/**
+ * Live embeds in Markdown posts, written as directive blocks of
+ * "key: value" lines:
+ *
+ *   :::sip-calculator
+ *   funds: 120503=60, 118989=40
+ *   monthlyInvestment: 10000
+ *   startDate: 2015-01-01
+ *   :::
+ *
+ * Each block is checked here; BlogContent renders the result.
+ */
+
+export type BlogEmbed =
+  | { type: 'fund-chart'; schemeCodes: string[]; period: ComparisonPeriod; title?: string }
+  | { type: 'bucket'; bucketId: string }
+  | {
+      type: 'sip-calculator';
+      funds: CalculatorScenario['funds'];
+      inputs: Partial<SIPScenarioInputs>;
+      autoRun: boolean;
+      title?: string;
+    };
+
+export type BlogEmbedResult = { embed: BlogEmbed; error?: undefined } | { embed?: undefined; error: string };
+
+// Snippets the editor inserts, one per embed
+export const BLOG_EMBED_TEMPLATES: Array<{ name: BlogEmbed['type']; label: string; template: string }> = [
+  {
+    name: 'fund-chart',
+    label: 'Fund chart',
+    template: ':::fund-chart\nfunds: 120503, 118989\nperiod: 5Y\ntitle: Growth of ₹10,000\n:::',
+  },
+  {
+    name: 'bucket',
+    label: 'Suggested bucket',
+    template: ':::bucket\nid: SUGGESTED_BUCKET_ID\n:::',
+  },
+  {
+    name: 'sip-calculator',
+    label: 'SIP calculator',
+    template:
+      ':::sip-calculator\nfunds: 120503=60, 118989=40\nmonthlyInvestment: 10000\nstartDate: 2015-01-01\nstepUp: 10%\nrun: yes\n:::',
+  },
+];
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const SCHEME_CODE = /^\d+$/;
+
+const parseAmount = (value: string) => Number(value.replace(/[₹,\s]/g, ''));
+
+const parseYesNo = (value: string | undefined, fallback: boolean) => {
+  if (value === undefined) return fallback;
+  return !/^(no|false|off|0)$/i.test(value.trim());
+};
+
+// Whole-number weights adding to 100, the first funds taking any remainder
+const equalWeights = (count: number): number[] => {
+  const base = Math.floor(100 / count);
+  return Array.from({ length: count }, (_, index) => base + (index < 100 - base * count ? 1 : 0));
+};
+
+/**
+ * "120503=60, 118989=40", or bare scheme codes for an equal split
+ */
+const parseFunds = (value: string): { funds?: CalculatorScenario['funds']; error?: string } => {
+  const entries = value.split(',').map((entry) => entry.trim()).filter(Boolean);
+  if (entries.length === 0) return { error: 'List at least one fund by scheme code' };
+  if (entries.length > MAX_COMPARE_FUNDS) return { error: `At most ${MAX_COMPARE_FUNDS} funds` };
+
+  const parsed = entries.map((entry) => {
+    const [id, weight] = entry.split(/\s*[=:]\s*/);
+    return { id, weightage: weight === undefined ? null : Number(weight.replace('%', '')) };
+  });
+
+  const badCode = parsed.find((fund) => !SCHEME_CODE.test(fund.id));
+  if (badCode) return { error: `"${badCode.id}" is not a scheme code` };
+
+  const weighted = parsed.filter((fund) => fund.weightage !== null);
+  if (weighted.length === 0) {
+    const weights = equalWeights(parsed.length);
+    return { funds: parsed.map((fund, index) => ({ id: fund.id, weightage: weights[index] })) };
+  }
+  if (weighted.length !== parsed.length || weighted.some((fund) => !Number.isFinite(fund.weightage) || fund.weightage! <= 0)) {
+    return { error: 'Give every fund a weight, or none for an equal split' };
+  }
+  const total = weighted.reduce((sum, fund) => sum + fund.weightage!, 0);
+  if (Math.abs(total - 100) > 0.01) return { error: `Fund weights add up to ${total}%, not 100%` };
+  return { funds: parsed.map((fund) => ({ id: fund.id, weightage: fund.weightage! })) };
+};
+
+/**
+ * "10%" steps the SIP up by a percentage each year, "1000" by a fixed amount
+ */
+const parseStepUp = (value: string): { mode: StepUpMode; value: number } | null => {
+  const amount = parseAmount(value.replace('%', ''));
+  if (!Number.isFinite(amount) || amount < 0) return null;
+  if (amount === 0) return { mode: 'NONE', value: 0 };
+  return { mode: value.includes('%') ? 'PERCENTAGE' : 'FIXED', value: amount };
+};
+
+const parseSipCalculator = (attributes: Record<string, string>): BlogEmbedResult => {
+  let funds: CalculatorScenario['funds'] | undefined;
+  let inputs: Partial<SIPScenarioInputs> = {};
+
+  // A link from the calculator's Share button carries the whole scenario
+  if (attributes.scenario) {
+    let scenario: CalculatorScenario | null = null;
+    try {
+      scenario = readScenarioFromSearch(new URL(attributes.scenario, window.location.origin).search);
+    } catch {
+      // reported below
+    }
+    if (!scenario) return { error: 'The scenario link could not be read' };
+    if (scenario.calculator !== 'SIP') return { error: 'The scenario link is not for the SIP calculator' };
+    funds = scenario.funds;
+    inputs = { ...(scenario.inputs as Partial<SIPScenarioInputs>) };
+  }
+
+  if (attributes.funds) {
+    const parsed = parseFunds(attributes.funds);
+    if (parsed.error) return { error: parsed.error };
+    funds = parsed.funds;
+  }
+  if (!funds || funds.length === 0) return { error: 'Add funds, or a scenario link from the SIP calculator' };
+
+  if (attributes.monthlyinvestment) {
+    const amount = parseAmount(attributes.monthlyinvestment);
+    if (!Number.isFinite(amount) || amount <= 0) return { error: 'monthlyInvestment must be an amount' };
+    inputs.monthlyInvestment = amount;
+  }
+  for (const key of ['startDate', 'endDate'] as const) {
+    const value = attributes[key.toLowerCase()];
+    if (value === undefined) continue;
+    if (!DATE.test(value) || isNaN(new Date(value).getTime())) return { error: `${key} must be a date like 2015-01-01` };
+    inputs[key] = value;
+  }
+  if (inputs.startDate && inputs.endDate && inputs.startDate >= inputs.endDate) {
+    return { error: 'startDate must be before endDate' };
+  }
+  if (attributes.stepup) {
+    const stepUp = parseStepUp(attributes.stepup);
+    if (!stepUp) return { error: 'stepUp must be a percentage like 10% or an amount' };
+    inputs.stepUpMode = stepUp.mode;
+    inputs.stepUpValue = stepUp.value;
+  }
+
+  return {
+    embed: {
+      type: 'sip-calculator',
+      funds,
+      inputs,
+      autoRun: parseYesNo(attributes.run, true),
+      title: attributes.title || undefined,
+    },
+  };
+};
+
+/**
+ * The embed a directive block describes, or what's wrong with it
+ * @param name - Directive name, e.g. "fund-chart"
+ * @param attributes - Its "key: value" lines, keys lower-cased
+ */
+export function parseBlogEmbed(name: string, attributes: Record<string, string>): BlogEmbedResult {
+  switch (name) {
+    case 'fund-chart': {
+      const schemeCodes = (attributes.funds || attributes.fund || '')
+        .split(',')
+        .map((code) => code.trim())
+        .filter(Boolean);
+      if (schemeCodes.length === 0) return { error: 'List at least one fund by scheme code' };
+      if (schemeCodes.length > MAX_COMPARE_FUNDS) return { error: `At most ${MAX_COMPARE_FUNDS} funds` };
+      const badCode = schemeCodes.find((code) => !SCHEME_CODE.test(code));
+      if (badCode) return { error: `"${badCode}" is not a scheme code` };
+
+      const period = (attributes.period || '5Y').toUpperCase() as ComparisonPeriod;
+      if (!COMPARISON_PERIODS.includes(period)) return { error: `period must be one of ${COMPARISON_PERIODS.join(', ')}` };
+
+      return { embed: { type: 'fund-chart', schemeCodes, period, title: attributes.title || undefined } };
+    }
+    case 'bucket': {
+      const bucketId = (attributes.id || '').trim();
+      if (!bucketId) return { error: 'Give the suggested bucket id' };
+      return { embed: { type: 'bucket', bucketId } };
+    }
+    case 'sip-calculator':
+      return parseSipCalculator(attributes);
+    default:
+      return { error: `Unknown embed "${name}". Use ${BLOG_EMBED_TEMPLATES.map((embed) => embed.name).join(', ')}` };
+  }
+}
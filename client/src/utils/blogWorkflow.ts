@@ -0,0 +1,45 @@
+import type { BlogStatus } from '../types/blog';
+
+/**
+ * Blog publishing workflow: draft -> in review -> scheduled -> published.
+ * The transitions mirror STATUS_TRANSITIONS in server/models/Blog.js, which
+ * enforces them.
+ */
+
+export const BLOG_STATUS_LABELS: Record<BlogStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In review',
+  scheduled: 'Scheduled',
+  published: 'Published',
+};
+
+export const BLOG_STATUS_TRANSITIONS: Record<BlogStatus, BlogStatus[]> = {
+  draft: ['in_review'],
+  in_review: ['draft', 'scheduled', 'published'],
+  scheduled: ['draft', 'in_review', 'scheduled', 'published'],
+  published: ['draft'],
+};
+
+/**
+ * Menu label for moving a post from one status to another
+ */
+export function statusActionLabel(from: BlogStatus, to: BlogStatus): string {
+  switch (to) {
+    case 'draft':
+      return from === 'published' ? 'Unpublish to draft' : 'Move back to draft';
+    case 'in_review':
+      return from === 'scheduled' ? 'Unschedule for review' : 'Submit for review';
+    case 'scheduled':
+      return from === 'scheduled' ? 'Reschedule…' : 'Schedule…';
+    case 'published':
+      return 'Publish now';
+  }
+}
+
+/**
+ * Value for a datetime-local input, in the browser's time zone
+ */
+export function toDateTimeLocal(date: Date): string {
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
@@ -1,6 +1,18 @@
 import type { SelectedFund } from '../App';
 import { fetchNAVData } from '../services/navService';
+import { fetchBenchmarkHistory } from '../services/benchmarkService';
 import { getLatestNAVBeforeDate, getNextAvailableNAV, getToday } from './dateUtils';
+import { DEFAULT_BENCHMARK_SLUG } from './benchmark';
+import { buildWeightedSeries, computeRiskMetrics } from './riskMetrics';
+import type { RiskMetrics, RiskMetricsOptions } from './riskMetrics';
+import type { NavSeries } from './portfolioStats';
+import { logger } from './logger';
+
+export interface BucketRiskMetrics {
+  bucket: RiskMetrics;
+  funds: Array<RiskMetrics & { fundId: string; fundName: string }>;
+  benchmarkSlug: string | null; // index used for beta
+}
 
 export interface BucketPerformanceMetrics {
   rollingReturns: {
@@ -28,6 +40,7 @@ export interface BucketPerformanceMetrics {
   totalPeriods: number;
   windowType: '3Y' | '1Y' | 'insufficient';
   windowDays: number;
+  riskMetrics?: BucketRiskMetrics;
   message?: string;
 }
 
@@ -167,6 +180,47 @@ async function calculateRollingReturnsForWindow(
   };
 }
 
+/**
+ * Sharpe, Sortino, beta, drawdown, Calmar and Ulcer index for each fund and
+ * for the weighted bucket (bought on the first date all funds have a NAV and
+ * held without rebalancing). Pass options.benchmark as a NAV-shaped series to
+ * get beta.
+ */
+export function calculateBucketRiskMetrics(
+  funds: SelectedFund[],
+  navMap: Record<string, NavSeries>,
+  options: RiskMetricsOptions = {},
+  benchmarkSlug: string | null = null
+): BucketRiskMetrics {
+  const weights: Record<string, number> = {};
+  funds.forEach(fund => {
+    weights[fund.id] = fund.weightage;
+  });
+
+  return {
+    bucket: computeRiskMetrics(buildWeightedSeries(navMap, weights), options),
+    funds: funds.map(fund => ({
+      fundId: fund.id,
+      fundName: fund.name,
+      ...computeRiskMetrics(navMap[fund.id] || [], options),
+    })),
+    benchmarkSlug: options.benchmark ? benchmarkSlug : null,
+  };
+}
+
+/**
+ * Nifty 50 TRI history reshaped as a NAV series, or undefined when unavailable.
+ */
+export async function loadRiskBenchmark(startDate: string, endDate: string): Promise<NavSeries | undefined> {
+  try {
+    const history = await fetchBenchmarkHistory(DEFAULT_BENCHMARK_SLUG, startDate, endDate);
+    return history.history.map(point => ({ date: point.date, nav: point.value }));
+  } catch (error) {
+    logger.warn('[bucketPerformance] Benchmark unavailable, skipping beta:', error);
+    return undefined;
+  }
+}
+
 /**
  * Calculate rolling returns performance for a bucket
  * 
@@ -258,6 +312,14 @@ export async function calculateBucketPerformance(
     }
   }
 
+  const benchmark = await loadRiskBenchmark(analysisStartDate, analysisEndDate);
+  const riskMetrics = calculateBucketRiskMetrics(
+    funds,
+    navMap,
+    { frequency: 'monthly', benchmark },
+    DEFAULT_BENCHMARK_SLUG
+  );
+
   // Calculate statistics for bucket
   const bucketStats = calculateStatistics(result.bucketReturns);
 
@@ -282,6 +344,7 @@ export async function calculateBucketPerformance(
     totalPeriods: result.totalPeriods,
     windowType,
     windowDays,
+    riskMetrics,
     message,
   };
 }
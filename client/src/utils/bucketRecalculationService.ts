@@ -25,6 +25,7 @@ async function recalculateBucketPerformance(bucket: SuggestedBucket): Promise<Su
         analysisStartDate: performance.analysisStartDate,
         analysisEndDate: performance.analysisEndDate,
         totalPeriods: performance.totalPeriods,
+        riskMetrics: performance.riskMetrics,
       },
       lastCalculationDate: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
@@ -0,0 +1,98 @@
+/**
+ * Exit load schedules for mutual fund redemptions.
+ *
+ * A schedule is a list of tiers; the first tier whose window the holding
+ * period falls inside decides the load, e.g. [{ withinDays: 365, ratePercent: 1 }]
+ * means 1% on units redeemed within a year of allotment and nil afterwards.
+ */
+
+export interface ExitLoadTier {
+  withinDays: number;
+  ratePercent: number;
+}
+
+export type ExitLoadSchedule = ExitLoadTier[];
+
+export interface ExitLoadLot {
+  date: string; // allotment date, YYYY-MM-DD
+  units: number;
+}
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export const NIL_EXIT_LOAD: ExitLoadSchedule = [];
+
+/**
+ * Typical exit load for a category, which the user can apply to a fund.
+ * Debt, liquid and overnight schemes are treated as nil; everything else gets
+ * the common 1% within 365 days structure.
+ */
+export function getDefaultExitLoad(category?: string): ExitLoadSchedule {
+  if (!category) return [{ withinDays: 365, ratePercent: 1 }];
+  const normalized = category.toLowerCase();
+  if (
+    normalized.includes('liquid') ||
+    normalized.includes('overnight') ||
+    normalized.includes('debt') ||
+    normalized.includes('gilt') ||
+    normalized.includes('money market') ||
+    normalized.includes('index') ||
+    normalized.includes('etf')
+  ) {
+    return NIL_EXIT_LOAD;
+  }
+  return [{ withinDays: 365, ratePercent: 1 }];
+}
+
+/**
+ * Schedule to apply to a fund: nil unless the user has set one, so results
+ * are unchanged for buckets that never touched exit loads.
+ */
+export function resolveExitLoad(schedule: ExitLoadSchedule | undefined): ExitLoadSchedule {
+  return schedule ?? NIL_EXIT_LOAD;
+}
+
+/**
+ * Load (in percent) applicable to units allotted on purchaseDate and redeemed
+ * on redemptionDate.
+ */
+export function getExitLoadRate(
+  schedule: ExitLoadSchedule,
+  purchaseDate: string,
+  redemptionDate: string
+): number {
+  if (!schedule || schedule.length === 0) return 0;
+  const holdingDays =
+    (new Date(redemptionDate).getTime() - new Date(purchaseDate).getTime()) / MS_PER_DAY;
+  const tiers = [...schedule].sort((a, b) => a.withinDays - b.withinDays);
+  for (const tier of tiers) {
+    if (holdingDays < tier.withinDays) {
+      return Math.max(0, tier.ratePercent);
+    }
+  }
+  return 0;
+}
+
+/**
+ * Exit load payable if every lot were redeemed at the given NAV on redemptionDate.
+ */
+export function calculateExitLoad(
+  lots: ExitLoadLot[],
+  nav: number,
+  redemptionDate: string,
+  schedule: ExitLoadSchedule
+): number {
+  if (!schedule || schedule.length === 0 || nav <= 0) return 0;
+  return lots.reduce((sum, lot) => {
+    const rate = getExitLoadRate(schedule, lot.date, redemptionDate);
+    return sum + (lot.units * nav * rate) / 100;
+  }, 0);
+}
+
+export function formatExitLoad(schedule: ExitLoadSchedule | undefined): string {
+  if (!schedule || schedule.length === 0) return 'Nil';
+  return [...schedule]
+    .sort((a, b) => a.withinDays - b.withinDays)
+    .map((tier) => `${tier.ratePercent}% within ${tier.withinDays} days`)
+    .join(', ');
+}
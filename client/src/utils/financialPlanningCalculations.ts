@@ -1,3 +1,5 @@
+import { DEFAULT_INFLATION_RATE } from './inflation';
+
 export interface FinancialInputs {
   name: string;
   dob: string;
@@ -27,7 +29,7 @@ export interface FinancialResults {
   healthInsuranceRecommendation: string;
 }
 
-const INFLATION_RATE = 0.06; // 6% annual inflation
+const INFLATION_RATE = DEFAULT_INFLATION_RATE / 100; // 6% annual inflation
 const FD_RETURN_RATE = 0.07; // 7% FD return rate
 const COVERAGE_AGE_KIDS = 30; // Cover till kids turn 30
 const COVERAGE_AGE_NO_KIDS = 60; // Cover till 60 if no kids
@@ -161,18 +163,22 @@ export function calculateTermInsurance(
 export function calculateSIPRecommendation(
   annualIncome: number,
   monthlyExpenses: number,
-  existingInvestments: number
+  existingInvestments: number,
+  goalsRequiredSIP: number = 0
 ): number {
   const annualExpenses = monthlyExpenses * 12;
   const surplus = annualIncome - annualExpenses;
 
   // If no existing investments, recommend 50% of surplus
-  if (existingInvestments === 0 || existingInvestments < 10000) {
-    return Math.round((surplus * 0.5) / 12); // Monthly SIP
-  }
-
   // If has investments, recommend 30% of surplus as SIP
-  return Math.round((surplus * 0.3) / 12);
+  const share = existingInvestments === 0 || existingInvestments < 10000 ? 0.5 : 0.3;
+  const recommended = Math.round((surplus * share) / 12); // Monthly SIP
+
+  // Goals that need more than the rule of thumb raise it, up to the whole monthly surplus
+  if (goalsRequiredSIP > recommended) {
+    return Math.round(Math.min(goalsRequiredSIP, Math.max(recommended, surplus / 12)));
+  }
+  return recommended;
 }
 
 // Calculate emergency fund (6 months of expenses)
@@ -0,0 +1,167 @@
+import type { NavSeries } from './portfolioStats';
+import { calculateDrawdown, computeRiskMetrics } from './riskMetrics';
+import type { DrawdownInfo } from './riskMetrics';
+import { navOnOrBefore, sortNavAscending } from './holdings';
+import { calculateRollingStatistics, lumpsumRollingReturns } from './rollingReturns';
+import type { RollingStatistics } from './rollingReturns';
+
+/**
+ * Side-by-side metrics for the fund comparison page.
+ *
+ * Trailing returns are measured to each fund's latest NAV and are annualised
+ * (CAGR) for periods over a year. The comparison period limits the history
+ * used for calendar-year returns, rolling returns, volatility and drawdown,
+ * so funds of different ages can be compared over the same stretch.
+ */
+
+export type ComparisonPeriod = '1Y' | '3Y' | '5Y' | '10Y' | 'MAX';
+
+export const COMPARISON_PERIODS: ComparisonPeriod[] = ['1Y', '3Y', '5Y', '10Y', 'MAX'];
+export const TRAILING_YEARS = [1, 3, 5, 10] as const;
+export const ROLLING_WINDOW_YEARS = [1, 3, 5] as const;
+
+export const MIN_COMPARE_FUNDS = 2;
+export const MAX_COMPARE_FUNDS = 5;
+
+export interface CalendarYearReturn {
+  year: number;
+  value: number; // percent
+  partial: boolean; // launch year or the current year to date
+}
+
+export interface FundComparison {
+  fundId: string;
+  latestNav: { date: string; nav: number } | null;
+  trailing: Record<number, number | null>; // years -> percent
+  calendarYears: CalendarYearReturn[];
+  rolling: (RollingStatistics & { windows: number }) | null;
+  volatility: number | null; // annualised, percent
+  drawdown: DrawdownInfo | null;
+  periodStart: string | null; // first NAV date used for period metrics
+}
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+const shiftYears = (date: string, years: number) => {
+  const [y, m, d] = date.split('-');
+  return `${Number(y) + years}-${m}-${d}`;
+};
+
+const annualise = (growth: number, days: number) =>
+  days >= 365 ? (Math.pow(growth, 365 / days) - 1) * 100 : (growth - 1) * 100;
+
+export function trailingReturn(sortedNav: NavSeries, years: number): number | null {
+  if (sortedNav.length < 2) return null;
+  const latest = sortedNav[sortedNav.length - 1];
+  const startDate = shiftYears(latest.date, -years);
+  // The fund must have a NAV on or before the start of the period
+  const start = navOnOrBefore(sortedNav, startDate);
+  if (!start || start.nav <= 0) return null;
+
+  const days = (new Date(latest.date).getTime() - new Date(start.date).getTime()) / MS_PER_DAY;
+  return annualise(latest.nav / start.nav, days);
+}
+
+export function calendarYearReturns(sortedNav: NavSeries, fromYear?: number): CalendarYearReturn[] {
+  if (sortedNav.length < 2) return [];
+  const firstYear = Math.max(Number(sortedNav[0].date.slice(0, 4)), fromYear ?? 0);
+  const lastYear = Number(sortedNav[sortedNav.length - 1].date.slice(0, 4));
+  const returns: CalendarYearReturn[] = [];
+
+  for (let year = firstYear; year <= lastYear; year++) {
+    const end = navOnOrBefore(sortedNav, `${year}-12-31`);
+    const previousClose = navOnOrBefore(sortedNav, `${year - 1}-12-31`);
+    const start = previousClose ?? sortedNav[0];
+    if (!end || start.nav <= 0 || end.date <= start.date) continue;
+
+    returns.push({
+      year,
+      value: (end.nav / start.nav - 1) * 100,
+      partial: !previousClose || year === new Date().getFullYear(),
+    });
+  }
+  return returns;
+}
+
+/**
+ * Metrics for one fund. `navData` may be in any order.
+ */
+export function compareFund(
+  fundId: string,
+  navData: NavSeries,
+  period: ComparisonPeriod,
+  rollingWindowYears: number
+): FundComparison {
+  const sorted = sortNavAscending(navData.filter((point) => point.nav > 0));
+  const latest = sorted.length > 0 ? sorted[sorted.length - 1] : null;
+
+  const trailing: Record<number, number | null> = {};
+  TRAILING_YEARS.forEach((years) => {
+    trailing[years] = trailingReturn(sorted, years);
+  });
+
+  const periodFrom = latest && period !== 'MAX' ? shiftYears(latest.date, -parseInt(period, 10)) : null;
+  const inPeriod = periodFrom ? sorted.filter((point) => point.date >= periodFrom) : sorted;
+
+  const rollingReturns = latest
+    ? lumpsumRollingReturns(inPeriod, rollingWindowYears * 12, new Date(latest.date), 'monthly')
+    : [];
+  const risk = computeRiskMetrics(inPeriod, { frequency: 'monthly' });
+
+  return {
+    fundId,
+    latestNav: latest,
+    trailing,
+    calendarYears: calendarYearReturns(sorted, periodFrom ? Number(periodFrom.slice(0, 4)) : undefined),
+    rolling: rollingReturns.length > 0
+      ? { ...calculateRollingStatistics(rollingReturns.map((r) => r.xirr)), windows: rollingReturns.length }
+      : null,
+    volatility: risk.volatility,
+    // Drawdown from every NAV, not just month-ends, so intra-month falls count
+    drawdown: calculateDrawdown(inPeriod),
+    periodStart: inPeriod.length > 0 ? inPeriod[0].date : null,
+  };
+}
+
+export interface GrowthPoint {
+  date: string;
+  [fundId: string]: number | string;
+}
+
+/**
+ * Value of the same amount invested in each fund at the start of the period,
+ * for charting. The period starts no earlier than the youngest fund's first
+ * NAV and ends at the oldest latest NAV, so every line covers the same dates.
+ * Dates are sampled down to at most `maxPoints`.
+ */
+export function growthOfInvestment(
+  navByFund: Record<string, NavSeries>,
+  period: ComparisonPeriod,
+  amount: number = 10000,
+  maxPoints: number = 300
+): GrowthPoint[] {
+  const funds = Object.entries(navByFund)
+    .map(([fundId, navData]) => ({ fundId, sorted: sortNavAscending(navData.filter((point) => point.nav > 0)) }))
+    .filter((fund) => fund.sorted.length > 0);
+  if (funds.length === 0) return [];
+
+  const firstCommon = funds.map((fund) => fund.sorted[0].date).sort().pop()!;
+  const lastCommon = funds.map((fund) => fund.sorted[fund.sorted.length - 1].date).sort()[0];
+  const periodFrom = period === 'MAX' ? firstCommon : shiftYears(lastCommon, -parseInt(period, 10));
+  const from = periodFrom > firstCommon ? periodFrom : firstCommon;
+  if (from >= lastCommon) return [];
+
+  const dates = funds[0].sorted.map((point) => point.date).filter((date) => date >= from && date <= lastCommon);
+  const step = Math.max(1, Math.ceil(dates.length / maxPoints));
+  const sampled = dates.filter((_, index) => index % step === 0 || index === dates.length - 1);
+  const startNavs = funds.map((fund) => navOnOrBefore(fund.sorted, sampled[0])?.nav ?? fund.sorted[0].nav);
+
+  return sampled.map((date) => {
+    const point: GrowthPoint = { date };
+    funds.forEach((fund, index) => {
+      const nav = navOnOrBefore(fund.sorted, date)?.nav ?? startNavs[index];
+      point[fund.fundId] = (amount * nav) / startNavs[index];
+    });
+    return point;
+  });
+}
@@ -0,0 +1,174 @@
+import type { FundHolding, FundHoldings } from '../types/fundHoldings';
+
+/**
+ * Overlap and look-through exposure for a bucket of funds, from each fund's
+ * portfolio disclosure.
+ *
+ * The overlap of two funds is the sum, over the stocks they both hold, of the
+ * smaller of the two weights: 100% means identical portfolios, 0% means no
+ * stock in common. Stocks are matched on ISIN, falling back to the symbol.
+ *
+ * Look-through exposure weights each fund's holdings by the fund's share of
+ * the bucket, so a stock held at 10% by a fund that is half the bucket is 5%
+ * of the bucket. Exposures are percentages of the whole bucket; the part of
+ * the bucket in funds without holdings data is reported as uncovered, and
+ * whatever a covered fund holds outside its disclosed stocks (cash, debt,
+ * undisclosed tail) as unclassified.
+ */
+
+export const OVERLAP_WARNING_THRESHOLD = 40; // percent
+
+export interface FundOverlap {
+  schemeCodeA: string;
+  schemeCodeB: string;
+  overlap: number; // percent
+  commonHoldings: number;
+}
+
+export interface StockExposure {
+  key: string;
+  symbol: string;
+  companyName: string;
+  industry: string;
+  weight: number; // percent of the bucket
+  schemeCodes: string[]; // funds holding the stock
+}
+
+export interface SectorExposure {
+  industry: string;
+  weight: number; // percent of the bucket
+}
+
+export interface BucketLookThrough {
+  stocks: StockExposure[];
+  sectors: SectorExposure[];
+  coveredWeight: number; // percent of the bucket in funds with holdings data
+  unclassifiedWeight: number; // percent of the bucket in covered funds but outside disclosed stocks
+}
+
+export interface BucketOverlapAnalysis {
+  pairs: FundOverlap[];
+  maxOverlap: FundOverlap | null;
+  highOverlapPairs: FundOverlap[]; // pairs above the warning threshold
+  lookThrough: BucketLookThrough;
+}
+
+const holdingKey = (holding: FundHolding) => holding.isin || holding.symbol;
+
+const weightsByKey = (fund: FundHoldings) => {
+  const weights = new Map<string, number>();
+  fund.holdings.forEach((holding) => {
+    const key = holdingKey(holding);
+    weights.set(key, (weights.get(key) ?? 0) + holding.weightage);
+  });
+  return weights;
+};
+
+export function fundOverlap(a: FundHoldings, b: FundHoldings): FundOverlap {
+  const weightsA = weightsByKey(a);
+  const weightsB = weightsByKey(b);
+
+  let overlap = 0;
+  let commonHoldings = 0;
+  weightsA.forEach((weightA, key) => {
+    const weightB = weightsB.get(key);
+    if (weightB === undefined) return;
+    overlap += Math.min(weightA, weightB);
+    commonHoldings++;
+  });
+
+  return { schemeCodeA: a.schemeCode, schemeCodeB: b.schemeCode, overlap, commonHoldings };
+}
+
+export function pairwiseOverlaps(funds: FundHoldings[]): FundOverlap[] {
+  const pairs: FundOverlap[] = [];
+  for (let i = 0; i < funds.length; i++) {
+    for (let j = i + 1; j < funds.length; j++) {
+      pairs.push(fundOverlap(funds[i], funds[j]));
+    }
+  }
+  return pairs;
+}
+
+/**
+ * @param bucketFunds - scheme code and bucket weightage (percent) of each fund
+ */
+export function lookThroughExposure(
+  bucketFunds: Array<{ id: string; weightage: number }>,
+  holdings: FundHoldings[]
+): BucketLookThrough {
+  const totalWeight = bucketFunds.reduce((sum, fund) => sum + fund.weightage, 0);
+  const byCode = new Map(holdings.map((fund) => [fund.schemeCode, fund]));
+  const stocks = new Map<string, StockExposure>();
+  const sectors = new Map<string, number>();
+  let coveredWeight = 0;
+  let unclassifiedWeight = 0;
+
+  if (totalWeight <= 0) {
+    return { stocks: [], sectors: [], coveredWeight: 0, unclassifiedWeight: 0 };
+  }
+
+  bucketFunds.forEach((fund) => {
+    const fundHoldings = byCode.get(fund.id);
+    if (!fundHoldings) return;
+
+    const share = fund.weightage / totalWeight; // fraction of the bucket
+    coveredWeight += share * 100;
+    let disclosed = 0;
+
+    fundHoldings.holdings.forEach((holding) => {
+      const weight = share * holding.weightage;
+      disclosed += holding.weightage;
+
+      const key = holdingKey(holding);
+      const existing = stocks.get(key);
+      if (existing) {
+        existing.weight += weight;
+        if (!existing.schemeCodes.includes(fund.id)) existing.schemeCodes.push(fund.id);
+      } else {
+        stocks.set(key, {
+          key,
+          symbol: holding.symbol,
+          companyName: holding.companyName,
+          industry: holding.industry,
+          weight,
+          schemeCodes: [fund.id],
+        });
+      }
+
+      const industry = holding.industry || 'Unclassified';
+      sectors.set(industry, (sectors.get(industry) ?? 0) + weight);
+    });
+
+    unclassifiedWeight += share * Math.max(0, 100 - disclosed);
+  });
+
+  return {
+    stocks: [...stocks.values()].sort((a, b) => b.weight - a.weight),
+    sectors: [...sectors.entries()]
+      .map(([industry, weight]) => ({ industry, weight }))
+      .sort((a, b) => b.weight - a.weight),
+    coveredWeight,
+    unclassifiedWeight,
+  };
+}
+
+export function analyseBucketOverlap(
+  bucketFunds: Array<{ id: string; weightage: number }>,
+  holdings: FundHoldings[],
+  threshold: number = OVERLAP_WARNING_THRESHOLD
+): BucketOverlapAnalysis {
+  const inBucket = new Set(bucketFunds.map((fund) => fund.id));
+  const pairs = pairwiseOverlaps(holdings.filter((fund) => inBucket.has(fund.schemeCode)));
+  const maxOverlap = pairs.reduce<FundOverlap | null>(
+    (max, pair) => (!max || pair.overlap > max.overlap ? pair : max),
+    null
+  );
+
+  return {
+    pairs,
+    maxOverlap,
+    highOverlapPairs: pairs.filter((pair) => pair.overlap > threshold),
+    lookThrough: lookThroughExposure(bucketFunds, holdings),
+  };
+}
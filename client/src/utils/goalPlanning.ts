@@ -0,0 +1,194 @@
+import { calculateAge } from './financialPlanningCalculations';
+import type { FinancialGoal, GoalKind, RollingReturnStats } from '../types/goal';
+
+/**
+ * Goal-based planning: how much a goal will cost by its target date, the
+ * monthly SIP that reaches it, and how a planned SIP is likely to do given the
+ * historical rolling-return distribution of the bucket it is invested in.
+ *
+ * Three return scenarios are read from the distribution: the median, and the
+ * median one standard deviation either side (roughly the 16th and 84th
+ * percentiles), kept within the worst and best rolling returns observed.
+ * SIPs are paid at the start of each month.
+ */
+
+export const GOAL_KIND_LABELS: Record<GoalKind, string> = {
+  EDUCATION: 'Education',
+  HOUSE: 'House',
+  RETIREMENT: 'Retirement',
+  MARRIAGE: 'Marriage',
+  CUSTOM: 'Other',
+};
+
+export const EDUCATION_GOAL_AGE = 18;
+export const DEFAULT_EDUCATION_COST = 2500000; // today's cost of a graduate degree
+export const EDUCATION_INFLATION_RATE = 10; // education costs rise faster than CPI
+
+export type ReturnScenario = 'LOW' | 'MEDIAN' | 'HIGH';
+
+export interface ScenarioProjection {
+  scenario: ReturnScenario;
+  annualReturn: number; // percent
+  requiredSIP: number; // monthly SIP needed to reach the goal at this return
+  projectedValue: number; // value at the target date with the planned SIP
+}
+
+export interface GoalProgressPoint {
+  year: number; // years from today
+  date: string;
+  required: number; // where the corpus needs to be to stay on track (median return, required SIP)
+  low: number;
+  median: number;
+  high: number;
+}
+
+export interface GoalProjection {
+  months: number;
+  futureTarget: number; // target amount inflated to the target date
+  plannedSIP: number;
+  scenarios: ScenarioProjection[];
+  requiredSIP: number; // at the median return
+  shortfall: number; // at the median return, 0 when on track
+  onTrack: 'YES' | 'LIKELY' | 'UNLIKELY'; // reached in the low, median or neither scenario
+  progress: GoalProgressPoint[];
+}
+
+const monthlyRate = (annualPercent: number) => Math.pow(1 + annualPercent / 100, 1 / 12) - 1;
+
+export function monthsUntil(targetDate: string, from: Date = new Date()): number {
+  const target = new Date(targetDate);
+  const months = (target.getFullYear() - from.getFullYear()) * 12 + (target.getMonth() - from.getMonth());
+  return Math.max(0, target.getDate() < from.getDate() ? months - 1 : months);
+}
+
+/**
+ * Cost of the goal at its target date.
+ */
+export function inflateTarget(amount: number, inflationPercent: number, months: number): number {
+  return amount * Math.pow(1 + inflationPercent / 100, months / 12);
+}
+
+/**
+ * Value after `months` of a monthly SIP plus a lump sum invested today.
+ */
+export function projectSIPValue(
+  monthlySIP: number,
+  annualReturnPercent: number,
+  months: number,
+  currentCorpus: number = 0
+): number {
+  const i = monthlyRate(annualReturnPercent);
+  const lumpSum = currentCorpus * Math.pow(1 + i, months);
+  if (Math.abs(i) < 1e-12) return lumpSum + monthlySIP * months;
+  return lumpSum + monthlySIP * ((Math.pow(1 + i, months) - 1) / i) * (1 + i);
+}
+
+/**
+ * Monthly SIP that grows to `futureValue` in `months`, after what the
+ * current corpus grows to on its own.
+ */
+export function requiredMonthlySIP(
+  futureValue: number,
+  annualReturnPercent: number,
+  months: number,
+  currentCorpus: number = 0
+): number {
+  const remaining = futureValue - projectSIPValue(0, annualReturnPercent, months, currentCorpus);
+  if (remaining <= 0) return 0;
+  if (months <= 0) return remaining;
+  const perRupee = projectSIPValue(1, annualReturnPercent, months);
+  return remaining / perRupee;
+}
+
+export function scenarioReturns(stats: RollingReturnStats): Record<ReturnScenario, number> {
+  return {
+    LOW: Math.max(stats.min, stats.median - stats.stdDev),
+    MEDIAN: stats.median,
+    HIGH: Math.min(stats.max, stats.median + stats.stdDev),
+  };
+}
+
+const addMonths = (from: Date, months: number) => {
+  const date = new Date(from);
+  date.setMonth(date.getMonth() + months);
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Projects a goal against its bucket's return distribution. Without a planned
+ * SIP, the SIP required at the median return is used.
+ */
+export function projectGoal(
+  goal: FinancialGoal,
+  stats: RollingReturnStats,
+  today: Date = new Date()
+): GoalProjection {
+  const months = monthsUntil(goal.targetDate, today);
+  const futureTarget = inflateTarget(goal.targetAmount, goal.inflationRate, months);
+  const returns = scenarioReturns(stats);
+  const requiredSIP = requiredMonthlySIP(futureTarget, returns.MEDIAN, months, goal.currentSavings);
+  const plannedSIP = goal.monthlySIP ?? requiredSIP;
+
+  const scenarios: ScenarioProjection[] = (['LOW', 'MEDIAN', 'HIGH'] as ReturnScenario[]).map((scenario) => ({
+    scenario,
+    annualReturn: returns[scenario],
+    requiredSIP: requiredMonthlySIP(futureTarget, returns[scenario], months, goal.currentSavings),
+    projectedValue: projectSIPValue(plannedSIP, returns[scenario], months, goal.currentSavings),
+  }));
+
+  const valueAt = (scenario: ReturnScenario) => scenarios.find((s) => s.scenario === scenario)!.projectedValue;
+  const onTrack = valueAt('LOW') >= futureTarget ? 'YES' : valueAt('MEDIAN') >= futureTarget ? 'LIKELY' : 'UNLIKELY';
+
+  const progress: GoalProgressPoint[] = [];
+  for (let m = 0; m <= months; m += 12) {
+    progress.push(progressPoint(m));
+  }
+  if (months % 12 !== 0) progress.push(progressPoint(months));
+
+  function progressPoint(m: number): GoalProgressPoint {
+    return {
+      year: Math.round((m / 12) * 10) / 10,
+      date: addMonths(today, m),
+      required: projectSIPValue(requiredSIP, returns.MEDIAN, m, goal.currentSavings),
+      low: projectSIPValue(plannedSIP, returns.LOW, m, goal.currentSavings),
+      median: projectSIPValue(plannedSIP, returns.MEDIAN, m, goal.currentSavings),
+      high: projectSIPValue(plannedSIP, returns.HIGH, m, goal.currentSavings),
+    };
+  }
+
+  return {
+    months,
+    futureTarget,
+    plannedSIP,
+    scenarios,
+    requiredSIP,
+    shortfall: Math.max(0, futureTarget - valueAt('MEDIAN')),
+    onTrack,
+    progress,
+  };
+}
+
+/**
+ * One education goal per child, due the year they turn EDUCATION_GOAL_AGE.
+ * Children already past that age are skipped.
+ */
+export function createEducationGoals(kidsDob: string[], existing: FinancialGoal[] = []): Omit<FinancialGoal, 'id'>[] {
+  return kidsDob
+    .map((dob, index) => ({ dob, childNumber: index + 1 }))
+    .filter(({ dob }) => dob && !existing.some((goal) => goal.kind === 'EDUCATION' && goal.childDob === dob))
+    .filter(({ dob }) => calculateAge(dob) < EDUCATION_GOAL_AGE)
+    .map(({ dob, childNumber }) => {
+      const [year, month] = dob.split('-');
+      return {
+        name: `Child ${childNumber} education`,
+        kind: 'EDUCATION' as GoalKind,
+        targetAmount: DEFAULT_EDUCATION_COST,
+        targetDate: `${Number(year) + EDUCATION_GOAL_AGE}-${month}-01`,
+        inflationRate: EDUCATION_INFLATION_RATE,
+        currentSavings: 0,
+        monthlySIP: null,
+        bucket: null,
+        childDob: dob,
+      };
+    });
+}
@@ -0,0 +1,259 @@
+import { calculateXIRR } from './financialCalculations';
+import type { NavPoint, NavSeriesByFund } from './swpSimulation';
+import type { HoldingTransaction, HoldingTransactionType } from '../types/holdings';
+
+/**
+ * Valuation of real mutual fund holdings from recorded transactions.
+ *
+ * Each folio and scheme pair is tracked separately. Purchases, switch-ins and
+ * dividend reinvestments open lots; redemptions and switch-outs consume lots
+ * oldest-first (FIFO), which is how Indian capital gains are computed.
+ * Reinvested dividends never leave the folio, so they add a lot without a
+ * cash flow in the XIRR.
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const TRANSACTION_TYPE_LABELS: Record<HoldingTransactionType, string> = {
+  PURCHASE: 'Purchase',
+  REDEMPTION: 'Redemption',
+  SWITCH_IN: 'Switch in',
+  SWITCH_OUT: 'Switch out',
+  DIVIDEND_REINVESTMENT: 'Dividend reinvested',
+};
+
+const isOutflow = (type: HoldingTransactionType) => type === 'REDEMPTION' || type === 'SWITCH_OUT';
+
+export interface HoldingLot {
+  transactionId: string;
+  date: string;
+  units: number; // units still held from this lot
+  costPerUnit: number;
+  cost: number;
+  currentValue: number;
+  gain: number;
+  gainPercent: number;
+  holdingDays: number;
+}
+
+export interface FolioHolding {
+  key: string; // folio and scheme code
+  folio: string;
+  schemeCode: string;
+  schemeName: string;
+  units: number;
+  invested: number; // cost of the lots still held
+  currentNav: NavPoint | null;
+  currentValue: number;
+  unrealisedGain: number;
+  realisedGain: number;
+  xirr: number | null; // percent
+  lots: HoldingLot[];
+  transactionCount: number;
+}
+
+export interface HoldingsSummary {
+  folios: FolioHolding[];
+  invested: number;
+  currentValue: number;
+  unrealisedGain: number;
+  realisedGain: number;
+  xirr: number | null;
+  asOf: string;
+  // Transactions skipped because neither units nor a NAV for their date were available
+  unpricedTransactions: HoldingTransaction[];
+  missingNavSchemes: string[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const roundUnits = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Sorts a NAV series oldest first. The server returns newest first.
+ */
+export function sortNavAscending(series: NavPoint[]): NavPoint[] {
+  return [...series].sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+}
+
+/**
+ * Latest NAV on or before `date` in an ascending series.
+ */
+export function navOnOrBefore(sortedSeries: NavPoint[], date: string): NavPoint | null {
+  let low = 0;
+  let high = sortedSeries.length - 1;
+  let found: NavPoint | null = null;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (sortedSeries[mid].date <= date) {
+      found = sortedSeries[mid];
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
+
+/**
+ * Units and price of a transaction, filling in whichever of units and NAV is
+ * missing from the amount or the scheme's NAV on that date.
+ */
+function resolveTransaction(
+  transaction: HoldingTransaction,
+  series: NavPoint[] | undefined
+): { units: number; amount: number } | null {
+  const { amount } = transaction;
+  const price = transaction.nav ?? navOnOrBefore(series ?? [], transaction.date)?.nav;
+  if (transaction.units && transaction.units > 0) {
+    if (amount > 0) return { units: transaction.units, amount };
+    return price ? { units: transaction.units, amount: round2(transaction.units * price) } : null;
+  }
+  if (!price || amount <= 0) return null;
+  return { units: roundUnits(amount / price), amount };
+}
+
+const toDate = (iso: string) => new Date(`${iso}T00:00:00`);
+
+/**
+ * Values every folio as of `asOf` and computes XIRR per folio and overall.
+ * `navSeriesByScheme` is keyed by scheme code; series may be in any order.
+ */
+export function computeHoldings(
+  transactions: HoldingTransaction[],
+  navSeriesByScheme: NavSeriesByFund,
+  asOf: string
+): HoldingsSummary {
+  const sortedSeries: NavSeriesByFund = {};
+  Object.entries(navSeriesByScheme).forEach(([code, series]) => {
+    sortedSeries[code] = sortNavAscending(series);
+  });
+
+  const groups = new Map<string, HoldingTransaction[]>();
+  [...transactions]
+    .filter((t) => t.date <= asOf)
+    .sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0))
+    .forEach((transaction) => {
+      const key = `${transaction.folio}|${transaction.schemeCode}`;
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(transaction);
+    });
+
+  const folios: FolioHolding[] = [];
+  const allFlows: { date: Date; amount: number }[] = [];
+  const unpricedTransactions: HoldingTransaction[] = [];
+  const missingNavSchemes = new Set<string>();
+
+  groups.forEach((folioTransactions, key) => {
+    const { folio, schemeCode, schemeName } = folioTransactions[0];
+    const series = sortedSeries[schemeCode];
+    const currentNav = series ? navOnOrBefore(series, asOf) : null;
+    if (!currentNav) missingNavSchemes.add(schemeCode);
+
+    const openLots: { transactionId: string; date: string; units: number; costPerUnit: number }[] = [];
+    const flows: { date: Date; amount: number }[] = [];
+    let realisedGain = 0;
+
+    folioTransactions.forEach((transaction) => {
+      const resolved = resolveTransaction(transaction, series);
+      if (!resolved) {
+        unpricedTransactions.push(transaction);
+        return;
+      }
+
+      if (isOutflow(transaction.type)) {
+        let unitsLeft = resolved.units;
+        const pricePerUnit = resolved.amount / resolved.units;
+        while (unitsLeft > 1e-6 && openLots.length > 0) {
+          const lot = openLots[0];
+          const units = Math.min(lot.units, unitsLeft);
+          realisedGain += units * (pricePerUnit - lot.costPerUnit);
+          lot.units = roundUnits(lot.units - units);
+          unitsLeft -= units;
+          if (lot.units <= 1e-6) openLots.shift();
+        }
+        flows.push({ date: toDate(transaction.date), amount: resolved.amount });
+      } else {
+        openLots.push({
+          transactionId: transaction.id,
+          date: transaction.date,
+          units: resolved.units,
+          costPerUnit: resolved.amount / resolved.units,
+        });
+        if (transaction.type !== 'DIVIDEND_REINVESTMENT') {
+          flows.push({ date: toDate(transaction.date), amount: -resolved.amount });
+        }
+      }
+    });
+
+    const nav = currentNav?.nav ?? 0;
+    const lots: HoldingLot[] = openLots.map((lot) => {
+      const cost = lot.units * lot.costPerUnit;
+      const currentValue = lot.units * nav;
+      return {
+        transactionId: lot.transactionId,
+        date: lot.date,
+        units: lot.units,
+        costPerUnit: lot.costPerUnit,
+        cost: round2(cost),
+        currentValue: round2(currentValue),
+        gain: round2(currentValue - cost),
+        gainPercent: cost > 0 ? ((currentValue - cost) / cost) * 100 : 0,
+        holdingDays: Math.max(0, Math.round((toDate(asOf).getTime() - toDate(lot.date).getTime()) / MS_PER_DAY)),
+      };
+    });
+
+    const units = roundUnits(lots.reduce((sum, lot) => sum + lot.units, 0));
+    const invested = lots.reduce((sum, lot) => sum + lot.cost, 0);
+    const currentValue = round2(units * nav);
+
+    // Closing value counts as a final inflow, unless the value is unknown
+    if (currentNav && currentValue > 0) {
+      flows.push({ date: toDate(asOf), amount: currentValue });
+    }
+    allFlows.push(...flows);
+
+    folios.push({
+      key,
+      folio,
+      schemeCode,
+      schemeName,
+      units,
+      invested: round2(invested),
+      currentNav,
+      currentValue,
+      unrealisedGain: round2(currentValue - invested),
+      realisedGain: round2(realisedGain),
+      xirr: xirrOf(flows, !!currentNav || units === 0),
+      lots,
+      transactionCount: folioTransactions.length,
+    });
+  });
+
+  folios.sort((a, b) => b.currentValue - a.currentValue);
+
+  const invested = folios.reduce((sum, f) => sum + f.invested, 0);
+  const currentValue = folios.reduce((sum, f) => sum + f.currentValue, 0);
+
+  return {
+    folios,
+    invested: round2(invested),
+    currentValue: round2(currentValue),
+    unrealisedGain: round2(currentValue - invested),
+    realisedGain: round2(folios.reduce((sum, f) => sum + f.realisedGain, 0)),
+    xirr: xirrOf(allFlows, missingNavSchemes.size === 0),
+    asOf,
+    unpricedTransactions,
+    missingNavSchemes: [...missingNavSchemes],
+  };
+}
+
+/**
+ * XIRR needs money both going in and coming out, and is meaningless when the
+ * closing value is unknown.
+ */
+function xirrOf(flows: { date: Date; amount: number }[], valued: boolean): number | null {
+  if (!valued || flows.length < 2) return null;
+  if (!flows.some((f) => f.amount < 0) || !flows.some((f) => f.amount > 0)) return null;
+  const rate = calculateXIRR(flows);
+  return isFinite(rate) ? rate : null;
+}
@@ -0,0 +1,170 @@
+/**
+ * Inflation indexation for SWP withdrawals.
+ *
+ * The withdrawal steps up once a year, on each anniversary of the first
+ * withdrawal, and stays flat in between. With a fixed rate the step is
+ * (1 + rate)^years; with a CPI series the amount tracks the index level on
+ * the anniversary relative to the level at the first withdrawal. Anniversaries
+ * beyond the end of the CPI series carry on at the series' average rate.
+ */
+export interface CpiPoint {
+  date: string; // YYYY-MM-DD
+  index: number;
+}
+
+export type WithdrawalIndexation =
+  | { type: 'NONE' }
+  | { type: 'FIXED_RATE'; annualRate: number } // percent
+  | { type: 'CPI'; series: CpiPoint[] };
+
+export type IndexationType = WithdrawalIndexation['type'];
+
+export const DEFAULT_INFLATION_RATE = 6;
+
+export const NO_INDEXATION: WithdrawalIndexation = { type: 'NONE' };
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+const toTime = (iso: string) => new Date(`${iso}T00:00:00`).getTime();
+
+// Whole years from one ISO date to another, counted on the calendar
+export function wholeYearsBetween(from: string, to: string): number {
+  const years = Number(to.slice(0, 4)) - Number(from.slice(0, 4));
+  return to.slice(5) < from.slice(5) ? Math.max(0, years - 1) : Math.max(0, years);
+}
+
+function addYears(iso: string, years: number): string {
+  return `${Number(iso.slice(0, 4)) + years}${iso.slice(4)}`;
+}
+
+function sortCpi(series: CpiPoint[]): CpiPoint[] {
+  return [...series]
+    .filter((point) => point.index > 0)
+    .sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+}
+
+function cpiOnOrBefore(sorted: CpiPoint[], isoDate: string): CpiPoint | null {
+  let best: CpiPoint | null = null;
+  for (const point of sorted) {
+    if (point.date > isoDate) break;
+    best = point;
+  }
+  return best ?? sorted[0] ?? null;
+}
+
+/**
+ * Annualised growth of a CPI series, in percent.
+ */
+export function cpiAnnualRate(series: CpiPoint[]): number | null {
+  const sorted = sortCpi(series);
+  if (sorted.length < 2) return null;
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const years = (toTime(last.date) - toTime(first.date)) / MS_PER_YEAR;
+  if (years <= 0) return null;
+  return (Math.pow(last.index / first.index, 1 / years) - 1) * 100;
+}
+
+/**
+ * Single annual rate (percent) that stands in for the indexation in
+ * closed-form corpus estimates.
+ */
+export function effectiveInflationRate(indexation?: WithdrawalIndexation): number {
+  if (!indexation || indexation.type === 'NONE') return 0;
+  if (indexation.type === 'FIXED_RATE') return indexation.annualRate;
+  return cpiAnnualRate(indexation.series) ?? 0;
+}
+
+/**
+ * Returns the multiplier applied to the first withdrawal for a withdrawal on a
+ * given date. The CPI series is sorted once and factors are cached per year,
+ * so the indexer is cheap to call for every period of a long simulation.
+ */
+export function createWithdrawalIndexer(
+  firstWithdrawalDate: string,
+  indexation?: WithdrawalIndexation
+): (date: string) => number {
+  if (!indexation || indexation.type === 'NONE') return () => 1;
+
+  const factorForYears = (() => {
+    if (indexation.type === 'FIXED_RATE') {
+      return (years: number) => Math.pow(1 + indexation.annualRate / 100, years);
+    }
+    const sorted = sortCpi(indexation.series);
+    const base = cpiOnOrBefore(sorted, firstWithdrawalDate);
+    if (!base) return () => 1;
+    const lastPoint = sorted[sorted.length - 1];
+    const coveredYears = wholeYearsBetween(firstWithdrawalDate, lastPoint.date);
+    const rate = (cpiAnnualRate(sorted) ?? 0) / 100;
+    const levelAfter = (years: number) =>
+      cpiOnOrBefore(sorted, addYears(firstWithdrawalDate, years))!.index / base.index;
+    return (years: number) =>
+      years <= coveredYears
+        ? levelAfter(years)
+        : levelAfter(coveredYears) * Math.pow(1 + rate, years - coveredYears);
+  })();
+
+  const cache = new Map<number, number>();
+  return (date: string) => {
+    const years = wholeYearsBetween(firstWithdrawalDate, date);
+    if (years === 0) return 1;
+    let factor = cache.get(years);
+    if (factor === undefined) {
+      factor = factorForYears(years);
+      cache.set(years, factor);
+    }
+    return factor;
+  };
+}
+
+export function indexedWithdrawalAmount(
+  baseAmount: number,
+  firstWithdrawalDate: string,
+  date: string,
+  indexation?: WithdrawalIndexation
+): number {
+  return baseAmount * createWithdrawalIndexer(firstWithdrawalDate, indexation)(date);
+}
+
+/**
+ * Corpus needed to fund `annualWithdrawal` (first-year amount) for `years`
+ * when withdrawals grow by `inflationRate` and the corpus earns `returnRate`,
+ * both as fractions. Reduces to the level annuity when inflation is zero.
+ */
+export function growingAnnuityCorpus(
+  annualWithdrawal: number,
+  returnRate: number,
+  inflationRate: number,
+  years: number
+): number {
+  if (Math.abs(returnRate - inflationRate) < 1e-9) {
+    return (annualWithdrawal * years) / (1 + returnRate);
+  }
+  return (
+    (annualWithdrawal * (1 - Math.pow((1 + inflationRate) / (1 + returnRate), years))) /
+    (returnRate - inflationRate)
+  );
+}
+
+/**
+ * Parses a CPI upload: one "date,index" row per line, with an optional header.
+ * Dates may be YYYY-MM-DD or YYYY-MM (read as the 1st of the month).
+ */
+export function parseCpiCsv(text: string): CpiPoint[] {
+  const points: CpiPoint[] = [];
+  text.split(/\r?\n/).forEach((line, lineNumber) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    const [rawDate, rawIndex] = trimmed.split(/[,;\t]/).map((cell) => cell.trim().replace(/^"|"$/g, ''));
+    const date = /^\d{4}-\d{2}$/.test(rawDate) ? `${rawDate}-01` : rawDate;
+    const index = Number(rawIndex);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !isFinite(index) || index <= 0) {
+      if (lineNumber === 0) return; // header row
+      throw new Error(`Line ${lineNumber + 1} of the CPI file is not a "date,index" row.`);
+    }
+    points.push({ date, index });
+  });
+  if (points.length < 2) {
+    throw new Error('The CPI file needs at least two dated index values.');
+  }
+  return sortCpi(points);
+}
@@ -0,0 +1,8 @@
+/**
+ * Markdown for blog posts. The parser is shared with the server, which
+ * renders the same posts as HTML for crawlers and the RSS feed; BlogContent
+ * renders the parsed blocks as React elements, so nothing a post contains is
+ * inserted into the page as HTML.
+ */
+export { safeUrl, parseInline, parseMarkdown, markdownToPlainText } from '../../../server/utils/markdownParser.mjs';
+export type { MarkdownInline, MarkdownBlock, TableAlign } from '../../../server/utils/markdownParser.mjs';
@@ -0,0 +1,262 @@
+import { simulateSWP } from './swpSimulation';
+import type {
+  NavPoint,
+  NavSeriesByFund,
+  SWPStrategy,
+  TaxClass,
+  TaxRules,
+} from './swpSimulation';
+import type { ExitLoadSchedule } from './exitLoad';
+import type { WithdrawalIndexation } from './inflation';
+import type { WithdrawalPolicy } from './withdrawalPolicy';
+
+/**
+ * Monte Carlo sustainability test for an SWP plan.
+ *
+ * Each path is built by drawing calendar months at random (with replacement)
+ * from the bucket's history and applying every fund's return for that month,
+ * so the funds keep moving together the way they did historically. The
+ * synthetic NAVs then run through simulateSWP, including exit loads and tax,
+ * exactly like a historical backtest.
+ */
+export interface MonteCarloSWPInput {
+  corpus: number;
+  withdrawalAmount: number;
+  withdrawalsPerYear: 12 | 4;
+  years: number;
+  paths: number;
+  targetWeights: Record<string, number>; // fractions, should sum to 1
+  navSeriesByFund: NavSeriesByFund; // history to sample monthly returns from
+  strategy?: SWPStrategy;
+  riskOrder?: string[];
+  fundRisk?: Record<string, string>;
+  taxClassByFund?: Record<string, TaxClass>;
+  taxRules?: Partial<TaxRules>;
+  exitLoadByFund?: Record<string, ExitLoadSchedule>;
+  withdrawalIndexation?: WithdrawalIndexation;
+  withdrawalPolicy?: WithdrawalPolicy;
+  seed?: number; // same seed, same paths
+}
+
+export interface MonteCarloPercentiles {
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+export interface MonteCarloFanPoint extends MonteCarloPercentiles {
+  year: number;
+}
+
+export interface MonteCarloSWPResult {
+  paths: number;
+  years: number;
+  historicalMonths: number; // size of the pool returns were drawn from
+  survivalProbability: number; // percent of paths that met every withdrawal
+  depletedPaths: number;
+  medianDepletionYear: number | null; // among depleted paths
+  medianTerminalValue: number;
+  terminalPercentiles: MonteCarloPercentiles;
+  medianTotalWithdrawn: number;
+  fan: MonteCarloFanPoint[]; // corpus percentiles at the end of each year
+}
+
+export const MONTE_CARLO_PATH_OPTIONS = [500, 1000, 2000, 5000];
+export const DEFAULT_MONTE_CARLO_PATHS = 1000;
+
+const MIN_HISTORY_MONTHS = 12;
+const SYNTHETIC_START_NAV = 100;
+
+const toTime = (iso: string) => new Date(`${iso}T00:00:00`).getTime();
+
+// Small seeded generator (mulberry32) so a run can be reproduced
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = (sorted.length - 1) * p;
+  const lo = Math.floor(index);
+  const hi = Math.ceil(index);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (index - lo);
+}
+
+export function percentilesOf(values: number[]): MonteCarloPercentiles {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: percentile(sorted, 0.1),
+    p25: percentile(sorted, 0.25),
+    p50: percentile(sorted, 0.5),
+    p75: percentile(sorted, 0.75),
+    p90: percentile(sorted, 0.9),
+  };
+}
+
+/**
+ * Month-on-month returns for every fund, keeping only months where all funds
+ * have a NAV in both the month and the one before it.
+ */
+export function extractJointMonthlyReturns(
+  navSeriesByFund: NavSeriesByFund,
+  fundIds: string[]
+): Array<Record<string, number>> {
+  const monthEnds: Record<string, Map<string, number>> = {};
+  for (const fundId of fundIds) {
+    const byMonth = new Map<string, number>();
+    [...(navSeriesByFund[fundId] ?? [])]
+      .filter((point) => point.nav > 0)
+      .sort((a, b) => toTime(a.date) - toTime(b.date))
+      .forEach((point) => byMonth.set(point.date.slice(0, 7), point.nav));
+    monthEnds[fundId] = byMonth;
+  }
+
+  const months = [...(monthEnds[fundIds[0]]?.keys() ?? [])].sort();
+  const rows: Array<Record<string, number>> = [];
+  for (let i = 1; i < months.length; i++) {
+    const row: Record<string, number> = {};
+    let complete = true;
+    for (const fundId of fundIds) {
+      const prev = monthEnds[fundId].get(months[i - 1]);
+      const curr = monthEnds[fundId].get(months[i]);
+      if (!prev || !curr) {
+        complete = false;
+        break;
+      }
+      row[fundId] = curr / prev - 1;
+    }
+    if (complete) rows.push(row);
+  }
+  return rows;
+}
+
+// Synthetic calendar: the 1st of each month, starting next month
+function syntheticMonthDates(count: number): string[] {
+  const now = new Date();
+  return Array.from({ length: count }, (_, m) =>
+    new Date(Date.UTC(now.getFullYear(), now.getMonth() + 1 + m, 1)).toISOString().slice(0, 10)
+  );
+}
+
+export function runMonteCarloSWP(
+  input: MonteCarloSWPInput,
+  onProgress?: (completed: number, total: number) => void
+): MonteCarloSWPResult {
+  const fundIds = Object.keys(input.targetWeights).filter((id) => input.targetWeights[id] > 0);
+  if (fundIds.length === 0) {
+    throw new Error('At least one fund with a positive weight is required.');
+  }
+
+  const pool = extractJointMonthlyReturns(input.navSeriesByFund, fundIds);
+  if (pool.length < MIN_HISTORY_MONTHS) {
+    throw new Error(
+      `Need at least ${MIN_HISTORY_MONTHS} months of common NAV history to bootstrap returns; found ${pool.length}.`
+    );
+  }
+
+  const months = Math.max(1, Math.round(input.years * 12));
+  const stepMonths = 12 / input.withdrawalsPerYear;
+  const monthDates = syntheticMonthDates(months + 1);
+  const startDate = monthDates[0];
+  const withdrawalDates = monthDates.filter((_, m) => m < months && m % stepMonths === 0);
+  const yearEndIndex = Array.from({ length: Math.floor(months / 12) + 1 }, (_, y) => y * 12);
+
+  const initialUnits: Record<string, number> = {};
+  for (const fundId of fundIds) {
+    initialUnits[fundId] = (input.corpus * input.targetWeights[fundId]) / SYNTHETIC_START_NAV;
+  }
+
+  const random = createRandom(input.seed ?? Date.now());
+  const terminalValues: number[] = [];
+  const totalWithdrawn: number[] = [];
+  const depletionYears: number[] = [];
+  const yearValues: number[][] = yearEndIndex.map(() => []);
+  let survived = 0;
+
+  for (let path = 0; path < input.paths; path++) {
+    const navSeriesByFund: NavSeriesByFund = {};
+    for (const fundId of fundIds) {
+      navSeriesByFund[fundId] = new Array<NavPoint>(months + 1);
+      navSeriesByFund[fundId][0] = { date: monthDates[0], nav: SYNTHETIC_START_NAV };
+    }
+    for (let m = 1; m <= months; m++) {
+      const draw = pool[Math.floor(random() * pool.length)];
+      for (const fundId of fundIds) {
+        const prev = navSeriesByFund[fundId][m - 1].nav;
+        navSeriesByFund[fundId][m] = { date: monthDates[m], nav: prev * (1 + draw[fundId]) };
+      }
+    }
+
+    const simulation = simulateSWP({
+      startDate,
+      withdrawalAmount: input.withdrawalAmount,
+      withdrawalDates,
+      strategy: input.strategy ?? 'PROPORTIONAL',
+      targetWeights: input.targetWeights,
+      initialUnits,
+      navSeriesByFund,
+      riskOrder: input.riskOrder,
+      fundRisk: input.fundRisk,
+      taxClassByFund: input.taxClassByFund,
+      taxRules: input.taxRules,
+      exitLoadByFund: input.exitLoadByFund,
+      withdrawalIndexation: input.withdrawalIndexation,
+      withdrawalPolicy: input.withdrawalPolicy,
+    });
+
+    const { depletedOn, shortfallTotal, withdrawn } = simulation.totals;
+    const depleted = Boolean(depletedOn) || shortfallTotal > 0.005;
+    if (depleted) {
+      const depletionDate = depletedOn ?? withdrawalDates[withdrawalDates.length - 1];
+      const monthIndex = monthDates.indexOf(depletionDate);
+      depletionYears.push((monthIndex >= 0 ? monthIndex : months) / 12);
+    } else {
+      survived += 1;
+    }
+
+    // Corpus at each year end: last timeline value on or before that date.
+    // ISO dates compare correctly as strings, which keeps this loop parse-free
+    let cursor = 0;
+    const timeline = simulation.timeline;
+    yearEndIndex.forEach((monthIndex, y) => {
+      const yearEnd = monthDates[monthIndex];
+      while (cursor + 1 < timeline.length && timeline[cursor + 1].date <= yearEnd) {
+        cursor += 1;
+      }
+      const afterDepletion = depletedOn && depletedOn <= yearEnd;
+      yearValues[y].push(afterDepletion ? 0 : timeline[cursor].portfolioValue);
+    });
+
+    terminalValues.push(depleted && depletedOn ? 0 : simulation.totals.endingValue);
+    totalWithdrawn.push(withdrawn);
+
+    if (onProgress && ((path + 1) % 50 === 0 || path + 1 === input.paths)) {
+      onProgress(path + 1, input.paths);
+    }
+  }
+
+  const terminalPercentiles = percentilesOf(terminalValues);
+  const sortedDepletion = [...depletionYears].sort((a, b) => a - b);
+
+  return {
+    paths: input.paths,
+    years: months / 12,
+    historicalMonths: pool.length,
+    survivalProbability: (survived / input.paths) * 100,
+    depletedPaths: input.paths - survived,
+    medianDepletionYear: sortedDepletion.length > 0 ? percentile(sortedDepletion, 0.5) : null,
+    medianTerminalValue: terminalPercentiles.p50,
+    terminalPercentiles,
+    medianTotalWithdrawn: percentile([...totalWithdrawn].sort((a, b) => a - b), 0.5),
+    fan: yearEndIndex.map((_, y) => ({ year: y, ...percentilesOf(yearValues[y]) })),
+  };
+}
@@ -1,6 +1,8 @@
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { BucketPerformanceMetrics } from './bucketPerformanceCalculator';
+import { StepUpConfig, StepUpScheduleRow, describeStepUp } from './sipStepUp';
+import type { BenchmarkComparison } from './benchmark';
 
 
 // --- Interfaces matching component state ---
@@ -8,11 +10,14 @@ import { BucketPerformanceMetrics } from './bucketPerformanceCalculator';
 export interface SIPReportData {
     totalInvested: number;
     currentValue: number;
+    exitLoad?: number;
     profit: number;
     profitPercentage: number;
     cagr: number;
     xirr: number;
     installments: number;
+    finalInstallment?: number;
+    stepUpSchedule?: StepUpScheduleRow[];
     fundResults: Array<{
         fundName: string;
         weightage: number;
@@ -25,17 +30,20 @@ export interface SIPReportData {
     }>;
     inputs: {
         monthlyInvestment: number;
+        stepUp?: StepUpConfig;
         startDate: string;
         endDate: string;
         funds: Array<{ name: string; weightage: number }>;
     };
     rollingReturns?: BucketPerformanceMetrics;
+    benchmark?: BenchmarkComparison | null;
 }
 
 export interface LumpsumReportData {
     bucketPerformance: {
         totalInvestment: number;
         currentValue: number;
+        exitLoad?: number;
         absoluteProfit: number;
         absoluteProfitPercent: number;
         cagr: number;
@@ -55,6 +63,7 @@ export interface LumpsumReportData {
         funds: Array<{ name: string; weightage: number }>;
     };
     rollingReturns?: BucketPerformanceMetrics;
+    benchmark?: BenchmarkComparison | null;
 }
 
 export interface SIPLumpsumReportData {
@@ -62,6 +71,7 @@ export interface SIPLumpsumReportData {
     sipInvested: number;
     lumpsumInvested: number;
     currentValue: number;
+    exitLoad?: number;
     profit: number;
     profitPercentage: number;
     cagr: number;
@@ -95,6 +105,9 @@ export interface SWPReportData {
     finalProfitRemaining: number;
     xirr: number | null;
     survivalMonths: number;
+    totalExitLoad?: number;
+    totalTaxPaid?: number;
+    postTaxWithdrawn?: number;
     inputs: {
         totalInvestment: number;
         withdrawalAmount: number;
@@ -179,11 +192,21 @@ const addRollingReturns = (doc: jsPDF, data: BucketPerformanceMetrics | undefine
     return (doc as any).lastAutoTable.finalY + 10;
 };
 
+const benchmarkRows = (benchmark?: BenchmarkComparison | null): string[][] => {
+    if (!benchmark) return [];
+    return [
+        [`${benchmark.name} Return`, `${benchmark.xirr.toFixed(2)}%`],
+        ['Alpha vs Benchmark', `${benchmark.alpha >= 0 ? '+' : ''}${benchmark.alpha.toFixed(2)}%`],
+        ['Tracking Error', benchmark.trackingError !== null ? `${benchmark.trackingError.toFixed(2)}%` : 'N/A'],
+    ];
+};
+
 // --- Report Generators ---
 
 export const generateSIPReport = (data: SIPReportData) => {
     const doc = new jsPDF();
     addHeader(doc, 'SIP Investment Report');
+    const hasStepUp = !!data.inputs.stepUp && describeStepUp(data.inputs.stepUp) !== 'None';
 
     // Input Summary
     doc.setFontSize(14);
@@ -194,7 +217,13 @@ export const generateSIPReport = (data: SIPReportData) => {
         startY: 50,
         head: [['Parameter', 'Value']],
         body: [
-            ['Monthly Investment', formatCurrency(data.inputs.monthlyInvestment)],
+            [hasStepUp ? 'Starting Monthly Investment' : 'Monthly Investment', formatCurrency(data.inputs.monthlyInvestment)],
+            ...(hasStepUp
+                ? [
+                    ['Annual Step-up', describeStepUp(data.inputs.stepUp!, formatCurrency)],
+                    ['Final Monthly Investment', formatCurrency(data.finalInstallment ?? data.inputs.monthlyInvestment)],
+                ]
+                : []),
             ['Start Date', formatDate(data.inputs.startDate)],
             ['End Date', formatDate(data.inputs.endDate)],
             ['Number of Installments', data.installments.toString()],
@@ -215,10 +244,12 @@ export const generateSIPReport = (data: SIPReportData) => {
         body: [
             ['Total Invested', formatCurrency(data.totalInvested)],
             ['Current Value', formatCurrency(data.currentValue)],
+            ...(data.exitLoad ? [['Exit Load on Redemption', formatCurrency(data.exitLoad)]] : []),
             ['Total Profit', formatCurrency(data.profit)],
             ['Absolute Returns', `${data.profitPercentage.toFixed(2)}%`],
             ['CAGR', `${data.cagr.toFixed(2)}%`],
             ['XIRR', `${data.xirr.toFixed(2)}%`],
+            ...benchmarkRows(data.benchmark),
         ],
         theme: 'grid',
         headStyles: { fillColor: [41, 128, 185] },
@@ -260,6 +291,33 @@ export const generateSIPReport = (data: SIPReportData) => {
         },
     });
 
+    // Step-up Schedule
+    if (hasStepUp && data.stepUpSchedule && data.stepUpSchedule.length > 0) {
+        let scheduleY = (doc as any).lastAutoTable.finalY + 15;
+        if (scheduleY > 250) {
+            doc.addPage();
+            scheduleY = 20;
+        }
+
+        doc.setFontSize(14);
+        doc.text('Step-up Schedule', 14, scheduleY);
+
+        autoTable(doc, {
+            startY: scheduleY + 5,
+            head: [['Year', 'From', 'Monthly Installment', 'Installments', 'Invested']],
+            body: data.stepUpSchedule.map(row => [
+                row.year.toString(),
+                formatDate(row.fromDate),
+                formatCurrency(row.installment),
+                row.installments.toString(),
+                formatCurrency(row.invested)
+            ]),
+            theme: 'striped',
+            headStyles: { fillColor: [44, 62, 80] },
+            styles: { fontSize: 8, cellPadding: 2 },
+        });
+    }
+
     addFooter(doc);
     doc.save('SIP_Report.pdf');
 };
@@ -296,9 +354,13 @@ export const generateLumpsumReport = (data: LumpsumReportData) => {
         body: [
             ['Total Invested', formatCurrency(data.bucketPerformance.totalInvestment)],
             ['Current Value', formatCurrency(data.bucketPerformance.currentValue)],
+            ...(data.bucketPerformance.exitLoad
+                ? [['Exit Load on Redemption', formatCurrency(data.bucketPerformance.exitLoad)]]
+                : []),
             ['Total Profit', formatCurrency(data.bucketPerformance.absoluteProfit)],
             ['Absolute Returns', `${data.bucketPerformance.absoluteProfitPercent.toFixed(2)}%`],
             ['CAGR', `${data.bucketPerformance.cagr.toFixed(2)}%`],
+            ...benchmarkRows(data.benchmark),
         ],
         theme: 'grid',
         headStyles: { fillColor: [39, 174, 96] },
@@ -379,6 +441,7 @@ export const generateSIPLumpsumReport = (data: SIPLumpsumReportData) => {
             [' - SIP Portion', formatCurrency(data.sipInvested)],
             [' - Lumpsum Portion', formatCurrency(data.lumpsumInvested)],
             ['Current Value', formatCurrency(data.currentValue)],
+            ...(data.exitLoad ? [['Exit Load on Redemption', formatCurrency(data.exitLoad)]] : []),
             ['Total Profit', formatCurrency(data.profit)],
             ['Absolute Returns', `${data.profitPercentage.toFixed(2)}%`],
             ['CAGR', `${data.cagr.toFixed(2)}%`],
@@ -456,6 +519,13 @@ export const generateSWPReport = (data: SWPReportData) => {
         head: [['Metric', 'Value']],
         body: [
             ['Total Withdrawn', formatCurrency(data.totalWithdrawn)],
+            ...(data.totalTaxPaid !== undefined && data.postTaxWithdrawn !== undefined
+                ? [
+                    ['Exit Load', formatCurrency(data.totalExitLoad ?? 0)],
+                    ['Capital Gains Tax', formatCurrency(data.totalTaxPaid)],
+                    ['Net In-Hand (After Load & Tax)', formatCurrency(data.postTaxWithdrawn)],
+                ]
+                : []),
             ['Final Corpus Value', formatCurrency(data.finalCorpus)],
             ['Final Profit Remaining', formatCurrency(data.finalProfitRemaining)],
             ['XIRR', data.xirr ? `${data.xirr.toFixed(2)}%` : 'N/A'],
@@ -0,0 +1,287 @@
+import { calculateXIRR } from './financialCalculations';
+import { addMonths } from './dateUtils';
+import type { NavPoint, NavSeriesByFund } from './swpSimulation';
+
+/**
+ * Periodic rebalancing of a fund bucket back to its target weights.
+ *
+ * CALENDAR policies rebalance every 12 (ANNUAL) or 6 (SEMI_ANNUAL) months from
+ * the first investment; THRESHOLD rebalances on any NAV date where a fund's
+ * weight has drifted more than thresholdPercent points from its target.
+ * Switches are modelled at NAV without exit load or capital gains tax.
+ */
+export type RebalancePolicy = 'NONE' | 'ANNUAL' | 'SEMI_ANNUAL' | 'THRESHOLD';
+
+export interface RebalanceConfig {
+  policy: RebalancePolicy;
+  thresholdPercent?: number; // drift in percentage points, THRESHOLD only
+}
+
+export interface Contribution {
+  date: string; // YYYY-MM-DD, invested at the first NAV date on or after it
+  amount: number;
+  allocation?: Record<string, number>; // overrides the target weights for this contribution
+}
+
+export interface RebalanceSimulationInput {
+  startDate: string;
+  endDate: string;
+  targetWeights: Record<string, number>; // percent or fractions, normalised internally
+  navSeriesByFund: NavSeriesByFund;
+  contributions: Contribution[];
+  config: RebalanceConfig;
+}
+
+export interface RebalanceEvent {
+  date: string;
+  reason: 'CALENDAR' | 'THRESHOLD';
+  portfolioValue: number;
+  maxDrift: number; // percentage points, before rebalancing
+  traded: number; // rupees switched out of overweight funds
+  weightsBefore: Record<string, number>; // percent
+}
+
+export interface RebalanceSimulationResult {
+  policy: RebalancePolicy;
+  totalInvested: number;
+  finalValue: number;
+  profit: number;
+  xirr: number;
+  rebalanceCount: number;
+  turnover: number; // total rupees switched across all events
+  turnoverPercent: number; // turnover as a percent of average portfolio value
+  finalWeights: Record<string, number>; // percent
+  finalUnits: Record<string, number>;
+  events: RebalanceEvent[];
+  series: Array<{ date: string; value: number; invested: number }>; // one point per month
+}
+
+export interface RebalanceComparison {
+  rebalanced: RebalanceSimulationResult;
+  buyAndHold: RebalanceSimulationResult;
+}
+
+export const DEFAULT_REBALANCE_THRESHOLD = 5;
+
+const ISO_ZERO = 'T00:00:00';
+const toTime = (iso: string) => new Date(`${iso}${ISO_ZERO}`).getTime();
+
+const round2 = (value: number) =>
+  Math.round((value + Number.EPSILON) * 100) / 100;
+
+function ensureAscending(series: NavPoint[]): NavPoint[] {
+  return [...series].sort((a, b) => toTime(a.date) - toTime(b.date));
+}
+
+function normaliseWeights(weights: Record<string, number>): Record<string, number> {
+  const total = Object.values(weights).reduce((sum, w) => sum + Math.max(0, w), 0);
+  const out: Record<string, number> = {};
+  for (const [fundId, w] of Object.entries(weights)) {
+    out[fundId] = total > 0 ? Math.max(0, w) / total : 0;
+  }
+  return out;
+}
+
+function calendarStepMonths(policy: RebalancePolicy): number | null {
+  if (policy === 'ANNUAL') return 12;
+  if (policy === 'SEMI_ANNUAL') return 6;
+  return null;
+}
+
+/**
+ * Walks the NAV dates of the bucket between startDate and endDate, investing
+ * contributions by target weight and rebalancing according to the policy.
+ */
+export function simulateRebalancing(input: RebalanceSimulationInput): RebalanceSimulationResult {
+  const { startDate, endDate, config } = input;
+  const weights = normaliseWeights(input.targetWeights);
+  const fundIds = Object.keys(weights);
+
+  const series: Record<string, NavPoint[]> = {};
+  const cursor: Record<string, number> = {};
+  const latestNav: Record<string, number> = {};
+  const units: Record<string, number> = {};
+  for (const fundId of fundIds) {
+    series[fundId] = ensureAscending(input.navSeriesByFund[fundId] ?? []);
+    cursor[fundId] = 0;
+    latestNav[fundId] = 0;
+    units[fundId] = 0;
+  }
+
+  const contributions = [...input.contributions]
+    .filter((c) => c.amount > 0)
+    .sort((a, b) => toTime(a.date) - toTime(b.date));
+  let nextContribution = 0;
+
+  // Every date on which at least one fund has a NAV drives the simulation. The
+  // window stretches past endDate when the last installment slipped over a holiday.
+  const startTime = toTime(startDate);
+  const lastContribution = contributions[contributions.length - 1];
+  const endTime = Math.max(toTime(endDate), lastContribution ? toTime(lastContribution.date) : 0);
+  const dateSet = new Set<string>();
+  for (const fundId of fundIds) {
+    for (const point of series[fundId]) {
+      const t = toTime(point.date);
+      if (t >= startTime && t <= endTime) dateSet.add(point.date);
+    }
+  }
+  const dates = [...dateSet].sort((a, b) => toTime(a) - toTime(b));
+
+  const valueOf = () =>
+    fundIds.reduce((sum, fundId) => sum + units[fundId] * latestNav[fundId], 0);
+
+  const currentWeights = (total: number) => {
+    const out: Record<string, number> = {};
+    for (const fundId of fundIds) {
+      out[fundId] = total > 0 ? (units[fundId] * latestNav[fundId]) / total : 0;
+    }
+    return out;
+  };
+
+  const stepMonths = calendarStepMonths(config.policy);
+  const threshold = (config.thresholdPercent ?? DEFAULT_REBALANCE_THRESHOLD) / 100;
+  let nextCalendarDate: string | null = null;
+
+  const events: RebalanceEvent[] = [];
+  const cashflows: Array<{ date: Date; amount: number }> = [];
+  const monthly: Array<{ date: string; value: number; invested: number }> = [];
+  let invested = 0;
+  let turnover = 0;
+  let valueSum = 0;
+  let valueCount = 0;
+  let lastMonthKey = '';
+
+  for (const date of dates) {
+    const t = toTime(date);
+
+    // Advance each fund's NAV to the latest point on or before this date
+    for (const fundId of fundIds) {
+      const fundSeries = series[fundId];
+      while (cursor[fundId] < fundSeries.length && toTime(fundSeries[cursor[fundId]].date) <= t) {
+        latestNav[fundId] = fundSeries[cursor[fundId]].nav;
+        cursor[fundId] += 1;
+      }
+    }
+
+    // Contributions are only invested once every fund in the bucket has a NAV
+    const allPriced = fundIds.every((fundId) => latestNav[fundId] > 0);
+    while (
+      allPriced &&
+      nextContribution < contributions.length &&
+      toTime(contributions[nextContribution].date) <= t
+    ) {
+      const { amount, allocation } = contributions[nextContribution];
+      const split = allocation ? normaliseWeights(allocation) : weights;
+      for (const fundId of fundIds) {
+        units[fundId] += (amount * (split[fundId] ?? 0)) / latestNav[fundId];
+      }
+      invested += amount;
+      cashflows.push({ date: new Date(`${date}${ISO_ZERO}`), amount: -amount });
+      if (!nextCalendarDate && stepMonths) {
+        nextCalendarDate = addMonths(date, stepMonths);
+      }
+      nextContribution += 1;
+    }
+
+    const total = valueOf();
+    if (total <= 0) continue;
+
+    let reason: RebalanceEvent['reason'] | null = null;
+    const weightsNow = currentWeights(total);
+    const maxDrift = Math.max(...fundIds.map((fundId) => Math.abs(weightsNow[fundId] - weights[fundId])));
+
+    if (stepMonths && nextCalendarDate && t >= toTime(nextCalendarDate)) {
+      reason = 'CALENDAR';
+      while (t >= toTime(nextCalendarDate)) {
+        nextCalendarDate = addMonths(nextCalendarDate, stepMonths);
+      }
+    } else if (config.policy === 'THRESHOLD' && maxDrift > threshold) {
+      reason = 'THRESHOLD';
+    }
+
+    if (reason) {
+      let traded = 0;
+      for (const fundId of fundIds) {
+        const targetValue = total * weights[fundId];
+        const currentValue = units[fundId] * latestNav[fundId];
+        if (currentValue > targetValue) traded += currentValue - targetValue;
+        units[fundId] = targetValue / latestNav[fundId];
+      }
+      turnover += traded;
+      events.push({
+        date,
+        reason,
+        portfolioValue: round2(total),
+        maxDrift: round2(maxDrift * 100),
+        traded: round2(traded),
+        weightsBefore: Object.fromEntries(
+          fundIds.map((fundId) => [fundId, round2(weightsNow[fundId] * 100)])
+        ),
+      });
+    }
+
+    valueSum += total;
+    valueCount += 1;
+
+    const monthKey = date.slice(0, 7);
+    if (monthKey !== lastMonthKey) {
+      monthly.push({ date, value: round2(total), invested: round2(invested) });
+      lastMonthKey = monthKey;
+    }
+  }
+
+  const finalValue = valueOf();
+  if (dates.length > 0 && monthly.length > 0) {
+    const lastDate = dates[dates.length - 1];
+    const last = monthly[monthly.length - 1];
+    if (last.date !== lastDate) {
+      monthly.push({ date: lastDate, value: round2(finalValue), invested: round2(invested) });
+    }
+  }
+
+  if (finalValue > 0) {
+    cashflows.push({ date: new Date(`${endDate}${ISO_ZERO}`), amount: finalValue });
+  }
+
+  const averageValue = valueCount > 0 ? valueSum / valueCount : 0;
+  const finalWeights = currentWeights(finalValue);
+
+  return {
+    policy: config.policy,
+    totalInvested: round2(invested),
+    finalValue: round2(finalValue),
+    profit: round2(finalValue - invested),
+    xirr: calculateXIRR(cashflows),
+    rebalanceCount: events.length,
+    turnover: round2(turnover),
+    turnoverPercent: averageValue > 0 ? round2((turnover / averageValue) * 100) : 0,
+    finalWeights: Object.fromEntries(fundIds.map((fundId) => [fundId, round2(finalWeights[fundId] * 100)])),
+    finalUnits: { ...units },
+    events,
+    series: monthly,
+  };
+}
+
+/**
+ * Runs the same contributions with the chosen policy and with no rebalancing
+ * so the two outcomes can be shown side by side.
+ */
+export function compareRebalancing(input: RebalanceSimulationInput): RebalanceComparison {
+  return {
+    rebalanced: simulateRebalancing(input),
+    buyAndHold: simulateRebalancing({ ...input, config: { policy: 'NONE' } }),
+  };
+}
+
+export function describeRebalancePolicy(config: RebalanceConfig): string {
+  switch (config.policy) {
+    case 'ANNUAL':
+      return 'Annual (every 12 months)';
+    case 'SEMI_ANNUAL':
+      return 'Semi-annual (every 6 months)';
+    case 'THRESHOLD':
+      return `Threshold (±${config.thresholdPercent ?? DEFAULT_REBALANCE_THRESHOLD}% drift)`;
+    default:
+      return 'Buy and hold';
+  }
+}
@@ -0,0 +1,304 @@
+import { computeFundCAGR } from './portfolioStats';
+import type { NavPoint, NavSeries } from './portfolioStats';
+
+/**
+ * Risk-adjusted return metrics computed from a NAV (or index level) series.
+ *
+ * Series may be daily or monthly. With 'monthly' frequency a daily series is
+ * first reduced to its last point in each month; with 'daily' it is used as
+ * given and annualised over 252 trading days. The risk-free rate is an annual
+ * percentage and is converted to a per-period rate geometrically.
+ */
+export type ReturnFrequency = 'daily' | 'monthly';
+
+export interface RiskMetricsOptions {
+  frequency?: ReturnFrequency;
+  riskFreeRate?: number; // annual percent
+  benchmark?: NavSeries; // for beta, same shape as the portfolio series
+}
+
+export interface PeriodReturn {
+  key: string; // YYYY-MM-DD for daily, YYYY-MM for monthly
+  date: string;
+  value: number; // fractional return for the period
+}
+
+export interface DrawdownInfo {
+  maxDrawdown: number; // percent, positive
+  peakDate: string;
+  troughDate: string;
+  recoveryDate: string | null; // first date back at the previous peak, null if not yet recovered
+  recoveryDays: number | null; // trough to recovery
+  durationDays: number; // peak to recovery, or peak to the last date when unrecovered
+}
+
+export interface RiskMetrics {
+  frequency: ReturnFrequency;
+  riskFreeRate: number;
+  periods: number; // number of period returns used
+  cagr: number | null;
+  volatility: number | null; // annualised, percent
+  sharpe: number | null;
+  sortino: number | null;
+  beta: number | null;
+  maxDrawdown: DrawdownInfo | null;
+  calmar: number | null;
+  ulcerIndex: number | null;
+}
+
+export const DEFAULT_RISK_FREE_RATE = 6;
+
+const PERIODS_PER_YEAR: Record<ReturnFrequency, number> = {
+  daily: 252,
+  monthly: 12,
+};
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+const toTime = (iso: string) => new Date(`${iso}T00:00:00`).getTime();
+
+function ensureAscending(series: NavSeries): NavSeries {
+  return [...series]
+    .filter((point) => point.nav > 0)
+    .sort((a, b) => toTime(a.date) - toTime(b.date));
+}
+
+/**
+ * Sorted series sampled at the given frequency (month-end points for monthly).
+ */
+export function sampleSeries(series: NavSeries, frequency: ReturnFrequency): NavSeries {
+  const sorted = ensureAscending(series ?? []);
+  if (frequency === 'daily') return sorted;
+
+  const byMonth = new Map<string, NavPoint>();
+  for (const point of sorted) {
+    byMonth.set(point.date.slice(0, 7), point);
+  }
+  return Array.from(byMonth.values());
+}
+
+export function toPeriodReturns(series: NavSeries, frequency: ReturnFrequency): PeriodReturn[] {
+  const sampled = sampleSeries(series, frequency);
+  const returns: PeriodReturn[] = [];
+  for (let i = 1; i < sampled.length; i++) {
+    const { date, nav } = sampled[i];
+    returns.push({
+      key: frequency === 'monthly' ? date.slice(0, 7) : date,
+      date,
+      value: nav / sampled[i - 1].nav - 1,
+    });
+  }
+  return returns;
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+function sampleStdDev(values: number[]): number {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + Math.pow(v - m, 2), 0) / (values.length - 1));
+}
+
+function periodicRiskFreeRate(riskFreeRate: number, periodsPerYear: number): number {
+  return Math.pow(1 + riskFreeRate / 100, 1 / periodsPerYear) - 1;
+}
+
+/**
+ * Annualised excess return over annualised volatility.
+ */
+export function calculateSharpeRatio(
+  returns: number[],
+  riskFreeRate = DEFAULT_RISK_FREE_RATE,
+  periodsPerYear = PERIODS_PER_YEAR.monthly
+): number | null {
+  if (returns.length < 2) return null;
+  const stdDev = sampleStdDev(returns);
+  if (stdDev === 0) return null;
+  const rf = periodicRiskFreeRate(riskFreeRate, periodsPerYear);
+  return ((mean(returns) - rf) * Math.sqrt(periodsPerYear)) / stdDev;
+}
+
+/**
+ * Like Sharpe, but only returns below the risk-free rate count as risk.
+ */
+export function calculateSortinoRatio(
+  returns: number[],
+  riskFreeRate = DEFAULT_RISK_FREE_RATE,
+  periodsPerYear = PERIODS_PER_YEAR.monthly
+): number | null {
+  if (returns.length < 2) return null;
+  const rf = periodicRiskFreeRate(riskFreeRate, periodsPerYear);
+  const downside = Math.sqrt(
+    returns.reduce((sum, r) => sum + Math.pow(Math.min(0, r - rf), 2), 0) / returns.length
+  );
+  if (downside === 0) return null;
+  return ((mean(returns) - rf) * Math.sqrt(periodsPerYear)) / downside;
+}
+
+/**
+ * Covariance with the benchmark over benchmark variance, on periods present in both.
+ */
+export function calculateBeta(returns: PeriodReturn[], benchmarkReturns: PeriodReturn[]): number | null {
+  const benchmarkByKey = new Map(benchmarkReturns.map((r) => [r.key, r.value]));
+  const pairs: Array<[number, number]> = [];
+  for (const r of returns) {
+    const b = benchmarkByKey.get(r.key);
+    if (b !== undefined) pairs.push([r.value, b]);
+  }
+  if (pairs.length < 3) return null;
+
+  const meanP = mean(pairs.map(([p]) => p));
+  const meanB = mean(pairs.map(([, b]) => b));
+  let covariance = 0;
+  let variance = 0;
+  for (const [p, b] of pairs) {
+    covariance += (p - meanP) * (b - meanB);
+    variance += Math.pow(b - meanB, 2);
+  }
+  return variance > 0 ? covariance / variance : null;
+}
+
+/**
+ * Deepest peak-to-trough fall and how long it took to get back to the peak.
+ */
+export function calculateDrawdown(series: NavSeries): DrawdownInfo | null {
+  const sorted = ensureAscending(series ?? []);
+  if (sorted.length < 2) return null;
+
+  let peak = sorted[0];
+  let worst: { drawdown: number; peak: NavPoint; trough: NavPoint } | null = null;
+  for (const point of sorted) {
+    if (point.nav > peak.nav) peak = point;
+    const drawdown = (peak.nav - point.nav) / peak.nav;
+    if (drawdown > 0 && (!worst || drawdown > worst.drawdown)) {
+      worst = { drawdown, peak, trough: point };
+    }
+  }
+  if (!worst) {
+    return {
+      maxDrawdown: 0,
+      peakDate: sorted[0].date,
+      troughDate: sorted[0].date,
+      recoveryDate: sorted[0].date,
+      recoveryDays: 0,
+      durationDays: 0,
+    };
+  }
+
+  const troughTime = toTime(worst.trough.date);
+  const recovery = sorted.find((p) => toTime(p.date) > troughTime && p.nav >= worst.peak.nav);
+  const lastDate = sorted[sorted.length - 1].date;
+  const peakTime = toTime(worst.peak.date);
+
+  return {
+    maxDrawdown: worst.drawdown * 100,
+    peakDate: worst.peak.date,
+    troughDate: worst.trough.date,
+    recoveryDate: recovery ? recovery.date : null,
+    recoveryDays: recovery ? Math.round((toTime(recovery.date) - troughTime) / MS_PER_DAY) : null,
+    durationDays: Math.round(((recovery ? toTime(recovery.date) : toTime(lastDate)) - peakTime) / MS_PER_DAY),
+  };
+}
+
+/**
+ * Root mean square of the percentage drawdown from the running peak.
+ */
+export function calculateUlcerIndex(series: NavSeries): number | null {
+  const sorted = ensureAscending(series ?? []);
+  if (sorted.length < 2) return null;
+  let peak = sorted[0].nav;
+  let sumSquares = 0;
+  for (const point of sorted) {
+    peak = Math.max(peak, point.nav);
+    sumSquares += Math.pow(((peak - point.nav) / peak) * 100, 2);
+  }
+  return Math.sqrt(sumSquares / sorted.length);
+}
+
+/**
+ * CAGR (percent) over maximum drawdown (percent).
+ */
+export function calculateCalmarRatio(cagr: number | null, maxDrawdown: number | null): number | null {
+  if (cagr === null || maxDrawdown === null || maxDrawdown <= 0) return null;
+  return cagr / maxDrawdown;
+}
+
+export function computeRiskMetrics(series: NavSeries, options: RiskMetricsOptions = {}): RiskMetrics {
+  const frequency = options.frequency ?? 'monthly';
+  const riskFreeRate = options.riskFreeRate ?? DEFAULT_RISK_FREE_RATE;
+  const periodsPerYear = PERIODS_PER_YEAR[frequency];
+
+  const sampled = sampleSeries(series, frequency);
+  const periodReturns = toPeriodReturns(sampled, frequency);
+  const returns = periodReturns.map((r) => r.value);
+
+  const cagr = computeFundCAGR(sampled);
+  const drawdown = calculateDrawdown(sampled);
+  const beta = options.benchmark && options.benchmark.length > 1
+    ? calculateBeta(periodReturns, toPeriodReturns(options.benchmark, frequency))
+    : null;
+
+  return {
+    frequency,
+    riskFreeRate,
+    periods: returns.length,
+    cagr,
+    volatility: returns.length >= 2 ? sampleStdDev(returns) * Math.sqrt(periodsPerYear) * 100 : null,
+    sharpe: calculateSharpeRatio(returns, riskFreeRate, periodsPerYear),
+    sortino: calculateSortinoRatio(returns, riskFreeRate, periodsPerYear),
+    beta,
+    maxDrawdown: drawdown,
+    calmar: calculateCalmarRatio(cagr, drawdown ? drawdown.maxDrawdown : null),
+    ulcerIndex: calculateUlcerIndex(sampled),
+  };
+}
+
+/**
+ * Value of a buy-and-hold basket of funds, invested by weight on the first
+ * date every fund has a NAV and rebased to 100. Funds missing a NAV on a date
+ * carry their last known NAV forward.
+ */
+export function buildWeightedSeries(
+  navSeriesByFund: Record<string, NavSeries>,
+  weights: Record<string, number>
+): NavSeries {
+  const fundIds = Object.keys(weights).filter((id) => weights[id] > 0 && navSeriesByFund[id]?.length);
+  if (fundIds.length === 0) return [];
+  const totalWeight = fundIds.reduce((sum, id) => sum + weights[id], 0);
+
+  const series: Record<string, NavSeries> = {};
+  const cursor: Record<string, number> = {};
+  const latest: Record<string, number> = {};
+  const dateSet = new Set<string>();
+  for (const id of fundIds) {
+    series[id] = ensureAscending(navSeriesByFund[id]);
+    cursor[id] = 0;
+    latest[id] = 0;
+    series[id].forEach((p) => dateSet.add(p.date));
+  }
+  const dates = [...dateSet].sort((a, b) => toTime(a) - toTime(b));
+
+  let units: Record<string, number> | null = null;
+  const out: NavSeries = [];
+  for (const date of dates) {
+    const t = toTime(date);
+    for (const id of fundIds) {
+      while (cursor[id] < series[id].length && toTime(series[id][cursor[id]].date) <= t) {
+        latest[id] = series[id][cursor[id]].nav;
+        cursor[id] += 1;
+      }
+    }
+    if (!units) {
+      if (!fundIds.every((id) => latest[id] > 0)) continue;
+      units = {};
+      for (const id of fundIds) {
+        units[id] = (100 * weights[id]) / totalWeight / latest[id];
+      }
+    }
+    const value = fundIds.reduce((sum, id) => sum + units![id] * latest[id], 0);
+    out.push({ date, nav: value });
+  }
+  return out;
+}
+
+export function formatRatio(value: number | null, decimals = 2): string {
+  return value === null || !isFinite(value) ? 'N/A' : value.toFixed(decimals);
+}
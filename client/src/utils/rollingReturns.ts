@@ -0,0 +1,111 @@
+import { getLatestNAVBeforeDate } from './dateUtils';
+
+/**
+ * Rolling-return maths shared by the rolling calculator and the fund
+ * comparison page. Returns are annualised percentages.
+ */
+
+export interface RollingReturn {
+  startDate: string;
+  endDate: string;
+  xirr: number;
+  benchmark?: number; // benchmark return over the same window
+}
+
+export interface RollingStatistics {
+  mean: number;
+  median: number;
+  max: number;
+  min: number;
+  stdDev: number;
+  positivePercentage: number;
+}
+
+export type RollingPeriod = 'daily' | 'monthly';
+
+// Helper to add months to a Date object and return a new Date
+export const addMonthsToDate = (date: Date, months: number): Date => {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+};
+
+// Calculate statistics
+export const calculateRollingStatistics = (returns: number[]): RollingStatistics => {
+  if (returns.length === 0) {
+    return { mean: 0, median: 0, max: 0, min: 0, stdDev: 0, positivePercentage: 0 };
+  }
+
+  const sorted = [...returns].sort((a, b) => a - b);
+  const mean = returns.reduce((sum, val) => sum + val, 0) / returns.length;
+  const median = sorted.length % 2 === 0
+    ? (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2
+    : sorted[Math.floor(sorted.length / 2)];
+  const max = Math.max(...returns);
+  const min = Math.min(...returns);
+
+  const variance = returns.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / returns.length;
+  const stdDev = Math.sqrt(variance);
+
+  const positiveCount = returns.filter(r => r > 0).length;
+  const positivePercentage = (positiveCount / returns.length) * 100;
+
+  return { mean, median, max, min, stdDev, positivePercentage };
+};
+
+/**
+ * Lumpsum rolling returns of one fund: a window starts on every NAV date
+ * (daily) or on the first NAV date of each month (monthly), and ends on the
+ * latest NAV on or before `windowMonths` later. Windows ending after `end` are
+ * not included.
+ * @param navData - NAV series sorted oldest first
+ */
+export function lumpsumRollingReturns(
+  navData: Array<{ date: string; nav: number }>,
+  windowMonths: number,
+  end: Date,
+  rollingPeriod: RollingPeriod
+): RollingReturn[] {
+  const rollingReturns: RollingReturn[] = [];
+
+  // Iterate through NAV dates based on rolling period
+  for (let i = 0; i < navData.length; i++) {
+    const startNavEntry = navData[i];
+    const startDate = new Date(startNavEntry.date);
+
+    // Calculate window end date
+    const windowEnd = addMonthsToDate(startDate, windowMonths);
+
+    // Stop if window end exceeds our end date
+    if (windowEnd > end) break;
+
+    // Find closest NAV at window end
+    const endNavEntry = getLatestNAVBeforeDate(navData, windowEnd.toISOString().split('T')[0]);
+
+    if (endNavEntry && endNavEntry.nav > 0 && startNavEntry.nav > 0) {
+      // Calculate annualized return
+      const growth = endNavEntry.nav / startNavEntry.nav;
+      const daysDiff = (new Date(endNavEntry.date).getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24);
+      const annualizedReturn = daysDiff > 0 ? (Math.pow(growth, 365 / daysDiff) - 1) * 100 : 0;
+
+      rollingReturns.push({
+        startDate: startNavEntry.date,
+        endDate: endNavEntry.date,
+        xirr: annualizedReturn
+      });
+    }
+
+    // Move to next date based on rolling period
+    if (rollingPeriod === 'monthly') {
+      // Skip to next month's data
+      const nextMonth = addMonthsToDate(startDate, 1);
+      while (i < navData.length - 1 && new Date(navData[i].date) < nextMonth) {
+        i++;
+      }
+      i--; // Adjust for loop increment
+    }
+    // For daily, natural loop increment moves to next available NAV date
+  }
+
+  return rollingReturns;
+}
@@ -0,0 +1,150 @@
+import type { PageType } from '../App';
+import type { ScenarioCalculator, SWPPlanMode } from '../types/scenario';
+
+/**
+ * Path-based routes for every page. Each pattern maps to the page it renders;
+ * `:name` segments become params and a trailing `/*` matches any sub-path,
+ * which is passed on as the `rest` param.
+ */
+
+export interface RouteMatch {
+  page: PageType;
+  params: Record<string, string>;
+}
+
+const ROUTES: Array<{ pattern: string; page: PageType }> = [
+  { pattern: '/', page: 'home' },
+  { pattern: '/investment-plan', page: 'investment-plan' },
+  { pattern: '/retirement-plan', page: 'retirement-plan' },
+  { pattern: '/calculators/:type', page: 'investment-plan' }, // page is resolved from the type below
+  { pattern: '/holdings', page: 'holdings' },
+  { pattern: '/compare', page: 'compare' },
+  { pattern: '/financial-planning', page: 'financial-planning' },
+  { pattern: '/ai-stock-analysis', page: 'ai-stock-analysis' },
+  { pattern: '/indices', page: 'stock-indices' },
+  { pattern: '/indices/:slug', page: 'stock-indices' },
+  { pattern: '/blogs', page: 'blogs' },
+  { pattern: '/blogs/:slug', page: 'blog-detail' },
+  { pattern: '/news', page: 'news' },
+  { pattern: '/admin', page: 'admin' },
+  { pattern: '/admin/*', page: 'admin' },
+];
+
+// Paths of pages without params
+const PAGE_PATHS: Partial<Record<PageType, string>> = {
+  home: '/',
+  'investment-plan': '/investment-plan',
+  'retirement-plan': '/retirement-plan',
+  holdings: '/holdings',
+  compare: '/compare',
+  'financial-planning': '/financial-planning',
+  'ai-stock-analysis': '/ai-stock-analysis',
+  'stock-indices': '/indices',
+  blogs: '/blogs',
+  news: '/news',
+  admin: '/admin',
+};
+
+export type CalculatorType = 'sip' | 'lumpsum' | 'sip-lumpsum' | 'swp' | 'safe-withdrawal' | 'required-corpus';
+
+// The calculator each `/calculators/:type` path opens; SWP types pick the retirement planning mode
+export const CALCULATOR_ROUTES: Record<
+  CalculatorType,
+  { page: 'investment-plan' | 'retirement-plan'; calculator: ScenarioCalculator; mode?: SWPPlanMode }
+> = {
+  sip: { page: 'investment-plan', calculator: 'SIP' },
+  lumpsum: { page: 'investment-plan', calculator: 'Lumpsum' },
+  'sip-lumpsum': { page: 'investment-plan', calculator: 'SIPLumpsum' },
+  swp: { page: 'retirement-plan', calculator: 'SWP', mode: 'NORMAL' },
+  'safe-withdrawal': { page: 'retirement-plan', calculator: 'SWP', mode: 'CORPUS' },
+  'required-corpus': { page: 'retirement-plan', calculator: 'SWP', mode: 'TARGET' },
+};
+
+const isCalculatorType = (type: string): type is CalculatorType => type in CALCULATOR_ROUTES;
+
+// A path segment as text, or null when it isn't valid percent-encoding (e.g. "%E0%A4%A")
+const decodeSegment = (segment: string): string | null => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+};
+
+const matchPattern = (pattern: string, pathname: string): Record<string, string> | null => {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = pathname.split('/').filter(Boolean);
+  const params: Record<string, string> = {};
+
+  for (let i = 0; i < patternParts.length; i++) {
+    const part = patternParts[i];
+    if (part === '*') {
+      if (i >= pathParts.length) return null;
+      params.rest = pathParts.slice(i).join('/');
+      return params;
+    }
+    if (i >= pathParts.length) return null;
+    if (part.startsWith(':')) {
+      const value = decodeSegment(pathParts[i]);
+      if (value === null) return null;
+      params[part.slice(1)] = value;
+    } else if (part !== pathParts[i]) {
+      return null;
+    }
+  }
+  return patternParts.length === pathParts.length ? params : null;
+};
+
+/**
+ * Route for a pathname, or null when no page matches.
+ */
+export function matchRoute(pathname: string): RouteMatch | null {
+  for (const { pattern, page } of ROUTES) {
+    const params = matchPattern(pattern, pathname);
+    if (!params) continue;
+    if (pattern === '/calculators/:type') {
+      if (!isCalculatorType(params.type)) continue;
+      return { page: CALCULATOR_ROUTES[params.type].page, params };
+    }
+    return { page, params };
+  }
+  return null;
+}
+
+export function pagePath(page: PageType): string {
+  return PAGE_PATHS[page] ?? '/';
+}
+
+export function blogPath(slug: string): string {
+  return `/blogs/${encodeURIComponent(slug)}`;
+}
+
+export function indexPath(slug: string): string {
+  return `/indices/${encodeURIComponent(slug)}`;
+}
+
+export function calculatorPath(calculator: ScenarioCalculator, mode?: SWPPlanMode): string {
+  const type = (Object.keys(CALCULATOR_ROUTES) as CalculatorType[]).find((key) => {
+    const route = CALCULATOR_ROUTES[key];
+    return route.calculator === calculator && (calculator !== 'SWP' || route.mode === (mode ?? 'NORMAL'));
+  });
+  return `/calculators/${type}`;
+}
+
+/**
+ * Path for a link from before path-based routing, such as `#blog-detail?id=…`
+ * or `#compare?funds=…`, so old bookmarks and shared links keep working.
+ */
+export function legacyHashPath(hash: string): string | null {
+  const [page, query] = hash.replace(/^#/, '').split('?');
+  if (!page) return null;
+  const params = new URLSearchParams(query || '');
+
+  if (page === 'blog-detail') {
+    const id = params.get('id');
+    return id ? blogPath(id) : pagePath('blogs');
+  }
+  const path = PAGE_PATHS[page as PageType];
+  if (!path) return null;
+  return query ? `${path}?${query}` : path;
+}
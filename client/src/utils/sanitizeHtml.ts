@@ -0,0 +1,62 @@
+import { safeUrl } from './markdown';
+import { ALLOWED_ATTRIBUTES, ALLOWED_TAGS, DROPPED_TAGS } from '../../../server/utils/htmlAllowlist.mjs';
+
+/**
+ * Allowlist sanitiser for HTML posts (written before Markdown support).
+ * Scripts, styles, frames and forms are dropped with their content; other
+ * unknown tags are unwrapped, keeping their text. Only formatting attributes
+ * survive, and links and images keep only safe URLs. The allowlist is shared
+ * with the server, which sanitises the same posts for crawlers and the RSS feed.
+ */
+
+const ALLOWED_TAG_SET = new Set(ALLOWED_TAGS);
+const DROPPED_TAG_SET = new Set(DROPPED_TAGS);
+
+const cleanChildren = (parent: Element) => {
+  Array.from(parent.childNodes).forEach((node) => {
+    if (node.nodeType === Node.TEXT_NODE) return;
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      node.remove(); // comments and processing instructions
+      return;
+    }
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+    if (DROPPED_TAG_SET.has(tag)) {
+      element.remove();
+      return;
+    }
+
+    cleanChildren(element);
+    if (!ALLOWED_TAG_SET.has(tag)) {
+      element.replaceWith(...Array.from(element.childNodes));
+      return;
+    }
+
+    const allowed = ALLOWED_ATTRIBUTES[tag] ?? [];
+    Array.from(element.attributes).forEach((attribute) => {
+      if (!allowed.includes(attribute.name)) element.removeAttribute(attribute.name);
+    });
+
+    if (tag === 'a' || tag === 'img') {
+      const name = tag === 'a' ? 'href' : 'src';
+      const url = safeUrl(element.getAttribute(name) ?? '', { image: tag === 'img' });
+      if (url) {
+        element.setAttribute(name, url);
+      } else {
+        element.removeAttribute(name);
+      }
+    }
+    if (tag === 'a' && element.getAttribute('target')) {
+      element.setAttribute('target', '_blank');
+      element.setAttribute('rel', 'noopener noreferrer');
+    }
+  });
+};
+
+export function sanitizeHtml(html: string): string {
+  // A parsed document is inert: nothing in it runs or loads
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  cleanChildren(doc.body);
+  return doc.body.innerHTML;
+}
@@ -0,0 +1,71 @@
+import type { CalculatorScenario, ScenarioCalculator, ScenarioPage } from '../types/scenario';
+import { calculatorPath } from './routes';
+
+/**
+ * Calculator scenarios as permalinks: the scenario is serialised to JSON,
+ * base64url-encoded and carried in the query string of the calculator's path,
+ * as in `/calculators/sip?s=<encoded>`.
+ * Links stay self-contained, so they work without an account and survive
+ * server restarts. Unknown or malformed links decode to null.
+ */
+
+const SCENARIO_VERSION = 1;
+const SCENARIO_PARAM = 's';
+
+const PAGES: ScenarioPage[] = ['investment-plan', 'retirement-plan'];
+const CALCULATORS: ScenarioCalculator[] = ['SIP', 'Lumpsum', 'SIPLumpsum', 'SWP'];
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+};
+
+export function encodeScenario(scenario: CalculatorScenario): string {
+  return toBase64Url(JSON.stringify({ v: SCENARIO_VERSION, ...scenario }));
+}
+
+export function decodeScenario(encoded: string): CalculatorScenario | null {
+  try {
+    const { v, ...scenario } = JSON.parse(fromBase64Url(encoded));
+    if (v !== SCENARIO_VERSION) return null;
+    if (!PAGES.includes(scenario.page) || !CALCULATORS.includes(scenario.calculator)) return null;
+    if (!Array.isArray(scenario.funds) || scenario.funds.some((fund: any) => typeof fund?.id !== 'string')) return null;
+    return { ...scenario, inputs: scenario.inputs ?? {} } as CalculatorScenario;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The part of each selected fund a scenario needs; names and launch dates are
+ * looked up again when the link is opened.
+ */
+export function scenarioFunds(funds: CalculatorScenario['funds']): CalculatorScenario['funds'] {
+  return funds.map(({ id, weightage, exitLoad }) => (exitLoad ? { id, weightage, exitLoad } : { id, weightage }));
+}
+
+/**
+ * Full URL that reopens the scenario.
+ */
+export function scenarioUrl(scenario: CalculatorScenario): string {
+  const path = calculatorPath(scenario.calculator, scenario.mode);
+  return `${window.location.origin}${path}?${SCENARIO_PARAM}=${encodeScenario(scenario)}`;
+}
+
+/**
+ * Scenario carried in a query string such as `?s=…`, if any.
+ */
+export function readScenarioFromSearch(search: string): CalculatorScenario | null {
+  const encoded = new URLSearchParams(search).get(SCENARIO_PARAM);
+  return encoded ? decodeScenario(encoded) : null;
+}
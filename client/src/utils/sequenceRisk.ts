@@ -0,0 +1,179 @@
+import { simulateSWP } from './swpSimulation';
+import type { NavPoint, NavSeriesByFund } from './swpSimulation';
+import { percentilesOf } from './monteCarloSWP';
+import type { MonteCarloPercentiles, MonteCarloSWPInput } from './monteCarloSWP';
+
+/**
+ * Sequence-of-returns stress test for an SWP plan.
+ *
+ * The same plan (corpus, withdrawal, strategy, tax and exit loads) is started
+ * on the 1st of every month for which the funds have enough common history to
+ * cover the whole horizon, and each run is simulated against the actual NAVs
+ * that followed. Comparing the runs shows how much of the outcome is down to
+ * the year the withdrawals happened to begin.
+ */
+export type SequenceRiskInput = Omit<MonteCarloSWPInput, 'paths' | 'seed'>;
+
+export interface SequenceRiskRun {
+  startDate: string;
+  endDate: string; // last scheduled withdrawal
+  endingValue: number;
+  withdrawn: number;
+  depletedOn: string | null;
+  monthsLasted: number; // months of withdrawals met in full
+  maxDrawdown: number; // fraction of the running peak
+}
+
+export interface EndingCorpusBand {
+  label: string;
+  count: number;
+}
+
+export interface SequenceRiskResult {
+  years: number;
+  runs: SequenceRiskRun[]; // in start date order
+  firstStart: string;
+  lastStart: string;
+  depletedRuns: number;
+  depletionFrequency: number; // percent of start dates that ran out
+  worst: SequenceRiskRun;
+  best: SequenceRiskRun;
+  endingPercentiles: MonteCarloPercentiles;
+  endingBands: EndingCorpusBand[];
+}
+
+// Ending corpus as a multiple of the starting corpus
+const ENDING_BANDS: Array<{ label: string; max: number }> = [
+  { label: 'Below 0.5x', max: 0.5 },
+  { label: '0.5x – 1x', max: 1 },
+  { label: '1x – 2x', max: 2 },
+  { label: '2x – 4x', max: 4 },
+  { label: 'Above 4x', max: Infinity },
+];
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Works on YYYY-MM strings so the calendar never shifts with the local timezone
+function addMonthsToMonth(month: string, count: number): string {
+  const total = Number(month.slice(0, 4)) * 12 + Number(month.slice(5, 7)) - 1 + count;
+  return `${Math.floor(total / 12)}-${pad((total % 12) + 1)}`;
+}
+
+function navOnOrBefore(series: NavPoint[], isoDate: string): NavPoint | null {
+  let best: NavPoint | null = null;
+  for (const point of series) {
+    if (point.date > isoDate) break;
+    best = point;
+  }
+  return best;
+}
+
+/**
+ * Runs the plan from every eligible month start and summarises the spread of
+ * outcomes. Throws when the common NAV history is shorter than the horizon.
+ */
+export function runSequenceRiskBacktest(input: SequenceRiskInput): SequenceRiskResult {
+  const fundIds = Object.keys(input.targetWeights).filter((id) => input.targetWeights[id] > 0);
+  if (fundIds.length === 0) {
+    throw new Error('At least one fund with a positive weight is required.');
+  }
+
+  const seriesByFund: NavSeriesByFund = {};
+  for (const fundId of fundIds) {
+    const series = (input.navSeriesByFund[fundId] ?? [])
+      .filter((point) => point.nav > 0)
+      .sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+    if (series.length === 0) {
+      throw new Error(`No NAV history found for fund ${fundId}.`);
+    }
+    seriesByFund[fundId] = series;
+  }
+
+  const commonStart = fundIds.map((id) => seriesByFund[id][0].date).sort().pop()!;
+  const commonEnd = fundIds.map((id) => seriesByFund[id][seriesByFund[id].length - 1].date).sort()[0];
+
+  const months = Math.max(1, Math.round(input.years * 12));
+  const stepMonths = 12 / input.withdrawalsPerYear;
+  const firstMonth = commonStart.endsWith('-01') ? commonStart.slice(0, 7) : addMonthsToMonth(commonStart.slice(0, 7), 1);
+  const lastMonth = addMonthsToMonth(commonEnd.slice(0, 7), -months);
+  if (`${firstMonth}-01` > `${lastMonth}-01` || `${addMonthsToMonth(lastMonth, months)}-01` > commonEnd) {
+    throw new Error(
+      `The funds share history from ${commonStart} to ${commonEnd}, which is not long enough to test a ${months / 12}-year horizon.`
+    );
+  }
+
+  const runs: SequenceRiskRun[] = [];
+  for (let month = firstMonth; month <= lastMonth; month = addMonthsToMonth(month, 1)) {
+    const startDate = `${month}-01`;
+    const withdrawalDates: string[] = [];
+    for (let m = 0; m < months; m += stepMonths) {
+      withdrawalDates.push(`${addMonthsToMonth(month, m)}-01`);
+    }
+
+    const initialUnits: Record<string, number> = {};
+    for (const fundId of fundIds) {
+      const navPoint = navOnOrBefore(seriesByFund[fundId], startDate) ?? seriesByFund[fundId][0];
+      initialUnits[fundId] = (input.corpus * input.targetWeights[fundId]) / navPoint.nav;
+    }
+
+    const simulation = simulateSWP({
+      startDate,
+      withdrawalAmount: input.withdrawalAmount,
+      withdrawalDates,
+      strategy: input.strategy ?? 'PROPORTIONAL',
+      targetWeights: input.targetWeights,
+      initialUnits,
+      navSeriesByFund: seriesByFund,
+      riskOrder: input.riskOrder,
+      fundRisk: input.fundRisk,
+      taxClassByFund: input.taxClassByFund,
+      taxRules: input.taxRules,
+      exitLoadByFund: input.exitLoadByFund,
+      withdrawalIndexation: input.withdrawalIndexation,
+      withdrawalPolicy: input.withdrawalPolicy,
+    });
+
+    const { depletedOn, shortfallTotal, endingValue, withdrawn, maxDrawdown } = simulation.totals;
+    const fullPeriods = simulation.timeline.filter(
+      (entry) => entry.action?.type === 'WITHDRAWAL' && !(entry.action.shortfall > 0.005)
+    ).length;
+    const depleted = Boolean(depletedOn) || shortfallTotal > 0.005;
+
+    runs.push({
+      startDate,
+      endDate: withdrawalDates[withdrawalDates.length - 1],
+      endingValue: depleted && depletedOn ? 0 : endingValue,
+      withdrawn,
+      depletedOn: depleted ? depletedOn ?? withdrawalDates[withdrawalDates.length - 1] : null,
+      monthsLasted: fullPeriods * stepMonths,
+      maxDrawdown,
+    });
+  }
+
+  // Running out early is worse than any surviving outcome; then compare what is left
+  const rank = (run: SequenceRiskRun) => (run.depletedOn ? run.monthsLasted - months : 0);
+  const byOutcome = [...runs].sort((a, b) => rank(a) - rank(b) || a.endingValue - b.endingValue);
+  const depletedRuns = runs.filter((run) => run.depletedOn).length;
+
+  const endingBands = ENDING_BANDS.map((band) => ({ label: band.label, count: 0 }));
+  const depletedBand = { label: 'Depleted', count: depletedRuns };
+  for (const run of runs) {
+    if (run.depletedOn) continue;
+    const multiple = input.corpus > 0 ? run.endingValue / input.corpus : 0;
+    const index = ENDING_BANDS.findIndex((band) => multiple < band.max);
+    endingBands[index].count += 1;
+  }
+
+  return {
+    years: months / 12,
+    runs,
+    firstStart: runs[0].startDate,
+    lastStart: runs[runs.length - 1].startDate,
+    depletedRuns,
+    depletionFrequency: (depletedRuns / runs.length) * 100,
+    worst: byOutcome[0],
+    best: byOutcome[byOutcome.length - 1],
+    endingPercentiles: percentilesOf(runs.map((run) => run.endingValue)),
+    endingBands: [depletedBand, ...endingBands],
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Step-up SIP helpers.
+ *
+ * A step-up SIP raises the monthly installment once every 12 months from the
+ * SIP start date, either by a percentage of the current installment or by a
+ * fixed rupee amount, optionally stopping at a cap.
+ */
+
+export type StepUpMode = 'NONE' | 'PERCENTAGE' | 'FIXED';
+
+export interface StepUpConfig {
+  mode: StepUpMode;
+  value: number; // percent per year for PERCENTAGE, rupees per year for FIXED
+  cap?: number; // maximum monthly installment, ignored when not positive
+}
+
+export interface StepUpScheduleRow {
+  year: number; // 1-based SIP year
+  fromDate: string; // first actual installment date in this year
+  installment: number;
+  installments: number;
+  invested: number;
+}
+
+export const NO_STEP_UP: StepUpConfig = { mode: 'NONE', value: 0 };
+
+function monthsBetween(startDate: string, date: string): number {
+  const start = new Date(startDate);
+  const current = new Date(date);
+  let months = (current.getFullYear() - start.getFullYear()) * 12 + (current.getMonth() - start.getMonth());
+  if (current.getDate() < start.getDate()) months -= 1;
+  return Math.max(0, months);
+}
+
+/**
+ * Installment for the SIP year that plannedDate falls in. Year 1 pays the base
+ * amount; each later year applies one more step, compounded for PERCENTAGE.
+ */
+export function getStepUpInstallment(
+  baseAmount: number,
+  startDate: string,
+  plannedDate: string,
+  config: StepUpConfig = NO_STEP_UP
+): number {
+  if (config.mode === 'NONE' || config.value <= 0) return baseAmount;
+
+  const steps = Math.floor(monthsBetween(startDate, plannedDate) / 12);
+  const stepped = config.mode === 'PERCENTAGE'
+    ? baseAmount * Math.pow(1 + config.value / 100, steps)
+    : baseAmount + config.value * steps;
+
+  if (config.cap && config.cap > 0) {
+    return Math.min(stepped, Math.max(config.cap, baseAmount));
+  }
+  return stepped;
+}
+
+/**
+ * Groups dated installments into SIP years for display and reporting.
+ */
+export function buildStepUpSchedule(
+  startDate: string,
+  installments: Array<{ plannedDate: string; actualDate: string; amount: number }>
+): StepUpScheduleRow[] {
+  const rows: StepUpScheduleRow[] = [];
+  installments.forEach(({ plannedDate, actualDate, amount }) => {
+    const year = Math.floor(monthsBetween(startDate, plannedDate) / 12) + 1;
+    const last = rows[rows.length - 1];
+    if (last && last.year === year) {
+      last.installments += 1;
+      last.invested += amount;
+    } else {
+      rows.push({ year, fromDate: actualDate, installment: amount, installments: 1, invested: amount });
+    }
+  });
+  return rows;
+}
+
+export function describeStepUp(
+  config: StepUpConfig,
+  formatAmount: (amount: number) => string = (amount) => `₹${amount.toLocaleString('en-IN')}`
+): string {
+  if (config.mode === 'NONE' || config.value <= 0) return 'None';
+  const step = config.mode === 'PERCENTAGE'
+    ? `${config.value}% every year`
+    : `${formatAmount(config.value)} every year`;
+  return config.cap && config.cap > 0
+    ? `${step} (capped at ${formatAmount(config.cap)})`
+    : step;
+}
@@ -1,5 +1,41 @@
+import { ExitLoadSchedule, getExitLoadRate } from './exitLoad';
+import { createWithdrawalIndexer } from './inflation';
+import type { WithdrawalIndexation } from './inflation';
+import { createWithdrawalAmountPicker } from './withdrawalPolicy';
+import type { PolicyDecision, WithdrawalPolicy } from './withdrawalPolicy';
+
 export type SWPStrategy = 'PROPORTIONAL' | 'OVERWEIGHT_FIRST' | 'RISK_BUCKET';
 
+/**
+ * Capital gains treatment of a scheme. EQUITY covers equity-oriented funds
+ * (>= 65% domestic equity); DEBT covers specified mutual funds bought after
+ * 1 April 2023, whose gains are taxed at slab rate irrespective of holding.
+ */
+export type TaxClass = 'EQUITY' | 'DEBT';
+
+export type GainType = 'STCG' | 'LTCG' | 'SLAB';
+
+export interface TaxRules {
+  equityStcgRate: number;
+  equityLtcgRate: number;
+  /** LTCG exemption on equity gains, per financial year (April–March) */
+  equityLtcgExemption: number;
+  /** Equity units held longer than this qualify as long term */
+  equityLtcgHoldingMonths: number;
+  debtSlabRate: number;
+  /** Health & education cess applied on top of the computed tax */
+  cessRate: number;
+}
+
+export const DEFAULT_TAX_RULES: TaxRules = {
+  equityStcgRate: 0.2,
+  equityLtcgRate: 0.125,
+  equityLtcgExemption: 125000,
+  equityLtcgHoldingMonths: 12,
+  debtSlabRate: 0.3,
+  cessRate: 0.04,
+};
+
 export interface NavPoint {
   date: string;
   nav: number;
@@ -7,6 +43,12 @@ export interface NavPoint {
 
 export type NavSeriesByFund = Record<string, NavPoint[]>;
 
+export interface PurchaseLot {
+  date: string;
+  units: number;
+  nav: number;
+}
+
 export interface SWPSimulationInput {
   startDate: string;
   withdrawalAmount: number;
@@ -17,6 +59,27 @@ export interface SWPSimulationInput {
   navSeriesByFund: NavSeriesByFund;
   riskOrder?: string[];
   fundRisk?: Record<string, string>;
+  // Purchase lots per fund, oldest first. Defaults to one lot per fund
+  // bought at the start date NAV.
+  purchaseLots?: Record<string, PurchaseLot[]>;
+  taxClassByFund?: Record<string, TaxClass>; // defaults to EQUITY
+  taxRules?: Partial<TaxRules>;
+  exitLoadByFund?: Record<string, ExitLoadSchedule>; // no load when omitted
+  // Escalates withdrawalAmount on each anniversary of the first withdrawal;
+  // flat withdrawals when omitted
+  withdrawalIndexation?: WithdrawalIndexation;
+  // How much to withdraw each period; FIXED (the indexed amount) when omitted
+  withdrawalPolicy?: WithdrawalPolicy;
+}
+
+export interface LotRedemption {
+  purchaseDate: string;
+  units: number;
+  costBasis: number;
+  holdingPeriodDays: number;
+  exitLoad: number;
+  gain: number; // net of exit load, which counts as a transfer expense
+  gainType: GainType;
 }
 
 export interface FundWithdrawal {
@@ -25,6 +88,15 @@ export interface FundWithdrawal {
   amount: number;
   navDate: string;
   nav: number;
+  taxClass: TaxClass;
+  lots: LotRedemption[];
+  holdingPeriodDays: number; // unit-weighted across the lots redeemed
+  exitLoad: number; // deducted from the redemption proceeds
+  costBasis: number;
+  realisedGain: number;
+  shortTermGain: number;
+  longTermGain: number;
+  taxDue: number;
 }
 
 export interface TimelineEntry {
@@ -33,8 +105,12 @@ export interface TimelineEntry {
   totalUnits: Record<string, number>;
   action?: {
     type: 'INIT_STATE' | 'WITHDRAWAL';
+    requested?: number; // amount the withdrawal policy asked for this period
+    decision?: PolicyDecision;
     amount?: number;
     shortfall?: number;
+    exitLoad?: number;
+    taxDue?: number;
     perFund?: FundWithdrawal[];
   };
 }
@@ -42,6 +118,9 @@ export interface TimelineEntry {
 export interface FundResult {
   fundId: string;
   totalWithdrawn: number;
+  realisedGain: number;
+  exitLoadPaid: number;
+  taxPaid: number;
   remainingUnits: number;
   sales: FundWithdrawal[];
 }
@@ -61,6 +140,11 @@ export interface SWPSimulationResult {
     maxDrawdown: number;
     peakValue: number;
     shortfallTotal: number;
+    realisedGain: number;
+    exitLoadPaid: number;
+    taxPaid: number;
+    postTaxWithdrawn: number; // net of exit loads and tax
+    effectiveTaxDrag: number; // tax paid as a fraction of gross withdrawals
   };
   fundResults: FundResult[];
   cashflows: {
@@ -72,6 +156,19 @@ export interface SWPSimulationResult {
 const ISO_ZERO = 'T00:00:00';
 
 const toDate = (iso: string) => new Date(`${iso}${ISO_ZERO}`);
+
+// Date parsing dominates long simulations (Monte Carlo runs thousands of
+// them), so timestamps are memoised per ISO string
+const timeCache = new Map<string, number>();
+const toTime = (iso: string): number => {
+  let time = timeCache.get(iso);
+  if (time === undefined) {
+    time = toDate(iso).getTime();
+    if (timeCache.size > 50000) timeCache.clear();
+    timeCache.set(iso, time);
+  }
+  return time;
+};
 const toISODate = (date: Date) => date.toISOString().slice(0, 10);
 
 const cloneUnits = (units: Record<string, number>) => {
@@ -89,13 +186,13 @@ const roundUnits = (value: number) =>
 
 function ensureAscending(series: NavPoint[]): NavPoint[] {
   return [...series].sort(
-    (a, b) => toDate(a.date).getTime() - toDate(b.date).getTime()
+    (a, b) => toTime(a.date) - toTime(b.date)
   );
 }
 
 function navOnOrBeforeDate(series: NavPoint[], isoDate: string): NavPoint | null {
   if (!series || series.length === 0) return null;
-  const target = toDate(isoDate).getTime();
+  const target = toTime(isoDate);
   let lo = 0;
   let hi = series.length - 1;
   let best: NavPoint | null = null;
@@ -103,7 +200,7 @@ function navOnOrBeforeDate(series: NavPoint[], isoDate: string): NavPoint | null
   while (lo <= hi) {
     const mid = (lo + hi) >> 1;
     const current = series[mid];
-    const curTime = toDate(current.date).getTime();
+    const curTime = toTime(current.date);
     if (curTime <= target) {
       best = current;
       lo = mid + 1;
@@ -136,11 +233,172 @@ interface WithdrawalResult {
   shortfall: number;
 }
 
+interface SimulationState {
+  units: Record<string, number>;
+  lots: Record<string, PurchaseLot[]>; // FIFO queues, oldest lot first
+  ltcgExemptionUsed: Record<string, number>; // keyed by financial year
+  taxRules: TaxRules;
+}
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Indian financial year label, e.g. 2023-24 for any date from Apr 2023 to Mar 2024
+function financialYear(isoDate: string): string {
+  const year = Number(isoDate.slice(0, 4));
+  const startYear = Number(isoDate.slice(5, 7)) >= 4 ? year : year - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+function isLongTerm(purchaseDate: string, saleDate: string, holdingMonths: number): boolean {
+  const threshold = toDate(purchaseDate);
+  threshold.setMonth(threshold.getMonth() + holdingMonths);
+  return toTime(saleDate) > threshold.getTime();
+}
+
+/**
+ * Consumes purchase lots oldest-first for the units being sold and splits the
+ * realised gain into short and long term buckets.
+ */
+function consumeLotsFIFO(
+  lots: PurchaseLot[],
+  unitsToSell: number,
+  sale: NavPoint,
+  taxClass: TaxClass,
+  rules: TaxRules,
+  exitLoad: ExitLoadSchedule
+): LotRedemption[] {
+  const redemptions: LotRedemption[] = [];
+  let unitsLeft = unitsToSell;
+
+  while (unitsLeft > 1e-9 && lots.length > 0) {
+    const lot = lots[0];
+    const units = Math.min(lot.units, unitsLeft);
+    const costBasis = units * lot.nav;
+    const proceeds = units * sale.nav;
+    const load = (proceeds * getExitLoadRate(exitLoad, lot.date, sale.date)) / 100;
+    const gain = proceeds - load - costBasis;
+    const longTerm =
+      taxClass === 'EQUITY' &&
+      isLongTerm(lot.date, sale.date, rules.equityLtcgHoldingMonths);
+
+    redemptions.push({
+      purchaseDate: lot.date,
+      units,
+      costBasis: round2(costBasis),
+      holdingPeriodDays: Math.max(
+        0,
+        Math.round((toTime(sale.date) - toTime(lot.date)) / MS_PER_DAY)
+      ),
+      exitLoad: round2(load),
+      gain: round2(gain),
+      gainType: taxClass === 'DEBT' ? 'SLAB' : longTerm ? 'LTCG' : 'STCG',
+    });
+
+    lot.units = roundUnits(lot.units - units);
+    unitsLeft -= units;
+    if (lot.units <= 1e-6) {
+      lots.shift();
+    }
+  }
+
+  return redemptions;
+}
+
+/**
+ * Tax on a single redemption. Losses are not set off against other gains and
+ * the equity LTCG exemption is drawn down in the order redemptions happen.
+ */
+function computeTaxDue(
+  state: SimulationState,
+  taxClass: TaxClass,
+  shortTermGain: number,
+  longTermGain: number,
+  saleDate: string
+): number {
+  const rules = state.taxRules;
+  let tax = 0;
+
+  if (taxClass === 'DEBT') {
+    tax = Math.max(0, shortTermGain + longTermGain) * rules.debtSlabRate;
+  } else {
+    tax += Math.max(0, shortTermGain) * rules.equityStcgRate;
+
+    if (longTermGain > 0) {
+      const fy = financialYear(saleDate);
+      const used = state.ltcgExemptionUsed[fy] || 0;
+      const exempt = Math.min(longTermGain, Math.max(0, rules.equityLtcgExemption - used));
+      state.ltcgExemptionUsed[fy] = used + exempt;
+      tax += (longTermGain - exempt) * rules.equityLtcgRate;
+    }
+  }
+
+  return round2(tax * (1 + rules.cessRate));
+}
+
+function redeemUnits(
+  input: SWPSimulationInput,
+  state: SimulationState,
+  fundId: string,
+  amount: number,
+  navPoint: NavPoint
+): FundWithdrawal | null {
+  const unitsToSell = navPoint.nav > 0 ? amount / navPoint.nav : 0;
+  if (unitsToSell <= 0) return null;
+
+  state.units[fundId] = roundUnits(Math.max(0, (state.units[fundId] || 0) - unitsToSell));
+
+  const taxClass = input.taxClassByFund?.[fundId] ?? 'EQUITY';
+  const lots = consumeLotsFIFO(
+    state.lots[fundId] ?? [],
+    unitsToSell,
+    navPoint,
+    taxClass,
+    state.taxRules,
+    input.exitLoadByFund?.[fundId] ?? []
+  );
+
+  let exitLoad = 0;
+  let costBasis = 0;
+  let shortTermGain = 0;
+  let longTermGain = 0;
+  let weightedDays = 0;
+  let lotUnits = 0;
+  for (const lot of lots) {
+    exitLoad += lot.exitLoad;
+    costBasis += lot.costBasis;
+    weightedDays += lot.holdingPeriodDays * lot.units;
+    lotUnits += lot.units;
+    if (lot.gainType === 'LTCG') {
+      longTermGain += lot.gain;
+    } else {
+      shortTermGain += lot.gain;
+    }
+  }
+
+  return {
+    fundId,
+    unitsSold: unitsToSell,
+    amount,
+    navDate: navPoint.date,
+    nav: navPoint.nav,
+    taxClass,
+    lots,
+    holdingPeriodDays: lotUnits > 0 ? Math.round(weightedDays / lotUnits) : 0,
+    exitLoad: round2(exitLoad),
+    costBasis: round2(costBasis),
+    realisedGain: round2(shortTermGain + longTermGain),
+    shortTermGain: round2(shortTermGain),
+    longTermGain: round2(longTermGain),
+    taxDue: computeTaxDue(state, taxClass, shortTermGain, longTermGain, navPoint.date),
+  };
+}
+
 function withdrawProportional(
   input: SWPSimulationInput,
   asOfDate: string,
-  units: Record<string, number>
+  state: SimulationState
 ): WithdrawalResult {
+  const { units } = state;
   const { withdrawalAmount, targetWeights, navSeriesByFund } = input;
   const sales: FundWithdrawal[] = [];
   let remaining = withdrawalAmount;
@@ -183,17 +441,9 @@ function withdrawProportional(
     const desired = withdrawalAmount * weight;
     const maxAmount = (units[fundId] || 0) * navPoint.nav;
     const amount = Math.min(desired, maxAmount, remaining);
-    const unitsToSell = navPoint.nav > 0 ? amount / navPoint.nav : 0;
-
-    if (unitsToSell > 0) {
-      units[fundId] = roundUnits(Math.max(0, (units[fundId] || 0) - unitsToSell));
-      sales.push({
-        fundId,
-        unitsSold: unitsToSell,
-        amount,
-        navDate: navPoint.date,
-        nav: navPoint.nav,
-      });
+    const sale = redeemUnits(input, state, fundId, amount, navPoint);
+    if (sale) {
+      sales.push(sale);
       remaining = round2(remaining - amount);
     }
   }
@@ -226,17 +476,9 @@ function withdrawProportional(
         const share = remaining * (value / valueSum);
         const maxAmount = (units[fundId] || 0) * navPoint.nav;
         const amount = Math.min(share, maxAmount, remaining);
-        const unitsToSell = navPoint.nav > 0 ? amount / navPoint.nav : 0;
-
-        if (unitsToSell > 0) {
-          units[fundId] = roundUnits(Math.max(0, (units[fundId] || 0) - unitsToSell));
-          sales.push({
-            fundId,
-            unitsSold: unitsToSell,
-            amount,
-            navDate: navPoint.date,
-            nav: navPoint.nav,
-          });
+        const sale = redeemUnits(input, state, fundId, amount, navPoint);
+        if (sale) {
+          sales.push(sale);
           remaining = round2(remaining - amount);
         }
       }
@@ -249,8 +491,9 @@ function withdrawProportional(
 function withdrawOverweightFirst(
   input: SWPSimulationInput,
   asOfDate: string,
-  units: Record<string, number>
+  state: SimulationState
 ): WithdrawalResult {
+  const { units } = state;
   const { withdrawalAmount, targetWeights, navSeriesByFund } = input;
   const currentValues: Record<string, number> = {};
   let portfolioValueSum = 0;
@@ -288,17 +531,9 @@ function withdrawOverweightFirst(
 
     const maxAmount = (units[fundId] || 0) * navPoint.nav;
     const amount = Math.min(overweight, maxAmount, remaining);
-    const unitsToSell = navPoint.nav > 0 ? amount / navPoint.nav : 0;
-
-    if (unitsToSell > 0) {
-      units[fundId] = roundUnits(Math.max(0, (units[fundId] || 0) - unitsToSell));
-      sales.push({
-        fundId,
-        unitsSold: unitsToSell,
-        amount,
-        navDate: navPoint.date,
-        nav: navPoint.nav,
-      });
+    const sale = redeemUnits(input, state, fundId, amount, navPoint);
+    if (sale) {
+      sales.push(sale);
       remaining = round2(remaining - amount);
     }
   }
@@ -315,17 +550,9 @@ function withdrawOverweightFirst(
       const share = remaining * (value / portfolioValueSum);
       const maxAmount = (units[fundId] || 0) * navPoint.nav;
       const amount = Math.min(share, maxAmount, remaining);
-      const unitsToSell = navPoint.nav > 0 ? amount / navPoint.nav : 0;
-
-      if (unitsToSell > 0) {
-        units[fundId] = roundUnits(Math.max(0, (units[fundId] || 0) - unitsToSell));
-        sales.push({
-          fundId,
-          unitsSold: unitsToSell,
-          amount,
-          navDate: navPoint.date,
-          nav: navPoint.nav,
-        });
+      const sale = redeemUnits(input, state, fundId, amount, navPoint);
+      if (sale) {
+        sales.push(sale);
         remaining = round2(remaining - amount);
       }
     }
@@ -337,8 +564,9 @@ function withdrawOverweightFirst(
 function withdrawRiskBucket(
   input: SWPSimulationInput,
   asOfDate: string,
-  units: Record<string, number>
+  state: SimulationState
 ): WithdrawalResult {
+  const { units } = state;
   const { withdrawalAmount, navSeriesByFund, targetWeights, riskOrder, fundRisk } =
     input;
   if (!riskOrder || !fundRisk) {
@@ -381,17 +609,9 @@ function withdrawRiskBucket(
       const share = remaining * (value / bucketTotal);
       const maxAmount = (units[fundId] || 0) * navPoint.nav;
       const amount = Math.min(share, maxAmount, remaining);
-      const unitsToSell = navPoint.nav > 0 ? amount / navPoint.nav : 0;
-
-      if (unitsToSell > 0) {
-        units[fundId] = roundUnits(Math.max(0, (units[fundId] || 0) - unitsToSell));
-        sales.push({
-          fundId,
-          unitsSold: unitsToSell,
-          amount,
-          navDate: navPoint.date,
-          nav: navPoint.nav,
-        });
+      const sale = redeemUnits(input, state, fundId, amount, navPoint);
+      if (sale) {
+        sales.push(sale);
         remaining = round2(remaining - amount);
       }
     }
@@ -403,15 +623,15 @@ function withdrawRiskBucket(
 function applyWithdrawal(
   input: SWPSimulationInput,
   asOfDate: string,
-  units: Record<string, number>
+  state: SimulationState
 ): WithdrawalResult {
   switch (input.strategy) {
     case 'PROPORTIONAL':
-      return withdrawProportional(input, asOfDate, units);
+      return withdrawProportional(input, asOfDate, state);
     case 'OVERWEIGHT_FIRST':
-      return withdrawOverweightFirst(input, asOfDate, units);
+      return withdrawOverweightFirst(input, asOfDate, state);
     case 'RISK_BUCKET':
-      return withdrawRiskBucket(input, asOfDate, units);
+      return withdrawRiskBucket(input, asOfDate, state);
     default:
       throw new Error(`Unsupported strategy ${(input as any).strategy}`);
   }
@@ -453,11 +673,17 @@ export function simulateSWP(input: SWPSimulationInput): SWPSimulationResult {
   const perFundCashflows: Record<string, Cashflow[]> = {};
   const perFundSales: Record<string, FundWithdrawal[]> = {};
   const perFundWithdrawn: Record<string, number> = {};
+  const perFundGain: Record<string, number> = {};
+  const perFundExitLoad: Record<string, number> = {};
+  const perFundTax: Record<string, number> = {};
 
   for (const fundId of Object.keys(initialUnits)) {
     perFundCashflows[fundId] = [];
     perFundSales[fundId] = [];
     perFundWithdrawn[fundId] = 0;
+    perFundGain[fundId] = 0;
+    perFundExitLoad[fundId] = 0;
+    perFundTax[fundId] = 0;
   }
 
   const normalizedNavSeries: NavSeriesByFund = {};
@@ -465,6 +691,28 @@ export function simulateSWP(input: SWPSimulationInput): SWPSimulationResult {
     normalizedNavSeries[fundId] = ensureAscending(series);
   }
 
+  const state: SimulationState = {
+    units,
+    lots: {},
+    ltcgExemptionUsed: {},
+    taxRules: { ...DEFAULT_TAX_RULES, ...input.taxRules },
+  };
+
+  for (const fundId of Object.keys(initialUnits)) {
+    const providedLots = input.purchaseLots?.[fundId];
+    if (providedLots && providedLots.length > 0) {
+      state.lots[fundId] = [...providedLots]
+        .sort((a, b) => toTime(a.date) - toTime(b.date))
+        .map((lot) => ({ ...lot }));
+      continue;
+    }
+    const series = normalizedNavSeries[fundId] ?? [];
+    const purchaseNav = navOnOrBeforeDate(series, startDate) ?? series[0];
+    state.lots[fundId] = purchaseNav
+      ? [{ date: startDate, units: initialUnits[fundId], nav: purchaseNav.nav }]
+      : [];
+  }
+
   const timeline: TimelineEntry[] = [];
   const monthlyClose: Array<{ date: string; value: number }> = [];
   const overallCashflows: Cashflow[] = [];
@@ -482,8 +730,13 @@ export function simulateSWP(input: SWPSimulationInput): SWPSimulationResult {
 
   let totalWithdrawn = 0;
   let totalShortfall = 0;
+  let totalGain = 0;
+  let totalExitLoad = 0;
+  let totalTax = 0;
   let periods = 0;
   let depletedOn: string | null = null;
+  const indexer = createWithdrawalIndexer(withdrawalDates[0] ?? startDate, input.withdrawalIndexation);
+  const pickAmount = createWithdrawalAmountPicker(input.withdrawalPolicy, withdrawalDates[0] ?? startDate);
 
   for (const plannedDate of withdrawalDates) {
     const totalValueBefore = portfolioValue(plannedDate, units, normalizedNavSeries);
@@ -492,24 +745,33 @@ export function simulateSWP(input: SWPSimulationInput): SWPSimulationResult {
       break;
     }
 
+    const policyAmount = pickAmount(
+      plannedDate,
+      input.withdrawalAmount * indexer(plannedDate),
+      totalValueBefore
+    );
+    const requestedThisPeriod = round2(policyAmount.amount);
     const withdrawalResult = applyWithdrawal(
       {
         ...input,
+        withdrawalAmount: requestedThisPeriod,
         navSeriesByFund: normalizedNavSeries,
       },
       plannedDate,
-      units
+      state
     );
 
     const afterValue = portfolioValue(plannedDate, units, normalizedNavSeries);
     const withdrawnThisPeriod = round2(
-      input.withdrawalAmount - withdrawalResult.shortfall
+      requestedThisPeriod - withdrawalResult.shortfall
     );
 
     periods += 1;
     totalWithdrawn = round2(totalWithdrawn + withdrawnThisPeriod);
     totalShortfall = round2(totalShortfall + withdrawalResult.shortfall);
 
+    let exitLoadThisPeriod = 0;
+    let taxThisPeriod = 0;
     withdrawalResult.sales.forEach((sale) => {
       const cf: Cashflow = { date: sale.navDate, amount: sale.amount };
       perFundCashflows[sale.fundId].push(cf);
@@ -517,8 +779,16 @@ export function simulateSWP(input: SWPSimulationInput): SWPSimulationResult {
       perFundWithdrawn[sale.fundId] = round2(
         (perFundWithdrawn[sale.fundId] || 0) + sale.amount
       );
+      perFundGain[sale.fundId] = round2((perFundGain[sale.fundId] || 0) + sale.realisedGain);
+      perFundExitLoad[sale.fundId] = round2((perFundExitLoad[sale.fundId] || 0) + sale.exitLoad);
+      perFundTax[sale.fundId] = round2((perFundTax[sale.fundId] || 0) + sale.taxDue);
+      totalGain = round2(totalGain + sale.realisedGain);
+      exitLoadThisPeriod = round2(exitLoadThisPeriod + sale.exitLoad);
+      taxThisPeriod = round2(taxThisPeriod + sale.taxDue);
       overallCashflows.push(cf);
     });
+    totalExitLoad = round2(totalExitLoad + exitLoadThisPeriod);
+    totalTax = round2(totalTax + taxThisPeriod);
 
     timeline.push({
       date: plannedDate,
@@ -526,8 +796,12 @@ export function simulateSWP(input: SWPSimulationInput): SWPSimulationResult {
       totalUnits: cloneUnits(units),
       action: {
         type: 'WITHDRAWAL',
+        requested: requestedThisPeriod,
+        decision: policyAmount.decision,
         amount: withdrawnThisPeriod,
         shortfall: withdrawalResult.shortfall,
+        exitLoad: exitLoadThisPeriod,
+        taxDue: taxThisPeriod,
         perFund: withdrawalResult.sales,
       },
     });
@@ -553,6 +827,9 @@ export function simulateSWP(input: SWPSimulationInput): SWPSimulationResult {
   const fundResults: FundResult[] = Object.keys(initialUnits).map((fundId) => ({
     fundId,
     totalWithdrawn: round2(perFundWithdrawn[fundId] || 0),
+    realisedGain: round2(perFundGain[fundId] || 0),
+    exitLoadPaid: round2(perFundExitLoad[fundId] || 0),
+    taxPaid: round2(perFundTax[fundId] || 0),
     remainingUnits: roundUnits(units[fundId] || 0),
     sales: perFundSales[fundId],
   }));
@@ -567,11 +844,16 @@ export function simulateSWP(input: SWPSimulationInput): SWPSimulationResult {
       maxDrawdown,
       peakValue,
       shortfallTotal: totalShortfall,
+      realisedGain: totalGain,
+      exitLoadPaid: totalExitLoad,
+      taxPaid: totalTax,
+      postTaxWithdrawn: round2(totalWithdrawn - totalExitLoad - totalTax),
+      effectiveTaxDrag: totalWithdrawn > 0 ? totalTax / totalWithdrawn : 0,
     },
     fundResults,
     cashflows: {
       overall: overallCashflows.sort(
-        (a, b) => toDate(a.date).getTime() - toDate(b.date).getTime()
+        (a, b) => toTime(a.date) - toTime(b.date)
       ),
       perFund: perFundCashflows,
     },
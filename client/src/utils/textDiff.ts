@@ -0,0 +1,81 @@
+/**
+ * Line diff for comparing blog revisions. Content is split into lines, and
+ * HTML content also after block-level tags, so each paragraph, heading or
+ * list item is compared as one line.
+ */
+
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+}
+
+// Above this many comparisons the changed block is shown as replaced outright
+const MAX_DIFF_CELLS = 4_000_000;
+
+const BLOCK_END = /(<\/(?:p|h[1-6]|li|ul|ol|blockquote|pre|div|table|tr|figure)>|<br\s*\/?>)/gi;
+
+export function splitHtmlLines(html: string): string[] {
+  return html
+    .replace(/\r\n/g, '\n')
+    .replace(BLOCK_END, '$1\n')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Lines removed from `before` and added in `after`, in document order, using
+ * the longest common subsequence of the two.
+ */
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  // Unchanged lines at either end don't need the LCS table
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let beforeEnd = before.length;
+  let afterEnd = after.length;
+  while (beforeEnd > start && afterEnd > start && before[beforeEnd - 1] === after[afterEnd - 1]) {
+    beforeEnd--;
+    afterEnd--;
+  }
+
+  const a = before.slice(start, beforeEnd);
+  const b = after.slice(start, afterEnd);
+  const changed: DiffLine[] = [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    a.forEach((text) => changed.push({ type: 'removed', text }));
+    b.forEach((text) => changed.push({ type: 'added', text }));
+  } else {
+    // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+    const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        changed.push({ type: 'same', text: a[i] });
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        changed.push({ type: 'removed', text: a[i++] });
+      } else {
+        changed.push({ type: 'added', text: b[j++] });
+      }
+    }
+    while (i < a.length) changed.push({ type: 'removed', text: a[i++] });
+    while (j < b.length) changed.push({ type: 'added', text: b[j++] });
+  }
+
+  return [
+    ...before.slice(0, start).map((text): DiffLine => ({ type: 'same', text })),
+    ...changed,
+    ...before.slice(beforeEnd).map((text): DiffLine => ({ type: 'same', text })),
+  ];
+}
@@ -0,0 +1,258 @@
+import type { HoldingTransactionType, ImportedTransaction } from '../types/holdings';
+
+/**
+ * Readers for transaction files:
+ * - CSV with a header row. Recognised columns (any order, case-insensitive):
+ *   date, scheme_code, scheme_name, folio, type, amount, units, nav.
+ *   Either scheme_code or scheme_name is required, and amount or units.
+ * - The text export of a CAMS or KFintech consolidated account statement
+ *   (CAS). Schemes are named but carry no AMFI code, so imported
+ *   transactions are matched to scheme codes afterwards.
+ */
+
+const MONTHS: Record<string, string> = {
+  jan: '01', feb: '02', mar: '03', apr: '04', may: '05', jun: '06',
+  jul: '07', aug: '08', sep: '09', oct: '10', nov: '11', dec: '12',
+};
+
+/**
+ * Converts YYYY-MM-DD, DD-MM-YYYY, DD/MM/YYYY or DD-Mon-YYYY to YYYY-MM-DD.
+ */
+export function normaliseTransactionDate(raw: string): string | null {
+  const value = raw.trim();
+  let match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (match) return value;
+
+  match = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+  if (match) return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+
+  match = value.match(/^(\d{1,2})[- ]([A-Za-z]{3})[A-Za-z]*[- ](\d{4})$/);
+  if (match && MONTHS[match[2].toLowerCase()]) {
+    return `${match[3]}-${MONTHS[match[2].toLowerCase()]}-${match[1].padStart(2, '0')}`;
+  }
+  return null;
+}
+
+/**
+ * Maps a transaction description (e.g. "Systematic Investment", "Switch-Out")
+ * to a transaction type. Negative units mark a redemption when the
+ * description alone doesn't say.
+ */
+export function classifyTransaction(description: string, negative = false): HoldingTransactionType {
+  const text = description.toLowerCase();
+  if (/switch[\s-]*out/.test(text)) return 'SWITCH_OUT';
+  if (/switch[\s-]*in/.test(text)) return 'SWITCH_IN';
+  if (/reinvest/.test(text)) return 'DIVIDEND_REINVESTMENT';
+  if (/redeem|redemption|withdrawal|swp|sell|sale/.test(text)) return 'REDEMPTION';
+  return negative ? 'REDEMPTION' : 'PURCHASE';
+}
+
+const parseAmount = (raw: string | undefined): number | undefined => {
+  if (raw === undefined) return undefined;
+  const cleaned = raw.replace(/[₹,\s]/g, '').replace(/^\((.*)\)$/, '-$1');
+  if (cleaned === '') return undefined;
+  const value = Number(cleaned);
+  return isFinite(value) ? value : undefined;
+};
+
+/**
+ * Splits one CSV line, honouring double-quoted cells.
+ */
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === ',' && !quoted) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+const CSV_COLUMNS: Record<string, string[]> = {
+  date: ['date', 'transaction_date', 'trade_date'],
+  schemeCode: ['scheme_code', 'schemecode', 'amfi_code', 'code'],
+  schemeName: ['scheme_name', 'scheme', 'fund', 'fund_name'],
+  folio: ['folio', 'folio_no', 'folio_number'],
+  type: ['type', 'transaction_type', 'description'],
+  amount: ['amount', 'value'],
+  units: ['units', 'quantity'],
+  nav: ['nav', 'price'],
+};
+
+export function parseTransactionsCsv(text: string): ImportedTransaction[] {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length < 2) {
+    throw new Error('The CSV file needs a header row and at least one transaction.');
+  }
+
+  const header = splitCsvLine(lines[0]).map((cell) => cell.toLowerCase().replace(/[\s.]+/g, '_'));
+  const column: Record<string, number> = {};
+  Object.entries(CSV_COLUMNS).forEach(([field, names]) => {
+    column[field] = header.findIndex((cell) => names.includes(cell));
+  });
+
+  if (column.date < 0) throw new Error('The CSV file needs a "date" column.');
+  if (column.schemeCode < 0 && column.schemeName < 0) {
+    throw new Error('The CSV file needs a "scheme_code" or "scheme_name" column.');
+  }
+  if (column.amount < 0 && column.units < 0) {
+    throw new Error('The CSV file needs an "amount" or "units" column.');
+  }
+
+  return lines.slice(1).map((line, index) => {
+    const cells = splitCsvLine(line);
+    const cell = (field: string) => (column[field] >= 0 ? cells[column[field]] : undefined);
+    const lineNumber = index + 2;
+
+    const date = normaliseTransactionDate(cell('date') ?? '');
+    if (!date) throw new Error(`Line ${lineNumber}: "${cell('date')}" is not a date.`);
+
+    const amount = parseAmount(cell('amount'));
+    const units = parseAmount(cell('units'));
+    if (!amount && !units) throw new Error(`Line ${lineNumber}: needs an amount or units.`);
+
+    const schemeCode = cell('schemeCode') || null;
+    const schemeName = cell('schemeName') || '';
+    if (!schemeCode && !schemeName) throw new Error(`Line ${lineNumber}: needs a scheme code or name.`);
+
+    return {
+      schemeCode,
+      schemeName: schemeName || `Scheme ${schemeCode}`,
+      folio: cell('folio') || 'Unknown',
+      date,
+      type: classifyTransaction(cell('type') ?? '', (amount ?? 0) < 0 || (units ?? 0) < 0),
+      amount: Math.abs(amount ?? 0),
+      units: units ? Math.abs(units) : undefined,
+      nav: parseAmount(cell('nav')) || undefined,
+    };
+  });
+}
+
+const CAS_NUMBER = String.raw`\(?-?[\d,]+\.\d+\)?`;
+// date, description, amount, units, price, unit balance
+const CAS_TRANSACTION = new RegExp(
+  String.raw`^(\d{2}-[A-Za-z]{3}-\d{4})\s+(.+?)\s+(${CAS_NUMBER})\s+(${CAS_NUMBER})\s+(${CAS_NUMBER})\s+(${CAS_NUMBER})\s*$`
+);
+
+/**
+ * Reads the transaction lines of a CAS text export. Stamp duty, STT and
+ * other lines without units are skipped.
+ */
+export function parseCasText(text: string): ImportedTransaction[] {
+  const transactions: ImportedTransaction[] = [];
+  let folio: string | null = null;
+  let scheme: { name: string; isin?: string } | null = null;
+
+  text.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.replace(/\s+/g, ' ').trim();
+    if (!line) return;
+
+    const folioMatch = line.match(/Folio\s*No\s*[:.]?\s*([A-Za-z0-9/ ]+?)(?:\s{1,}(?:PAN|KYC)\b|$)/i);
+    if (folioMatch) {
+      folio = folioMatch[1].replace(/\s+/g, '').trim();
+      return;
+    }
+
+    if (/ISIN\s*:/i.test(line)) {
+      const isin = line.match(/ISIN\s*:\s*([A-Z0-9]{12})/i)?.[1];
+      const name = line
+        .split(/\s*-?\s*ISIN\s*:/i)[0]
+        .replace(/^[A-Z0-9]+\s*-\s*/, '') // registrar's scheme prefix, e.g. "B205-"
+        .replace(/\s*-\s*$/, '')
+        .trim();
+      scheme = { name, isin };
+      return;
+    }
+
+    const match = line.match(CAS_TRANSACTION);
+    if (!match || !folio || !scheme) return;
+
+    const [, rawDate, description, rawAmount, rawUnits, rawPrice] = match;
+    const date = normaliseTransactionDate(rawDate);
+    const amount = parseAmount(rawAmount);
+    const units = parseAmount(rawUnits);
+    if (!date || amount === undefined || !units) return;
+
+    transactions.push({
+      schemeCode: null,
+      schemeName: scheme.name,
+      isin: scheme.isin,
+      folio,
+      date,
+      type: classifyTransaction(description, units < 0 || amount < 0),
+      amount: Math.abs(amount),
+      units: Math.abs(units),
+      nav: parseAmount(rawPrice),
+    });
+  });
+
+  if (transactions.length === 0) {
+    throw new Error('No transactions were found in the statement text.');
+  }
+  return transactions;
+}
+
+/**
+ * Reads either format, telling a CAS export apart by its folio headings.
+ */
+export function parseTransactionFile(text: string): ImportedTransaction[] {
+  return /Folio\s*No/i.test(text) ? parseCasText(text) : parseTransactionsCsv(text);
+}
+
+const tokens = (name: string) =>
+  new Set(
+    name
+      .toLowerCase()
+      .replace(/\bidcw\b/g, 'dividend')
+      .split(/[^a-z0-9]+/)
+      .filter((token) => token.length > 1 && !['fund', 'plan', 'option', 'the', 'mutual'].includes(token))
+  );
+
+/**
+ * Short query for searchFunds, which matches substrings of AMFI scheme names:
+ * the part of the name before the plan and option, e.g. "Axis Bluechip".
+ */
+export function schemeSearchQuery(name: string): string {
+  const base = name.split(/\s+-\s+|\(/)[0];
+  return base.replace(/\bfund\b.*$/i, '').trim() || base.trim();
+}
+
+/**
+ * Orders searchFunds results by how many words they share with the statement
+ * name, so "Direct Growth" picks the direct growth plan.
+ */
+export function rankSchemeMatches<T extends { schemeName?: string; scheme_name?: string }>(
+  name: string,
+  candidates: T[]
+): T[] {
+  const wanted = tokens(name);
+  // Statements only name the plan for direct plans
+  if (!wanted.has('direct')) wanted.add('regular');
+  const score = (candidate: T) => {
+    const candidateTokens = tokens(candidate.schemeName || candidate.scheme_name || '');
+    let shared = 0;
+    candidateTokens.forEach((token) => {
+      if (wanted.has(token)) shared++;
+    });
+    // Penalise plan or option words the statement doesn't mention
+    const extra = ['direct', 'regular', 'growth', 'dividend', 'bonus'].filter(
+      (word) => candidateTokens.has(word) && !wanted.has(word)
+    ).length;
+    return shared - extra * 2;
+  };
+  return [...candidates].sort((a, b) => score(b) - score(a));
+}
@@ -0,0 +1,205 @@
+import { wholeYearsBetween } from './inflation';
+
+/**
+ * Withdrawal-amount policies for SWP simulations.
+ *
+ * SWPStrategy decides which fund a withdrawal is sold from; a policy decides
+ * how much is withdrawn. Policies are reviewed once a year, on each
+ * anniversary of the first withdrawal, and the amount stays the same for
+ * every withdrawal until the next review. The plan's first withdrawal divided
+ * by the portfolio value at that date is the initial withdrawal rate (IWR)
+ * that the dynamic policies work from.
+ *
+ * - FIXED: the scheduled amount (after inflation indexation, if any).
+ * - PERCENT_OF_PORTFOLIO: IWR times the current value.
+ * - GUYTON_KLINGER: the previous amount, raised for inflation unless the
+ *   portfolio fell over the year while above the IWR. Cut by `adjustment`
+ *   when the current rate exceeds IWR by `upperGuardrail`, raised by
+ *   `adjustment` when it falls below IWR by `lowerGuardrail`.
+ * - FLOOR_CEILING: IWR times the current value, kept between `floorPercent`
+ *   and `ceilingPercent` of the scheduled amount.
+ */
+export type WithdrawalPolicy =
+  | { type: 'FIXED' }
+  | { type: 'PERCENT_OF_PORTFOLIO' }
+  | { type: 'GUYTON_KLINGER'; upperGuardrail: number; lowerGuardrail: number; adjustment: number }
+  | { type: 'FLOOR_CEILING'; floorPercent: number; ceilingPercent: number };
+
+export type WithdrawalPolicyType = WithdrawalPolicy['type'];
+
+export type PolicyDecision = 'INITIAL' | 'HOLD' | 'CUT' | 'RAISE' | 'INFLATION_SKIPPED' | 'FLOOR' | 'CEILING';
+
+export interface PolicyAmount {
+  amount: number;
+  decision: PolicyDecision;
+}
+
+export const FIXED_WITHDRAWAL_POLICY: WithdrawalPolicy = { type: 'FIXED' };
+
+export const DEFAULT_GUYTON_KLINGER: Extract<WithdrawalPolicy, { type: 'GUYTON_KLINGER' }> = {
+  type: 'GUYTON_KLINGER',
+  upperGuardrail: 20,
+  lowerGuardrail: 20,
+  adjustment: 10,
+};
+
+export const DEFAULT_FLOOR_CEILING: Extract<WithdrawalPolicy, { type: 'FLOOR_CEILING' }> = {
+  type: 'FLOOR_CEILING',
+  floorPercent: 90,
+  ceilingPercent: 120,
+};
+
+export const WITHDRAWAL_POLICY_LABELS: Record<WithdrawalPolicyType, string> = {
+  FIXED: 'Fixed amount',
+  PERCENT_OF_PORTFOLIO: 'Percent of current value',
+  GUYTON_KLINGER: 'Guyton-Klinger guardrails',
+  FLOOR_CEILING: 'Floor and ceiling',
+};
+
+/**
+ * Returns a stateful function that picks the amount for each withdrawal in
+ * date order. `scheduledAmount` is the plan's amount for that date after
+ * indexation; `portfolioValue` is the value just before the withdrawal.
+ */
+export function createWithdrawalAmountPicker(
+  policy: WithdrawalPolicy | undefined,
+  firstWithdrawalDate: string
+): (date: string, scheduledAmount: number, portfolioValue: number) => PolicyAmount {
+  let initialRate: number | null = null;
+  let reviewedYear = -1;
+  let lastScheduled = 0;
+  let lastReviewValue = 0;
+  let current: PolicyAmount = { amount: 0, decision: 'INITIAL' };
+
+  return (date, scheduledAmount, portfolioValue) => {
+    const year = wholeYearsBetween(firstWithdrawalDate, date);
+    if (year === reviewedYear) {
+      return { amount: current.amount, decision: 'HOLD' };
+    }
+
+    if (initialRate === null) {
+      initialRate = portfolioValue > 0 ? scheduledAmount / portfolioValue : 0;
+      current = { amount: scheduledAmount, decision: 'INITIAL' };
+    } else if (!policy || policy.type === 'FIXED') {
+      current = { amount: scheduledAmount, decision: 'HOLD' };
+    } else if (policy.type === 'PERCENT_OF_PORTFOLIO') {
+      current = { amount: portfolioValue * initialRate, decision: 'HOLD' };
+    } else if (policy.type === 'FLOOR_CEILING') {
+      const proposed = portfolioValue * initialRate;
+      const floor = (scheduledAmount * policy.floorPercent) / 100;
+      const ceiling = (scheduledAmount * policy.ceilingPercent) / 100;
+      current = proposed < floor
+        ? { amount: floor, decision: 'FLOOR' }
+        : proposed > ceiling
+          ? { amount: ceiling, decision: 'CEILING' }
+          : { amount: proposed, decision: 'HOLD' };
+    } else {
+      const inflationStep = lastScheduled > 0 ? scheduledAmount / lastScheduled : 1;
+      const previousRate = portfolioValue > 0 ? current.amount / portfolioValue : Infinity;
+      const skipInflation = portfolioValue < lastReviewValue && previousRate > initialRate;
+      let amount = skipInflation ? current.amount : current.amount * inflationStep;
+      let decision: PolicyDecision = skipInflation ? 'INFLATION_SKIPPED' : 'HOLD';
+
+      const rate = portfolioValue > 0 ? amount / portfolioValue : Infinity;
+      if (rate > initialRate * (1 + policy.upperGuardrail / 100)) {
+        amount *= 1 - policy.adjustment / 100;
+        decision = 'CUT';
+      } else if (rate < initialRate * (1 - policy.lowerGuardrail / 100)) {
+        amount *= 1 + policy.adjustment / 100;
+        decision = 'RAISE';
+      }
+      current = { amount, decision };
+    }
+
+    reviewedYear = year;
+    lastScheduled = scheduledAmount;
+    lastReviewValue = portfolioValue;
+    return current;
+  };
+}
+
+export interface IncomeYear {
+  year: number; // 1-based year of withdrawals
+  startDate: string;
+  income: number; // total withdrawn in the year
+  marketReturn: number | null; // percent, portfolio return net of the year's withdrawals
+  decision: PolicyDecision;
+}
+
+export interface IncomeVariation {
+  firstPeriodAmount: number;
+  lastPeriodAmount: number;
+  minPeriodAmount: number;
+  maxPeriodAmount: number;
+  cuts: number;
+  raises: number;
+  years: IncomeYear[];
+  goodYears: { count: number; averageIncome: number | null };
+  badYears: { count: number; averageIncome: number | null };
+}
+
+interface IncomeTimelineEntry {
+  date: string;
+  portfolioValue: number;
+  action?: { type: string; amount?: number; decision?: PolicyDecision };
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+/**
+ * Groups withdrawals into policy years and compares the income drawn in years
+ * the portfolio gained (good) against years it lost (bad).
+ */
+export function summariseIncomeVariation(timeline: IncomeTimelineEntry[]): IncomeVariation | null {
+  const withdrawals = timeline.filter((entry) => entry.action?.type === 'WITHDRAWAL');
+  if (withdrawals.length === 0) return null;
+
+  const firstDate = withdrawals[0].date;
+  const years: IncomeYear[] = [];
+  // Value just before the first withdrawal
+  let openingValue = withdrawals[0].portfolioValue + (withdrawals[0].action?.amount ?? 0);
+  let yearEntries: IncomeTimelineEntry[] = [];
+
+  const closeYear = () => {
+    if (yearEntries.length === 0) return;
+    const income = yearEntries.reduce((sum, entry) => sum + (entry.action?.amount ?? 0), 0);
+    const closingValue = yearEntries[yearEntries.length - 1].portfolioValue;
+    years.push({
+      year: years.length + 1,
+      startDate: yearEntries[0].date,
+      income,
+      marketReturn: openingValue > 0 ? ((closingValue + income) / openingValue - 1) * 100 : null,
+      decision: yearEntries[0].action?.decision ?? 'HOLD',
+    });
+    openingValue = closingValue;
+    yearEntries = [];
+  };
+
+  let currentYear = 0;
+  for (const entry of withdrawals) {
+    const year = wholeYearsBetween(firstDate, entry.date);
+    if (year !== currentYear) {
+      closeYear();
+      currentYear = year;
+    }
+    yearEntries.push(entry);
+  }
+  closeYear();
+
+  const amounts = withdrawals.map((entry) => entry.action?.amount ?? 0);
+  const good = years.filter((y) => y.marketReturn !== null && y.marketReturn >= 0);
+  const bad = years.filter((y) => y.marketReturn !== null && y.marketReturn < 0);
+
+  return {
+    firstPeriodAmount: amounts[0],
+    lastPeriodAmount: amounts[amounts.length - 1],
+    minPeriodAmount: Math.min(...amounts),
+    maxPeriodAmount: Math.max(...amounts),
+    cuts: years.filter((y) => y.decision === 'CUT').length,
+    raises: years.filter((y) => y.decision === 'RAISE').length,
+    years,
+    goodYears: { count: good.length, averageIncome: average(good.map((y) => y.income)) },
+    badYears: { count: bad.length, averageIncome: average(bad.map((y) => y.income)) },
+  };
+}
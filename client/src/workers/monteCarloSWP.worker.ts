@@ -0,0 +1,23 @@
+import { runMonteCarloSWP } from '../utils/monteCarloSWP';
+import type { MonteCarloSWPInput, MonteCarloSWPResult } from '../utils/monteCarloSWP';
+
+export type MonteCarloWorkerRequest = { type: 'run'; input: MonteCarloSWPInput };
+
+export type MonteCarloWorkerResponse =
+  | { type: 'progress'; completed: number; total: number }
+  | { type: 'done'; result: MonteCarloSWPResult }
+  | { type: 'error'; message: string };
+
+const post = (message: MonteCarloWorkerResponse) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<MonteCarloWorkerRequest>) => {
+  if (event.data?.type !== 'run') return;
+  try {
+    const result = runMonteCarloSWP(event.data.input, (completed, total) => {
+      post({ type: 'progress', completed, total });
+    });
+    post({ type: 'done', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'Monte Carlo simulation failed' });
+  }
+};
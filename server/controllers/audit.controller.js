@@ -0,0 +1,102 @@
+// server/controllers/audit.controller.js
+const { getAuditLogs, exportAuditLogsCsv } = require('../services/audit.service');
+const { AUDIT_ACTIONS, AUDIT_TARGET_TYPES } = require('../models/AuditLog');
+const logger = require('../utils/logger');
+
+const MAX_PAGE_SIZE = 200;
+
+/**
+ * Audit filters from the query string, or an error message for the first bad one
+ */
+const parseAuditFilters = (query) => {
+  const { targetType, targetId, action, actor, from, to } = query;
+
+  if (targetType && !AUDIT_TARGET_TYPES.includes(targetType)) {
+    return { error: `Invalid targetType. Use one of: ${AUDIT_TARGET_TYPES.join(', ')}` };
+  }
+  if (action && !AUDIT_ACTIONS.includes(action)) {
+    return { error: `Invalid action. Use one of: ${AUDIT_ACTIONS.join(', ')}` };
+  }
+  if ([from, to].some((date) => date && Number.isNaN(new Date(date).getTime()))) {
+    return { error: 'from and to must be valid dates' };
+  }
+
+  return {
+    filters: {
+      targetType,
+      targetId,
+      action,
+      actor: actor ? String(actor).trim() : undefined,
+      from,
+      to,
+    },
+  };
+};
+
+/**
+ * GET /api/audit-logs
+ * Get audit entries, newest first, filtered by ?targetType=&targetId=&action=&actor=&from=&to= (admin only)
+ */
+const handleGetAuditLogs = async (req, res) => {
+  try {
+    const { filters, error } = parseAuditFilters(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error,
+      });
+    }
+
+    const limit = Math.min(parseInt(req.query.limit, 10) || 50, MAX_PAGE_SIZE);
+    const skip = Math.max(parseInt(req.query.skip, 10) || 0, 0);
+    const result = await getAuditLogs(filters, { limit, skip });
+
+    res.json({
+      success: true,
+      data: result.entries,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    logger.error('Error getting audit log:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching audit log',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * GET /api/audit-logs/export
+ * Download the filtered audit entries as CSV (admin only)
+ */
+const handleExportAuditLogs = async (req, res) => {
+  try {
+    const { filters, error } = parseAuditFilters(req.query);
+    if (error) {
+      return res.status(400).json({
+        success: false,
+        message: error,
+      });
+    }
+
+    const csv = await exportAuditLogsCsv(filters);
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.set('Content-Type', 'text/csv; charset=utf-8');
+    res.set('Content-Disposition', `attachment; filename="audit-log-${date}.csv"`);
+    res.send(csv);
+  } catch (error) {
+    logger.error('Error exporting audit log:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'Error exporting audit log',
+      error: error.message,
+    });
+  }
+};
+
+module.exports = {
+  handleGetAuditLogs,
+  handleExportAuditLogs,
+};
@@ -90,7 +90,9 @@ const register = async (req, res) => {
           email: user.email,
           name: user.name,
           picture: user.picture,
-          authProvider: user.authProvider
+          authProvider: user.authProvider,
+          role: user.role,
+          permissions: user.getPermissions()
         },
         accessToken,
         refreshToken
@@ -200,7 +202,9 @@ const login = async (req, res) => {
           email: user.email,
           name: user.name,
           picture: user.picture,
-          authProvider: user.authProvider
+          authProvider: user.authProvider,
+          role: user.role,
+          permissions: user.getPermissions()
         },
         accessToken,
         refreshToken
@@ -363,6 +367,8 @@ const getMe = async (req, res) => {
           name: user.name,
           picture: user.picture,
           authProvider: user.authProvider,
+          role: user.role,
+          permissions: user.getPermissions(),
           lastLoginAt: user.lastLoginAt
         }
       }
@@ -0,0 +1,47 @@
+// server/controllers/benchmark.controller.js
+const { getBenchmarks, getBenchmarkHistory } = require('../services/benchmark.service');
+const logger = require('../utils/logger');
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Get all available benchmark indices
+ */
+const handleGetBenchmarks = async (req, res) => {
+    try {
+        res.json(getBenchmarks());
+    } catch (error) {
+        logger.error('Error in handleGetBenchmarks:', error.message);
+        res.status(500).json({ message: 'Error fetching benchmarks.' });
+    }
+};
+
+/**
+ * Get index history for a benchmark by slug
+ */
+const handleGetBenchmarkHistory = async (req, res) => {
+    try {
+        const { slug } = req.params;
+        const { from, to } = req.query;
+
+        if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+            return res.status(400).json({ message: 'Dates must be in YYYY-MM-DD format.' });
+        }
+
+        const benchmark = getBenchmarkHistory(slug, from, to);
+
+        if (!benchmark) {
+            return res.status(404).json({ message: `Benchmark '${slug}' not found.` });
+        }
+
+        res.json(benchmark);
+    } catch (error) {
+        logger.error(`Error in handleGetBenchmarkHistory for ${req.params.slug}:`, error.message);
+        res.status(500).json({ message: `Error fetching history for benchmark ${req.params.slug}.` });
+    }
+};
+
+module.exports = {
+    handleGetBenchmarks,
+    handleGetBenchmarkHistory
+};
@@ -2,47 +2,98 @@
 const {
   getAllBlogs,
   getBlogById,
+  getBlogBySlug,
   createBlog,
   updateBlog,
+  setBlogStatus,
+  getBlogRevisions,
+  restoreBlogRevision,
   deleteBlog,
   getAllCategories,
   getAllTags,
 } = require('../services/blogs.service');
+const { BLOG_STATUSES, CONTENT_FORMATS } = require('../models/Blog');
 const { uploadImage, deleteImage } = require('../config/cloudinary');
+const { recordAudit } = require('../services/audit.service');
 const logger = require('../utils/logger');
 
+/**
+ * Reply with 400 when a post can't be moved to the requested status
+ */
+const sendWorkflowError = (res, error) => {
+  res.status(400).json({
+    success: false,
+    message: error.message,
+  });
+};
+
+/**
+ * Blog list filters from the query string
+ */
+const parseListFilters = (query) => ({
+  category: query.category,
+  tags: query.tags ? (Array.isArray(query.tags) ? query.tags : [query.tags]) : undefined,
+  exclusive: query.exclusive === 'true' ? true : query.exclusive === 'false' ? false : undefined,
+  search: query.search,
+  sortBy: query.sortBy || 'createdAt',
+  sortOrder: query.sortOrder || 'desc',
+  limit: query.limit || 50,
+  skip: query.skip || 0,
+});
+
+/**
+ * Send a page of blogs with pagination info
+ */
+const sendBlogList = (res, result) => {
+  res.json({
+    success: true,
+    data: result.blogs,
+    pagination: {
+      total: result.total,
+      limit: result.limit,
+      skip: result.skip,
+      hasMore: result.skip + result.blogs.length < result.total,
+    },
+  });
+};
+
 /**
  * GET /api/blogs
- * Get all blogs with filters
+ * Get published blogs with filters
  */
 const handleGetAllBlogs = async (req, res) => {
   try {
-    const filters = {
-      category: req.query.category,
-      tags: req.query.tags ? (Array.isArray(req.query.tags) ? req.query.tags : [req.query.tags]) : undefined,
-      exclusive: req.query.exclusive === 'true' ? true : req.query.exclusive === 'false' ? false : undefined,
-      search: req.query.search,
-      isPublished: req.query.isPublished !== 'false', // Default to true for public
-      sortBy: req.query.sortBy || 'createdAt',
-      sortOrder: req.query.sortOrder || 'desc',
-      limit: req.query.limit || 50,
-      skip: req.query.skip || 0,
-    };
+    // Drafts, posts in review and scheduled posts are only listed for admins
+    const result = await getAllBlogs({ ...parseListFilters(req.query), isPublished: true });
+    sendBlogList(res, result);
+  } catch (error) {
+    logger.error('Error getting all blogs:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching blogs',
+      error: error.message,
+    });
+  }
+};
 
-    const result = await getAllBlogs(filters);
+/**
+ * GET /api/blogs/admin/all
+ * Get blogs in every status, optionally filtered by ?status= (admin only)
+ */
+const handleGetAdminBlogs = async (req, res) => {
+  try {
+    const { status } = req.query;
+    if (status && !BLOG_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid status. Use one of: ${BLOG_STATUSES.join(', ')}`,
+      });
+    }
 
-    res.json({
-      success: true,
-      data: result.blogs,
-      pagination: {
-        total: result.total,
-        limit: result.limit,
-        skip: result.skip,
-        hasMore: result.skip + result.blogs.length < result.total,
-      },
-    });
+    const result = await getAllBlogs({ ...parseListFilters(req.query), isPublished: null, status });
+    sendBlogList(res, result);
   } catch (error) {
-    logger.error('Error getting all blogs:', error.message);
+    logger.error('Error getting admin blogs:', error.message);
     res.status(500).json({
       success: false,
       message: 'Error fetching blogs',
@@ -53,14 +104,14 @@ const handleGetAllBlogs = async (req, res) => {
 
 /**
  * GET /api/blogs/:id
- * Get a single blog by ID
+ * Get a single published blog by ID
  */
 const handleGetBlogById = async (req, res) => {
   try {
     const { id } = req.params;
     const blog = await getBlogById(id);
 
-    if (!blog) {
+    if (!blog || !blog.isPublished) {
       return res.status(404).json({
         success: false,
         message: 'Blog not found',
@@ -81,6 +132,37 @@ const handleGetBlogById = async (req, res) => {
   }
 };
 
+/**
+ * GET /api/blogs/slug/:slug
+ * Get a single published blog by slug. Old slugs and ids resolve too; the response's
+ * slug is the current one, so clients can update their URL.
+ */
+const handleGetBlogBySlug = async (req, res) => {
+  try {
+    const { slug } = req.params;
+    const blog = await getBlogBySlug(slug);
+
+    if (!blog || !blog.isPublished) {
+      return res.status(404).json({
+        success: false,
+        message: 'Blog not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: blog,
+    });
+  } catch (error) {
+    logger.error('Error getting blog by slug:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching blog',
+      error: error.message,
+    });
+  }
+};
+
 /**
  * POST /api/blogs
  * Create a new blog (admin only)
@@ -169,9 +251,23 @@ const handleCreateBlog = async (req, res) => {
     const categories = parseAndClean(req.body.categories);
     const tags = parseAndClean(req.body.tags);
 
+    if (req.body.status !== undefined && !BLOG_STATUSES.includes(req.body.status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid status. Use one of: ${BLOG_STATUSES.join(', ')}`,
+      });
+    }
+    if (req.body.contentFormat !== undefined && !CONTENT_FORMATS.includes(req.body.contentFormat)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid content format. Use one of: ${CONTENT_FORMATS.join(', ')}`,
+      });
+    }
+
     const blogData = {
       title: req.body.title,
       content: req.body.content,
+      contentFormat: req.body.contentFormat,
       imageUrl,
       imagePublicId,
       categories,
@@ -179,16 +275,28 @@ const handleCreateBlog = async (req, res) => {
       exclusive: req.body.exclusive === true || req.body.exclusive === 'true',
       author: req.body.author || 'The Lal Street',
       isPublished: req.body.isPublished !== false && req.body.isPublished !== 'false',
+      status: req.body.status,
+      publishAt: req.body.publishAt,
     };
 
     const newBlog = await createBlog(blogData);
 
+    await recordAudit({
+      req,
+      action: 'create',
+      target: { type: 'blog', id: newBlog.id, label: newBlog.title },
+      after: newBlog,
+    });
+
     res.status(201).json({
       success: true,
       data: newBlog,
       message: 'Blog created successfully',
     });
   } catch (error) {
+    if (error.code === 'INVALID_WORKFLOW') {
+      return sendWorkflowError(res, error);
+    }
     logger.error('Error creating blog:', error.message);
     res.status(500).json({
       success: false,
@@ -206,14 +314,14 @@ const handleUpdateBlog = async (req, res) => {
   try {
     const { id } = req.params;
     const updates = { ...req.body };
+    const before = await getBlogById(id, { countView: false });
 
     // If new file is uploaded, upload to Cloudinary
     if (req.file) {
       try {
-        // Get existing blog to delete old image
-        const existingBlog = await getBlogById(id);
-        if (existingBlog && existingBlog.imagePublicId) {
-          await deleteImage(existingBlog.imagePublicId);
+        // Delete the old image
+        if (before && before.imagePublicId) {
+          await deleteImage(before.imagePublicId);
         }
 
         // Upload new image
@@ -274,14 +382,22 @@ const handleUpdateBlog = async (req, res) => {
     if (updates.exclusive !== undefined) {
       updates.exclusive = updates.exclusive === true || updates.exclusive === 'true';
     }
-    if (updates.isPublished !== undefined) {
-      updates.isPublished = updates.isPublished !== false && updates.isPublished !== 'false';
+
+    if (updates.contentFormat !== undefined && !CONTENT_FORMATS.includes(updates.contentFormat)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid content format. Use one of: ${CONTENT_FORMATS.join(', ')}`,
+      });
     }
 
     // Don't allow updating ID
     delete updates.id;
     delete updates._id;
 
+    // Slugs follow the title; status changes go through PUT /api/blogs/:id/status
+    delete updates.slug;
+    delete updates.previousSlugs;
+
     const updatedBlog = await updateBlog(id, updates);
 
     if (!updatedBlog) {
@@ -291,6 +407,14 @@ const handleUpdateBlog = async (req, res) => {
       });
     }
 
+    await recordAudit({
+      req,
+      action: 'update',
+      target: { type: 'blog', id, label: updatedBlog.title },
+      before,
+      after: updatedBlog,
+    });
+
     res.json({
       success: true,
       data: updatedBlog,
@@ -306,6 +430,134 @@ const handleUpdateBlog = async (req, res) => {
   }
 };
 
+/**
+ * PUT /api/blogs/:id/status
+ * Move a post along the workflow (admin only). Body: { status, publishAt? }
+ */
+const handleUpdateBlogStatus = async (req, res) => {
+  try {
+    const { status, publishAt } = req.body;
+
+    if (!BLOG_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid status. Use one of: ${BLOG_STATUSES.join(', ')}`,
+      });
+    }
+
+    if (publishAt !== undefined && publishAt !== null && Number.isNaN(new Date(publishAt).getTime())) {
+      return res.status(400).json({
+        success: false,
+        message: 'publishAt must be a valid date',
+      });
+    }
+
+    const before = await getBlogById(req.params.id, { countView: false });
+    const blog = await setBlogStatus(req.params.id, status, publishAt);
+
+    if (!blog) {
+      return res.status(404).json({
+        success: false,
+        message: 'Blog not found',
+      });
+    }
+
+    await recordAudit({
+      req,
+      action: 'status',
+      target: { type: 'blog', id: req.params.id, label: blog.title },
+      before,
+      after: blog,
+    });
+
+    res.json({
+      success: true,
+      data: blog,
+      message: `Blog moved to ${status.replace('_', ' ')}`,
+    });
+  } catch (error) {
+    if (error.code === 'INVALID_WORKFLOW') {
+      return sendWorkflowError(res, error);
+    }
+    logger.error('Error updating blog status:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating blog status',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * GET /api/blogs/:id/revisions
+ * Get earlier revisions of a post, newest first (admin only)
+ */
+const handleGetBlogRevisions = async (req, res) => {
+  try {
+    const revisions = await getBlogRevisions(req.params.id);
+
+    if (!revisions) {
+      return res.status(404).json({
+        success: false,
+        message: 'Blog not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: revisions,
+      count: revisions.length,
+    });
+  } catch (error) {
+    logger.error('Error getting blog revisions:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching blog revisions',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * POST /api/blogs/:id/revisions/:version/restore
+ * Restore an earlier revision as the newest version (admin only)
+ */
+const handleRestoreBlogRevision = async (req, res) => {
+  try {
+    const before = await getBlogById(req.params.id, { countView: false });
+    const blog = await restoreBlogRevision(req.params.id, Number(req.params.version));
+
+    if (!blog) {
+      return res.status(404).json({
+        success: false,
+        message: 'Blog or revision not found',
+      });
+    }
+
+    await recordAudit({
+      req,
+      action: 'restore',
+      target: { type: 'blog', id: req.params.id, label: blog.title },
+      before,
+      after: blog,
+      details: { restoredVersion: Number(req.params.version) },
+    });
+
+    res.json({
+      success: true,
+      data: blog,
+      message: `Restored version ${req.params.version}`,
+    });
+  } catch (error) {
+    logger.error('Error restoring blog revision:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'Error restoring blog revision',
+      error: error.message,
+    });
+  }
+};
+
 /**
  * DELETE /api/blogs/:id
  * Delete a blog (admin only)
@@ -314,8 +566,8 @@ const handleDeleteBlog = async (req, res) => {
   try {
     const { id } = req.params;
 
-    // Get blog to delete image from Cloudinary
-    const blog = await getBlogById(id);
+    // Get blog to delete image from Cloudinary, and for the audit log
+    const blog = await getBlogById(id, { countView: false });
     if (blog && blog.imagePublicId) {
       try {
         await deleteImage(blog.imagePublicId);
@@ -334,6 +586,13 @@ const handleDeleteBlog = async (req, res) => {
       });
     }
 
+    await recordAudit({
+      req,
+      action: 'delete',
+      target: { type: 'blog', id, label: blog?.title },
+      before: blog,
+    });
+
     res.json({
       success: true,
       message: 'Blog deleted successfully',
@@ -392,9 +651,14 @@ const handleGetAllTags = async (req, res) => {
 
 module.exports = {
   handleGetAllBlogs,
+  handleGetAdminBlogs,
   handleGetBlogById,
+  handleGetBlogBySlug,
   handleCreateBlog,
   handleUpdateBlog,
+  handleUpdateBlogStatus,
+  handleGetBlogRevisions,
+  handleRestoreBlogRevision,
   handleDeleteBlog,
   handleGetAllCategories,
   handleGetAllTags,
@@ -0,0 +1,46 @@
+// server/controllers/fundHoldings.controller.js
+const { getFundsWithHoldings, getHoldingsForSchemes } = require('../services/fundHoldings.service');
+const logger = require('../utils/logger');
+
+const MAX_SCHEMES = 20;
+
+/**
+ * List funds that have holdings data
+ */
+const handleGetFundsWithHoldings = async (req, res) => {
+    try {
+        res.json(getFundsWithHoldings());
+    } catch (error) {
+        logger.error('Error in handleGetFundsWithHoldings:', error.message);
+        res.status(500).json({ message: 'Error fetching fund holdings.' });
+    }
+};
+
+/**
+ * Get holdings for the schemes in ?schemeCodes=code1,code2
+ */
+const handleGetHoldings = async (req, res) => {
+    try {
+        const schemeCodes = String(req.query.schemeCodes || '')
+            .split(',')
+            .map(code => code.trim())
+            .filter(Boolean);
+
+        if (schemeCodes.length === 0) {
+            return res.status(400).json({ message: 'schemeCodes is required.' });
+        }
+        if (schemeCodes.length > MAX_SCHEMES) {
+            return res.status(400).json({ message: `At most ${MAX_SCHEMES} schemes can be requested at once.` });
+        }
+
+        res.json(getHoldingsForSchemes(schemeCodes));
+    } catch (error) {
+        logger.error('Error in handleGetHoldings:', error.message);
+        res.status(500).json({ message: 'Error fetching fund holdings.' });
+    }
+};
+
+module.exports = {
+    handleGetFundsWithHoldings,
+    handleGetHoldings
+};
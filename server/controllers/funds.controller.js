@@ -1,5 +1,5 @@
 // server/controllers/funds.controller.js
-const { searchFunds } = require('../services/fundList.service.js');
+const { searchFunds, getFundMetadata } = require('../services/fundList.service.js');
 const { getHistoricalNav } = require('../services/navApi.service.js');
 const logger = require('../utils/logger');
 
@@ -29,6 +29,45 @@ const handleFundSearch = async (req, res) => {
   }
 };
 
+/**
+ * Handles the request for fund metadata (name, launch date, category)
+ * for ?schemeCodes=code1,code2
+ */
+const handleFundMetadata = async (req, res) => {
+  try {
+    const schemeCodes = String(req.query.schemeCodes || '')
+      .split(',')
+      .map(code => code.trim())
+      .filter(Boolean);
+
+    if (schemeCodes.length === 0) {
+      return res.status(400).json({
+        message: 'schemeCodes is required.'
+      });
+    }
+
+    if (schemeCodes.length > 20) {
+      return res.status(400).json({
+        message: 'Cannot fetch more than 20 funds at once.'
+      });
+    }
+
+    const metadata = await Promise.all(
+      schemeCodes.map(async (schemeCode) => ({
+        schemeCode,
+        ...(await getFundMetadata(schemeCode))
+      }))
+    );
+
+    res.json(metadata);
+  } catch (error) {
+    logger.error('Error fetching fund metadata:', error.message);
+    res.status(500).json({
+      message: 'Error fetching fund metadata.'
+    });
+  }
+};
+
 /**
  * Handles the request for a "bucket" of NAV data.
  */
@@ -99,4 +138,5 @@ const handleNavBucket = async (req, res) => {
 module.exports = {
   handleFundSearch,
   handleNavBucket, // Export the new handler
+  handleFundMetadata,
 };
\ No newline at end of file
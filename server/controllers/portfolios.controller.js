@@ -0,0 +1,297 @@
+// server/controllers/portfolios.controller.js
+const {
+  getPortfoliosForUser,
+  getPortfolioForUser,
+  createPortfolio,
+  updatePortfolio,
+  savePortfolioResults,
+  getPortfolioVersions,
+  restorePortfolioVersion,
+  deletePortfolio,
+} = require('../services/portfolios.service');
+const logger = require('../utils/logger');
+
+/**
+ * Reply with 409 when an update was made against a stale version
+ */
+const sendVersionConflict = (res, error) => {
+  res.status(409).json({
+    success: false,
+    message: 'Portfolio was changed elsewhere. Reload it and try again.',
+    currentVersion: error.currentVersion,
+  });
+};
+
+/**
+ * GET /api/portfolios
+ * Get the current user's portfolios
+ */
+const handleGetPortfolios = async (req, res) => {
+  try {
+    const portfolios = await getPortfoliosForUser(req.user._id);
+
+    res.json({
+      success: true,
+      data: portfolios,
+      count: portfolios.length,
+    });
+  } catch (error) {
+    logger.error('Error getting portfolios:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching portfolios',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * GET /api/portfolios/:id
+ * Get one of the current user's portfolios
+ */
+const handleGetPortfolioById = async (req, res) => {
+  try {
+    const portfolio = await getPortfolioForUser(req.user._id, req.params.id);
+
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        message: 'Portfolio not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: portfolio,
+    });
+  } catch (error) {
+    logger.error('Error getting portfolio:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching portfolio',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * POST /api/portfolios
+ * Create a portfolio for the current user
+ */
+const handleCreatePortfolio = async (req, res) => {
+  try {
+    const { name, funds } = req.body;
+
+    if (!name || !Array.isArray(funds)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Missing required fields: name, funds (array)',
+      });
+    }
+
+    const portfolio = await createPortfolio(req.user._id, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: portfolio,
+      message: 'Portfolio created successfully',
+    });
+  } catch (error) {
+    logger.error('Error creating portfolio:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'Error creating portfolio',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * PUT /api/portfolios/:id
+ * Update name, funds or swpConfig. Pass `expectedVersion` to reject
+ * updates made against a stale copy.
+ */
+const handleUpdatePortfolio = async (req, res) => {
+  try {
+    const { expectedVersion, ...updates } = req.body;
+
+    if (updates.funds !== undefined && !Array.isArray(updates.funds)) {
+      return res.status(400).json({
+        success: false,
+        message: 'funds must be an array',
+      });
+    }
+
+    const portfolio = await updatePortfolio(
+      req.user._id,
+      req.params.id,
+      updates,
+      expectedVersion !== undefined ? Number(expectedVersion) : undefined
+    );
+
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        message: 'Portfolio not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: portfolio,
+      message: 'Portfolio updated successfully',
+    });
+  } catch (error) {
+    if (error.code === 'VERSION_CONFLICT') {
+      return sendVersionConflict(res, error);
+    }
+    logger.error('Error updating portfolio:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating portfolio',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * PUT /api/portfolios/:id/results
+ * Store the last calculation results for a portfolio
+ */
+const handleSaveResults = async (req, res) => {
+  try {
+    const { results } = req.body;
+
+    if (!results || typeof results !== 'object') {
+      return res.status(400).json({
+        success: false,
+        message: 'Missing required field: results (object)',
+      });
+    }
+
+    const portfolio = await savePortfolioResults(req.user._id, req.params.id, results);
+
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        message: 'Portfolio not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: portfolio,
+    });
+  } catch (error) {
+    logger.error('Error saving portfolio results:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'Error saving portfolio results',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * GET /api/portfolios/:id/versions
+ * List earlier versions of a portfolio, newest first
+ */
+const handleGetVersions = async (req, res) => {
+  try {
+    const versions = await getPortfolioVersions(req.user._id, req.params.id);
+
+    if (!versions) {
+      return res.status(404).json({
+        success: false,
+        message: 'Portfolio not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: versions,
+      count: versions.length,
+    });
+  } catch (error) {
+    logger.error('Error getting portfolio versions:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching portfolio versions',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * POST /api/portfolios/:id/versions/:version/restore
+ * Restore an earlier version as the newest version
+ */
+const handleRestoreVersion = async (req, res) => {
+  try {
+    const portfolio = await restorePortfolioVersion(
+      req.user._id,
+      req.params.id,
+      Number(req.params.version)
+    );
+
+    if (!portfolio) {
+      return res.status(404).json({
+        success: false,
+        message: 'Portfolio or version not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: portfolio,
+      message: `Restored version ${req.params.version}`,
+    });
+  } catch (error) {
+    logger.error('Error restoring portfolio version:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'Error restoring portfolio version',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * DELETE /api/portfolios/:id
+ * Delete one of the current user's portfolios
+ */
+const handleDeletePortfolio = async (req, res) => {
+  try {
+    const deleted = await deletePortfolio(req.user._id, req.params.id);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        message: 'Portfolio not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Portfolio deleted successfully',
+    });
+  } catch (error) {
+    logger.error('Error deleting portfolio:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting portfolio',
+      error: error.message,
+    });
+  }
+};
+
+module.exports = {
+  handleGetPortfolios,
+  handleGetPortfolioById,
+  handleCreatePortfolio,
+  handleUpdatePortfolio,
+  handleSaveResults,
+  handleGetVersions,
+  handleRestoreVersion,
+  handleDeletePortfolio,
+};
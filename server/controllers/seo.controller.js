@@ -0,0 +1,87 @@
+// server/controllers/seo.controller.js
+const { getBlogBySlug, getPublishedBlogs } = require('../services/blogs.service');
+const {
+  getAppShell,
+  renderBlogPage,
+  renderSitemap,
+  renderRssFeed,
+  renderRobots,
+} = require('../services/seo.service');
+const logger = require('../utils/logger');
+
+const FEED_SIZE = 50;
+
+/**
+ * GET /blogs/:slug
+ * Blog post rendered into the app shell with meta tags. Old slugs and ids
+ * redirect permanently to the current slug.
+ */
+const handleBlogPage = async (req, res) => {
+  try {
+    const { slug } = req.params;
+    // The app records the view when it loads the post
+    const blog = await getBlogBySlug(slug, { countView: false });
+    const shell = await getAppShell();
+
+    if (!blog || !blog.isPublished) {
+      // Let the app show its not-found state
+      if (shell) {
+        return res.status(404).type('html').send(shell);
+      }
+      return res.status(404).type('text').send('Blog not found');
+    }
+
+    if (blog.slug !== slug) {
+      return res.redirect(301, `/blogs/${encodeURIComponent(blog.slug)}`);
+    }
+
+    res.set('Cache-Control', 'public, max-age=300');
+    res.type('html').send(await renderBlogPage(blog, shell));
+  } catch (error) {
+    logger.error(`Error rendering blog page ${req.params.slug}:`, error.message);
+    res.status(500).type('text').send('Error rendering blog');
+  }
+};
+
+/**
+ * GET /sitemap.xml
+ */
+const handleSitemap = async (req, res) => {
+  try {
+    const blogs = await getPublishedBlogs();
+    res.set('Cache-Control', 'public, max-age=3600');
+    res.type('application/xml').send(renderSitemap(blogs));
+  } catch (error) {
+    logger.error('Error rendering sitemap:', error.message);
+    res.status(500).type('text').send('Error generating sitemap');
+  }
+};
+
+/**
+ * GET /rss.xml
+ */
+const handleRssFeed = async (req, res) => {
+  try {
+    const blogs = await getPublishedBlogs(FEED_SIZE);
+    res.set('Cache-Control', 'public, max-age=900');
+    res.type('application/rss+xml').send(await renderRssFeed(blogs));
+  } catch (error) {
+    logger.error('Error rendering RSS feed:', error.message);
+    res.status(500).type('text').send('Error generating feed');
+  }
+};
+
+/**
+ * GET /robots.txt
+ */
+const handleRobots = (req, res) => {
+  res.set('Cache-Control', 'public, max-age=86400');
+  res.type('text').send(renderRobots());
+};
+
+module.exports = {
+  handleBlogPage,
+  handleSitemap,
+  handleRssFeed,
+  handleRobots,
+};
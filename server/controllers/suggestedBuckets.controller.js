@@ -6,6 +6,7 @@ const {
   updateSuggestedBucket,
   deleteSuggestedBucket,
 } = require('../services/suggestedBuckets.service');
+const { recordAudit } = require('../services/audit.service');
 const logger = require('../utils/logger');
 
 /**
@@ -81,6 +82,13 @@ const handleCreateBucket = async (req, res) => {
     }
     
     const newBucket = await addSuggestedBucket(bucketData);
+
+    await recordAudit({
+      req,
+      action: 'create',
+      target: { type: 'suggested-bucket', id: newBucket.id, label: newBucket.name },
+      after: newBucket,
+    });
     
     res.status(201).json({
       success: true,
@@ -110,6 +118,7 @@ const handleUpdateBucket = async (req, res) => {
     delete updates.id;
     delete updates.createdAt;
     
+    const before = await getSuggestedBucketById(id);
     const updatedBucket = await updateSuggestedBucket(id, updates);
     
     if (!updatedBucket) {
@@ -118,6 +127,14 @@ const handleUpdateBucket = async (req, res) => {
         message: 'Suggested bucket not found',
       });
     }
+
+    await recordAudit({
+      req,
+      action: 'update',
+      target: { type: 'suggested-bucket', id, label: updatedBucket.name },
+      before,
+      after: updatedBucket,
+    });
     
     res.json({
       success: true,
@@ -141,6 +158,7 @@ const handleUpdateBucket = async (req, res) => {
 const handleDeleteBucket = async (req, res) => {
   try {
     const { id } = req.params;
+    const before = await getSuggestedBucketById(id);
     const deleted = await deleteSuggestedBucket(id);
     
     if (!deleted) {
@@ -149,6 +167,13 @@ const handleDeleteBucket = async (req, res) => {
         message: 'Suggested bucket not found',
       });
     }
+
+    await recordAudit({
+      req,
+      action: 'delete',
+      target: { type: 'suggested-bucket', id, label: before?.name },
+      before,
+    });
     
     res.json({
       success: true,
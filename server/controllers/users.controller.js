@@ -0,0 +1,85 @@
+// server/controllers/users.controller.js
+const { getStaff, setUserRole } = require('../services/users.service');
+const { recordAudit } = require('../services/audit.service');
+const logger = require('../utils/logger');
+
+/**
+ * GET /api/users/staff
+ * Get everyone with access to the admin panel
+ */
+const handleGetStaff = async (req, res) => {
+  try {
+    const staff = await getStaff();
+
+    res.json({
+      success: true,
+      data: staff,
+      count: staff.length,
+    });
+  } catch (error) {
+    logger.error('Error getting staff:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching staff',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * PUT /api/users/role
+ * Give a user a role, by their login email
+ */
+const handleSetUserRole = async (req, res) => {
+  try {
+    const { email, role } = req.body;
+
+    if (!email || !role) {
+      return res.status(400).json({
+        success: false,
+        message: 'Email and role are required',
+      });
+    }
+
+    const result = await setUserRole(email, role, req.user);
+
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        message: 'No user with that email. They need to sign up before they can be given a role.',
+      });
+    }
+
+    await recordAudit({
+      req,
+      action: 'role',
+      target: { type: 'user', id: result.member.id, label: result.member.email },
+      before: { role: result.previousRole },
+      after: { role: result.member.role },
+    });
+
+    res.json({
+      success: true,
+      data: result.member,
+      message: 'Role updated successfully',
+    });
+  } catch (error) {
+    if (error.code === 'INVALID_ROLE_CHANGE') {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+      });
+    }
+    logger.error('Error setting user role:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating role',
+      error: error.message,
+    });
+  }
+};
+
+module.exports = {
+  handleGetStaff,
+  handleSetUserRole,
+};
@@ -0,0 +1,225 @@
+// server/controllers/watchlists.controller.js
+const {
+  getWatchlistsForUser,
+  createWatchlist,
+  updateWatchlist,
+  deleteWatchlist,
+  getFeedForUser,
+  getUnreadCount,
+  markAlertsRead,
+} = require('../services/watchlists.service');
+const logger = require('../utils/logger');
+
+/**
+ * Reply with 400 for a watchlist that can't be saved as given
+ */
+const sendInvalidWatchlist = (res, error) => {
+  res.status(400).json({
+    success: false,
+    message: error.message,
+  });
+};
+
+/**
+ * GET /api/watchlists
+ * Get the current user's watchlists
+ */
+const handleGetWatchlists = async (req, res) => {
+  try {
+    const watchlists = await getWatchlistsForUser(req.user._id);
+
+    res.json({
+      success: true,
+      data: watchlists,
+      count: watchlists.length,
+    });
+  } catch (error) {
+    logger.error('Error getting watchlists:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching watchlists',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * POST /api/watchlists
+ * Create a watchlist of keywords and schemes for the current user
+ */
+const handleCreateWatchlist = async (req, res) => {
+  try {
+    const watchlist = await createWatchlist(req.user._id, req.body);
+
+    res.status(201).json({
+      success: true,
+      data: watchlist,
+      message: 'Watchlist created successfully',
+    });
+  } catch (error) {
+    if (error.code === 'INVALID_WATCHLIST') {
+      return sendInvalidWatchlist(res, error);
+    }
+    logger.error('Error creating watchlist:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'Error creating watchlist',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * PUT /api/watchlists/:id
+ * Update a watchlist's name, keywords or schemes
+ */
+const handleUpdateWatchlist = async (req, res) => {
+  try {
+    const watchlist = await updateWatchlist(req.user._id, req.params.id, req.body);
+
+    if (!watchlist) {
+      return res.status(404).json({
+        success: false,
+        message: 'Watchlist not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      data: watchlist,
+      message: 'Watchlist updated successfully',
+    });
+  } catch (error) {
+    if (error.code === 'INVALID_WATCHLIST') {
+      return sendInvalidWatchlist(res, error);
+    }
+    logger.error('Error updating watchlist:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'Error updating watchlist',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * DELETE /api/watchlists/:id
+ * Delete a watchlist and take its matches out of the feed
+ */
+const handleDeleteWatchlist = async (req, res) => {
+  try {
+    const deleted = await deleteWatchlist(req.user._id, req.params.id);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        message: 'Watchlist not found',
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Watchlist deleted successfully',
+    });
+  } catch (error) {
+    logger.error('Error deleting watchlist:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'Error deleting watchlist',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * GET /api/watchlists/feed
+ * Articles matching the current user's watchlists, newest first.
+ * Query: page, limit, watchlistId
+ */
+const handleGetFeed = async (req, res) => {
+  try {
+    const { page = 1, limit = 30, watchlistId } = req.query;
+
+    const result = await getFeedForUser(req.user._id, {
+      page: Math.max(parseInt(page, 10) || 1, 1),
+      limit: Math.min(parseInt(limit, 10) || 30, 100), // Max 100 items
+      watchlistId,
+    });
+
+    res.json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    logger.error('Error getting news feed:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching news feed',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * GET /api/watchlists/feed/unread-count
+ * How many matched articles the current user hasn't seen
+ */
+const handleGetUnreadCount = async (req, res) => {
+  try {
+    const count = await getUnreadCount(req.user._id);
+
+    res.json({
+      success: true,
+      data: { count },
+    });
+  } catch (error) {
+    logger.error('Error counting unread news:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'Error counting unread news',
+      error: error.message,
+    });
+  }
+};
+
+/**
+ * POST /api/watchlists/feed/read
+ * Mark matched articles as seen. Body `{ articleIds }`; all of them when omitted.
+ */
+const handleMarkRead = async (req, res) => {
+  try {
+    const { articleIds } = req.body || {};
+
+    if (articleIds !== undefined && !Array.isArray(articleIds)) {
+      return res.status(400).json({
+        success: false,
+        message: 'articleIds must be an array',
+      });
+    }
+
+    const marked = await markAlertsRead(req.user._id, articleIds);
+    const unreadCount = await getUnreadCount(req.user._id);
+
+    res.json({
+      success: true,
+      data: { marked, unreadCount },
+    });
+  } catch (error) {
+    logger.error('Error marking news as read:', error.message);
+    res.status(500).json({
+      success: false,
+      message: 'Error marking news as read',
+      error: error.message,
+    });
+  }
+};
+
+module.exports = {
+  handleGetWatchlists,
+  handleCreateWatchlist,
+  handleUpdateWatchlist,
+  handleDeleteWatchlist,
+  handleGetFeed,
+  handleGetUnreadCount,
+  handleMarkRead,
+};
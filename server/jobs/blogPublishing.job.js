@@ -0,0 +1,38 @@
+// server/jobs/blogPublishing.job.js
+/**
+ * Blog Publishing Job
+ *
+ * Runs every minute and publishes scheduled blog posts whose publishAt
+ * time has passed.
+ */
+
+const { publishScheduledBlogs } = require('../services/blogs.service');
+const logger = require('../utils/logger');
+
+/**
+ * Run the scheduled publishing job
+ */
+async function runScheduledPublishing() {
+    try {
+        const published = await publishScheduledBlogs();
+        if (published > 0) {
+            logger.info(`[Blog Publishing] Published ${published} scheduled post(s)`);
+        }
+
+        return {
+            success: true,
+            published
+        };
+    } catch (error) {
+        logger.error('[Blog Publishing] Job failed:', error);
+
+        return {
+            success: false,
+            error: error.message
+        };
+    }
+}
+
+module.exports = {
+    runScheduledPublishing
+};
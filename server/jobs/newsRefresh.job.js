@@ -16,6 +16,8 @@
  */
 
 const newsService = require('../services/news.service');
+const { tagNewArticles } = require('../services/watchlists.service');
+const { recordAudit, SYSTEM_ACTORS } = require('../services/audit.service');
 const logger = require('../utils/logger');
 
 /**
@@ -27,15 +29,24 @@ async function runNewsRefresh() {
 
     try {
         const result = await newsService.fetchAllNews();
+        // Tag the articles this run added for the watchlists that mention them
+        const watchlistMatches = await tagNewArticles(new Date(startTime));
 
         const duration = Date.now() - startTime;
         logger.info(`[News Refresh] Completed in ${duration}ms`);
-        logger.info(`[News Refresh] Fetched: ${result.totalFetched}, Saved: ${result.totalSaved}, Errors: ${result.errors}`);
+        logger.info(`[News Refresh] Fetched: ${result.totalFetched}, Saved: ${result.totalSaved}, Errors: ${result.errors}, Watchlist matches: ${watchlistMatches}`);
+        await recordAudit({
+            actor: SYSTEM_ACTORS.scheduler,
+            action: 'refresh',
+            target: { type: 'news', label: 'News feed' },
+            details: { fetched: result.totalFetched, saved: result.totalSaved, errors: result.errors, watchlistMatches }
+        });
 
         return {
             success: true,
             duration,
-            ...result
+            ...result,
+            watchlistMatches
         };
     } catch (error) {
         const duration = Date.now() - startTime;
@@ -58,6 +69,12 @@ async function runNewsCleanup() {
     try {
         const deleted = await newsService.cleanupOldNews();
         logger.info(`[News Cleanup] Deleted ${deleted} old articles`);
+        await recordAudit({
+            actor: SYSTEM_ACTORS.scheduler,
+            action: 'cleanup',
+            target: { type: 'news', label: 'News feed' },
+            details: { deleted }
+        });
         return { success: true, deleted };
     } catch (error) {
         logger.error('[News Cleanup] Cleanup failed:', error);
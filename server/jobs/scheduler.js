@@ -13,6 +13,7 @@
  *   - Bucket recalculation : daily at 2:00 AM IST
  *   - News refresh         : every 2 hours
  *   - News cleanup         : daily at 3:00 AM IST
+ *   - Blog publishing      : every minute
  *   - Self-ping keep-alive : every 10 minutes
  */
 
@@ -23,6 +24,7 @@ const logger = require('../utils/logger');
 
 const { runDailyRecalculation } = require('./dailyRecalculation.job');
 const { runNewsRefresh, runNewsCleanup } = require('./newsRefresh.job');
+const { runScheduledPublishing } = require('./blogPublishing.job');
 
 // --------------------------------------------------------------------------
 // Self-ping keep-alive — prevents Render free-tier cold starts
@@ -122,7 +124,19 @@ function initScheduler() {
 
     logger.info('[Scheduler] ✅ News cleanup scheduled — daily at 3:00 AM IST');
 
-    // ── 4. Keep-alive self-ping — every 30 seconds ────────────────────────────
+    // ── 4. Scheduled blog posts — every minute ───────────────────────────────
+    // Quiet unless something is due, so it doesn't log every run
+    cron.schedule('* * * * *', async () => {
+        try {
+            await runScheduledPublishing();
+        } catch (err) {
+            logger.error('[Scheduler] Blog publishing job threw an unhandled error:', err);
+        }
+    }, { scheduled: true, timezone: TZ });
+
+    logger.info('[Scheduler] ✅ Blog publishing scheduled — every minute');
+
+    // ── 5. Keep-alive self-ping — every 30 seconds ────────────────────────────
     // Render free tier sleeps after ~50 seconds of inactivity.
     // node-cron minimum resolution is 1 minute, so we use setInterval instead.
     // 30 seconds gives a comfortable buffer before the 50-second sleep threshold.
@@ -133,7 +147,7 @@ function initScheduler() {
 
     logger.info('[Scheduler] ✅ Keep-alive self-ping scheduled — every 30 seconds (Render stays warm)');
 
-    // ── 5. Initial runs on startup (staggered to avoid DB flood) ─────────────
+    // ── 6. Initial runs on startup (staggered to avoid DB flood) ─────────────
     // Run news refresh 10 seconds after startup so the DB is fully ready
     setTimeout(async () => {
         logger.info('[Scheduler] 🚀 Running initial news fetch on startup...');
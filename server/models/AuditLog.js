@@ -0,0 +1,76 @@
+// server/models/AuditLog.js
+const mongoose = require('mongoose');
+
+// What was changed
+const AUDIT_TARGET_TYPES = ['blog', 'suggested-bucket', 'user', 'news'];
+
+// What was done to it
+const AUDIT_ACTIONS = ['create', 'update', 'delete', 'status', 'restore', 'publish', 'role', 'refresh', 'cleanup'];
+
+const changeSchema = new mongoose.Schema({
+  field: { type: String, required: true },
+  before: { type: mongoose.Schema.Types.Mixed, default: null },
+  after: { type: mongoose.Schema.Types.Mixed, default: null }
+}, { _id: false });
+
+const auditLogSchema = new mongoose.Schema({
+  actor: {
+    // 'user' for people in the admin panel; 'system' for cron callers and scheduled jobs
+    kind: { type: String, enum: ['user', 'system'], required: true },
+    userId: { type: mongoose.Schema.Types.ObjectId, ref: 'User', default: null },
+    email: { type: String, default: null },
+    name: { type: String, required: true },
+    role: { type: String, default: null }
+  },
+  action: {
+    type: String,
+    required: true,
+    enum: AUDIT_ACTIONS
+  },
+  target: {
+    type: { type: String, required: true, enum: AUDIT_TARGET_TYPES },
+    id: { type: String, default: null },
+    label: { type: String, default: null } // title or name when the change was made
+  },
+  changes: {
+    type: [changeSchema],
+    default: []
+  },
+  details: {
+    type: mongoose.Schema.Types.Mixed, // e.g. counts from a news refresh
+    default: null
+  },
+  ip: {
+    type: String,
+    default: null
+  }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+auditLogSchema.index({ createdAt: -1 });
+auditLogSchema.index({ 'target.type': 1, 'target.id': 1, createdAt: -1 });
+auditLogSchema.index({ 'actor.email': 1, createdAt: -1 });
+
+// Append-only: entries are written once and never changed or removed
+const rejectChange = function(next) {
+  next(new Error('Audit log entries cannot be changed or deleted'));
+};
+
+auditLogSchema.pre('save', function(next) {
+  if (!this.isNew) {
+    return rejectChange(next);
+  }
+  next();
+});
+
+['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace',
+  'deleteOne', 'deleteMany', 'findOneAndDelete'].forEach((operation) => {
+  auditLogSchema.pre(operation, rejectChange);
+});
+
+const AuditLog = mongoose.model('AuditLog', auditLogSchema);
+
+module.exports = AuditLog;
+module.exports.AUDIT_ACTIONS = AUDIT_ACTIONS;
+module.exports.AUDIT_TARGET_TYPES = AUDIT_TARGET_TYPES;
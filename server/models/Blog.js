@@ -1,5 +1,38 @@
 // server/models/Blog.js
 const mongoose = require('mongoose');
+const { slugify } = require('../utils/slug');
+
+// Older revisions are dropped once a post has this many
+const MAX_REVISIONS = 30;
+
+// Workflow: draft -> in review -> scheduled -> published
+const BLOG_STATUSES = ['draft', 'in_review', 'scheduled', 'published'];
+
+// Statuses a post can move to from each status
+const STATUS_TRANSITIONS = {
+  draft: ['in_review'],
+  in_review: ['draft', 'scheduled', 'published'],
+  scheduled: ['draft', 'in_review', 'scheduled', 'published'], // scheduled again = reschedule
+  published: ['draft'],
+};
+
+// Posts written before Markdown support are HTML
+const CONTENT_FORMATS = ['markdown', 'html'];
+
+// Snapshot of a post's content before an edit
+const revisionSchema = new mongoose.Schema({
+  version: { type: Number, required: true },
+  title: { type: String, required: true },
+  content: { type: String, required: true },
+  contentFormat: { type: String, enum: CONTENT_FORMATS, default: 'html' },
+  imageUrl: { type: String },
+  imagePublicId: { type: String },
+  categories: { type: [String], default: [] },
+  tags: { type: [String], default: [] },
+  exclusive: { type: Boolean, default: false },
+  author: { type: String },
+  savedAt: { type: Date, required: true },
+}, { _id: false });
 
 const blogSchema = new mongoose.Schema({
   title: {
@@ -8,10 +41,28 @@ const blogSchema = new mongoose.Schema({
     trim: true,
     maxlength: [200, 'Title cannot exceed 200 characters'],
   },
+  slug: {
+    type: String,
+    unique: true,
+    sparse: true, // posts created before slugs existed get one when first read or listed (blogs.service assignSlug)
+    trim: true,
+    lowercase: true,
+  },
+  previousSlugs: [{
+    // Slugs from earlier titles; old links redirect to the current slug
+    type: String,
+    trim: true,
+    lowercase: true,
+  }],
   content: {
     type: String,
     required: [true, 'Blog content is required'],
   },
+  contentFormat: {
+    type: String,
+    enum: CONTENT_FORMATS,
+    default: 'html',
+  },
   imageUrl: {
     type: String,
     required: [true, 'Blog image is required'],
@@ -43,10 +94,36 @@ const blogSchema = new mongoose.Schema({
     type: Number,
     default: 0,
   },
+  // Kept in step with status (true only when published) for public queries
   isPublished: {
     type: Boolean,
     default: true,
   },
+  // Posts saved before the workflow existed have no status; see statusOf in the blogs service
+  status: {
+    type: String,
+    enum: BLOG_STATUSES,
+  },
+  // When a scheduled post goes live
+  publishAt: {
+    type: Date,
+    default: null,
+  },
+  // When the post first went live
+  publishedAt: {
+    type: Date,
+    default: null,
+  },
+  // Incremented on every change to the content fields
+  version: {
+    type: Number,
+    default: 1,
+  },
+  // Snapshots of earlier versions, oldest first
+  revisions: {
+    type: [revisionSchema],
+    default: [],
+  },
 }, {
   timestamps: true, // Adds createdAt and updatedAt
 });
@@ -58,6 +135,31 @@ blogSchema.index({ tags: 1 }); // For filtering by tags
 blogSchema.index({ exclusive: 1 }); // For filtering exclusive blogs
 blogSchema.index({ isPublished: 1 }); // For filtering published blogs
 blogSchema.index({ title: 'text', content: 'text' }); // For text search
+blogSchema.index({ previousSlugs: 1 }); // For redirecting old slugs
+blogSchema.index({ status: 1, publishAt: 1 }); // For publishing scheduled posts
+
+/**
+ * Slug for a title that no other post uses, currently or as a previous slug.
+ * Clashes get a numeric suffix: "my-post", "my-post-2", ...
+ * @param {string} title - Blog title
+ * @param {ObjectId} [excludeId] - Post being (re)slugged, so it doesn't clash with itself
+ */
+blogSchema.statics.generateUniqueSlug = async function(title, excludeId) {
+  const base = slugify(title) || 'post';
+  for (let suffix = 1; ; suffix++) {
+    const candidate = suffix === 1 ? base : `${base}-${suffix}`;
+    const query = { $or: [{ slug: candidate }, { previousSlugs: candidate }] };
+    if (excludeId) query._id = { $ne: excludeId };
+    if (!(await this.exists(query))) return candidate;
+  }
+};
+
+// Give new posts a slug from their title
+blogSchema.pre('validate', async function() {
+  if (!this.slug && this.title) {
+    this.slug = await this.constructor.generateUniqueSlug(this.title, this._id);
+  }
+});
 
 // Virtual for formatted date
 blogSchema.virtual('formattedDate').get(function() {
@@ -75,6 +177,10 @@ blogSchema.set('toObject', { virtuals: true });
 const Blog = mongoose.model('Blog', blogSchema);
 
 module.exports = Blog;
+module.exports.MAX_REVISIONS = MAX_REVISIONS;
+module.exports.BLOG_STATUSES = BLOG_STATUSES;
+module.exports.CONTENT_FORMATS = CONTENT_FORMATS;
+module.exports.STATUS_TRANSITIONS = STATUS_TRANSITIONS;
 
 
 
@@ -44,6 +44,26 @@ const newsSchema = new mongoose.Schema({
     isActive: {
         type: Boolean,
         default: true
+    },
+    // The story this article covers, shared with near-duplicates from other sources.
+    // Set by the refresh that fetched it (news.service clusterArticles)
+    cluster: {
+        type: mongoose.Schema.Types.ObjectId,
+        ref: 'NewsCluster',
+        default: null,
+        index: true
+    },
+    // Stocks (by NSE symbol) and fund houses the article mentions, recognised
+    // when it's fetched (news.service fetchFeed)
+    symbols: {
+        type: [String],
+        default: [],
+        index: true
+    },
+    amcs: {
+        type: [String],
+        default: [],
+        index: true
     }
 }, {
     timestamps: true
@@ -53,20 +73,14 @@ const newsSchema = new mongoose.Schema({
 newsSchema.index({ publishedAt: -1, source: 1 });
 newsSchema.index({ category: 1, publishedAt: -1 });
 
-// Static method to get recent news
-newsSchema.statics.getRecentNews = async function (options = {}) {
-    const {
-        limit = 50,
-        page = 1,
-        source,
-        category,
-        search
-    } = options;
-
+// Static method to build the query behind the news filters
+newsSchema.statics.buildNewsQuery = function ({ source, category, search, symbol, amc } = {}) {
     const query = { isActive: true };
 
     if (source) query.source = source;
     if (category) query.category = category;
+    if (symbol) query.symbols = symbol.toUpperCase();
+    if (amc) query.amcs = amc;
     if (search) {
         query.$or = [
             { title: { $regex: search, $options: 'i' } },
@@ -74,6 +88,18 @@ newsSchema.statics.getRecentNews = async function (options = {}) {
         ];
     }
 
+    return query;
+};
+
+// Static method to get recent news
+newsSchema.statics.getRecentNews = async function (options = {}) {
+    const {
+        limit = 50,
+        page = 1
+    } = options;
+
+    const query = this.buildNewsQuery(options);
+
     const skip = (page - 1) * limit;
 
     const [news, total] = await Promise.all([
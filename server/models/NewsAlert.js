@@ -0,0 +1,58 @@
+// server/models/NewsAlert.js
+const mongoose = require('mongoose');
+
+const matchSchema = new mongoose.Schema({
+  watchlist: { type: mongoose.Schema.Types.ObjectId, ref: 'Watchlist', required: true },
+  name: { type: String, required: true },
+  // The keywords and fund names found in the article
+  terms: { type: [String], default: [] }
+}, { _id: false });
+
+/**
+ * A news article that matched one or more of a user's watchlists.
+ * Written when news is refreshed, and when a watchlist is saved.
+ */
+const newsAlertSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  article: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'News',
+    required: true
+  },
+  matches: {
+    type: [matchSchema],
+    default: []
+  },
+  // Copied from the article, to sort the feed and clean up with old news
+  publishedAt: {
+    type: Date,
+    required: true
+  },
+  readAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+newsAlertSchema.index({ user: 1, article: 1 }, { unique: true });
+newsAlertSchema.index({ user: 1, publishedAt: -1 });
+newsAlertSchema.index({ user: 1, readAt: 1 });
+
+// Clean up alerts for old news (older than 7 days), as News.cleanupOldNews does
+newsAlertSchema.statics.cleanupOldAlerts = async function () {
+  const sevenDaysAgo = new Date();
+  sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
+
+  const result = await this.deleteMany({ publishedAt: { $lt: sevenDaysAgo } });
+  return result.deletedCount;
+};
+
+const NewsAlert = mongoose.models.NewsAlert || mongoose.model('NewsAlert', newsAlertSchema);
+
+module.exports = NewsAlert;
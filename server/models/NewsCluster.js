@@ -0,0 +1,53 @@
+// server/models/NewsCluster.js
+const mongoose = require('mongoose');
+
+/**
+ * One story, as covered by one or more articles. Articles point to their
+ * cluster (News.cluster); the summary here is rebuilt whenever an article joins.
+ */
+const newsClusterSchema = new mongoose.Schema({
+  // Title of the article most like the others in the cluster
+  canonicalTitle: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  canonicalArticle: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'News',
+    required: true
+  },
+  // Sources covering the story, first to publish first
+  sources: {
+    type: [String],
+    default: []
+  },
+  articleCount: {
+    type: Number,
+    default: 1
+  },
+  firstPublishedAt: {
+    type: Date,
+    required: true
+  },
+  latestPublishedAt: {
+    type: Date,
+    required: true,
+    index: true
+  }
+}, {
+  timestamps: true
+});
+
+// Clean up clusters whose newest article is older than 7 days, as News.cleanupOldNews does
+newsClusterSchema.statics.cleanupOldClusters = async function () {
+  const sevenDaysAgo = new Date();
+  sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
+
+  const result = await this.deleteMany({ latestPublishedAt: { $lt: sevenDaysAgo } });
+  return result.deletedCount;
+};
+
+const NewsCluster = mongoose.models.NewsCluster || mongoose.model('NewsCluster', newsClusterSchema);
+
+module.exports = NewsCluster;
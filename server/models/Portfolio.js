@@ -0,0 +1,80 @@
+// server/models/Portfolio.js
+const mongoose = require('mongoose');
+
+// Older snapshots are dropped once a portfolio has this many
+const MAX_VERSIONS = 20;
+
+const fundSchema = new mongoose.Schema({
+  id: { type: String, required: true },
+  name: { type: String, required: true },
+  launchDate: { type: String, required: true },
+  category: { type: String, required: true },
+  weightage: { type: Number, required: true, min: 0, max: 100 },
+  exitLoad: { type: mongoose.Schema.Types.Mixed, default: undefined }
+}, { _id: false });
+
+const swpConfigSchema = new mongoose.Schema({
+  mode: { type: String, enum: ['PAYOUT', 'INVESTMENT'], required: true },
+  payoutAmount: { type: Number, default: undefined },
+  investmentAmount: { type: Number, default: undefined },
+  frequency: { type: String, enum: ['Monthly', 'Quarterly'], required: true },
+  duration: { type: Number, default: undefined }
+}, { _id: false });
+
+const versionSchema = new mongoose.Schema({
+  version: { type: Number, required: true },
+  name: { type: String, required: true },
+  funds: { type: [fundSchema], default: [] },
+  swpConfig: { type: swpConfigSchema, default: null },
+  savedAt: { type: Date, required: true }
+}, { _id: false });
+
+const portfolioSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [100, 'Portfolio name cannot exceed 100 characters']
+  },
+  funds: {
+    type: [fundSchema],
+    default: []
+  },
+  swpConfig: {
+    type: swpConfigSchema,
+    default: null
+  },
+  // Incremented on every change to name, funds or swpConfig
+  version: {
+    type: Number,
+    default: 1
+  },
+  // Snapshots of earlier versions, oldest first
+  versions: {
+    type: [versionSchema],
+    default: []
+  },
+  // Summary of the last calculation run against this portfolio
+  lastResults: {
+    type: mongoose.Schema.Types.Mixed,
+    default: null
+  },
+  lastCalculatedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true // Adds createdAt and updatedAt automatically
+});
+
+portfolioSchema.index({ user: 1, updatedAt: -1 });
+
+const Portfolio = mongoose.models.Portfolio || mongoose.model('Portfolio', portfolioSchema);
+
+module.exports = Portfolio;
+module.exports.MAX_VERSIONS = MAX_VERSIONS;
@@ -29,6 +29,37 @@ const fundPerformanceSchema = new mongoose.Schema({
   positivePercentage: { type: Number, required: true }
 }, { _id: false });
 
+const drawdownSchema = new mongoose.Schema({
+  maxDrawdown: { type: Number, required: true },
+  peakDate: { type: String, required: true },
+  troughDate: { type: String, required: true },
+  recoveryDate: { type: String, default: null },
+  recoveryDays: { type: Number, default: null },
+  durationDays: { type: Number, required: true }
+}, { _id: false });
+
+const riskMetricsFields = {
+  frequency: { type: String, enum: ['daily', 'monthly'], default: 'monthly' },
+  riskFreeRate: { type: Number, required: true },
+  periods: { type: Number, default: 0 },
+  cagr: { type: Number, default: null },
+  volatility: { type: Number, default: null },
+  sharpe: { type: Number, default: null },
+  sortino: { type: Number, default: null },
+  beta: { type: Number, default: null },
+  maxDrawdown: { type: drawdownSchema, default: null },
+  calmar: { type: Number, default: null },
+  ulcerIndex: { type: Number, default: null }
+};
+
+const riskMetricsSchema = new mongoose.Schema(riskMetricsFields, { _id: false });
+
+const fundRiskMetricsSchema = new mongoose.Schema({
+  fundId: { type: String, required: true },
+  fundName: { type: String, required: true },
+  ...riskMetricsFields
+}, { _id: false });
+
 const performanceSchema = new mongoose.Schema({
   rollingReturns: {
     bucket: { type: rollingReturnsSchema, required: true },
@@ -41,7 +72,15 @@ const performanceSchema = new mongoose.Schema({
   },
   analysisStartDate: { type: String, required: true },
   analysisEndDate: { type: String, required: true },
-  totalPeriods: { type: Number, required: true }
+  totalPeriods: { type: Number, required: true },
+  riskMetrics: {
+    type: new mongoose.Schema({
+      bucket: { type: riskMetricsSchema, required: true },
+      funds: { type: [fundRiskMetricsSchema], default: [] },
+      benchmarkSlug: { type: String, default: null }
+    }, { _id: false }),
+    default: undefined
+  }
 }, { _id: false });
 
 const suggestedBucketSchema = new mongoose.Schema({
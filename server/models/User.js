@@ -2,6 +2,18 @@
 const mongoose = require('mongoose');
 const bcrypt = require('bcrypt');
 
+// Staff roles open parts of the admin panel; everyone else is a 'user'
+const USER_ROLES = ['user', 'analyst', 'editor', 'admin'];
+
+// What each role may manage. Admins also manage who has which role and
+// read the audit log.
+const ROLE_PERMISSIONS = {
+  user: [],
+  analyst: ['suggested-buckets'],
+  editor: ['blogs'],
+  admin: ['blogs', 'suggested-buckets', 'users', 'audit-log'],
+};
+
 const userSchema = new mongoose.Schema({
   email: {
     type: String,
@@ -41,6 +53,11 @@ const userSchema = new mongoose.Schema({
     enum: ['google', 'email'],
     default: 'email'
   },
+  role: {
+    type: String,
+    enum: USER_ROLES,
+    default: 'user'
+  },
   isActive: {
     type: Boolean,
     default: true
@@ -87,6 +104,15 @@ userSchema.methods.comparePassword = async function(candidatePassword) {
   return await bcrypt.compare(candidatePassword, this.password);
 };
 
+// Permissions granted by the user's role
+userSchema.methods.getPermissions = function() {
+  return ROLE_PERMISSIONS[this.role] || [];
+};
+
+userSchema.methods.hasPermission = function(permission) {
+  return this.getPermissions().includes(permission);
+};
+
 // Static method to find or create user from Google profile
 userSchema.statics.findOrCreateGoogleUser = async function(profile) {
   try {
@@ -132,4 +158,6 @@ userSchema.statics.findOrCreateGoogleUser = async function(profile) {
 const User = mongoose.model('User', userSchema);
 
 module.exports = User;
+module.exports.USER_ROLES = USER_ROLES;
+module.exports.ROLE_PERMISSIONS = ROLE_PERMISSIONS;
 
@@ -0,0 +1,49 @@
+// server/models/Watchlist.js
+const mongoose = require('mongoose');
+
+// Every watchlist is checked against every new article, so keep them small
+const MAX_WATCHLISTS = 10;
+const MAX_KEYWORDS = 20;
+const MAX_SCHEMES = 20;
+
+const schemeSchema = new mongoose.Schema({
+  schemeCode: { type: String, required: true },
+  schemeName: { type: String, required: true, trim: true }
+}, { _id: false });
+
+const watchlistSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: [60, 'Watchlist name cannot exceed 60 characters']
+  },
+  // Words or phrases looked for in article titles and descriptions, e.g. "SEBI"
+  keywords: {
+    type: [{ type: String, trim: true, maxlength: [60, 'Keywords cannot exceed 60 characters'] }],
+    default: [],
+    validate: [(keywords) => keywords.length <= MAX_KEYWORDS, `A watchlist can have at most ${MAX_KEYWORDS} keywords`]
+  },
+  // Funds matched by their fund house and scheme name
+  schemes: {
+    type: [schemeSchema],
+    default: [],
+    validate: [(schemes) => schemes.length <= MAX_SCHEMES, `A watchlist can have at most ${MAX_SCHEMES} schemes`]
+  }
+}, {
+  timestamps: true // Adds createdAt and updatedAt automatically
+});
+
+watchlistSchema.index({ user: 1, createdAt: 1 });
+
+const Watchlist = mongoose.models.Watchlist || mongoose.model('Watchlist', watchlistSchema);
+
+module.exports = Watchlist;
+module.exports.MAX_WATCHLISTS = MAX_WATCHLISTS;
+module.exports.MAX_KEYWORDS = MAX_KEYWORDS;
+module.exports.MAX_SCHEMES = MAX_SCHEMES;
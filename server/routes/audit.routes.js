@@ -0,0 +1,13 @@
+// server/routes/audit.routes.js
+const express = require('express');
+const router = express.Router();
+const { handleGetAuditLogs, handleExportAuditLogs } = require('../controllers/audit.controller');
+const { requirePermission } = require('../middleware/auth');
+
+// Read-only: entries are written by the routes that make the changes
+router.use(requirePermission('audit-log'));
+
+router.get('/', handleGetAuditLogs);
+router.get('/export', handleExportAuditLogs);
+
+module.exports = router;
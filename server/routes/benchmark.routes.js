@@ -0,0 +1,12 @@
+// server/routes/benchmark.routes.js
+const express = require('express');
+const router = express.Router();
+const { handleGetBenchmarks, handleGetBenchmarkHistory } = require('../controllers/benchmark.controller');
+
+// GET /api/benchmarks - Get all benchmark indices with coverage
+router.get('/', handleGetBenchmarks);
+
+// GET /api/benchmarks/:slug/history?from=YYYY-MM-DD&to=YYYY-MM-DD - Get index levels
+router.get('/:slug/history', handleGetBenchmarkHistory);
+
+module.exports = router;
@@ -3,26 +3,41 @@ const express = require('express');
 const router = express.Router();
 const {
   handleGetAllBlogs,
+  handleGetAdminBlogs,
   handleGetBlogById,
+  handleGetBlogBySlug,
   handleCreateBlog,
   handleUpdateBlog,
+  handleUpdateBlogStatus,
+  handleGetBlogRevisions,
+  handleRestoreBlogRevision,
   handleDeleteBlog,
   handleGetAllCategories,
   handleGetAllTags,
 } = require('../controllers/blogs.controller');
-const { checkAdminAuth } = require('../middleware/auth');
+const { requirePermission } = require('../middleware/auth');
 const { uploadSingle } = require('../middleware/upload');
 
+// Posts are managed by editors and admins
+const canManageBlogs = requirePermission('blogs');
+
+// Admin listing (every status); registered before /:id
+router.get('/admin/all', canManageBlogs, handleGetAdminBlogs);
+
 // Public routes (no auth required)
 router.get('/', handleGetAllBlogs);
 router.get('/categories/all', handleGetAllCategories);
 router.get('/tags/all', handleGetAllTags);
+router.get('/slug/:slug', handleGetBlogBySlug);
 router.get('/:id', handleGetBlogById);
 
 // Admin routes (require authentication)
-router.post('/', checkAdminAuth, uploadSingle('image'), handleCreateBlog);
-router.put('/:id', checkAdminAuth, uploadSingle('image'), handleUpdateBlog);
-router.delete('/:id', checkAdminAuth, handleDeleteBlog);
+router.post('/', canManageBlogs, uploadSingle('image'), handleCreateBlog);
+router.put('/:id', canManageBlogs, uploadSingle('image'), handleUpdateBlog);
+router.put('/:id/status', canManageBlogs, handleUpdateBlogStatus);
+router.get('/:id/revisions', canManageBlogs, handleGetBlogRevisions);
+router.post('/:id/revisions/:version/restore', canManageBlogs, handleRestoreBlogRevision);
+router.delete('/:id', canManageBlogs, handleDeleteBlog);
 
 module.exports = router;
 
@@ -0,0 +1,12 @@
+// server/routes/fundHoldings.routes.js
+const express = require('express');
+const router = express.Router();
+const { handleGetFundsWithHoldings, handleGetHoldings } = require('../controllers/fundHoldings.controller');
+
+// GET /api/fund-holdings - List funds with portfolio holdings data
+router.get('/', handleGetFundsWithHoldings);
+
+// GET /api/fund-holdings/holdings?schemeCodes=code1,code2 - Get holdings for schemes
+router.get('/holdings', handleGetHoldings);
+
+module.exports = router;
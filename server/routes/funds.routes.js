@@ -6,7 +6,8 @@ const router = express.Router();
 const { getHistoricalNav } = require('../services/navApi.service.js');
 const { 
   handleFundSearch, 
-  handleNavBucket  // Import our new handler
+  handleNavBucket,  // Import our new handler
+  handleFundMetadata
 } = require('../controllers/funds.controller.js');
 
 // --- ROUTES ---
@@ -14,6 +15,9 @@ const {
 // GET /api/funds/search
 router.get('/search', handleFundSearch);
 
+// GET /api/funds/metadata?schemeCodes=code1,code2
+router.get('/metadata', handleFundMetadata);
+
 // POST /api/funds/get-nav-bucket
 // This is our new "bucket" endpoint
 router.post('/get-nav-bucket', handleNavBucket);
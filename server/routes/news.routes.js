@@ -2,9 +2,13 @@
 const express = require('express');
 const router = express.Router();
 const newsService = require('../services/news.service');
+const { recordAudit } = require('../services/audit.service');
+const { tagNewArticles } = require('../services/watchlists.service');
 const logger = require('../utils/logger');
 
-// Get news with filters
+// Get news with filters, as stories with the other sources that covered them
+// (grouped=false for one item per article). symbol and amc narrow to articles
+// tagged with that stock or fund house
 router.get('/', async (req, res) => {
     try {
         const {
@@ -12,7 +16,10 @@ router.get('/', async (req, res) => {
             limit = 30,
             source,
             category,
-            search
+            search,
+            symbol,
+            amc,
+            grouped
         } = req.query;
 
         const result = await newsService.getNews({
@@ -20,7 +27,10 @@ router.get('/', async (req, res) => {
             limit: Math.min(parseInt(limit), 100), // Max 100 items
             source,
             category,
-            search
+            search,
+            symbol,
+            amc,
+            grouped: grouped !== 'false'
         });
 
         res.json({
@@ -83,11 +93,20 @@ router.post('/refresh', async (req, res) => {
             });
         }
 
+        const startedAt = new Date();
         const result = await newsService.fetchAllNews();
+        const watchlistMatches = await tagNewArticles(startedAt);
+        await recordAudit({
+            req,
+            action: 'refresh',
+            target: { type: 'news', label: 'News feed' },
+            details: { fetched: result.totalFetched, saved: result.totalSaved, errors: result.errors, watchlistMatches }
+        });
         res.json({
             success: true,
             message: 'News refreshed successfully',
-            ...result
+            ...result,
+            watchlistMatches
         });
     } catch (error) {
         logger.error('Error refreshing news:', error);
@@ -111,6 +130,12 @@ router.post('/cleanup', async (req, res) => {
         }
 
         const deleted = await newsService.cleanupOldNews();
+        await recordAudit({
+            req,
+            action: 'cleanup',
+            target: { type: 'news', label: 'News feed' },
+            details: { deleted }
+        });
         res.json({
             success: true,
             message: `Cleaned up ${deleted} old news articles`
@@ -0,0 +1,28 @@
+// server/routes/portfolios.routes.js
+const express = require('express');
+const router = express.Router();
+const {
+  handleGetPortfolios,
+  handleGetPortfolioById,
+  handleCreatePortfolio,
+  handleUpdatePortfolio,
+  handleSaveResults,
+  handleGetVersions,
+  handleRestoreVersion,
+  handleDeletePortfolio,
+} = require('../controllers/portfolios.controller');
+const { authenticateToken } = require('../middleware/auth.middleware');
+
+// Every portfolio belongs to the logged-in user
+router.use(authenticateToken);
+
+router.get('/', handleGetPortfolios);
+router.post('/', handleCreatePortfolio);
+router.get('/:id', handleGetPortfolioById);
+router.put('/:id', handleUpdatePortfolio);
+router.delete('/:id', handleDeletePortfolio);
+router.put('/:id/results', handleSaveResults);
+router.get('/:id/versions', handleGetVersions);
+router.post('/:id/versions/:version/restore', handleRestoreVersion);
+
+module.exports = router;
@@ -0,0 +1,17 @@
+// server/routes/seo.routes.js
+const express = require('express');
+const router = express.Router();
+const {
+  handleBlogPage,
+  handleSitemap,
+  handleRssFeed,
+  handleRobots,
+} = require('../controllers/seo.controller');
+
+// Served at the site root; the client deployment proxies these paths here
+router.get('/sitemap.xml', handleSitemap);
+router.get('/rss.xml', handleRssFeed);
+router.get('/robots.txt', handleRobots);
+router.get('/blogs/:slug', handleBlogPage);
+
+module.exports = router;
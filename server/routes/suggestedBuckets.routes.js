@@ -8,16 +8,19 @@ const {
   handleUpdateBucket,
   handleDeleteBucket,
 } = require('../controllers/suggestedBuckets.controller');
-const { checkAdminAuth } = require('../middleware/auth');
+const { requirePermission } = require('../middleware/auth');
+
+// Buckets are managed by analysts and admins
+const canManageBuckets = requirePermission('suggested-buckets');
 
 // Public routes (no auth required)
 router.get('/', handleGetAllBuckets);
 router.get('/:id', handleGetBucketById);
 
 // Admin routes (require authentication)
-router.post('/', checkAdminAuth, handleCreateBucket);
-router.put('/:id', checkAdminAuth, handleUpdateBucket);
-router.delete('/:id', checkAdminAuth, handleDeleteBucket);
+router.post('/', canManageBuckets, handleCreateBucket);
+router.put('/:id', canManageBuckets, handleUpdateBucket);
+router.delete('/:id', canManageBuckets, handleDeleteBucket);
 
 module.exports = router;
 
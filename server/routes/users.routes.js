@@ -0,0 +1,13 @@
+// server/routes/users.routes.js
+const express = require('express');
+const router = express.Router();
+const { handleGetStaff, handleSetUserRole } = require('../controllers/users.controller');
+const { requirePermission } = require('../middleware/auth');
+
+// Only admins manage who has which role
+router.use(requirePermission('users'));
+
+router.get('/staff', handleGetStaff);
+router.put('/role', handleSetUserRole);
+
+module.exports = router;
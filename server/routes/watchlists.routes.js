@@ -0,0 +1,26 @@
+// server/routes/watchlists.routes.js
+const express = require('express');
+const router = express.Router();
+const {
+  handleGetWatchlists,
+  handleCreateWatchlist,
+  handleUpdateWatchlist,
+  handleDeleteWatchlist,
+  handleGetFeed,
+  handleGetUnreadCount,
+  handleMarkRead,
+} = require('../controllers/watchlists.controller');
+const { authenticateToken } = require('../middleware/auth.middleware');
+
+// Every watchlist belongs to the logged-in user
+router.use(authenticateToken);
+
+router.get('/', handleGetWatchlists);
+router.post('/', handleCreateWatchlist);
+router.get('/feed', handleGetFeed);
+router.get('/feed/unread-count', handleGetUnreadCount);
+router.post('/feed/read', handleMarkRead);
+router.put('/:id', handleUpdateWatchlist);
+router.delete('/:id', handleDeleteWatchlist);
+
+module.exports = router;
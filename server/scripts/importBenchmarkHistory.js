@@ -0,0 +1,84 @@
+// server/scripts/importBenchmarkHistory.js
+// Replace a benchmark's history in data/benchmarkIndices.json with levels from a CSV export
+// (e.g. the NSE/BSE "Total Returns Index" historical download).
+//
+// Usage: node scripts/importBenchmarkHistory.js <slug> <file.csv> [--name "Nifty 50 TRI"]
+// The CSV needs a header row with a date column and a value column
+// ("Total Returns Index", "TRI", "Close" or "Value").
+
+const fs = require('fs');
+const path = require('path');
+const logger = require('../utils/logger');
+
+const FIXTURE_PATH = path.join(__dirname, '..', 'data', 'benchmarkIndices.json');
+const VALUE_COLUMNS = ['total returns index', 'tri', 'close', 'value'];
+
+const toISODate = (raw) => {
+  const trimmed = raw.replace(/"/g, '').trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return trimmed;
+  // Formats like 31-Dec-2019 or 31 Dec 2019
+  const parsed = new Date(`${trimmed.replace(/-/g, ' ')} UTC`);
+  if (isNaN(parsed.getTime())) return null;
+  return parsed.toISOString().split('T')[0];
+};
+
+const parseCsv = (content) => {
+  const lines = content.split(/\r?\n/).filter(line => line.trim());
+  const header = lines[0].split(',').map(col => col.replace(/"/g, '').trim().toLowerCase());
+  const dateIdx = header.findIndex(col => col.includes('date'));
+  const valueIdx = header.findIndex(col => VALUE_COLUMNS.includes(col));
+
+  if (dateIdx === -1 || valueIdx === -1) {
+    throw new Error(`CSV header must contain a date column and one of: ${VALUE_COLUMNS.join(', ')}`);
+  }
+
+  return lines.slice(1)
+    .map(line => {
+      const cells = line.split(',');
+      const date = toISODate(cells[dateIdx] || '');
+      const value = parseFloat((cells[valueIdx] || '').replace(/"/g, ''));
+      return date && !isNaN(value) ? { date, value } : null;
+    })
+    .filter(Boolean)
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const run = () => {
+  const [slug, csvPath, ...rest] = process.argv.slice(2);
+  if (!slug || !csvPath) {
+    logger.error('Usage: node scripts/importBenchmarkHistory.js <slug> <file.csv> [--name "Index Name"]');
+    process.exit(1);
+  }
+
+  const nameFlag = rest.indexOf('--name');
+  const name = nameFlag !== -1 ? rest[nameFlag + 1] : undefined;
+
+  const history = parseCsv(fs.readFileSync(csvPath, 'utf8'));
+  if (history.length === 0) {
+    logger.error('No valid rows found in', csvPath);
+    process.exit(1);
+  }
+
+  const spanDays = (new Date(history[history.length - 1].date) - new Date(history[0].date)) / (1000 * 60 * 60 * 24);
+  const frequency = history.length > 1 && spanDays / (history.length - 1) <= 7 ? 'daily' : 'monthly';
+
+  const fixture = JSON.parse(fs.readFileSync(FIXTURE_PATH, 'utf8'));
+  const existing = fixture.indices.find(index => index.slug === slug);
+
+  if (existing) {
+    existing.history = history;
+    existing.frequency = frequency;
+    if (name) existing.name = name;
+  } else {
+    if (!name) {
+      logger.error(`Benchmark '${slug}' does not exist yet; pass --name to create it.`);
+      process.exit(1);
+    }
+    fixture.indices.push({ slug, name, exchange: 'NSE', frequency, history });
+  }
+
+  fs.writeFileSync(FIXTURE_PATH, JSON.stringify(fixture, null, 2) + '\n');
+  logger.info(`Imported ${history.length} points for ${slug} (${history[0].date} to ${history[history.length - 1].date})`);
+};
+
+run();
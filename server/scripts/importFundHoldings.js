@@ -0,0 +1,109 @@
+// server/scripts/importFundHoldings.js
+// Replace a fund's holdings in data/fundHoldings.json with an AMC monthly portfolio disclosure
+// saved as CSV.
+//
+// Usage: node scripts/importFundHoldings.js <schemeCode> <file.csv> [--name "Fund Name"] [--as-of YYYY-MM-DD]
+// The CSV needs a header row with a company name column, a weight column ("weightage", "weight"
+// or "% to net assets") and optionally symbol, ISIN and industry ("industry" or "sector") columns.
+// Rows without an ISIN or symbol (cash, TREPS, net receivables) are skipped.
+
+const fs = require('fs');
+const path = require('path');
+const logger = require('../utils/logger');
+
+const FIXTURE_PATH = path.join(__dirname, '..', 'data', 'fundHoldings.json');
+const NAME_COLUMNS = ['companyname', 'company name', 'company', 'name of the instrument', 'name'];
+const WEIGHT_COLUMNS = ['weightage', 'weight', '% to net assets', '% of net assets'];
+
+const splitCsvLine = (line) => {
+  const cells = [];
+  let current = '';
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (char === ',' && !quoted) {
+      cells.push(current.trim());
+      current = '';
+    } else current += char;
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const parseCsv = (content) => {
+  const lines = content.split(/\r?\n/).filter(line => line.trim());
+  const header = splitCsvLine(lines[0]).map(col => col.toLowerCase());
+  const column = (names) => header.findIndex(col => names.includes(col));
+
+  const nameIdx = column(NAME_COLUMNS);
+  const weightIdx = column(WEIGHT_COLUMNS);
+  const symbolIdx = column(['symbol']);
+  const isinIdx = column(['isin']);
+  const industryIdx = column(['industry', 'sector']);
+
+  if (nameIdx === -1 || weightIdx === -1) {
+    throw new Error(`CSV header must contain one of: ${NAME_COLUMNS.join(', ')} and one of: ${WEIGHT_COLUMNS.join(', ')}`);
+  }
+
+  return lines.slice(1)
+    .map(line => {
+      const cells = splitCsvLine(line);
+      const cell = (idx) => (idx === -1 ? '' : cells[idx] || '');
+      const symbol = cell(symbolIdx).toUpperCase();
+      const isin = cell(isinIdx).toUpperCase();
+      const weightage = parseFloat(cell(weightIdx).replace('%', ''));
+      if ((!symbol && !isin) || isNaN(weightage) || weightage <= 0) return null;
+      return {
+        symbol: symbol || isin,
+        companyName: cell(nameIdx),
+        isin,
+        industry: cell(industryIdx),
+        weightage
+      };
+    })
+    .filter(Boolean)
+    .sort((a, b) => b.weightage - a.weightage);
+};
+
+const flagValue = (args, flag) => {
+  const idx = args.indexOf(flag);
+  return idx !== -1 ? args[idx + 1] : undefined;
+};
+
+const run = () => {
+  const [schemeCode, csvPath, ...rest] = process.argv.slice(2);
+  if (!schemeCode || !csvPath) {
+    logger.error('Usage: node scripts/importFundHoldings.js <schemeCode> <file.csv> [--name "Fund Name"] [--as-of YYYY-MM-DD]');
+    process.exit(1);
+  }
+
+  const name = flagValue(rest, '--name');
+  const asOf = flagValue(rest, '--as-of') || new Date().toISOString().split('T')[0];
+
+  const holdings = parseCsv(fs.readFileSync(csvPath, 'utf8'));
+  if (holdings.length === 0) {
+    logger.error('No valid holdings found in', csvPath);
+    process.exit(1);
+  }
+
+  const fixture = JSON.parse(fs.readFileSync(FIXTURE_PATH, 'utf8'));
+  const existing = fixture.funds.find(fund => fund.schemeCode === schemeCode);
+
+  if (existing) {
+    existing.holdings = holdings;
+    existing.asOf = asOf;
+    if (name) existing.schemeName = name;
+  } else {
+    if (!name) {
+      logger.error(`Fund '${schemeCode}' has no holdings yet; pass --name to add it.`);
+      process.exit(1);
+    }
+    fixture.funds.push({ schemeCode, schemeName: name, asOf, holdings });
+  }
+
+  fs.writeFileSync(FIXTURE_PATH, JSON.stringify(fixture, null, 2) + '\n');
+  const total = holdings.reduce((sum, holding) => sum + holding.weightage, 0);
+  logger.info(`Imported ${holdings.length} holdings for ${schemeCode} as of ${asOf} (${total.toFixed(1)}% of net assets)`);
+};
+
+run();
@@ -0,0 +1,52 @@
+// server/scripts/setUserRole.js
+// Give a user a role from the command line, e.g. to make the first admin. After that, admins
+// can hand out roles from the Team tab of the admin panel.
+//
+// Usage: node scripts/setUserRole.js <email> <user|analyst|editor|admin>
+// The user must have signed up on the site already (email/password or Google).
+
+const mongoose = require('mongoose');
+require('dotenv').config();
+const User = require('../models/User');
+const { USER_ROLES } = require('../models/User');
+const logger = require('../utils/logger');
+
+async function setRole() {
+  const [email, role] = process.argv.slice(2);
+  if (!email || !USER_ROLES.includes(role)) {
+    logger.error(`Usage: node scripts/setUserRole.js <email> <${USER_ROLES.join('|')}>`);
+    process.exit(1);
+  }
+
+  try {
+    const mongoUri = process.env.MONGODB_URI;
+    if (!mongoUri) {
+      logger.error('MONGODB_URI not found in environment variables');
+      process.exit(1);
+    }
+
+    await mongoose.connect(mongoUri);
+    logger.info('Connected to MongoDB');
+
+    const user = await User.findOne({ email: email.toLowerCase().trim() });
+    if (!user) {
+      logger.error(`No user with email ${email}. They need to sign up first.`);
+      await mongoose.disconnect();
+      process.exit(1);
+    }
+
+    const previousRole = user.role;
+    user.role = role;
+    await user.save();
+    logger.info(`${user.email}: ${previousRole} -> ${role}`);
+
+    await mongoose.disconnect();
+    process.exit(0);
+  } catch (error) {
+    logger.error('Error setting role:', error);
+    await mongoose.disconnect();
+    process.exit(1);
+  }
+}
+
+setRole();
@@ -147,6 +147,34 @@ app.use('/api/news', newsRoutes);
 const stockIndexRoutes = require('./routes/stockIndex.routes.js');
 app.use('/api/stock-indices', stockIndexRoutes);
 
+// Benchmark (TRI) history routes
+const benchmarkRoutes = require('./routes/benchmark.routes.js');
+app.use('/api/benchmarks', benchmarkRoutes);
+
+// Fund portfolio holdings (overlap analysis)
+const fundHoldingsRoutes = require('./routes/fundHoldings.routes.js');
+app.use('/api/fund-holdings', fundHoldingsRoutes);
+
+// User portfolio routes (authenticated)
+const portfoliosRoutes = require('./routes/portfolios.routes.js');
+app.use('/api/portfolios', portfoliosRoutes);
+
+// News watchlists and the feed of articles they match (authenticated)
+const watchlistsRoutes = require('./routes/watchlists.routes.js');
+app.use('/api/watchlists', watchlistsRoutes);
+
+// Admin panel roles (admins only)
+const usersRoutes = require('./routes/users.routes.js');
+app.use('/api/users', usersRoutes);
+
+// Audit log of admin and cron changes (admins only)
+const auditRoutes = require('./routes/audit.routes.js');
+app.use('/api/audit-logs', auditRoutes);
+
+// Sitemap, RSS feed and prerendered blog pages (outside /api, proxied from the client site)
+const seoRoutes = require('./routes/seo.routes.js');
+app.use('/', seoRoutes);
+
 // Enhanced health check route with server statistics
 app.get('/api/health', (req, res) => {
   const uptime = Math.floor((Date.now() - startTime) / 1000);
@@ -0,0 +1,226 @@
+// server/services/audit.service.js
+const mongoose = require('mongoose');
+const AuditLog = require('../models/AuditLog');
+const logger = require('../utils/logger');
+
+// Bookkeeping fields that change on every save and say nothing about the edit
+const IGNORED_FIELDS = new Set(['_id', 'id', '__v', 'createdAt', 'updatedAt', 'views', 'version', 'revisions']);
+
+// Most entries one CSV export returns
+const MAX_EXPORT_ROWS = 10000;
+
+// Actors for changes nobody made from the admin panel
+const SYSTEM_ACTORS = {
+  cron: { kind: 'system', name: 'Cron (x-cron-secret)' },
+  scheduler: { kind: 'system', name: 'Scheduler' },
+};
+
+/**
+ * Check if database is connected
+ * @returns {boolean}
+ */
+const isDatabaseConnected = () => {
+  return mongoose.connection.readyState === 1; // 1 = connected
+};
+
+/**
+ * JSON with object keys sorted, so equal values compare equal however they were built
+ */
+const stableStringify = (value) => JSON.stringify(value, (key, val) => (
+  val && typeof val === 'object' && !Array.isArray(val) && !(val instanceof Date)
+    ? Object.keys(val).sort().reduce((sorted, name) => ({ ...sorted, [name]: val[name] }), {})
+    : val
+));
+
+/**
+ * Plain data for storing: ObjectIds become strings, Dates ISO strings
+ */
+const toPlain = (value) => (value === undefined ? null : JSON.parse(JSON.stringify(value)));
+
+/**
+ * Top-level fields that differ between two snapshots. A create has no
+ * `before` and a delete no `after`, so every field shows as changed.
+ * @param {Object|null} before
+ * @param {Object|null} after
+ * @returns {Array<{ field, before, after }>}
+ */
+const diffFields = (before, after) => {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes = [];
+  fields.forEach((field) => {
+    if (IGNORED_FIELDS.has(field)) return;
+    const previous = toPlain(before?.[field]);
+    const next = toPlain(after?.[field]);
+    if (stableStringify(previous) !== stableStringify(next)) {
+      changes.push({ field, before: previous, after: next });
+    }
+  });
+  return changes.sort((a, b) => a.field.localeCompare(b.field));
+};
+
+/**
+ * The logged-in user making a request, as recorded in the log
+ */
+const userActor = (user) => ({
+  kind: 'user',
+  userId: user._id,
+  email: user.email,
+  name: user.name,
+  role: user.role,
+});
+
+/**
+ * Record a change. Never throws: a failed audit write is logged, and the
+ * change it describes still goes through.
+ * @param {Object} entry
+ * @param {Object} [entry.req] - The request; supplies the IP and, when logged in, the actor
+ * @param {Object} [entry.actor] - One of SYSTEM_ACTORS, when there's no logged-in user
+ * @param {string} entry.action - One of AUDIT_ACTIONS
+ * @param {Object} entry.target - { type, id, label }
+ * @param {Object|null} [entry.before] - Snapshot before the change
+ * @param {Object|null} [entry.after] - Snapshot after the change
+ * @param {Object} [entry.details] - Anything else worth keeping, e.g. counts
+ */
+const recordAudit = async ({ req, actor, action, target, before = null, after = null, details = null }) => {
+  try {
+    if (!isDatabaseConnected()) {
+      logger.warn(`Database not connected, audit entry not recorded: ${target.type} ${action}`);
+      return;
+    }
+
+    await AuditLog.create({
+      actor: req?.user ? userActor(req.user) : (actor || SYSTEM_ACTORS.cron),
+      action,
+      target: {
+        type: target.type,
+        id: target.id ? String(target.id) : null,
+        label: target.label || null,
+      },
+      changes: diffFields(before, after),
+      details: details ? toPlain(details) : null,
+      ip: req?.ip || null,
+    });
+  } catch (error) {
+    logger.error(`Error recording audit entry (${target.type} ${action}):`, error.message);
+  }
+};
+
+/**
+ * Query for the admin filters
+ */
+const buildAuditQuery = (filters = {}) => {
+  const query = {};
+  if (filters.targetType) query['target.type'] = filters.targetType;
+  if (filters.targetId) query['target.id'] = filters.targetId;
+  if (filters.action) query.action = filters.action;
+  if (filters.actor) {
+    const pattern = new RegExp(filters.actor.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+    query.$or = [{ 'actor.email': pattern }, { 'actor.name': pattern }];
+  }
+  if (filters.from || filters.to) {
+    query.createdAt = {};
+    if (filters.from) query.createdAt.$gte = new Date(filters.from);
+    if (filters.to) query.createdAt.$lte = new Date(filters.to);
+  }
+  return query;
+};
+
+const toAuditEntry = (entry) => {
+  const { _id, __v, ...rest } = entry;
+  return {
+    ...rest,
+    id: _id.toString(),
+    actor: { ...entry.actor, userId: entry.actor.userId ? entry.actor.userId.toString() : null },
+  };
+};
+
+/**
+ * Get audit entries, newest first
+ * @param {Object} filters - { targetType, targetId, action, actor, from, to }
+ * @param {Object} options - { limit, skip }
+ * @returns {Promise<{ entries: Array, pagination: Object }>}
+ */
+const getAuditLogs = async (filters = {}, { limit = 50, skip = 0 } = {}) => {
+  try {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected. Cannot fetch audit log.');
+    }
+
+    const query = buildAuditQuery(filters);
+    const [entries, total] = await Promise.all([
+      AuditLog.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit).lean(),
+      AuditLog.countDocuments(query),
+    ]);
+
+    return {
+      entries: entries.map(toAuditEntry),
+      pagination: {
+        total,
+        limit,
+        skip,
+        hasMore: skip + entries.length < total,
+      },
+    };
+  } catch (error) {
+    logger.error('Error fetching audit log:', error.message);
+    throw error;
+  }
+};
+
+// Spreadsheets run cells starting with these as formulas, and titles and diffs are editor-written
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  if (FORMULA_START.test(text)) {
+    return `"'${text.replace(/"/g, '""')}"`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Audit entries matching the filters as CSV, one row per entry, newest first.
+ * Changes and details are JSON in their own columns.
+ * @param {Object} filters - As for getAuditLogs
+ * @returns {Promise<string>}
+ */
+const exportAuditLogsCsv = async (filters = {}) => {
+  try {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected. Cannot export audit log.');
+    }
+
+    const entries = await AuditLog.find(buildAuditQuery(filters))
+      .sort({ createdAt: -1 })
+      .limit(MAX_EXPORT_ROWS)
+      .lean();
+
+    const header = ['timestamp', 'actor', 'actor_email', 'actor_role', 'action', 'target_type', 'target_id', 'target', 'changed_fields', 'changes', 'details', 'ip'];
+    const rows = entries.map((entry) => [
+      entry.createdAt.toISOString(),
+      entry.actor.name,
+      entry.actor.email,
+      entry.actor.role,
+      entry.action,
+      entry.target.type,
+      entry.target.id,
+      entry.target.label,
+      entry.changes.map((change) => change.field).join(' '),
+      entry.changes.length > 0 ? JSON.stringify(entry.changes) : '',
+      entry.details ? JSON.stringify(entry.details) : '',
+      entry.ip,
+    ]);
+
+    return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+  } catch (error) {
+    logger.error('Error exporting audit log:', error.message);
+    throw error;
+  }
+};
+
+module.exports = {
+  SYSTEM_ACTORS,
+  recordAudit,
+  getAuditLogs,
+  exportAuditLogsCsv,
+};
@@ -0,0 +1,77 @@
+// server/services/benchmark.service.js
+const path = require('path');
+const fs = require('fs');
+const logger = require('../utils/logger');
+
+const FIXTURE_PATH = path.join(__dirname, '..', 'data', 'benchmarkIndices.json');
+
+let cachedIndices = null;
+
+/**
+ * Load benchmark index history from the local fixture (cached after first read)
+ */
+const loadIndices = () => {
+    if (cachedIndices) return cachedIndices;
+
+    const raw = JSON.parse(fs.readFileSync(FIXTURE_PATH, 'utf8'));
+    cachedIndices = (raw.indices || []).map(index => ({
+        ...index,
+        history: [...(index.history || [])].sort((a, b) => a.date.localeCompare(b.date))
+    }));
+    return cachedIndices;
+};
+
+/**
+ * Get all benchmark indices (metadata and coverage only, no history)
+ */
+const getBenchmarks = () => {
+    try {
+        return loadIndices().map(({ history, ...meta }) => ({
+            ...meta,
+            from: history.length > 0 ? history[0].date : null,
+            to: history.length > 0 ? history[history.length - 1].date : null,
+            points: history.length
+        }));
+    } catch (error) {
+        logger.error('Error in getBenchmarks service:', error.message);
+        throw error;
+    }
+};
+
+/**
+ * Get index levels for a benchmark between two dates
+ * The last point before `from` is included so callers can interpolate from the start date.
+ * @param {string} slug - Benchmark slug (e.g., 'nifty-50-tri')
+ * @param {string} from - Optional start date (YYYY-MM-DD)
+ * @param {string} to - Optional end date (YYYY-MM-DD)
+ */
+const getBenchmarkHistory = (slug, from, to) => {
+    try {
+        const index = loadIndices().find(i => i.slug === slug);
+        if (!index) return null;
+
+        let startIdx = 0;
+        if (from) {
+            const firstInRange = index.history.findIndex(point => point.date >= from);
+            startIdx = firstInRange === -1 ? index.history.length : Math.max(0, firstInRange - 1);
+        }
+
+        let history = index.history.slice(startIdx);
+        if (to) {
+            const firstAfter = history.findIndex(point => point.date > to);
+            // Keep one point past `to` for interpolation up to the end date
+            if (firstAfter !== -1) history = history.slice(0, firstAfter + 1);
+        }
+
+        const { history: _unused, ...meta } = index;
+        return { ...meta, history };
+    } catch (error) {
+        logger.error(`Error in getBenchmarkHistory service for ${slug}:`, error.message);
+        throw error;
+    }
+};
+
+module.exports = {
+    getBenchmarks,
+    getBenchmarkHistory
+};
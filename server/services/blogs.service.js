@@ -1,10 +1,18 @@
 // server/services/blogs.service.js
 const mongoose = require('mongoose');
 const Blog = require('../models/Blog');
+const { MAX_REVISIONS, STATUS_TRANSITIONS } = require('../models/Blog');
 const Category = require('../models/Category');
 const Tag = require('../models/Tag');
+const { recordAudit, SYSTEM_ACTORS } = require('./audit.service');
 const logger = require('../utils/logger');
 
+// Fields that create a new revision when changed
+const REVISED_FIELDS = ['title', 'content', 'contentFormat', 'imageUrl', 'imagePublicId', 'categories', 'tags', 'exclusive', 'author'];
+
+// Set through setBlogStatus() and the scheduler, not through updateBlog()
+const WORKFLOW_FIELDS = ['status', 'isPublished', 'publishAt', 'publishedAt', 'version', 'revisions'];
+
 /**
  * Check if database is connected
  * @returns {boolean}
@@ -13,6 +21,67 @@ const isDatabaseConnected = () => {
   return mongoose.connection.readyState === 1; // 1 = connected
 };
 
+/**
+ * Categories/tags as a clean array (older posts may have them stored as
+ * stringified arrays or comma-separated strings)
+ * @param {Array|string} value
+ * @returns {Array<string>}
+ */
+const cleanList = (value) => {
+  let list = value || [];
+
+  // If they're strings, try to parse them
+  if (typeof list === 'string') {
+    try {
+      list = JSON.parse(list);
+    } catch {
+      // If not JSON, treat as comma-separated
+      list = list.split(',').map(item => item.trim().replace(/[\[\]"]/g, '')).filter(item => item);
+    }
+  }
+
+  // Clean up any remaining brackets, quotes, or backslashes
+  return Array.isArray(list)
+    ? list.map(item => typeof item === 'string' ? item.replace(/[\[\]"\\]/g, '').trim() : item).filter(item => item)
+    : [];
+};
+
+/**
+ * Workflow status of a post; posts saved before the workflow existed only have isPublished
+ * @param {Object} blog - Blog document
+ * @returns {string}
+ */
+const statusOf = (blog) => blog.status || (blog.isPublished === false ? 'draft' : 'published');
+
+/**
+ * Convert a lean blog document for the API: MongoDB _id to id and clean categories/tags.
+ * Revisions are only returned by getBlogRevisions().
+ * @param {Object} blog - Lean blog document
+ * @returns {Object}
+ */
+const formatBlog = (blog) => {
+  const { revisions, ...rest } = blog;
+  return {
+    ...rest,
+    id: blog._id.toString(),
+    _id: undefined,
+    categories: cleanList(blog.categories),
+    tags: cleanList(blog.tags),
+    contentFormat: blog.contentFormat || 'html',
+    status: statusOf(blog),
+    version: blog.version || 1,
+  };
+};
+
+/**
+ * Error thrown when a post can't be moved to the requested status
+ */
+const createWorkflowError = (message) => {
+  const error = new Error(message);
+  error.code = 'INVALID_WORKFLOW';
+  return error;
+};
+
 /**
  * Get all blogs with filters and pagination
  * @param {Object} filters - Filter options
@@ -31,7 +100,8 @@ const getAllBlogs = async (filters = {}, options = {}) => {
       tags,
       exclusive,
       search,
-      isPublished = true,
+      isPublished = true, // null lists posts in every status
+      status,
       sortBy = 'createdAt',
       sortOrder = 'desc',
       limit = 50,
@@ -42,10 +112,19 @@ const getAllBlogs = async (filters = {}, options = {}) => {
     const query = {};
 
     // Published filter
-    if (isPublished !== undefined) {
+    if (isPublished !== undefined && isPublished !== null) {
       query.isPublished = isPublished;
     }
 
+    // Workflow status filter (posts from before the workflow only have isPublished)
+    if (status === 'published') {
+      query.isPublished = true;
+    } else if (status === 'draft') {
+      query.$or = [{ status: 'draft' }, { status: { $exists: false }, isPublished: false }];
+    } else if (status) {
+      query.status = status;
+    }
+
     // Category filter
     if (category) {
       query.categories = { $in: [category.toLowerCase()] };
@@ -69,6 +148,8 @@ const getAllBlogs = async (filters = {}, options = {}) => {
     // Sort options
     const sort = {};
     if (sortBy === 'createdAt') {
+      // Scheduled posts are dated by when they went live, not when they were written
+      sort.publishedAt = sortOrder === 'asc' ? 1 : -1;
       sort.createdAt = sortOrder === 'asc' ? 1 : -1;
     } else if (sortBy === 'views') {
       sort.views = sortOrder === 'asc' ? 1 : -1;
@@ -79,6 +160,7 @@ const getAllBlogs = async (filters = {}, options = {}) => {
     // Execute query
     const [blogs, total] = await Promise.all([
       Blog.find(query)
+        .select('-revisions')
         .sort(sort)
         .limit(parseInt(limit))
         .skip(parseInt(skip))
@@ -87,44 +169,7 @@ const getAllBlogs = async (filters = {}, options = {}) => {
     ]);
 
     // Convert MongoDB _id to id and ensure categories/tags are arrays
-    const formattedBlogs = blogs.map(blog => {
-      // Ensure categories and tags are arrays (handle stringified arrays)
-      let categories = blog.categories || [];
-      let tags = blog.tags || [];
-      
-      // If they're strings, try to parse them
-      if (typeof categories === 'string') {
-        try {
-          categories = JSON.parse(categories);
-        } catch {
-          // If not JSON, treat as comma-separated
-          categories = categories.split(',').map(c => c.trim().replace(/[\[\]"]/g, '')).filter(c => c);
-        }
-      }
-      if (typeof tags === 'string') {
-        try {
-          tags = JSON.parse(tags);
-        } catch {
-          tags = tags.split(',').map(t => t.trim().replace(/[\[\]"]/g, '')).filter(t => t);
-        }
-      }
-      
-      // Clean up any remaining brackets, quotes, or backslashes
-      categories = Array.isArray(categories) 
-        ? categories.map(c => typeof c === 'string' ? c.replace(/[\[\]"\\]/g, '').trim() : c).filter(c => c)
-        : [];
-      tags = Array.isArray(tags)
-        ? tags.map(t => typeof t === 'string' ? t.replace(/[\[\]"\\]/g, '').trim() : t).filter(t => t)
-        : [];
-      
-      return {
-        ...blog,
-        id: blog._id.toString(),
-        _id: undefined,
-        categories,
-        tags,
-      };
-    });
+    const formattedBlogs = blogs.map(formatBlog);
 
     return {
       blogs: formattedBlogs,
@@ -142,9 +187,10 @@ const getAllBlogs = async (filters = {}, options = {}) => {
 /**
  * Get a single blog by ID
  * @param {string} id - Blog ID
+ * @param {Object} options - { countView } whether to increment views (default true)
  * @returns {Promise<Object|null>} Blog object or null
  */
-const getBlogById = async (id) => {
+const getBlogById = async (id, { countView = true } = {}) => {
   try {
     if (!isDatabaseConnected()) {
       logger.warn('Database not connected, cannot get blog');
@@ -155,55 +201,113 @@ const getBlogById = async (id) => {
       return null;
     }
 
-    const blog = await Blog.findById(id).lean();
+    const blog = await Blog.findById(id).select('-revisions').lean();
 
     if (!blog) {
       return null;
     }
 
     // Increment views
-    await Blog.findByIdAndUpdate(id, { $inc: { views: 1 } });
+    if (countView) {
+      await Blog.findByIdAndUpdate(id, { $inc: { views: 1 } });
+    }
 
-    // Ensure categories and tags are arrays
-    let categories = blog.categories || [];
-    let tags = blog.tags || [];
-    
-    if (typeof categories === 'string') {
-      try {
-        categories = JSON.parse(categories);
-      } catch {
-        categories = categories.split(',').map(c => c.trim().replace(/[\[\]"]/g, '')).filter(c => c);
-      }
+    return formatBlog(blog);
+  } catch (error) {
+    logger.error('Error getting blog by ID:', error.message);
+    return null;
+  }
+};
+
+// Links from before slugs existed addressed posts by their MongoDB id
+const OBJECT_ID_PATTERN = /^[a-f0-9]{24}$/i;
+
+/**
+ * Save a slug for a post created before slugs existed
+ * @param {Object} blog - Lean blog document without a slug
+ * @returns {Promise<string>} The new slug
+ */
+const assignSlug = async (blog) => {
+  const slug = await Blog.generateUniqueSlug(blog.title, blog._id);
+  await Blog.updateOne({ _id: blog._id }, { $set: { slug } });
+  return slug;
+};
+
+/**
+ * Get a single blog by slug. Previous slugs and post ids also resolve, so the
+ * caller should redirect when the returned blog's slug differs from the one asked for.
+ * @param {string} slug - Current or previous slug, or a blog ID
+ * @param {Object} options - { countView } whether to increment views (default true)
+ * @returns {Promise<Object|null>} Blog object or null
+ */
+const getBlogBySlug = async (slug, { countView = true } = {}) => {
+  try {
+    if (!isDatabaseConnected()) {
+      logger.warn('Database not connected, cannot get blog');
+      return null;
     }
-    if (typeof tags === 'string') {
-      try {
-        tags = JSON.parse(tags);
-      } catch {
-        tags = tags.split(',').map(t => t.trim().replace(/[\[\]"]/g, '')).filter(t => t);
+
+    const normalized = String(slug || '').trim().toLowerCase();
+    if (!normalized) {
+      return null;
+    }
+
+    let blog = await Blog.findOne({ slug: normalized }).select('-revisions').lean()
+      || await Blog.findOne({ previousSlugs: normalized }).select('-revisions').lean();
+
+    if (!blog && OBJECT_ID_PATTERN.test(normalized)) {
+      blog = await Blog.findById(normalized).select('-revisions').lean();
+      if (blog && !blog.slug) {
+        blog.slug = await assignSlug(blog);
       }
     }
-    
-    // Clean up any remaining brackets, quotes, or backslashes
-    categories = Array.isArray(categories) 
-      ? categories.map(c => typeof c === 'string' ? c.replace(/[\[\]"\\]/g, '').trim() : c).filter(c => c)
-      : [];
-    tags = Array.isArray(tags)
-      ? tags.map(t => typeof t === 'string' ? t.replace(/[\[\]"\\]/g, '').trim() : t).filter(t => t)
-      : [];
 
-    return {
-      ...blog,
-      id: blog._id.toString(),
-      _id: undefined,
-      categories,
-      tags,
-    };
+    if (!blog) {
+      return null;
+    }
+
+    if (countView) {
+      await Blog.updateOne({ _id: blog._id }, { $inc: { views: 1 } });
+    }
+
+    return formatBlog(blog);
   } catch (error) {
-    logger.error('Error getting blog by ID:', error.message);
+    logger.error('Error getting blog by slug:', error.message);
     return null;
   }
 };
 
+/**
+ * Get published blogs, latest first, for the sitemap and RSS feed
+ * @param {number} limit - Maximum number of blogs
+ * @returns {Promise<Array>} Blogs
+ */
+const getPublishedBlogs = async (limit = 1000) => {
+  try {
+    if (!isDatabaseConnected()) {
+      return [];
+    }
+
+    const blogs = await Blog.find({ isPublished: true })
+      .select('-revisions')
+      .sort({ publishedAt: -1, createdAt: -1 })
+      .limit(limit)
+      .lean();
+
+    // Posts created before slugs existed get one on first listing
+    for (const blog of blogs) {
+      if (!blog.slug) {
+        blog.slug = await assignSlug(blog);
+      }
+    }
+
+    return blogs.map(formatBlog);
+  } catch (error) {
+    logger.error('Error getting published blogs:', error.message);
+    return [];
+  }
+};
+
 /**
  * Create a new blog
  * @param {Object} blogData - Blog data
@@ -218,6 +322,7 @@ const createBlog = async (blogData) => {
     const {
       title,
       content,
+      contentFormat = 'html',
       imageUrl,
       imagePublicId,
       categories = [],
@@ -225,6 +330,8 @@ const createBlog = async (blogData) => {
       exclusive = false,
       author = 'The Lal Street',
       isPublished = true,
+      status,
+      publishAt,
     } = blogData;
 
     // Validate required fields
@@ -232,6 +339,13 @@ const createBlog = async (blogData) => {
       throw new Error('Missing required fields: title, content, imageUrl');
     }
 
+    // Callers that predate the workflow only send isPublished
+    const initialStatus = status || (isPublished ? 'published' : 'draft');
+    const publishDate = publishAt ? new Date(publishAt) : null;
+    if (initialStatus === 'scheduled' && !(publishDate > new Date())) {
+      throw createWorkflowError('Scheduled posts need a publish time in the future');
+    }
+
     // Normalize categories and tags (ensure they're arrays, clean, lowercase, trim)
     // Controller should have already parsed them, but ensure they're clean arrays
     const ensureArray = (value) => {
@@ -270,13 +384,17 @@ const createBlog = async (blogData) => {
     const blog = new Blog({
       title,
       content,
+      contentFormat,
       imageUrl,
       imagePublicId,
       categories: normalizedCategories,
       tags: normalizedTags,
       exclusive,
       author,
-      isPublished,
+      status: initialStatus,
+      isPublished: initialStatus === 'published',
+      publishAt: initialStatus === 'scheduled' ? publishDate : null,
+      publishedAt: initialStatus === 'published' ? new Date() : null,
     });
 
     const savedBlog = await blog.save();
@@ -356,11 +474,7 @@ const createBlog = async (blogData) => {
       logger.warn('Error updating category/tag counts (non-critical):', updateError.message);
     }
 
-    return {
-      ...savedBlog.toObject(),
-      id: savedBlog._id.toString(),
-      _id: undefined,
-    };
+    return formatBlog(savedBlog.toObject());
   } catch (error) {
     logger.error('Error creating blog:', error.message);
     throw error;
@@ -406,12 +520,44 @@ const updateBlog = async (id, updates) => {
         .filter(tag => tag.length > 0);
     }
 
+    WORKFLOW_FIELDS.forEach((field) => {
+      delete updates[field];
+    });
+
+    // A new title gets a new slug; links to the old one redirect
+    if (updates.title && updates.title.trim() !== existingBlog.title) {
+      const slug = await Blog.generateUniqueSlug(updates.title, existingBlog._id);
+      if (slug !== existingBlog.slug) {
+        updates.slug = slug;
+        updates.previousSlugs = [
+          ...(existingBlog.previousSlugs || []).filter(previous => previous !== slug),
+          existingBlog.slug,
+        ].filter(Boolean);
+      }
+    }
+
+    // Keep the content being replaced as a revision
+    const current = existingBlog.toObject();
+    const revised = REVISED_FIELDS.some(field =>
+      updates[field] !== undefined && JSON.stringify(updates[field]) !== JSON.stringify(current[field])
+    );
+    const update = { $set: { ...updates, updatedAt: new Date() } };
+    if (revised) {
+      const version = current.version || 1;
+      const snapshot = { version, savedAt: current.updatedAt || new Date() };
+      REVISED_FIELDS.forEach((field) => {
+        snapshot[field] = current[field];
+      });
+      update.$set.version = version + 1;
+      update.$push = { revisions: { $each: [snapshot], $slice: -MAX_REVISIONS } };
+    }
+
     // Update blog
     const updatedBlog = await Blog.findByIdAndUpdate(
       id,
-      { ...updates, updatedAt: new Date() },
+      update,
       { new: true, runValidators: true }
-    ).lean();
+    ).select('-revisions').lean();
 
     // Update category and tag counts if categories/tags changed
     if (updates.categories || updates.tags) {
@@ -438,17 +584,156 @@ const updateBlog = async (id, updates) => {
       ]);
     }
 
-    return {
-      ...updatedBlog,
-      id: updatedBlog._id.toString(),
-      _id: undefined,
-    };
+    return formatBlog(updatedBlog);
   } catch (error) {
     logger.error('Error updating blog:', error.message);
     throw error;
   }
 };
 
+/**
+ * Move a post along the workflow (draft -> in review -> scheduled -> published)
+ * @param {string} id - Blog ID
+ * @param {string} status - New status
+ * @param {Date|string} [publishAt] - Required when scheduling; must be in the future
+ * @returns {Promise<Object|null>} Updated blog or null if not found
+ */
+const setBlogStatus = async (id, status, publishAt) => {
+  try {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected');
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return null;
+    }
+
+    const blog = await Blog.findById(id).select('status isPublished publishedAt').lean();
+    if (!blog) {
+      return null;
+    }
+
+    const currentStatus = statusOf(blog);
+    if (!(STATUS_TRANSITIONS[currentStatus] || []).includes(status)) {
+      throw createWorkflowError(`A ${currentStatus.replace('_', ' ')} post can't be moved to ${status.replace('_', ' ')}`);
+    }
+
+    const publishDate = publishAt ? new Date(publishAt) : null;
+    if (status === 'scheduled' && !(publishDate > new Date())) {
+      throw createWorkflowError('Scheduled posts need a publish time in the future');
+    }
+
+    const updates = {
+      status,
+      isPublished: status === 'published',
+      publishAt: status === 'scheduled' ? publishDate : null,
+    };
+    if (status === 'published' && !blog.publishedAt) {
+      updates.publishedAt = new Date();
+    }
+
+    const updatedBlog = await Blog.findByIdAndUpdate(id, { $set: updates }, { new: true })
+      .select('-revisions')
+      .lean();
+
+    logger.info(`Blog ${id} moved from ${currentStatus} to ${status}`);
+
+    return formatBlog(updatedBlog);
+  } catch (error) {
+    if (error.code !== 'INVALID_WORKFLOW') {
+      logger.error('Error changing blog status:', error.message);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Publish scheduled posts whose publish time has passed. Run by the scheduler.
+ * @returns {Promise<number>} Number of posts published
+ */
+const publishScheduledBlogs = async () => {
+  if (!isDatabaseConnected()) {
+    return 0;
+  }
+
+  const now = new Date();
+  const due = await Blog.find({ status: 'scheduled', publishAt: { $lte: now } })
+    .select('title publishAt')
+    .lean();
+
+  let published = 0;
+  for (const blog of due) {
+    // Dated by the scheduled time, even if the job runs a little later. A post
+    // edited or rescheduled since it was found is left as it now is.
+    const result = await Blog.updateOne(
+      { _id: blog._id, status: 'scheduled', publishAt: blog.publishAt },
+      { $set: { status: 'published', isPublished: true, publishedAt: blog.publishAt, publishAt: null } }
+    );
+    if (result.modifiedCount > 0) {
+      published += result.modifiedCount;
+      await recordAudit({
+        actor: SYSTEM_ACTORS.scheduler,
+        action: 'publish',
+        target: { type: 'blog', id: blog._id, label: blog.title },
+        before: { status: 'scheduled', publishAt: blog.publishAt },
+        after: { status: 'published', publishedAt: blog.publishAt },
+      });
+    }
+  }
+
+  return published;
+};
+
+/**
+ * Get the saved revisions of a post, newest first
+ * @param {string} id - Blog ID
+ * @returns {Promise<Array|null>} Revisions or null if the post is not found
+ */
+const getBlogRevisions = async (id) => {
+  try {
+    if (!isDatabaseConnected()) {
+      logger.warn('Database not connected, cannot fetch blog revisions');
+      return null;
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return null;
+    }
+
+    const blog = await Blog.findById(id).select('revisions').lean();
+
+    return blog
+      ? [...(blog.revisions || [])].reverse().map(revision => ({ ...revision, contentFormat: revision.contentFormat || 'html' }))
+      : null;
+  } catch (error) {
+    logger.error('Error getting blog revisions:', error.message);
+    return null;
+  }
+};
+
+/**
+ * Restore an earlier revision. The restored content is saved as a new version,
+ * so the content being replaced stays in the history.
+ * @param {string} id - Blog ID
+ * @param {number} version - Version to restore
+ * @returns {Promise<Object|null>} Updated blog or null if the post or revision is not found
+ */
+const restoreBlogRevision = async (id, version) => {
+  const revisions = await getBlogRevisions(id);
+  const revision = revisions?.find((entry) => entry.version === version);
+  if (!revision) {
+    return null;
+  }
+
+  const updates = {};
+  REVISED_FIELDS.forEach((field) => {
+    if (revision[field] !== undefined) {
+      updates[field] = revision[field];
+    }
+  });
+  return updateBlog(id, updates);
+};
+
 /**
  * Delete a blog
  * @param {string} id - Blog ID
@@ -545,8 +830,14 @@ const getAllTags = async () => {
 module.exports = {
   getAllBlogs,
   getBlogById,
+  getBlogBySlug,
+  getPublishedBlogs,
   createBlog,
   updateBlog,
+  setBlogStatus,
+  publishScheduledBlogs,
+  getBlogRevisions,
+  restoreBlogRevision,
   deleteBlog,
   getAllCategories,
   getAllTags,
@@ -413,7 +413,8 @@ function calculateBucketRollingStats(bucket, navDataMap) {
       analysisStartDate: sortedDates[0],
       analysisEndDate: dates[dates.length - 1], // The last date we calculated a return FOR
       totalPeriods: rollingReturnsSeries.length,
-      riskLevel: bucket.riskLevel // Persist existing risk level
+      riskLevel: bucket.riskLevel, // Persist existing risk level
+      riskMetrics: bucket.performance?.riskMetrics // Computed client-side, keep until the next admin recalculation
     };
 
   } catch (error) {
@@ -0,0 +1,68 @@
+// server/services/fundHoldings.service.js
+const path = require('path');
+const fs = require('fs');
+const logger = require('../utils/logger');
+
+const FIXTURE_PATH = path.join(__dirname, '..', 'data', 'fundHoldings.json');
+
+let cachedFunds = null;
+
+/**
+ * Load fund portfolio disclosures from the local fixture (cached after first read).
+ * Each holding has the same shape as a StockIndex constituent.
+ */
+const loadFundHoldings = () => {
+    if (cachedFunds) return cachedFunds;
+
+    const raw = JSON.parse(fs.readFileSync(FIXTURE_PATH, 'utf8'));
+    cachedFunds = (raw.funds || []).map(fund => ({
+        ...fund,
+        schemeCode: String(fund.schemeCode),
+        holdings: [...(fund.holdings || [])].sort((a, b) => b.weightage - a.weightage)
+    }));
+    return cachedFunds;
+};
+
+/**
+ * Get all funds with holdings data (metadata only, no holdings)
+ */
+const getFundsWithHoldings = () => {
+    try {
+        return loadFundHoldings().map(({ holdings, ...meta }) => ({
+            ...meta,
+            holdingsCount: holdings.length
+        }));
+    } catch (error) {
+        logger.error('Error in getFundsWithHoldings service:', error.message);
+        throw error;
+    }
+};
+
+/**
+ * Get holdings for a set of schemes
+ * @param {string[]} schemeCodes - AMFI scheme codes
+ * @returns {{ funds: object[], missing: string[] }} schemes without data are listed in `missing`
+ */
+const getHoldingsForSchemes = (schemeCodes) => {
+    try {
+        const byCode = new Map(loadFundHoldings().map(fund => [fund.schemeCode, fund]));
+        const funds = [];
+        const missing = [];
+
+        schemeCodes.forEach(code => {
+            const fund = byCode.get(String(code));
+            if (fund) funds.push(fund);
+            else missing.push(String(code));
+        });
+
+        return { funds, missing };
+    } catch (error) {
+        logger.error('Error in getHoldingsForSchemes service:', error.message);
+        throw error;
+    }
+};
+
+module.exports = {
+    getFundsWithHoldings,
+    getHoldingsForSchemes
+};
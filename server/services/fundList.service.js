@@ -3,6 +3,7 @@ const axios = require('axios');
 const { LRUCache } = require('lru-cache');
 const { getHistoricalNav } = require('./navApi.service');
 const logger = require('../utils/logger');
+const { getFundHouse } = require('../utils/fundHouses');
 const API_BASE_URL = 'https://api.mfapi.in/mf';
 
 // --- Our In-Memory Cache ---
@@ -42,9 +43,9 @@ const refreshFundCache = async () => {
 };
 
 /**
- * Fetches metadata (launch date, category) for a fund
+ * Fetches metadata (name, launch date, category) for a fund
  * @param {string} schemeCode - The fund scheme code
- * @returns {Promise<object>} Metadata object with launchDate and category
+ * @returns {Promise<object>} Metadata object with schemeName, launchDate and category
  */
 const getFundMetadata = async (schemeCode) => {
   // Check LRU cache (handles TTL automatically)
@@ -58,6 +59,7 @@ const getFundMetadata = async (schemeCode) => {
     const navData = await getHistoricalNav(schemeCode);
     if (navData && navData.meta) {
       const metadata = {
+        schemeName: navData.meta.scheme_name || null,
         launchDate: navData.data && navData.data.length > 0 
           ? navData.data[navData.data.length - 1].date // Oldest date
           : null,
@@ -73,7 +75,7 @@ const getFundMetadata = async (schemeCode) => {
     logger.error(`Error fetching metadata for ${schemeCode}:`, error.message);
   }
 
-  return { launchDate: null, category: 'Unknown' };
+  return { schemeName: null, launchDate: null, category: 'Unknown' };
 };
 
 /**
@@ -115,9 +117,28 @@ const searchFunds = async (query) => {
   return enrichedResults;
 };
 
+/**
+ * Fund houses with at least one scheme in the fund list.
+ * @returns {Promise<Array<string>>} Fund house names, as FUND_HOUSES spells them.
+ */
+const getFundHouses = async () => {
+  if (cachedFundList.length === 0 || (Date.now() - cacheTimestamp > CACHE_TTL_MS)) {
+    await refreshFundCache();
+  }
+
+  const houses = new Set();
+  cachedFundList.forEach(fund => {
+    const house = getFundHouse(fund.schemeName);
+    if (house) houses.add(house);
+  });
+  return [...houses];
+};
+
 // Initial cache fill when server starts (optional, but good)
 refreshFundCache();
 
 module.exports = {
   searchFunds,
+  getFundMetadata,
+  getFundHouses,
 };
\ No newline at end of file
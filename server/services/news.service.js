@@ -1,6 +1,11 @@
 // server/services/news.service.js
+const mongoose = require('mongoose');
 const Parser = require('rss-parser');
 const News = require('../models/News');
+const NewsAlert = require('../models/NewsAlert');
+const NewsCluster = require('../models/NewsCluster');
+const { articleShingles, minhashSignature, estimateSimilarity } = require('../utils/minhash');
+const { loadEntityDictionary, tagArticleEntities } = require('./newsEntities.service');
 const logger = require('../utils/logger');
 
 const parser = new Parser({
@@ -71,6 +76,14 @@ const RSS_FEEDS = [
     }
 ];
 
+// Articles at least this similar (estimated Jaccard of their title and description
+// words) are the same story. Errs towards keeping stories apart: a missed merge
+// shows a duplicate, a wrong one hides a story.
+const CLUSTER_SIMILARITY = 0.3;
+
+// Articles published further apart than this are never the same story
+const CLUSTER_WINDOW_MS = 36 * 60 * 60 * 1000;
+
 // Extract image URL from various RSS formats
 function extractImageUrl(item) {
     // Try different image sources
@@ -113,8 +126,9 @@ function cleanDescription(text) {
         .substring(0, 500); // Limit description length
 }
 
-// Fetch and parse a single RSS feed
-async function fetchFeed(feedConfig) {
+// Fetch and parse a single RSS feed, tagging each item with the stocks and
+// fund houses in the dictionary that it mentions
+async function fetchFeed(feedConfig, entities) {
     try {
         const feed = await parser.parseURL(feedConfig.url);
         const items = [];
@@ -127,7 +141,7 @@ async function fetchFeed(feedConfig) {
             sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
             if (publishedAt < sevenDaysAgo) continue;
 
-            items.push({
+            const article = {
                 title: item.title?.trim() || 'Untitled',
                 link: item.link,
                 description: cleanDescription(item.contentSnippet || item.description || item.summary),
@@ -136,7 +150,8 @@ async function fetchFeed(feedConfig) {
                 imageUrl: extractImageUrl(item),
                 category: feedConfig.category,
                 publishedAt
-            });
+            };
+            items.push({ ...article, ...tagArticleEntities(article, entities) });
         }
 
         return items;
@@ -146,6 +161,105 @@ async function fetchFeed(feedConfig) {
     }
 }
 
+// MinHash signature of an article's title and description
+function articleSignature(article) {
+    return minhashSignature(articleShingles(article.title, article.description));
+}
+
+// Summary of a cluster from its articles (oldest first): the canonical
+// headline is the title of the article most like the rest
+function summariseCluster(articles) {
+    let canonical = articles[0];
+    let bestScore = -1;
+    for (const article of articles) {
+        const score = articles.reduce((sum, other) => (
+            other === article ? sum : sum + estimateSimilarity(article.signature, other.signature)
+        ), 0);
+        if (score > bestScore) {
+            canonical = article;
+            bestScore = score;
+        }
+    }
+
+    return {
+        canonicalTitle: canonical.title,
+        canonicalArticle: canonical._id,
+        sources: [...new Set(articles.map(article => article.source))],
+        articleCount: articles.length,
+        firstPublishedAt: articles[0].publishedAt,
+        latestPublishedAt: articles[articles.length - 1].publishedAt
+    };
+}
+
+// Put each article without a cluster into the cluster of its most similar
+// recent article, or a new cluster of its own, then rebuild the summaries
+// of the clusters that changed
+async function clusterArticles() {
+    const sevenDaysAgo = new Date();
+    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
+
+    const fields = 'title description source publishedAt cluster';
+    const unclustered = await News.find({ cluster: null, publishedAt: { $gte: sevenDaysAgo } })
+        .select(fields)
+        .sort({ publishedAt: 1 })
+        .lean();
+    if (unclustered.length === 0) {
+        return { clustered: 0, storiesCreated: 0 };
+    }
+
+    const windowStart = new Date(unclustered[0].publishedAt.getTime() - CLUSTER_WINDOW_MS);
+    const candidates = (await News.find({ cluster: { $ne: null }, publishedAt: { $gte: windowStart } })
+        .select(fields)
+        .lean())
+        .map(article => ({ ...article, signature: articleSignature(article) }));
+
+    const assignments = [];
+    const changedClusters = new Set();
+    let storiesCreated = 0;
+
+    for (const article of unclustered) {
+        const signature = articleSignature(article);
+        let best = null;
+        for (const candidate of candidates) {
+            if (Math.abs(candidate.publishedAt - article.publishedAt) > CLUSTER_WINDOW_MS) continue;
+            const similarity = estimateSimilarity(signature, candidate.signature);
+            if (similarity >= CLUSTER_SIMILARITY && (!best || similarity > best.similarity)) {
+                best = { cluster: candidate.cluster, similarity };
+            }
+        }
+
+        const cluster = best ? best.cluster : new mongoose.Types.ObjectId();
+        if (!best) storiesCreated++;
+        // Later articles in this run can join the clusters made by earlier ones
+        candidates.push({ ...article, cluster, signature });
+        assignments.push({ updateOne: { filter: { _id: article._id }, update: { cluster } } });
+        changedClusters.add(cluster.toString());
+    }
+
+    await News.bulkWrite(assignments);
+
+    const members = await News.find({ cluster: { $in: [...changedClusters] } })
+        .select(fields)
+        .sort({ publishedAt: 1 })
+        .lean();
+    const membersByCluster = new Map();
+    for (const article of members) {
+        const key = article.cluster.toString();
+        if (!membersByCluster.has(key)) membersByCluster.set(key, []);
+        membersByCluster.get(key).push({ ...article, signature: articleSignature(article) });
+    }
+
+    await NewsCluster.bulkWrite([...membersByCluster.entries()].map(([clusterId, articles]) => ({
+        updateOne: {
+            filter: { _id: clusterId },
+            update: { $set: summariseCluster(articles) },
+            upsert: true
+        }
+    })));
+
+    return { clustered: unclustered.length, storiesCreated };
+}
+
 // Fetch all RSS feeds and save to database
 async function fetchAllNews() {
     logger.info('Starting news fetch from RSS feeds...');
@@ -155,8 +269,11 @@ async function fetchAllNews() {
     let totalSaved = 0;
     let errors = 0;
 
+    // Companies and fund houses to tag articles with, loaded once for all feeds
+    const entities = await loadEntityDictionary();
+
     // Fetch all feeds in parallel
-    const feedPromises = RSS_FEEDS.map(feed => fetchFeed(feed));
+    const feedPromises = RSS_FEEDS.map(feed => fetchFeed(feed, entities));
     const results = await Promise.all(feedPromises);
 
     // Flatten all items
@@ -180,15 +297,118 @@ async function fetchAllNews() {
         }
     }
 
+    // Group the new articles into stories. A clustering problem shouldn't fail
+    // the fetch; the articles are picked up again by the next refresh.
+    let clusterResult = { clustered: 0, storiesCreated: 0 };
+    try {
+        clusterResult = await clusterArticles();
+    } catch (error) {
+        logger.error('Error clustering news articles:', error.message);
+    }
+
     const duration = Date.now() - startTime;
-    logger.info(`News fetch complete: ${totalFetched} fetched, ${totalSaved} saved, ${errors} errors, took ${duration}ms`);
+    logger.info(`News fetch complete: ${totalFetched} fetched, ${totalSaved} saved, ${errors} errors, ${clusterResult.clustered} clustered into ${clusterResult.storiesCreated} new stories, took ${duration}ms`);
+
+    return { totalFetched, totalSaved, errors, duration, ...clusterResult };
+}
+
+// Get stories: articles grouped by cluster, newest story first. Each story is
+// led by its canonical article (or, when filters exclude that, the newest
+// matching one) and lists the other sources that covered it.
+async function getNewsStories(options = {}) {
+    const { limit = 50, page = 1 } = options;
+    const skip = (page - 1) * limit;
+
+    const [result] = await News.aggregate([
+        { $match: News.buildNewsQuery(options) },
+        { $sort: { publishedAt: -1 } },
+        {
+            $group: {
+                _id: { $ifNull: ['$cluster', '$_id'] },
+                articleIds: { $push: '$_id' },
+                latestPublishedAt: { $max: '$publishedAt' }
+            }
+        },
+        { $sort: { latestPublishedAt: -1, _id: -1 } },
+        {
+            $facet: {
+                stories: [{ $skip: skip }, { $limit: limit }],
+                total: [{ $count: 'count' }]
+            }
+        }
+    ]);
+
+    const groups = result.stories;
+    const groupIds = groups.map(group => group._id);
+    const [clusters, articles] = await Promise.all([
+        NewsCluster.find({ _id: { $in: groupIds } }).lean(),
+        News.find({ isActive: true, $or: [{ cluster: { $in: groupIds } }, { _id: { $in: groupIds } }] })
+            .sort({ publishedAt: 1 })
+            .lean()
+    ]);
+
+    const clustersById = new Map(clusters.map(cluster => [cluster._id.toString(), cluster]));
+    const articlesById = new Map(articles.map(article => [article._id.toString(), article]));
+    const membersByGroup = new Map();
+    for (const article of articles) {
+        const key = (article.cluster || article._id).toString();
+        if (!membersByGroup.has(key)) membersByGroup.set(key, []);
+        membersByGroup.get(key).push(article);
+    }
+
+    const data = groups.flatMap(group => {
+        const key = group._id.toString();
+        const cluster = clustersById.get(key);
+        const members = membersByGroup.get(key) || [];
+        const matchingIds = group.articleIds.map(id => id.toString());
+        const canonicalId = cluster?.canonicalArticle.toString();
+        const lead = articlesById.get(matchingIds.includes(canonicalId) ? canonicalId : matchingIds[0]);
+        if (!lead) return []; // removed since the aggregation ran
 
-    return { totalFetched, totalSaved, errors, duration };
+        const alsoCoveredBy = [];
+        const seenSources = new Set([lead.source]);
+        for (const article of members) {
+            if (seenSources.has(article.source)) continue;
+            seenSources.add(article.source);
+            alsoCoveredBy.push({
+                _id: article._id,
+                source: article.source,
+                title: article.title,
+                link: article.link,
+                publishedAt: article.publishedAt
+            });
+        }
+
+        return [{
+            ...lead,
+            story: {
+                id: key,
+                headline: cluster?.canonicalTitle || lead.title,
+                articleCount: members.length,
+                sources: [...new Set(members.map(article => article.source))]
+            },
+            alsoCoveredBy
+        }];
+    });
+
+    const total = result.total[0]?.count || 0;
+    return {
+        data,
+        pagination: {
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit)
+        }
+    };
 }
 
-// Get news with filters
+// Get news with filters, grouped into stories unless `grouped` is false
 async function getNews(options = {}) {
-    return News.getRecentNews(options);
+    if (options.grouped === false) {
+        return News.getRecentNews(options);
+    }
+    return getNewsStories(options);
 }
 
 // Get available sources
@@ -206,7 +426,10 @@ async function getCategories() {
 // Cleanup old news
 async function cleanupOldNews() {
     const deleted = await News.cleanupOldNews();
-    logger.info(`Cleaned up ${deleted} old news articles`);
+    // Watchlist matches go with the articles they point to
+    const alertsDeleted = await NewsAlert.cleanupOldAlerts();
+    const clustersDeleted = await NewsCluster.cleanupOldClusters();
+    logger.info(`Cleaned up ${deleted} old news articles, ${alertsDeleted} watchlist matches and ${clustersDeleted} stories`);
     return deleted;
 }
 
@@ -0,0 +1,113 @@
+// server/services/newsEntities.service.js
+const { getAllConstituents } = require('./stockIndex.service');
+const { getFundHouses } = require('./fundList.service');
+const logger = require('../utils/logger');
+
+// Legal and filler endings of company names, which the news leaves out
+// (e.g. "Reliance Industries Ltd." is "Reliance Industries")
+const COMPANY_SUFFIX = /[\s,]+(ltd\.?|limited|\(india\)|co\.?|company|corporation|corp\.?)\s*$/i;
+
+// Names that mean something else in market news: "BSE" is nearly always the
+// exchange or its Sensex, not BSE Ltd. the stock
+const AMBIGUOUS_NAMES = new Set(['BSE', 'INDIA']);
+
+// How the news names a fund house when it means the AMC and not the
+// group's bank or other businesses ("HDFC Mutual Fund", not "HDFC Bank")
+const AMC_SUFFIX = '(mutual fund|mf|amc|asset management|asset managers|investment managers|funds management)';
+
+// Stock names and symbols shorter than this are too likely to be something else
+const MIN_TERM_LENGTH = 3;
+
+const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * One pattern for a list of terms, each matched as a whole word. Longest
+ * first, so "Tata Motors" is found before "Tata".
+ */
+const buildPattern = (terms, suffix = '', flags = 'gu') => {
+  if (terms.length === 0) return null;
+  const alternatives = [...terms].sort((a, b) => b.length - a.length).map(escapeRegex).join('|');
+  return new RegExp(`(?<![\\p{L}\\p{N}&])(${alternatives})${suffix ? `\\s+${suffix}` : ''}(?![\\p{L}\\p{N}&])`, flags);
+};
+
+/**
+ * A company's name as the news writes it
+ * @param {string} companyName - e.g. "Tata Consultancy Services Ltd."
+ * @returns {string} e.g. "Tata Consultancy Services"
+ */
+const getShortCompanyName = (companyName) => {
+  let name = String(companyName || '').trim();
+  while (COMPANY_SUFFIX.test(name)) {
+    name = name.replace(COMPANY_SUFFIX, '');
+  }
+  return name.trim();
+};
+
+/**
+ * Load the companies and fund houses to look for in the news: the stocks in
+ * the stock indices and the fund houses in the fund list. Loaded once per
+ * refresh; either half is empty if it can't be loaded.
+ * @returns {Promise<{stockPattern: RegExp|null, symbolsByTerm: Map<string, string>, amcPattern: RegExp|null, amcsByTerm: Map<string, string>}>}
+ */
+const loadEntityDictionary = async () => {
+  const [constituents, fundHouses] = await Promise.all([
+    getAllConstituents().catch((error) => {
+      logger.error('Error loading stocks for news tagging:', error.message);
+      return [];
+    }),
+    getFundHouses().catch((error) => {
+      logger.error('Error loading fund houses for news tagging:', error.message);
+      return [];
+    }),
+  ]);
+
+  // Symbols match in capitals only and names as capitalised, so "trent" or
+  // "titan" in a sentence doesn't count
+  const symbolsByTerm = new Map();
+  constituents.forEach(({ symbol, companyName }) => {
+    [symbol, getShortCompanyName(companyName)].forEach((term) => {
+      if (term.length >= MIN_TERM_LENGTH && !AMBIGUOUS_NAMES.has(term.toUpperCase()) && !symbolsByTerm.has(term)) {
+        symbolsByTerm.set(term, symbol);
+      }
+    });
+  });
+
+  const amcsByTerm = new Map(fundHouses.map((house) => [house.toLowerCase(), house]));
+
+  return {
+    stockPattern: buildPattern([...symbolsByTerm.keys()]),
+    symbolsByTerm,
+    amcPattern: buildPattern(fundHouses, AMC_SUFFIX, 'giu'),
+    amcsByTerm,
+  };
+};
+
+/**
+ * The stocks and fund houses an article mentions in its title or description
+ * @param {{title: string, description?: string}} article
+ * @param {object} dictionary - From loadEntityDictionary
+ * @returns {{symbols: string[], amcs: string[]}}
+ */
+const tagArticleEntities = (article, dictionary) => {
+  const text = `${article.title} ${article.description || ''}`;
+  const symbols = new Set();
+  const amcs = new Set();
+
+  if (dictionary.stockPattern) {
+    for (const match of text.matchAll(dictionary.stockPattern)) {
+      symbols.add(dictionary.symbolsByTerm.get(match[1]));
+    }
+  }
+  if (dictionary.amcPattern) {
+    for (const match of text.matchAll(dictionary.amcPattern)) {
+      amcs.add(dictionary.amcsByTerm.get(match[1].toLowerCase()));
+    }
+  }
+
+  return { symbols: [...symbols], amcs: [...amcs] };
+};
+
+module.exports = {
+  loadEntityDictionary,
+  tagArticleEntities,
+};
@@ -0,0 +1,315 @@
+// server/services/portfolios.service.js
+const mongoose = require('mongoose');
+const Portfolio = require('../models/Portfolio');
+const { MAX_VERSIONS } = require('../models/Portfolio');
+const logger = require('../utils/logger');
+
+// Fields that create a new version when changed
+const VERSIONED_FIELDS = ['name', 'funds', 'swpConfig'];
+
+/**
+ * Check if database is connected
+ * @returns {boolean}
+ */
+const isDatabaseConnected = () => {
+  return mongoose.connection.readyState === 1; // 1 = connected
+};
+
+/**
+ * Convert a portfolio document to the shape sent to clients.
+ * Version snapshots are only returned by getPortfolioVersions().
+ */
+const toPortfolio = (portfolio) => {
+  const { _id, user, versions, __v, ...rest } = portfolio;
+  return {
+    ...rest,
+    id: _id.toString(),
+  };
+};
+
+/**
+ * Error thrown when an update was made against a stale version
+ */
+const createVersionConflictError = (currentVersion) => {
+  const error = new Error(`Portfolio has changed since version was loaded (current version ${currentVersion})`);
+  error.code = 'VERSION_CONFLICT';
+  error.currentVersion = currentVersion;
+  return error;
+};
+
+/**
+ * Get all portfolios owned by a user, most recently updated first
+ * @param {string} userId - Owner's user ID
+ * @returns {Promise<Array>}
+ */
+const getPortfoliosForUser = async (userId) => {
+  try {
+    if (!isDatabaseConnected()) {
+      logger.warn('Database not connected, returning empty array for portfolios');
+      return [];
+    }
+
+    const portfolios = await Portfolio.find({ user: userId })
+      .select('-versions')
+      .sort({ updatedAt: -1 })
+      .lean();
+
+    return portfolios.map(toPortfolio);
+  } catch (error) {
+    logger.error('Error getting portfolios:', error.message);
+    logger.error('Error stack:', error.stack);
+    return [];
+  }
+};
+
+/**
+ * Get a single portfolio owned by a user
+ * @param {string} userId - Owner's user ID
+ * @param {string} portfolioId - MongoDB ObjectId
+ * @returns {Promise<Object|null>}
+ */
+const getPortfolioForUser = async (userId, portfolioId) => {
+  try {
+    if (!isDatabaseConnected()) {
+      logger.warn('Database not connected, cannot fetch portfolio');
+      return null;
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(portfolioId)) {
+      logger.warn(`Invalid portfolio ID format: ${portfolioId}`);
+      return null;
+    }
+
+    const portfolio = await Portfolio.findOne({ _id: portfolioId, user: userId })
+      .select('-versions')
+      .lean();
+
+    return portfolio ? toPortfolio(portfolio) : null;
+  } catch (error) {
+    logger.error('Error getting portfolio by ID:', error.message);
+    logger.error('Error stack:', error.stack);
+    return null;
+  }
+};
+
+/**
+ * Create a portfolio for a user
+ * @param {string} userId - Owner's user ID
+ * @param {Object} portfolioData - name, funds and optional swpConfig
+ * @returns {Promise<Object>} Created portfolio at version 1
+ */
+const createPortfolio = async (userId, portfolioData) => {
+  try {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected. Cannot create portfolio.');
+    }
+
+    const { name, funds, swpConfig } = portfolioData;
+    const portfolio = new Portfolio({
+      user: userId,
+      name,
+      funds,
+      swpConfig: swpConfig || null,
+    });
+    await portfolio.save();
+
+    logger.info(`Created portfolio ${portfolio._id} for user ${userId}`);
+
+    return toPortfolio(portfolio.toObject());
+  } catch (error) {
+    logger.error('Error creating portfolio:', error.message);
+    logger.error('Error stack:', error.stack);
+    throw error;
+  }
+};
+
+/**
+ * Update a portfolio's name, funds or swpConfig.
+ * The previous state is kept as a snapshot and the version is incremented.
+ * @param {string} userId - Owner's user ID
+ * @param {string} portfolioId - MongoDB ObjectId
+ * @param {Object} updates - Partial portfolio data
+ * @param {number} [expectedVersion] - Rejects the update if the stored version differs
+ * @returns {Promise<Object|null>} Updated portfolio or null if not found
+ */
+const updatePortfolio = async (userId, portfolioId, updates, expectedVersion) => {
+  try {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected. Cannot update portfolio.');
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(portfolioId)) {
+      logger.warn(`Invalid portfolio ID format: ${portfolioId}`);
+      return null;
+    }
+
+    const portfolio = await Portfolio.findOne({ _id: portfolioId, user: userId });
+    if (!portfolio) {
+      return null;
+    }
+
+    if (expectedVersion !== undefined && portfolio.version !== expectedVersion) {
+      throw createVersionConflictError(portfolio.version);
+    }
+
+    const changes = VERSIONED_FIELDS.filter((field) => updates[field] !== undefined);
+    if (changes.length === 0) {
+      return toPortfolio(portfolio.toObject());
+    }
+
+    portfolio.versions.push({
+      version: portfolio.version,
+      name: portfolio.name,
+      funds: portfolio.funds,
+      swpConfig: portfolio.swpConfig,
+      savedAt: portfolio.updatedAt || new Date(),
+    });
+    if (portfolio.versions.length > MAX_VERSIONS) {
+      portfolio.versions.splice(0, portfolio.versions.length - MAX_VERSIONS);
+    }
+
+    changes.forEach((field) => {
+      portfolio[field] = updates[field];
+    });
+    portfolio.version += 1;
+    await portfolio.save();
+
+    logger.info(`Updated portfolio ${portfolioId} to version ${portfolio.version}`);
+
+    return toPortfolio(portfolio.toObject());
+  } catch (error) {
+    if (error.code !== 'VERSION_CONFLICT') {
+      logger.error('Error updating portfolio:', error.message);
+      logger.error('Error stack:', error.stack);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Store the results of the last calculation. Does not create a new version.
+ * @param {string} userId - Owner's user ID
+ * @param {string} portfolioId - MongoDB ObjectId
+ * @param {Object} results - Calculation summary
+ * @returns {Promise<Object|null>} Updated portfolio or null if not found
+ */
+const savePortfolioResults = async (userId, portfolioId, results) => {
+  try {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected. Cannot save portfolio results.');
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(portfolioId)) {
+      logger.warn(`Invalid portfolio ID format: ${portfolioId}`);
+      return null;
+    }
+
+    const portfolio = await Portfolio.findOneAndUpdate(
+      { _id: portfolioId, user: userId },
+      { lastResults: results, lastCalculatedAt: new Date() },
+      { new: true }
+    )
+      .select('-versions')
+      .lean();
+
+    return portfolio ? toPortfolio(portfolio) : null;
+  } catch (error) {
+    logger.error('Error saving portfolio results:', error.message);
+    logger.error('Error stack:', error.stack);
+    throw error;
+  }
+};
+
+/**
+ * Get the saved snapshots of a portfolio, newest first
+ * @param {string} userId - Owner's user ID
+ * @param {string} portfolioId - MongoDB ObjectId
+ * @returns {Promise<Array|null>} Snapshots or null if the portfolio is not found
+ */
+const getPortfolioVersions = async (userId, portfolioId) => {
+  try {
+    if (!isDatabaseConnected()) {
+      logger.warn('Database not connected, cannot fetch portfolio versions');
+      return null;
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(portfolioId)) {
+      logger.warn(`Invalid portfolio ID format: ${portfolioId}`);
+      return null;
+    }
+
+    const portfolio = await Portfolio.findOne({ _id: portfolioId, user: userId })
+      .select('versions')
+      .lean();
+
+    return portfolio ? [...portfolio.versions].reverse() : null;
+  } catch (error) {
+    logger.error('Error getting portfolio versions:', error.message);
+    logger.error('Error stack:', error.stack);
+    return null;
+  }
+};
+
+/**
+ * Restore an earlier version. The restored state is saved as a new version,
+ * so the state being replaced stays in the history.
+ * @param {string} userId - Owner's user ID
+ * @param {string} portfolioId - MongoDB ObjectId
+ * @param {number} version - Version to restore
+ * @returns {Promise<Object|null>} Updated portfolio or null if the portfolio or version is not found
+ */
+const restorePortfolioVersion = async (userId, portfolioId, version) => {
+  const versions = await getPortfolioVersions(userId, portfolioId);
+  const snapshot = versions?.find((entry) => entry.version === version);
+  if (!snapshot) {
+    return null;
+  }
+
+  return updatePortfolio(userId, portfolioId, {
+    name: snapshot.name,
+    funds: snapshot.funds,
+    swpConfig: snapshot.swpConfig,
+  });
+};
+
+/**
+ * Delete a portfolio owned by a user
+ * @param {string} userId - Owner's user ID
+ * @param {string} portfolioId - MongoDB ObjectId
+ * @returns {Promise<boolean>} True if deleted, false if not found
+ */
+const deletePortfolio = async (userId, portfolioId) => {
+  try {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected. Cannot delete portfolio.');
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(portfolioId)) {
+      logger.warn(`Invalid portfolio ID format: ${portfolioId}`);
+      return false;
+    }
+
+    const result = await Portfolio.findOneAndDelete({ _id: portfolioId, user: userId });
+    if (!result) {
+      return false;
+    }
+
+    logger.info(`Deleted portfolio ${portfolioId} for user ${userId}`);
+    return true;
+  } catch (error) {
+    logger.error('Error deleting portfolio:', error.message);
+    logger.error('Error stack:', error.stack);
+    throw error;
+  }
+};
+
+module.exports = {
+  getPortfoliosForUser,
+  getPortfolioForUser,
+  createPortfolio,
+  updatePortfolio,
+  savePortfolioResults,
+  getPortfolioVersions,
+  restorePortfolioVersion,
+  deletePortfolio,
+};
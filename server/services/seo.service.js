@@ -0,0 +1,313 @@
+// server/services/seo.service.js
+const axios = require('axios');
+const logger = require('../utils/logger');
+const { renderMarkdown, markdownToText } = require('../utils/markdown');
+const { sanitizeHtml } = require('../utils/sanitizeHtml');
+
+/**
+ * Crawler-facing pages for the blog: the sitemap, the RSS feed and blog posts
+ * rendered into the client's HTML shell with OpenGraph/Twitter meta.
+ * The client deployment proxies these paths here, so absolute URLs point at
+ * the site (FRONTEND_URL), not at this API.
+ */
+
+const SITE_URL = (process.env.FRONTEND_URL || 'http://localhost:5173').replace(/\/+$/, '');
+const SITE_NAME = 'The Lal Street';
+const SITE_DESCRIPTION = 'Mutual fund portfolio analysis, calculators and market insights from The Lal Street.';
+const DESCRIPTION_LENGTH = 160;
+const SHELL_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+// Pages without params that search engines should index
+const STATIC_PAGES = [
+  { path: '/', changefreq: 'daily', priority: '1.0' },
+  { path: '/investment-plan', changefreq: 'monthly', priority: '0.8' },
+  { path: '/retirement-plan', changefreq: 'monthly', priority: '0.8' },
+  { path: '/holdings', changefreq: 'weekly', priority: '0.6' },
+  { path: '/compare', changefreq: 'weekly', priority: '0.6' },
+  { path: '/financial-planning', changefreq: 'monthly', priority: '0.6' },
+  { path: '/indices', changefreq: 'daily', priority: '0.6' },
+  { path: '/news', changefreq: 'hourly', priority: '0.6' },
+  { path: '/blogs', changefreq: 'daily', priority: '0.8' },
+];
+
+// What crawlers and feed readers see in place of a post's live embeds
+const EMBED_LABELS = {
+  'fund-chart': 'Interactive fund chart',
+  bucket: 'Suggested portfolio',
+  'sip-calculator': 'Interactive SIP calculator',
+};
+
+let cachedShell = null;
+let cachedShellAt = 0;
+
+const escapeXml = (value) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+const cdata = (value) => `<![CDATA[${String(value ?? '').replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+const blogUrl = (blog) => `${SITE_URL}/blogs/${encodeURIComponent(blog.slug)}`;
+
+// Scheduled posts are dated by when they went live
+const publishedDate = (blog) => new Date(blog.publishedAt || blog.createdAt);
+
+/**
+ * A post's content as HTML. Markdown embeds become links to the post, where
+ * they run; HTML posts are cut down to the tags, attributes and URLs on the
+ * allowlist (utils/sanitizeHtml).
+ * @param {Object} blog - Formatted blog
+ * @param {Object} options
+ * @param {boolean} [options.absoluteUrls] - Make site paths absolute, for the feed
+ * @returns {Promise<string>}
+ */
+const renderContent = async (blog, { absoluteUrls = false } = {}) => {
+  if (blog.contentFormat !== 'markdown') {
+    return sanitizeHtml(blog.content);
+  }
+  return renderMarkdown(blog.content, {
+    baseUrl: absoluteUrls ? SITE_URL : undefined,
+    renderEmbed: name => `<p><a href="${escapeXml(blogUrl(blog))}">${escapeXml(EMBED_LABELS[name] || 'Interactive content')}: open the post to use it</a></p>`,
+  });
+};
+
+// A post's words, without markup
+const plainText = async (blog) => {
+  if (blog.contentFormat === 'markdown') {
+    return markdownToText(blog.content);
+  }
+  return String(blog.content || '')
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'");
+};
+
+/**
+ * Plain-text summary of a post's content, cut at a word boundary
+ * @param {Object} blog - Formatted blog
+ * @param {number} length - Maximum length
+ * @returns {Promise<string>}
+ */
+const summarize = async (blog, length = DESCRIPTION_LENGTH) => {
+  const text = (await plainText(blog)).replace(/\s+/g, ' ').trim();
+
+  if (text.length <= length) return text;
+  const cut = text.slice(0, length - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > length / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s.,;:]+$/, '')}…`;
+};
+
+/**
+ * The client's index.html, fetched from the site and cached. Blog pages are
+ * rendered into it so visitors get the full app and crawlers get the post.
+ * @returns {Promise<string|null>} HTML, or null if the site can't be reached
+ */
+const getAppShell = async () => {
+  if (cachedShell && Date.now() - cachedShellAt < SHELL_TTL_MS) {
+    return cachedShell;
+  }
+
+  try {
+    const response = await axios.get(`${SITE_URL}/`, {
+      timeout: 5000,
+      responseType: 'text',
+      headers: { Accept: 'text/html' },
+    });
+    if (typeof response.data === 'string' && response.data.includes('id="root"')) {
+      cachedShell = response.data;
+      cachedShellAt = Date.now();
+    }
+  } catch (error) {
+    logger.warn('Could not fetch app shell for blog page:', error.message);
+  }
+
+  // A stale shell is better than none
+  return cachedShell;
+};
+
+/**
+ * Head tags for a blog post: description, canonical URL, OpenGraph, Twitter
+ * card and schema.org BlogPosting data
+ */
+const renderBlogMeta = async (blog) => {
+  const url = blogUrl(blog);
+  const title = `${blog.title} | ${SITE_NAME}`;
+  const description = await summarize(blog);
+  const published = publishedDate(blog).toISOString();
+  const modified = new Date(blog.updatedAt || blog.createdAt).toISOString();
+
+  const structuredData = {
+    '@context': 'https://schema.org',
+    '@type': 'BlogPosting',
+    headline: blog.title,
+    description,
+    image: blog.imageUrl ? [blog.imageUrl] : undefined,
+    datePublished: published,
+    dateModified: modified,
+    author: { '@type': 'Organization', name: blog.author || SITE_NAME },
+    publisher: { '@type': 'Organization', name: SITE_NAME, logo: { '@type': 'ImageObject', url: `${SITE_URL}/logo.png` } },
+    mainEntityOfPage: url,
+    keywords: blog.tags && blog.tags.length > 0 ? blog.tags.join(', ') : undefined,
+  };
+
+  return [
+    `<title>${escapeXml(title)}</title>`,
+    `<meta name="description" content="${escapeXml(description)}" />`,
+    `<link rel="canonical" href="${escapeXml(url)}" />`,
+    `<link rel="alternate" type="application/rss+xml" title="${escapeXml(SITE_NAME)} Blog" href="${SITE_URL}/rss.xml" />`,
+    '<meta property="og:type" content="article" />',
+    `<meta property="og:site_name" content="${escapeXml(SITE_NAME)}" />`,
+    `<meta property="og:title" content="${escapeXml(blog.title)}" />`,
+    `<meta property="og:description" content="${escapeXml(description)}" />`,
+    `<meta property="og:url" content="${escapeXml(url)}" />`,
+    blog.imageUrl ? `<meta property="og:image" content="${escapeXml(blog.imageUrl)}" />` : '',
+    `<meta property="article:published_time" content="${published}" />`,
+    `<meta property="article:modified_time" content="${modified}" />`,
+    `<meta property="article:author" content="${escapeXml(blog.author || SITE_NAME)}" />`,
+    ...(blog.categories || []).map(category => `<meta property="article:section" content="${escapeXml(category)}" />`),
+    ...(blog.tags || []).map(tag => `<meta property="article:tag" content="${escapeXml(tag)}" />`),
+    `<meta name="twitter:card" content="${blog.imageUrl ? 'summary_large_image' : 'summary'}" />`,
+    `<meta name="twitter:title" content="${escapeXml(blog.title)}" />`,
+    `<meta name="twitter:description" content="${escapeXml(description)}" />`,
+    blog.imageUrl ? `<meta name="twitter:image" content="${escapeXml(blog.imageUrl)}" />` : '',
+    // "<" is escaped so the post can't close the script tag
+    `<script type="application/ld+json">${JSON.stringify(structuredData).replace(/</g, '\\u003c')}</script>`,
+  ].filter(Boolean).join('\n    ');
+};
+
+/**
+ * The post itself, for crawlers and for visitors before the app loads
+ */
+const renderBlogArticle = async (blog) => {
+  const date = publishedDate(blog).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+
+  return `<article>
+      <h1>${escapeXml(blog.title)}</h1>
+      <p>${escapeXml(blog.author || SITE_NAME)} · <time datetime="${publishedDate(blog).toISOString()}">${date}</time></p>
+      ${blog.imageUrl ? `<img src="${escapeXml(blog.imageUrl)}" alt="${escapeXml(blog.title)}" />` : ''}
+      <div>${await renderContent(blog)}</div>
+      <p><a href="/blogs">More posts from ${escapeXml(SITE_NAME)}</a></p>
+    </article>`;
+};
+
+/**
+ * HTML page for a blog post. The post is rendered into the app shell's root
+ * element, which the app replaces once it loads. Without a shell, a
+ * standalone page is returned.
+ * @param {Object} blog - Formatted blog
+ * @param {string|null} shell - Client index.html
+ * @returns {Promise<string>}
+ */
+const renderBlogPage = async (blog, shell) => {
+  const [meta, article] = await Promise.all([renderBlogMeta(blog), renderBlogArticle(blog)]);
+
+  if (!shell) {
+    return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <link rel="icon" type="image/png" href="/favicon.png" />
+    ${meta}
+  </head>
+  <body>
+    ${article}
+  </body>
+</html>`;
+  }
+
+  // Function replacements, so "$" in a post isn't read as a replacement pattern
+  return shell
+    .replace(/<title>[\s\S]*?<\/title>/i, '')
+    .replace('</head>', () => `  ${meta}\n  </head>`)
+    .replace(/<div id="root"><\/div>/, () => `<div id="root">${article}</div>`);
+};
+
+/**
+ * sitemap.xml with the static pages and every published post
+ * @param {Array} blogs - Published blogs, latest first
+ * @returns {string}
+ */
+const renderSitemap = (blogs) => {
+  const pages = STATIC_PAGES.map(page => `  <url>
+    <loc>${SITE_URL}${page.path}</loc>
+    <changefreq>${page.changefreq}</changefreq>
+    <priority>${page.priority}</priority>
+  </url>`);
+
+  const posts = blogs.map(blog => `  <url>
+    <loc>${escapeXml(blogUrl(blog))}</loc>
+    <lastmod>${new Date(blog.updatedAt || blog.createdAt).toISOString()}</lastmod>
+    <changefreq>weekly</changefreq>
+    <priority>0.7</priority>
+  </url>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${[...pages, ...posts].join('\n')}
+</urlset>
+`;
+};
+
+/**
+ * RSS 2.0 feed of published posts, with the full content in content:encoded
+ * @param {Array} blogs - Published blogs, latest first
+ * @returns {Promise<string>}
+ */
+const renderRssFeed = async (blogs) => {
+  const lastBuild = blogs.length > 0
+    ? new Date(Math.max(...blogs.map(blog => new Date(blog.updatedAt || blog.createdAt).getTime())))
+    : new Date();
+
+  const items = await Promise.all(blogs.map(async blog => `    <item>
+      <title>${escapeXml(blog.title)}</title>
+      <link>${escapeXml(blogUrl(blog))}</link>
+      <guid isPermaLink="false">${blog.id}</guid>
+      <pubDate>${publishedDate(blog).toUTCString()}</pubDate>
+      <dc:creator>${escapeXml(blog.author || SITE_NAME)}</dc:creator>
+${(blog.categories || []).map(category => `      <category>${escapeXml(category)}</category>\n`).join('')}      <description>${escapeXml(await summarize(blog, 300))}</description>
+      <content:encoded>${cdata(`${blog.imageUrl ? `<p><img src="${escapeXml(blog.imageUrl)}" alt="${escapeXml(blog.title)}" /></p>` : ''}${await renderContent(blog, { absoluteUrls: true })}`)}</content:encoded>
+    </item>`));
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXml(SITE_NAME)} Blog</title>
+    <link>${SITE_URL}/blogs</link>
+    <description>${escapeXml(SITE_DESCRIPTION)}</description>
+    <language>en</language>
+    <lastBuildDate>${lastBuild.toUTCString()}</lastBuildDate>
+    <atom:link href="${SITE_URL}/rss.xml" rel="self" type="application/rss+xml" />
+${items.join('\n')}
+  </channel>
+</rss>
+`;
+};
+
+/**
+ * robots.txt pointing crawlers at the sitemap
+ */
+const renderRobots = () => `User-agent: *
+Disallow: /admin
+
+Sitemap: ${SITE_URL}/sitemap.xml
+`;
+
+module.exports = {
+  getAppShell,
+  renderBlogPage,
+  renderSitemap,
+  renderRssFeed,
+  renderRobots,
+};
@@ -56,7 +56,33 @@ const getIndexBySlug = async (slug, search = '') => {
     }
 };
 
+/**
+ * Get every stock in any index, once each (symbol and company name only)
+ */
+const getAllConstituents = async () => {
+    try {
+        const indices = await StockIndex.find({}, {
+            'constituents.symbol': 1,
+            'constituents.companyName': 1
+        }).lean();
+
+        const bySymbol = new Map();
+        indices.forEach(index => {
+            (index.constituents || []).forEach(({ symbol, companyName }) => {
+                if (symbol && !bySymbol.has(symbol)) {
+                    bySymbol.set(symbol, { symbol, companyName });
+                }
+            });
+        });
+        return [...bySymbol.values()];
+    } catch (error) {
+        logger.error('Error in getAllConstituents service:', error.message);
+        throw error;
+    }
+};
+
 module.exports = {
     getAllIndices,
-    getIndexBySlug
+    getIndexBySlug,
+    getAllConstituents
 };
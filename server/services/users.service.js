@@ -0,0 +1,101 @@
+// server/services/users.service.js
+const mongoose = require('mongoose');
+const User = require('../models/User');
+const { USER_ROLES } = require('../models/User');
+const logger = require('../utils/logger');
+
+/**
+ * Check if database is connected
+ * @returns {boolean}
+ */
+const isDatabaseConnected = () => {
+  return mongoose.connection.readyState === 1; // 1 = connected
+};
+
+/**
+ * Convert a user document to the shape shown in the admin panel
+ */
+const toStaffMember = (user) => ({
+  id: user._id.toString(),
+  email: user.email,
+  name: user.name,
+  picture: user.picture,
+  role: user.role,
+  permissions: user.getPermissions(),
+  lastLoginAt: user.lastLoginAt,
+});
+
+/**
+ * Error thrown when a role can't be given to a user
+ */
+const createRoleError = (message) => {
+  const error = new Error(message);
+  error.code = 'INVALID_ROLE_CHANGE';
+  return error;
+};
+
+/**
+ * Get every user with a staff role, admins first
+ * @returns {Promise<Array>}
+ */
+const getStaff = async () => {
+  try {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected. Cannot fetch staff.');
+    }
+
+    const users = await User.find({ role: { $ne: 'user' } }).select('-password');
+    const rank = (user) => USER_ROLES.length - USER_ROLES.indexOf(user.role);
+    return users
+      .sort((a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name))
+      .map(toStaffMember);
+  } catch (error) {
+    logger.error('Error fetching staff:', error.message);
+    throw error;
+  }
+};
+
+/**
+ * Give a user a role. They must have signed up already, with email or Google.
+ * @param {string} email - The user's login email
+ * @param {string} role - One of USER_ROLES; 'user' removes admin panel access
+ * @param {Object} changedBy - The admin making the change
+ * @returns {Promise<Object|null>} { member, previousRole }, or null if no such user
+ */
+const setUserRole = async (email, role, changedBy) => {
+  try {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected. Cannot change roles.');
+    }
+    if (!USER_ROLES.includes(role)) {
+      throw createRoleError(`Invalid role. Use one of: ${USER_ROLES.join(', ')}`);
+    }
+
+    const user = await User.findOne({ email: String(email).toLowerCase().trim() });
+    if (!user) {
+      return null;
+    }
+    // Keeps at least one admin: the one making the change
+    if (user._id.equals(changedBy._id) && role !== user.role) {
+      throw createRoleError('You cannot change your own role');
+    }
+
+    const previousRole = user.role;
+    user.role = role;
+    await user.save();
+
+    logger.info(`${changedBy.email} changed ${user.email}'s role from ${previousRole} to ${role}`);
+
+    return { member: toStaffMember(user), previousRole };
+  } catch (error) {
+    if (error.code !== 'INVALID_ROLE_CHANGE') {
+      logger.error('Error changing user role:', error.message);
+    }
+    throw error;
+  }
+};
+
+module.exports = {
+  getStaff,
+  setUserRole,
+};
@@ -0,0 +1,472 @@
+// server/services/watchlists.service.js
+const mongoose = require('mongoose');
+const Watchlist = require('../models/Watchlist');
+const { MAX_WATCHLISTS, MAX_KEYWORDS, MAX_SCHEMES } = require('../models/Watchlist');
+const NewsAlert = require('../models/NewsAlert');
+const News = require('../models/News');
+const logger = require('../utils/logger');
+const { getFundHouse } = require('../utils/fundHouses');
+
+// A saved watchlist is matched against this much past news (old news is cleaned up after 7 days)
+const BACKFILL_DAYS = 7;
+
+/**
+ * Check if database is connected
+ * @returns {boolean}
+ */
+const isDatabaseConnected = () => {
+  return mongoose.connection.readyState === 1; // 1 = connected
+};
+
+/**
+ * Error thrown when a watchlist can't be saved as given
+ */
+const createWatchlistError = (message) => {
+  const error = new Error(message);
+  error.code = 'INVALID_WATCHLIST';
+  return error;
+};
+
+const escapeRegex = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const uniqueBy = (items, key) => {
+  const seen = new Set();
+  return items.filter((item) => {
+    const value = key(item);
+    if (seen.has(value)) return false;
+    seen.add(value);
+    return true;
+  });
+};
+
+/**
+ * What to look for in the news for a scheme: its fund house and its name
+ * without plan and option, e.g. "HDFC Mid-Cap Opportunities Fund - Direct Plan - Growth"
+ * gives ["HDFC", "HDFC Mid-Cap Opportunities"]
+ * @param {string} schemeName
+ * @returns {string[]}
+ */
+const getSchemeTerms = (schemeName) => {
+  const terms = [];
+  const fundHouse = getFundHouse(schemeName);
+  if (fundHouse) {
+    terms.push(fundHouse);
+  }
+
+  const shortName = schemeName
+    .split(/\s+-\s+|\s*\(/)[0]
+    .replace(/[\s-]+(direct|regular|growth|idcw|dividend)\b.*$/i, '')
+    .replace(/\s+(fund|scheme)\s*$/i, '')
+    .trim();
+  if (shortName && shortName.toLowerCase() !== fundHouse?.toLowerCase()) {
+    terms.push(shortName);
+  }
+  return terms;
+};
+
+/**
+ * The terms a watchlist looks for, each as a whole-word, case-insensitive pattern
+ */
+const buildMatcher = (watchlist) => {
+  const terms = uniqueBy(
+    [...watchlist.keywords, ...watchlist.schemes.flatMap((scheme) => getSchemeTerms(scheme.schemeName))],
+    (term) => term.toLowerCase()
+  );
+  return {
+    watchlist,
+    patterns: terms.map((term) => ({
+      term,
+      regex: new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegex(term)}($|[^\\p{L}\\p{N}])`, 'iu'),
+    })),
+  };
+};
+
+/**
+ * Write an alert for each article a watchlist matches. An article already in
+ * the user's feed keeps its read state; this watchlist's match is replaced.
+ * @param {Array} articles - News with title, description and publishedAt
+ * @param {Array} watchlists - Watchlist documents (lean)
+ * @returns {Promise<number>} Matches written
+ */
+const tagArticles = async (articles, watchlists) => {
+  const matchers = watchlists.map(buildMatcher);
+  const operations = [];
+
+  articles.forEach((article) => {
+    const text = `${article.title} ${article.description || ''}`;
+    matchers.forEach(({ watchlist, patterns }) => {
+      const terms = patterns.filter(({ regex }) => regex.test(text)).map(({ term }) => term);
+      if (terms.length === 0) return;
+
+      const filter = { user: watchlist.user, article: article._id };
+      operations.push(
+        { updateOne: { filter, update: { $pull: { matches: { watchlist: watchlist._id } } } } },
+        {
+          updateOne: {
+            filter,
+            update: {
+              $setOnInsert: { publishedAt: article.publishedAt, readAt: null },
+              $push: { matches: { watchlist: watchlist._id, name: watchlist.name, terms } },
+            },
+            upsert: true,
+          },
+        }
+      );
+    });
+  });
+
+  if (operations.length > 0) {
+    await NewsAlert.bulkWrite(operations, { ordered: true });
+  }
+  return operations.length / 2;
+};
+
+/**
+ * Remove a watchlist's matches, and the alerts left with none
+ */
+const removeWatchlistMatches = async (watchlist) => {
+  await NewsAlert.updateMany(
+    { user: watchlist.user, 'matches.watchlist': watchlist._id },
+    { $pull: { matches: { watchlist: watchlist._id } } }
+  );
+  await NewsAlert.deleteMany({ user: watchlist.user, matches: { $size: 0 } });
+};
+
+/**
+ * Match a just-saved watchlist against recent news, so its feed isn't empty
+ * until the next refresh
+ */
+const retagWatchlist = async (watchlist) => {
+  await removeWatchlistMatches(watchlist);
+
+  const since = new Date();
+  since.setDate(since.getDate() - BACKFILL_DAYS);
+  const articles = await News.find({ isActive: true, publishedAt: { $gte: since } })
+    .select('title description publishedAt')
+    .lean();
+  await tagArticles(articles, [watchlist]);
+};
+
+/**
+ * Clean and check watchlist fields from a request
+ * @param {Object} data - name, keywords and schemes
+ * @returns {Object} { name, keywords, schemes }
+ */
+const normaliseWatchlist = (data) => {
+  const name = typeof data.name === 'string' ? data.name.trim() : '';
+  const keywords = uniqueBy(
+    (Array.isArray(data.keywords) ? data.keywords : [])
+      .filter((keyword) => typeof keyword === 'string')
+      .map((keyword) => keyword.trim().replace(/\s+/g, ' '))
+      .filter(Boolean),
+    (keyword) => keyword.toLowerCase()
+  );
+  const schemes = uniqueBy(
+    (Array.isArray(data.schemes) ? data.schemes : [])
+      .filter((scheme) => scheme && scheme.schemeCode && scheme.schemeName)
+      .map((scheme) => ({ schemeCode: String(scheme.schemeCode), schemeName: String(scheme.schemeName).trim() })),
+    (scheme) => scheme.schemeCode
+  );
+
+  if (!name) {
+    throw createWatchlistError('Watchlist name is required');
+  }
+  if (keywords.length === 0 && schemes.length === 0) {
+    throw createWatchlistError('Add at least one keyword or scheme');
+  }
+  if (keywords.some((keyword) => keyword.length < 2)) {
+    throw createWatchlistError('Keywords must be at least 2 characters');
+  }
+  if (keywords.length > MAX_KEYWORDS) {
+    throw createWatchlistError(`A watchlist can have at most ${MAX_KEYWORDS} keywords`);
+  }
+  if (schemes.length > MAX_SCHEMES) {
+    throw createWatchlistError(`A watchlist can have at most ${MAX_SCHEMES} schemes`);
+  }
+
+  return { name, keywords, schemes };
+};
+
+/**
+ * Convert a watchlist document to the shape sent to clients, with the terms
+ * each scheme is matched by
+ */
+const toWatchlist = (watchlist) => ({
+  id: watchlist._id.toString(),
+  name: watchlist.name,
+  keywords: watchlist.keywords,
+  schemes: watchlist.schemes.map(({ schemeCode, schemeName }) => ({
+    schemeCode,
+    schemeName,
+    terms: getSchemeTerms(schemeName),
+  })),
+  createdAt: watchlist.createdAt,
+  updatedAt: watchlist.updatedAt,
+});
+
+/**
+ * Convert an alert with its article to a feed item: the article, which
+ * watchlists it matched and whether the user has seen it
+ */
+const toFeedItem = ({ article, matches, readAt }) => ({
+  ...article,
+  matches: matches.map(({ watchlist, name, terms }) => ({ watchlistId: watchlist.toString(), name, terms })),
+  isRead: !!readAt,
+});
+
+/**
+ * Get a user's watchlists, oldest first
+ * @param {string} userId - Owner's user ID
+ * @returns {Promise<Array>}
+ */
+const getWatchlistsForUser = async (userId) => {
+  try {
+    if (!isDatabaseConnected()) {
+      logger.warn('Database not connected, returning empty array for watchlists');
+      return [];
+    }
+
+    const watchlists = await Watchlist.find({ user: userId }).sort({ createdAt: 1 }).lean();
+    return watchlists.map(toWatchlist);
+  } catch (error) {
+    logger.error('Error getting watchlists:', error.message);
+    return [];
+  }
+};
+
+/**
+ * Create a watchlist and match it against recent news
+ * @param {string} userId - Owner's user ID
+ * @param {Object} data - name, keywords and schemes
+ * @returns {Promise<Object>} Created watchlist
+ */
+const createWatchlist = async (userId, data) => {
+  try {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected. Cannot create watchlist.');
+    }
+
+    const fields = normaliseWatchlist(data);
+    const count = await Watchlist.countDocuments({ user: userId });
+    if (count >= MAX_WATCHLISTS) {
+      throw createWatchlistError(`You can have at most ${MAX_WATCHLISTS} watchlists`);
+    }
+
+    const watchlist = new Watchlist({ user: userId, ...fields });
+    await watchlist.save();
+    await retagWatchlist(watchlist.toObject());
+
+    logger.info(`Created watchlist ${watchlist._id} for user ${userId}`);
+
+    return toWatchlist(watchlist.toObject());
+  } catch (error) {
+    if (error.code !== 'INVALID_WATCHLIST') {
+      logger.error('Error creating watchlist:', error.message);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Update a watchlist's name, keywords or schemes, and re-match it against recent news
+ * @param {string} userId - Owner's user ID
+ * @param {string} watchlistId - MongoDB ObjectId
+ * @param {Object} updates - Partial watchlist data
+ * @returns {Promise<Object|null>} Updated watchlist or null if not found
+ */
+const updateWatchlist = async (userId, watchlistId, updates) => {
+  try {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected. Cannot update watchlist.');
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(watchlistId)) {
+      logger.warn(`Invalid watchlist ID format: ${watchlistId}`);
+      return null;
+    }
+
+    const watchlist = await Watchlist.findOne({ _id: watchlistId, user: userId });
+    if (!watchlist) {
+      return null;
+    }
+
+    const fields = normaliseWatchlist({
+      name: updates.name ?? watchlist.name,
+      keywords: updates.keywords ?? watchlist.keywords,
+      schemes: updates.schemes ?? watchlist.schemes,
+    });
+    watchlist.set(fields);
+    await watchlist.save();
+    await retagWatchlist(watchlist.toObject());
+
+    logger.info(`Updated watchlist ${watchlistId}`);
+
+    return toWatchlist(watchlist.toObject());
+  } catch (error) {
+    if (error.code !== 'INVALID_WATCHLIST') {
+      logger.error('Error updating watchlist:', error.message);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Delete a watchlist, and the alerts only it matched
+ * @param {string} userId - Owner's user ID
+ * @param {string} watchlistId - MongoDB ObjectId
+ * @returns {Promise<boolean>} True if deleted, false if not found
+ */
+const deleteWatchlist = async (userId, watchlistId) => {
+  try {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected. Cannot delete watchlist.');
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(watchlistId)) {
+      logger.warn(`Invalid watchlist ID format: ${watchlistId}`);
+      return false;
+    }
+
+    const watchlist = await Watchlist.findOneAndDelete({ _id: watchlistId, user: userId }).lean();
+    if (!watchlist) {
+      return false;
+    }
+    await removeWatchlistMatches(watchlist);
+
+    logger.info(`Deleted watchlist ${watchlistId} for user ${userId}`);
+    return true;
+  } catch (error) {
+    logger.error('Error deleting watchlist:', error.message);
+    throw error;
+  }
+};
+
+/**
+ * Get the articles that matched a user's watchlists, newest first
+ * @param {string} userId - Owner's user ID
+ * @param {Object} options - page, limit, and watchlistId to show one watchlist's matches
+ * @returns {Promise<Object>} { data, pagination, unreadCount }
+ */
+const getFeedForUser = async (userId, { page = 1, limit = 30, watchlistId } = {}) => {
+  const empty = { data: [], pagination: { total: 0, page, limit, totalPages: 0 }, unreadCount: 0 };
+  try {
+    if (!isDatabaseConnected()) {
+      logger.warn('Database not connected, returning empty news feed');
+      return empty;
+    }
+
+    const query = { user: userId };
+    if (watchlistId && mongoose.Types.ObjectId.isValid(watchlistId)) {
+      query['matches.watchlist'] = watchlistId;
+    }
+
+    const [alerts, total, unreadCount] = await Promise.all([
+      NewsAlert.find(query)
+        .sort({ publishedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate('article')
+        .lean(),
+      NewsAlert.countDocuments(query),
+      NewsAlert.countDocuments({ user: userId, readAt: null }),
+    ]);
+
+    return {
+      // Articles removed from the news since they were matched are skipped
+      data: alerts.filter((alert) => alert.article && alert.article.isActive).map(toFeedItem),
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+      unreadCount,
+    };
+  } catch (error) {
+    logger.error('Error getting news feed:', error.message);
+    return empty;
+  }
+};
+
+/**
+ * Count the matched articles a user hasn't seen
+ * @param {string} userId - Owner's user ID
+ * @returns {Promise<number>}
+ */
+const getUnreadCount = async (userId) => {
+  try {
+    if (!isDatabaseConnected()) {
+      return 0;
+    }
+    return await NewsAlert.countDocuments({ user: userId, readAt: null });
+  } catch (error) {
+    logger.error('Error counting unread news:', error.message);
+    return 0;
+  }
+};
+
+/**
+ * Mark matched articles as seen
+ * @param {string} userId - Owner's user ID
+ * @param {string[]} [articleIds] - Articles to mark; all of the user's when omitted
+ * @returns {Promise<number>} Alerts marked
+ */
+const markAlertsRead = async (userId, articleIds) => {
+  try {
+    if (!isDatabaseConnected()) {
+      throw new Error('Database not connected. Cannot mark news as read.');
+    }
+
+    const query = { user: userId, readAt: null };
+    if (Array.isArray(articleIds)) {
+      query.article = { $in: articleIds.filter((id) => mongoose.Types.ObjectId.isValid(id)) };
+    }
+
+    const result = await NewsAlert.updateMany(query, { readAt: new Date() });
+    return result.modifiedCount;
+  } catch (error) {
+    logger.error('Error marking news as read:', error.message);
+    throw error;
+  }
+};
+
+/**
+ * Match the articles saved since a news refresh started against every watchlist.
+ * Never throws, so a matching problem doesn't fail the refresh.
+ * @param {Date} since - When the refresh started
+ * @returns {Promise<number>} Matches written
+ */
+const tagNewArticles = async (since) => {
+  try {
+    if (!isDatabaseConnected()) {
+      logger.warn('Database not connected, skipping watchlist matching');
+      return 0;
+    }
+
+    const [articles, watchlists] = await Promise.all([
+      News.find({ isActive: true, createdAt: { $gte: since } }).select('title description publishedAt').lean(),
+      Watchlist.find().lean(),
+    ]);
+    if (articles.length === 0 || watchlists.length === 0) {
+      return 0;
+    }
+
+    const tagged = await tagArticles(articles, watchlists);
+    logger.info(`Matched ${articles.length} new articles against ${watchlists.length} watchlists: ${tagged} matches`);
+    return tagged;
+  } catch (error) {
+    logger.error('Error matching news against watchlists:', error.message);
+    return 0;
+  }
+};
+
+module.exports = {
+  getWatchlistsForUser,
+  createWatchlist,
+  updateWatchlist,
+  deleteWatchlist,
+  getFeedForUser,
+  getUnreadCount,
+  markAlertsRead,
+  tagNewArticles,
+};
@@ -0,0 +1,28 @@
+// server/utils/fundHouses.js
+
+// Fund houses as scheme names start and as the news names them.
+// Longest first, so "Aditya Birla Sun Life" is found before anything shorter.
+const FUND_HOUSES = [
+  '360 ONE', 'Aditya Birla Sun Life', 'Axis', 'Bajaj Finserv', 'Bandhan', 'Bank of India',
+  'Baroda BNP Paribas', 'Canara Robeco', 'DSP', 'Edelweiss', 'Franklin India', 'Franklin Templeton',
+  'Groww', 'HDFC', 'Helios', 'HSBC', 'ICICI Prudential', 'Invesco India', 'ITI', 'JM Financial',
+  'Kotak', 'LIC', 'Mahindra Manulife', 'Mirae Asset', 'Motilal Oswal', 'Navi', 'Nippon India',
+  'NJ', 'Old Bridge', 'Parag Parikh', 'PGIM India', 'Quant', 'Quantum', 'Samco', 'SBI',
+  'Shriram', 'Sundaram', 'Tata', 'Taurus', 'Trust', 'Union', 'UTI', 'WhiteOak Capital', 'Zerodha',
+].sort((a, b) => b.length - a.length);
+
+/**
+ * The fund house a scheme belongs to, from the start of its name
+ * (e.g. "HDFC Mid-Cap Opportunities Fund - Direct Plan - Growth" -> "HDFC")
+ * @param {string} schemeName
+ * @returns {string|undefined}
+ */
+const getFundHouse = (schemeName) => {
+  const name = String(schemeName || '').toLowerCase();
+  return FUND_HOUSES.find((house) => name.startsWith(`${house.toLowerCase()} `));
+};
+
+module.exports = {
+  FUND_HOUSES,
+  getFundHouse,
+};
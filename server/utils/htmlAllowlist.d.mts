@@ -0,0 +1,5 @@
+// Types for htmlAllowlist.mjs, for the client's TypeScript
+
+export const ALLOWED_ATTRIBUTES: Record<string, string[]>;
+export const ALLOWED_TAGS: string[];
+export const DROPPED_TAGS: string[];
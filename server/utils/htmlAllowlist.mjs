@@ -0,0 +1,30 @@
+// server/utils/htmlAllowlist.mjs
+
+/**
+ * What survives in HTML posts (written before Markdown support), for both
+ * sanitisers: the client's (client/src/utils/sanitizeHtml.ts) and the
+ * server's, for crawlers and the RSS feed (sanitizeHtml.js). Links and
+ * images also keep only URLs that markdownParser's safeUrl allows.
+ */
+
+// Formatting attributes per tag; every other attribute is removed
+export const ALLOWED_ATTRIBUTES = {
+  a: ['href', 'title', 'target'],
+  img: ['src', 'alt', 'title', 'width', 'height'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan'],
+  ol: ['start'],
+};
+
+// Tags kept; other tags not dropped below are unwrapped, keeping their text
+export const ALLOWED_TAGS = [
+  'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'strong', 'b', 'em', 'i', 'u', 's', 'del', 'sub', 'sup',
+  'blockquote', 'ul', 'ol', 'li', 'a', 'img', 'pre', 'code', 'table', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td',
+  'figure', 'figcaption', 'span', 'div',
+];
+
+// Tags removed with everything inside them: scripts, styles, frames and forms
+export const DROPPED_TAGS = [
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'form', 'input', 'button', 'textarea',
+  'select', 'link', 'meta', 'base', 'svg', 'math', 'template', 'noscript',
+];
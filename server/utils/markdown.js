@@ -0,0 +1,114 @@
+// server/utils/markdown.js
+
+/**
+ * Markdown blog posts rendered to HTML for crawlers and the RSS feed. The
+ * parser is shared with the client (markdownParser.mjs): text is escaped, so
+ * raw HTML in a post shows as text, and links and images only keep http(s),
+ * mailto, tel and site-relative URLs.
+ * Embed blocks (:::name ... :::) are rendered by the caller.
+ */
+
+// The parser is an ES module, so the client can import it too
+const loadParser = () => import('./markdownParser.mjs');
+
+const escapeHtml = (value) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+// Site paths made absolute, for readers such as feed apps that aren't on the site
+const resolveUrl = (url, baseUrl) => (baseUrl && url.startsWith('/') && !url.startsWith('//') ? `${baseUrl}${url}` : url);
+
+const titleAttribute = (title) => (title ? ` title="${escapeHtml(title)}"` : '');
+
+const renderInline = (nodes, options) => nodes.map((node) => {
+  switch (node.type) {
+    case 'text':
+      return escapeHtml(node.text);
+    case 'strong':
+    case 'em':
+    case 'del':
+      return `<${node.type}>${renderInline(node.children, options)}</${node.type}>`;
+    case 'code':
+      return `<code>${escapeHtml(node.text)}</code>`;
+    case 'break':
+      return '<br />';
+    case 'image':
+      return `<img src="${escapeHtml(resolveUrl(node.src, options.baseUrl))}" alt="${escapeHtml(node.alt)}"${titleAttribute(node.title)} />`;
+    case 'link':
+      return `<a href="${escapeHtml(resolveUrl(node.href, options.baseUrl))}"${titleAttribute(node.title)}>${renderInline(node.children, options)}</a>`;
+    default:
+      return '';
+  }
+}).join('');
+
+const alignAttribute = (align) => (align ? ` style="text-align: ${align}"` : '');
+
+const renderBlocks = (blocks, options, { tight = false, nested = false } = {}) => blocks.map((block) => {
+  switch (block.type) {
+    case 'heading':
+      return `<h${block.level}>${renderInline(block.children, options)}</h${block.level}>`;
+    case 'paragraph':
+      return tight ? renderInline(block.children, options) : `<p>${renderInline(block.children, options)}</p>`;
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : '';
+      const items = block.items
+        .map(item => `<li>${renderBlocks(item, options, { tight: !block.loose, nested: true })}</li>`)
+        .join('');
+      return `<${tag}${start}>${items}</${tag}>`;
+    }
+    case 'blockquote':
+      return `<blockquote>${renderBlocks(block.children, options, { nested: true })}</blockquote>`;
+    case 'code': {
+      const language = block.language ? ` class="language-${escapeHtml(block.language)}"` : '';
+      return `<pre><code${language}>${escapeHtml(block.text)}</code></pre>`;
+    }
+    case 'rule':
+      return '<hr />';
+    case 'table': {
+      const header = block.header
+        .map((cell, column) => `<th${alignAttribute(block.align[column])}>${renderInline(cell, options)}</th>`)
+        .join('');
+      const rows = block.rows
+        .map(row => `<tr>${row.map((cell, column) => `<td${alignAttribute(block.align[column])}>${renderInline(cell, options)}</td>`).join('')}</tr>`)
+        .join('');
+      return `<table><thead><tr>${header}</tr></thead><tbody>${rows}</tbody></table>`;
+    }
+    case 'directive':
+      // As in the app, only top-level blocks are embedded
+      return !nested && options.renderEmbed ? options.renderEmbed(block.name, block.attributes) : '';
+    default:
+      return '';
+  }
+}).join(tight ? '' : '\n');
+
+/**
+ * HTML for a Markdown post
+ * @param {string} markdown - Post content
+ * @param {Object} options
+ * @param {string} [options.baseUrl] - Prefix for site-relative links and images
+ * @param {Function} [options.renderEmbed] - (name, attributes) => HTML for an embed block
+ * @returns {Promise<string>}
+ */
+const renderMarkdown = async (markdown, options = {}) => {
+  const { parseMarkdown } = await loadParser();
+  return renderBlocks(parseMarkdown(String(markdown || '')), options);
+};
+
+/**
+ * The words of a Markdown post, without syntax or embeds
+ * @param {string} markdown - Post content
+ * @returns {Promise<string>}
+ */
+const markdownToText = async (markdown) => {
+  const { markdownToPlainText } = await loadParser();
+  return markdownToPlainText(markdown);
+};
+
+module.exports = {
+  renderMarkdown,
+  markdownToText,
+};
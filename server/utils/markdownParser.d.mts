@@ -0,0 +1,37 @@
+// Types for markdownParser.mjs, for the client's TypeScript
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: MarkdownInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; title?: string; children: MarkdownInline[] }
+  | { type: 'image'; src: string; alt: string; title?: string }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: 1 | 2 | 3 | 4 | 5 | 6; children: MarkdownInline[] }
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; start: number; loose: boolean; items: MarkdownBlock[][] }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'rule' }
+  | { type: 'table'; align: TableAlign[]; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'directive'; name: string; attributes: Record<string, string> };
+
+/**
+ * The URL if it's safe to link to: http(s), mailto and tel links, and paths
+ * on this site. javascript:, data: and other schemes are refused.
+ */
+export function safeUrl(url: string, options?: { image?: boolean }): string | null;
+
+// Inside link text, URLs aren't linked again
+export function parseInline(text: string, inLink?: boolean): MarkdownInline[];
+
+export function parseMarkdown(markdown: string): MarkdownBlock[];
+
+/**
+ * The words of a post, without Markdown syntax or embeds, for excerpts
+ */
+export function markdownToPlainText(markdown: string): string;
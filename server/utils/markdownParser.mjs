@@ -0,0 +1,515 @@
+// server/utils/markdownParser.mjs
+
+/**
+ * Markdown for blog posts, parsed into blocks and inline nodes. One parser
+ * for both sides: the client renders the nodes as React elements
+ * (client/src/utils/markdown.ts) and the server as HTML for crawlers and the
+ * RSS feed (markdown.js). Neither inserts raw HTML from a post, and links
+ * and images only keep http(s), mailto, tel and site-relative URLs.
+ *
+ * An ES module so the client can import it; the server loads it with
+ * import(). Types are in markdownParser.d.mts.
+ *
+ * Supported: ATX headings (#), paragraphs, **strong**, *emphasis*,
+ * ~~strikethrough~~, `code`, links, images, bare and <angle> URLs, bullet and
+ * numbered lists (nested by indenting), blockquotes, fenced code, rules,
+ * pipe tables, and directive blocks for embeds:
+ *
+ *   :::fund-chart
+ *   funds: 120503, 118989
+ *   period: 5Y
+ *   :::
+ */
+
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*([^`\s]*)/;
+const DIRECTIVE_OPEN = /^ {0,3}:::[ \t]*([a-z][\w-]*)[ \t]*$/i;
+const DIRECTIVE_CLOSE = /^ {0,3}:::[ \t]*$/;
+const DIRECTIVE_ATTRIBUTE = /^\s*([a-z][\w-]*)\s*:\s*(.*?)\s*$/i;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])(?:([ \t]+)(.*))?$/;
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+const SAFE_URL = /^(?:https?:|mailto:|tel:)/i;
+const SAFE_IMAGE_URL = /^https?:/i;
+const SCHEME = /^[a-z][a-z\d+.-]*:/i;
+// Characters browsers drop from a URL before reading its scheme: tabs and
+// newlines anywhere, and controls and spaces at the ends ("java\tscript:" runs)
+const URL_TAB_OR_NEWLINE = /[\t\n\r]/g;
+const URL_EDGE_CONTROLS = /^[\u0000-\u0020]+|[\u0000-\u0020]+$/g;
+// Every ASCII control and space, removed before the scheme test to be safe
+const URL_CONTROLS = /[\u0000-\u0020\u007f]/g;
+
+const isBlank = (line) => line.trim() === '';
+
+const indentOf = (line) => line.length - line.trimStart().length;
+
+/**
+ * The URL if it's safe to link to: http(s), mailto and tel links, and paths
+ * on this site. javascript:, data: and other schemes are refused.
+ */
+export function safeUrl(url, { image = false } = {}) {
+  // The URL as the browser will read it
+  const normalized = url.replace(URL_TAB_OR_NEWLINE, '').replace(URL_EDGE_CONTROLS, '');
+  if (!normalized) return null;
+  const compact = normalized.replace(URL_CONTROLS, '');
+  if (SCHEME.test(compact)) {
+    return (image ? SAFE_IMAGE_URL : SAFE_URL).test(compact) && SCHEME.test(normalized) ? normalized : null;
+  }
+  // "//host" is another site with this page's scheme
+  if (normalized.startsWith('//')) return `https:${normalized}`;
+  return normalized;
+}
+
+// Lines that end a paragraph because they start another block
+const startsBlock = (line) => {
+  if (HEADING.test(line) || FENCE.test(line) || DIRECTIVE_OPEN.test(line) || QUOTE.test(line) || RULE.test(line)) {
+    return true;
+  }
+  // A numbered list only interrupts a paragraph when it starts at 1
+  const item = line.match(LIST_ITEM);
+  return item !== null && item[4] !== undefined && item[4].trim() !== '' && (!/^\d/.test(item[2]) || parseInt(item[2], 10) === 1);
+};
+
+const splitTableRow = (line) => {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+
+  const cells = [];
+  let cell = '';
+  let inCode = false;
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i];
+    if (char === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (char === '`') {
+      inCode = !inCode;
+      cell += char;
+    } else if (char === '|' && !inCode) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const tableAlign = (cell) => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  if (left) return 'left';
+  return null;
+};
+
+function parseBlocks(lines) {
+  const blocks = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const marker = fence[1];
+      const indent = indentOf(line);
+      const code = [];
+      i++;
+      while (i < lines.length) {
+        const closing = lines[i].trim();
+        if (closing.startsWith(marker[0].repeat(marker.length)) && closing.replace(/[`~]/g, '') === '') break;
+        code.push(lines[i].slice(Math.min(indent, indentOf(lines[i]))));
+        i++;
+      }
+      i++; // closing fence, or past the end
+      blocks.push({ type: 'code', language: fence[2].toLowerCase(), text: code.join('\n') });
+      continue;
+    }
+
+    const directive = line.match(DIRECTIVE_OPEN);
+    if (directive) {
+      const attributes = {};
+      i++;
+      while (i < lines.length && !DIRECTIVE_CLOSE.test(lines[i])) {
+        const attribute = lines[i].match(DIRECTIVE_ATTRIBUTE);
+        if (attribute) attributes[attribute[1].toLowerCase()] = attribute[2];
+        i++;
+      }
+      i++;
+      blocks.push({ type: 'directive', name: directive[1].toLowerCase(), attributes });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length,
+        children: parseInline(heading[2] ?? ''),
+      });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        if (QUOTE.test(lines[i])) {
+          quoted.push(lines[i].replace(QUOTE, ''));
+        } else if (startsBlock(lines[i])) {
+          break;
+        } else {
+          quoted.push(lines[i]); // lazy continuation of the quoted paragraph
+        }
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted) });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const parsed = parseList(lines, i);
+      blocks.push(parsed.block);
+      i = parsed.next;
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      const header = splitTableRow(line);
+      const align = splitTableRow(lines[i + 1]).map(tableAlign);
+      const rows = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        const cells = splitTableRow(lines[i]);
+        rows.push(header.map((_, column) => parseInline(cells[column] ?? '')));
+        i++;
+      }
+      blocks.push({ type: 'table', align: header.map((_, column) => align[column] ?? null), header: header.map((cell) => parseInline(cell)), rows });
+      continue;
+    }
+
+    const paragraph = [line.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines[i])) {
+      paragraph.push(lines[i].trimStart());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+function parseList(lines, from) {
+  const first = lines[from].match(LIST_ITEM);
+  const ordered = /^\d/.test(first[2]);
+  const delimiter = first[2].slice(-1);
+  const items = [];
+  let loose = false;
+  let i = from;
+
+  while (i < lines.length) {
+    const item = lines[i].match(LIST_ITEM);
+    if (!item || /^\d/.test(item[2]) !== ordered || item[2].slice(-1) !== delimiter) break;
+
+    // Continuation lines are indented to the item's text; a marker followed
+    // by five or more spaces starts indented code, so count just one
+    const spacing = item[3] ?? ' ';
+    const contentIndent = item[1].length + item[2].length + (spacing.length > 4 ? 1 : spacing.length);
+    const itemLines = [spacing.length > 4 ? spacing.slice(1) + (item[4] ?? '') : item[4] ?? ''];
+    i++;
+
+    while (i < lines.length) {
+      const line = lines[i];
+      if (isBlank(line)) {
+        let next = i + 1;
+        while (next < lines.length && isBlank(lines[next])) next++;
+        if (next < lines.length && indentOf(lines[next]) >= contentIndent) {
+          itemLines.push(...lines.slice(i, next).map(() => ''));
+          i = next;
+          continue;
+        }
+        break;
+      }
+      const indent = indentOf(line);
+      if (indent >= contentIndent) {
+        itemLines.push(line.slice(contentIndent));
+      } else if (LIST_ITEM.test(line) && indent > item[1].length) {
+        // Nested list indented less than the text, common under numbered items
+        itemLines.push(line.slice(indent));
+      } else if (startsBlock(line) || LIST_ITEM.test(line)) {
+        break;
+      } else {
+        itemLines.push(line.trimStart()); // lazy continuation of the item's paragraph
+      }
+      i++;
+    }
+
+    if (itemLines.some(isBlank)) loose = true;
+    items.push(parseBlocks(itemLines));
+
+    // Blank lines between items make the list loose, if it carries on
+    let next = i;
+    while (next < lines.length && isBlank(lines[next])) next++;
+    const following = next < lines.length ? lines[next].match(LIST_ITEM) : null;
+    if (!following || /^\d/.test(following[2]) !== ordered || following[2].slice(-1) !== delimiter) break;
+    if (next > i) loose = true;
+    i = next;
+  }
+
+  return {
+    block: { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, loose, items },
+    next: i,
+  };
+}
+
+// Text inside [...] allowing one level of nested brackets, then (url "title")
+const LINK = /^\[((?:[^[\]\\]|\\.|\[(?:[^[\]\\]|\\.)*\])*)\]\(\s*<?([^\s<>()]*(?:\([^\s()]*\)[^\s<>()]*)*)>?(?:\s+"([^"]*)")?\s*\)/;
+const AUTOLINK = /^<((?:https?:\/\/|mailto:)[^\s<>]+)>/i;
+const BARE_URL = /^https?:\/\/[^\s<]+[^\s<.,:;"')\]!?]/i;
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!|~<>"']/;
+
+// Left-flanking: not followed by whitespace; "_" also can't sit inside a word
+const canOpen = (text, at, length, char) => {
+  const next = text[at + length];
+  if (next === undefined || /\s/.test(next)) return false;
+  return char !== '_' || at === 0 || !/[\p{L}\p{N}]/u.test(text[at - 1]);
+};
+
+const canClose = (text, at, length, char) => {
+  const previous = text[at - 1];
+  if (previous === undefined || /\s/.test(previous)) return false;
+  const next = text[at + length];
+  return char !== '_' || next === undefined || !/[\p{L}\p{N}]/u.test(next);
+};
+
+// Position of the delimiter run closing one opened at `from`, skipping code spans
+const findClosing = (text, from, delimiter) => {
+  const char = delimiter[0];
+  let i = from;
+  while (i < text.length) {
+    if (text[i] === '\\') {
+      i += 2;
+      continue;
+    }
+    if (text[i] === '`') {
+      const run = text.slice(i).match(/^`+/)[0];
+      const end = text.indexOf(run, i + run.length);
+      if (end !== -1) {
+        i = end + run.length;
+        continue;
+      }
+    }
+    if (text.startsWith(delimiter, i) && canClose(text, i, delimiter.length, char)) {
+      // A single "*" mustn't close on half of a "**"
+      if (delimiter.length === 1 && text[i + 1] === char) {
+        const end = findClosing(text, i + 2, char + char);
+        if (end !== -1) {
+          i = end + 2;
+          continue;
+        }
+      } else {
+        return i;
+      }
+    }
+    i++;
+  }
+  return -1;
+};
+
+const unescape = (text) => text.replace(/\\([\\`*_{}[\]()#+\-.!|~<>"'])/g, '$1');
+
+// Inside link text, URLs aren't linked again
+export function parseInline(text, inLink = false) {
+  const nodes = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+  const push = (node) => {
+    flush();
+    nodes.push(node);
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    if (char === '\\') {
+      if (text[i + 1] === '\n') {
+        push({ type: 'break' });
+        i += 2;
+        continue;
+      }
+      if (i + 1 < text.length && ESCAPABLE.test(text[i + 1])) {
+        buffer += text[i + 1];
+        i += 2;
+        continue;
+      }
+    }
+
+    if (char === '\n') {
+      // Two trailing spaces make a hard break
+      if (/ {2,}$/.test(buffer)) {
+        buffer = buffer.replace(/ +$/, '');
+        push({ type: 'break' });
+      } else {
+        buffer = buffer.replace(/ +$/, '') + '\n';
+      }
+      i++;
+      while (text[i] === ' ') i++;
+      continue;
+    }
+
+    if (char === '`') {
+      const run = rest.match(/^`+/)[0];
+      const end = text.indexOf(run, i + run.length);
+      if (end !== -1 && text[end + run.length] !== '`') {
+        let code = text.slice(i + run.length, end).replace(/\n/g, ' ');
+        if (code.length > 2 && code.startsWith(' ') && code.endsWith(' ')) code = code.slice(1, -1);
+        push({ type: 'code', text: code });
+        i = end + run.length;
+        continue;
+      }
+      buffer += run;
+      i += run.length;
+      continue;
+    }
+
+    if (char === '!' && text[i + 1] === '[') {
+      const image = rest.slice(1).match(LINK);
+      if (image) {
+        const src = safeUrl(image[2], { image: true });
+        const alt = unescape(image[1]);
+        if (src) {
+          push({ type: 'image', src, alt, title: image[3] });
+        } else {
+          buffer += alt;
+        }
+        i += image[0].length + 1;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const link = rest.match(LINK);
+      if (link) {
+        const href = safeUrl(link[2]);
+        const children = parseInline(link[1], true);
+        if (href) {
+          push({ type: 'link', href, title: link[3], children });
+        } else {
+          flush();
+          nodes.push(...children);
+        }
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    if (char === '<' && !inLink) {
+      const autolink = rest.match(AUTOLINK);
+      if (autolink) {
+        push({ type: 'link', href: autolink[1], children: [{ type: 'text', text: autolink[1].replace(/^mailto:/i, '') }] });
+        i += autolink[0].length;
+        continue;
+      }
+    }
+
+    if ((char === 'h' || char === 'H') && !inLink && (i === 0 || !/[\p{L}\p{N}]/u.test(text[i - 1]))) {
+      const url = rest.match(BARE_URL);
+      if (url) {
+        push({ type: 'link', href: url[0], children: [{ type: 'text', text: url[0] }] });
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    if (char === '*' || char === '_' || char === '~') {
+      const run = rest.match(char === '*' ? /^\*+/ : char === '_' ? /^_+/ : /^~+/)[0];
+      const delimiter = char === '~' ? (run.length >= 2 ? '~~' : '') : run.length >= 2 ? char + char : char;
+      if (delimiter && canOpen(text, i, delimiter.length, char)) {
+        const end = findClosing(text, i + delimiter.length, delimiter);
+        if (end > i + delimiter.length) {
+          const type = char === '~' ? 'del' : delimiter.length === 2 ? 'strong' : 'em';
+          push({ type, children: parseInline(text.slice(i + delimiter.length, end), inLink) });
+          i = end + delimiter.length;
+          continue;
+        }
+      }
+      buffer += run;
+      i += run.length;
+      continue;
+    }
+
+    buffer += char;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}
+
+export function parseMarkdown(markdown) {
+  const lines = markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+  return parseBlocks(lines);
+}
+
+const inlineText = (nodes) => nodes.map((node) => {
+  switch (node.type) {
+    case 'text':
+    case 'code':
+      return node.text;
+    case 'image':
+      return node.alt;
+    case 'break':
+      return ' ';
+    default:
+      return inlineText(node.children);
+  }
+}).join('');
+
+const blockText = (blocks) => blocks.flatMap((block) => {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+      return [inlineText(block.children)];
+    case 'list':
+      return block.items.flatMap(blockText);
+    case 'blockquote':
+      return blockText(block.children);
+    case 'table':
+      return [block.header, ...block.rows].map(row => row.map(inlineText).join(' '));
+    default:
+      return []; // code, rules and embeds aren't prose
+  }
+});
+
+/**
+ * The words of a post, without Markdown syntax or embeds, for excerpts
+ * @param {string} markdown - Post content
+ * @returns {string}
+ */
+export function markdownToPlainText(markdown) {
+  return blockText(parseMarkdown(String(markdown || ''))).join(' ').replace(/\s+/g, ' ').trim();
+}
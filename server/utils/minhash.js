@@ -0,0 +1,105 @@
+// server/utils/minhash.js
+
+// Signature length: the similarity estimate is usually within ±0.05 of the true Jaccard
+const NUM_HASHES = 128;
+
+// Words that say nothing about which story an article is about
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'over', 'says', 'that', 'the', 'this', 'to', 'was', 'were', 'will', 'with',
+  'after', 'amid', 'ahead', 'here', 'how', 'what', 'why', 'today', 'latest', 'news', 'live', 'updates',
+]);
+
+// One seed per hash function, from a fixed sequence so signatures are stable across restarts
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => Math.imul(i + 1, 0x9e3779b1) >>> 0);
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+const fnv1a = (text) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * MurmurHash3's finaliser: spreads the bits of a 32-bit value
+ */
+const mix32 = (value) => {
+  let hash = value;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+};
+
+/**
+ * Lowercase words without punctuation, stopwords or plural "s"
+ * (e.g. "Sensex jumps 500 points as IT stocks rally" -> ["sensex", "jump", "500", "point", "stock", "rally"])
+ */
+const tokenize = (text) =>
+  String(text || '')
+    .toLowerCase()
+    .replace(/(\d),(\d)/g, '$1$2') // 24,000 -> 24000
+    .replace(/\s*per\s?cent\b/g, '%')
+    .replace(/\bpts\b/g, 'points')
+    .replace(/['’]s\b/g, '')
+    .replace(/[^a-z0-9%.]+/g, ' ')
+    .split(' ')
+    .map((word) => word.replace(/^\.+|\.+$/g, ''))
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word))
+    .map((word) => (word.length > 3 && /[^s]s$/.test(word) ? word.slice(0, -1) : word));
+
+/**
+ * Shingles of an article: the words of its title and the start of its
+ * description. Single words, since sources word the same story differently
+ * and word pairs rarely survive the rewording.
+ * @param {string} title
+ * @param {string} [description]
+ * @returns {Set<string>}
+ */
+const articleShingles = (title, description) =>
+  new Set([...tokenize(title), ...tokenize(description).slice(0, 40)]);
+
+/**
+ * MinHash signature of a set of shingles
+ * @param {Set<string>} shingles
+ * @returns {number[]} NUM_HASHES minimums, or an empty array for an empty set
+ */
+const minhashSignature = (shingles) => {
+  if (shingles.size === 0) return [];
+
+  const signature = new Array(NUM_HASHES).fill(0xffffffff);
+  shingles.forEach((shingle) => {
+    const base = fnv1a(shingle);
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const hash = mix32(base ^ SEEDS[i]);
+      if (hash < signature[i]) signature[i] = hash;
+    }
+  });
+  return signature;
+};
+
+/**
+ * Estimated Jaccard similarity of the shingle sets behind two signatures (0 to 1)
+ */
+const estimateSimilarity = (a, b) => {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / a.length;
+};
+
+module.exports = {
+  tokenize,
+  articleShingles,
+  minhashSignature,
+  estimateSimilarity,
+};
@@ -0,0 +1,63 @@
+// server/utils/sanitizeHtml.js
+const sanitize = require('sanitize-html');
+
+/**
+ * Allowlist sanitiser for HTML posts (written before Markdown support), for
+ * crawlers and the RSS feed, with the same allowlist as the app's sanitiser
+ * (htmlAllowlist.mjs): scripts, styles, frames and forms go with their
+ * content, other unknown tags are unwrapped, only formatting attributes
+ * survive, and links and images keep only safe URLs.
+ */
+
+// Both are ES modules, shared with the client
+const loadRules = async () => {
+  const [allowlist, { safeUrl }] = await Promise.all([
+    import('./htmlAllowlist.mjs'),
+    import('./markdownParser.mjs'),
+  ]);
+  return { ...allowlist, safeUrl };
+};
+
+// The URL attribute of a link or image, kept only if it's safe
+const transformUrl = (safeUrl, name, { image = false } = {}) => (tagName, attribs) => {
+  const { rel, ...attributes } = attribs;
+  const url = safeUrl(attributes[name] || '', { image });
+  if (url) {
+    attributes[name] = url;
+  } else {
+    delete attributes[name];
+  }
+  if (!image && attributes.target) {
+    attributes.target = '_blank';
+    attributes.rel = 'noopener noreferrer';
+  }
+  return { tagName, attribs: attributes };
+};
+
+/**
+ * HTML with everything outside the allowlist removed
+ * @param {string} html - Post content
+ * @returns {Promise<string>}
+ */
+const sanitizeHtml = async (html) => {
+  const { ALLOWED_TAGS, ALLOWED_ATTRIBUTES, DROPPED_TAGS, safeUrl } = await loadRules();
+  const dropped = new Set(DROPPED_TAGS);
+
+  return sanitize(String(html || ''), {
+    allowedTags: ALLOWED_TAGS,
+    allowedAttributes: { ...ALLOWED_ATTRIBUTES, a: [...ALLOWED_ATTRIBUTES.a, 'rel'] },
+    // safeUrl has already decided; these catch anything it let through
+    allowedSchemes: ['http', 'https', 'mailto', 'tel'],
+    allowedSchemesByTag: { img: ['http', 'https'] },
+    nonTextTags: DROPPED_TAGS,
+    exclusiveFilter: frame => dropped.has(frame.tag),
+    transformTags: {
+      a: transformUrl(safeUrl, 'href'),
+      img: transformUrl(safeUrl, 'src', { image: true }),
+    },
+  });
+};
+
+module.exports = {
+  sanitizeHtml,
+};
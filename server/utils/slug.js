@@ -0,0 +1,23 @@
+// server/utils/slug.js
+
+const MAX_SLUG_LENGTH = 80;
+
+/**
+ * URL slug from a title: lowercase ASCII words joined by hyphens
+ * (e.g. "SIP vs Lumpsum: What's Better?" -> "sip-vs-lumpsum-whats-better")
+ */
+const slugify = (text) => {
+  if (!text) return '';
+  return String(text)
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // strip accents
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['\u2019]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/-+$/g, '');
+};
+
+module.exports = { slugify };